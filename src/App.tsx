@@ -4,6 +4,7 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider, useAuth } from "@/hooks/useAuth";
+import { BranchProvider } from "@/hooks/useBranch";
 import { AuthPage } from "@/components/auth/AuthPage";
 import { AppLayout } from "@/components/layout/AppLayout";
 import Dashboard from "./pages/Dashboard";
@@ -11,6 +12,7 @@ import Services from "./pages/Services";
 import Customers from "./pages/Customers";
 import Workers from "./pages/Workers";
 import Inventory from "./pages/Inventory";
+import Products from "./pages/Products";
 import Alerts from "./pages/Alerts";
 import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
@@ -18,17 +20,19 @@ import { AccessDenied } from "./components/ui/AccessDenied";
 import AdminManagement from "./pages/AdminManagement";
 import { EmailConfirmation } from "./components/auth/EmailConfirmation";
 import { Profile } from "@/hooks/useAuth";
-import { isAdmin } from "@/utils/permissions";
+import { canAccessFeature } from "@/utils/permissions";
 import { AccessControl } from "@/components/ui/AccessControl";
 import { useRealtimePermissions } from "@/hooks/useRealtimePermissions";
 import WorkerPayroll from "./pages/WorkerPayroll";
 import FinancialAnalytics from "./pages/FinancialAnalytics";
+import Attendance from "./pages/Attendance";
+import CashDrawer from "./pages/CashDrawer";
 
 const queryClient = new QueryClient();
 
-// Protected Route Component for Admin-only access
-function AdminRoute({ children, profile }: { children: React.ReactNode; profile: Profile | null }) {
-  const { isAdmin: hasAdminAccess, isLoading: permissionsLoading } = useRealtimePermissions();
+// Protected Route Component: the user's role must grant the feature
+function AdminRoute({ children, profile, feature }: { children: React.ReactNode; profile: Profile | null; feature: string }) {
+  const { isLoading: permissionsLoading } = useRealtimePermissions();
   
   // Show loading while permissions are being fetched
   if (permissionsLoading) {
@@ -42,13 +46,12 @@ function AdminRoute({ children, profile }: { children: React.ReactNode; profile:
     );
   }
   
-  // Check both old and new permission systems for backward compatibility
-  const hasAccess = isAdmin(profile) || hasAdminAccess;
+  const hasAccess = canAccessFeature(profile, feature);
   
   if (!hasAccess) {
     return <AccessDenied 
-      title="Admin Access Required"
-      description="This section is only available to administrators. Regular users can manage services, customers, and inventory."
+      title="Access Required"
+      description="Your role does not include this section. Ask an administrator to grant it in Admin Management."
     />;
   }
   return <>{children}</>;
@@ -89,53 +92,85 @@ function AppContent() {
   // User and profile exist, show main app with access control
   return (
     <AccessControl profile={profile}>
-      <AppLayout>
-        <Routes>
-          {/* Admin-only routes */}
-          <Route path="/" element={
-            <AdminRoute profile={profile}>
-              <Dashboard />
-            </AdminRoute>
-          } />
-          <Route path="/workers" element={
-            <AdminRoute profile={profile}>
-              <Workers />
-            </AdminRoute>
-          } />
-          <Route path="/admin" element={
-            <AdminRoute profile={profile}>
-              <AdminManagement />
-            </AdminRoute>
-          } />
-          <Route path="/worker-payroll" element={
-            <AdminRoute profile={profile}>
-              <WorkerPayroll />
-            </AdminRoute>
-          } />
-          <Route path="/financial-analytics" element={
-            <AdminRoute profile={profile}>
-              <FinancialAnalytics />
-            </AdminRoute>
-          } />
-          <Route path="/settings" element={
-            <AdminRoute profile={profile}>
-              <Settings />
-            </AdminRoute>
-          } />
-          
-          {/* User-accessible routes */}
-          <Route path="/services" element={<Services />} />
-          <Route path="/customers" element={<Customers />} />
-          <Route path="/inventory" element={<Inventory />} />
-          <Route path="/alerts" element={<Alerts />} />
-          
-          {/* Redirect root to services for non-admin users */}
-          <Route path="/dashboard" element={<Navigate to="/services" replace />} />
-          
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </AppLayout>
+      <BranchProvider>
+        <AppLayout>
+          <Routes>
+            {/* Each route requires the matching feature grant */}
+            <Route path="/" element={
+              <AdminRoute profile={profile} feature="dashboard">
+                <Dashboard />
+              </AdminRoute>
+            } />
+            <Route path="/workers" element={
+              <AdminRoute profile={profile} feature="workers">
+                <Workers />
+              </AdminRoute>
+            } />
+            <Route path="/admin" element={
+              <AdminRoute profile={profile} feature="user_management">
+                <AdminManagement />
+              </AdminRoute>
+            } />
+            <Route path="/worker-payroll" element={
+              <AdminRoute profile={profile} feature="payroll">
+                <WorkerPayroll />
+              </AdminRoute>
+            } />
+            <Route path="/financial-analytics" element={
+              <AdminRoute profile={profile} feature="reports">
+                <FinancialAnalytics />
+              </AdminRoute>
+            } />
+            <Route path="/settings" element={
+              <AdminRoute profile={profile} feature="settings">
+                <Settings />
+              </AdminRoute>
+            } />
+            
+            <Route path="/services" element={
+              <AdminRoute profile={profile} feature="services">
+                <Services />
+              </AdminRoute>
+            } />
+            <Route path="/customers" element={
+              <AdminRoute profile={profile} feature="customers">
+                <Customers />
+              </AdminRoute>
+            } />
+            <Route path="/inventory" element={
+              <AdminRoute profile={profile} feature="inventory">
+                <Inventory />
+              </AdminRoute>
+            } />
+            <Route path="/products" element={
+              <AdminRoute profile={profile} feature="inventory">
+                <Products />
+              </AdminRoute>
+            } />
+            <Route path="/alerts" element={
+              <AdminRoute profile={profile} feature="alerts">
+                <Alerts />
+              </AdminRoute>
+            } />
+            <Route path="/attendance" element={
+              <AdminRoute profile={profile} feature="attendance">
+                <Attendance />
+              </AdminRoute>
+            } />
+            <Route path="/cash-drawer" element={
+              <AdminRoute profile={profile} feature="cash_drawer">
+                <CashDrawer />
+              </AdminRoute>
+            } />
+            
+            {/* Redirect root to services for non-admin users */}
+            <Route path="/dashboard" element={<Navigate to="/services" replace />} />
+            
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </AppLayout>
+      </BranchProvider>
     </AccessControl>
   );
 }
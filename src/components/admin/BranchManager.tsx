@@ -0,0 +1,289 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBranch } from "@/hooks/useBranch";
+import { Building2, Edit, Plus, Users } from "lucide-react";
+import { Branch, fetchBranches, fetchUserBranches, saveBranch, setUserBranches } from "@/utils/branches";
+
+interface BranchManagerProps {
+  users: { user_id: string; full_name: string; email: string }[];
+  /** Users whose role sees every branch regardless of assignment */
+  fullAccessUserIds: string[];
+}
+
+const emptyForm = { name: "", code: "", address: "", phone: "", is_active: true };
+
+export function BranchManager({ users, fullAccessUserIds }: BranchManagerProps) {
+  const { toast } = useToast();
+  const { refreshBranches } = useBranch();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [assignments, setAssignments] = useState<Record<string, string[]>>({});
+  const [editingBranch, setEditingBranch] = useState<Branch | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [savingUserId, setSavingUserId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBranches();
+  }, []);
+
+  const loadBranches = async () => {
+    try {
+      const [branchList, userBranches] = await Promise.all([fetchBranches(), fetchUserBranches()]);
+      setBranches(branchList);
+      setAssignments(userBranches);
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load branches",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDialog = (branch?: Branch) => {
+    setEditingBranch(branch || null);
+    setForm(branch
+      ? { name: branch.name, code: branch.code, address: branch.address || "", phone: branch.phone || "", is_active: branch.is_active }
+      : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim() || !form.code.trim()) {
+      toast({
+        title: "Incomplete Branch",
+        description: "Enter a name and a short code for the branch",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveBranch({
+        id: editingBranch?.id,
+        name: form.name.trim(),
+        code: form.code.trim(),
+        address: form.address.trim(),
+        phone: form.phone.trim(),
+        is_active: form.is_active,
+      });
+
+      toast({
+        title: editingBranch ? "Branch Updated" : "Branch Created",
+        description: editingBranch ? `${form.name.trim()} was saved` : `${form.name.trim()} was added. Assign its staff below.`,
+      });
+      setIsDialogOpen(false);
+      loadBranches();
+      refreshBranches();
+    } catch (error) {
+      console.error("Error saving branch:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save branch",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleAssignment = async (userId: string, branchId: string, assigned: boolean) => {
+    const current = assignments[userId] || [];
+    const next = assigned ? [...current, branchId] : current.filter(id => id !== branchId);
+
+    setSavingUserId(userId);
+    try {
+      const result = await setUserBranches(userId, next);
+      if (!result.success) throw new Error(result.error || result.message);
+      setAssignments({ ...assignments, [userId]: next });
+    } catch (error) {
+      console.error("Error assigning branches:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update branch assignment",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingUserId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-lg">
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Building2 className="h-5 w-5" />
+                <span>Branches</span>
+              </CardTitle>
+              <CardDescription>
+                Each salon keeps its own customers, services, stock, expenses and cash drawer.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog()}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Branch
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead>Branch</TableHead>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Address</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {branches.map(branch => (
+                  <TableRow key={branch.id}>
+                    <TableCell className="font-medium">{branch.name}</TableCell>
+                    <TableCell className="font-mono">{branch.code}</TableCell>
+                    <TableCell>{branch.address || '-'}</TableCell>
+                    <TableCell>{branch.phone || '-'}</TableCell>
+                    <TableCell>
+                      <Badge variant={branch.is_active ? 'default' : 'secondary'}>
+                        {branch.is_active ? 'Active' : 'Inactive'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openDialog(branch)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Users className="h-5 w-5" />
+            <span>Staff Assignments</span>
+          </CardTitle>
+          <CardDescription>
+            Users only see the data of the branches they are assigned to. Full-access roles see every branch.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="border rounded-lg overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gray-50">
+                  <TableHead className="min-w-48">User</TableHead>
+                  {branches.map(branch => (
+                    <TableHead key={branch.id} className="text-center">{branch.name}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => {
+                  const fullAccess = fullAccessUserIds.includes(user.user_id);
+                  return (
+                    <TableRow key={user.user_id}>
+                      <TableCell>
+                        <p className="font-medium text-gray-900">{user.full_name}</p>
+                        <p className="text-xs text-muted-foreground">{user.email}</p>
+                      </TableCell>
+                      {branches.map(branch => (
+                        <TableCell key={branch.id} className="text-center">
+                          <Checkbox
+                            checked={fullAccess || (assignments[user.user_id] || []).includes(branch.id)}
+                            disabled={fullAccess || savingUserId === user.user_id}
+                            onCheckedChange={(checked) => toggleAssignment(user.user_id, branch.id, checked === true)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingBranch ? 'Edit Branch' : 'New Branch'}</DialogTitle>
+            <DialogDescription>
+              The code appears on transfer references and reports.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Westlands"
+                />
+              </div>
+              <div>
+                <Label>Code</Label>
+                <Input
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  placeholder="WST"
+                  maxLength={10}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Address (Optional)</Label>
+              <Input
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Phone (Optional)</Label>
+              <Input
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+              />
+            </div>
+            {editingBranch && (
+              <div className="flex items-center justify-between">
+                <Label>Active</Label>
+                <Switch
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingBranch ? 'Save Branch' : 'Create Branch'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
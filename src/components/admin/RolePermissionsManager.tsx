@@ -0,0 +1,258 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { Key, Plus, Save, Trash2, Loader2 } from "lucide-react";
+import { AppFeature, Role, deleteRole, saveRole } from "@/utils/roles";
+
+interface RolePermissionsManagerProps {
+  roles: Role[];
+  features: AppFeature[];
+  userCounts: Record<string, number>;
+  onChanged: () => void;
+}
+
+export function RolePermissionsManager({ roles, features, userCounts, onChanged }: RolePermissionsManagerProps) {
+  const { toast } = useToast();
+  // Edited grants by role id, until saved
+  const [drafts, setDrafts] = useState<Record<string, string[]>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newRole, setNewRole] = useState({ name: "", description: "" });
+
+  useEffect(() => {
+    setDrafts({});
+  }, [roles]);
+
+  const getGrants = (role: Role) => drafts[role.id] ?? role.features;
+
+  const toggleGrant = (role: Role, feature: string, granted: boolean) => {
+    const current = getGrants(role);
+    setDrafts({
+      ...drafts,
+      [role.id]: granted ? [...current, feature] : current.filter(key => key !== feature),
+    });
+  };
+
+  const changedRoles = roles.filter(role => {
+    const draft = drafts[role.id];
+    if (!draft) return false;
+    return draft.length !== role.features.length || draft.some(feature => !role.features.includes(feature));
+  });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      for (const role of changedRoles) {
+        const result = await saveRole({
+          id: role.id,
+          name: role.name,
+          description: role.description || undefined,
+          features: drafts[role.id],
+        });
+        if (!result.success) throw new Error(result.error || result.message);
+      }
+
+      toast({
+        title: "Permissions Saved",
+        description: `Updated ${changedRoles.length} role(s). Users pick up the change immediately.`,
+      });
+      onChanged();
+    } catch (error) {
+      console.error("Error saving role permissions:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save role permissions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!newRole.name.trim()) {
+      toast({
+        title: "Name Required",
+        description: "Enter a name for the role",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const result = await saveRole({
+        name: newRole.name.trim(),
+        description: newRole.description.trim() || undefined,
+        features: [],
+      });
+      if (!result.success) throw new Error(result.error || result.message);
+
+      toast({
+        title: "Role Created",
+        description: `${newRole.name.trim()} was added. Tick the features it should have.`,
+      });
+      setNewRole({ name: "", description: "" });
+      setIsCreateOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error creating role:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDelete = async (role: Role) => {
+    if (!confirm(`Delete the ${role.name} role?`)) return;
+
+    try {
+      const result = await deleteRole(role.id);
+      if (!result.success) throw new Error(result.error || result.message);
+
+      toast({
+        title: "Role Deleted",
+        description: `${role.name} was removed`,
+      });
+      onChanged();
+    } catch (error) {
+      console.error("Error deleting role:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete role",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center space-x-2">
+              <Key className="h-5 w-5" />
+              <span>Roles & Permissions</span>
+            </CardTitle>
+            <CardDescription>
+              Choose which features each role can use. The sidebar, page access and database rules all follow these grants.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => setIsCreateOpen(true)}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Role
+            </Button>
+            <Button onClick={handleSave} disabled={changedRoles.length === 0 || isSaving}>
+              {isSaving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Save className="h-4 w-4 mr-2" />}
+              Save Changes
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="border rounded-lg overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-gray-50">
+                <TableHead className="min-w-48">Feature</TableHead>
+                {roles.map(role => (
+                  <TableHead key={role.id} className="text-center min-w-32">
+                    <div className="flex flex-col items-center gap-1 py-2">
+                      <span className="font-semibold text-gray-900">{role.name}</span>
+                      <span className="text-xs text-muted-foreground">{userCounts[role.id] || 0} user(s)</span>
+                      {role.all_features && <Badge variant="default">Full access</Badge>}
+                      {!role.is_system && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-red-600 hover:text-red-700"
+                          onClick={() => handleDelete(role)}
+                          disabled={(userCounts[role.id] || 0) > 0}
+                          title={(userCounts[role.id] || 0) > 0 ? 'Reassign its users first' : 'Delete role'}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {features.map(feature => (
+                <TableRow key={feature.key}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900">{feature.label}</p>
+                    {feature.description && (
+                      <p className="text-xs text-muted-foreground">{feature.description}</p>
+                    )}
+                  </TableCell>
+                  {roles.map(role => (
+                    <TableCell key={role.id} className="text-center">
+                      <Checkbox
+                        checked={role.all_features || getGrants(role).includes(feature.key)}
+                        disabled={role.all_features}
+                        onCheckedChange={(checked) => toggleGrant(role, feature.key, checked === true)}
+                      />
+                    </TableCell>
+                  ))}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+        {changedRoles.length > 0 && (
+          <p className="text-sm text-amber-600 mt-3">
+            Unsaved changes to {changedRoles.map(role => role.name).join(', ')}
+          </p>
+        )}
+      </CardContent>
+
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Role</DialogTitle>
+            <DialogDescription>
+              The role starts with no features; grant them in the table afterwards.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={newRole.name}
+                onChange={(e) => setNewRole({ ...newRole, name: e.target.value })}
+                placeholder="e.g. Senior Stylist"
+              />
+            </div>
+            <div>
+              <Label>Description (Optional)</Label>
+              <Input
+                value={newRole.description}
+                onChange={(e) => setNewRole({ ...newRole, description: e.target.value })}
+                placeholder="What this role is for"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate}>
+              Create Role
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
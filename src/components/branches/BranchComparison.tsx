@@ -0,0 +1,128 @@
+import { useState, useEffect } from "react";
+import { Building2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useBranch } from "@/hooks/useBranch";
+import { formatCurrency } from "@/lib/utils";
+import { BranchSummary, fetchBranchSummary } from "@/utils/branches";
+
+interface BranchComparisonProps {
+  /** yyyy-mm-dd, inclusive */
+  dateFrom: string;
+  dateTo: string;
+  description?: string;
+}
+
+export function BranchComparison({ dateFrom, dateTo, description }: BranchComparisonProps) {
+  const [rows, setRows] = useState<BranchSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { currentBranchId } = useBranch();
+
+  useEffect(() => {
+    loadSummary();
+  }, [dateFrom, dateTo]);
+
+  const loadSummary = async () => {
+    setIsLoading(true);
+    try {
+      setRows(await fetchBranchSummary(dateFrom, dateTo));
+    } catch (error) {
+      console.error("Error fetching branch summary:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const revenue = (row: BranchSummary) => Number(row.service_revenue) + Number(row.retail_revenue);
+
+  const totals = rows.reduce(
+    (sum, row) => ({
+      services_count: sum.services_count + Number(row.services_count),
+      service_revenue: sum.service_revenue + Number(row.service_revenue),
+      retail_revenue: sum.retail_revenue + Number(row.retail_revenue),
+      expenses: sum.expenses + Number(row.expenses),
+      customers_count: sum.customers_count + Number(row.customers_count),
+      inventory_value: sum.inventory_value + Number(row.inventory_value),
+    }),
+    { services_count: 0, service_revenue: 0, retail_revenue: 0, expenses: 0, customers_count: 0, inventory_value: 0 }
+  );
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-slate-50/50">
+      <CardHeader className="bg-gradient-to-r from-slate-50 to-indigo-50 border-b border-slate-100">
+        <CardTitle className="text-slate-800 flex items-center gap-2">
+          <Building2 className="h-5 w-5" />
+          Branch Comparison
+        </CardTitle>
+        <CardDescription className="text-slate-600">
+          {description || 'Figures for every branch you can access, with the consolidated total'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No branches to compare</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Branch</TableHead>
+                  <TableHead className="text-right">Services</TableHead>
+                  <TableHead className="text-right">Service Revenue</TableHead>
+                  <TableHead className="text-right">Retail Revenue</TableHead>
+                  <TableHead className="text-right">Expenses</TableHead>
+                  <TableHead className="text-right">Net</TableHead>
+                  <TableHead className="text-right">Customers</TableHead>
+                  <TableHead className="text-right">Stock Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map(row => {
+                  const net = revenue(row) - Number(row.expenses);
+                  return (
+                    <TableRow key={row.branch_id} className={row.branch_id === currentBranchId ? 'bg-indigo-50/50' : ''}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {row.branch_name}
+                          {row.branch_id === currentBranchId && <Badge variant="secondary">Current</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{row.services_count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(row.service_revenue))}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(row.retail_revenue))}</TableCell>
+                      <TableCell className="text-right text-red-600">{formatCurrency(Number(row.expenses))}</TableCell>
+                      <TableCell className={`text-right font-semibold ${net >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                        {formatCurrency(net)}
+                      </TableCell>
+                      <TableCell className="text-right">{row.customers_count}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(Number(row.inventory_value))}</TableCell>
+                    </TableRow>
+                  );
+                })}
+                {rows.length > 1 && (
+                  <TableRow className="border-t-2 font-semibold">
+                    <TableCell>All Branches</TableCell>
+                    <TableCell className="text-right">{totals.services_count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.service_revenue)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.retail_revenue)}</TableCell>
+                    <TableCell className="text-right text-red-600">{formatCurrency(totals.expenses)}</TableCell>
+                    <TableCell className="text-right">
+                      {formatCurrency(totals.service_revenue + totals.retail_revenue - totals.expenses)}
+                    </TableCell>
+                    <TableCell className="text-right">{totals.customers_count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(totals.inventory_value)}</TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState, useEffect } from "react";
+import { Award, Clock } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { CustomerLoyalty, LoyaltyLedgerEntry, fetchCustomerLoyalty } from "@/utils/loyalty";
+
+interface CustomerLoyaltyCardProps {
+  customerId: string;
+}
+
+const ENTRY_LABELS: Record<LoyaltyLedgerEntry['entry_type'], string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  expire: 'Expired',
+};
+
+export function CustomerLoyaltyCard({ customerId }: CustomerLoyaltyCardProps) {
+  const [loyalty, setLoyalty] = useState<CustomerLoyalty | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadLoyalty();
+  }, [customerId]);
+
+  const loadLoyalty = async () => {
+    setIsLoading(true);
+    try {
+      setLoyalty(await fetchCustomerLoyalty(customerId));
+    } catch (error) {
+      console.error("Error loading loyalty points:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load loyalty points",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const progress = loyalty?.next_tier
+    ? Math.min(100, ((loyalty.lifetime_points - (loyalty.tier?.min_points || 0)) /
+        (loyalty.next_tier.min_points - (loyalty.tier?.min_points || 0))) * 100)
+    : 100;
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-amber-50/50">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-yellow-50 border-b border-amber-100">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-amber-800">
+              <Award className="h-5 w-5 text-amber-600" />
+              Loyalty Points
+            </CardTitle>
+            <CardDescription className="text-amber-600">
+              Earned on completed services and retail purchases
+            </CardDescription>
+          </div>
+          {loyalty?.tier && (
+            <Badge className="bg-amber-500 text-white">{loyalty.tier.name}</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        {isLoading || !loyalty ? (
+          <div className="flex items-center justify-center py-6">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-amber-600"></div>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="p-4 bg-amber-50 rounded-lg border border-amber-100">
+                <div className="text-sm text-amber-700">Balance</div>
+                <div className="text-2xl font-bold text-amber-800">{loyalty.points_balance.toLocaleString()} pts</div>
+              </div>
+              <div className="p-4 bg-purple-50 rounded-lg border border-purple-100">
+                <div className="text-sm text-purple-700">Lifetime earned</div>
+                <div className="text-2xl font-bold text-purple-800">{loyalty.lifetime_points.toLocaleString()} pts</div>
+              </div>
+              <div className="p-4 bg-red-50 rounded-lg border border-red-100">
+                <div className="text-sm text-red-700 flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Expiring in 30 days
+                </div>
+                <div className="text-2xl font-bold text-red-800">{loyalty.expiring_soon.toLocaleString()} pts</div>
+              </div>
+            </div>
+
+            {loyalty.next_tier && (
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm text-muted-foreground">
+                  <span>{loyalty.tier?.name || 'No tier'}</span>
+                  <span>
+                    {(loyalty.next_tier.min_points - loyalty.lifetime_points).toLocaleString()} points to {loyalty.next_tier.name}
+                  </span>
+                </div>
+                <Progress value={progress} />
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Activity</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead className="text-right">Points</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {loyalty.ledger.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="text-sm text-gray-600">
+                      {new Date(entry.created_at).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{entry.description}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {ENTRY_LABELS[entry.entry_type]}
+                        {entry.entry_type === 'earn' && entry.points > 0 && entry.expires_at &&
+                          ` · expires ${new Date(entry.expires_at).toLocaleDateString()}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.amount ? formatCurrency(Number(entry.amount)) : '-'}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${entry.points > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {loyalty.ledger.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                      No points earned yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,308 @@
+import { useState, useEffect } from "react";
+import { Gift, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SplitPaymentInput } from "@/components/payments/SplitPaymentInput";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { PaymentTender, sumTenders } from "@/utils/payments";
+import { GiftVoucher, fetchGiftVouchers, isPrepaidExpired, issueGiftVoucher } from "@/utils/prepaid";
+
+interface GiftVouchersProps {
+  customers: { id: string; name: string }[];
+}
+
+const emptyVoucherForm = {
+  value: "",
+  purchaser_name: "",
+  recipient_name: "",
+  customer_id: "none",
+  validity_months: "12",
+  code: "",
+};
+
+export function GiftVouchers({ customers }: GiftVouchersProps) {
+  const [vouchers, setVouchers] = useState<GiftVoucher[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyVoucherForm);
+  const [tenders, setTenders] = useState<PaymentTender[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadVouchers();
+  }, []);
+
+  const loadVouchers = async () => {
+    try {
+      setVouchers(await fetchGiftVouchers());
+    } catch (error) {
+      console.error("Error loading gift vouchers:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load gift vouchers",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const value = parseFloat(form.value) || 0;
+
+  const openDialog = () => {
+    setForm(emptyVoucherForm);
+    setTenders([]);
+    setIsDialogOpen(true);
+  };
+
+  const updateValue = (input: string) => {
+    setForm(prev => ({ ...prev, value: input }));
+    const amount = parseFloat(input) || 0;
+    setTenders(amount > 0 ? [{ payment_method: tenders[0]?.payment_method || 'cash', amount }] : []);
+  };
+
+  const selectCustomer = (customerId: string) => {
+    const customer = customers.find(c => c.id === customerId);
+    setForm(prev => ({
+      ...prev,
+      customer_id: customerId,
+      purchaser_name: customer && !prev.purchaser_name ? customer.name : prev.purchaser_name,
+    }));
+  };
+
+  const handleIssue = async () => {
+    const validity = form.validity_months === "" ? null : parseInt(form.validity_months);
+
+    if (value <= 0 || !form.purchaser_name.trim()) {
+      toast({
+        title: "Incomplete Voucher",
+        description: "Enter the voucher value and who is buying it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (validity !== null && (isNaN(validity) || validity < 1)) {
+      toast({
+        title: "Invalid Validity",
+        description: "Vouchers must last at least 1 month, or leave it empty so they never expire",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (Math.abs(sumTenders(tenders) - value) > 0.001) {
+      toast({
+        title: "Pay in Full",
+        description: `Vouchers are paid up front: tenders must add up to ${formatCurrency(value)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await issueGiftVoucher({
+        value,
+        purchaserName: secureInput.string(form.purchaser_name.trim()),
+        recipientName: secureInput.string(form.recipient_name.trim()),
+        customerId: form.customer_id === "none" ? null : form.customer_id,
+        validityMonths: validity,
+        code: secureInput.string(form.code.trim()).toUpperCase(),
+        payments: tenders.map(tender => ({
+          ...tender,
+          reference_number: secureInput.string((tender.reference_number || '').trim()) || undefined,
+        })),
+      });
+
+      if (!result.success) {
+        throw new Error(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+
+      toast({
+        title: "Voucher Issued",
+        description: `Code ${result.code} worth ${formatCurrency(value)}`,
+      });
+      setIsDialogOpen(false);
+      loadVouchers();
+    } catch (error) {
+      console.error("Error issuing gift voucher:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to issue the voucher",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getVoucherStatus = (voucher: GiftVoucher) => {
+    if (Number(voucher.balance) === 0) return <Badge variant="secondary">Redeemed</Badge>;
+    if (isPrepaidExpired(voucher.expires_at)) return <Badge variant="destructive">Expired</Badge>;
+    return <Badge className="bg-green-100 text-green-800 border-green-200">Active</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-pink-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-pink-50/50">
+        <CardHeader className="bg-gradient-to-r from-pink-50 to-rose-50 border-b border-pink-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-pink-800">
+                <Gift className="h-5 w-5 text-pink-600" />
+                Gift Vouchers
+              </CardTitle>
+              <CardDescription className="text-pink-600">
+                Prepaid value redeemed by code against any service payment
+              </CardDescription>
+            </div>
+            <Button size="sm" onClick={openDialog}>
+              <Plus className="mr-2 h-4 w-4" />
+              Issue Voucher
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Purchaser</TableHead>
+                <TableHead>Recipient</TableHead>
+                <TableHead>Value</TableHead>
+                <TableHead>Balance</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {vouchers.map((voucher) => (
+                <TableRow key={voucher.id}>
+                  <TableCell className="font-mono font-medium">{voucher.code}</TableCell>
+                  <TableCell>{voucher.purchaser_name}</TableCell>
+                  <TableCell>{voucher.recipient_name || '-'}</TableCell>
+                  <TableCell>{formatCurrency(Number(voucher.initial_value))}</TableCell>
+                  <TableCell className="font-medium">{formatCurrency(Number(voucher.balance))}</TableCell>
+                  <TableCell>{voucher.expires_at ? new Date(voucher.expires_at).toLocaleDateString() : 'Never'}</TableCell>
+                  <TableCell>{getVoucherStatus(voucher)}</TableCell>
+                </TableRow>
+              ))}
+              {vouchers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-6 text-muted-foreground">
+                    No vouchers issued yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Issue Gift Voucher</DialogTitle>
+            <DialogDescription>
+              The voucher is paid now; its code is redeemed later against a service payment
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher_value">Value</Label>
+                <Input
+                  id="voucher_value"
+                  type="number"
+                  min="0"
+                  value={form.value}
+                  onChange={(e) => updateValue(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher_validity">Valid (months)</Label>
+                <Input
+                  id="voucher_validity"
+                  type="number"
+                  min="1"
+                  placeholder="Never expires"
+                  value={form.validity_months}
+                  onChange={(e) => setForm(prev => ({ ...prev, validity_months: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Bought by customer (optional)</Label>
+              <Select value={form.customer_id} onValueChange={selectCustomer}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Not a registered customer</SelectItem>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="voucher_purchaser">Purchaser</Label>
+                <Input
+                  id="voucher_purchaser"
+                  value={form.purchaser_name}
+                  onChange={(e) => setForm(prev => ({ ...prev, purchaser_name: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="voucher_recipient">Recipient (optional)</Label>
+                <Input
+                  id="voucher_recipient"
+                  value={form.recipient_name}
+                  onChange={(e) => setForm(prev => ({ ...prev, recipient_name: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="voucher_code">Code (optional)</Label>
+              <Input
+                id="voucher_code"
+                className="font-mono uppercase"
+                placeholder="Generated automatically"
+                value={form.code}
+                onChange={(e) => setForm(prev => ({ ...prev, code: e.target.value }))}
+              />
+            </div>
+            {value > 0 && (
+              <SplitPaymentInput tenders={tenders} onChange={setTenders} amountDue={value} />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleIssue} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+              {isSaving ? "Processing..." : "Issue Voucher"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
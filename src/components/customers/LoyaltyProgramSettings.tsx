@@ -0,0 +1,416 @@
+import { useState, useEffect } from "react";
+import { Award, Edit, Plus, Save, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  LoyaltyTier,
+  deleteLoyaltyTier,
+  fetchLoyaltyProgram,
+  saveLoyaltySettings,
+  saveLoyaltyTier,
+} from "@/utils/loyalty";
+
+interface LoyaltyProgramSettingsProps {
+  /** Admins change the earn rate, point value, expiry and tiers; everyone else sees the rules */
+  canManage: boolean;
+}
+
+const emptySettingsForm = {
+  is_enabled: true,
+  points_per_unit: "",
+  point_value: "",
+  min_redeem_points: "",
+  expiry_months: "",
+};
+
+const emptyTierForm = {
+  name: "",
+  min_points: "",
+  earn_multiplier: "1",
+};
+
+export function LoyaltyProgramSettings({ canManage }: LoyaltyProgramSettingsProps) {
+  const [settingsForm, setSettingsForm] = useState(emptySettingsForm);
+  const [tiers, setTiers] = useState<LoyaltyTier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [editingTier, setEditingTier] = useState<LoyaltyTier | null>(null);
+  const [isTierDialogOpen, setIsTierDialogOpen] = useState(false);
+  const [tierForm, setTierForm] = useState(emptyTierForm);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadProgram();
+  }, []);
+
+  const loadProgram = async () => {
+    try {
+      const program = await fetchLoyaltyProgram();
+      if (program.settings) {
+        setSettingsForm({
+          is_enabled: program.settings.is_enabled,
+          points_per_unit: program.settings.points_per_unit.toString(),
+          point_value: program.settings.point_value.toString(),
+          min_redeem_points: program.settings.min_redeem_points.toString(),
+          expiry_months: program.settings.expiry_months?.toString() || "",
+        });
+      }
+      setTiers(program.tiers);
+    } catch (error) {
+      console.error("Error loading loyalty programme:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the loyalty programme",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async () => {
+    if (!user) return;
+
+    const pointsPerUnit = parseFloat(settingsForm.points_per_unit);
+    const pointValue = parseFloat(settingsForm.point_value);
+    const minRedeem = parseInt(settingsForm.min_redeem_points);
+    const expiryMonths = settingsForm.expiry_months === "" ? null : parseInt(settingsForm.expiry_months);
+
+    if (isNaN(pointsPerUnit) || pointsPerUnit < 0 || isNaN(pointValue) || pointValue <= 0 || isNaN(minRedeem) || minRedeem < 1) {
+      toast({
+        title: "Invalid Settings",
+        description: "Enter an earn rate of zero or more, a point value above zero and a minimum redemption of at least 1 point",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (expiryMonths !== null && (isNaN(expiryMonths) || expiryMonths < 1)) {
+      toast({
+        title: "Invalid Expiry",
+        description: "Points must expire after at least 1 month, or leave it empty so they never expire",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveLoyaltySettings({
+        is_enabled: settingsForm.is_enabled,
+        points_per_unit: pointsPerUnit,
+        point_value: pointValue,
+        min_redeem_points: minRedeem,
+        expiry_months: expiryMonths,
+      }, user.id);
+
+      toast({
+        title: "Settings Saved",
+        description: "New rates apply to services and sales from now on",
+      });
+    } catch (error) {
+      console.error("Error saving loyalty settings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the loyalty settings",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const openTierDialog = (tier?: LoyaltyTier) => {
+    setEditingTier(tier || null);
+    setTierForm(tier
+      ? { name: tier.name, min_points: tier.min_points.toString(), earn_multiplier: tier.earn_multiplier.toString() }
+      : emptyTierForm);
+    setIsTierDialogOpen(true);
+  };
+
+  const handleSaveTier = async () => {
+    const minPoints = parseInt(tierForm.min_points);
+    const multiplier = parseFloat(tierForm.earn_multiplier);
+
+    if (!tierForm.name.trim() || isNaN(minPoints) || minPoints < 0 || isNaN(multiplier) || multiplier <= 0) {
+      toast({
+        title: "Incomplete Tier",
+        description: "Enter the tier name, the lifetime points it starts at and an earn multiplier above zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveLoyaltyTier({
+        id: editingTier?.id,
+        name: secureInput.string(tierForm.name.trim()),
+        min_points: minPoints,
+        earn_multiplier: multiplier,
+      });
+
+      toast({
+        title: editingTier ? "Tier Updated" : "Tier Added",
+        description: `${tierForm.name.trim()} starts at ${minPoints.toLocaleString()} lifetime points`,
+      });
+      setIsTierDialogOpen(false);
+      loadProgram();
+    } catch (error) {
+      console.error("Error saving loyalty tier:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the tier. Tier names and starting points must be unique.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteTier = async (tier: LoyaltyTier) => {
+    if (!confirm(`Delete the ${tier.name} tier? Customers in it drop to the tier below.`)) return;
+
+    try {
+      await deleteLoyaltyTier(tier.id);
+      loadProgram();
+    } catch (error) {
+      console.error("Error deleting loyalty tier:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the tier",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const pointValue = parseFloat(settingsForm.point_value) || 0;
+  const pointsPerUnit = parseFloat(settingsForm.points_per_unit) || 0;
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-amber-50/50">
+        <CardHeader className="bg-gradient-to-r from-amber-50 to-yellow-50 border-b border-amber-100">
+          <CardTitle className="flex items-center gap-2 text-amber-800">
+            <Award className="h-5 w-5 text-amber-600" />
+            Loyalty Programme
+          </CardTitle>
+          <CardDescription className="text-amber-600">
+            Customers earn points on completed services and retail sales, and redeem them as a discount
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex items-center justify-between p-3 rounded-lg border border-amber-100 bg-white">
+            <div>
+              <Label htmlFor="loyalty_enabled">Programme active</Label>
+              <p className="text-xs text-muted-foreground">
+                When off, nothing new is earned or redeemed; existing balances are kept
+              </p>
+            </div>
+            <Switch
+              id="loyalty_enabled"
+              checked={settingsForm.is_enabled}
+              disabled={!canManage}
+              onCheckedChange={(checked) => setSettingsForm(prev => ({ ...prev, is_enabled: checked }))}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="points_per_unit">Points per {formatCurrency(1)} spent</Label>
+              <Input
+                id="points_per_unit"
+                type="number"
+                min="0"
+                step="0.0001"
+                value={settingsForm.points_per_unit}
+                disabled={!canManage}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, points_per_unit: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                {formatCurrency(10000)} earns {Math.floor(10000 * pointsPerUnit)} points before the tier multiplier
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="point_value">Value of one point</Label>
+              <Input
+                id="point_value"
+                type="number"
+                min="0"
+                step="0.01"
+                value={settingsForm.point_value}
+                disabled={!canManage}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, point_value: e.target.value }))}
+              />
+              <p className="text-xs text-muted-foreground">
+                100 points are worth {formatCurrency(100 * pointValue)}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="min_redeem_points">Minimum points per redemption</Label>
+              <Input
+                id="min_redeem_points"
+                type="number"
+                min="1"
+                value={settingsForm.min_redeem_points}
+                disabled={!canManage}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, min_redeem_points: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="expiry_months">Points expire after (months)</Label>
+              <Input
+                id="expiry_months"
+                type="number"
+                min="1"
+                placeholder="Never"
+                value={settingsForm.expiry_months}
+                disabled={!canManage}
+                onChange={(e) => setSettingsForm(prev => ({ ...prev, expiry_months: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          {canManage && (
+            <div className="flex justify-end">
+              <Button onClick={handleSaveSettings} disabled={isSaving}>
+                <Save className="mr-2 h-4 w-4" />
+                {isSaving ? "Saving..." : "Save Settings"}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-purple-50/50">
+        <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-purple-800">Tiers</CardTitle>
+              <CardDescription className="text-purple-600">
+                A customer's tier follows their lifetime earned points and multiplies what they earn
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button size="sm" onClick={() => openTierDialog()}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Tier
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tier</TableHead>
+                <TableHead>From Lifetime Points</TableHead>
+                <TableHead>Earn Multiplier</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiers.map((tier) => (
+                <TableRow key={tier.id}>
+                  <TableCell>
+                    <Badge variant="outline" className="border-amber-300 text-amber-700">{tier.name}</Badge>
+                  </TableCell>
+                  <TableCell>{tier.min_points.toLocaleString()}</TableCell>
+                  <TableCell>×{Number(tier.earn_multiplier)}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end space-x-2">
+                        <Button variant="ghost" size="sm" onClick={() => openTierDialog(tier)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDeleteTier(tier)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {tiers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 4 : 3} className="text-center py-6 text-muted-foreground">
+                    No tiers; every customer earns at the base rate
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isTierDialogOpen} onOpenChange={setIsTierDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTier ? "Edit Tier" : "Add Tier"}</DialogTitle>
+            <DialogDescription>
+              Customers reach this tier once their lifetime earned points pass the threshold
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="tier_name">Name</Label>
+              <Input
+                id="tier_name"
+                value={tierForm.name}
+                onChange={(e) => setTierForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tier_min_points">From lifetime points</Label>
+                <Input
+                  id="tier_min_points"
+                  type="number"
+                  min="0"
+                  value={tierForm.min_points}
+                  onChange={(e) => setTierForm(prev => ({ ...prev, min_points: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tier_multiplier">Earn multiplier</Label>
+                <Input
+                  id="tier_multiplier"
+                  type="number"
+                  min="0.01"
+                  step="0.05"
+                  value={tierForm.earn_multiplier}
+                  onChange={(e) => setTierForm(prev => ({ ...prev, earn_multiplier: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsTierDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveTier}>Save Tier</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
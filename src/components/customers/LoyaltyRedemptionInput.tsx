@@ -0,0 +1,93 @@
+import { useState, useEffect } from "react";
+import { Award } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatCurrency } from "@/lib/utils";
+import { LoyaltySettings, fetchCustomerLoyalty, fetchLoyaltyProgram, pointsValue } from "@/utils/loyalty";
+
+interface LoyaltyRedemptionInputProps {
+  customerId: string;
+  /** The most the points may take off: the cart total or what is still owed */
+  maxDiscount: number;
+  points: number;
+  onChange: (points: number, discount: number) => void;
+}
+
+/**
+ * Points to spend as a discount, with the customer's balance and what the points are worth.
+ * Renders nothing while the programme is switched off or the customer has too few points.
+ */
+export function LoyaltyRedemptionInput({ customerId, maxDiscount, points, onChange }: LoyaltyRedemptionInputProps) {
+  const [settings, setSettings] = useState<LoyaltySettings | null>(null);
+  const [balance, setBalance] = useState(0);
+
+  useEffect(() => {
+    loadBalance();
+  }, [customerId]);
+
+  const loadBalance = async () => {
+    onChange(0, 0);
+    try {
+      const [program, loyalty] = await Promise.all([
+        fetchLoyaltyProgram(),
+        fetchCustomerLoyalty(customerId),
+      ]);
+      setSettings(program.settings);
+      setBalance(loyalty.points_balance);
+    } catch (error) {
+      // Redemption is optional; the sale or payment goes ahead without it
+      console.error("Error loading loyalty balance:", error);
+      setSettings(null);
+    }
+  };
+
+  if (!settings?.is_enabled || balance < settings.min_redeem_points) return null;
+
+  const maxPoints = Math.min(balance, Math.floor(maxDiscount / settings.point_value));
+  const discount = pointsValue(settings, points);
+  const isValid = points === 0 || (points >= settings.min_redeem_points && points <= maxPoints);
+
+  const update = (value: number) => onChange(value, pointsValue(settings, value));
+
+  return (
+    <div className="space-y-2 p-3 bg-amber-50 rounded-lg border border-amber-100">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="redeem_points" className="flex items-center gap-2 text-amber-800">
+          <Award className="h-4 w-4" />
+          Redeem loyalty points
+        </Label>
+        <span className="text-xs text-amber-700">
+          {balance.toLocaleString()} pts available ({formatCurrency(pointsValue(settings, balance))})
+        </span>
+      </div>
+      <div className="flex gap-2">
+        <Input
+          id="redeem_points"
+          type="number"
+          min="0"
+          max={maxPoints}
+          value={points || ""}
+          placeholder={`Min ${settings.min_redeem_points}`}
+          onChange={(e) => update(Math.max(0, parseInt(e.target.value) || 0))}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={maxPoints < settings.min_redeem_points}
+          onClick={() => update(maxPoints)}
+        >
+          Max
+        </Button>
+      </div>
+      {points > 0 && (
+        <p className={`text-xs ${isValid ? 'text-emerald-700' : 'text-red-600'}`}>
+          {isValid
+            ? `${formatCurrency(discount)} off`
+            : `Redeem between ${settings.min_redeem_points} and ${maxPoints} points`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+import { useState, useEffect } from "react";
+import { Gift, Package } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { formatCurrency } from "@/lib/utils";
+import { PrepaidLiability as Liability, fetchPrepaidLiability } from "@/utils/prepaid";
+
+interface PrepaidLiabilityProps {
+  /** yyyy-mm-dd, inclusive */
+  dateFrom: string;
+  dateTo: string;
+}
+
+/** Prepaid package and voucher value still owed to customers, with the period's sales and redemptions */
+export function PrepaidLiability({ dateFrom, dateTo }: PrepaidLiabilityProps) {
+  const [liability, setLiability] = useState<Liability | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadLiability();
+  }, [dateFrom, dateTo]);
+
+  const loadLiability = async () => {
+    setIsLoading(true);
+    try {
+      setLiability(await fetchPrepaidLiability({ from: dateFrom, to: dateTo }));
+    } catch (error) {
+      console.error("Error fetching prepaid liability:", error);
+      setLiability(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rows = liability
+    ? [
+        {
+          label: "Service Packages",
+          icon: Package,
+          balances: liability.packages,
+          detail: `${liability.packages.open_count} open · ${liability.packages.outstanding_units} units to deliver`,
+        },
+        {
+          label: "Gift Vouchers",
+          icon: Gift,
+          balances: liability.vouchers,
+          detail: `${liability.vouchers.open_count} open`,
+        },
+      ]
+    : [];
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-pink-50/50">
+      <CardHeader className="bg-gradient-to-r from-pink-50 to-purple-50 border-b border-pink-100">
+        <CardTitle className="text-pink-800">Prepaid Liability</CardTitle>
+        <CardDescription className="text-pink-600">
+          Packages and vouchers paid for but not yet used. Sold and redeemed cover {dateFrom} to {dateTo}.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-pink-600"></div>
+          </div>
+        ) : !liability ? (
+          <p className="text-center py-8 text-muted-foreground">Prepaid balances are unavailable</p>
+        ) : (
+          <div className="space-y-4">
+            {rows.map(({ label, icon: Icon, balances, detail }) => (
+              <div key={label} className="grid grid-cols-2 md:grid-cols-5 gap-3 items-center">
+                <div className="col-span-2 md:col-span-1">
+                  <div className="flex items-center gap-2 font-medium">
+                    <Icon className="h-4 w-4 text-pink-600" />
+                    {label}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{detail}</div>
+                </div>
+                <div className="rounded-lg bg-pink-50 p-3">
+                  <div className="text-xs text-muted-foreground">Outstanding</div>
+                  <div className="font-semibold text-pink-700">{formatCurrency(Number(balances.outstanding))}</div>
+                </div>
+                <div className="rounded-lg bg-gray-50 p-3">
+                  <div className="text-xs text-muted-foreground">Lapsed Unused</div>
+                  <div className="font-semibold">{formatCurrency(Number(balances.expired_unredeemed))}</div>
+                </div>
+                <div className="rounded-lg bg-emerald-50 p-3">
+                  <div className="text-xs text-muted-foreground">Sold</div>
+                  <div className="font-semibold text-emerald-700">{formatCurrency(Number(balances.sold))}</div>
+                </div>
+                <div className="rounded-lg bg-blue-50 p-3">
+                  <div className="text-xs text-muted-foreground">Redeemed</div>
+                  <div className="font-semibold text-blue-700">{formatCurrency(Number(balances.redeemed))}</div>
+                </div>
+              </div>
+            ))}
+            <div className="flex justify-between border-t pt-3 font-semibold">
+              <span>Total owed to customers</span>
+              <span>{formatCurrency(Number(liability.packages.outstanding) + Number(liability.vouchers.outstanding))}</span>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,499 @@
+import { useState, useEffect } from "react";
+import { Edit, Package, Plus, ShoppingCart } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { SplitPaymentInput } from "@/components/payments/SplitPaymentInput";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { PaymentTender, sumTenders } from "@/utils/payments";
+import { CatalogService, fetchServiceCatalog } from "@/utils/serviceCatalog";
+import {
+  CustomerPackage,
+  ServicePackage,
+  fetchCustomerPackages,
+  fetchServicePackages,
+  isPrepaidExpired,
+  saveServicePackage,
+  sellServicePackage,
+} from "@/utils/prepaid";
+
+interface PrepaidPackagesProps {
+  customers: { id: string; name: string }[];
+  /** Admins define the packages on sale; anyone with customer access can sell them */
+  canManage: boolean;
+}
+
+const emptyPackageForm = {
+  name: "",
+  catalog_service_id: "",
+  units: "5",
+  price: "",
+  validity_months: "12",
+  is_active: true,
+};
+
+export function PrepaidPackages({ customers, canManage }: PrepaidPackagesProps) {
+  const [packages, setPackages] = useState<ServicePackage[]>([]);
+  const [soldPackages, setSoldPackages] = useState<CustomerPackage[]>([]);
+  const [catalog, setCatalog] = useState<CatalogService[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingPackage, setEditingPackage] = useState<ServicePackage | null>(null);
+  const [isPackageDialogOpen, setIsPackageDialogOpen] = useState(false);
+  const [packageForm, setPackageForm] = useState(emptyPackageForm);
+  const [isSellDialogOpen, setIsSellDialogOpen] = useState(false);
+  const [sale, setSale] = useState({ customer_id: "", package_id: "" });
+  const [tenders, setTenders] = useState<PaymentTender[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPackages();
+  }, []);
+
+  const loadPackages = async () => {
+    try {
+      const [packageList, sold, catalogServices] = await Promise.all([
+        fetchServicePackages(),
+        fetchCustomerPackages(),
+        fetchServiceCatalog(),
+      ]);
+      setPackages(packageList);
+      setSoldPackages(sold);
+      setCatalog(catalogServices);
+    } catch (error) {
+      console.error("Error loading packages:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load service packages",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openPackageDialog = (pkg?: ServicePackage) => {
+    setEditingPackage(pkg || null);
+    setPackageForm(pkg
+      ? {
+          name: pkg.name,
+          catalog_service_id: pkg.catalog_service_id,
+          units: pkg.units.toString(),
+          price: pkg.price.toString(),
+          validity_months: pkg.validity_months?.toString() || "",
+          is_active: pkg.is_active,
+        }
+      : emptyPackageForm);
+    setIsPackageDialogOpen(true);
+  };
+
+  const handleSavePackage = async () => {
+    if (!user) return;
+
+    const units = parseInt(packageForm.units);
+    const price = parseFloat(packageForm.price);
+    const validity = packageForm.validity_months === "" ? null : parseInt(packageForm.validity_months);
+
+    if (!packageForm.name.trim() || !packageForm.catalog_service_id || isNaN(units) || units < 1 || isNaN(price) || price < 0) {
+      toast({
+        title: "Incomplete Package",
+        description: "Enter a name, the service it covers, at least 1 unit and a price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (validity !== null && (isNaN(validity) || validity < 1)) {
+      toast({
+        title: "Invalid Validity",
+        description: "Packages must last at least 1 month, or leave it empty so they never expire",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveServicePackage({
+        id: editingPackage?.id,
+        name: secureInput.string(packageForm.name.trim()),
+        catalogServiceId: packageForm.catalog_service_id,
+        units,
+        price,
+        validityMonths: validity,
+        isActive: packageForm.is_active,
+        createdBy: user.id,
+      });
+
+      toast({
+        title: editingPackage ? "Package Updated" : "Package Added",
+        description: `${units} × ${catalog.find(service => service.id === packageForm.catalog_service_id)?.name} for ${formatCurrency(price)}`,
+      });
+      setIsPackageDialogOpen(false);
+      loadPackages();
+    } catch (error) {
+      console.error("Error saving package:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the package. Package names must be unique.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const selectedPackage = packages.find(pkg => pkg.id === sale.package_id);
+
+  const openSellDialog = () => {
+    setSale({ customer_id: "", package_id: "" });
+    setTenders([]);
+    setIsSellDialogOpen(true);
+  };
+
+  const selectSalePackage = (packageId: string) => {
+    const pkg = packages.find(p => p.id === packageId);
+    setSale(prev => ({ ...prev, package_id: packageId }));
+    setTenders(pkg ? [{ payment_method: 'cash', amount: Number(pkg.price) }] : []);
+  };
+
+  const handleSell = async () => {
+    if (!sale.customer_id || !selectedPackage) {
+      toast({
+        title: "Incomplete Sale",
+        description: "Select the customer and the package",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (Math.abs(sumTenders(tenders) - Number(selectedPackage.price)) > 0.001) {
+      toast({
+        title: "Pay in Full",
+        description: `Packages are paid up front: tenders must add up to ${formatCurrency(Number(selectedPackage.price))}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await sellServicePackage(
+        sale.customer_id,
+        selectedPackage.id,
+        tenders.map(tender => ({
+          ...tender,
+          reference_number: secureInput.string((tender.reference_number || '').trim()) || undefined,
+        }))
+      );
+
+      if (!result.success) {
+        throw new Error(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+
+      toast({
+        title: "Package Sold",
+        description: result.message,
+      });
+      setIsSellDialogOpen(false);
+      loadPackages();
+    } catch (error) {
+      console.error("Error selling package:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to sell the package",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getPackageStatus = (pkg: CustomerPackage) => {
+    if (pkg.units_remaining === 0) return <Badge variant="secondary">Used up</Badge>;
+    if (isPrepaidExpired(pkg.expires_at)) return <Badge variant="destructive">Expired</Badge>;
+    return <Badge className="bg-green-100 text-green-800 border-green-200">Active</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-purple-50/50">
+        <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-purple-800">
+                <Package className="h-5 w-5 text-purple-600" />
+                Service Packages
+              </CardTitle>
+              <CardDescription className="text-purple-600">
+                Prepaid bundles of one service. A unit is used when a matching service is completed for the customer.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {canManage && (
+                <Button size="sm" variant="outline" onClick={() => openPackageDialog()}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Package
+                </Button>
+              )}
+              <Button size="sm" onClick={openSellDialog} disabled={!packages.some(pkg => pkg.is_active)}>
+                <ShoppingCart className="mr-2 h-4 w-4" />
+                Sell Package
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Package</TableHead>
+                <TableHead>Service</TableHead>
+                <TableHead>Units</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Valid For</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {packages.map((pkg) => (
+                <TableRow key={pkg.id}>
+                  <TableCell className="font-medium">{pkg.name}</TableCell>
+                  <TableCell>{pkg.service_catalog?.name || '-'}</TableCell>
+                  <TableCell>{pkg.units}</TableCell>
+                  <TableCell>
+                    {formatCurrency(Number(pkg.price))}
+                    <div className="text-xs text-muted-foreground">{formatCurrency(Number(pkg.price) / pkg.units)} per unit</div>
+                  </TableCell>
+                  <TableCell>{pkg.validity_months ? `${pkg.validity_months} months` : 'No expiry'}</TableCell>
+                  <TableCell>
+                    {pkg.is_active ? <Badge variant="outline">On sale</Badge> : <Badge variant="secondary">Withdrawn</Badge>}
+                  </TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openPackageDialog(pkg)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {packages.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 7 : 6} className="text-center py-6 text-muted-foreground">
+                    No packages defined yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-emerald-50/50">
+        <CardHeader className="bg-gradient-to-r from-emerald-50 to-teal-50 border-b border-emerald-100">
+          <CardTitle className="text-emerald-800">Sold Packages</CardTitle>
+          <CardDescription className="text-emerald-600">
+            Units still to be used by each customer
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Customer</TableHead>
+                <TableHead>Package</TableHead>
+                <TableHead>Units Left</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {soldPackages.map((pkg) => (
+                <TableRow key={pkg.id}>
+                  <TableCell className="font-medium">{pkg.customers?.name || '-'}</TableCell>
+                  <TableCell>
+                    {pkg.name}
+                    <div className="text-xs text-muted-foreground">{pkg.service_catalog?.name}</div>
+                  </TableCell>
+                  <TableCell>{pkg.units_remaining} / {pkg.units_total}</TableCell>
+                  <TableCell>{formatCurrency(Number(pkg.price_paid))}</TableCell>
+                  <TableCell>{pkg.expires_at ? new Date(pkg.expires_at).toLocaleDateString() : 'Never'}</TableCell>
+                  <TableCell>{getPackageStatus(pkg)}</TableCell>
+                </TableRow>
+              ))}
+              {soldPackages.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
+                    No packages sold yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isPackageDialogOpen} onOpenChange={setIsPackageDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPackage ? "Edit Package" : "Add Package"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to packages sold from now on; packages already sold keep their terms
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="package_name">Name</Label>
+              <Input
+                id="package_name"
+                value={packageForm.name}
+                placeholder="e.g. Five Washes"
+                onChange={(e) => setPackageForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Service</Label>
+              <Select
+                value={packageForm.catalog_service_id}
+                onValueChange={(value) => setPackageForm(prev => ({ ...prev, catalog_service_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a catalog service" />
+                </SelectTrigger>
+                <SelectContent>
+                  {catalog.map((service) => (
+                    <SelectItem key={service.id} value={service.id}>
+                      {service.name} · {formatCurrency(Number(service.default_price))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="package_units">Units</Label>
+                <Input
+                  id="package_units"
+                  type="number"
+                  min="1"
+                  value={packageForm.units}
+                  onChange={(e) => setPackageForm(prev => ({ ...prev, units: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="package_price">Price</Label>
+                <Input
+                  id="package_price"
+                  type="number"
+                  min="0"
+                  value={packageForm.price}
+                  onChange={(e) => setPackageForm(prev => ({ ...prev, price: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="package_validity">Valid (months)</Label>
+                <Input
+                  id="package_validity"
+                  type="number"
+                  min="1"
+                  placeholder="Never expires"
+                  value={packageForm.validity_months}
+                  onChange={(e) => setPackageForm(prev => ({ ...prev, validity_months: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="package_active">On sale</Label>
+              <Switch
+                id="package_active"
+                checked={packageForm.is_active}
+                onCheckedChange={(checked) => setPackageForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPackageDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSavePackage} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Package"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isSellDialogOpen} onOpenChange={setIsSellDialogOpen}>
+        <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Sell Package</DialogTitle>
+            <DialogDescription>
+              The package is paid in full now and used up as the customer has the service done
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={sale.customer_id} onValueChange={(value) => setSale(prev => ({ ...prev, customer_id: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Package</Label>
+              <Select value={sale.package_id} onValueChange={selectSalePackage}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a package" />
+                </SelectTrigger>
+                <SelectContent>
+                  {packages.filter(pkg => pkg.is_active).map((pkg) => (
+                    <SelectItem key={pkg.id} value={pkg.id}>
+                      {pkg.name} · {pkg.units} × {pkg.service_catalog?.name} · {formatCurrency(Number(pkg.price))}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {selectedPackage && (
+              <SplitPaymentInput
+                tenders={tenders}
+                onChange={setTenders}
+                amountDue={Number(selectedPackage.price)}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSellDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSell} disabled={isSaving} className="bg-green-600 hover:bg-green-700">
+              {isSaving ? "Processing..." : "Complete Sale"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
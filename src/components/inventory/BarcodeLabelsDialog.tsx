@@ -0,0 +1,206 @@
+import { useState, useEffect } from "react";
+import { Printer, Wand2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import {
+  assignItemBarcodes,
+  BARCODE_FORMAT_LABELS,
+  barcodeModules,
+  BarcodeFormat,
+  generateStoreBarcode,
+} from "@/utils/barcode";
+
+interface LabelItem {
+  id: string;
+  name: string;
+  barcode: string | null;
+  unit_price: number;
+}
+
+interface BarcodeLabelsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: LabelItem[];
+  /** Called after barcodes are assigned so the item list refreshes */
+  onChanged: () => void;
+}
+
+const MODULE_WIDTH = 2;
+const BAR_HEIGHT = 60;
+const QUIET_ZONE = 10;
+
+function BarcodeSvg({ modules }: { modules: string }) {
+  const width = modules.length * MODULE_WIDTH + QUIET_ZONE * 2 * MODULE_WIDTH;
+  return (
+    <svg viewBox={`0 0 ${width} ${BAR_HEIGHT}`} className="w-full h-14" preserveAspectRatio="none">
+      <rect width={width} height={BAR_HEIGHT} fill="white" />
+      {modules.split('').map((module, index) => module === '1' && (
+        <rect
+          key={index}
+          x={(index + QUIET_ZONE) * MODULE_WIDTH}
+          width={MODULE_WIDTH}
+          height={BAR_HEIGHT}
+          fill="black"
+        />
+      ))}
+    </svg>
+  );
+}
+
+export function BarcodeLabelsDialog({ isOpen, onClose, items, onChanged }: BarcodeLabelsDialogProps) {
+  const [format, setFormat] = useState<BarcodeFormat>('ean13');
+  const [includeLabelled, setIncludeLabelled] = useState(false);
+  const [showPrice, setShowPrice] = useState(true);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [copies, setCopies] = useState("1");
+  const [isAssigning, setIsAssigning] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen) {
+      setSelected(items.reduce((acc, item) => ({ ...acc, [item.id]: !item.barcode }), {} as Record<string, boolean>));
+    }
+  }, [isOpen]);
+
+  const listedItems = items.filter(item => includeLabelled || !item.barcode);
+  const selectedItems = listedItems.filter(item => selected[item.id]);
+  const unassigned = selectedItems.filter(item => !item.barcode);
+  const copyCount = Math.min(Math.max(parseInt(copies) || 1, 1), 50);
+
+  // Codes that are not valid EAN-13 (e.g. supplier codes) still print, as Code 128
+  const labelFor = (item: LabelItem) => {
+    if (!item.barcode) return null;
+    const modules = barcodeModules(item.barcode, format) || barcodeModules(item.barcode, 'code128');
+    return modules ? { code: item.barcode, modules } : null;
+  };
+
+  const printableItems = selectedItems.filter(item => labelFor(item));
+
+  const handleAssign = async () => {
+    setIsAssigning(true);
+    try {
+      await assignItemBarcodes(unassigned.map(item => ({ id: item.id, barcode: generateStoreBarcode() })));
+      toast({
+        title: "Barcodes Assigned",
+        description: `${unassigned.length} item(s) now have a barcode`,
+      });
+      // Keep the newly labelled items in the list so they can be printed
+      setIncludeLabelled(true);
+      onChanged();
+    } catch (error) {
+      console.error("Error assigning barcodes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to assign barcodes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsAssigning(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="print:hidden">
+          <DialogTitle>Barcode Labels</DialogTitle>
+          <DialogDescription>
+            Items without a barcode get an in-store EAN-13 code. Assign the codes, then print the labels.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 print:hidden">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="grid gap-2">
+              <Label>Format</Label>
+              <Select value={format} onValueChange={(value) => setFormat(value as BarcodeFormat)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BARCODE_FORMAT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="label-copies">Copies per item</Label>
+              <Input
+                id="label-copies"
+                type="number"
+                min="1"
+                max="50"
+                value={copies}
+                onChange={(e) => setCopies(e.target.value)}
+              />
+            </div>
+            <div className="flex flex-col justify-end gap-2">
+              <div className="flex items-center gap-2">
+                <Switch id="include-labelled" checked={includeLabelled} onCheckedChange={setIncludeLabelled} />
+                <Label htmlFor="include-labelled">Include items with a barcode</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="show-price" checked={showPrice} onCheckedChange={setShowPrice} />
+                <Label htmlFor="show-price">Show price</Label>
+              </div>
+            </div>
+          </div>
+
+          <div className="max-h-48 overflow-y-auto rounded-md border divide-y">
+            {listedItems.map(item => (
+              <label key={item.id} className="flex items-center gap-3 px-3 py-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={!!selected[item.id]}
+                  onCheckedChange={(checked) => setSelected(prev => ({ ...prev, [item.id]: !!checked }))}
+                />
+                <span className="flex-1">{item.name}</span>
+                <span className="font-mono text-muted-foreground">{item.barcode || 'No barcode'}</span>
+              </label>
+            ))}
+            {listedItems.length === 0 && (
+              <p className="px-3 py-6 text-center text-sm text-muted-foreground">Every item already has a barcode</p>
+            )}
+          </div>
+
+          <div className="flex flex-col sm:flex-row justify-end gap-2">
+            <Button variant="outline" onClick={handleAssign} disabled={isAssigning || unassigned.length === 0}>
+              <Wand2 className="mr-2 h-4 w-4" />
+              {isAssigning ? 'Assigning...' : `Assign ${unassigned.length} Barcode(s)`}
+            </Button>
+            <Button
+              onClick={() => window.print()}
+              disabled={printableItems.length === 0}
+              className="bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700"
+            >
+              <Printer className="mr-2 h-4 w-4" />
+              Print {printableItems.length * copyCount} Label(s)
+            </Button>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3 print:grid-cols-3 print:text-black">
+          {printableItems.flatMap(item => {
+            const label = labelFor(item);
+            if (!label) return [];
+            return Array.from({ length: copyCount }, (_, copy) => (
+              <div key={`${item.id}-${copy}`} className="border rounded-md p-2 text-center break-inside-avoid">
+                <p className="text-xs font-medium truncate">{item.name}</p>
+                <BarcodeSvg modules={label.modules} />
+                <p className="font-mono text-xs tracking-widest">{label.code}</p>
+                {showPrice && <p className="text-sm font-bold">{formatCurrency(item.unit_price)}</p>}
+              </div>
+            ));
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
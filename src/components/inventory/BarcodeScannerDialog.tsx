@@ -0,0 +1,154 @@
+import { useState, useEffect, useRef } from "react";
+import { Keyboard } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface BarcodeScannerDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onScan: (code: string) => void;
+  title?: string;
+  /** Keep the camera open after a scan, e.g. while counting stock */
+  continuous?: boolean;
+}
+
+// The browser's built-in detector (Chrome, Edge and Android); not in the TypeScript DOM types yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_INTERVAL_MS = 250;
+// The same code held in front of the camera is only counted once in this window
+const REPEAT_SCAN_MS = 1500;
+
+export function BarcodeScannerDialog({ isOpen, onClose, onScan, title = "Scan Barcode", continuous = false }: BarcodeScannerDialogProps) {
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualCode, setManualCode] = useState("");
+  const [lastCode, setLastCode] = useState<string | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  // The detection loop outlives renders, so it reads the latest callbacks from here
+  const callbacksRef = useRef({ onScan, onClose });
+  callbacksRef.current = { onScan, onClose };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLastCode(null);
+    setCameraError(null);
+
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+    if (!Detector) {
+      setCameraError("This browser cannot read barcodes from the camera. Type the code or use a USB scanner.");
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+    let lastScan = { code: '', at: 0 };
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+        setCameraError(null);
+
+        const detector = new Detector({ formats: ['ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39'] });
+        timer = window.setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (!barcode || stopped) return;
+
+            const now = Date.now();
+            if (barcode.rawValue === lastScan.code && now - lastScan.at < REPEAT_SCAN_MS) return;
+            lastScan = { code: barcode.rawValue, at: now };
+
+            setLastCode(barcode.rawValue);
+            callbacksRef.current.onScan(barcode.rawValue);
+            if (!continuous) callbacksRef.current.onClose();
+          } catch (error) {
+            console.error("Error reading barcode:", error);
+          }
+        }, SCAN_INTERVAL_MS);
+      } catch (error) {
+        console.error("Error opening camera:", error);
+        setCameraError("The camera could not be opened. Check the browser's camera permission.");
+      }
+    };
+
+    start();
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [isOpen, continuous]);
+
+  const submitManualCode = () => {
+    const code = manualCode.trim();
+    if (!code) return;
+    setLastCode(code);
+    onScan(code);
+    setManualCode("");
+    if (!continuous) onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Point the camera at the barcode{continuous ? '. Each scan counts one unit.' : '.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {cameraError ? (
+          <p className="text-sm text-amber-700 bg-amber-50 border border-amber-200 rounded-md p-3">{cameraError}</p>
+        ) : (
+          <div className="relative overflow-hidden rounded-md bg-black aspect-video">
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+            <div className="pointer-events-none absolute inset-x-8 top-1/2 h-0.5 -translate-y-1/2 bg-red-500/80" />
+          </div>
+        )}
+
+        {lastCode && (
+          <p className="text-sm text-muted-foreground">
+            Last scan: <span className="font-mono text-gray-900">{lastCode}</span>
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Keyboard className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Or type the code"
+              value={manualCode}
+              onChange={(e) => setManualCode(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  submitManualCode();
+                }
+              }}
+              className="pl-9"
+            />
+          </div>
+          <Button onClick={submitManualCode} disabled={!manualCode.trim()}>
+            Enter
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useState } from "react";
+import { AlertTriangle, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { EXPIRY_WARNING_DAYS, InventoryLot, writeOffLots } from "@/utils/inventoryLots";
+
+interface ExpiringLotsProps {
+  expiredLots: InventoryLot[];
+  expiringSoonLots: InventoryLot[];
+  /** Called after a write-off so stock figures refresh */
+  onWrittenOff: () => void;
+}
+
+export function ExpiringLots({ expiredLots, expiringSoonLots, onWrittenOff }: ExpiringLotsProps) {
+  const [isWritingOff, setIsWritingOff] = useState(false);
+  const { toast } = useToast();
+
+  const expiredValue = expiredLots.reduce((sum, lot) => sum + lot.quantity_remaining * lot.unit_cost, 0);
+
+  const handleWriteOffExpired = async () => {
+    if (!confirm(`Write off ${expiredLots.length} expired lot(s) worth ${formatCurrency(expiredValue)}?`)) return;
+
+    setIsWritingOff(true);
+    try {
+      const result = await writeOffLots();
+      if (!result.success) {
+        toast({
+          title: "Could Not Write Off",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Expired Stock Written Off",
+        description: `${result.message} (${result.reference_number})`,
+      });
+      onWrittenOff();
+    } catch (error) {
+      console.error("Error writing off expired lots:", error);
+      toast({
+        title: "Error",
+        description: "Failed to write off expired lots",
+        variant: "destructive",
+      });
+    } finally {
+      setIsWritingOff(false);
+    }
+  };
+
+  const daysLeft = (expiryDate: string) =>
+    Math.ceil((new Date(expiryDate).getTime() - new Date().setHours(0, 0, 0, 0)) / (1000 * 60 * 60 * 24));
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-amber-50/50">
+      <CardHeader className="bg-gradient-to-r from-amber-50 to-red-50 border-b border-amber-100">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <CardTitle className="text-amber-800 flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5" />
+              Expiring Stock
+            </CardTitle>
+            <CardDescription className="text-amber-600">
+              Lots that have expired or expire within {EXPIRY_WARNING_DAYS} days
+            </CardDescription>
+          </div>
+          {expiredLots.length > 0 && (
+            <Button
+              onClick={handleWriteOffExpired}
+              disabled={isWritingOff}
+              className="bg-gradient-to-r from-red-600 to-rose-600 hover:from-red-700 hover:to-rose-700"
+            >
+              <Trash2 className="mr-2 h-4 w-4" />
+              {isWritingOff ? 'Writing Off...' : `Write Off ${expiredLots.length} Expired Lot(s)`}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-6">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Item</TableHead>
+              <TableHead>Lot</TableHead>
+              <TableHead>Expiry</TableHead>
+              <TableHead className="text-right">Remaining</TableHead>
+              <TableHead className="text-right">Value</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {[...expiredLots, ...expiringSoonLots].map(lot => {
+              const days = daysLeft(lot.expiry_date || '');
+              return (
+                <TableRow key={lot.id}>
+                  <TableCell className="font-medium">{lot.inventory_items?.name}</TableCell>
+                  <TableCell className="font-mono">{lot.lot_number}</TableCell>
+                  <TableCell>
+                    {days < 0 ? (
+                      <Badge className="bg-red-100 text-red-800 border-red-200">Expired {lot.expiry_date}</Badge>
+                    ) : (
+                      <Badge className="bg-amber-100 text-amber-800 border-amber-200">
+                        {lot.expiry_date} ({days === 0 ? 'today' : `${days}d`})
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">{lot.quantity_remaining}</TableCell>
+                  <TableCell className="text-right">{formatCurrency(lot.quantity_remaining * lot.unit_cost)}</TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,152 @@
+import { useState, useEffect } from "react";
+import { Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { EXPIRY_WARNING_DAYS, fetchInventoryLots, InventoryLot, isLotExpired, writeOffLots } from "@/utils/inventoryLots";
+
+interface InventoryLotsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: { id: string; name: string } | null;
+  /** Called after a write-off so stock figures refresh */
+  onChanged: () => void;
+}
+
+export function InventoryLotsDialog({ isOpen, onClose, item, onChanged }: InventoryLotsDialogProps) {
+  const [lots, setLots] = useState<InventoryLot[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen && item) loadLots();
+  }, [isOpen, item]);
+
+  const loadLots = async () => {
+    if (!item) return;
+    setIsLoading(true);
+    try {
+      setLots(await fetchInventoryLots({ itemId: item.id }));
+    } catch (error) {
+      console.error("Error fetching lots:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load lots",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleWriteOff = async (lot: InventoryLot) => {
+    if (!confirm(`Write off the remaining ${lot.quantity_remaining} unit(s) of lot ${lot.lot_number}?`)) return;
+
+    try {
+      const result = await writeOffLots([lot.id]);
+      if (!result.success) {
+        toast({
+          title: "Could Not Write Off",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Lot Written Off",
+        description: `${result.message} (${formatCurrency(result.total_value || 0)})`,
+      });
+      loadLots();
+      onChanged();
+    } catch (error) {
+      console.error("Error writing off lot:", error);
+      toast({
+        title: "Error",
+        description: "Failed to write off lot",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const expiryBadge = (lot: InventoryLot) => {
+    if (!lot.expiry_date) return <span className="text-muted-foreground">-</span>;
+
+    const warnUntil = new Date();
+    warnUntil.setDate(warnUntil.getDate() + EXPIRY_WARNING_DAYS);
+
+    if (isLotExpired(lot)) {
+      return <Badge className="bg-red-100 text-red-800 border-red-200">Expired {lot.expiry_date}</Badge>;
+    }
+    if (new Date(lot.expiry_date) <= warnUntil) {
+      return <Badge className="bg-amber-100 text-amber-800 border-amber-200">{lot.expiry_date}</Badge>;
+    }
+    return <span className="text-sm">{lot.expiry_date}</span>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Lots of {item?.name}</DialogTitle>
+          <DialogDescription>
+            Services and sales use the lot that expires first. Expired lots are skipped until they are written off.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-green-600"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Lot</TableHead>
+                <TableHead>Received</TableHead>
+                <TableHead>Expiry</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+                <TableHead className="text-right">Unit Cost</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lots.map(lot => (
+                <TableRow key={lot.id}>
+                  <TableCell className="font-mono">{lot.lot_number}</TableCell>
+                  <TableCell>{new Date(lot.received_at).toLocaleDateString()}</TableCell>
+                  <TableCell>{expiryBadge(lot)}</TableCell>
+                  <TableCell className="text-right">
+                    {lot.quantity_remaining} / {lot.quantity_received}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(lot.unit_cost)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleWriteOff(lot)}
+                      className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      title="Write off lot"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {lots.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No stock on hand
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,6 +22,8 @@ interface InventoryTransaction {
   total_amount: number | null;
   reason: string | null;
   reference_number: string | null;
+  lot_number?: string | null;
+  expiry_date?: string | null;
   created_at: string;
   inventory_items: InventoryItem;
 }
@@ -59,6 +61,12 @@ export function InventoryReceiptDialog({ isOpen, onClose, transaction }: Invento
         return 'Stock Out';
       case 'adjustment':
         return 'Adjustment';
+      case 'transfer_in':
+        return 'Transfer In';
+      case 'transfer_out':
+        return 'Transfer Out';
+      case 'write_off':
+        return 'Write-off';
       default:
         return type;
     }
@@ -72,6 +80,11 @@ export function InventoryReceiptDialog({ isOpen, onClose, transaction }: Invento
         return '📤';
       case 'adjustment':
         return '⚖';
+      case 'transfer_in':
+      case 'transfer_out':
+        return '🔀';
+      case 'write_off':
+        return '🗑';
       default:
         return '📋';
     }
@@ -110,8 +123,8 @@ export function InventoryReceiptDialog({ isOpen, onClose, transaction }: Invento
                 Type:
               </span>
               <span className={`font-semibold ${
-                transaction.transaction_type === 'stock_in' ? 'text-green-600' : 
-                transaction.transaction_type === 'stock_out' ? 'text-red-600' : 'text-blue-600'
+                transaction.transaction_type === 'stock_in' || transaction.transaction_type === 'transfer_in' ? 'text-green-600' : 
+                ['stock_out', 'transfer_out', 'write_off'].includes(transaction.transaction_type) ? 'text-red-600' : 'text-blue-600'
               }`}>
                 {getTransactionTypeLabel(transaction.transaction_type)}
               </span>
@@ -158,6 +171,20 @@ export function InventoryReceiptDialog({ isOpen, onClose, transaction }: Invento
                 <span className="font-mono text-sm">{transaction.reference_number}</span>
               </div>
             )}
+
+            {transaction.lot_number && (
+              <div className="flex justify-between items-center">
+                <span className="font-medium">Lot:</span>
+                <span className="font-mono text-sm">{transaction.lot_number}</span>
+              </div>
+            )}
+
+            {transaction.expiry_date && (
+              <div className="flex justify-between items-center">
+                <span className="font-medium">Expires:</span>
+                <span className="text-sm">{transaction.expiry_date}</span>
+              </div>
+            )}
             
             <div className="flex justify-between items-center">
               <span className="font-medium flex items-center gap-2">
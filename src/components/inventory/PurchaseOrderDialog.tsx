@@ -0,0 +1,287 @@
+import { useState, useEffect } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { PurchaseOrder, savePurchaseOrder, Supplier } from "@/utils/purchasing";
+
+export interface OrderableItem {
+  id: string;
+  name: string;
+  cost_price: number;
+  supplier_id?: string | null;
+}
+
+interface PurchaseOrderDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Draft being edited; a new order when null */
+  order: PurchaseOrder | null;
+  suppliers: Supplier[];
+  /** Items stocked at the order's branch */
+  items: OrderableItem[];
+  onSaved: () => void;
+}
+
+interface DraftLine {
+  item_id: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+const emptyLine: DraftLine = { item_id: "", quantity: "1", unit_cost: "" };
+
+export function PurchaseOrderDialog({ isOpen, onClose, order, suppliers, items, onSaved }: PurchaseOrderDialogProps) {
+  const [supplierId, setSupplierId] = useState("");
+  const [expectedDate, setExpectedDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [lines, setLines] = useState<DraftLine[]>([emptyLine]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    if (order) {
+      setSupplierId(order.supplier_id);
+      setExpectedDate(order.expected_date || "");
+      setNotes(order.notes || "");
+      setLines(order.purchase_order_lines.map(line => ({
+        item_id: line.item_id,
+        quantity: line.quantity_ordered.toString(),
+        unit_cost: line.unit_cost.toString(),
+      })));
+    } else {
+      setSupplierId("");
+      setExpectedDate("");
+      setNotes("");
+      setLines([emptyLine]);
+    }
+  }, [isOpen, order]);
+
+  // The supplier's own items first, then everything else
+  const sortedItems = [...items].sort((a, b) =>
+    Number(b.supplier_id === supplierId) - Number(a.supplier_id === supplierId) || a.name.localeCompare(b.name)
+  );
+
+  const updateLine = (index: number, changes: Partial<DraftLine>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const selectItem = (index: number, itemId: string) => {
+    const item = items.find(i => i.id === itemId);
+    updateLine(index, {
+      item_id: itemId,
+      unit_cost: lines[index].unit_cost || (item ? item.cost_price.toString() : ""),
+    });
+  };
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0),
+    0
+  );
+
+  const handleSave = async () => {
+    const filledLines = lines.filter(line => line.item_id);
+    if (!supplierId || filledLines.length === 0) {
+      toast({
+        title: "Incomplete Order",
+        description: "Choose a supplier and at least one item",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (filledLines.some(line => !(parseInt(line.quantity) > 0) || parseFloat(line.unit_cost) < 0)) {
+      toast({
+        title: "Invalid Line",
+        description: "Every line needs a quantity above zero and a cost that is not negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await savePurchaseOrder({
+        id: order?.id,
+        supplierId,
+        expectedDate: expectedDate || undefined,
+        notes: secureInput.string(notes.trim()) || undefined,
+        lines: filledLines.map(line => ({
+          item_id: line.item_id,
+          quantity: parseInt(line.quantity),
+          unit_cost: parseFloat(line.unit_cost) || 0,
+        })),
+      });
+
+      if (!result.success) {
+        toast({
+          title: "Could Not Save Order",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: order ? "Order Updated" : "Draft Order Created",
+        description: result.message,
+      });
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving purchase order:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save purchase order",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{order ? `Edit ${order.po_number}` : 'New Purchase Order'}</DialogTitle>
+          <DialogDescription>
+            Orders stay editable as drafts until they are sent to the supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid gap-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.filter(supplier => supplier.is_active || supplier.id === supplierId).map(supplier => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name} ({supplier.lead_time_days}d lead time)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="po-expected-date">Expected Delivery</Label>
+              <Input
+                id="po-expected-date"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">Leave empty to use the supplier's lead time</p>
+            </div>
+          </div>
+
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead className="w-24">Quantity</TableHead>
+                  <TableHead className="w-32">Unit Cost</TableHead>
+                  <TableHead className="w-28 text-right">Line Total</TableHead>
+                  <TableHead className="w-12"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>
+                      <Select value={line.item_id} onValueChange={(value) => selectItem(index, value)}>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select item" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {sortedItems.map(item => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="1"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={line.unit_cost}
+                        onChange={(e) => updateLine(index, { unit_cost: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right font-medium">
+                      {formatCurrency((parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0))}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                        disabled={lines.length === 1}
+                        className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Button variant="outline" size="sm" onClick={() => setLines([...lines, emptyLine])}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Line
+            </Button>
+            <p className="text-lg font-semibold">Total: {formatCurrency(total)}</p>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea
+              id="po-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              placeholder="Delivery instructions, terms, ..."
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : order ? 'Save Draft' : 'Create Draft'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
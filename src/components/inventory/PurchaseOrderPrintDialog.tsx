@@ -0,0 +1,128 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import greatNaturalsLogo from "@/assets/great-naturals-logo.jpg";
+import { formatCurrency } from "@/lib/utils";
+import { PURCHASE_ORDER_STATUS_LABELS, PurchaseOrder } from "@/utils/purchasing";
+
+interface PurchaseOrderPrintDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  order: PurchaseOrder | null;
+}
+
+export function PurchaseOrderPrintDialog({ isOpen, onClose, order }: PurchaseOrderPrintDialogProps) {
+  const handlePrint = () => {
+    window.print();
+  };
+
+  if (!order) return null;
+
+  const formatDate = (dateString: string) =>
+    new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+
+  const showReceived = order.status === 'partially_received' || order.status === 'received';
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center space-y-2">
+          <img
+            src={greatNaturalsLogo}
+            alt="Great Naturals"
+            className="mx-auto h-20 w-auto object-contain"
+          />
+          <DialogTitle className="text-2xl font-bold text-center text-gray-800">Purchase Order</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 print:text-black">
+          <div className="text-center space-y-1">
+            <h2 className="text-2xl font-bold text-primary tracking-wide">GREAT NATURALS</h2>
+            <p className="font-mono text-lg">{order.po_number}</p>
+            <p className="text-sm text-muted-foreground">{PURCHASE_ORDER_STATUS_LABELS[order.status]}</p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 border-t border-b py-4 text-sm">
+            <div className="space-y-1">
+              <p className="font-semibold text-gray-900">Supplier</p>
+              <p>{order.suppliers?.name}</p>
+              {order.suppliers?.contact_name && <p>Attn: {order.suppliers.contact_name}</p>}
+              {order.suppliers?.address && <p>{order.suppliers.address}</p>}
+              {order.suppliers?.phone && <p>{order.suppliers.phone}</p>}
+              {order.suppliers?.email && <p>{order.suppliers.email}</p>}
+            </div>
+            <div className="space-y-1">
+              <p className="font-semibold text-gray-900">Deliver To</p>
+              <p>{order.branches?.name}</p>
+              {order.branches?.address && <p>{order.branches.address}</p>}
+              {order.branches?.phone && <p>{order.branches.phone}</p>}
+              <p className="pt-2">
+                <span className="font-medium">Order date:</span> {formatDate(order.order_date)}
+              </p>
+              {order.expected_date && (
+                <p>
+                  <span className="font-medium">Expected by:</span> {formatDate(order.expected_date)}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left">
+                <th className="py-2">Item</th>
+                <th className="py-2 text-right">Qty</th>
+                {showReceived && <th className="py-2 text-right">Received</th>}
+                <th className="py-2 text-right">Unit Cost</th>
+                <th className="py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {order.purchase_order_lines.map(line => (
+                <tr key={line.id} className="border-b border-gray-100">
+                  <td className="py-2">
+                    {line.inventory_items?.name}
+                    {line.inventory_items?.barcode && (
+                      <span className="block text-xs text-muted-foreground font-mono">{line.inventory_items.barcode}</span>
+                    )}
+                  </td>
+                  <td className="py-2 text-right">{line.quantity_ordered}</td>
+                  {showReceived && <td className="py-2 text-right">{line.quantity_received}</td>}
+                  <td className="py-2 text-right">{formatCurrency(line.unit_cost)}</td>
+                  <td className="py-2 text-right">{formatCurrency(line.unit_cost * line.quantity_ordered)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td colSpan={showReceived ? 4 : 3} className="py-3 text-right font-semibold">Order Total</td>
+                <td className="py-3 text-right font-bold text-lg">{formatCurrency(order.total_amount)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {order.notes && (
+            <div className="py-2 px-3 bg-gray-50 rounded-lg text-sm">
+              <span className="font-medium">Notes:</span> {order.notes}
+            </div>
+          )}
+
+          <div className="text-center text-xs text-gray-500 space-y-1">
+            <p>Please quote {order.po_number} on your delivery note and invoice</p>
+          </div>
+        </div>
+
+        <div className="flex justify-center pt-4 print:hidden">
+          <Button onClick={handlePrint} className="bg-blue-600 hover:bg-blue-700">
+            <Printer className="mr-2 h-4 w-4" />
+            Print Order
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
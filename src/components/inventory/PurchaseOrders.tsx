@@ -0,0 +1,447 @@
+import { useState, useEffect } from "react";
+import { Ban, ClipboardList, Edit, PackageCheck, Plus, Printer, RefreshCw, Send } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { OrderableItem, PurchaseOrderDialog } from "@/components/inventory/PurchaseOrderDialog";
+import { PurchaseOrderPrintDialog } from "@/components/inventory/PurchaseOrderPrintDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBranch } from "@/hooks/useBranch";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  fetchPurchaseOrders,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PurchaseOrder,
+  PurchaseOrderStatus,
+  receivePurchaseOrder,
+  Supplier,
+  updatePurchaseOrderStatus,
+} from "@/utils/purchasing";
+
+interface PurchaseOrdersProps {
+  suppliers: Supplier[];
+  items: (OrderableItem & { branch_id?: string })[];
+  refreshKey?: number;
+  /** Called after goods are received so stock figures refresh */
+  onStockReceived: () => void;
+}
+
+const STATUS_STYLES: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800 border-gray-200',
+  sent: 'bg-blue-100 text-blue-800 border-blue-200',
+  partially_received: 'bg-amber-100 text-amber-800 border-amber-200',
+  received: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  cancelled: 'bg-red-100 text-red-800 border-red-200',
+};
+
+export function PurchaseOrders({ suppliers, items, refreshKey = 0, onStockReceived }: PurchaseOrdersProps) {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [isOrderDialogOpen, setIsOrderDialogOpen] = useState(false);
+  const [printOrder, setPrintOrder] = useState<PurchaseOrder | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [receivedQuantities, setReceivedQuantities] = useState<Record<string, string>>({});
+  const [receivedLots, setReceivedLots] = useState<Record<string, { lot_number: string; expiry_date: string }>>({});
+  const [receiveNotes, setReceiveNotes] = useState("");
+  const [isReceiving, setIsReceiving] = useState(false);
+
+  const { branches, currentBranchId } = useBranch();
+  const { toast } = useToast();
+
+  // Orders are placed for one branch, so a new order needs a branch in scope
+  const needsBranch = currentBranchId === null && branches.length > 1;
+
+  useEffect(() => {
+    loadOrders();
+  }, [refreshKey]);
+
+  const loadOrders = async () => {
+    setIsLoading(true);
+    try {
+      setOrders(await fetchPurchaseOrders());
+    } catch (error) {
+      console.error("Error fetching purchase orders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load purchase orders",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const filteredOrders = orders.filter(order => {
+    if (statusFilter === "all") return true;
+    if (statusFilter === "open") return ['draft', 'sent', 'partially_received'].includes(order.status);
+    return order.status === statusFilter;
+  });
+
+  const isOverdue = (order: PurchaseOrder) =>
+    !!order.expected_date &&
+    ['sent', 'partially_received'].includes(order.status) &&
+    order.expected_date < new Date().toLocaleDateString('en-CA');
+
+  const openOrderDialog = (order?: PurchaseOrder) => {
+    setEditingOrder(order || null);
+    setIsOrderDialogOpen(true);
+  };
+
+  const branchItems = (branchId: string | null) =>
+    items.filter(item => !branchId || !item.branch_id || item.branch_id === branchId);
+
+  const handleStatusChange = async (order: PurchaseOrder, status: 'sent' | 'cancelled') => {
+    if (status === 'cancelled' && !confirm(`Cancel ${order.po_number}?`)) return;
+
+    try {
+      const result = await updatePurchaseOrderStatus(order.id, status);
+      if (!result.success) {
+        toast({
+          title: "Could Not Update Order",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: status === 'sent' ? "Order Sent" : "Order Cancelled",
+        description: status === 'sent'
+          ? `${order.po_number} is awaiting delivery. Print it for the supplier.`
+          : `${order.po_number} was cancelled`,
+      });
+      loadOrders();
+      if (status === 'sent') {
+        setPrintOrder({ ...order, status: 'sent' });
+      }
+    } catch (error) {
+      console.error("Error updating purchase order:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update purchase order",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openReceive = (order: PurchaseOrder) => {
+    setReceivingOrder(order);
+    setReceiveNotes("");
+    setReceivedLots({});
+    setReceivedQuantities(
+      order.purchase_order_lines.reduce((acc, line) => ({
+        ...acc,
+        [line.id]: (line.quantity_ordered - line.quantity_received).toString(),
+      }), {} as Record<string, string>)
+    );
+  };
+
+  const handleReceive = async () => {
+    if (!receivingOrder) return;
+
+    const lines = receivingOrder.purchase_order_lines.map(line => ({
+      line_id: line.id,
+      quantity: parseInt(receivedQuantities[line.id]) || 0,
+      lot_number: secureInput.string(receivedLots[line.id]?.lot_number.trim() || "") || undefined,
+      expiry_date: receivedLots[line.id]?.expiry_date || undefined,
+    }));
+
+    if (lines.every(line => line.quantity <= 0)) {
+      toast({
+        title: "Nothing to Receive",
+        description: "Enter the quantities that arrived",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsReceiving(true);
+    try {
+      const result = await receivePurchaseOrder(
+        receivingOrder.id,
+        lines,
+        secureInput.string(receiveNotes.trim()) || undefined
+      );
+
+      if (!result.success) {
+        toast({
+          title: "Could Not Receive Goods",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: result.status === 'received' ? "Order Received" : "Delivery Recorded",
+        description: result.message,
+      });
+      setReceivingOrder(null);
+      loadOrders();
+      onStockReceived();
+    } catch (error) {
+      console.error("Error receiving purchase order:", error);
+      toast({
+        title: "Error",
+        description: "Failed to receive purchase order",
+        variant: "destructive",
+      });
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  const unitsReceived = (order: PurchaseOrder) =>
+    order.purchase_order_lines.reduce((sum, line) => sum + line.quantity_received, 0);
+  const unitsOrdered = (order: PurchaseOrder) =>
+    order.purchase_order_lines.reduce((sum, line) => sum + line.quantity_ordered, 0);
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-indigo-50/50">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-blue-50 border-b border-indigo-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div>
+              <CardTitle className="text-indigo-800 flex items-center gap-2">
+                <ClipboardList className="h-5 w-5" />
+                Purchase Orders
+              </CardTitle>
+              <CardDescription className="text-indigo-600">
+                Draft, send and receive stock orders. Received goods are added to stock automatically.
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">Open Orders</SelectItem>
+                  <SelectItem value="all">All Orders</SelectItem>
+                  {Object.entries(PURCHASE_ORDER_STATUS_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={loadOrders} className="border-indigo-200 text-indigo-700 hover:bg-indigo-50">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={() => openOrderDialog()}
+                disabled={needsBranch || suppliers.length === 0}
+                title={needsBranch ? 'Pick a branch to order for' : suppliers.length === 0 ? 'Add a supplier first' : undefined}
+                className="bg-gradient-to-r from-indigo-600 to-blue-600 hover:from-indigo-700 hover:to-blue-700"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                New Order
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>PO Number</TableHead>
+                  <TableHead>Supplier</TableHead>
+                  {branches.length > 1 && <TableHead>Branch</TableHead>}
+                  <TableHead>Status</TableHead>
+                  <TableHead>Ordered</TableHead>
+                  <TableHead>Expected</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredOrders.map(order => (
+                  <TableRow key={order.id}>
+                    <TableCell className="font-mono font-medium">{order.po_number}</TableCell>
+                    <TableCell>{order.suppliers?.name}</TableCell>
+                    {branches.length > 1 && <TableCell>{order.branches?.name}</TableCell>}
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[order.status]}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</Badge>
+                    </TableCell>
+                    <TableCell>{order.order_date}</TableCell>
+                    <TableCell className={isOverdue(order) ? 'text-red-600 font-medium' : ''}>
+                      {order.expected_date || '-'}
+                      {isOverdue(order) && <span className="block text-xs">Overdue</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{unitsReceived(order)} / {unitsOrdered(order)}</TableCell>
+                    <TableCell className="text-right font-semibold">{formatCurrency(order.total_amount)}</TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex items-center justify-end gap-1">
+                        {order.status === 'draft' && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openOrderDialog(order)} title="Edit draft">
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleStatusChange(order, 'sent')}
+                              className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                              title="Mark as sent"
+                            >
+                              <Send className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                        {(order.status === 'sent' || order.status === 'partially_received') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => openReceive(order)}
+                            className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                            title="Receive goods"
+                          >
+                            <PackageCheck className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button variant="ghost" size="sm" onClick={() => setPrintOrder(order)} title="Print order">
+                          <Printer className="h-4 w-4" />
+                        </Button>
+                        {(order.status === 'draft' || order.status === 'sent') && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleStatusChange(order, 'cancelled')}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            title="Cancel order"
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {filteredOrders.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={branches.length > 1 ? 9 : 8} className="text-center py-8 text-muted-foreground">
+                      No purchase orders
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <PurchaseOrderDialog
+        isOpen={isOrderDialogOpen}
+        onClose={() => setIsOrderDialogOpen(false)}
+        order={editingOrder}
+        suppliers={suppliers}
+        items={branchItems(editingOrder ? editingOrder.branch_id : currentBranchId)}
+        onSaved={loadOrders}
+      />
+
+      <PurchaseOrderPrintDialog
+        isOpen={!!printOrder}
+        onClose={() => setPrintOrder(null)}
+        order={printOrder}
+      />
+
+      <Dialog open={!!receivingOrder} onOpenChange={(open) => !open && setReceivingOrder(null)}>
+        <DialogContent className="sm:max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Receive {receivingOrder?.po_number}</DialogTitle>
+            <DialogDescription>
+              Enter what arrived from {receivingOrder?.suppliers?.name} with the lot number and expiry printed on the goods. Anything still outstanding keeps the order open.
+            </DialogDescription>
+          </DialogHeader>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Ordered</TableHead>
+                <TableHead className="text-right">Already Received</TableHead>
+                <TableHead className="w-28">Arrived Now</TableHead>
+                <TableHead className="w-36">Lot Number</TableHead>
+                <TableHead className="w-40">Expiry Date</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {receivingOrder?.purchase_order_lines.map(line => {
+                const outstanding = line.quantity_ordered - line.quantity_received;
+                return (
+                  <TableRow key={line.id}>
+                    <TableCell className="font-medium">{line.inventory_items?.name}</TableCell>
+                    <TableCell className="text-right">{line.quantity_ordered}</TableCell>
+                    <TableCell className="text-right">{line.quantity_received}</TableCell>
+                    <TableCell>
+                      <Input
+                        type="number"
+                        min="0"
+                        max={outstanding}
+                        value={receivedQuantities[line.id] ?? ""}
+                        disabled={outstanding === 0}
+                        onChange={(e) => setReceivedQuantities({ ...receivedQuantities, [line.id]: e.target.value })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        value={receivedLots[line.id]?.lot_number ?? ""}
+                        disabled={outstanding === 0}
+                        placeholder="Optional"
+                        onChange={(e) => setReceivedLots({
+                          ...receivedLots,
+                          [line.id]: { expiry_date: "", ...receivedLots[line.id], lot_number: e.target.value },
+                        })}
+                      />
+                    </TableCell>
+                    <TableCell>
+                      <Input
+                        type="date"
+                        value={receivedLots[line.id]?.expiry_date ?? ""}
+                        disabled={outstanding === 0}
+                        onChange={(e) => setReceivedLots({
+                          ...receivedLots,
+                          [line.id]: { lot_number: "", ...receivedLots[line.id], expiry_date: e.target.value },
+                        })}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          <div className="grid gap-2">
+            <Label htmlFor="receive-notes">Notes</Label>
+            <Textarea
+              id="receive-notes"
+              value={receiveNotes}
+              onChange={(e) => setReceiveNotes(e.target.value)}
+              rows={2}
+              placeholder="Delivery note number, damaged items, ..."
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReceivingOrder(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleReceive} disabled={isReceiving}>
+              {isReceiving ? 'Receiving...' : 'Receive into Stock'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
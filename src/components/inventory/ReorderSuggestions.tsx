@@ -0,0 +1,271 @@
+import { useState, useEffect } from "react";
+import { FilePlus2, RefreshCw, TrendingDown } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useBranch } from "@/hooks/useBranch";
+import { formatCurrency } from "@/lib/utils";
+import { isAdmin } from "@/utils/permissions";
+import {
+  createReorderPurchaseOrders,
+  fetchReorderSuggestions,
+  REORDER_LOOKBACK_OPTIONS,
+  ReorderSuggestion,
+} from "@/utils/reorder";
+
+interface ReorderSuggestionsProps {
+  refreshKey?: number;
+  /** Called after drafts are created so the order list refreshes */
+  onOrdersCreated: () => void;
+}
+
+export function ReorderSuggestions({ refreshKey = 0, onOrdersCreated }: ReorderSuggestionsProps) {
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lookbackDays, setLookbackDays] = useState(30);
+  const [showAll, setShowAll] = useState(false);
+  const [selected, setSelected] = useState<Record<string, boolean>>({});
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [isCreating, setIsCreating] = useState(false);
+
+  const { profile } = useAuth();
+  const { branches } = useBranch();
+  const { toast } = useToast();
+  const canOrder = isAdmin(profile);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [refreshKey, lookbackDays]);
+
+  const loadSuggestions = async () => {
+    setIsLoading(true);
+    try {
+      const data = await fetchReorderSuggestions(lookbackDays);
+      setSuggestions(data);
+      // Pre-select everything that is due and can be ordered
+      setSelected(data.reduce((acc, s) => ({
+        ...acc,
+        [s.item_id]: s.needs_reorder && !!s.supplier_id,
+      }), {} as Record<string, boolean>));
+      setQuantities(data.reduce((acc, s) => ({
+        ...acc,
+        [s.item_id]: s.suggested_quantity.toString(),
+      }), {} as Record<string, string>));
+    } catch (error) {
+      console.error("Error fetching reorder suggestions:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load reorder suggestions",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const visibleSuggestions = showAll ? suggestions : suggestions.filter(s => s.needs_reorder);
+  const dueCount = suggestions.filter(s => s.needs_reorder).length;
+
+  const selectedLines = suggestions
+    .filter(s => selected[s.item_id] && s.supplier_id)
+    .map(s => ({
+      item_id: s.item_id,
+      quantity: parseInt(quantities[s.item_id]) || 0,
+      unit_cost: s.unit_cost,
+    }))
+    .filter(line => line.quantity > 0);
+
+  const selectedTotal = selectedLines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+
+  const branchName = (branchId: string) => branches.find(b => b.id === branchId)?.name || '-';
+
+  const handleCreateOrders = async () => {
+    if (selectedLines.length === 0) {
+      toast({
+        title: "Nothing Selected",
+        description: "Select suggestions with a supplier and a quantity above zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsCreating(true);
+    try {
+      const result = await createReorderPurchaseOrders(selectedLines);
+
+      if (!result.success) {
+        toast({
+          title: "Could Not Create Orders",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Draft Orders Created",
+        description: `${result.orders?.map(o => `${o.po_number} (${o.supplier_name})`).join(', ')}. Review and send them from the list below.`,
+      });
+      onOrdersCreated();
+    } catch (error) {
+      console.error("Error creating purchase orders:", error);
+      toast({
+        title: "Error",
+        description: "Failed to create purchase orders",
+        variant: "destructive",
+      });
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-rose-50/50">
+      <CardHeader className="bg-gradient-to-r from-rose-50 to-orange-50 border-b border-rose-100">
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+          <div>
+            <CardTitle className="text-rose-800 flex items-center gap-2">
+              <TrendingDown className="h-5 w-5" />
+              Reorder Suggestions
+              {dueCount > 0 && <Badge className="bg-rose-600">{dueCount} due</Badge>}
+            </CardTitle>
+            <CardDescription className="text-rose-600">
+              Based on service usage and sales. Items are due when stock plus open orders falls to the usage
+              expected over the supplier's lead time plus the minimum level.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select value={lookbackDays.toString()} onValueChange={(value) => setLookbackDays(parseInt(value))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REORDER_LOOKBACK_OPTIONS.map(days => (
+                  <SelectItem key={days} value={days.toString()}>Last {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={loadSuggestions} className="border-rose-200 text-rose-700 hover:bg-rose-50">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch id="reorder-show-all" checked={showAll} onCheckedChange={setShowAll} />
+          <Label htmlFor="reorder-show-all">Show all items</Label>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-rose-600"></div>
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canOrder && <TableHead className="w-10"></TableHead>}
+                <TableHead>Item</TableHead>
+                {branches.length > 1 && <TableHead>Branch</TableHead>}
+                <TableHead>Supplier</TableHead>
+                <TableHead className="text-right">Stock</TableHead>
+                <TableHead className="text-right">On Order</TableHead>
+                <TableHead className="text-right">Daily Usage</TableHead>
+                <TableHead className="text-right">Days Left</TableHead>
+                <TableHead className="text-right">Reorder Point</TableHead>
+                <TableHead className="w-28">Order Qty</TableHead>
+                <TableHead className="text-right">Est. Cost</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleSuggestions.map(s => (
+                <TableRow key={s.item_id} className={s.needs_reorder ? '' : 'text-muted-foreground'}>
+                  {canOrder && (
+                    <TableCell>
+                      <Checkbox
+                        checked={!!selected[s.item_id]}
+                        disabled={!s.supplier_id}
+                        onCheckedChange={(checked) => setSelected({ ...selected, [s.item_id]: checked === true })}
+                      />
+                    </TableCell>
+                  )}
+                  <TableCell className="font-medium">
+                    {s.item_name}
+                    <span className="block text-xs text-muted-foreground">
+                      Min {s.min_stock_level} / Max {s.max_stock_level}
+                    </span>
+                  </TableCell>
+                  {branches.length > 1 && <TableCell>{branchName(s.branch_id)}</TableCell>}
+                  <TableCell>
+                    {s.supplier_name ? (
+                      <>
+                        {s.supplier_name}
+                        <span className="block text-xs text-muted-foreground">{s.lead_time_days}d lead time</span>
+                      </>
+                    ) : (
+                      <span className="text-amber-600 text-sm">No supplier</span>
+                    )}
+                  </TableCell>
+                  <TableCell className={`text-right ${s.current_stock <= s.min_stock_level ? 'text-red-600 font-semibold' : ''}`}>
+                    {s.current_stock}
+                  </TableCell>
+                  <TableCell className="text-right">{s.on_order || '-'}</TableCell>
+                  <TableCell className="text-right">{s.daily_usage}</TableCell>
+                  <TableCell className="text-right">{s.days_of_inventory ?? '-'}</TableCell>
+                  <TableCell className="text-right">{s.reorder_point}</TableCell>
+                  <TableCell>
+                    {canOrder ? (
+                      <Input
+                        type="number"
+                        min="0"
+                        value={quantities[s.item_id] ?? ""}
+                        onChange={(e) => setQuantities({ ...quantities, [s.item_id]: e.target.value })}
+                      />
+                    ) : (
+                      s.suggested_quantity
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency((parseInt(quantities[s.item_id]) || 0) * s.unit_cost)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {visibleSuggestions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={(canOrder ? 10 : 9) + (branches.length > 1 ? 1 : 0)} className="text-center py-8 text-muted-foreground">
+                    {showAll ? 'No inventory items' : 'Nothing needs reordering'}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        )}
+
+        {canOrder && (
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 border-t pt-4">
+            <p className="text-sm text-muted-foreground">
+              {selectedLines.length} item(s) selected, {formatCurrency(selectedTotal)}. One draft is created per supplier and branch.
+            </p>
+            <Button
+              onClick={handleCreateOrders}
+              disabled={isCreating || selectedLines.length === 0}
+              className="bg-gradient-to-r from-rose-600 to-orange-600 hover:from-rose-700 hover:to-orange-700"
+            >
+              <FilePlus2 className="mr-2 h-4 w-4" />
+              {isCreating ? 'Creating...' : 'Create Draft Orders'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
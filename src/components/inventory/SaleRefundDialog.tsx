@@ -0,0 +1,345 @@
+import { useState, useEffect } from "react";
+import { Ban, Printer, RotateCcw, Undo2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SalesReceiptData } from "@/components/inventory/SalesReceiptDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { buildRefundReceipt, fetchSaleDetails, fetchSaleRefunds, processSaleRefund, SaleDetails, SaleRefund } from "@/utils/sales";
+
+interface SaleRefundDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  saleId: string | null;
+  onRefunded: (receipt: SalesReceiptData) => void;
+  onPrintRefund: (receipt: SalesReceiptData) => void;
+}
+
+interface LineSelection {
+  quantity: number;
+  restock: boolean;
+}
+
+export function SaleRefundDialog({ isOpen, onClose, saleId, onRefunded, onPrintRefund }: SaleRefundDialogProps) {
+  const [details, setDetails] = useState<SaleDetails | null>(null);
+  const [refunds, setRefunds] = useState<SaleRefund[]>([]);
+  const [selection, setSelection] = useState<Record<string, LineSelection>>({});
+  const [reason, setReason] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { profile } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (isOpen && saleId) {
+      loadSale(saleId);
+    } else {
+      setDetails(null);
+      setRefunds([]);
+      setSelection({});
+      setReason("");
+    }
+  }, [isOpen, saleId]);
+
+  const loadSale = async (id: string) => {
+    setIsLoading(true);
+    try {
+      const [saleDetails, saleRefunds] = await Promise.all([fetchSaleDetails(id), fetchSaleRefunds(id)]);
+      setDetails(saleDetails);
+      setRefunds(saleRefunds);
+      setSelection(
+        (saleDetails?.items || []).reduce((acc, item) => ({
+          ...acc,
+          [item.id]: { quantity: 0, restock: true },
+        }), {} as Record<string, LineSelection>)
+      );
+    } catch (error) {
+      console.error("Error loading sale for refund:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sale details",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const remainingQuantity = (itemId: string) => {
+    const item = details?.items.find(i => i.id === itemId);
+    return item ? item.quantity - (item.refunded_quantity || 0) : 0;
+  };
+
+  const updateLine = (itemId: string, changes: Partial<LineSelection>) => {
+    setSelection(prev => ({ ...prev, [itemId]: { ...prev[itemId], ...changes } }));
+  };
+
+  const selectAllRemaining = () => {
+    if (!details) return;
+    setSelection(prev => details.items.reduce((acc, item) => ({
+      ...acc,
+      [item.id]: { ...prev[item.id], quantity: remainingQuantity(item.id) },
+    }), {} as Record<string, LineSelection>));
+  };
+
+  const refundTotal = (details?.items || []).reduce(
+    (sum, item) => sum + Number(item.unit_price) * (selection[item.id]?.quantity || 0),
+    0
+  );
+  const hasOutstanding = (details?.items || []).some(item => remainingQuantity(item.id) > 0);
+  const isClosed = details ? ['cancelled', 'refunded'].includes(details.sale_info.status) : true;
+
+  const handleRefund = async (isVoid: boolean) => {
+    if (!details || !saleId) return;
+
+    const cleanReason = secureInput.string(reason.trim());
+    if (!cleanReason) {
+      toast({
+        title: "Reason Required",
+        description: "Please enter the reason for this refund",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!isVoid && refundTotal <= 0) {
+      toast({
+        title: "Nothing Selected",
+        description: "Choose at least one item and quantity to refund",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isVoid && !confirm("Void this entire sale and return all items to stock?")) return;
+
+    setIsSubmitting(true);
+    try {
+      const result = await processSaleRefund(
+        saleId,
+        cleanReason,
+        Object.entries(selection).map(([salesItemId, line]) => ({
+          sales_item_id: salesItemId,
+          quantity: line.quantity,
+          restock: line.restock,
+        })),
+        isVoid
+      );
+
+      if (!result.success) {
+        toast({
+          title: "Refund Failed",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: isVoid ? "Sale Voided" : "Refund Processed",
+        description: `${formatCurrency(result.total_amount || 0)} refunded to ${details.sale_info.customer_name}`,
+      });
+
+      const saleRefunds = await fetchSaleRefunds(saleId);
+      const recorded = saleRefunds.find(r => r.refund_id === result.refund_id);
+      if (recorded) {
+        onRefunded(buildRefundReceipt(details.sale_info, recorded));
+      }
+
+      window.dispatchEvent(new CustomEvent('inventory-data-changed', {
+        detail: { source: 'sale-refund', saleId }
+      }));
+      onClose();
+    } catch (error) {
+      console.error("Error processing refund:", error);
+      toast({
+        title: "Error",
+        description: "Failed to process refund. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RotateCcw className="h-5 w-5 text-orange-600" />
+            Refund or Void Sale
+          </DialogTitle>
+          <DialogDescription>
+            {details
+              ? `${details.sale_info.customer_name} · ${details.sale_info.reference_number || ''} · ${formatCurrency(Number(details.sale_info.total_amount))}`
+              : 'Loading sale...'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !details ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-orange-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Item</TableHead>
+                  <TableHead>Sold</TableHead>
+                  <TableHead>Refunded</TableHead>
+                  <TableHead>Refund Qty</TableHead>
+                  <TableHead>Restock</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {details.items.map((item) => {
+                  const remaining = remainingQuantity(item.id);
+                  const line = selection[item.id] || { quantity: 0, restock: true };
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.item_name}</div>
+                        <div className="text-xs text-muted-foreground">{formatCurrency(Number(item.unit_price))} each</div>
+                      </TableCell>
+                      <TableCell>{item.quantity}</TableCell>
+                      <TableCell>{item.refunded_quantity || 0}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={remaining}
+                          value={line.quantity}
+                          disabled={remaining === 0 || isClosed}
+                          onChange={(e) => updateLine(item.id, {
+                            quantity: Math.min(remaining, Math.max(0, parseInt(e.target.value) || 0)),
+                          })}
+                          className="w-20"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Checkbox
+                          checked={line.restock}
+                          disabled={remaining === 0 || isClosed}
+                          onCheckedChange={(checked) => updateLine(item.id, { restock: checked === true })}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right font-medium">
+                        {formatCurrency(Number(item.unit_price) * line.quantity)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {!isClosed && hasOutstanding && (
+              <div className="flex items-center justify-between">
+                <Button type="button" variant="outline" size="sm" onClick={selectAllRemaining}>
+                  Select all remaining
+                </Button>
+                <div className="text-lg font-semibold text-red-600">
+                  Refund: -{formatCurrency(refundTotal)}
+                </div>
+              </div>
+            )}
+
+            {!isClosed && (
+              <div className="grid gap-2">
+                <Label htmlFor="refund-reason">Reason *</Label>
+                <Textarea
+                  id="refund-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Damaged product, wrong item, customer changed mind"
+                  rows={2}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Approved by {profile?.full_name || 'you'}. Unchecked items are refunded without returning to stock.
+                </p>
+              </div>
+            )}
+
+            {isClosed && (
+              <div className="rounded-lg bg-gray-50 p-3 text-sm text-muted-foreground">
+                This sale has been {details.sale_info.status} and cannot be refunded further.
+              </div>
+            )}
+
+            {refunds.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Previous Refunds</h4>
+                {refunds.map((refund) => (
+                  <div key={refund.refund_id} className="flex items-center justify-between rounded-lg border p-3 text-sm">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="capitalize">{refund.refund_type}</Badge>
+                        <span className="font-mono text-xs">{refund.reference_number}</span>
+                        <span className="text-muted-foreground">{new Date(refund.created_at).toLocaleString()}</span>
+                      </div>
+                      <div className="text-muted-foreground mt-1">
+                        {refund.reason}{refund.approved_by_name ? ` · approved by ${refund.approved_by_name}` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold text-red-600">-{formatCurrency(Number(refund.total_amount))}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onPrintRefund(buildRefundReceipt(details.sale_info, refund))}
+                        title="Print refund receipt"
+                      >
+                        <Printer className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {details && !isClosed && hasOutstanding && (
+            <>
+              {Number(details.sale_info.refunded_amount || 0) === 0 && (
+                <Button
+                  type="button"
+                  variant="destructive"
+                  disabled={isSubmitting}
+                  onClick={() => handleRefund(true)}
+                >
+                  <Ban className="mr-2 h-4 w-4" />
+                  Void Sale
+                </Button>
+              )}
+              <Button
+                type="button"
+                disabled={isSubmitting || refundTotal <= 0}
+                onClick={() => handleRefund(false)}
+                className="bg-orange-600 hover:bg-orange-700"
+              >
+                <Undo2 className="mr-2 h-4 w-4" />
+                {isSubmitting ? "Processing..." : "Refund Selected"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
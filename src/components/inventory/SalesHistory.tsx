@@ -0,0 +1,345 @@
+import { useState, useEffect } from "react";
+import { Calendar, Eye, Printer, Receipt, RefreshCw, RotateCcw, Search, User, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { SalesReceiptData, SalesReceiptDialog } from "@/components/inventory/SalesReceiptDialog";
+import { SaleRefundDialog } from "@/components/inventory/SaleRefundDialog";
+import { RecordPaymentDialog } from "@/components/payments/RecordPaymentDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { isAdmin } from "@/utils/permissions";
+import { fetchPaymentSummary, getPaymentMethodLabel, PAYMENT_METHODS } from "@/utils/payments";
+import { fetchSaleDetails, fetchSalesHistory, SaleSummary } from "@/utils/sales";
+import { fetchLoyaltyReceipt } from "@/utils/loyalty";
+import { fetchTips } from "@/utils/tips";
+
+interface SalesHistoryProps {
+  refreshKey?: number;
+}
+
+export function SalesHistory({ refreshKey = 0 }: SalesHistoryProps) {
+  const [sales, setSales] = useState<SaleSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [customerSearch, setCustomerSearch] = useState("");
+  const [paymentFilter, setPaymentFilter] = useState("all");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [receiptData, setReceiptData] = useState<SalesReceiptData | null>(null);
+  const [loadingSaleId, setLoadingSaleId] = useState<string | null>(null);
+  const [refundSaleId, setRefundSaleId] = useState<string | null>(null);
+  const [paymentSale, setPaymentSale] = useState<SaleSummary | null>(null);
+
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const canRefund = isAdmin(profile);
+
+  useEffect(() => {
+    const timeout = setTimeout(fetchSales, 300);
+    return () => clearTimeout(timeout);
+  }, [refreshKey, customerSearch, paymentFilter, dateFrom, dateTo]);
+
+  const fetchSales = async () => {
+    setIsLoading(true);
+    try {
+      const data = await fetchSalesHistory({
+        customerName: customerSearch.trim(),
+        paymentMethod: paymentFilter === "all" ? undefined : paymentFilter,
+        dateFrom,
+        dateTo,
+      });
+      setSales(data);
+    } catch (error) {
+      console.error("Error fetching sales history:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sales history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openReceipt = async (sale: SaleSummary) => {
+    setLoadingSaleId(sale.sale_id);
+    try {
+      const [details, payment, loyalty, tips] = await Promise.all([
+        fetchSaleDetails(sale.sale_id),
+        fetchPaymentSummary({ saleId: sale.sale_id }),
+        fetchLoyaltyReceipt({ saleId: sale.sale_id }),
+        fetchTips({ saleId: sale.sale_id }),
+      ]);
+      if (!details) {
+        toast({
+          title: "Sale Not Found",
+          description: "This sale is no longer available",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setReceiptData({
+        items: details.items.map(item => ({
+          id: item.id,
+          name: item.item_name,
+          unit_price: Number(item.unit_price),
+          quantity: item.quantity,
+        })),
+        total: Number(details.sale_info.total_amount),
+        customerName: details.sale_info.customer_name,
+        customerPhone: details.sale_info.customer_phone || undefined,
+        paymentMethod: details.sale_info.payment_method,
+        referenceNumber: details.sale_info.reference_number || undefined,
+        saleDate: details.sale_info.created_at,
+        isReprint: true,
+        payments: payment.payments.map(p => ({
+          payment_method: p.payment_method,
+          amount: Number(p.amount),
+          reference_number: p.reference_number || undefined,
+        })),
+        amountPaid: Number(payment.amount_paid),
+        balance: Number(payment.balance),
+        loyalty,
+        tips,
+      });
+    } catch (error) {
+      console.error("Error fetching sale details:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sale details",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingSaleId(null);
+    }
+  };
+
+  const getStatusBadge = (sale: SaleSummary) => {
+    switch (sale.status) {
+      case 'completed':
+        return Number(sale.refunded_amount) > 0
+          ? <Badge className="bg-amber-100 text-amber-800 border-amber-200">Partially Refunded</Badge>
+          : <Badge className="bg-green-100 text-green-800 border-green-200">Completed</Badge>;
+      case 'refunded':
+        return <Badge className="bg-orange-100 text-orange-800 border-orange-200">Refunded</Badge>;
+      case 'cancelled':
+        return <Badge className="bg-red-100 text-red-800 border-red-200">Cancelled</Badge>;
+      default:
+        return <Badge variant="secondary">{sale.status}</Badge>;
+    }
+  };
+
+  // Refunds and voids count against revenue
+  const totalRevenue = sales.reduce(
+    (sum, sale) => sum + Number(sale.total_amount) - Number(sale.refunded_amount || 0),
+    0
+  );
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-purple-50/50">
+        <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div>
+              <CardTitle className="text-purple-800">Sales History</CardTitle>
+              <CardDescription className="text-purple-600">
+                {sales.length} sale{sales.length === 1 ? '' : 's'} · {formatCurrency(totalRevenue)} net of refunds
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={fetchSales} className="border-purple-200 text-purple-700 hover:bg-purple-50">
+              <RefreshCw className="mr-2 h-4 w-4" />
+              Refresh
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="grid gap-2">
+              <Label htmlFor="sales-customer-search">Customer</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="sales-customer-search"
+                  value={customerSearch}
+                  onChange={(e) => setCustomerSearch(e.target.value)}
+                  placeholder="Search by name"
+                  className="pl-9"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>Payment Method</Label>
+              <Select value={paymentFilter} onValueChange={setPaymentFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All methods</SelectItem>
+                  {PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                  <SelectItem value="split">{getPaymentMethodLabel('split')}</SelectItem>
+                  <SelectItem value="on_account">{getPaymentMethodLabel('on_account')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sales-date-from">From</Label>
+              <Input id="sales-date-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="sales-date-to">To</Label>
+              <Input id="sales-date-to" type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow className="bg-gradient-to-r from-purple-50 to-pink-50">
+                  <TableHead className="text-purple-800 font-semibold">Date</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Customer</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Payment</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Items</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Total</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Status</TableHead>
+                  <TableHead className="text-purple-800 font-semibold">Reference</TableHead>
+                  <TableHead className="text-purple-800 font-semibold text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sales.map((sale) => (
+                  <TableRow key={sale.sale_id} className="hover:bg-purple-50/50 transition-colors duration-200">
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Calendar className="h-4 w-4 text-purple-500" />
+                        <span className="text-sm text-gray-700">{new Date(sale.created_at).toLocaleString()}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <User className="h-4 w-4 text-gray-400" />
+                        <div>
+                          <div className="font-medium text-gray-900">{sale.customer_name}</div>
+                          {sale.customer_phone && (
+                            <div className="text-xs text-muted-foreground">{sale.customer_phone}</div>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>{getPaymentMethodLabel(sale.payment_method)}</TableCell>
+                    <TableCell>{sale.items_count}</TableCell>
+                    <TableCell>
+                      <div className="font-semibold text-emerald-700">{formatCurrency(Number(sale.total_amount))}</div>
+                      {Number(sale.refunded_amount) > 0 && (
+                        <div className="text-xs text-red-600">-{formatCurrency(Number(sale.refunded_amount))} refunded</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(sale)}</TableCell>
+                    <TableCell>
+                      <span className="font-mono text-xs text-gray-600">{sale.reference_number || '-'}</span>
+                      {sale.sold_by && (
+                        <div className="text-xs text-muted-foreground">by {sale.sold_by}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openReceipt(sale)}
+                        disabled={loadingSaleId === sale.sale_id}
+                        className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                        title="View and reprint receipt"
+                      >
+                        {loadingSaleId === sale.sale_id ? (
+                          <RefreshCw className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <>
+                            <Eye className="h-4 w-4" />
+                            <Printer className="ml-1 h-4 w-4" />
+                          </>
+                        )}
+                      </Button>
+                      {sale.status === 'completed' && ['split', 'on_account'].includes(sale.payment_method) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setPaymentSale(sale)}
+                          className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                          title="Payments and balance"
+                        >
+                          <Wallet className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {canRefund && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRefundSaleId(sale.sale_id)}
+                          className="text-orange-600 hover:text-orange-700 hover:bg-orange-50"
+                          title={sale.status === 'completed' ? 'Refund or void' : 'View refunds'}
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {sales.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
+                      <div className="flex flex-col items-center gap-2">
+                        <Receipt className="h-12 w-12 text-gray-300" />
+                        <p>No sales found</p>
+                        <p className="text-sm">Completed checkouts will appear here</p>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <SalesReceiptDialog
+        isOpen={!!receiptData}
+        onClose={() => setReceiptData(null)}
+        saleData={receiptData}
+      />
+
+      <RecordPaymentDialog
+        isOpen={!!paymentSale}
+        onClose={() => setPaymentSale(null)}
+        target={paymentSale ? { saleId: paymentSale.sale_id } : null}
+        title="Sale Payments"
+        description={paymentSale ? `${paymentSale.customer_name} · ${paymentSale.reference_number || ''}` : undefined}
+        onRecorded={fetchSales}
+      />
+
+      <SaleRefundDialog
+        isOpen={!!refundSaleId}
+        onClose={() => setRefundSaleId(null)}
+        saleId={refundSaleId}
+        onRefunded={(receipt) => {
+          setReceiptData(receipt);
+          fetchSales();
+        }}
+        onPrintRefund={(receipt) => {
+          setRefundSaleId(null);
+          setReceiptData({ ...receipt, isReprint: true });
+        }}
+      />
+    </>
+  );
+}
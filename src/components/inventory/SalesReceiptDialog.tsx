@@ -3,29 +3,47 @@ import { Button } from "@/components/ui/button";
 import { Printer, Package, Calendar, DollarSign, Hash, User, CreditCard } from "lucide-react";
 import greatNaturalsLogo from "@/assets/great-naturals-logo.jpg";
 import { formatCurrency } from "@/lib/utils";
+import { getPaymentMethodLabel, PaymentTender } from "@/utils/payments";
+import { LoyaltyReceipt } from "@/utils/loyalty";
+import { Tip } from "@/utils/tips";
 
-interface CartItem {
+interface SalesReceiptItem {
   id: string;
   name: string;
   unit_price: number;
   quantity: number;
-  current_stock: number;
-  supplier: string | null;
-  category_id: string | null;
+}
+
+export interface SalesReceiptData {
+  items: SalesReceiptItem[];
+  total: number;
+  customerName: string;
+  customerPhone?: string;
+  paymentMethod: string;
+  referenceNumber?: string;
+  saleDate: string;
+  isReprint?: boolean;
+  // Tender breakdown; omitted on receipts printed before split payments existed
+  payments?: PaymentTender[];
+  amountPaid?: number;
+  balance?: number;
+  // Points redeemed and earned when the sale was to a registered customer
+  loyalty?: LoyaltyReceipt | null;
+  // Tips taken with the sale, on top of the total
+  tips?: Tip[];
+  // Present when this receipt is for a refund or void of an earlier sale
+  refund?: {
+    type: 'full' | 'partial' | 'void';
+    reason: string;
+    approvedBy?: string | null;
+    originalReference?: string | null;
+  };
 }
 
 interface SalesReceiptDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  saleData: {
-    items: CartItem[];
-    total: number;
-    customerName: string;
-    customerPhone?: string;
-    paymentMethod: string;
-    referenceNumber?: string;
-    saleDate: string;
-  } | null;
+  saleData: SalesReceiptData | null;
 }
 
 export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDialogProps) {
@@ -35,20 +53,12 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
 
   if (!saleData) return null;
 
-  const getPaymentMethodLabel = (method: string) => {
-    switch (method) {
-      case 'cash':
-        return 'Cash';
-      case 'card':
-        return 'Card';
-      case 'mobile_money':
-        return 'Mobile Money';
-      case 'bank_transfer':
-        return 'Bank Transfer';
-      default:
-        return method;
-    }
-  };
+  const refund = saleData.refund;
+  const sign = refund ? '-' : '';
+  const receiptTitle = refund ? (refund.type === 'void' ? 'Void Receipt' : 'Refund Receipt') : 'Sales Receipt';
+
+  const showTenders = !refund && !!saleData.payments && saleData.payments.length > 0;
+  const loyalty = refund ? null : saleData.loyalty;
 
   const getPaymentMethodIcon = (method: string) => {
     switch (method) {
@@ -60,6 +70,10 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
         return '📱';
       case 'bank_transfer':
         return '🏦';
+      case 'split':
+        return '🔀';
+      case 'on_account':
+        return '📒';
       default:
         return '💰';
     }
@@ -74,7 +88,9 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
             alt="Great Naturals" 
             className="mx-auto h-24 w-auto object-contain"
           />
-          <DialogTitle className="text-2xl font-bold text-center text-gray-800">Sales Receipt</DialogTitle>
+          <DialogTitle className="text-2xl font-bold text-center text-gray-800">
+            {receiptTitle}{saleData.isReprint && <span className="ml-2 text-sm font-medium text-muted-foreground">(Reprint)</span>}
+          </DialogTitle>
         </DialogHeader>
         
         <div className="space-y-4 print:text-black">
@@ -113,6 +129,27 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
                 <span className="font-mono text-sm">{saleData.referenceNumber}</span>
               </div>
             )}
+
+            {refund && (
+              <>
+                {refund.originalReference && (
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">Original Sale:</span>
+                    <span className="font-mono text-sm">{refund.originalReference}</span>
+                  </div>
+                )}
+                <div className="flex justify-between items-start gap-4">
+                  <span className="font-medium">Reason:</span>
+                  <span className="text-sm text-right">{refund.reason}</span>
+                </div>
+                {refund.approvedBy && (
+                  <div className="flex justify-between items-center">
+                    <span className="font-medium">Approved By:</span>
+                    <span className="font-semibold">{refund.approvedBy}</span>
+                  </div>
+                )}
+              </>
+            )}
             
             <div className="flex justify-between items-center">
               <span className="font-medium flex items-center gap-2">
@@ -130,7 +167,7 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
           </div>
           
           <div className="space-y-2">
-            <h3 className="font-medium text-lg border-b pb-2">Items Purchased</h3>
+            <h3 className="font-medium text-lg border-b pb-2">{refund ? 'Items Returned' : 'Items Purchased'}</h3>
             {saleData.items.map((item, index) => (
               <div key={item.id} className="flex justify-between items-center py-2 border-b border-gray-100">
                 <div className="flex-1">
@@ -140,21 +177,90 @@ export function SalesReceiptDialog({ isOpen, onClose, saleData }: SalesReceiptDi
                   </div>
                 </div>
                 <div className="text-right">
-                  <div className="font-semibold">{formatCurrency(item.unit_price * item.quantity)}</div>
+                  <div className="font-semibold">{sign}{formatCurrency(item.unit_price * item.quantity)}</div>
                 </div>
               </div>
             ))}
           </div>
           
           <div className="border-t pt-4">
+            {loyalty && loyalty.discount > 0 && (
+              <div className="mb-2 space-y-1 text-sm">
+                <div className="flex justify-between items-center">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(saleData.total + Number(loyalty.discount))}</span>
+                </div>
+                <div className="flex justify-between items-center text-amber-700">
+                  <span>Loyalty Discount ({loyalty.points_redeemed.toLocaleString()} pts):</span>
+                  <span>-{formatCurrency(Number(loyalty.discount))}</span>
+                </div>
+              </div>
+            )}
             <div className="flex justify-between items-center text-xl font-bold">
-              <span>Total Amount:</span>
-              <span className="text-green-600">{formatCurrency(saleData.total)}</span>
+              <span>{refund ? 'Total Refunded:' : 'Total Amount:'}</span>
+              <span className={refund ? 'text-red-600' : 'text-green-600'}>{sign}{formatCurrency(saleData.total)}</span>
             </div>
+            {showTenders && (
+              <div className="mt-3 space-y-1 text-sm">
+                {saleData.payments!.map((tender, index) => (
+                  <div key={index} className="flex justify-between items-center">
+                    <span className="flex items-center gap-2">
+                      {getPaymentMethodIcon(tender.payment_method)}
+                      {getPaymentMethodLabel(tender.payment_method)}
+                      {tender.reference_number && (
+                        <span className="font-mono text-xs text-muted-foreground">{tender.reference_number}</span>
+                      )}
+                    </span>
+                    <span className="font-medium">{formatCurrency(Number(tender.amount))}</span>
+                  </div>
+                ))}
+                {saleData.amountPaid !== undefined && (
+                  <div className="flex justify-between items-center border-t pt-1 font-medium">
+                    <span>Amount Paid:</span>
+                    <span>{formatCurrency(saleData.amountPaid)}</span>
+                  </div>
+                )}
+              </div>
+            )}
+            {!refund && (saleData.balance || 0) > 0 && (
+              <div className="mt-2 flex justify-between items-center font-semibold text-amber-600">
+                <span>Balance Due:</span>
+                <span>{formatCurrency(saleData.balance!)}</span>
+              </div>
+            )}
+            {!refund && saleData.tips && saleData.tips.length > 0 && (
+              <div className="mt-2 space-y-1 text-sm">
+                {saleData.tips.map((tip) => (
+                  <div key={tip.id} className="flex justify-between items-center">
+                    <span>
+                      Tip ({getPaymentMethodLabel(tip.payment_method)})
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {tip.tip_allocations.map(allocation => allocation.workers?.name).filter(Boolean).join(', ')}
+                      </span>
+                    </span>
+                    <span className="font-medium">{formatCurrency(Number(tip.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {loyalty && (
+              <div className="mt-3 p-2 bg-amber-50 rounded text-sm text-amber-800 space-y-1">
+                {loyalty.points_earned > 0 && (
+                  <div className="flex justify-between">
+                    <span>Points Earned:</span>
+                    <span>+{loyalty.points_earned.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium">
+                  <span>Points Balance:</span>
+                  <span>{loyalty.points_balance.toLocaleString()} pts</span>
+                </div>
+              </div>
+            )}
           </div>
           
           <div className="text-center text-xs text-gray-500 space-y-1">
-            <p>Thank you for your purchase!</p>
+            <p>{refund ? 'Your refund has been processed.' : 'Thank you for your purchase!'}</p>
             <p>This receipt serves as proof of transaction</p>
           </div>
         </div>
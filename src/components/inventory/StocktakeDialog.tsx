@@ -0,0 +1,444 @@
+import { useState, useEffect } from "react";
+import { Ban, Camera, CheckCircle2, Minus, Plus, Save, ScanLine, Search } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { BarcodeScannerDialog } from "@/components/inventory/BarcodeScannerDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { isAdmin } from "@/utils/permissions";
+import { findItemByBarcode } from "@/utils/barcode";
+import {
+  cancelStocktake,
+  fetchStocktakeLines,
+  lineVariance,
+  postStocktake,
+  recordStocktakeCounts,
+  Stocktake,
+  StocktakeLine,
+} from "@/utils/stocktake";
+
+interface StocktakeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  stocktake: Stocktake | null;
+  /** Called after counts are posted or the stocktake is cancelled */
+  onChanged: () => void;
+}
+
+export function StocktakeDialog({ isOpen, onClose, stocktake, onChanged }: StocktakeDialogProps) {
+  const [lines, setLines] = useState<StocktakeLine[]>([]);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [approved, setApproved] = useState<Record<string, boolean>>({});
+  const [searchTerm, setSearchTerm] = useState("");
+  const [scanCode, setScanCode] = useState("");
+  const [varianceOnly, setVarianceOnly] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { profile } = useAuth();
+  const { toast } = useToast();
+  const canPost = isAdmin(profile);
+  const isCounting = stocktake?.status === 'counting';
+
+  useEffect(() => {
+    if (isOpen && stocktake) loadLines();
+  }, [isOpen, stocktake]);
+
+  const loadLines = async () => {
+    if (!stocktake) return;
+    setIsLoading(true);
+    try {
+      const data = await fetchStocktakeLines(stocktake.id);
+      setLines(data);
+      setCounts(data.reduce((acc, line) => ({
+        ...acc,
+        [line.id]: line.counted_quantity === null ? '' : line.counted_quantity.toString(),
+      }), {} as Record<string, string>));
+      // Every variance is approved until an admin unticks it
+      setApproved(data.reduce((acc, line) => ({ ...acc, [line.id]: true }), {} as Record<string, boolean>));
+    } catch (error) {
+      console.error("Error fetching stocktake lines:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load stocktake lines",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const countOf = (line: StocktakeLine) =>
+    counts[line.id] === '' || counts[line.id] === undefined ? null : parseInt(counts[line.id]);
+
+  const varianceOf = (line: StocktakeLine) =>
+    lineVariance({ expected_quantity: line.expected_quantity, counted_quantity: countOf(line) });
+
+  const changedLines = lines.filter(line => countOf(line) !== line.counted_quantity);
+  const countedLines = lines.filter(line => countOf(line) !== null);
+  const varianceLines = lines.filter(line => (varianceOf(line) ?? 0) !== 0);
+  const approvedLines = varianceLines.filter(line => approved[line.id]);
+  const approvedUnits = approvedLines.reduce((sum, line) => sum + (varianceOf(line) || 0), 0);
+  const approvedValue = approvedLines.reduce((sum, line) => sum + (varianceOf(line) || 0) * line.unit_price, 0);
+
+  const visibleLines = lines.filter(line => {
+    if (varianceOnly && !(varianceOf(line) ?? 0)) return false;
+    if (!searchTerm) return true;
+    const term = searchTerm.toLowerCase();
+    return !!line.inventory_items?.name.toLowerCase().includes(term) ||
+      !!line.inventory_items?.barcode?.toLowerCase().includes(term);
+  });
+
+  const setCount = (lineId: string, value: string) => {
+    if (value !== '' && !/^\d+$/.test(value)) return;
+    setCounts(prev => ({ ...prev, [lineId]: value }));
+  };
+
+  // Functional update so rapid scans do not overwrite each other
+  const stepCount = (line: StocktakeLine, step: number) => {
+    setCounts(prev => ({
+      ...prev,
+      [line.id]: Math.max((parseInt(prev[line.id]) || 0) + step, 0).toString(),
+    }));
+  };
+
+  // Every scan counts one unit, from the camera or a USB scanner typing into the scan field
+  const handleScan = (code: string) => {
+    if (!code.trim()) return;
+
+    const item = findItemByBarcode(lines.map(l => ({ id: l.id, barcode: l.inventory_items?.barcode ?? null })), code);
+    const line = item && lines.find(l => l.id === item.id);
+    if (!line) {
+      toast({
+        title: "Unknown Barcode",
+        description: `No item in this stocktake has barcode ${code}`,
+        variant: "destructive",
+      });
+    } else {
+      stepCount(line, 1);
+      toast({
+        title: line.inventory_items?.name,
+        description: `Counted ${(countOf(line) ?? 0) + 1}`,
+      });
+    }
+  };
+
+  const saveCounts = async (): Promise<boolean> => {
+    if (!stocktake || changedLines.length === 0) return true;
+
+    const result = await recordStocktakeCounts(
+      stocktake.id,
+      changedLines.map(line => ({ line_id: line.id, counted_quantity: countOf(line) }))
+    );
+    if (!result.success) {
+      toast({
+        title: "Could Not Save Counts",
+        description: result.error || result.message,
+        variant: "destructive",
+      });
+      return false;
+    }
+
+    setLines(prev => prev.map(line => ({ ...line, counted_quantity: countOf(line) })));
+    return true;
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (await saveCounts()) {
+        toast({
+          title: "Counts Saved",
+          description: `${countedLines.length} of ${lines.length} item(s) counted`,
+        });
+      }
+    } catch (error) {
+      console.error("Error saving counts:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save counts",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePost = async () => {
+    if (!stocktake) return;
+    const uncounted = lines.length - countedLines.length;
+    if (!confirm(
+      `Post ${approvedLines.length} adjustment(s) totalling ${formatCurrency(approvedValue)}?` +
+      (uncounted > 0 ? ` ${uncounted} uncounted item(s) will keep their stock.` : '')
+    )) return;
+
+    setIsSaving(true);
+    try {
+      if (!(await saveCounts())) return;
+
+      const result = await postStocktake(stocktake.id, approvedLines.map(line => line.id));
+      if (!result.success) {
+        toast({
+          title: "Could Not Post Stocktake",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Stocktake Posted",
+        description: `${result.message} (${formatCurrency(result.variance_value || 0)})`,
+      });
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error("Error posting stocktake:", error);
+      toast({
+        title: "Error",
+        description: "Failed to post stocktake",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake || !confirm(`Cancel ${stocktake.reference}? Counts are discarded and stock is not changed.`)) return;
+
+    setIsSaving(true);
+    try {
+      const result = await cancelStocktake(stocktake.id);
+      if (!result.success) {
+        toast({
+          title: "Could Not Cancel Stocktake",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Stocktake Cancelled", description: result.message });
+      onChanged();
+      onClose();
+    } catch (error) {
+      console.error("Error cancelling stocktake:", error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel stocktake",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const varianceBadge = (variance: number | null) => {
+    if (variance === null) return <span className="text-muted-foreground">-</span>;
+    if (variance === 0) return <Badge className="bg-emerald-100 text-emerald-800 border-emerald-200">0</Badge>;
+    return variance < 0
+      ? <Badge className="bg-red-100 text-red-800 border-red-200">{variance}</Badge>
+      : <Badge className="bg-blue-100 text-blue-800 border-blue-200">+{variance}</Badge>;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Stocktake {stocktake?.reference}</DialogTitle>
+          <DialogDescription>
+            {isCounting
+              ? 'Count what is on the shelf. Variances are measured against the stock when the count started.'
+              : `Started ${stocktake ? new Date(stocktake.started_at).toLocaleString() : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-teal-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {isCounting && (
+                <div className="relative">
+                  <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    placeholder="Scan barcode"
+                    value={scanCode}
+                    onChange={(e) => setScanCode(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') {
+                        e.preventDefault();
+                        handleScan(scanCode);
+                        setScanCode("");
+                      }
+                    }}
+                    className="pl-9 pr-12"
+                    autoFocus
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsCameraOpen(true)}
+                    className="absolute right-1 top-1/2 -translate-y-1/2 h-8 text-teal-600"
+                    title="Scan with camera"
+                  >
+                    <Camera className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search items"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+              <div className="flex flex-wrap gap-4">
+                <span>Counted: <span className="font-semibold">{countedLines.length} / {lines.length}</span></span>
+                <span>Variances: <span className="font-semibold">{varianceLines.length}</span></span>
+                <span>
+                  Value:{' '}
+                  <span className={`font-semibold ${approvedValue < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {formatCurrency(approvedValue)}
+                  </span>{' '}
+                  ({approvedUnits > 0 ? '+' : ''}{approvedUnits} units)
+                </span>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="variance-only" checked={varianceOnly} onCheckedChange={setVarianceOnly} />
+                <Label htmlFor="variance-only">Variances only</Label>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {isCounting && canPost && <TableHead className="w-10">Post</TableHead>}
+                  <TableHead>Item</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-center">Counted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleLines.map(line => {
+                  const variance = varianceOf(line);
+                  return (
+                    <TableRow key={line.id}>
+                      {isCounting && canPost && (
+                        <TableCell>
+                          <Checkbox
+                            checked={!!approved[line.id]}
+                            disabled={!variance}
+                            onCheckedChange={(checked) => setApproved(prev => ({ ...prev, [line.id]: !!checked }))}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <div className="font-medium">{line.inventory_items?.name}</div>
+                        {line.inventory_items?.barcode && (
+                          <div className="text-xs text-muted-foreground font-mono">{line.inventory_items.barcode}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{line.expected_quantity}</TableCell>
+                      <TableCell>
+                        {isCounting ? (
+                          <div className="flex items-center justify-center gap-1">
+                            <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => stepCount(line, -1)}>
+                              <Minus className="h-3 w-3" />
+                            </Button>
+                            <Input
+                              inputMode="numeric"
+                              value={counts[line.id] ?? ''}
+                              onChange={(e) => setCount(line.id, e.target.value)}
+                              className="h-8 w-16 text-center"
+                            />
+                            <Button type="button" variant="outline" size="sm" className="h-8 w-8 p-0" onClick={() => stepCount(line, 1)}>
+                              <Plus className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="text-center">{line.counted_quantity ?? '-'}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {varianceBadge(variance)}
+                        {!isCounting && line.adjusted && (
+                          <span className="block text-xs text-muted-foreground">Adjusted</span>
+                        )}
+                      </TableCell>
+                      <TableCell className={`text-right ${(variance || 0) < 0 ? 'text-red-600' : ''}`}>
+                        {variance ? formatCurrency(variance * line.unit_price) : '-'}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {visibleLines.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                      No items match
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+
+        {isCounting && (
+          <DialogFooter className="flex-col sm:flex-row gap-2">
+            <Button
+              variant="outline"
+              onClick={handleCancel}
+              disabled={isSaving}
+              className="border-red-200 text-red-700 hover:bg-red-50"
+            >
+              <Ban className="mr-2 h-4 w-4" />
+              Cancel Stocktake
+            </Button>
+            <Button variant="outline" onClick={handleSave} disabled={isSaving || changedLines.length === 0}>
+              <Save className="mr-2 h-4 w-4" />
+              Save Counts
+            </Button>
+            {canPost && (
+              <Button
+                onClick={handlePost}
+                disabled={isSaving || countedLines.length === 0}
+                className="bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700"
+              >
+                <CheckCircle2 className="mr-2 h-4 w-4" />
+                {isSaving ? 'Posting...' : `Post ${approvedLines.length} Adjustment(s)`}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+
+      <BarcodeScannerDialog
+        isOpen={isCameraOpen}
+        onClose={() => setIsCameraOpen(false)}
+        onScan={handleScan}
+        title={`Count ${stocktake?.reference || ''}`}
+        continuous
+      />
+    </Dialog>
+  );
+}
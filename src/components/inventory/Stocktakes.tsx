@@ -0,0 +1,292 @@
+import { useState, useEffect } from "react";
+import { ClipboardCheck, Eye, PlayCircle, RefreshCw, TrendingDown } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { StocktakeDialog } from "@/components/inventory/StocktakeDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBranch } from "@/hooks/useBranch";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  fetchShrinkage,
+  fetchStocktakes,
+  ShrinkageRow,
+  startStocktake,
+  Stocktake,
+  STOCKTAKE_STATUS_LABELS,
+  StocktakeStatus,
+} from "@/utils/stocktake";
+
+interface StocktakesProps {
+  /** Called after a stocktake is posted so stock figures refresh */
+  onStockAdjusted: () => void;
+}
+
+const STATUS_STYLES: Record<StocktakeStatus, string> = {
+  counting: 'bg-amber-100 text-amber-800 border-amber-200',
+  posted: 'bg-emerald-100 text-emerald-800 border-emerald-200',
+  cancelled: 'bg-gray-100 text-gray-800 border-gray-200',
+};
+
+const SHRINKAGE_PERIOD_OPTIONS = [90, 180, 365];
+
+export function Stocktakes({ onStockAdjusted }: StocktakesProps) {
+  const [stocktakes, setStocktakes] = useState<Stocktake[]>([]);
+  const [shrinkage, setShrinkage] = useState<ShrinkageRow[]>([]);
+  const [shrinkageDays, setShrinkageDays] = useState(90);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [notes, setNotes] = useState("");
+  const [openStocktake, setOpenStocktake] = useState<Stocktake | null>(null);
+
+  const { branches, currentBranchId } = useBranch();
+  const { toast } = useToast();
+
+  // A stocktake counts one branch, so starting one needs a branch in scope
+  const needsBranch = currentBranchId === null && branches.length > 1;
+
+  useEffect(() => {
+    loadStocktakes();
+  }, [shrinkageDays]);
+
+  const loadStocktakes = async () => {
+    setIsLoading(true);
+    try {
+      const since = new Date();
+      since.setDate(since.getDate() - shrinkageDays);
+      const [sessions, shrinkageRows] = await Promise.all([
+        fetchStocktakes(),
+        fetchShrinkage(since.toISOString()),
+      ]);
+      setStocktakes(sessions);
+      setShrinkage(shrinkageRows);
+    } catch (error) {
+      console.error("Error fetching stocktakes:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load stocktakes",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const result = await startStocktake(secureInput.string(notes.trim()) || undefined);
+      if (!result.success) {
+        toast({
+          title: "Could Not Start Stocktake",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({ title: "Stocktake Started", description: result.message });
+      setNotes("");
+      const sessions = await fetchStocktakes();
+      setStocktakes(sessions);
+      setOpenStocktake(sessions.find(s => s.id === result.stocktake_id) || null);
+    } catch (error) {
+      console.error("Error starting stocktake:", error);
+      toast({
+        title: "Error",
+        description: "Failed to start stocktake",
+        variant: "destructive",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const inProgress = stocktakes.filter(s => s.status === 'counting');
+  const shrinkageLoss = shrinkage.filter(row => row.value < 0);
+  const totalLossValue = shrinkageLoss.reduce((sum, row) => sum + row.value, 0);
+  const totalNetValue = shrinkage.reduce((sum, row) => sum + row.value, 0);
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-teal-50/50">
+        <CardHeader className="bg-gradient-to-r from-teal-50 to-emerald-50 border-b border-teal-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-teal-800 flex items-center gap-2">
+                <ClipboardCheck className="h-5 w-5" />
+                Stocktakes
+              </CardTitle>
+              <CardDescription className="text-teal-600">
+                Count the shelf, review variances and post the approved adjustments
+              </CardDescription>
+            </div>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <div className="grid gap-1">
+                <Label htmlFor="stocktake-notes" className="sr-only">Notes</Label>
+                <Input
+                  id="stocktake-notes"
+                  placeholder="Notes (optional)"
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
+                  className="sm:w-56"
+                />
+              </div>
+              <Button variant="outline" onClick={loadStocktakes} className="border-teal-200 text-teal-700 hover:bg-teal-50">
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+              <Button
+                onClick={handleStart}
+                disabled={needsBranch || isStarting}
+                title={needsBranch ? 'Pick a branch to count' : undefined}
+                className="bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700"
+              >
+                <PlayCircle className="mr-2 h-4 w-4" />
+                {isStarting ? 'Starting...' : 'Start Stocktake'}
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-teal-600"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  {branches.length > 1 && <TableHead>Branch</TableHead>}
+                  <TableHead>Status</TableHead>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Posted</TableHead>
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Value</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stocktakes.map(stocktake => (
+                  <TableRow key={stocktake.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{stocktake.reference}</div>
+                      {stocktake.notes && <div className="text-xs text-muted-foreground">{stocktake.notes}</div>}
+                    </TableCell>
+                    {branches.length > 1 && <TableCell>{stocktake.branches?.name}</TableCell>}
+                    <TableCell>
+                      <Badge className={STATUS_STYLES[stocktake.status]}>{STOCKTAKE_STATUS_LABELS[stocktake.status]}</Badge>
+                    </TableCell>
+                    <TableCell>{new Date(stocktake.started_at).toLocaleString()}</TableCell>
+                    <TableCell>{stocktake.posted_at ? new Date(stocktake.posted_at).toLocaleString() : '-'}</TableCell>
+                    <TableCell className="text-right">
+                      {stocktake.status === 'posted' ? `${stocktake.variance_units > 0 ? '+' : ''}${stocktake.variance_units}` : '-'}
+                    </TableCell>
+                    <TableCell className={`text-right font-semibold ${stocktake.variance_value < 0 ? 'text-red-600' : ''}`}>
+                      {stocktake.status === 'posted' ? formatCurrency(stocktake.variance_value) : '-'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setOpenStocktake(stocktake)}
+                        className="text-teal-600 hover:text-teal-700 hover:bg-teal-50"
+                        title={stocktake.status === 'counting' ? 'Continue counting' : 'View counts'}
+                      >
+                        {stocktake.status === 'counting' ? <ClipboardCheck className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {stocktakes.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={branches.length > 1 ? 8 : 7} className="text-center py-8 text-muted-foreground">
+                      No stocktakes yet
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+          {inProgress.length > 0 && !isLoading && (
+            <p className="mt-4 text-sm text-amber-700">
+              {inProgress.length} stocktake(s) in progress. Stock movements made while counting are kept when the variances are posted.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-red-50/50">
+        <CardHeader className="bg-gradient-to-r from-red-50 to-rose-50 border-b border-red-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle className="text-red-800 flex items-center gap-2">
+                <TrendingDown className="h-5 w-5" />
+                Shrinkage
+              </CardTitle>
+              <CardDescription className="text-red-600">
+                Net posted stocktake variances per item. Lost: {formatCurrency(totalLossValue)}, net: {formatCurrency(totalNetValue)}
+              </CardDescription>
+            </div>
+            <Select value={shrinkageDays.toString()} onValueChange={(value) => setShrinkageDays(parseInt(value))}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SHRINKAGE_PERIOD_OPTIONS.map(days => (
+                  <SelectItem key={days} value={days.toString()}>Last {days} days</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Item</TableHead>
+                <TableHead className="text-right">Stocktakes</TableHead>
+                <TableHead className="text-right">Units</TableHead>
+                <TableHead className="text-right">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shrinkage.map(row => (
+                <TableRow key={row.item_id}>
+                  <TableCell className="font-medium">{row.item_name}</TableCell>
+                  <TableCell className="text-right">{row.stocktakes}</TableCell>
+                  <TableCell className="text-right">{row.units > 0 ? '+' : ''}{row.units}</TableCell>
+                  <TableCell className={`text-right font-semibold ${row.value < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                    {formatCurrency(row.value)}
+                  </TableCell>
+                </TableRow>
+              ))}
+              {shrinkage.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                    No posted variances in this period
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <StocktakeDialog
+        isOpen={!!openStocktake}
+        onClose={() => setOpenStocktake(null)}
+        stocktake={openStocktake}
+        onChanged={() => {
+          loadStocktakes();
+          onStockAdjusted();
+        }}
+      />
+    </div>
+  );
+}
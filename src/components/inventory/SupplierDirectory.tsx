@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { Edit, Mail, Phone, Plus, Truck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { secureInput } from "@/utils/security";
+import { saveSupplier, Supplier } from "@/utils/purchasing";
+
+interface SupplierDirectoryProps {
+  suppliers: Supplier[];
+  /** Number of inventory items linked to each supplier */
+  itemCounts: Record<string, number>;
+  onChanged: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  contact_name: "",
+  email: "",
+  phone: "",
+  address: "",
+  lead_time_days: "7",
+  notes: "",
+  is_active: true,
+};
+
+export function SupplierDirectory({ suppliers, itemCounts, onChanged }: SupplierDirectoryProps) {
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const { toast } = useToast();
+
+  const openDialog = (supplier?: Supplier) => {
+    setEditingSupplier(supplier || null);
+    setForm(supplier
+      ? {
+          name: supplier.name,
+          contact_name: supplier.contact_name || "",
+          email: supplier.email || "",
+          phone: supplier.phone || "",
+          address: supplier.address || "",
+          lead_time_days: supplier.lead_time_days.toString(),
+          notes: supplier.notes || "",
+          is_active: supplier.is_active,
+        }
+      : emptyForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    const leadTime = parseInt(form.lead_time_days);
+    if (!form.name.trim() || isNaN(leadTime) || leadTime < 0) {
+      toast({
+        title: "Incomplete Supplier",
+        description: "Enter the supplier name and a lead time in days",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await saveSupplier({
+        id: editingSupplier?.id,
+        name: secureInput.string(form.name.trim()),
+        contact_name: secureInput.string(form.contact_name.trim()) || null,
+        email: secureInput.email(form.email.trim()) || null,
+        phone: secureInput.phone(form.phone.trim()) || null,
+        address: secureInput.string(form.address.trim()) || null,
+        lead_time_days: leadTime,
+        notes: secureInput.string(form.notes.trim()) || null,
+        is_active: form.is_active,
+      });
+
+      toast({
+        title: editingSupplier ? "Supplier Updated" : "Supplier Added",
+        description: form.name.trim(),
+      });
+      setIsDialogOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error saving supplier:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save supplier",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-amber-50/50">
+        <CardHeader className="bg-gradient-to-r from-amber-50 to-orange-50 border-b border-amber-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div>
+              <CardTitle className="text-amber-800 flex items-center gap-2">
+                <Truck className="h-5 w-5" />
+                Suppliers
+              </CardTitle>
+              <CardDescription className="text-amber-600">
+                Contacts and delivery lead times. New purchase orders expect delivery after the lead time.
+              </CardDescription>
+            </div>
+            <Button onClick={() => openDialog()} className="bg-gradient-to-r from-amber-600 to-orange-600 hover:from-amber-700 hover:to-orange-700">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Supplier
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Supplier</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead className="text-right">Lead Time</TableHead>
+                <TableHead className="text-right">Items</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {suppliers.map(supplier => (
+                <TableRow key={supplier.id}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900">{supplier.name}</p>
+                    {supplier.address && <p className="text-xs text-muted-foreground">{supplier.address}</p>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="space-y-1 text-sm">
+                      {supplier.contact_name && <p>{supplier.contact_name}</p>}
+                      {supplier.phone && (
+                        <p className="flex items-center gap-1 text-muted-foreground">
+                          <Phone className="h-3 w-3" />
+                          {supplier.phone}
+                        </p>
+                      )}
+                      {supplier.email && (
+                        <p className="flex items-center gap-1 text-muted-foreground">
+                          <Mail className="h-3 w-3" />
+                          {supplier.email}
+                        </p>
+                      )}
+                      {!supplier.contact_name && !supplier.phone && !supplier.email && (
+                        <span className="text-muted-foreground">-</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-right">{supplier.lead_time_days} day(s)</TableCell>
+                  <TableCell className="text-right">{itemCounts[supplier.id] || 0}</TableCell>
+                  <TableCell>
+                    <Badge variant={supplier.is_active ? 'default' : 'secondary'}>
+                      {supplier.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openDialog(supplier)}
+                      className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {suppliers.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                    No suppliers yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSupplier ? 'Edit Supplier' : 'Add Supplier'}</DialogTitle>
+            <DialogDescription>
+              Renaming a supplier updates the name on its inventory items.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-name">Name *</Label>
+              <Input
+                id="supplier-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-contact">Contact Person</Label>
+                <Input
+                  id="supplier-contact"
+                  value={form.contact_name}
+                  onChange={(e) => setForm({ ...form, contact_name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-lead-time">Lead Time (days) *</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min="0"
+                  value={form.lead_time_days}
+                  onChange={(e) => setForm({ ...form, lead_time_days: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-phone">Phone</Label>
+                <Input
+                  id="supplier-phone"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="supplier-email">Email</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-address">Address</Label>
+              <Input
+                id="supplier-address"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="supplier-notes">Notes</Label>
+              <Textarea
+                id="supplier-notes"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                rows={2}
+              />
+            </div>
+            {editingSupplier && (
+              <div className="flex items-center justify-between">
+                <Label>Active</Label>
+                <Switch
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave}>
+              {editingSupplier ? 'Save Supplier' : 'Add Supplier'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,161 @@
+import { useState, useEffect } from "react";
+import { ArrowRightLeft } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useBranch } from "@/hooks/useBranch";
+import { secureInput } from "@/utils/security";
+import { transferInventory } from "@/utils/branches";
+
+interface TransferStockDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: { id: string; name: string; current_stock: number; branch_id?: string } | null;
+  onTransferred: () => void;
+}
+
+export function TransferStockDialog({ isOpen, onClose, item, onTransferred }: TransferStockDialogProps) {
+  const [toBranchId, setToBranchId] = useState("");
+  const [quantity, setQuantity] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { branches } = useBranch();
+  const { toast } = useToast();
+
+  const destinations = branches.filter(branch => branch.is_active && branch.id !== item?.branch_id);
+
+  useEffect(() => {
+    if (!isOpen) {
+      setToBranchId("");
+      setQuantity("");
+      setNotes("");
+    }
+  }, [isOpen]);
+
+  const handleTransfer = async () => {
+    if (!item) return;
+
+    const qty = parseInt(quantity);
+    if (!toBranchId || isNaN(qty) || qty <= 0) {
+      toast({
+        title: "Incomplete Transfer",
+        description: "Choose the receiving branch and a quantity to move",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (qty > item.current_stock) {
+      toast({
+        title: "Insufficient Stock",
+        description: `Only ${item.current_stock} of ${item.name} on hand`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await transferInventory(item.id, toBranchId, qty, secureInput.string(notes.trim()) || undefined);
+      if (!result.success) {
+        toast({
+          title: "Transfer Failed",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const branchName = branches.find(branch => branch.id === toBranchId)?.name;
+      toast({
+        title: "Stock Transferred",
+        description: `${qty} × ${item.name} sent to ${branchName} (${result.reference_number})`,
+      });
+      onTransferred();
+      onClose();
+    } catch (error) {
+      console.error("Error transferring stock:", error);
+      toast({
+        title: "Error",
+        description: "Failed to transfer stock",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArrowRightLeft className="h-5 w-5" />
+            Transfer Stock
+          </DialogTitle>
+          <DialogDescription>
+            Move {item?.name} to another branch. Both branches get a matching stock transaction.
+          </DialogDescription>
+        </DialogHeader>
+        {destinations.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            There is no other active branch you are assigned to.
+          </p>
+        ) : (
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label>To Branch *</Label>
+              <Select value={toBranchId} onValueChange={setToBranchId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {destinations.map(branch => (
+                    <SelectItem key={branch.id} value={branch.id}>
+                      {branch.name} ({branch.code})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="transfer-quantity">Quantity *</Label>
+              <Input
+                id="transfer-quantity"
+                type="number"
+                min="1"
+                max={item?.current_stock}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={`Up to ${item?.current_stock ?? 0}`}
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="transfer-notes">Notes</Label>
+              <Textarea
+                id="transfer-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder="Optional"
+              />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={handleTransfer} disabled={isSubmitting || destinations.length === 0}>
+            {isSubmitting ? 'Transferring...' : 'Transfer'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,10 +6,13 @@ import { NotificationSystem } from "@/components/NotificationSystem";
 import { useAuth } from "@/hooks/useAuth";
 import { useRealtimePermissions } from "@/hooks/useRealtimePermissions";
 import { useInventoryAlerts } from "@/hooks/useInventoryAlerts";
+import { useBranch } from "@/hooks/useBranch";
+import { getUserRoleDisplay } from "@/utils/permissions";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { LogOut, Shield, AlertTriangle } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LogOut, Shield, AlertTriangle, Building2 } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
 
 interface AppLayoutProps {
@@ -19,6 +22,7 @@ interface AppLayoutProps {
 export function AppLayout({ children }: AppLayoutProps) {
   const { profile, signOut, isSigningOut } = useAuth();
   const { permissions, isBanned, hasFullAccess } = useRealtimePermissions();
+  const { branches, currentBranchId, switchBranch } = useBranch();
   
   // Initialize automated inventory alerts
   useInventoryAlerts();
@@ -45,6 +49,25 @@ export function AppLayout({ children }: AppLayoutProps) {
             
             {profile && (
               <div className="flex items-center gap-3">
+                {branches.length > 0 && (
+                  <Select
+                    value={currentBranchId ?? 'all'}
+                    onValueChange={(value) => switchBranch(value === 'all' ? null : value)}
+                  >
+                    <SelectTrigger className="w-44 h-9">
+                      <Building2 className="h-4 w-4 mr-2 text-muted-foreground" />
+                      <SelectValue placeholder="Branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Branches</SelectItem>
+                      {branches.map(branch => (
+                        <SelectItem key={branch.id} value={branch.id}>
+                          {branch.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
                 <NotificationSystem />
                 <NotificationBadge />
                 <Card className="px-3 py-1">
@@ -52,7 +75,7 @@ export function AppLayout({ children }: AppLayoutProps) {
                     <span className="text-sm font-medium">{profile.full_name}</span>
                     <div className="flex items-center gap-1">
                       <Badge variant={profile.role === 'admin' ? 'default' : 'secondary'}>
-                        {profile.role}
+                        {getUserRoleDisplay(profile)}
                       </Badge>
                       {permissions && (
                         <Badge 
@@ -97,7 +120,8 @@ export function AppLayout({ children }: AppLayoutProps) {
             )}
           </header>
 
-          <main className="flex-1 overflow-y-auto">
+          {/* Remount the page on a branch switch so it refetches within the new scope */}
+          <main key={currentBranchId ?? 'all'} className="flex-1 overflow-y-auto">
             {children}
           </main>
           
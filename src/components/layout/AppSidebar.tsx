@@ -13,6 +13,8 @@ import {
   User,
   DollarSign,
   BarChart3,
+  Clock,
+  Banknote,
 } from "lucide-react";
 import {
   Sidebar,
@@ -38,13 +40,16 @@ const allMenuItems = [
   { title: "Services", url: "/services", icon: ClipboardList, requiredFeature: "services" },
   { title: "Customers", url: "/customers", icon: Users, requiredFeature: "customers" },
   { title: "Workers", url: "/workers", icon: UserCheck, requiredFeature: "workers" },
+  { title: "Attendance", url: "/attendance", icon: Clock, requiredFeature: "attendance" },
   { title: "Inventory", url: "/inventory", icon: Package, requiredFeature: "inventory" },
+  { title: "Retail Catalog", url: "/products", icon: ShoppingBag, requiredFeature: "inventory" },
+  { title: "Cash Drawer", url: "/cash-drawer", icon: Banknote, requiredFeature: "cash_drawer" },
   { title: "Alerts", url: "/alerts", icon: AlertTriangle, requiredFeature: "alerts" },
 ];
 
 const adminItems = [
-  { title: "Admin Management", url: "/admin", icon: Shield, requiredRole: "admin" },
-  { title: "Worker Payroll", url: "/worker-payroll", icon: DollarSign, requiredFeature: "workers" },
+  { title: "Admin Management", url: "/admin", icon: Shield, requiredFeature: "user_management" },
+  { title: "Worker Payroll", url: "/worker-payroll", icon: DollarSign, requiredFeature: "payroll" },
   { title: "Financial Analytics", url: "/financial-analytics", icon: BarChart3, requiredFeature: "reports" },
   { title: "Settings", url: "/settings", icon: Settings, requiredFeature: "settings" },
 ];
@@ -53,7 +58,7 @@ export function AppSidebar() {
   const { state } = useSidebar();
   const location = useLocation();
   const { profile, signOut, isSigningOut } = useAuth();
-  const { canAccess, isAdmin: hasAdminAccess, isBanned } = useRealtimePermissions();
+  const { canAccess, isBanned } = useRealtimePermissions();
   const currentPath = location.pathname;
 
   const handleSignOut = () => {
@@ -72,9 +77,6 @@ export function AppSidebar() {
 
   // Filter admin items based on permissions
   const filteredAdminItems = adminItems.filter(item => {
-    if (item.requiredRole === 'admin') {
-      return hasAdminAccess;
-    }
     if (item.requiredFeature) {
       return canAccess(item.requiredFeature);
     }
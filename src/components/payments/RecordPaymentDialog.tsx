@@ -0,0 +1,423 @@
+import { useState, useEffect } from "react";
+import { Gift, Wallet } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { SplitPaymentInput } from "@/components/payments/SplitPaymentInput";
+import { TipInput } from "@/components/payments/TipInput";
+import { LoyaltyRedemptionInput } from "@/components/customers/LoyaltyRedemptionInput";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  fetchPaymentSummary,
+  getPaymentMethodLabel,
+  PaymentSummary,
+  PaymentTender,
+  recordPayments,
+  sumTenders,
+} from "@/utils/payments";
+import { redeemPointsForService } from "@/utils/loyalty";
+import { redeemGiftVoucher } from "@/utils/prepaid";
+import { TipEntry, emptyTip, getTipError, recordTip } from "@/utils/tips";
+
+interface RecordPaymentDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  target: { serviceId: string } | { saleId: string } | null;
+  title: string;
+  description?: string;
+  // Payments taken before the work is done are recorded as deposits
+  isDeposit?: boolean;
+  // Registered customer of a service, who can spend loyalty points against it
+  customerId?: string | null;
+  // Worker who did the service; a tip goes to them unless it is split
+  workerId?: string | null;
+  onRecorded?: () => void;
+}
+
+export function RecordPaymentDialog({
+  isOpen,
+  onClose,
+  target,
+  title,
+  description,
+  isDeposit = false,
+  customerId,
+  workerId,
+  onRecorded,
+}: RecordPaymentDialogProps) {
+  const [summary, setSummary] = useState<PaymentSummary | null>(null);
+  const [tenders, setTenders] = useState<PaymentTender[]>([]);
+  const [notes, setNotes] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [redemption, setRedemption] = useState({ points: 0, discount: 0 });
+  const [isRedeeming, setIsRedeeming] = useState(false);
+  const [voucherCode, setVoucherCode] = useState("");
+  const [tip, setTip] = useState<TipEntry>(emptyTip());
+
+  const { toast } = useToast();
+  const targetId = target ? ('serviceId' in target ? target.serviceId : target.saleId) : null;
+  // Tips are taken on completed services, with or alongside the payment
+  const canTip = !!target && 'serviceId' in target && !isDeposit;
+
+  useEffect(() => {
+    if (isOpen && targetId) {
+      setTip(emptyTip(workerId));
+      loadSummary();
+    } else {
+      setSummary(null);
+      setTenders([]);
+      setNotes("");
+      setVoucherCode("");
+    }
+  }, [isOpen, targetId]);
+
+  const loadSummary = async () => {
+    if (!target) return;
+    setIsLoading(true);
+    try {
+      const data = await fetchPaymentSummary(target);
+      setSummary(data);
+      setTenders([{ payment_method: 'cash', amount: Number(data.balance) || 0 }]);
+    } catch (error) {
+      console.error("Error fetching payment summary:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load payment details",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRedeem = async () => {
+    if (!target || !('serviceId' in target) || redemption.points <= 0) return;
+
+    setIsRedeeming(true);
+    try {
+      const result = await redeemPointsForService(target.serviceId, redemption.points);
+
+      if (!result.success) {
+        toast({
+          title: "Redemption Failed",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Points Redeemed",
+        description: `${formatCurrency(result.discount || 0)} taken off, ${(result.points_balance || 0).toLocaleString()} points left`,
+      });
+
+      setRedemption({ points: 0, discount: 0 });
+      await loadSummary();
+      onRecorded?.();
+    } catch (error) {
+      console.error("Error redeeming points:", error);
+      toast({
+        title: "Error",
+        description: "Failed to redeem points. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleRedeemVoucher = async () => {
+    if (!target || !('serviceId' in target) || !voucherCode.trim()) return;
+
+    setIsRedeeming(true);
+    try {
+      const result = await redeemGiftVoucher(target.serviceId, secureInput.string(voucherCode.trim()));
+
+      if (!result.success) {
+        toast({
+          title: "Voucher Not Applied",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Voucher Applied",
+        description: `${formatCurrency(result.amount || 0)} taken off, ${formatCurrency(result.voucher_balance || 0)} left on the voucher`,
+      });
+
+      setVoucherCode("");
+      await loadSummary();
+      onRecorded?.();
+    } catch (error) {
+      console.error("Error redeeming gift voucher:", error);
+      toast({
+        title: "Error",
+        description: "Failed to redeem the voucher. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRedeeming(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!target || !summary) return;
+
+    const tendered = Number(summary.balance) > 0 ? sumTenders(tenders) : 0;
+    const tipAmount = canTip ? tip.amount : 0;
+    if (tendered <= 0 && tipAmount <= 0) {
+      toast({
+        title: "Nothing to Record",
+        description: canTip ? "Enter a payment or a tip" : "Enter an amount for at least one tender",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tipError = canTip ? getTipError(tip) : null;
+    if (tipError) {
+      toast({
+        title: "Invalid Tip",
+        description: tipError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (tendered > Number(summary.balance) + 0.001) {
+      toast({
+        title: "Overpayment",
+        description: `The outstanding balance is ${formatCurrency(Number(summary.balance))}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      if (tendered > 0) {
+        const result = await recordPayments(
+          target,
+          tenders.map(tender => ({
+            ...tender,
+            reference_number: secureInput.string((tender.reference_number || '').trim()) || undefined,
+          })),
+          secureInput.string(notes.trim()) || undefined
+        );
+
+        if (!result.success) {
+          toast({
+            title: "Payment Failed",
+            description: result.error || result.message,
+            variant: "destructive",
+          });
+          return;
+        }
+
+        toast({
+          title: result.is_deposit ? "Deposit Recorded" : "Payment Recorded",
+          description: (result.balance || 0) > 0
+            ? `${formatCurrency(tendered)} received, ${formatCurrency(result.balance || 0)} still outstanding`
+            : `${formatCurrency(tendered)} received, fully paid`,
+        });
+      }
+
+      if (tipAmount > 0) {
+        const tipResult = await recordTip(target, {
+          ...tip,
+          reference_number: secureInput.string((tip.reference_number || '').trim()) || undefined,
+        });
+
+        if (!tipResult.success) {
+          toast({
+            title: "Tip Not Recorded",
+            description: tendered > 0
+              ? `The payment was recorded, but the tip was not: ${tipResult.error || tipResult.message}`
+              : tipResult.error || tipResult.message,
+            variant: "destructive",
+          });
+          if (tendered > 0) {
+            onRecorded?.();
+            await loadSummary();
+          }
+          return;
+        }
+
+        toast({
+          title: "Tip Recorded",
+          description: `${formatCurrency(tipAmount)} tip shared between ${tipResult.workers} worker${tipResult.workers === 1 ? '' : 's'}`,
+        });
+      }
+
+      onRecorded?.();
+      onClose();
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record payment. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const balance = Number(summary?.balance || 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5 text-emerald-600" />
+            {title}
+          </DialogTitle>
+          {description && <DialogDescription>{description}</DialogDescription>}
+        </DialogHeader>
+
+        {isLoading || !summary ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg bg-gray-50 p-3">
+                <div className="text-xs text-muted-foreground">Amount Due</div>
+                <div className="font-semibold">{formatCurrency(Number(summary.amount_due))}</div>
+              </div>
+              <div className="rounded-lg bg-emerald-50 p-3">
+                <div className="text-xs text-muted-foreground">Paid</div>
+                <div className="font-semibold text-emerald-700">{formatCurrency(Number(summary.amount_paid))}</div>
+              </div>
+              <div className="rounded-lg bg-amber-50 p-3">
+                <div className="text-xs text-muted-foreground">Balance</div>
+                <div className="font-semibold text-amber-700">{formatCurrency(balance)}</div>
+              </div>
+            </div>
+
+            {summary.payments.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="font-medium">Payments Received</h4>
+                {summary.payments.map((payment) => (
+                  <div key={payment.id} className="flex items-center justify-between rounded-lg border p-2 text-sm">
+                    <div className="flex items-center gap-2">
+                      <span>{getPaymentMethodLabel(payment.payment_method)}</span>
+                      {payment.is_deposit && <Badge variant="outline">Deposit</Badge>}
+                      {payment.reference_number && (
+                        <span className="font-mono text-xs text-muted-foreground">{payment.reference_number}</span>
+                      )}
+                      <span className="text-muted-foreground">{new Date(payment.created_at).toLocaleString()}</span>
+                    </div>
+                    <span className="font-medium">{formatCurrency(Number(payment.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {balance > 0 ? (
+              <>
+                {customerId && target && 'serviceId' in target && (
+                  <div className="space-y-2">
+                    <LoyaltyRedemptionInput
+                      customerId={customerId}
+                      maxDiscount={balance}
+                      points={redemption.points}
+                      onChange={(points, discount) => setRedemption({ points, discount })}
+                    />
+                    {redemption.points > 0 && (
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRedeem}
+                        disabled={isRedeeming}
+                        className="w-full border-amber-300 text-amber-700 hover:bg-amber-50"
+                      >
+                        {isRedeeming ? "Redeeming..." : `Apply ${formatCurrency(redemption.discount)} Discount`}
+                      </Button>
+                    )}
+                  </div>
+                )}
+                {target && 'serviceId' in target && (
+                  <div className="space-y-2 p-3 bg-pink-50 rounded-lg border border-pink-100">
+                    <Label htmlFor="voucher_code" className="flex items-center gap-2 text-pink-800">
+                      <Gift className="h-4 w-4" />
+                      Gift voucher
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="voucher_code"
+                        className="font-mono uppercase"
+                        value={voucherCode}
+                        placeholder="Voucher code"
+                        onChange={(e) => setVoucherCode(e.target.value)}
+                      />
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={handleRedeemVoucher}
+                        disabled={isRedeeming || !voucherCode.trim()}
+                        className="border-pink-300 text-pink-700 hover:bg-pink-50"
+                      >
+                        Apply
+                      </Button>
+                    </div>
+                  </div>
+                )}
+                <SplitPaymentInput
+                  tenders={tenders}
+                  onChange={setTenders}
+                  amountDue={balance}
+                  label={isDeposit ? "Deposit" : "Payment"}
+                />
+                <div className="grid gap-2">
+                  <Label htmlFor="payment-notes">Notes</Label>
+                  <Input
+                    id="payment-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    placeholder="Optional"
+                  />
+                </div>
+              </>
+            ) : (
+              <div className="rounded-lg bg-green-50 p-3 text-sm text-green-700">
+                Fully paid{Number(summary.returned_to_customer) > 0
+                  ? ` · ${formatCurrency(Number(summary.returned_to_customer))} returned to the customer after refunds`
+                  : ''}
+              </div>
+            )}
+
+            {canTip && <TipInput tip={tip} onChange={setTip} />}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          <Button type="button" variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          {summary && (balance > 0 || canTip) && (
+            <Button
+              type="button"
+              onClick={handleSubmit}
+              disabled={isSubmitting}
+              className="bg-emerald-600 hover:bg-emerald-700"
+            >
+              {isSubmitting ? "Recording..." : isDeposit ? "Record Deposit" : balance > 0 ? "Record Payment" : "Record Tip"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,111 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatCurrency } from "@/lib/utils";
+import { PAYMENT_METHODS, PaymentMethod, PaymentTender, sumTenders } from "@/utils/payments";
+
+interface SplitPaymentInputProps {
+  tenders: PaymentTender[];
+  onChange: (tenders: PaymentTender[]) => void;
+  amountDue: number;
+  label?: string;
+}
+
+export function SplitPaymentInput({ tenders, onChange, amountDue, label = "Payment" }: SplitPaymentInputProps) {
+  const tendered = sumTenders(tenders);
+  const remaining = Math.round((amountDue - tendered) * 100) / 100;
+
+  const updateTender = (index: number, changes: Partial<PaymentTender>) => {
+    onChange(tenders.map((tender, i) => (i === index ? { ...tender, ...changes } : tender)));
+  };
+
+  const addTender = () => {
+    const usedMethods = tenders.map(tender => tender.payment_method);
+    const nextMethod = PAYMENT_METHODS.find(method => !usedMethods.includes(method.value))?.value || 'cash';
+    onChange([...tenders, { payment_method: nextMethod, amount: Math.max(0, remaining) }]);
+  };
+
+  const removeTender = (index: number) => {
+    onChange(tenders.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>{label}</Label>
+        <Button type="button" variant="outline" size="sm" onClick={addTender}>
+          <Plus className="mr-1 h-3 w-3" />
+          Add Tender
+        </Button>
+      </div>
+
+      {tenders.map((tender, index) => (
+        <div key={index} className="grid grid-cols-12 gap-2 items-center">
+          <div className="col-span-4">
+            <Select
+              value={tender.payment_method}
+              onValueChange={(value) => updateTender(index, { payment_method: value as PaymentMethod })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PAYMENT_METHODS.map((method) => (
+                  <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-3">
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={tender.amount}
+              onChange={(e) => updateTender(index, { amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+              aria-label="Amount"
+            />
+          </div>
+          <div className="col-span-4">
+            <Input
+              value={tender.reference_number || ""}
+              onChange={(e) => updateTender(index, { reference_number: e.target.value })}
+              placeholder={tender.payment_method === 'cash' ? 'Reference (optional)' : 'Transaction ref'}
+            />
+          </div>
+          <div className="col-span-1 flex justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => removeTender(index)}
+              disabled={tenders.length === 1}
+              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="rounded-lg bg-gray-50 p-3 text-sm space-y-1">
+        <div className="flex justify-between">
+          <span>Amount due</span>
+          <span className="font-medium">{formatCurrency(amountDue)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>Tendered</span>
+          <span className="font-medium">{formatCurrency(tendered)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span>{remaining >= 0 ? 'Balance remaining' : 'Over by'}</span>
+          <span className={remaining > 0 ? 'font-semibold text-amber-600' : remaining < 0 ? 'font-semibold text-red-600' : 'font-semibold text-green-600'}>
+            {formatCurrency(Math.abs(remaining))}
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState, useEffect } from "react";
+import { HandCoins, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { formatCurrency } from "@/lib/utils";
+import { PAYMENT_METHODS, PaymentMethod } from "@/utils/payments";
+import { TipEntry, TipShare, getTipError, splitTipEvenly } from "@/utils/tips";
+
+interface TipInputProps {
+  tip: TipEntry;
+  onChange: (tip: TipEntry) => void;
+}
+
+export function TipInput({ tip, onChange }: TipInputProps) {
+  const [workers, setWorkers] = useState<{ id: string; name: string }[]>([]);
+
+  useEffect(() => {
+    loadWorkers();
+  }, []);
+
+  const loadWorkers = async () => {
+    try {
+      const { data, error } = await supabase.from("workers").select("id, name").order("name");
+
+      if (error) throw error;
+      setWorkers(data || []);
+    } catch (error) {
+      console.error("Error fetching workers for tips:", error);
+    }
+  };
+
+  const updateShare = (index: number, changes: Partial<TipShare>) => {
+    onChange({ ...tip, shares: tip.shares.map((share, i) => (i === index ? { ...share, ...changes } : share)) });
+  };
+
+  const addShare = () => {
+    const nextWorker = workers.find(worker => !tip.shares.some(share => share.worker_id === worker.id));
+    const workerIds = [...tip.shares.map(share => share.worker_id), nextWorker?.id || ""];
+    onChange({ ...tip, shares: splitTipEvenly(workerIds) });
+  };
+
+  const removeShare = (index: number) => {
+    const remaining = tip.shares.filter((_, i) => i !== index);
+    onChange({ ...tip, shares: remaining.length > 0 ? splitTipEvenly(remaining.map(share => share.worker_id)) : [] });
+  };
+
+  const tipError = getTipError(tip);
+
+  return (
+    <div className="space-y-3 p-3 bg-rose-50 rounded-lg border border-rose-100">
+      <Label className="flex items-center gap-2 text-rose-800">
+        <HandCoins className="h-4 w-4" />
+        Tip
+      </Label>
+      <div className="grid grid-cols-12 gap-2">
+        <div className="col-span-4">
+          <Select
+            value={tip.payment_method}
+            onValueChange={(value) => onChange({ ...tip, payment_method: value as PaymentMethod })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map((method) => (
+                <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="col-span-3">
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={tip.amount || ""}
+            placeholder="0.00"
+            onChange={(e) => onChange({ ...tip, amount: Math.max(0, parseFloat(e.target.value) || 0) })}
+            aria-label="Tip amount"
+          />
+        </div>
+        <div className="col-span-5">
+          <Input
+            value={tip.reference_number || ""}
+            onChange={(e) => onChange({ ...tip, reference_number: e.target.value })}
+            placeholder={tip.payment_method === 'cash' ? 'Reference (optional)' : 'Transaction ref'}
+          />
+        </div>
+      </div>
+
+      {tip.amount > 0 && (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm text-rose-800">Shared between</span>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addShare}
+              disabled={tip.shares.length >= workers.length}
+            >
+              <Plus className="mr-1 h-3 w-3" />
+              Add Worker
+            </Button>
+          </div>
+          {tip.shares.map((share, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-6">
+                <Select
+                  value={share.worker_id || undefined}
+                  onValueChange={(value) => updateShare(index, { worker_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select worker" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workers.map((worker) => (
+                      <SelectItem key={worker.id} value={worker.id}>{worker.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Input
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={share.share_percent}
+                  onChange={(e) => updateShare(index, { share_percent: Math.max(0, parseFloat(e.target.value) || 0) })}
+                  aria-label="Share (%)"
+                />
+              </div>
+              <div className="col-span-3 text-sm text-right text-muted-foreground">
+                {formatCurrency(Math.round(tip.amount * share.share_percent) / 100)}
+              </div>
+              <div className="col-span-1 flex justify-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeShare(index)}
+                  className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {tip.shares.length === 0 && (
+            <p className="text-sm text-muted-foreground">Add the worker or workers who receive the tip</p>
+          )}
+          {tipError && tip.shares.length > 0 && <p className="text-sm text-red-600">{tipError}</p>}
+        </>
+      )}
+    </div>
+  );
+}
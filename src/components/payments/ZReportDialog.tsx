@@ -0,0 +1,200 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer, Calendar, User } from "lucide-react";
+import greatNaturalsLogo from "@/assets/great-naturals-logo.jpg";
+import { formatCurrency } from "@/lib/utils";
+import { getPaymentMethodLabel } from "@/utils/payments";
+import { DrawerSummary, VARIANCE_TOLERANCE } from "@/utils/cashDrawer";
+
+interface ZReportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  report: DrawerSummary | null;
+}
+
+export function ZReportDialog({ isOpen, onClose, report }: ZReportDialogProps) {
+  const handlePrint = () => {
+    window.print();
+  };
+
+  if (!report) return null;
+
+  const formatDateTime = (value: string | null) => value
+    ? new Date(value).toLocaleString('en-US', {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+      })
+    : '-';
+
+  const variance = Number(report.variance ?? 0);
+  const isClosed = report.status === 'closed';
+  const totalTaken = report.payments_by_method.reduce((sum, method) => sum + Number(method.amount), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center space-y-2">
+          <img
+            src={greatNaturalsLogo}
+            alt="Great Naturals"
+            className="mx-auto h-24 w-auto object-contain"
+          />
+          <DialogTitle className="text-2xl font-bold text-center text-gray-800">
+            {isClosed ? 'Z-Report' : 'X-Report (drawer open)'}
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 print:text-black">
+          <div className="text-center space-y-2">
+            <h2 className="text-2xl font-bold text-primary tracking-wide">GREAT NATURALS</h2>
+            <p className="text-sm text-muted-foreground font-medium">End of day cash reconciliation</p>
+          </div>
+
+          <div className="border-t border-b py-4 space-y-2 text-sm">
+            <div className="flex justify-between items-center">
+              <span className="font-medium flex items-center gap-2">
+                <Calendar className="h-4 w-4" />
+                Opened:
+              </span>
+              <span>{formatDateTime(report.opened_at)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="font-medium flex items-center gap-2">
+                <User className="h-4 w-4" />
+                Opened By:
+              </span>
+              <span>{report.opened_by_name || '-'}</span>
+            </div>
+            {isClosed && (
+              <>
+                <div className="flex justify-between items-center">
+                  <span className="font-medium flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    Closed:
+                  </span>
+                  <span>{formatDateTime(report.closed_at)}</span>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="font-medium flex items-center gap-2">
+                    <User className="h-4 w-4" />
+                    Closed By:
+                  </span>
+                  <span>{report.closed_by_name || '-'}</span>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium text-lg border-b pb-2">Takings by Payment Method</h3>
+            {report.payments_by_method.length === 0 && (
+              <p className="text-sm text-muted-foreground">No payments taken</p>
+            )}
+            {report.payments_by_method.map((method) => (
+              <div key={method.payment_method} className="flex justify-between items-center text-sm">
+                <span>{getPaymentMethodLabel(method.payment_method)} ({method.count})</span>
+                <span className="font-medium">{formatCurrency(Number(method.amount))}</span>
+              </div>
+            ))}
+            <div className="flex justify-between items-center border-t pt-2 font-semibold">
+              <span>Total Taken:</span>
+              <span>{formatCurrency(totalTaken)}</span>
+            </div>
+            <div className="flex justify-between items-center text-xs text-muted-foreground">
+              <span>Services / Retail</span>
+              <span>{formatCurrency(Number(report.service_payments))} / {formatCurrency(Number(report.sale_payments))}</span>
+            </div>
+            {Number(report.deposits) > 0 && (
+              <div className="flex justify-between items-center text-xs text-muted-foreground">
+                <span>Of which deposits</span>
+                <span>{formatCurrency(Number(report.deposits))}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium text-lg border-b pb-2">Refunds and Pay-outs</h3>
+            <div className="flex justify-between items-center text-sm">
+              <span>Refunds ({report.refunds_count})</span>
+              <span className="font-medium text-red-600">-{formatCurrency(Number(report.refunds_total))}</span>
+            </div>
+            {report.paid_out.map((expense) => (
+              <div key={expense.id} className="flex justify-between items-center text-sm">
+                <span>{expense.name} <span className="text-xs text-muted-foreground">({expense.category})</span></span>
+                <span className="font-medium text-red-600">-{formatCurrency(Number(expense.amount))}</span>
+              </div>
+            ))}
+            {report.paid_out.length === 0 && (
+              <p className="text-sm text-muted-foreground">No expenses paid from the till</p>
+            )}
+          </div>
+
+          <div className="space-y-2 border-t pt-4 text-sm">
+            <h3 className="font-medium text-lg pb-2">Cash Drawer</h3>
+            <div className="flex justify-between items-center">
+              <span>Opening Float</span>
+              <span>{formatCurrency(Number(report.opening_float))}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span>+ Cash Payments</span>
+              <span>{formatCurrency(Number(report.cash_payments))}</span>
+            </div>
+            {Number(report.cash_tips || 0) > 0 && (
+              <div className="flex justify-between items-center">
+                <span>+ Cash Tips ({report.tips_count})</span>
+                <span>{formatCurrency(Number(report.cash_tips))}</span>
+              </div>
+            )}
+            <div className="flex justify-between items-center">
+              <span>- Cash Refunds</span>
+              <span>{formatCurrency(Number(report.cash_refunds))}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span>- Paid Out</span>
+              <span>{formatCurrency(Number(report.paid_out_total))}</span>
+            </div>
+            <div className="flex justify-between items-center font-semibold border-t pt-2">
+              <span>Expected Cash</span>
+              <span>{formatCurrency(Number(report.expected_cash))}</span>
+            </div>
+            {isClosed && (
+              <>
+                <div className="flex justify-between items-center font-semibold">
+                  <span>Counted Cash</span>
+                  <span>{formatCurrency(Number(report.counted_cash ?? 0))}</span>
+                </div>
+                <div className="flex justify-between items-center text-xl font-bold">
+                  <span>Variance:</span>
+                  <span className={Math.abs(variance) <= VARIANCE_TOLERANCE ? 'text-green-600' : 'text-red-600'}>
+                    {variance > 0 ? '+' : ''}{formatCurrency(variance)}
+                  </span>
+                </div>
+              </>
+            )}
+          </div>
+
+          {report.notes && (
+            <div className="space-y-1 text-sm">
+              <span className="font-medium">Notes:</span>
+              <p className="text-muted-foreground">{report.notes}</p>
+            </div>
+          )}
+
+          <div className="text-center text-xs text-gray-500 space-y-1">
+            <p>Printed {new Date().toLocaleString()}</p>
+          </div>
+        </div>
+
+        <div className="flex justify-center pt-4 print:hidden">
+          <Button onClick={handlePrint} className="bg-blue-600 hover:bg-blue-700">
+            <Printer className="mr-2 h-4 w-4" />
+            Print Report
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,367 @@
+import { useState, useEffect, useCallback } from "react";
+import { ChevronLeft, ChevronRight, CalendarDays, Clock, UserCheck } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  StaffBooking,
+  CALENDAR_START_HOUR,
+  CALENDAR_END_HOUR,
+  CALENDAR_SLOT_MINUTES,
+  addDays,
+  fetchStaffBookings,
+  getBookingConflictMessage,
+  getServiceEnd,
+  isSameDay,
+  startOfDay,
+  startOfWeek,
+} from "@/utils/appointments";
+
+interface CalendarWorker {
+  id: string;
+  name: string;
+}
+
+interface AppointmentCalendarProps {
+  workers: CalendarWorker[];
+  refreshKey?: number;
+  onSelectService: (serviceId: string) => void;
+  onCreateAt: (start: Date, staffMemberId: string | null) => void;
+  onRescheduled?: () => void;
+}
+
+type CalendarView = 'day' | 'week';
+
+const UNASSIGNED_COLUMN = 'unassigned';
+const SLOT_HEIGHT = 40;
+
+const statusStyles: { [key: string]: string } = {
+  pending: 'bg-amber-100 border-amber-300 text-amber-900',
+  in_progress: 'bg-blue-100 border-blue-300 text-blue-900',
+  completed: 'bg-emerald-100 border-emerald-300 text-emerald-900',
+  cancelled: 'bg-gray-100 border-gray-300 text-gray-500 line-through',
+};
+
+const formatTime = (date: Date) =>
+  date.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+export function AppointmentCalendar({
+  workers,
+  refreshKey,
+  onSelectService,
+  onCreateAt,
+  onRescheduled,
+}: AppointmentCalendarProps) {
+  const [view, setView] = useState<CalendarView>('day');
+  const [currentDate, setCurrentDate] = useState<Date>(startOfDay(new Date()));
+  const [bookings, setBookings] = useState<StaffBooking[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draggedBooking, setDraggedBooking] = useState<StaffBooking | null>(null);
+  const { toast } = useToast();
+
+  const rangeStart = view === 'day' ? startOfDay(currentDate) : startOfWeek(currentDate);
+  const rangeEnd = addDays(rangeStart, view === 'day' ? 1 : 7);
+  const rangeStartTime = rangeStart.getTime();
+  const rangeEndTime = rangeEnd.getTime();
+
+  const fetchBookings = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const data = await fetchStaffBookings(new Date(rangeStartTime), new Date(rangeEndTime));
+      setBookings(data);
+    } catch (error) {
+      console.error("Error fetching bookings:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load appointment calendar",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [rangeStartTime, rangeEndTime, toast]);
+
+  useEffect(() => {
+    fetchBookings();
+  }, [fetchBookings, refreshKey]);
+
+  const hasUnassigned = bookings.some(b => !b.staff_member_id);
+  const columns: CalendarWorker[] = hasUnassigned
+    ? [...workers, { id: UNASSIGNED_COLUMN, name: 'Unassigned' }]
+    : workers;
+
+  const bookingsFor = (columnId: string) =>
+    bookings.filter(b => (b.staff_member_id || UNASSIGNED_COLUMN) === columnId);
+
+  const navigate = (direction: number) => {
+    setCurrentDate(prev => addDays(prev, direction * (view === 'day' ? 1 : 7)));
+  };
+
+  const canDrag = (booking: StaffBooking) =>
+    booking.is_own && booking.status !== 'completed' && booking.status !== 'cancelled';
+
+  const rescheduleBooking = async (booking: StaffBooking, newStart: Date, columnId: string) => {
+    const newStaffId = columnId === UNASSIGNED_COLUMN ? null : columnId;
+    if (newStart.getTime() === new Date(booking.date_time).getTime() && newStaffId === booking.staff_member_id) {
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from("services")
+        .update({
+          date_time: newStart.toISOString(),
+          staff_member_id: newStaffId,
+        })
+        .eq("id", booking.service_id)
+        .select("id");
+
+      if (error) throw error;
+
+      // RLS filters out rows the user may not change instead of raising an error
+      if (!data || data.length === 0) {
+        toast({
+          title: "Not Rescheduled",
+          description: "You don't have permission to move this appointment",
+          variant: "destructive",
+        });
+        await fetchBookings();
+        return;
+      }
+
+      const staffName = columns.find(c => c.id === columnId)?.name || 'Unassigned';
+      toast({
+        title: "Appointment Rescheduled",
+        description: `${booking.service_name} moved to ${newStart.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })} ${formatTime(newStart)} with ${staffName}`,
+      });
+      await fetchBookings();
+      onRescheduled?.();
+    } catch (error) {
+      console.error("Error rescheduling appointment:", error);
+      const conflict = getBookingConflictMessage(error);
+      toast({
+        title: conflict ? "Booking Conflict" : "Error",
+        description: conflict || "Failed to reschedule appointment",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, start: Date, columnId: string) => {
+    e.preventDefault();
+    if (!draggedBooking) return;
+    const booking = draggedBooking;
+    setDraggedBooking(null);
+    rescheduleBooking(booking, start, columnId);
+  };
+
+  const renderBookingChip = (booking: StaffBooking, style?: React.CSSProperties) => {
+    const start = new Date(booking.date_time);
+    const end = getServiceEnd(start, booking.duration_minutes);
+    const draggable = canDrag(booking);
+
+    return (
+      <div
+        key={booking.service_id}
+        draggable={draggable}
+        onDragStart={(e) => {
+          e.dataTransfer.effectAllowed = 'move';
+          setDraggedBooking(booking);
+        }}
+        onDragEnd={() => setDraggedBooking(null)}
+        onClick={(e) => {
+          e.stopPropagation();
+          if (booking.is_own) onSelectService(booking.service_id);
+        }}
+        style={style}
+        className={`rounded-md border px-2 py-1 text-xs shadow-sm overflow-hidden ${statusStyles[booking.status] || statusStyles.pending} ${draggable ? 'cursor-move' : 'cursor-default'} ${booking.is_own ? '' : 'opacity-70'}`}
+        title={`${booking.service_name || 'Booked'} • ${formatTime(start)} - ${formatTime(end)}`}
+      >
+        <div className="font-semibold truncate">{booking.is_own ? booking.service_name : 'Booked'}</div>
+        <div className="truncate">
+          {formatTime(start)} - {formatTime(end)}
+          {booking.is_own && booking.customer_name ? ` • ${booking.customer_name}` : ''}
+        </div>
+      </div>
+    );
+  };
+
+  const slots: Date[] = [];
+  for (let minutes = CALENDAR_START_HOUR * 60; minutes < CALENDAR_END_HOUR * 60; minutes += CALENDAR_SLOT_MINUTES) {
+    const slot = new Date(rangeStart);
+    slot.setMinutes(minutes);
+    slots.push(slot);
+  }
+
+  const renderDayView = () => (
+    <div className="overflow-x-auto">
+      <div
+        className="grid min-w-max"
+        style={{ gridTemplateColumns: `80px repeat(${Math.max(columns.length, 1)}, minmax(160px, 1fr))` }}
+      >
+        <div className="sticky left-0 bg-blue-50 border-b border-blue-100" />
+        {columns.map(column => (
+          <div key={column.id} className="bg-gradient-to-r from-blue-50 to-cyan-50 border-b border-l border-blue-100 p-2 text-center">
+            <div className="flex items-center justify-center gap-2 text-sm font-semibold text-blue-800">
+              <UserCheck className="h-4 w-4 text-indigo-500" />
+              {column.name}
+            </div>
+          </div>
+        ))}
+
+        <div className="sticky left-0 bg-white">
+          {slots.map(slot => (
+            <div key={slot.getTime()} className="text-xs text-gray-500 pr-2 text-right border-b border-gray-100" style={{ height: SLOT_HEIGHT }}>
+              {slot.getMinutes() === 0 ? formatTime(slot) : ''}
+            </div>
+          ))}
+        </div>
+
+        {columns.map(column => (
+          <div key={column.id} className="relative border-l border-blue-100">
+            {slots.map(slot => (
+              <div
+                key={slot.getTime()}
+                className="border-b border-gray-100 hover:bg-blue-50/60 cursor-pointer"
+                style={{ height: SLOT_HEIGHT }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, slot, column.id)}
+                onClick={() => onCreateAt(slot, column.id === UNASSIGNED_COLUMN ? null : column.id)}
+              />
+            ))}
+            {bookingsFor(column.id).map(booking => {
+              const start = new Date(booking.date_time);
+              const minutesFromTop = (start.getHours() - CALENDAR_START_HOUR) * 60 + start.getMinutes();
+              const top = Math.max(0, (minutesFromTop / CALENDAR_SLOT_MINUTES) * SLOT_HEIGHT);
+              const height = Math.max(
+                SLOT_HEIGHT / 2,
+                (booking.duration_minutes / CALENDAR_SLOT_MINUTES) * SLOT_HEIGHT - 2
+              );
+              return renderBookingChip(booking, { position: 'absolute', top, height, left: 4, right: 4 });
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const weekDays = Array.from({ length: 7 }, (_, i) => addDays(rangeStart, i));
+
+  const renderWeekView = () => (
+    <div className="overflow-x-auto">
+      <div className="grid min-w-max" style={{ gridTemplateColumns: `160px repeat(7, minmax(140px, 1fr))` }}>
+        <div className="bg-blue-50 border-b border-blue-100" />
+        {weekDays.map(day => (
+          <button
+            key={day.getTime()}
+            type="button"
+            onClick={() => { setCurrentDate(day); setView('day'); }}
+            className={`border-b border-l border-blue-100 p-2 text-center text-sm font-semibold ${isSameDay(day, new Date()) ? 'bg-blue-100 text-blue-900' : 'bg-gradient-to-r from-blue-50 to-cyan-50 text-blue-800'}`}
+          >
+            {day.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+          </button>
+        ))}
+
+        {columns.map(column => (
+          <div key={column.id} className="contents">
+            <div className="flex items-center gap-2 border-b border-blue-100 p-2 text-sm font-medium text-gray-800">
+              <UserCheck className="h-4 w-4 text-indigo-500" />
+              {column.name}
+            </div>
+            {weekDays.map(day => {
+              const dayBookings = bookingsFor(column.id).filter(b => isSameDay(new Date(b.date_time), day));
+              return (
+                <div
+                  key={day.getTime()}
+                  className="min-h-[80px] space-y-1 border-b border-l border-gray-100 p-1 hover:bg-blue-50/60"
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    if (!draggedBooking) return;
+                    // Keep the original time of day when moving between days
+                    const original = new Date(draggedBooking.date_time);
+                    const target = new Date(day);
+                    target.setHours(original.getHours(), original.getMinutes(), 0, 0);
+                    handleDrop(e, target, column.id);
+                  }}
+                >
+                  {dayBookings.map(booking => renderBookingChip(booking))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  const activeBookings = bookings.filter(b => b.status !== 'cancelled');
+
+  return (
+    <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-blue-50/50">
+      <CardHeader className="bg-gradient-to-r from-blue-50 to-cyan-50 border-b border-blue-100">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-blue-800">
+              <CalendarDays className="h-5 w-5" />
+              Appointment Calendar
+            </CardTitle>
+            <CardDescription className="text-blue-600">
+              Drag an appointment to another time or stylist to reschedule. Click an empty slot to book.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className="bg-blue-100 text-blue-800 border-blue-200">
+              <Clock className="mr-1 h-3 w-3" />
+              {activeBookings.length} booked
+            </Badge>
+            <div className="flex rounded-md border border-blue-200">
+              <Button
+                variant={view === 'day' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('day')}
+                className={view === 'day' ? 'bg-blue-600 hover:bg-blue-700' : 'text-blue-700'}
+              >
+                Day
+              </Button>
+              <Button
+                variant={view === 'week' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('week')}
+                className={view === 'week' ? 'bg-blue-600 hover:bg-blue-700' : 'text-blue-700'}
+              >
+                Week
+              </Button>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => navigate(-1)} className="border-blue-200 text-blue-700">
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setCurrentDate(startOfDay(new Date()))} className="border-blue-200 text-blue-700">
+              Today
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => navigate(1)} className="border-blue-200 text-blue-700">
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <div className="text-sm font-medium text-blue-800">
+          {view === 'day'
+            ? rangeStart.toLocaleDateString('en-US', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })
+            : `${rangeStart.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} - ${addDays(rangeEnd, -1).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : columns.length === 0 ? (
+          <div className="py-8 text-center text-muted-foreground">
+            Add workers to start booking appointments
+          </div>
+        ) : view === 'day' ? renderDayView() : renderWeekView()}
+      </CardContent>
+    </Card>
+  );
+}
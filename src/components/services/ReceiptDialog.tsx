@@ -5,6 +5,10 @@ import { Printer } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import greatNaturalsLogo from "@/assets/great-naturals-logo.jpg";
 import { formatCurrency } from "@/lib/utils";
+import { fetchPaymentSummary, getPaymentMethodLabel, PaymentSummary } from "@/utils/payments";
+import { fetchLoyaltyReceipt, LoyaltyReceipt } from "@/utils/loyalty";
+import { fetchServicePrepaid, ServicePrepaid } from "@/utils/prepaid";
+import { fetchTips, Tip } from "@/utils/tips";
 
 interface Service {
   id: string;
@@ -38,13 +42,65 @@ interface ReceiptDialogProps {
 export function ReceiptDialog({ isOpen, onClose, service }: ReceiptDialogProps) {
   const [serviceProducts, setServiceProducts] = useState<ServiceProduct[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [paymentSummary, setPaymentSummary] = useState<PaymentSummary | null>(null);
+  const [loyalty, setLoyalty] = useState<LoyaltyReceipt | null>(null);
+  const [prepaid, setPrepaid] = useState<ServicePrepaid[]>([]);
+  const [tips, setTips] = useState<Tip[]>([]);
 
   useEffect(() => {
     if (service && isOpen) {
       fetchServiceProducts();
+      fetchPayments();
+      fetchLoyalty();
+      fetchPrepaid();
+      fetchServiceTips();
     }
   }, [service, isOpen]);
 
+  const fetchServiceTips = async () => {
+    if (!service) return;
+
+    try {
+      setTips(await fetchTips({ serviceId: service.id }));
+    } catch (error) {
+      console.error("Error fetching tips:", error);
+      setTips([]);
+    }
+  };
+
+  const fetchLoyalty = async () => {
+    if (!service) return;
+
+    try {
+      setLoyalty(await fetchLoyaltyReceipt({ serviceId: service.id }));
+    } catch (error) {
+      console.error("Error fetching loyalty points:", error);
+      setLoyalty(null);
+    }
+  };
+
+  const fetchPrepaid = async () => {
+    if (!service) return;
+
+    try {
+      setPrepaid(await fetchServicePrepaid(service.id));
+    } catch (error) {
+      console.error("Error fetching prepaid redemptions:", error);
+      setPrepaid([]);
+    }
+  };
+
+  const fetchPayments = async () => {
+    if (!service) return;
+
+    try {
+      setPaymentSummary(await fetchPaymentSummary({ serviceId: service.id }));
+    } catch (error) {
+      console.error("Error fetching service payments:", error);
+      setPaymentSummary(null);
+    }
+  };
+
   const fetchServiceProducts = async () => {
     if (!service) return;
     
@@ -91,7 +147,10 @@ export function ReceiptDialog({ isOpen, onClose, service }: ReceiptDialogProps)
   if (!service) return null;
 
   const totalProductPrice = serviceProducts.reduce((sum, sp) => sum + sp.total_price, 0);
-  const grandTotal = service.service_price + totalProductPrice;
+  const subtotal = service.service_price + totalProductPrice;
+  const loyaltyDiscount = Number(loyalty?.discount || 0);
+  const prepaidCovered = prepaid.reduce((sum, item) => sum + Number(item.covered), 0);
+  const grandTotal = subtotal - loyaltyDiscount - prepaidCovered;
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -167,10 +226,89 @@ export function ReceiptDialog({ isOpen, onClose, service }: ReceiptDialogProps)
           </div>
 
           <div className="border-t pt-4">
+            {(loyaltyDiscount > 0 || prepaidCovered > 0) && (
+              <div className="mb-1 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span>Subtotal:</span>
+                  <span>{formatCurrency(subtotal)}</span>
+                </div>
+                {loyaltyDiscount > 0 && (
+                  <div className="flex justify-between text-amber-700">
+                    <span>Loyalty Discount ({loyalty!.points_redeemed.toLocaleString()} pts):</span>
+                    <span>-{formatCurrency(loyaltyDiscount)}</span>
+                  </div>
+                )}
+                {prepaid.map((item) => (
+                  <div key={`${item.source}-${item.name}`} className="flex justify-between text-pink-700">
+                    <span>
+                      {item.source === 'package'
+                        ? `Package: ${item.name} (${item.units} unit${item.units === 1 ? '' : 's'})`
+                        : `Gift Voucher ${item.name}`}:
+                    </span>
+                    <span>-{formatCurrency(Number(item.covered))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
             <div className="flex justify-between text-lg font-bold">
               <span>Total:</span>
               <span>{formatCurrency(grandTotal)}</span>
             </div>
+            {paymentSummary && paymentSummary.payments.length > 0 && (
+              <div className="mt-2 space-y-1 text-sm">
+                {paymentSummary.payments.map((payment) => (
+                  <div key={payment.id} className="flex justify-between">
+                    <span>
+                      {getPaymentMethodLabel(payment.payment_method)}
+                      {payment.is_deposit && ' (deposit)'}
+                      {payment.reference_number && (
+                        <span className="ml-2 font-mono text-xs text-muted-foreground">{payment.reference_number}</span>
+                      )}
+                    </span>
+                    <span>{formatCurrency(Number(payment.amount))}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-1 font-medium">
+                  <span>Amount Paid:</span>
+                  <span>{formatCurrency(Number(paymentSummary.amount_paid))}</span>
+                </div>
+              </div>
+            )}
+            {paymentSummary && Number(paymentSummary.balance) > 0 && (
+              <div className="mt-1 flex justify-between font-semibold text-amber-600">
+                <span>Balance Due:</span>
+                <span>{formatCurrency(Number(paymentSummary.balance))}</span>
+              </div>
+            )}
+            {tips.length > 0 && (
+              <div className="mt-2 space-y-1 text-sm">
+                {tips.map((tip) => (
+                  <div key={tip.id} className="flex justify-between">
+                    <span>
+                      Tip ({getPaymentMethodLabel(tip.payment_method)})
+                      <span className="ml-2 text-xs text-muted-foreground">
+                        {tip.tip_allocations.map(allocation => allocation.workers?.name).filter(Boolean).join(', ')}
+                      </span>
+                    </span>
+                    <span>{formatCurrency(Number(tip.amount))}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+            {loyalty && (
+              <div className="mt-3 p-2 bg-amber-50 rounded text-sm text-amber-800 space-y-1">
+                {loyalty.points_earned > 0 && (
+                  <div className="flex justify-between">
+                    <span>Points Earned:</span>
+                    <span>+{loyalty.points_earned.toLocaleString()}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium">
+                  <span>Points Balance:</span>
+                  <span>{loyalty.points_balance.toLocaleString()} pts</span>
+                </div>
+              </div>
+            )}
           </div>
 
           <div className="text-center text-xs text-muted-foreground space-y-1 border-t pt-4">
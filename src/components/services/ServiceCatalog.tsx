@@ -0,0 +1,411 @@
+import { useState } from "react";
+import { BookOpen, Edit, FlaskConical, Plus, Trash2 } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { DEFAULT_SERVICE_DURATION, SERVICE_DURATION_OPTIONS } from "@/utils/appointments";
+import { CatalogService, recipeCost, saveCatalogService } from "@/utils/serviceCatalog";
+
+interface RecipeProduct {
+  id: string;
+  name: string;
+  current_stock: number;
+}
+
+interface ServiceCatalogProps {
+  catalog: CatalogService[];
+  inventoryItems: RecipeProduct[];
+  /** Admins edit prices, commission rates and recipes; everyone else sees the menu */
+  canManage: boolean;
+  onChanged: () => void;
+}
+
+const emptyForm = {
+  name: "",
+  category: "",
+  description: "",
+  default_price: "",
+  duration_minutes: DEFAULT_SERVICE_DURATION,
+  commission_rate: "",
+  is_active: true,
+};
+
+const formatDuration = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`;
+
+export function ServiceCatalog({ catalog, inventoryItems, canManage, onChanged }: ServiceCatalogProps) {
+  const [editingService, setEditingService] = useState<CatalogService | null>(null);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [recipe, setRecipe] = useState<{ item_id: string; quantity: string }[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  const openDialog = (service?: CatalogService) => {
+    setEditingService(service || null);
+    setForm(service
+      ? {
+          name: service.name,
+          category: service.category,
+          description: service.description || "",
+          default_price: service.default_price.toString(),
+          duration_minutes: service.duration_minutes,
+          commission_rate: service.commission_rate?.toString() || "",
+          is_active: service.is_active,
+        }
+      : emptyForm);
+    setRecipe(service
+      ? service.service_recipe_items.map(item => ({ item_id: item.item_id, quantity: item.quantity.toString() }))
+      : []);
+    setIsDialogOpen(true);
+  };
+
+  const updateRecipeLine = (index: number, field: 'item_id' | 'quantity', value: string) => {
+    setRecipe(prev => prev.map((line, lineIndex) => (lineIndex === index ? { ...line, [field]: value } : line)));
+  };
+
+  // Recipe items may belong to another branch's stock, so keep their names for the picker
+  const recipeItemName = (itemId: string) =>
+    inventoryItems.find(item => item.id === itemId)?.name
+    || editingService?.service_recipe_items.find(item => item.item_id === itemId)?.inventory_items?.name
+    || 'Unknown item';
+
+  const handleSave = async () => {
+    const price = parseFloat(form.default_price);
+    const commission = form.commission_rate === "" ? null : parseFloat(form.commission_rate);
+    const lines = recipe
+      .filter(line => line.item_id)
+      .map(line => ({ item_id: line.item_id, quantity: parseFloat(line.quantity) }));
+
+    if (!form.name.trim() || !form.category.trim() || isNaN(price) || price < 0) {
+      toast({
+        title: "Incomplete Service",
+        description: "Enter the service name, category and price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (commission !== null && (isNaN(commission) || commission < 0 || commission > 100)) {
+      toast({
+        title: "Invalid Commission",
+        description: "Commission must be between 0 and 100%, or empty for the worker's rate",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (lines.some(line => isNaN(line.quantity) || line.quantity <= 0)) {
+      toast({
+        title: "Invalid Recipe",
+        description: "Each recipe product needs a quantity greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const result = await saveCatalogService({
+        id: editingService?.id,
+        name: secureInput.string(form.name.trim()),
+        category: secureInput.string(form.category.trim()),
+        description: secureInput.string(form.description.trim()),
+        defaultPrice: price,
+        durationMinutes: form.duration_minutes,
+        commissionRate: commission,
+        isActive: form.is_active,
+        recipe: lines,
+      });
+
+      if (!result.success) {
+        throw new Error(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+
+      toast({
+        title: editingService ? "Service Updated" : "Service Added",
+        description: result.message,
+      });
+      setIsDialogOpen(false);
+      onChanged();
+    } catch (error) {
+      console.error("Error saving catalog service:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save catalog service",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-violet-50/50">
+        <CardHeader className="bg-gradient-to-r from-violet-50 to-fuchsia-50 border-b border-violet-100">
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2">
+            <div>
+              <CardTitle className="text-violet-800 flex items-center gap-2">
+                <BookOpen className="h-5 w-5" />
+                Service Menu
+              </CardTitle>
+              <CardDescription className="text-violet-600">
+                Default price, duration, commission and standard products per service. Booking a menu service fills these in.
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button onClick={() => openDialog()} className="bg-gradient-to-r from-violet-600 to-fuchsia-600 hover:from-violet-700 hover:to-fuchsia-700">
+                <Plus className="mr-2 h-4 w-4" />
+                Add Service
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Price</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Commission</TableHead>
+                <TableHead>Recipe</TableHead>
+                <TableHead className="text-right">Product Cost</TableHead>
+                {canManage && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {catalog.map(service => (
+                <TableRow key={service.id} className={service.is_active ? '' : 'opacity-60'}>
+                  <TableCell>
+                    <p className="font-medium text-gray-900">{service.name}</p>
+                    {service.description && <p className="text-xs text-muted-foreground">{service.description}</p>}
+                    {!service.is_active && <Badge variant="secondary" className="mt-1">Inactive</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{service.category}</Badge>
+                  </TableCell>
+                  <TableCell className="text-right font-semibold text-emerald-700">{formatCurrency(service.default_price)}</TableCell>
+                  <TableCell className="text-right">{formatDuration(service.duration_minutes)}</TableCell>
+                  <TableCell className="text-right">
+                    {service.commission_rate !== null ? `${service.commission_rate}%` : 'Worker Default'}
+                  </TableCell>
+                  <TableCell>
+                    {service.service_recipe_items.length > 0 ? (
+                      <div className="space-y-1 text-sm">
+                        {service.service_recipe_items.map(item => (
+                          <p key={item.id} className="flex items-center gap-1">
+                            <FlaskConical className="h-3 w-3 text-violet-500" />
+                            {item.quantity} × {item.inventory_items?.name || 'Unknown item'}
+                          </p>
+                        ))}
+                      </div>
+                    ) : (
+                      <span className="text-muted-foreground">-</span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right text-gray-700">{formatCurrency(recipeCost(service))}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => openDialog(service)}
+                        className="text-violet-600 hover:text-violet-700 hover:bg-violet-50"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {catalog.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 8 : 7} className="text-center py-8 text-muted-foreground">
+                    No services on the menu yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingService ? 'Edit Menu Service' : 'Add Menu Service'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to new bookings; existing bookings keep their price and products.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="catalog-name">Name *</Label>
+                <Input
+                  id="catalog-name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="catalog-category">Category *</Label>
+                <Input
+                  id="catalog-category"
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  placeholder="e.g., Haircut, Coloring, Styling"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="grid gap-2">
+                <Label htmlFor="catalog-price">Price *</Label>
+                <Input
+                  id="catalog-price"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.default_price}
+                  onChange={(e) => setForm({ ...form, default_price: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label>Duration *</Label>
+                <Select
+                  value={String(form.duration_minutes)}
+                  onValueChange={(value) => setForm({ ...form, duration_minutes: parseInt(value) })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERVICE_DURATION_OPTIONS.map((minutes) => (
+                      <SelectItem key={minutes} value={String(minutes)}>
+                        {formatDuration(minutes)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="catalog-commission">Commission (%)</Label>
+                <Input
+                  id="catalog-commission"
+                  type="number"
+                  step="0.1"
+                  min="0"
+                  max="100"
+                  value={form.commission_rate}
+                  onChange={(e) => setForm({ ...form, commission_rate: e.target.value })}
+                  placeholder="Worker default"
+                />
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="catalog-description">Description</Label>
+              <Textarea
+                id="catalog-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Standard Recipe</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Products used per service, in stock units. Bookings round fractions up to whole units.
+                  </p>
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRecipe(prev => [...prev, { item_id: "", quantity: "1" }])}
+                  disabled={inventoryItems.length === 0}
+                >
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Product
+                </Button>
+              </div>
+              {recipe.map((line, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <Select value={line.item_id} onValueChange={(value) => updateRecipeLine(index, 'item_id', value)}>
+                    <SelectTrigger className="flex-1">
+                      <SelectValue placeholder="Select product">
+                        {line.item_id ? recipeItemName(line.item_id) : undefined}
+                      </SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {inventoryItems
+                        .filter(item => item.id === line.item_id || !recipe.some(other => other.item_id === item.id))
+                        .map(item => (
+                          <SelectItem key={item.id} value={item.id}>
+                            {item.name} (Stock: {item.current_stock})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    step="0.001"
+                    min="0"
+                    value={line.quantity}
+                    onChange={(e) => updateRecipeLine(index, 'quantity', e.target.value)}
+                    className="w-28"
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRecipe(prev => prev.filter((_, lineIndex) => lineIndex !== index))}
+                    className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            {editingService && (
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label>Active</Label>
+                  <p className="text-xs text-muted-foreground">Inactive services are hidden when booking</p>
+                </div>
+                <Switch
+                  checked={form.is_active}
+                  onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+                />
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingService ? 'Save Service' : 'Add Service'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,354 @@
+import { useState, useEffect } from "react";
+import { Edit, Percent, Plus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { fetchServiceCatalog } from "@/utils/serviceCatalog";
+import { CommissionBasis, CommissionRule, fetchCommissionRules, saveCommissionRule } from "@/utils/commissionRules";
+
+interface CommissionRulesProps {
+  workers: { id: string; name: string }[];
+  canManage: boolean;
+}
+
+const emptyRuleForm = {
+  name: "",
+  applies_to: "service" as CommissionRule['applies_to'],
+  worker_id: "all",
+  service_category: "all",
+  min_monthly_revenue: "",
+  rate: "",
+  basis: "gross" as CommissionBasis,
+  is_active: true,
+};
+
+export function CommissionRules({ workers, canManage }: CommissionRulesProps) {
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CommissionRule | null>(null);
+  const [form, setForm] = useState(emptyRuleForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  const loadRules = async () => {
+    try {
+      const [ruleData, catalog] = await Promise.all([fetchCommissionRules(), fetchServiceCatalog()]);
+      setRules(ruleData);
+      setCategories([...new Set(catalog.map(service => service.category))].sort());
+    } catch (error) {
+      console.error("Error loading commission rules:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load commission rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDialog = (rule: CommissionRule | null) => {
+    setEditingRule(rule);
+    setForm(rule
+      ? {
+          name: rule.name,
+          applies_to: rule.applies_to,
+          worker_id: rule.worker_id || "all",
+          service_category: rule.service_category || "all",
+          min_monthly_revenue: Number(rule.min_monthly_revenue) ? String(rule.min_monthly_revenue) : "",
+          rate: String(rule.rate),
+          basis: rule.basis,
+          is_active: rule.is_active,
+        }
+      : emptyRuleForm);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+
+    const rate = parseFloat(form.rate);
+    const threshold = parseFloat(form.min_monthly_revenue) || 0;
+
+    if (!form.name.trim() || isNaN(rate) || rate < 0 || rate > 100 || threshold < 0) {
+      toast({
+        title: "Invalid Rule",
+        description: "Give the rule a name, a rate between 0 and 100% and a threshold that isn't negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveCommissionRule({
+        id: editingRule?.id,
+        name: secureInput.string(form.name.trim()),
+        appliesTo: form.applies_to,
+        workerId: form.worker_id === "all" ? null : form.worker_id,
+        serviceCategory: form.service_category === "all" ? null : form.service_category,
+        minMonthlyRevenue: threshold,
+        rate,
+        basis: form.basis,
+        isActive: form.is_active,
+        createdBy: user.id,
+      });
+
+      toast({
+        title: "Rule Saved",
+        description: "It applies to commission posted from now on",
+      });
+      setIsDialogOpen(false);
+      loadRules();
+    } catch (error) {
+      console.error("Error saving commission rule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the commission rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const describeScope = (rule: CommissionRule) =>
+    [
+      rule.applies_to === 'retail' ? 'Retail sales' : rule.service_category || 'All services',
+      rule.workers?.name || 'Everyone',
+    ].join(' · ');
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-purple-50/50">
+        <CardHeader className="bg-gradient-to-r from-purple-50 to-pink-50 border-b border-purple-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-purple-800">
+                <Percent className="h-5 w-5 text-purple-600" />
+                Commission Rules
+              </CardTitle>
+              <CardDescription className="text-purple-600">
+                The most specific rule wins: a worker's own rules first, then a category's, then the highest
+                tier their revenue earlier in the month has reached. Services with their own rate keep it, and
+                workers without a matching rule earn their default rate.
+              </CardDescription>
+            </div>
+            {canManage && (
+              <Button size="sm" onClick={() => openDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rule
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Rule</TableHead>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Monthly Revenue From</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Basis</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.name}</TableCell>
+                  <TableCell>{describeScope(rule)}</TableCell>
+                  <TableCell>
+                    {Number(rule.min_monthly_revenue) > 0 ? formatCurrency(Number(rule.min_monthly_revenue)) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{Number(rule.rate)}%</Badge>
+                  </TableCell>
+                  <TableCell>{rule.basis === 'net' ? 'Net of product cost' : 'Gross'}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.is_active ? "default" : "secondary"}>
+                      {rule.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  {canManage && (
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => openDialog(rule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {rules.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canManage ? 7 : 6} className="text-center py-6 text-muted-foreground">
+                    No rules yet: commission workers earn their default rate on every service
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editingRule ? "Edit Commission Rule" : "Add Commission Rule"}</DialogTitle>
+            <DialogDescription>
+              Changes apply to commission posted from now on; work already credited keeps its rate
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule_name">Name</Label>
+              <Input
+                id="rule_name"
+                placeholder="e.g. Colour top tier"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Applies To</Label>
+                <Select
+                  value={form.applies_to}
+                  onValueChange={(value) => setForm(prev => ({
+                    ...prev,
+                    applies_to: value as CommissionRule['applies_to'],
+                    service_category: "all",
+                  }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="service">Services</SelectItem>
+                    <SelectItem value="retail">Retail sales</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {form.applies_to === 'service' && (
+                <div className="space-y-2">
+                  <Label>Category</Label>
+                  <Select
+                    value={form.service_category}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, service_category: value }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All categories</SelectItem>
+                      {categories.map((category) => (
+                        <SelectItem key={category} value={category}>{category}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label>Worker</Label>
+              <Select
+                value={form.worker_id}
+                onValueChange={(value) => setForm(prev => ({ ...prev, worker_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Everyone</SelectItem>
+                  {workers.map((worker) => (
+                    <SelectItem key={worker.id} value={worker.id}>{worker.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_rate">Rate (%)</Label>
+                <Input
+                  id="rule_rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={form.rate}
+                  onChange={(e) => setForm(prev => ({ ...prev, rate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2 col-span-2">
+                <Label htmlFor="rule_threshold">Once monthly revenue reaches</Label>
+                <Input
+                  id="rule_threshold"
+                  type="number"
+                  min="0"
+                  placeholder="From the first sale"
+                  value={form.min_monthly_revenue}
+                  onChange={(e) => setForm(prev => ({ ...prev, min_monthly_revenue: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Paid On</Label>
+              <Select
+                value={form.basis}
+                onValueChange={(value) => setForm(prev => ({ ...prev, basis: value as CommissionBasis }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="gross">Gross: the full price</SelectItem>
+                  <SelectItem value="net">Net: the price less the cost of products used or sold</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="rule_active">Active</Label>
+              <Switch
+                id="rule_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? "Saving..." : "Save Rule"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
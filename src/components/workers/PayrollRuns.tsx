@@ -0,0 +1,650 @@
+import { useState, useEffect } from "react";
+import { CheckCircle, Edit, FileText, Lock, Plus, RefreshCw, Unlock, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { PayslipDialog } from "@/components/workers/PayslipDialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { PAYMENT_METHODS, PaymentMethod } from "@/utils/payments";
+import {
+  PayrollDeductionType,
+  PayrollLine,
+  PayrollRun,
+  fetchPayrollDeductionTypes,
+  fetchPayrollLines,
+  fetchPayrollRun,
+  generatePayrollRun,
+  recordPayrollPayment,
+  savePayrollDeductionType,
+  setPayrollRunApproved,
+  updatePayrollLine,
+} from "@/utils/payroll";
+
+interface PayrollRunsProps {
+  /** yyyy-mm */
+  month: string;
+  /** Approve, reopen and manage deductions (admins) */
+  canApprove: boolean;
+}
+
+const emptyLineForm = { bonus: "", notes: "" };
+const emptyPaymentForm = { payment_method: 'cash' as PaymentMethod, amount: "", reference_number: "" };
+const emptyDeductionForm = { name: "", rate: "", fixed_amount: "", is_active: true };
+
+export function PayrollRuns({ month, canApprove }: PayrollRunsProps) {
+  const [run, setRun] = useState<PayrollRun | null>(null);
+  const [lines, setLines] = useState<PayrollLine[]>([]);
+  const [deductionTypes, setDeductionTypes] = useState<PayrollDeductionType[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [editingLine, setEditingLine] = useState<PayrollLine | null>(null);
+  const [lineForm, setLineForm] = useState(emptyLineForm);
+  // null line pays every outstanding payslip in the run
+  const [payingLine, setPayingLine] = useState<PayrollLine | null>(null);
+  const [isPaymentOpen, setIsPaymentOpen] = useState(false);
+  const [paymentForm, setPaymentForm] = useState(emptyPaymentForm);
+  const [payslipLine, setPayslipLine] = useState<PayrollLine | null>(null);
+  const [editingDeduction, setEditingDeduction] = useState<PayrollDeductionType | null>(null);
+  const [isDeductionOpen, setIsDeductionOpen] = useState(false);
+  const [deductionForm, setDeductionForm] = useState(emptyDeductionForm);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadPayroll();
+  }, [month]);
+
+  useEffect(() => {
+    loadDeductionTypes();
+  }, []);
+
+  const loadPayroll = async () => {
+    setIsLoading(true);
+    try {
+      const currentRun = await fetchPayrollRun(month);
+      setRun(currentRun);
+      setLines(currentRun ? await fetchPayrollLines(currentRun.id) : []);
+    } catch (error) {
+      console.error("Error loading payroll:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load payroll",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadDeductionTypes = async () => {
+    try {
+      setDeductionTypes(await fetchPayrollDeductionTypes());
+    } catch (error) {
+      console.error("Error loading payroll deductions:", error);
+    }
+  };
+
+  /** Run a payroll action, toast its outcome and reload the run */
+  const runAction = async (
+    action: () => Promise<{ success: boolean; message: string; error?: string }>,
+    title: string
+  ) => {
+    setIsWorking(true);
+    try {
+      const result = await action();
+
+      if (!result.success) {
+        throw new Error(result.error ? `${result.message}: ${result.error}` : result.message);
+      }
+
+      toast({ title, description: result.message });
+      await loadPayroll();
+      return true;
+    } catch (error) {
+      console.error(`Error (${title}):`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Payroll could not be updated",
+        variant: "destructive",
+      });
+      return false;
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleGenerate = () => runAction(() => generatePayrollRun(month), "Payroll Prepared");
+
+  const handleApprove = (approve: boolean) => {
+    if (!run) return;
+    runAction(() => setPayrollRunApproved(run.id, approve), approve ? "Payroll Approved" : "Payroll Reopened");
+  };
+
+  const openLineDialog = (line: PayrollLine) => {
+    setEditingLine(line);
+    setLineForm({
+      bonus: Number(line.bonus) ? String(line.bonus) : "",
+      notes: line.notes || "",
+    });
+  };
+
+  const handleSaveLine = async () => {
+    if (!editingLine) return;
+
+    const bonus = parseFloat(lineForm.bonus) || 0;
+    if (bonus < 0) {
+      toast({
+        title: "Invalid Amount",
+        description: "The bonus can't be negative",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const saved = await runAction(
+      () => updatePayrollLine({
+        id: editingLine.id,
+        bonus,
+        notes: secureInput.string(lineForm.notes.trim()),
+      }),
+      "Payslip Updated"
+    );
+
+    if (saved) setEditingLine(null);
+  };
+
+  const openPaymentDialog = (line: PayrollLine | null) => {
+    setPayingLine(line);
+    setPaymentForm({
+      ...emptyPaymentForm,
+      amount: line ? String(Number(line.net_pay) - Number(line.amount_paid)) : "",
+    });
+    setIsPaymentOpen(true);
+  };
+
+  const handlePay = async () => {
+    if (!run) return;
+
+    const amount = payingLine ? parseFloat(paymentForm.amount) : undefined;
+    if (amount !== undefined && !(amount > 0)) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter the amount being paid",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const paid = await runAction(
+      () => recordPayrollPayment({
+        runId: run.id,
+        paymentMethod: paymentForm.payment_method,
+        lineId: payingLine?.id,
+        amount,
+        referenceNumber: secureInput.string(paymentForm.reference_number.trim()),
+      }),
+      "Wages Paid"
+    );
+
+    if (paid) setIsPaymentOpen(false);
+  };
+
+  const openDeductionDialog = (deduction: PayrollDeductionType | null) => {
+    setEditingDeduction(deduction);
+    setDeductionForm(deduction
+      ? {
+          name: deduction.name,
+          rate: String(deduction.rate),
+          fixed_amount: String(deduction.fixed_amount),
+          is_active: deduction.is_active,
+        }
+      : emptyDeductionForm);
+    setIsDeductionOpen(true);
+  };
+
+  const handleSaveDeduction = async () => {
+    const rate = parseFloat(deductionForm.rate) || 0;
+    const fixedAmount = parseFloat(deductionForm.fixed_amount) || 0;
+
+    if (!deductionForm.name.trim() || rate < 0 || rate > 100 || fixedAmount < 0 || (rate === 0 && fixedAmount === 0)) {
+      toast({
+        title: "Invalid Deduction",
+        description: "Give the deduction a name and a rate (0-100%) and/or a fixed amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      await savePayrollDeductionType({
+        id: editingDeduction?.id,
+        name: secureInput.string(deductionForm.name.trim()),
+        rate,
+        fixedAmount,
+        isActive: deductionForm.is_active,
+      });
+
+      toast({
+        title: "Deduction Saved",
+        description: "Refresh a draft payroll to apply it",
+      });
+      setIsDeductionOpen(false);
+      loadDeductionTypes();
+    } catch (error) {
+      console.error("Error saving payroll deduction:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save the deduction",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const getRunStatus = (status: PayrollRun['status']) => {
+    switch (status) {
+      case 'paid':
+        return <Badge className="bg-green-100 text-green-800 border-green-200">Paid</Badge>;
+      case 'approved':
+        return <Badge className="bg-blue-100 text-blue-800 border-blue-200">Approved · Locked</Badge>;
+      default:
+        return <Badge variant="secondary">Draft</Badge>;
+    }
+  };
+
+  const totals = lines.reduce(
+    (acc, line) => ({
+      gross: acc.gross + Number(line.gross_pay),
+      deductions: acc.deductions + Number(line.deductions_total) + Number(line.advances),
+      net: acc.net + Number(line.net_pay),
+      paid: acc.paid + Number(line.amount_paid),
+    }),
+    { gross: 0, deductions: 0, net: 0, paid: 0 }
+  );
+  const isDraft = run?.status === 'draft';
+  const canPay = run?.status === 'approved' && totals.net > totals.paid;
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-indigo-50/50">
+        <CardHeader className="bg-gradient-to-r from-indigo-50 to-purple-50 border-b border-indigo-100">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2 text-indigo-800">
+                <Wallet className="h-5 w-5 text-indigo-600" />
+                Payroll for {month}
+                {run && getRunStatus(run.status)}
+              </CardTitle>
+              <CardDescription className="text-indigo-600">
+                Salary (prorated for attendance) plus commission, tips and bonus, less deductions and advances.
+                Approving locks the month's services.
+              </CardDescription>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {(!run || isDraft) && (
+                <Button variant="outline" onClick={handleGenerate} disabled={isWorking}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  {run ? "Refresh Draft" : "Prepare Payroll"}
+                </Button>
+              )}
+              {canApprove && isDraft && lines.length > 0 && (
+                <Button onClick={() => handleApprove(true)} disabled={isWorking}>
+                  <Lock className="mr-2 h-4 w-4" />
+                  Approve & Lock
+                </Button>
+              )}
+              {canApprove && run?.status === 'approved' && totals.paid === 0 && (
+                <Button variant="outline" onClick={() => handleApprove(false)} disabled={isWorking}>
+                  <Unlock className="mr-2 h-4 w-4" />
+                  Reopen
+                </Button>
+              )}
+              {canPay && (
+                <Button onClick={() => openPaymentDialog(null)} disabled={isWorking} className="bg-green-600 hover:bg-green-700">
+                  <CheckCircle className="mr-2 h-4 w-4" />
+                  Pay All Outstanding
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : !run ? (
+            <p className="text-center py-8 text-muted-foreground">
+              Payroll for {month} hasn't been prepared yet
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="rounded-lg bg-indigo-50 p-3">
+                  <div className="text-xs text-muted-foreground">Gross Pay</div>
+                  <div className="font-semibold text-indigo-700">{formatCurrency(totals.gross)}</div>
+                </div>
+                <div className="rounded-lg bg-red-50 p-3">
+                  <div className="text-xs text-muted-foreground">Deductions & Advances</div>
+                  <div className="font-semibold text-red-700">{formatCurrency(totals.deductions)}</div>
+                </div>
+                <div className="rounded-lg bg-emerald-50 p-3">
+                  <div className="text-xs text-muted-foreground">Net Pay</div>
+                  <div className="font-semibold text-emerald-700">{formatCurrency(totals.net)}</div>
+                </div>
+                <div className="rounded-lg bg-blue-50 p-3">
+                  <div className="text-xs text-muted-foreground">Paid</div>
+                  <div className="font-semibold text-blue-700">{formatCurrency(totals.paid)}</div>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Worker</TableHead>
+                    <TableHead>Salary</TableHead>
+                    <TableHead>Commission</TableHead>
+                    <TableHead>Tips</TableHead>
+                    <TableHead>Bonus</TableHead>
+                    <TableHead>Gross</TableHead>
+                    <TableHead>Deductions</TableHead>
+                    <TableHead>Advances</TableHead>
+                    <TableHead>Net Pay</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const owed = Number(line.net_pay) - Number(line.amount_paid);
+                    return (
+                      <TableRow key={line.id}>
+                        <TableCell>
+                          <div className="font-medium">{line.worker_name}</div>
+                          <div className="text-xs text-muted-foreground capitalize">{line.worker_role} · {line.payment_type}</div>
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(Number(line.base_salary))}
+                          {line.payment_type === 'monthly' && Number(line.attendance_ratio) < 1 && (
+                            <div className="text-xs text-muted-foreground">
+                              {Math.round(Number(line.attendance_ratio) * 100)}% attendance
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {formatCurrency(Number(line.commission))}
+                          <div className="text-xs text-muted-foreground">{line.services_count} services</div>
+                        </TableCell>
+                        <TableCell>{formatCurrency(Number(line.tips))}</TableCell>
+                        <TableCell>{formatCurrency(Number(line.bonus))}</TableCell>
+                        <TableCell className="font-medium">{formatCurrency(Number(line.gross_pay))}</TableCell>
+                        <TableCell className="text-red-600">{formatCurrency(Number(line.deductions_total))}</TableCell>
+                        <TableCell className="text-red-600">{formatCurrency(Number(line.advances))}</TableCell>
+                        <TableCell className="font-semibold">{formatCurrency(Number(line.net_pay))}</TableCell>
+                        <TableCell>
+                          {owed <= 0 ? (
+                            <Badge className="bg-green-100 text-green-800 border-green-200">Paid</Badge>
+                          ) : (
+                            formatCurrency(Number(line.amount_paid))
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex gap-2">
+                            {isDraft && (
+                              <Button variant="outline" size="sm" onClick={() => openLineDialog(line)}>
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {run.status === 'approved' && owed > 0 && (
+                              <Button variant="outline" size="sm" onClick={() => openPaymentDialog(line)}>
+                                <Wallet className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button variant="outline" size="sm" onClick={() => setPayslipLine(line)}>
+                              <FileText className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {lines.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={11} className="text-center py-6 text-muted-foreground">
+                        No workers were employed in this branch during {month}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-gray-50/50">
+        <CardHeader className="bg-gradient-to-r from-gray-50 to-slate-50 border-b border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="text-gray-800">Statutory Deductions</CardTitle>
+              <CardDescription>Taken from every payslip's gross pay when payroll is prepared</CardDescription>
+            </div>
+            {canApprove && (
+              <Button size="sm" onClick={() => openDeductionDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Deduction
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Rate</TableHead>
+                <TableHead>Fixed Amount</TableHead>
+                <TableHead>Status</TableHead>
+                {canApprove && <TableHead>Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deductionTypes.map((deduction) => (
+                <TableRow key={deduction.id}>
+                  <TableCell className="font-medium">{deduction.name}</TableCell>
+                  <TableCell>{Number(deduction.rate)}%</TableCell>
+                  <TableCell>{formatCurrency(Number(deduction.fixed_amount))}</TableCell>
+                  <TableCell>
+                    <Badge variant={deduction.is_active ? "default" : "secondary"}>
+                      {deduction.is_active ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  {canApprove && (
+                    <TableCell>
+                      <Button variant="outline" size="sm" onClick={() => openDeductionDialog(deduction)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+              {deductionTypes.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={canApprove ? 5 : 4} className="text-center py-6 text-muted-foreground">
+                    No deductions set up
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!editingLine} onOpenChange={(open) => !open && setEditingLine(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Adjust Payslip</DialogTitle>
+            <DialogDescription>
+              {editingLine?.worker_name}: salary, commission, tips and advance repayments come from attendance, completed
+              services, recorded tips and approved advances
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="line_bonus">Bonus</Label>
+              <Input
+                id="line_bonus"
+                type="number"
+                min="0"
+                value={lineForm.bonus}
+                onChange={(e) => setLineForm(prev => ({ ...prev, bonus: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="line_notes">Notes</Label>
+              <Textarea
+                id="line_notes"
+                value={lineForm.notes}
+                onChange={(e) => setLineForm(prev => ({ ...prev, notes: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingLine(null)}>Cancel</Button>
+            <Button onClick={handleSaveLine} disabled={isWorking}>
+              {isWorking ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isPaymentOpen} onOpenChange={setIsPaymentOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{payingLine ? `Pay ${payingLine.worker_name}` : "Pay All Outstanding Wages"}</DialogTitle>
+            <DialogDescription>
+              {payingLine
+                ? `${formatCurrency(Number(payingLine.net_pay) - Number(payingLine.amount_paid))} is owed on this payslip`
+                : `${formatCurrency(totals.net - totals.paid)} across every unpaid payslip`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Payment Method</Label>
+              <Select
+                value={paymentForm.payment_method}
+                onValueChange={(value) => setPaymentForm(prev => ({ ...prev, payment_method: value as PaymentMethod }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map((method) => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {payingLine && (
+              <div className="space-y-2">
+                <Label htmlFor="wage_amount">Amount</Label>
+                <Input
+                  id="wage_amount"
+                  type="number"
+                  min="0"
+                  value={paymentForm.amount}
+                  onChange={(e) => setPaymentForm(prev => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="wage_reference">Reference (optional)</Label>
+              <Input
+                id="wage_reference"
+                value={paymentForm.reference_number}
+                onChange={(e) => setPaymentForm(prev => ({ ...prev, reference_number: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPaymentOpen(false)}>Cancel</Button>
+            <Button onClick={handlePay} disabled={isWorking} className="bg-green-600 hover:bg-green-700">
+              {isWorking ? "Processing..." : "Record Payment"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isDeductionOpen} onOpenChange={setIsDeductionOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingDeduction ? "Edit Deduction" : "Add Deduction"}</DialogTitle>
+            <DialogDescription>
+              A percentage of gross pay, a fixed amount, or both
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="deduction_name">Name</Label>
+              <Input
+                id="deduction_name"
+                placeholder="e.g. NSSF"
+                value={deductionForm.name}
+                onChange={(e) => setDeductionForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="deduction_rate">Rate (%)</Label>
+                <Input
+                  id="deduction_rate"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={deductionForm.rate}
+                  onChange={(e) => setDeductionForm(prev => ({ ...prev, rate: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deduction_fixed">Fixed Amount</Label>
+                <Input
+                  id="deduction_fixed"
+                  type="number"
+                  min="0"
+                  value={deductionForm.fixed_amount}
+                  onChange={(e) => setDeductionForm(prev => ({ ...prev, fixed_amount: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="deduction_active">Active</Label>
+              <Switch
+                id="deduction_active"
+                checked={deductionForm.is_active}
+                onCheckedChange={(checked) => setDeductionForm(prev => ({ ...prev, is_active: checked }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeductionOpen(false)}>Cancel</Button>
+            <Button onClick={handleSaveDeduction}>Save</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <PayslipDialog
+        isOpen={!!payslipLine}
+        onClose={() => setPayslipLine(null)}
+        line={payslipLine}
+        periodStart={`${month}-01`}
+      />
+    </div>
+  );
+}
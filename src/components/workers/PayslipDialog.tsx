@@ -0,0 +1,187 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import greatNaturalsLogo from "@/assets/great-naturals-logo.jpg";
+import { formatCurrency } from "@/lib/utils";
+import { getPaymentMethodLabel } from "@/utils/payments";
+import { PayrollLine, PayrollPayment, fetchPayrollPayments } from "@/utils/payroll";
+import { PayslipRepayment, fetchPayslipRepayments } from "@/utils/staffAdvances";
+
+interface PayslipDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  line: PayrollLine | null;
+  /** yyyy-mm-dd, first day of the pay period */
+  periodStart: string;
+}
+
+export function PayslipDialog({ isOpen, onClose, line, periodStart }: PayslipDialogProps) {
+  const [payments, setPayments] = useState<PayrollPayment[]>([]);
+  const [repayments, setRepayments] = useState<PayslipRepayment[]>([]);
+
+  useEffect(() => {
+    if (line && isOpen) {
+      loadPayments();
+    }
+  }, [line, isOpen]);
+
+  const loadPayments = async () => {
+    if (!line) return;
+
+    try {
+      const [paymentData, repaymentData] = await Promise.all([
+        fetchPayrollPayments(line.id),
+        fetchPayslipRepayments(line.id),
+      ]);
+      setPayments(paymentData);
+      setRepayments(repaymentData);
+    } catch (error) {
+      console.error("Error fetching payslip payments:", error);
+      setPayments([]);
+      setRepayments([]);
+    }
+  };
+
+  const handlePrint = () => {
+    window.print();
+  };
+
+  if (!line) return null;
+
+  const period = new Date(`${periodStart}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  const earnings = [
+    {
+      label: line.payment_type === 'monthly' && Number(line.attendance_ratio) < 1
+        ? `Salary (${Math.round(Number(line.attendance_ratio) * 100)}% attendance)`
+        : "Salary",
+      amount: Number(line.base_salary),
+    },
+    { label: `Commission (${line.services_count} services)`, amount: Number(line.commission) },
+    { label: "Tips", amount: Number(line.tips) },
+    { label: "Bonus", amount: Number(line.bonus) },
+  ].filter(item => item.amount !== 0);
+  const balance = Number(line.net_pay) - Number(line.amount_paid);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="text-center space-y-2">
+          <img
+            src={greatNaturalsLogo}
+            alt="Great Naturals"
+            className="mx-auto h-24 w-auto object-contain"
+          />
+          <DialogTitle className="text-2xl font-bold text-center text-gray-800">Payslip</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4 print:text-black">
+          <div className="text-center space-y-2">
+            <h2 className="text-2xl font-bold text-primary tracking-wide">GREAT NATURALS</h2>
+            <p className="text-sm text-muted-foreground font-medium">Pay period: {period}</p>
+          </div>
+
+          <div className="border-t border-b py-4 space-y-2">
+            <div className="flex justify-between">
+              <span className="font-medium">Employee:</span>
+              <span>{line.worker_name}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">Role:</span>
+              <span>{line.worker_role}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="font-medium">Pay Type:</span>
+              <span className="capitalize">{line.payment_type}</span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="font-medium">Earnings:</h3>
+            {earnings.map(item => (
+              <div key={item.label} className="flex justify-between text-sm">
+                <span>{item.label}</span>
+                <span>{formatCurrency(item.amount)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-medium border-t pt-2">
+              <span>Gross Pay</span>
+              <span>{formatCurrency(Number(line.gross_pay))}</span>
+            </div>
+          </div>
+
+          {(line.deductions.length > 0 || Number(line.advances) > 0) && (
+            <div className="space-y-2">
+              <h3 className="font-medium">Deductions:</h3>
+              {line.deductions.map(deduction => (
+                <div key={deduction.name} className="flex justify-between text-sm">
+                  <span>
+                    {deduction.name}
+                    {Number(deduction.rate) > 0 && ` (${deduction.rate}%)`}
+                  </span>
+                  <span>-{formatCurrency(Number(deduction.amount))}</span>
+                </div>
+              ))}
+              {repayments.map(repayment => (
+                <div key={repayment.id} className="flex justify-between text-sm">
+                  <span>
+                    {repayment.staff_advances?.kind === 'loan' ? 'Loan' : 'Advance'} repayment
+                    {repayment.staff_advances && ` (${formatCurrency(Number(repayment.staff_advances.amount))} from ${new Date(`${repayment.staff_advances.issued_on}T00:00:00`).toLocaleDateString()})`}
+                  </span>
+                  <span>-{formatCurrency(Number(repayment.amount))}</span>
+                </div>
+              ))}
+              {Number(line.advances) > 0 && repayments.length === 0 && (
+                <div className="flex justify-between text-sm">
+                  <span>Advances</span>
+                  <span>-{formatCurrency(Number(line.advances))}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="border-t pt-4">
+            <div className="flex justify-between text-lg font-bold">
+              <span>Net Pay:</span>
+              <span>{formatCurrency(Number(line.net_pay))}</span>
+            </div>
+          </div>
+
+          {payments.length > 0 && (
+            <div className="space-y-2 border-t pt-4">
+              <h3 className="font-medium">Paid:</h3>
+              {payments.map(payment => (
+                <div key={payment.id} className="flex justify-between text-sm">
+                  <span>
+                    {new Date(payment.created_at).toLocaleDateString()} · {getPaymentMethodLabel(payment.payment_method)}
+                    {payment.reference_number && ` (${payment.reference_number})`}
+                  </span>
+                  <span>{formatCurrency(Number(payment.amount))}</span>
+                </div>
+              ))}
+              <div className="flex justify-between font-medium">
+                <span>Balance Due</span>
+                <span>{formatCurrency(balance)}</span>
+              </div>
+            </div>
+          )}
+
+          {line.notes && (
+            <p className="text-sm text-muted-foreground border-t pt-4">{line.notes}</p>
+          )}
+
+          <div className="text-center text-xs text-muted-foreground space-y-1 border-t pt-4">
+            <p>Issued {new Date().toLocaleDateString()}</p>
+          </div>
+        </div>
+
+        <div className="flex justify-center pt-4">
+          <Button onClick={handlePrint} className="flex items-center space-x-2">
+            <Printer className="h-4 w-4" />
+            <span>Print Payslip</span>
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,395 @@
+import { useState, useEffect, useCallback } from "react";
+import { Check, HandCoins, Plus, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  AdvanceKind,
+  AdvanceStatus,
+  StaffAdvance,
+  fetchStaffAdvances,
+  getAdvanceBalance,
+  requestStaffAdvance,
+  setStaffAdvanceApproved,
+} from "@/utils/staffAdvances";
+
+interface WorkerAdvancesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worker: { id: string; name: string } | null;
+  /** Approve and reject requests (admins) */
+  canApprove: boolean;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Advances are usually repaid from the next payroll
+const nextMonth = () => {
+  const date = new Date();
+  date.setDate(1);
+  date.setMonth(date.getMonth() + 1);
+  return date.toISOString().slice(0, 7);
+};
+
+const emptyAdvanceForm = () => ({
+  kind: "advance" as AdvanceKind,
+  amount: "",
+  issued_on: today(),
+  installment_amount: "",
+  first_deduction_month: nextMonth(),
+  reason: "",
+});
+
+const formatMonth = (dateString: string) =>
+  new Date(`${dateString.slice(0, 7)}-01T00:00:00`).toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+
+const getStatusBadge = (status: AdvanceStatus, outstanding: number) => {
+  if (status === 'approved' && outstanding <= 0) {
+    return <Badge className="bg-green-100 text-green-800 border-green-200">Repaid</Badge>;
+  }
+  if (status === 'approved') {
+    return <Badge className="bg-blue-100 text-blue-800 border-blue-200">Repaying</Badge>;
+  }
+  if (status === 'rejected') {
+    return <Badge variant="secondary">Rejected</Badge>;
+  }
+  return <Badge className="bg-amber-100 text-amber-800 border-amber-200">Pending approval</Badge>;
+};
+
+export function WorkerAdvancesDialog({ isOpen, onClose, worker, canApprove }: WorkerAdvancesDialogProps) {
+  const [advances, setAdvances] = useState<StaffAdvance[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [form, setForm] = useState(emptyAdvanceForm());
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const workerId = worker?.id;
+
+  const loadAdvances = useCallback(async () => {
+    if (!workerId) return;
+    setIsLoading(true);
+    try {
+      setAdvances(await fetchStaffAdvances(workerId));
+    } catch (error) {
+      console.error("Error fetching staff advances:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load advances and loans",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workerId, toast]);
+
+  useEffect(() => {
+    if (isOpen && workerId) {
+      setForm(emptyAdvanceForm());
+      loadAdvances();
+    }
+  }, [isOpen, workerId, loadAdvances]);
+
+  const handleRequest = async () => {
+    if (!worker || !user) return;
+
+    const amount = parseFloat(form.amount);
+    const installment = parseFloat(form.installment_amount);
+
+    if (!(amount > 0) || !(installment > 0) || installment > amount) {
+      toast({
+        title: "Invalid Amount",
+        description: "Enter the amount and a monthly installment that isn't more than it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!form.issued_on || !form.first_deduction_month) {
+      toast({
+        title: "Validation Error",
+        description: "Enter the date it was given and the first month to repay from",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await requestStaffAdvance({
+        workerId: worker.id,
+        kind: form.kind,
+        amount,
+        issuedOn: form.issued_on,
+        installmentAmount: installment,
+        firstDeductionMonth: form.first_deduction_month,
+        reason: secureInput.string(form.reason.trim()),
+        createdBy: user.id,
+      });
+
+      toast({
+        title: "Request Recorded",
+        description: `${formatCurrency(amount)} ${form.kind} for ${worker.name} is waiting for approval`,
+      });
+      setForm(emptyAdvanceForm());
+      loadAdvances();
+    } catch (error) {
+      console.error("Error recording staff advance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record the advance",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleApprove = async (advance: StaffAdvance, approve: boolean) => {
+    setIsSaving(true);
+    try {
+      const result = await setStaffAdvanceApproved(advance.id, approve);
+
+      if (!result.success) {
+        toast({
+          title: "Error",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: approve ? "Approved" : "Rejected",
+        description: result.message,
+      });
+      loadAdvances();
+    } catch (error) {
+      console.error("Error updating staff advance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to update the advance",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const balances = advances.map(advance => ({ advance, balance: getAdvanceBalance(advance) }));
+  const totalOutstanding = balances.reduce((sum, { balance }) => sum + balance.outstanding, 0);
+  const totalScheduled = balances.reduce((sum, { balance }) => sum + balance.scheduled, 0);
+  const installments = Number(form.amount) > 0 && Number(form.installment_amount) > 0
+    ? Math.ceil(Number(form.amount) / Number(form.installment_amount))
+    : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="w-[95vw] max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <HandCoins className="h-5 w-5 text-emerald-600" />
+            Advances & Loans{worker ? ` · ${worker.name}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            Approved advances and loans are repaid automatically from each month's payroll
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-3 text-center">
+              <div className="rounded-lg bg-amber-50 p-3">
+                <div className="text-xs text-muted-foreground">Outstanding</div>
+                <div className="font-semibold text-amber-700">{formatCurrency(totalOutstanding)}</div>
+              </div>
+              <div className="rounded-lg bg-blue-50 p-3">
+                <div className="text-xs text-muted-foreground">On draft payroll</div>
+                <div className="font-semibold text-blue-700">{formatCurrency(totalScheduled)}</div>
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Given</TableHead>
+                  <TableHead>Amount</TableHead>
+                  <TableHead>Repayment</TableHead>
+                  <TableHead>Repaid</TableHead>
+                  <TableHead>Outstanding</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canApprove && <TableHead>Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {balances.map(({ advance, balance }) => (
+                  <TableRow key={advance.id}>
+                    <TableCell>
+                      <div className="font-medium">{new Date(`${advance.issued_on}T00:00:00`).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground capitalize">
+                        {advance.kind}{advance.reason ? ` · ${advance.reason}` : ''}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatCurrency(Number(advance.amount))}</TableCell>
+                    <TableCell>
+                      {formatCurrency(Number(advance.installment_amount))}/month
+                      <div className="text-xs text-muted-foreground">from {formatMonth(advance.first_deduction_month)}</div>
+                    </TableCell>
+                    <TableCell>
+                      {formatCurrency(balance.repaid)}
+                      {balance.scheduled > 0 && (
+                        <div className="text-xs text-blue-600">+{formatCurrency(balance.scheduled)} on draft payroll</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {advance.status === 'approved' ? formatCurrency(balance.outstanding) : '-'}
+                      {balance.installments_left > 0 && (
+                        <div className="text-xs text-muted-foreground">
+                          {balance.installments_left} installment{balance.installments_left !== 1 ? 's' : ''} left
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{getStatusBadge(advance.status, balance.outstanding)}</TableCell>
+                    {canApprove && (
+                      <TableCell>
+                        {advance.status === 'pending' && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleApprove(advance, true)}
+                              disabled={isSaving}
+                              className="text-green-600 hover:text-green-700 hover:bg-green-50"
+                              title="Approve"
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => handleApprove(advance, false)}
+                              disabled={isSaving}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                              title="Reject"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+                {advances.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={canApprove ? 7 : 6} className="text-center py-6 text-muted-foreground">
+                      No advances or loans recorded
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+
+            <div className="space-y-4 rounded-lg border p-4">
+              <h4 className="font-medium">New Advance or Loan</h4>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label>Type</Label>
+                  <Select
+                    value={form.kind}
+                    onValueChange={(value) => setForm(prev => ({ ...prev, kind: value as AdvanceKind }))}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="advance">Salary advance</SelectItem>
+                      <SelectItem value="loan">Staff loan</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="advance_amount">Amount</Label>
+                  <Input
+                    id="advance_amount"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.amount}
+                    onChange={(e) => setForm(prev => ({
+                      ...prev,
+                      amount: e.target.value,
+                      // An advance is normally repaid in full from the next payslip
+                      installment_amount: prev.kind === 'advance' ? e.target.value : prev.installment_amount,
+                    }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="advance_issued_on">Given On</Label>
+                  <Input
+                    id="advance_issued_on"
+                    type="date"
+                    value={form.issued_on}
+                    onChange={(e) => setForm(prev => ({ ...prev, issued_on: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="advance_installment">Monthly Installment</Label>
+                  <Input
+                    id="advance_installment"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={form.installment_amount}
+                    onChange={(e) => setForm(prev => ({ ...prev, installment_amount: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="advance_first_month">Repay From</Label>
+                  <Input
+                    id="advance_first_month"
+                    type="month"
+                    value={form.first_deduction_month}
+                    onChange={(e) => setForm(prev => ({ ...prev, first_deduction_month: e.target.value }))}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="advance_reason">Reason</Label>
+                  <Input
+                    id="advance_reason"
+                    value={form.reason}
+                    placeholder="Optional"
+                    onChange={(e) => setForm(prev => ({ ...prev, reason: e.target.value }))}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center justify-between gap-4">
+                <p className="text-sm text-muted-foreground">
+                  {installments > 0 && form.first_deduction_month
+                    ? `${installments} monthly installment${installments !== 1 ? 's' : ''} from ${formatMonth(form.first_deduction_month)}`
+                    : 'Installments are deducted from payroll once approved'}
+                </p>
+                <Button onClick={handleRequest} disabled={isSaving}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  {isSaving ? "Saving..." : "Submit for Approval"}
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,586 @@
+import { useState, useEffect, useCallback } from "react";
+import { CalendarClock, CalendarOff, Clock, Plus, Save, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import { secureInput } from "@/utils/security";
+
+interface WorkerScheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  worker: { id: string; name: string } | null;
+}
+
+interface WeeklyScheduleDay {
+  day_of_week: number;
+  is_working_day: boolean;
+  start_time: string;
+  end_time: string;
+}
+
+interface ScheduleOverride {
+  id: string;
+  date: string;
+  is_working_day: boolean;
+  start_time: string | null;
+  end_time: string | null;
+  notes: string | null;
+}
+
+interface TimeOff {
+  id: string;
+  start_date: string;
+  end_date: string;
+  type: string;
+  reason: string | null;
+}
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Display the week starting on Monday
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const DEFAULT_START = '09:00';
+const DEFAULT_END = '18:00';
+
+const defaultWeek = (): WeeklyScheduleDay[] =>
+  DAY_ORDER.map(day => ({
+    day_of_week: day,
+    is_working_day: day !== 0,
+    start_time: DEFAULT_START,
+    end_time: DEFAULT_END,
+  }));
+
+// Postgres TIME comes back as HH:MM:SS
+const toInputTime = (value: string | null) => (value ? value.slice(0, 5) : '');
+
+const formatDate = (dateString: string) =>
+  new Date(`${dateString}T00:00:00`).toLocaleDateString('en-US', {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+
+export function WorkerScheduleDialog({ isOpen, onClose, worker }: WorkerScheduleDialogProps) {
+  const [weeklySchedule, setWeeklySchedule] = useState<WeeklyScheduleDay[]>(defaultWeek());
+  const [hasSchedule, setHasSchedule] = useState(false);
+  const [overrides, setOverrides] = useState<ScheduleOverride[]>([]);
+  const [timeOff, setTimeOff] = useState<TimeOff[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [overrideForm, setOverrideForm] = useState({
+    date: '',
+    is_working_day: false,
+    start_time: DEFAULT_START,
+    end_time: DEFAULT_END,
+    notes: '',
+  });
+  const [timeOffForm, setTimeOffForm] = useState({
+    start_date: '',
+    end_date: '',
+    type: 'vacation',
+    reason: '',
+  });
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const workerId = worker?.id;
+
+  const fetchSchedule = useCallback(async () => {
+    if (!workerId) return;
+    setIsLoading(true);
+    try {
+      const today = new Date().toISOString().split('T')[0];
+      const [scheduleResponse, overridesResponse, timeOffResponse] = await Promise.all([
+        supabase.from("worker_schedules").select("*").eq("worker_id", workerId),
+        supabase
+          .from("worker_schedule_overrides")
+          .select("*")
+          .eq("worker_id", workerId)
+          .gte("date", today)
+          .order("date"),
+        supabase
+          .from("worker_time_off")
+          .select("*")
+          .eq("worker_id", workerId)
+          .gte("end_date", today)
+          .order("start_date"),
+      ]);
+
+      if (scheduleResponse.error) throw scheduleResponse.error;
+      if (overridesResponse.error) throw overridesResponse.error;
+      if (timeOffResponse.error) throw timeOffResponse.error;
+
+      const saved = scheduleResponse.data || [];
+      setHasSchedule(saved.length > 0);
+      setWeeklySchedule(defaultWeek().map(day => {
+        const row = saved.find(s => s.day_of_week === day.day_of_week);
+        return row
+          ? {
+              day_of_week: row.day_of_week,
+              is_working_day: row.is_working_day,
+              start_time: toInputTime(row.start_time),
+              end_time: toInputTime(row.end_time),
+            }
+          : day;
+      }));
+      setOverrides(overridesResponse.data || []);
+      setTimeOff(timeOffResponse.data || []);
+    } catch (error) {
+      console.error("Error fetching worker schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load worker schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workerId, toast]);
+
+  useEffect(() => {
+    if (isOpen && workerId) {
+      fetchSchedule();
+    }
+  }, [isOpen, workerId, fetchSchedule]);
+
+  const updateDay = (dayOfWeek: number, field: keyof WeeklyScheduleDay, value: string | boolean) => {
+    setWeeklySchedule(prev => prev.map(day =>
+      day.day_of_week === dayOfWeek ? { ...day, [field]: value } : day
+    ));
+  };
+
+  const saveWeeklySchedule = async () => {
+    if (!worker || !user) return;
+
+    const invalidDay = weeklySchedule.find(day => day.is_working_day && day.end_time <= day.start_time);
+    if (invalidDay) {
+      toast({
+        title: "Validation Error",
+        description: `${DAY_NAMES[invalidDay.day_of_week]}: end time must be after start time`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase
+        .from("worker_schedules")
+        .upsert(
+          weeklySchedule.map(day => ({
+            worker_id: worker.id,
+            day_of_week: day.day_of_week,
+            is_working_day: day.is_working_day,
+            start_time: day.start_time || DEFAULT_START,
+            end_time: day.end_time || DEFAULT_END,
+            created_by: user.id,
+          })),
+          { onConflict: 'worker_id,day_of_week' }
+        );
+
+      if (error) throw error;
+      setHasSchedule(true);
+      toast({ title: "Success", description: `Weekly schedule saved for ${worker.name}` });
+    } catch (error) {
+      console.error("Error saving weekly schedule:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save weekly schedule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const addOverride = async () => {
+    if (!worker || !user) return;
+    if (!overrideForm.date) {
+      toast({ title: "Validation Error", description: "Please choose a date", variant: "destructive" });
+      return;
+    }
+    if (overrideForm.is_working_day && overrideForm.end_time <= overrideForm.start_time) {
+      toast({ title: "Validation Error", description: "End time must be after start time", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("worker_schedule_overrides")
+        .upsert({
+          worker_id: worker.id,
+          date: overrideForm.date,
+          is_working_day: overrideForm.is_working_day,
+          start_time: overrideForm.is_working_day ? overrideForm.start_time : null,
+          end_time: overrideForm.is_working_day ? overrideForm.end_time : null,
+          notes: overrideForm.notes ? secureInput.string(overrideForm.notes) : null,
+          created_by: user.id,
+        }, { onConflict: 'worker_id,date' });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Date override saved" });
+      setOverrideForm({ date: '', is_working_day: false, start_time: DEFAULT_START, end_time: DEFAULT_END, notes: '' });
+      fetchSchedule();
+    } catch (error) {
+      console.error("Error saving schedule override:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save date override",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteOverride = async (id: string) => {
+    try {
+      const { error } = await supabase.from("worker_schedule_overrides").delete().eq("id", id);
+      if (error) throw error;
+      setOverrides(prev => prev.filter(o => o.id !== id));
+    } catch (error) {
+      console.error("Error deleting schedule override:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete date override",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const addTimeOff = async () => {
+    if (!worker || !user) return;
+    if (!timeOffForm.start_date || !timeOffForm.end_date) {
+      toast({ title: "Validation Error", description: "Please choose start and end dates", variant: "destructive" });
+      return;
+    }
+    if (timeOffForm.end_date < timeOffForm.start_date) {
+      toast({ title: "Validation Error", description: "End date must be on or after start date", variant: "destructive" });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from("worker_time_off")
+        .insert({
+          worker_id: worker.id,
+          start_date: timeOffForm.start_date,
+          end_date: timeOffForm.end_date,
+          type: timeOffForm.type,
+          reason: timeOffForm.reason ? secureInput.string(timeOffForm.reason) : null,
+          created_by: user.id,
+        });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Time off recorded" });
+      setTimeOffForm({ start_date: '', end_date: '', type: 'vacation', reason: '' });
+      fetchSchedule();
+    } catch (error) {
+      console.error("Error saving time off:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record time off",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteTimeOff = async (id: string) => {
+    try {
+      const { error } = await supabase.from("worker_time_off").delete().eq("id", id);
+      if (error) throw error;
+      setTimeOff(prev => prev.filter(t => t.id !== id));
+    } catch (error) {
+      console.error("Error deleting time off:", error);
+      toast({
+        title: "Error",
+        description: "Failed to delete time off",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-emerald-800">
+            <CalendarClock className="h-5 w-5" />
+            {worker?.name} - Schedule & Availability
+          </DialogTitle>
+          <DialogDescription>
+            Weekly working hours, one-off date changes and time off. Only scheduled, free staff are offered when booking services.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-600"></div>
+          </div>
+        ) : (
+          <Tabs defaultValue="weekly" className="space-y-4">
+            <TabsList className="grid w-full grid-cols-3">
+              <TabsTrigger value="weekly">Weekly Hours</TabsTrigger>
+              <TabsTrigger value="overrides">Date Overrides ({overrides.length})</TabsTrigger>
+              <TabsTrigger value="time-off">Time Off ({timeOff.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="weekly" className="space-y-4">
+              {!hasSchedule && (
+                <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+                  No schedule saved yet. This worker is offered for bookings at any time until a weekly schedule is saved.
+                </div>
+              )}
+              <div className="space-y-2">
+                {weeklySchedule.map(day => (
+                  <div key={day.day_of_week} className="grid grid-cols-12 items-center gap-3 rounded-lg border border-emerald-100 p-3">
+                    <div className="col-span-3 font-medium text-gray-900">{DAY_NAMES[day.day_of_week]}</div>
+                    <div className="col-span-3 flex items-center gap-2">
+                      <Switch
+                        checked={day.is_working_day}
+                        onCheckedChange={(checked) => updateDay(day.day_of_week, 'is_working_day', checked)}
+                      />
+                      <span className="text-sm text-gray-600">{day.is_working_day ? 'Working' : 'Off'}</span>
+                    </div>
+                    <div className="col-span-3">
+                      <Input
+                        type="time"
+                        value={day.start_time}
+                        disabled={!day.is_working_day}
+                        onChange={(e) => updateDay(day.day_of_week, 'start_time', e.target.value)}
+                      />
+                    </div>
+                    <div className="col-span-3">
+                      <Input
+                        type="time"
+                        value={day.end_time}
+                        disabled={!day.is_working_day}
+                        onChange={(e) => updateDay(day.day_of_week, 'end_time', e.target.value)}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={saveWeeklySchedule}
+                  disabled={isSaving}
+                  className="bg-gradient-to-r from-emerald-600 to-teal-600 hover:from-emerald-700 hover:to-teal-700 text-white"
+                >
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSaving ? 'Saving...' : 'Save Weekly Schedule'}
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="overrides" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 rounded-lg border border-emerald-100 p-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="override_date">Date *</Label>
+                  <Input
+                    id="override_date"
+                    type="date"
+                    value={overrideForm.date}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, date: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-end gap-2 pb-2">
+                  <Switch
+                    checked={overrideForm.is_working_day}
+                    onCheckedChange={(checked) => setOverrideForm({ ...overrideForm, is_working_day: checked })}
+                  />
+                  <span className="text-sm text-gray-600">
+                    {overrideForm.is_working_day ? 'Working (custom hours)' : 'Day off'}
+                  </span>
+                </div>
+                {overrideForm.is_working_day && (
+                  <>
+                    <div className="grid gap-2">
+                      <Label htmlFor="override_start">Start Time</Label>
+                      <Input
+                        id="override_start"
+                        type="time"
+                        value={overrideForm.start_time}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, start_time: e.target.value })}
+                      />
+                    </div>
+                    <div className="grid gap-2">
+                      <Label htmlFor="override_end">End Time</Label>
+                      <Input
+                        id="override_end"
+                        type="time"
+                        value={overrideForm.end_time}
+                        onChange={(e) => setOverrideForm({ ...overrideForm, end_time: e.target.value })}
+                      />
+                    </div>
+                  </>
+                )}
+                <div className="col-span-2 grid gap-2">
+                  <Label htmlFor="override_notes">Notes</Label>
+                  <Input
+                    id="override_notes"
+                    value={overrideForm.notes}
+                    onChange={(e) => setOverrideForm({ ...overrideForm, notes: e.target.value })}
+                    placeholder="e.g. Public holiday, late start"
+                  />
+                </div>
+                <div className="col-span-2 flex justify-end">
+                  <Button onClick={addOverride} variant="outline" className="border-emerald-200 text-emerald-700 hover:bg-emerald-50">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Save Override
+                  </Button>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map(override => (
+                    <TableRow key={override.id}>
+                      <TableCell className="font-medium">{formatDate(override.date)}</TableCell>
+                      <TableCell>
+                        {override.is_working_day ? (
+                          <Badge className="bg-emerald-100 text-emerald-800 border-emerald-200">
+                            <Clock className="h-3 w-3 mr-1" />
+                            {toInputTime(override.start_time)} - {toInputTime(override.end_time)}
+                          </Badge>
+                        ) : (
+                          <Badge className="bg-gray-100 text-gray-700 border-gray-200">Day off</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{override.notes || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteOverride(override.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {overrides.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                        No upcoming date overrides
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+
+            <TabsContent value="time-off" className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 rounded-lg border border-emerald-100 p-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="time_off_start">Start Date *</Label>
+                  <Input
+                    id="time_off_start"
+                    type="date"
+                    value={timeOffForm.start_date}
+                    onChange={(e) => setTimeOffForm({ ...timeOffForm, start_date: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="time_off_end">End Date *</Label>
+                  <Input
+                    id="time_off_end"
+                    type="date"
+                    value={timeOffForm.end_date}
+                    onChange={(e) => setTimeOffForm({ ...timeOffForm, end_date: e.target.value })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label>Type</Label>
+                  <Select value={timeOffForm.type} onValueChange={(value) => setTimeOffForm({ ...timeOffForm, type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="vacation">Vacation</SelectItem>
+                      <SelectItem value="sick">Sick Leave</SelectItem>
+                      <SelectItem value="personal">Personal</SelectItem>
+                      <SelectItem value="other">Other</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="time_off_reason">Reason</Label>
+                  <Input
+                    id="time_off_reason"
+                    value={timeOffForm.reason}
+                    onChange={(e) => setTimeOffForm({ ...timeOffForm, reason: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2 flex justify-end">
+                  <Button onClick={addTimeOff} variant="outline" className="border-emerald-200 text-emerald-700 hover:bg-emerald-50">
+                    <CalendarOff className="h-4 w-4 mr-2" />
+                    Add Time Off
+                  </Button>
+                </div>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>From</TableHead>
+                    <TableHead>To</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {timeOff.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-medium">{formatDate(entry.start_date)}</TableCell>
+                      <TableCell>{formatDate(entry.end_date)}</TableCell>
+                      <TableCell>
+                        <Badge className="bg-orange-100 text-orange-800 border-orange-200 capitalize">{entry.type}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-gray-600">{entry.reason || '-'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteTimeOff(entry.id)}
+                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  {timeOff.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        No upcoming time off
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </TabsContent>
+          </Tabs>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
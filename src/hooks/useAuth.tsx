@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from "react";
 import { User, Session, AuthError, PostgrestError } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
+import { fetchMyAccess } from "@/utils/roles";
 
 export interface Profile {
   id: string;
@@ -12,6 +13,12 @@ export interface Profile {
   updated_at: string;
   is_active?: boolean;
   access_level?: 'full' | 'restricted' | 'banned';
+  role_id?: string | null;
+  role_key?: string;
+  role_name?: string;
+  all_features?: boolean;
+  /** Granted feature keys; undefined until the role has been loaded */
+  features?: string[];
 }
 
 interface UserMetadata {
@@ -44,6 +51,17 @@ const handleSupabaseError = (error: PostgrestError | AuthError | null, operation
   return false;
 };
 
+// Attach the role's feature grants to a profile row
+const withAccess = async <T extends object>(profile: T): Promise<T> => {
+  try {
+    const access = await fetchMyAccess();
+    return { ...profile, ...access };
+  } catch (error) {
+    console.error('Error fetching role access:', error);
+    return profile;
+  }
+};
+
 // Utility function to wait with timeout
 const wait = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
 
@@ -79,7 +97,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
         if (handleSupabaseError(error, 'Profile creation')) {
           console.log('Profile created successfully:', data);
-          return data;
+          return withAccess(data);
         }
 
         // If it's a unique constraint violation, profile might already exist
@@ -122,7 +140,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
         if (!error && data) {
           console.log('Profile fetched successfully:', data);
-          return data;
+          return withAccess(data);
         }
 
         if (error?.code === 'PGRST116') {
@@ -295,6 +313,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         is_active: is_active !== undefined ? is_active : prev.is_active,
         updated_at: updated_at || prev.updated_at
       } : null);
+
+      // The role or its grants may have changed as well
+      try {
+        const access = await fetchMyAccess();
+        setProfile(prev => prev ? { ...prev, ...access } : null);
+      } catch (error) {
+        console.error('Error refreshing role access:', error);
+      }
       
       console.log('Profile updated via real-time permissions:', { role, access_level, is_active });
     };
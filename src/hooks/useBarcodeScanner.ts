@@ -0,0 +1,45 @@
+import { useEffect, useRef } from 'react';
+
+// USB scanners act as keyboards but type far faster than a person
+const MAX_KEY_INTERVAL_MS = 50;
+const MIN_CODE_LENGTH = 4;
+
+/**
+ * Listens for USB (keyboard wedge) barcode scanners anywhere on the page. Keystrokes typed into
+ * form fields are left alone, so searches and forms keep working while the hook is enabled.
+ */
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) {
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyAt > MAX_KEY_INTERVAL_MS) buffer = '';
+      lastKeyAt = now;
+
+      if (event.key === 'Enter') {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,80 @@
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from "react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { Branch, fetchBranchScope, fetchBranches, setBranchScope } from "@/utils/branches";
+
+interface BranchContextType {
+  branches: Branch[];
+  /** The branch the user is working in; null means all of their branches */
+  currentBranchId: string | null;
+  currentBranch: Branch | null;
+  isLoading: boolean;
+  switchBranch: (branchId: string | null) => Promise<void>;
+  refreshBranches: () => Promise<void>;
+}
+
+const BranchContext = createContext<BranchContextType | undefined>(undefined);
+
+export function BranchProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [branches, setBranches] = useState<Branch[]>([]);
+  const [currentBranchId, setCurrentBranchId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refreshBranches = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const [branchList, scope] = await Promise.all([fetchBranches(), fetchBranchScope(user.id)]);
+      setBranches(branchList);
+      setCurrentBranchId(scope);
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshBranches();
+  }, [refreshBranches]);
+
+  const switchBranch = async (branchId: string | null) => {
+    try {
+      const result = await setBranchScope(branchId);
+      if (!result.success) throw new Error(result.error || result.message);
+      setCurrentBranchId(branchId);
+    } catch (error) {
+      console.error('Error switching branch:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to switch branch",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const value = {
+    branches,
+    currentBranchId,
+    currentBranch: branches.find(branch => branch.id === currentBranchId) || null,
+    isLoading,
+    switchBranch,
+    refreshBranches,
+  };
+
+  return (
+    <BranchContext.Provider value={value}>
+      {children}
+    </BranchContext.Provider>
+  );
+}
+
+export function useBranch() {
+  const context = useContext(BranchContext);
+  if (context === undefined) {
+    throw new Error("useBranch must be used within a BranchProvider");
+  }
+  return context;
+}
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useAuth } from './useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from './use-toast';
+import { canAccessFeature } from '@/utils/permissions';
 
 interface UserPermissions {
   role: 'admin' | 'user';
@@ -86,24 +87,8 @@ export function useRealtimePermissions() {
     if (!permissions?.is_active) return false;
     if (permissions.access_level === 'banned') return false;
     
-    // Admin can access everything
-    if (permissions.role === 'admin') return true;
-    
-    // Define feature permissions for regular users
-    const featurePermissions: { [key: string]: string[] } = {
-      'dashboard': ['full', 'restricted', 'basic'],
-      'inventory': ['full', 'restricted', 'basic'],
-      'customers': ['full', 'restricted', 'basic'],
-      'services': ['full', 'restricted', 'basic'],
-      'workers': ['full', 'restricted'],
-      'alerts': ['full', 'restricted', 'basic'],
-      'admin': ['full'], // Only full access users can access admin
-      'reports': ['full'],
-      'settings': ['full']
-    };
-
-    const allowedLevels = featurePermissions[feature] || ['full'];
-    return allowedLevels.includes(permissions.access_level);
+    // The same role grants the route guards and RLS policies use
+    return canAccessFeature(profile, feature);
   };
 
   // Handle permission changes
@@ -271,6 +256,31 @@ export function useRealtimePermissions() {
     };
   }, [user, signOut, toast]);
 
+  // Edits to role grants apply without signing out
+  useEffect(() => {
+    if (!user || !profile?.role_id) return;
+
+    const channel = supabase
+      .channel('role_permission_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'role_permissions',
+          filter: `role_id=eq.${profile.role_id}`
+        },
+        () => {
+          window.dispatchEvent(new CustomEvent('profileUpdated', { detail: {} }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, profile?.role_id]);
+
   // Test function to manually trigger a profile update
   const testProfileUpdate = async () => {
     if (!user) return;
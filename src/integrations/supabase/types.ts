@@ -16,6 +16,7 @@ export type Database = {
     Tables: {
       alerts: {
         Row: {
+          branch_id: string
           created_at: string
           entity_id: string | null
           entity_type: string | null
@@ -28,6 +29,7 @@ export type Database = {
           type: string
         }
         Insert: {
+          branch_id?: string
           created_at?: string
           entity_id?: string | null
           entity_type?: string | null
@@ -40,6 +42,7 @@ export type Database = {
           type: string
         }
         Update: {
+          branch_id?: string
           created_at?: string
           entity_id?: string | null
           entity_type?: string | null
@@ -53,8 +56,406 @@ export type Database = {
         }
         Relationships: []
       }
+      app_features: {
+        Row: {
+          description: string | null
+          key: string
+          label: string
+          sort_order: number
+        }
+        Insert: {
+          description?: string | null
+          key: string
+          label: string
+          sort_order?: number
+        }
+        Update: {
+          description?: string | null
+          key?: string
+          label?: string
+          sort_order?: number
+        }
+        Relationships: []
+      }
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          reason: string | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          reason?: string | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          reason?: string | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      branches: {
+        Row: {
+          address: string | null
+          code: string
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          code: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          code?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      cash_drawer_sessions: {
+        Row: {
+          branch_id: string
+          closed_at: string | null
+          closed_by: string | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_float: number
+          status: string
+          variance: number | null
+          z_report: Json | null
+        }
+        Insert: {
+          branch_id?: string
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by: string
+          opening_float?: number
+          status?: string
+          variance?: number | null
+          z_report?: Json | null
+        }
+        Update: {
+          branch_id?: string
+          closed_at?: string | null
+          closed_by?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string
+          opening_float?: number
+          status?: string
+          variance?: number | null
+          z_report?: Json | null
+        }
+        Relationships: []
+      }
+      commission_ledger: {
+        Row: {
+          amount: number
+          base_amount: number
+          basis: string
+          commission_rate: number
+          cost_amount: number
+          created_at: string
+          created_by: string | null
+          description: string
+          entry_type: string
+          id: string
+          rule_id: string | null
+          rule_name: string | null
+          sale_id: string | null
+          service_date: string
+          service_id: string | null
+          source: string
+          worker_id: string
+        }
+        Insert: {
+          amount: number
+          base_amount: number
+          basis?: string
+          commission_rate: number
+          cost_amount?: number
+          created_at?: string
+          created_by?: string | null
+          description: string
+          entry_type: string
+          id?: string
+          rule_id?: string | null
+          rule_name?: string | null
+          sale_id?: string | null
+          service_date: string
+          service_id?: string | null
+          source?: string
+          worker_id: string
+        }
+        Update: {
+          amount?: number
+          base_amount?: number
+          basis?: string
+          commission_rate?: number
+          cost_amount?: number
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          entry_type?: string
+          id?: string
+          rule_id?: string | null
+          rule_name?: string | null
+          sale_id?: string | null
+          service_date?: string
+          service_id?: string | null
+          source?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_ledger_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "commission_ledger_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      commission_rules: {
+        Row: {
+          applies_to: string
+          basis: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          min_monthly_revenue: number
+          name: string
+          rate: number
+          service_category: string | null
+          updated_at: string
+          worker_id: string | null
+        }
+        Insert: {
+          applies_to?: string
+          basis?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          min_monthly_revenue?: number
+          name: string
+          rate: number
+          service_category?: string | null
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Update: {
+          applies_to?: string
+          basis?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          min_monthly_revenue?: number
+          name?: string
+          rate?: number
+          service_category?: string | null
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "commission_rules_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_packages: {
+        Row: {
+          catalog_service_id: string
+          created_at: string
+          customer_id: string
+          expires_at: string | null
+          id: string
+          name: string
+          package_id: string
+          price_paid: number
+          sold_by: string | null
+          units_remaining: number
+          units_total: number
+        }
+        Insert: {
+          catalog_service_id: string
+          created_at?: string
+          customer_id: string
+          expires_at?: string | null
+          id?: string
+          name: string
+          package_id: string
+          price_paid: number
+          sold_by?: string | null
+          units_remaining: number
+          units_total: number
+        }
+        Update: {
+          catalog_service_id?: string
+          created_at?: string
+          customer_id?: string
+          expires_at?: string | null
+          id?: string
+          name?: string
+          package_id?: string
+          price_paid?: number
+          sold_by?: string | null
+          units_remaining?: number
+          units_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_packages_package_id_fkey"
+            columns: ["package_id"]
+            isOneToOne: false
+            referencedRelation: "service_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_packages_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_packages_catalog_service_id_fkey"
+            columns: ["catalog_service_id"]
+            isOneToOne: false
+            referencedRelation: "service_catalog"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_product_usage: {
+        Row: {
+          created_at: string
+          created_by: string
+          customer_id: string
+          id: string
+          inventory_item_id: string
+          quantity_used: number
+          service_id: string
+          total_cost: number
+          unit_price: number
+          used_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          customer_id: string
+          id?: string
+          inventory_item_id: string
+          quantity_used: number
+          service_id: string
+          total_cost: number
+          unit_price: number
+          used_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          customer_id?: string
+          id?: string
+          inventory_item_id?: string
+          quantity_used?: number
+          service_id?: string
+          total_cost?: number
+          unit_price?: number
+          used_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_product_usage_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_product_usage_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_product_usage_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
+          branch_id: string
           created_at: string
           created_by: string
           email: string | null
@@ -67,6 +468,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          branch_id?: string
           created_at?: string
           created_by: string
           email?: string | null
@@ -79,6 +481,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          branch_id?: string
           created_at?: string
           created_by?: string
           email?: string | null
@@ -92,6 +495,53 @@ export type Database = {
         }
         Relationships: []
       }
+      gift_vouchers: {
+        Row: {
+          balance: number
+          code: string
+          created_at: string
+          customer_id: string | null
+          expires_at: string | null
+          id: string
+          initial_value: number
+          purchaser_name: string
+          recipient_name: string | null
+          sold_by: string | null
+        }
+        Insert: {
+          balance: number
+          code: string
+          created_at?: string
+          customer_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value: number
+          purchaser_name: string
+          recipient_name?: string | null
+          sold_by?: string | null
+        }
+        Update: {
+          balance?: number
+          code?: string
+          created_at?: string
+          customer_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value?: number
+          purchaser_name?: string
+          recipient_name?: string | null
+          sold_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_vouchers_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       inventory_categories: {
         Row: {
           created_at: string
@@ -119,7 +569,9 @@ export type Database = {
       inventory_items: {
         Row: {
           barcode: string | null
+          branch_id: string
           category_id: string | null
+          cost_price: number
           created_at: string
           created_by: string
           current_stock: number
@@ -128,13 +580,17 @@ export type Database = {
           max_stock_level: number
           min_stock_level: number
           name: string
+          product_variant_id: string | null
           supplier: string | null
+          supplier_id: string | null
           unit_price: number
           updated_at: string
         }
         Insert: {
           barcode?: string | null
+          branch_id?: string
           category_id?: string | null
+          cost_price?: number
           created_at?: string
           created_by: string
           current_stock?: number
@@ -143,13 +599,17 @@ export type Database = {
           max_stock_level?: number
           min_stock_level?: number
           name: string
+          product_variant_id?: string | null
           supplier?: string | null
+          supplier_id?: string | null
           unit_price?: number
           updated_at?: string
         }
         Update: {
           barcode?: string | null
+          branch_id?: string
           category_id?: string | null
+          cost_price?: number
           created_at?: string
           created_by?: string
           current_stock?: number
@@ -158,11 +618,20 @@ export type Database = {
           max_stock_level?: number
           min_stock_level?: number
           name?: string
+          product_variant_id?: string | null
           supplier?: string | null
+          supplier_id?: string | null
           unit_price?: number
           updated_at?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "inventory_items_product_variant_id_fkey"
+            columns: ["product_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "inventory_items_category_id_fkey"
             columns: ["category_id"]
@@ -172,44 +641,177 @@ export type Database = {
           },
         ]
       }
-      inventory_transactions: {
+      inventory_lot_consumptions: {
         Row: {
           created_at: string
-          created_by: string
           id: string
-          item_id: string
+          lot_id: string
           quantity: number
-          reason: string | null
-          reference_number: string | null
-          total_amount: number | null
-          transaction_date: string
-          transaction_type: string
-          unit_price: number | null
+          transaction_id: string
         }
         Insert: {
           created_at?: string
-          created_by: string
           id?: string
-          item_id: string
+          lot_id: string
           quantity: number
-          reason?: string | null
-          reference_number?: string | null
-          total_amount?: number | null
-          transaction_date?: string
-          transaction_type: string
-          unit_price?: number | null
+          transaction_id: string
         }
         Update: {
           created_at?: string
-          created_by?: string
           id?: string
-          item_id?: string
+          lot_id?: string
           quantity?: number
-          reason?: string | null
-          reference_number?: string | null
-          total_amount?: number | null
-          transaction_date?: string
-          transaction_type?: string
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_lot_consumptions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_lot_consumptions_lot_id_fkey"
+            columns: ["lot_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_lots: {
+        Row: {
+          branch_id: string
+          created_at: string
+          created_by: string | null
+          expiry_date: string | null
+          id: string
+          item_id: string
+          lot_number: string
+          purchase_order_id: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at: string
+          unit_cost: number
+          updated_at: string
+        }
+        Insert: {
+          branch_id: string
+          created_at?: string
+          created_by?: string | null
+          expiry_date?: string | null
+          id?: string
+          item_id: string
+          lot_number: string
+          purchase_order_id?: string | null
+          quantity_received: number
+          quantity_remaining: number
+          received_at?: string
+          unit_cost?: number
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          expiry_date?: string | null
+          id?: string
+          item_id?: string
+          lot_number?: string
+          purchase_order_id?: string | null
+          quantity_received?: number
+          quantity_remaining?: number
+          received_at?: string
+          unit_cost?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_lots_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_lots_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_lots_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      inventory_transactions: {
+        Row: {
+          branch_id: string
+          cost_amount: number | null
+          created_at: string
+          created_by: string
+          expiry_date: string | null
+          id: string
+          item_id: string
+          lot_id: string | null
+          lot_number: string | null
+          purchase_order_id: string | null
+          quantity: number
+          reason: string | null
+          reference_number: string | null
+          total_amount: number | null
+          transaction_date: string
+          transaction_type: string
+          transfer_id: string | null
+          unit_cost: number | null
+          unit_price: number | null
+        }
+        Insert: {
+          branch_id?: string
+          cost_amount?: number | null
+          created_at?: string
+          created_by: string
+          expiry_date?: string | null
+          id?: string
+          item_id: string
+          lot_id?: string | null
+          lot_number?: string | null
+          purchase_order_id?: string | null
+          quantity: number
+          reason?: string | null
+          reference_number?: string | null
+          total_amount?: number | null
+          transaction_date?: string
+          transaction_type: string
+          transfer_id?: string | null
+          unit_cost?: number | null
+          unit_price?: number | null
+        }
+        Update: {
+          branch_id?: string
+          cost_amount?: number | null
+          created_at?: string
+          created_by?: string
+          expiry_date?: string | null
+          id?: string
+          item_id?: string
+          lot_id?: string | null
+          lot_number?: string | null
+          purchase_order_id?: string | null
+          quantity?: number
+          reason?: string | null
+          reference_number?: string | null
+          total_amount?: number | null
+          transaction_date?: string
+          transaction_type?: string
+          transfer_id?: string | null
+          unit_cost?: number | null
           unit_price?: number | null
         }
         Relationships: [
@@ -222,196 +824,1748 @@ export type Database = {
           },
         ]
       }
-      products: {
+      loyalty_ledger: {
         Row: {
-          category: string
+          amount: number | null
           created_at: string
-          created_by: string
-          description: string | null
+          created_by: string | null
+          customer_id: string
+          description: string
+          earn_rate: number | null
+          entry_type: string
+          expires_at: string | null
+          id: string
+          points: number
+          sale_id: string | null
+          service_id: string | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          description: string
+          earn_rate?: number | null
+          entry_type: string
+          expires_at?: string | null
+          id?: string
+          points: number
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          description?: string
+          earn_rate?: number | null
+          entry_type?: string
+          expires_at?: string | null
+          id?: string
+          points?: number
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "loyalty_ledger_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_ledger_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_ledger_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      loyalty_settings: {
+        Row: {
+          expiry_months: number | null
+          id: boolean
+          is_enabled: boolean
+          min_redeem_points: number
+          point_value: number
+          points_per_unit: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          expiry_months?: number | null
+          id?: boolean
+          is_enabled?: boolean
+          min_redeem_points?: number
+          point_value?: number
+          points_per_unit?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          expiry_months?: number | null
+          id?: boolean
+          is_enabled?: boolean
+          min_redeem_points?: number
+          point_value?: number
+          points_per_unit?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: []
+      }
+      loyalty_tiers: {
+        Row: {
+          created_at: string
+          earn_multiplier: number
           id: string
+          min_points: number
           name: string
-          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_points: number
+          name: string
+        }
+        Update: {
+          created_at?: string
+          earn_multiplier?: number
+          id?: string
+          min_points?: number
+          name?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          branch_id: string
+          created_at: string
+          customer_id: string | null
+          customer_package_id: string | null
+          gift_voucher_id: string | null
+          id: string
+          is_deposit: boolean
+          notes: string | null
+          payment_method: string
+          received_by: string
+          reference_number: string | null
+          sale_id: string | null
+          service_id: string | null
+        }
+        Insert: {
+          amount: number
+          branch_id?: string
+          created_at?: string
+          customer_id?: string | null
+          customer_package_id?: string | null
+          gift_voucher_id?: string | null
+          id?: string
+          is_deposit?: boolean
+          notes?: string | null
+          payment_method: string
+          received_by: string
+          reference_number?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Update: {
+          amount?: number
+          branch_id?: string
+          created_at?: string
+          customer_id?: string | null
+          customer_package_id?: string | null
+          gift_voucher_id?: string | null
+          id?: string
+          is_deposit?: boolean
+          notes?: string | null
+          payment_method?: string
+          received_by?: string
+          reference_number?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_deduction_types: {
+        Row: {
+          created_at: string
+          fixed_amount: number
+          id: string
+          is_active: boolean
+          name: string
+          rate: number
           updated_at: string
         }
         Insert: {
-          category: string
           created_at?: string
-          created_by: string
-          description?: string | null
+          fixed_amount?: number
           id?: string
+          is_active?: boolean
           name: string
-          unit_price?: number
+          rate?: number
           updated_at?: string
         }
         Update: {
-          category?: string
           created_at?: string
-          created_by?: string
-          description?: string | null
+          fixed_amount?: number
           id?: string
+          is_active?: boolean
           name?: string
-          unit_price?: number
+          rate?: number
           updated_at?: string
         }
         Relationships: []
       }
-      profiles: {
+      payroll_lines: {
         Row: {
+          advances: number
+          amount_paid: number
+          attendance_ratio: number
+          base_salary: number
+          bonus: number
+          commission: number
           created_at: string
-          email: string
-          full_name: string
+          deductions: Json
+          deductions_total: number
+          gross_pay: number
           id: string
-          role: Database["public"]["Enums"]["app_role"]
+          net_pay: number
+          notes: string | null
+          payment_type: string
+          run_id: string
+          services_count: number
+          tips: number
           updated_at: string
-          user_id: string
+          worker_id: string | null
+          worker_name: string
+          worker_role: string
         }
         Insert: {
+          advances?: number
+          amount_paid?: number
+          attendance_ratio?: number
+          base_salary?: number
+          bonus?: number
+          commission?: number
           created_at?: string
-          email: string
-          full_name: string
+          deductions?: Json
+          deductions_total?: number
+          gross_pay?: number
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          net_pay?: number
+          notes?: string | null
+          payment_type: string
+          run_id: string
+          services_count?: number
+          tips?: number
           updated_at?: string
-          user_id: string
+          worker_id?: string | null
+          worker_name: string
+          worker_role: string
         }
         Update: {
+          advances?: number
+          amount_paid?: number
+          attendance_ratio?: number
+          base_salary?: number
+          bonus?: number
+          commission?: number
           created_at?: string
-          email?: string
-          full_name?: string
+          deductions?: Json
+          deductions_total?: number
+          gross_pay?: number
           id?: string
-          role?: Database["public"]["Enums"]["app_role"]
+          net_pay?: number
+          notes?: string | null
+          payment_type?: string
+          run_id?: string
+          services_count?: number
+          tips?: number
+          updated_at?: string
+          worker_id?: string | null
+          worker_name?: string
+          worker_role?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_lines_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payroll_lines_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          line_id: string
+          paid_by: string | null
+          payment_method: string
+          reference_number: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          line_id: string
+          paid_by?: string | null
+          payment_method: string
+          reference_number?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          line_id?: string
+          paid_by?: string | null
+          payment_method?: string
+          reference_number?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_payments_line_id_fkey"
+            columns: ["line_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payroll_runs: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          branch_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          period_start: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period_start: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          period_start?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payroll_runs_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prepaid_redemptions: {
+        Row: {
+          amount: number
+          covered: number
+          created_at: string
+          created_by: string | null
+          customer_package_id: string | null
+          description: string
+          gift_voucher_id: string | null
+          id: string
+          service_id: string | null
+          units: number
+        }
+        Insert: {
+          amount: number
+          covered: number
+          created_at?: string
+          created_by?: string | null
+          customer_package_id?: string | null
+          description: string
+          gift_voucher_id?: string | null
+          id?: string
+          service_id?: string | null
+          units?: number
+        }
+        Update: {
+          amount?: number
+          covered?: number
+          created_at?: string
+          created_by?: string | null
+          customer_package_id?: string | null
+          description?: string
+          gift_voucher_id?: string | null
+          id?: string
+          service_id?: string | null
+          units?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prepaid_redemptions_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prepaid_redemptions_customer_package_id_fkey"
+            columns: ["customer_package_id"]
+            isOneToOne: false
+            referencedRelation: "customer_packages"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prepaid_redemptions_gift_voucher_id_fkey"
+            columns: ["gift_voucher_id"]
+            isOneToOne: false
+            referencedRelation: "gift_vouchers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          colour: string | null
+          created_at: string
+          id: string
+          is_active: boolean
+          product_id: string
+          retail_price: number | null
+          size: string | null
+          sku: string
+          updated_at: string
+        }
+        Insert: {
+          colour?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          product_id: string
+          retail_price?: number | null
+          size?: string | null
+          sku: string
+          updated_at?: string
+        }
+        Update: {
+          colour?: string | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          product_id?: string
+          retail_price?: number | null
+          size?: string | null
+          sku?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category: string
+          created_at: string
+          created_by: string
+          description: string | null
+          id: string
+          is_active: boolean
+          name: string
+          photo_url: string | null
+          tax_class: string
+          unit_price: number
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          created_by: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          photo_url?: string | null
+          tax_class?: string
+          unit_price?: number
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          created_by?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          photo_url?: string | null
+          tax_class?: string
+          unit_price?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          role_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          full_name: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          role_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          full_name?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          role_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      purchase_order_lines: {
+        Row: {
+          created_at: string
+          id: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          item_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          item_id?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_lines_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          branch_id: string
+          created_at: string
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          po_number: string
+          received_at: string | null
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          total_amount: number
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number: string
+          received_at?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number?: string
+          received_at?: string | null
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string
+          total_amount?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      role_permissions: {
+        Row: {
+          created_at: string
+          feature: string
+          role_id: string
+        }
+        Insert: {
+          created_at?: string
+          feature: string
+          role_id: string
+        }
+        Update: {
+          created_at?: string
+          feature?: string
+          role_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_permissions_role_id_fkey"
+            columns: ["role_id"]
+            isOneToOne: false
+            referencedRelation: "roles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roles: {
+        Row: {
+          all_features: boolean
+          created_at: string
+          description: string | null
+          id: string
+          is_system: boolean
+          key: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          all_features?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          key: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          all_features?: boolean
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_system?: boolean
+          key?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      sales_items: {
+        Row: {
+          created_at: string
+          id: string
+          inventory_item_id: string
+          item_name: string
+          product_variant_id: string | null
+          quantity: number
+          refunded_quantity: number
+          sale_id: string
+          tax_class: string | null
+          total_price: number
+          unit_cost: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_item_id: string
+          item_name: string
+          product_variant_id?: string | null
+          quantity: number
+          refunded_quantity?: number
+          sale_id: string
+          tax_class?: string | null
+          total_price: number
+          unit_cost?: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_item_id?: string
+          item_name?: string
+          product_variant_id?: string | null
+          quantity?: number
+          refunded_quantity?: number
+          sale_id?: string
+          tax_class?: string | null
+          total_price?: number
+          unit_cost?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_refund_items: {
+        Row: {
+          created_at: string
+          id: string
+          inventory_item_id: string
+          item_name: string
+          quantity: number
+          refund_id: string
+          restocked: boolean
+          sales_item_id: string
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          inventory_item_id: string
+          item_name: string
+          quantity: number
+          refund_id: string
+          restocked?: boolean
+          sales_item_id: string
+          total_price: number
+          unit_price: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          inventory_item_id?: string
+          item_name?: string
+          quantity?: number
+          refund_id?: string
+          restocked?: boolean
+          sales_item_id?: string
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_refund_items_inventory_item_id_fkey"
+            columns: ["inventory_item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_refund_items_refund_id_fkey"
+            columns: ["refund_id"]
+            isOneToOne: false
+            referencedRelation: "sales_refunds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_refund_items_sales_item_id_fkey"
+            columns: ["sales_item_id"]
+            isOneToOne: false
+            referencedRelation: "sales_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_refunds: {
+        Row: {
+          approved_by: string
+          created_at: string
+          created_by: string
+          id: string
+          items_count: number
+          reason: string
+          reference_number: string
+          refund_type: string
+          sale_id: string
+          total_amount: number
+        }
+        Insert: {
+          approved_by: string
+          created_at?: string
+          created_by: string
+          id?: string
+          items_count?: number
+          reason: string
+          reference_number: string
+          refund_type: string
+          sale_id: string
+          total_amount: number
+        }
+        Update: {
+          approved_by?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          items_count?: number
+          reason?: string
+          reference_number?: string
+          refund_type?: string
+          sale_id?: string
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_refunds_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales_transactions: {
+        Row: {
+          branch_id: string
+          created_at: string
+          created_by: string
+          customer_id: string | null
+          customer_name: string
+          customer_phone: string | null
+          id: string
+          items_count: number
+          loyalty_discount: number
+          loyalty_points_redeemed: number
+          payment_method: string
+          reference_number: string | null
+          status: string
+          total_amount: number
+          updated_at: string
+          worker_id: string | null
+        }
+        Insert: {
+          branch_id?: string
+          created_at?: string
+          created_by: string
+          customer_id?: string | null
+          customer_name: string
+          customer_phone?: string | null
+          id?: string
+          items_count?: number
+          loyalty_discount?: number
+          loyalty_points_redeemed?: number
+          payment_method?: string
+          reference_number?: string | null
+          status?: string
+          total_amount: number
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          created_by?: string
+          customer_id?: string | null
+          customer_name?: string
+          customer_phone?: string | null
+          id?: string
+          items_count?: number
+          loyalty_discount?: number
+          loyalty_points_redeemed?: number
+          payment_method?: string
+          reference_number?: string | null
+          status?: string
+          total_amount?: number
+          updated_at?: string
+          worker_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_transactions_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_catalog: {
+        Row: {
+          category: string
+          commission_rate: number | null
+          created_at: string
+          created_by: string | null
+          default_price: number
+          description: string | null
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          category: string
+          commission_rate?: number | null
+          created_at?: string
+          created_by?: string | null
+          default_price?: number
+          description?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          commission_rate?: number | null
+          created_at?: string
+          created_by?: string | null
+          default_price?: number
+          description?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      service_packages: {
+        Row: {
+          catalog_service_id: string
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          units: number
+          updated_at: string
+          validity_months: number | null
+        }
+        Insert: {
+          catalog_service_id: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          units: number
+          updated_at?: string
+          validity_months?: number | null
+        }
+        Update: {
+          catalog_service_id?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          units?: number
+          updated_at?: string
+          validity_months?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_packages_catalog_service_id_fkey"
+            columns: ["catalog_service_id"]
+            isOneToOne: false
+            referencedRelation: "service_catalog"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_products: {
+        Row: {
+          created_at: string
+          id: string
+          price_per_unit: number
+          product_id: string
+          quantity: number
+          service_id: string
+          total_price: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          price_per_unit?: number
+          product_id: string
+          quantity?: number
+          service_id: string
+          total_price?: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          price_per_unit?: number
+          product_id?: string
+          quantity?: number
+          service_id?: string
+          total_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_products_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_products_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      service_recipe_items: {
+        Row: {
+          catalog_service_id: string
+          created_at: string
+          id: string
+          item_id: string
+          quantity: number
+        }
+        Insert: {
+          catalog_service_id: string
+          created_at?: string
+          id?: string
+          item_id: string
+          quantity: number
+        }
+        Update: {
+          catalog_service_id?: string
+          created_at?: string
+          id?: string
+          item_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_recipe_items_catalog_service_id_fkey"
+            columns: ["catalog_service_id"]
+            isOneToOne: false
+            referencedRelation: "service_catalog"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_recipe_items_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      services: {
+        Row: {
+          branch_id: string
+          catalog_service_id: string | null
+          commission_rate: number | null
+          created_at: string
+          created_by: string
+          customer_id: string
+          date_time: string
+          duration_minutes: number
+          id: string
+          loyalty_discount: number
+          loyalty_points_redeemed: number
+          notes: string | null
+          prepaid_covered: number
+          service_category: string
+          service_name: string
+          service_price: number
+          staff_member_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          branch_id?: string
+          catalog_service_id?: string | null
+          commission_rate?: number | null
+          created_at?: string
+          created_by: string
+          customer_id: string
+          date_time?: string
+          duration_minutes?: number
+          id?: string
+          loyalty_discount?: number
+          loyalty_points_redeemed?: number
+          notes?: string | null
+          prepaid_covered?: number
+          service_category: string
+          service_name: string
+          service_price?: number
+          staff_member_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          branch_id?: string
+          catalog_service_id?: string | null
+          commission_rate?: number | null
+          created_at?: string
+          created_by?: string
+          customer_id?: string
+          date_time?: string
+          duration_minutes?: number
+          id?: string
+          loyalty_discount?: number
+          loyalty_points_redeemed?: number
+          notes?: string | null
+          prepaid_covered?: number
+          service_category?: string
+          service_name?: string
+          service_price?: number
+          staff_member_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      staff_advance_repayments: {
+        Row: {
+          advance_id: string
+          amount: number
+          created_at: string
+          id: string
+          payroll_line_id: string
+        }
+        Insert: {
+          advance_id: string
+          amount: number
+          created_at?: string
+          id?: string
+          payroll_line_id: string
+        }
+        Update: {
+          advance_id?: string
+          amount?: number
+          created_at?: string
+          id?: string
+          payroll_line_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_advance_repayments_advance_id_fkey"
+            columns: ["advance_id"]
+            isOneToOne: false
+            referencedRelation: "staff_advances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_advance_repayments_payroll_line_id_fkey"
+            columns: ["payroll_line_id"]
+            isOneToOne: false
+            referencedRelation: "payroll_lines"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_advances: {
+        Row: {
+          amount: number
+          approved_at: string | null
+          approved_by: string | null
+          branch_id: string
+          created_at: string
+          created_by: string | null
+          first_deduction_month: string
+          id: string
+          installment_amount: number
+          issued_on: string
+          kind: string
+          reason: string | null
+          status: string
+          updated_at: string
+          worker_id: string
+        }
+        Insert: {
+          amount: number
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          first_deduction_month: string
+          id?: string
+          installment_amount: number
+          issued_on?: string
+          kind?: string
+          reason?: string | null
+          status?: string
+          updated_at?: string
+          worker_id: string
+        }
+        Update: {
+          amount?: number
+          approved_at?: string | null
+          approved_by?: string | null
+          branch_id?: string
+          created_at?: string
+          created_by?: string | null
+          first_deduction_month?: string
+          id?: string
+          installment_amount?: number
+          issued_on?: string
+          kind?: string
+          reason?: string | null
+          status?: string
+          updated_at?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_advances_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_advances_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktake_lines: {
+        Row: {
+          adjusted: boolean
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          created_at: string
+          expected_quantity: number
+          id: string
+          item_id: string
+          stocktake_id: string
+          unit_price: number
+        }
+        Insert: {
+          adjusted?: boolean
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity: number
+          id?: string
+          item_id: string
+          stocktake_id: string
+          unit_price?: number
+        }
+        Update: {
+          adjusted?: boolean
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          created_at?: string
+          expected_quantity?: number
+          id?: string
+          item_id?: string
+          stocktake_id?: string
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktake_lines_stocktake_id_fkey"
+            columns: ["stocktake_id"]
+            isOneToOne: false
+            referencedRelation: "stocktakes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stocktake_lines_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stocktakes: {
+        Row: {
+          branch_id: string
+          created_at: string
+          id: string
+          notes: string | null
+          posted_at: string | null
+          posted_by: string | null
+          reference: string
+          started_at: string
+          started_by: string | null
+          status: string
+          updated_at: string
+          variance_units: number
+          variance_value: number
+        }
+        Insert: {
+          branch_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          posted_at?: string | null
+          posted_by?: string | null
+          reference: string
+          started_at?: string
+          started_by?: string | null
+          status?: string
+          updated_at?: string
+          variance_units?: number
+          variance_value?: number
+        }
+        Update: {
+          branch_id?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          posted_at?: string | null
+          posted_by?: string | null
+          reference?: string
+          started_at?: string
+          started_by?: string | null
+          status?: string
+          updated_at?: string
+          variance_units?: number
+          variance_value?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stocktakes_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      suppliers: {
+        Row: {
+          address: string | null
+          contact_name: string | null
+          created_at: string
+          created_by: string | null
+          email: string | null
+          id: string
+          is_active: boolean
+          lead_time_days: number
+          name: string
+          notes: string | null
+          phone: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          contact_name?: string | null
+          created_at?: string
+          created_by?: string | null
+          email?: string | null
+          id?: string
+          is_active?: boolean
+          lead_time_days?: number
+          name?: string
+          notes?: string | null
+          phone?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tip_allocations: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          share_percent: number
+          tip_id: string
+          worker_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          share_percent: number
+          tip_id: string
+          worker_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          share_percent?: number
+          tip_id?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tip_allocations_tip_id_fkey"
+            columns: ["tip_id"]
+            isOneToOne: false
+            referencedRelation: "tips"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tip_allocations_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tips: {
+        Row: {
+          amount: number
+          branch_id: string
+          created_at: string
+          customer_id: string | null
+          id: string
+          payment_method: string
+          received_by: string
+          reference_number: string | null
+          sale_id: string | null
+          service_id: string | null
+        }
+        Insert: {
+          amount: number
+          branch_id?: string
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          payment_method: string
+          received_by: string
+          reference_number?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Update: {
+          amount?: number
+          branch_id?: string
+          created_at?: string
+          customer_id?: string | null
+          id?: string
+          payment_method?: string
+          received_by?: string
+          reference_number?: string | null
+          sale_id?: string | null
+          service_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tips_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tips_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tips_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tips_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_branch_scope: {
+        Row: {
+          branch_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          branch_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          branch_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "user_branch_scope_branch_id_fkey"
+            columns: ["branch_id"]
+            isOneToOne: false
+            referencedRelation: "branches"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      service_products: {
+      user_branches: {
         Row: {
+          branch_id: string
           created_at: string
-          id: string
-          price_per_unit: number
-          product_id: string
-          quantity: number
-          service_id: string
-          total_price: number
+          user_id: string
         }
         Insert: {
+          branch_id: string
           created_at?: string
-          id?: string
-          price_per_unit?: number
-          product_id: string
-          quantity?: number
-          service_id: string
-          total_price?: number
+          user_id: string
         }
         Update: {
+          branch_id?: string
           created_at?: string
-          id?: string
-          price_per_unit?: number
-          product_id?: string
-          quantity?: number
-          service_id?: string
-          total_price?: number
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "service_products_product_id_fkey"
-            columns: ["product_id"]
-            isOneToOne: false
-            referencedRelation: "inventory_items"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "service_products_service_id_fkey"
-            columns: ["service_id"]
+            foreignKeyName: "user_branches_branch_id_fkey"
+            columns: ["branch_id"]
             isOneToOne: false
-            referencedRelation: "services"
+            referencedRelation: "branches"
             referencedColumns: ["id"]
           },
         ]
       }
-      services: {
+      worker_attendance: {
         Row: {
+          check_in_time: string | null
+          check_out_time: string | null
           created_at: string
           created_by: string
-          customer_id: string
-          date_time: string
+          date: string
+          hours_worked: number | null
           id: string
+          minutes_late: number
           notes: string | null
-          service_category: string
-          service_name: string
-          service_price: number
-          staff_member_id: string | null
+          scheduled_end: string | null
+          scheduled_start: string | null
           status: string
           updated_at: string
+          worker_id: string
         }
         Insert: {
+          check_in_time?: string | null
+          check_out_time?: string | null
           created_at?: string
           created_by: string
-          customer_id: string
-          date_time?: string
+          date?: string
+          hours_worked?: number | null
           id?: string
+          minutes_late?: number
           notes?: string | null
-          service_category: string
-          service_name: string
-          service_price?: number
-          staff_member_id?: string | null
+          scheduled_end?: string | null
+          scheduled_start?: string | null
           status?: string
           updated_at?: string
+          worker_id: string
         }
         Update: {
+          check_in_time?: string | null
+          check_out_time?: string | null
           created_at?: string
           created_by?: string
-          customer_id?: string
-          date_time?: string
+          date?: string
+          hours_worked?: number | null
           id?: string
+          minutes_late?: number
           notes?: string | null
-          service_category?: string
-          service_name?: string
-          service_price?: number
-          staff_member_id?: string | null
+          scheduled_end?: string | null
+          scheduled_start?: string | null
           status?: string
           updated_at?: string
+          worker_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "worker_attendance_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      worker_attendance: {
+      worker_schedule_overrides: {
         Row: {
-          check_in_time: string | null
-          check_out_time: string | null
           created_at: string
           created_by: string
           date: string
+          end_time: string | null
           id: string
+          is_working_day: boolean
           notes: string | null
-          status: string
+          start_time: string | null
+          updated_at: string
           worker_id: string
         }
         Insert: {
-          check_in_time?: string | null
-          check_out_time?: string | null
           created_at?: string
           created_by: string
-          date?: string
+          date: string
+          end_time?: string | null
           id?: string
+          is_working_day?: boolean
           notes?: string | null
-          status?: string
+          start_time?: string | null
+          updated_at?: string
           worker_id: string
         }
         Update: {
-          check_in_time?: string | null
-          check_out_time?: string | null
           created_at?: string
           created_by?: string
           date?: string
+          end_time?: string | null
           id?: string
+          is_working_day?: boolean
           notes?: string | null
-          status?: string
+          start_time?: string | null
+          updated_at?: string
           worker_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "worker_attendance_worker_id_fkey"
+            foreignKeyName: "worker_schedule_overrides_worker_id_fkey"
             columns: ["worker_id"]
             isOneToOne: false
             referencedRelation: "workers"
@@ -463,8 +2617,54 @@ export type Database = {
           },
         ]
       }
+      worker_time_off: {
+        Row: {
+          created_at: string
+          created_by: string
+          end_date: string
+          id: string
+          reason: string | null
+          start_date: string
+          type: string
+          updated_at: string
+          worker_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          end_date: string
+          id?: string
+          reason?: string | null
+          start_date: string
+          type?: string
+          updated_at?: string
+          worker_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          end_date?: string
+          id?: string
+          reason?: string | null
+          start_date?: string
+          type?: string
+          updated_at?: string
+          worker_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "worker_time_off_worker_id_fkey"
+            columns: ["worker_id"]
+            isOneToOne: false
+            referencedRelation: "workers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       workers: {
         Row: {
+          branch_id: string
+          commission_rate: number | null
           created_at: string
           created_by: string
           email: string | null
@@ -472,12 +2672,15 @@ export type Database = {
           id: string
           name: string
           payment_status: string
+          payment_type: string | null
           phone: string | null
           role: string
           salary: number
           updated_at: string
         }
         Insert: {
+          branch_id?: string
+          commission_rate?: number | null
           created_at?: string
           created_by: string
           email?: string | null
@@ -485,12 +2688,15 @@ export type Database = {
           id?: string
           name: string
           payment_status?: string
+          payment_type?: string | null
           phone?: string | null
           role: string
           salary?: number
           updated_at?: string
         }
         Update: {
+          branch_id?: string
+          commission_rate?: number | null
           created_at?: string
           created_by?: string
           email?: string | null
@@ -498,6 +2704,7 @@ export type Database = {
           id?: string
           name?: string
           payment_status?: string
+          payment_type?: string | null
           phone?: string | null
           role?: string
           salary?: number
@@ -510,10 +2717,536 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_access_branch: {
+        Args: { _branch_id: string; _user_id: string }
+        Returns: boolean
+      }
+      cancel_stocktake: {
+        Args: { p_stocktake_id: string }
+        Returns: Json
+      }
+      change_user_role: {
+        Args: {
+          p_profile_id: string
+          p_reason?: string
+          p_role: string
+        }
+        Returns: Json
+      }
+      clock_in_worker: {
+        Args: {
+          p_grace_minutes?: number
+          p_notes?: string
+          p_timezone?: string
+          p_worker_id: string
+        }
+        Returns: Json
+      }
+      clock_out_worker: {
+        Args: { p_timezone?: string; p_worker_id: string }
+        Returns: Json
+      }
+      close_cash_drawer: {
+        Args: {
+          p_counted_cash: number
+          p_notes?: string
+          p_session_id: string
+        }
+        Returns: Json
+      }
+      create_reorder_purchase_orders: {
+        Args: { p_lines: Json }
+        Returns: Json
+      }
+      current_branch_id: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      delete_role: {
+        Args: { p_role_id: string }
+        Returns: Json
+      }
+      find_booking_conflicts: {
+        Args: {
+          p_duration_minutes: number
+          p_exclude_service_id?: string
+          p_staff_member_id: string
+          p_start: string
+        }
+        Returns: {
+          customer_name: string
+          date_time: string
+          duration_minutes: number
+          service_id: string
+          service_name: string
+          status: string
+        }[]
+      }
+      generate_payroll_run: {
+        Args: { p_month: string }
+        Returns: Json
+      }
+      get_attendance_summary: {
+        Args: { p_month: string; p_today?: string }
+        Returns: {
+          absent_days: number
+          attendance_ratio: number
+          half_days: number
+          hours_worked: number
+          late_days: number
+          present_days: number
+          scheduled_days: number
+          worker_id: string
+        }[]
+      }
+      get_audit_log: {
+        Args: {
+          p_actor_id?: string
+          p_date_from?: string
+          p_date_to?: string
+          p_limit?: number
+          p_offset?: number
+          p_table_name?: string
+        }
+        Returns: {
+          id: string
+          table_name: string
+          record_id: string
+          action: string
+          actor_id: string
+          actor_name: string
+          old_data: Json
+          new_data: Json
+          changed_fields: string[]
+          reason: string
+          created_at: string
+        }[]
+      }
+      get_available_staff: {
+        Args: {
+          p_duration_minutes?: number
+          p_exclude_service_id?: string
+          p_start: string
+          p_timezone?: string
+        }
+        Returns: {
+          end_time: string
+          is_available: boolean
+          reason: string
+          start_time: string
+          worker_id: string
+          worker_name: string
+        }[]
+      }
+      get_branch_summary: {
+        Args: { p_date_from: string; p_date_to: string }
+        Returns: {
+          branch_id: string
+          branch_name: string
+          services_count: number
+          service_revenue: number
+          retail_revenue: number
+          expenses: number
+          customers_count: number
+          inventory_value: number
+        }[]
+      }
+      get_cash_drawer_summary: {
+        Args: { p_session_id: string }
+        Returns: Json
+      }
+      get_customer_balances: {
+        Args: { p_customer_id?: string }
+        Returns: {
+          customer_id: string
+          deposits_held: number
+          outstanding_balance: number
+          total_charged: number
+          total_paid: number
+        }[]
+      }
+      get_customer_loyalty: {
+        Args: { p_customer_id: string }
+        Returns: Json
+      }
+      get_loyalty_balances: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          customer_id: string
+          points_balance: number
+          tier_name: string
+        }[]
+      }
+      get_loyalty_points_balance: {
+        Args: { p_customer_id: string }
+        Returns: number
+      }
+      get_loyalty_receipt: {
+        Args: { p_sale_id?: string; p_service_id?: string }
+        Returns: Json
+      }
+      get_monthly_attendance: {
+        Args: {
+          p_month: string
+          p_today?: string
+          p_worker_id?: string
+        }
+        Returns: {
+          attendance_id: string
+          check_in_time: string
+          check_out_time: string
+          date: string
+          hours_worked: number
+          is_scheduled: boolean
+          minutes_late: number
+          scheduled_end: string
+          scheduled_start: string
+          status: string
+          worker_id: string
+        }[]
+      }
+      get_my_access: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      get_payment_summary: {
+        Args: { p_sale_id?: string; p_service_id?: string }
+        Returns: Json
+      }
+      get_prepaid_liability: {
+        Args: { p_from?: string; p_to?: string }
+        Returns: Json
+      }
+      get_reorder_suggestions: {
+        Args: { p_lookback_days?: number }
+        Returns: {
+          item_id: string
+          item_name: string
+          branch_id: string
+          supplier_id: string
+          supplier_name: string
+          lead_time_days: number
+          current_stock: number
+          min_stock_level: number
+          max_stock_level: number
+          on_order: number
+          consumed_quantity: number
+          daily_usage: number
+          days_of_inventory: number
+          reorder_point: number
+          suggested_quantity: number
+          unit_cost: number
+          needs_reorder: boolean
+        }[]
+      }
+      get_sale_amount_due: {
+        Args: { p_sale_id: string }
+        Returns: number
+      }
+      get_sale_details: {
+        Args: { p_sale_id: string }
+        Returns: {
+          items: Json
+          sale_info: Json
+        }[]
+      }
+      get_sale_refunds: {
+        Args: { p_sale_id: string }
+        Returns: {
+          approved_by_name: string
+          created_at: string
+          items: Json
+          items_count: number
+          reason: string
+          reference_number: string
+          refund_id: string
+          refund_type: string
+          total_amount: number
+        }[]
+      }
+      get_sales_history: {
+        Args: {
+          p_customer_name?: string
+          p_date_from?: string
+          p_date_to?: string
+          p_limit?: number
+          p_offset?: number
+          p_payment_method?: string
+        }
+        Returns: {
+          created_at: string
+          customer_id: string
+          customer_name: string
+          customer_phone: string
+          items_count: number
+          payment_method: string
+          reference_number: string
+          refunded_amount: number
+          sale_id: string
+          sold_by: string
+          status: string
+          total_amount: number
+        }[]
+      }
+      get_service_amount_due: {
+        Args: { p_service_id: string }
+        Returns: number
+      }
+      get_service_prepaid: {
+        Args: { p_service_id: string }
+        Returns: {
+          source: string
+          name: string
+          units: number
+          covered: number
+        }[]
+      }
+      get_staff_bookings: {
+        Args: { p_end: string; p_start: string }
+        Returns: {
+          customer_name: string
+          date_time: string
+          duration_minutes: number
+          is_own: boolean
+          service_category: string
+          service_id: string
+          service_name: string
+          staff_member_id: string
+          status: string
+        }[]
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
       }
+      get_worker_earnings: {
+        Args: { p_month?: string }
+        Returns: {
+          worker_id: string
+          total_earnings: number
+          services_performed: number
+          month_earnings: number
+          month_services: number
+        }[]
+      }
+      get_worker_hours: {
+        Args: { p_date: string; p_worker_id: string }
+        Returns: {
+          end_time: string
+          is_working: boolean
+          reason: string
+          source: string
+          start_time: string
+        }[]
+      }
+      has_feature: {
+        Args: { _feature: string; _user_id: string }
+        Returns: boolean
+      }
+      in_branch_scope: {
+        Args: { _branch_id: string }
+        Returns: boolean
+      }
+      is_payroll_locked: {
+        Args: { p_branch_id: string; p_date: string }
+        Returns: boolean
+      }
+      issue_gift_voucher: {
+        Args: {
+          p_code?: string
+          p_customer_id?: string
+          p_payments: Json
+          p_purchaser_name: string
+          p_recipient_name?: string
+          p_validity_months?: number
+          p_value: number
+        }
+        Returns: Json
+      }
+      open_cash_drawer: {
+        Args: { p_notes?: string; p_opening_float: number }
+        Returns: Json
+      }
+      post_stocktake: {
+        Args: { p_line_ids?: string[]; p_stocktake_id: string }
+        Returns: Json
+      }
+      process_cart_checkout: {
+        Args: {
+          p_customer_id?: string
+          p_customer_name: string
+          p_customer_phone?: string
+          p_items: Json
+          p_payment_method?: string
+          p_payments?: Json
+          p_redeem_points?: number
+          p_reference_number?: string
+          p_worker_id?: string
+        }
+        Returns: Json
+      }
+      process_sale_refund: {
+        Args: {
+          p_items?: Json
+          p_reason: string
+          p_sale_id: string
+          p_void?: boolean
+        }
+        Returns: Json
+      }
+      rebuild_commission_ledger: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      receive_purchase_order: {
+        Args: {
+          p_lines: Json
+          p_notes?: string
+          p_po_id: string
+        }
+        Returns: Json
+      }
+      record_cash_drawer_payout: {
+        Args: {
+          p_amount: number
+          p_category: string
+          p_name: string
+          p_session_id: string
+        }
+        Returns: Json
+      }
+      record_payments: {
+        Args: {
+          p_notes?: string
+          p_payments: Json
+          p_sale_id?: string
+          p_service_id?: string
+        }
+        Returns: Json
+      }
+      record_payroll_payment: {
+        Args: {
+          p_amount?: number
+          p_line_id?: string
+          p_payment_method: string
+          p_reference_number?: string
+          p_run_id: string
+        }
+        Returns: Json
+      }
+      record_stocktake_counts: {
+        Args: { p_counts: Json; p_stocktake_id: string }
+        Returns: Json
+      }
+      record_tip: {
+        Args: {
+          p_allocations: Json
+          p_amount: number
+          p_payment_method: string
+          p_reference_number?: string
+          p_sale_id?: string
+          p_service_id?: string
+        }
+        Returns: Json
+      }
+      redeem_gift_voucher_for_service: {
+        Args: {
+          p_amount?: number
+          p_code: string
+          p_service_id: string
+        }
+        Returns: Json
+      }
+      redeem_loyalty_points_for_service: {
+        Args: { p_points: number; p_service_id: string }
+        Returns: Json
+      }
+      save_catalog_service: {
+        Args: {
+          p_catalog_service_id?: string
+          p_category: string
+          p_commission_rate?: number
+          p_default_price: number
+          p_description?: string
+          p_duration_minutes: number
+          p_is_active?: boolean
+          p_name: string
+          p_recipe?: Json
+        }
+        Returns: Json
+      }
+      save_purchase_order: {
+        Args: {
+          p_expected_date?: string
+          p_lines: Json
+          p_notes?: string
+          p_po_id?: string
+          p_supplier_id: string
+        }
+        Returns: Json
+      }
+      save_role: {
+        Args: {
+          p_description?: string
+          p_features?: string[]
+          p_name: string
+          p_role_id?: string
+        }
+        Returns: Json
+      }
+      sell_service_package: {
+        Args: {
+          p_customer_id: string
+          p_package_id: string
+          p_payments: Json
+        }
+        Returns: Json
+      }
+      set_branch_scope: {
+        Args: { p_branch_id?: string }
+        Returns: Json
+      }
+      set_payroll_run_status: {
+        Args: { p_approve: boolean; p_run_id: string }
+        Returns: Json
+      }
+      set_staff_advance_status: {
+        Args: { p_advance_id: string; p_approve: boolean }
+        Returns: Json
+      }
+      set_user_branches: {
+        Args: { p_branch_ids: string[]; p_user_id: string }
+        Returns: Json
+      }
+      start_stocktake: {
+        Args: { p_notes?: string }
+        Returns: Json
+      }
+      transfer_inventory: {
+        Args: {
+          p_item_id: string
+          p_notes?: string
+          p_quantity: number
+          p_to_branch_id: string
+        }
+        Returns: Json
+      }
+      update_payroll_line: {
+        Args: {
+          p_bonus: number
+          p_line_id: string
+          p_notes?: string
+        }
+        Returns: Json
+      }
+      update_purchase_order_status: {
+        Args: { p_po_id: string; p_status: string }
+        Returns: Json
+      }
+      write_off_lots: {
+        Args: { p_lot_ids?: string[]; p_reason?: string }
+        Returns: Json
+      }
     }
     Enums: {
       app_role: "admin" | "user"
@@ -49,6 +49,7 @@ import {
   Award,
   Crown,
   Key,
+  Building2,
   Bell,
   MessageSquare,
   Archive,
@@ -84,8 +85,20 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { useRealtimePermissions } from "@/hooks/useRealtimePermissions";
-import { isAdmin } from "@/utils/permissions";
+import { canAccessFeature, isAdmin } from "@/utils/permissions";
 import { formatCurrency } from "@/lib/utils";
+import {
+  AUDITED_ENTITIES,
+  AuditEntry,
+  changeUserRole,
+  describeAuditEntry,
+  exportAuditLogCsv,
+  fetchAuditLog,
+  getEntityLabel,
+} from "@/utils/auditLog";
+import { AppFeature, Role, fetchAppFeatures, fetchRoles } from "@/utils/roles";
+import { RolePermissionsManager } from "@/components/admin/RolePermissionsManager";
+import { BranchManager } from "@/components/admin/BranchManager";
 
 interface UserProfile {
   id: string;
@@ -93,6 +106,7 @@ interface UserProfile {
   email: string;
   full_name: string;
   role: 'admin' | 'user';
+  role_id: string | null;
   created_at: string;
   updated_at?: string;
   is_active: boolean;
@@ -111,16 +125,6 @@ interface SystemStats {
   lastBackup: string;
 }
 
-interface UserActivity {
-  id: string;
-  user_id: string;
-  action: string;
-  description: string;
-  timestamp: string;
-  ip_address?: string;
-  user_agent?: string;
-}
-
 interface SystemAlert {
   id: string;
   type: 'info' | 'warning' | 'error' | 'success';
@@ -135,8 +139,16 @@ export default function AdminManagement() {
   const [users, setUsers] = useState<UserProfile[]>([]);
   const [selectedUser, setSelectedUser] = useState<UserProfile | null>(null);
   const [systemStats, setSystemStats] = useState<SystemStats | null>(null);
-  const [userActivities, setUserActivities] = useState<UserActivity[]>([]);
+  const [userActivities, setUserActivities] = useState<AuditEntry[]>([]);
+  const [activityFilters, setActivityFilters] = useState({
+    actorId: "all",
+    tableName: "all",
+    dateFrom: "",
+    dateTo: "",
+  });
   const [systemAlerts, setSystemAlerts] = useState<SystemAlert[]>([]);
+  const [roles, setRoles] = useState<Role[]>([]);
+  const [appFeatures, setAppFeatures] = useState<AppFeature[]>([]);
   
   // Loading states
   const [isLoading, setIsLoading] = useState(true);
@@ -162,7 +174,7 @@ export default function AdminManagement() {
   const [userFormData, setUserFormData] = useState({
     full_name: "",
     email: "",
-    role: "user" as "admin" | "user",
+    role_id: "",
     access_level: "full" as "full" | "restricted" | "banned",
     is_active: true
   });
@@ -171,7 +183,7 @@ export default function AdminManagement() {
     id: "",
     full_name: "",
     email: "",
-    role: "user" as "admin" | "user",
+    role_id: "",
     access_level: "full" as "full" | "restricted" | "banned",
     is_active: true
   });
@@ -179,8 +191,8 @@ export default function AdminManagement() {
   const [roleChangeData, setRoleChangeData] = useState({
     userId: "",
     userName: "",
-    currentRole: "user" as "admin" | "user",
-    newRole: "user" as "admin" | "user",
+    currentRole: "",
+    newRole: "",
     reason: ""
   });
   
@@ -188,14 +200,21 @@ export default function AdminManagement() {
   const [bulkReason, setBulkReason] = useState("");
   
   const { profile } = useAuth();
-  const { isAdmin: hasAdminAccess, refreshPermissions, testProfileUpdate } = useRealtimePermissions();
+  const { refreshPermissions, testProfileUpdate } = useRealtimePermissions();
   const { toast } = useToast();
+  const canManageUsers = canAccessFeature(profile, 'user_management');
 
   useEffect(() => {
-    if (isAdmin(profile) || hasAdminAccess) {
+    if (canManageUsers) {
       fetchInitialData();
     }
-  }, [profile, hasAdminAccess]);
+  }, [profile, canManageUsers]);
+
+  useEffect(() => {
+    if (canManageUsers) {
+      fetchUserActivities();
+    }
+  }, [activityFilters]);
 
   const fetchInitialData = async () => {
     setIsLoading(true);
@@ -204,7 +223,8 @@ export default function AdminManagement() {
         fetchUsers(),
         fetchSystemStats(),
         fetchUserActivities(),
-        fetchSystemAlerts()
+        fetchSystemAlerts(),
+        fetchRoleData()
       ]);
     } catch (error) {
       console.error("Error fetching initial data:", error);
@@ -242,6 +262,20 @@ export default function AdminManagement() {
     }
   };
 
+  const fetchRoleData = async () => {
+    try {
+      const [roleList, featureList] = await Promise.all([fetchRoles(), fetchAppFeatures()]);
+      setRoles(roleList);
+      setAppFeatures(featureList);
+    } catch (error) {
+      console.error("Error fetching roles:", error);
+      throw error;
+    }
+  };
+
+  const getRoleName = (user: UserProfile) =>
+    roles.find(role => role.id === user.role_id)?.name || (user.role === 'admin' ? 'Administrator' : 'User');
+
   const fetchSystemStats = async () => {
     setIsStatsLoading(true);
     try {
@@ -276,25 +310,13 @@ export default function AdminManagement() {
   const fetchUserActivities = async () => {
     setIsActivitiesLoading(true);
     try {
-      // Mock data for now - in real implementation, this would come from an audit log table
-      const mockActivities: UserActivity[] = [
-        {
-          id: "1",
-          user_id: "user1",
-          action: "login",
-          description: "User logged in successfully",
-          timestamp: new Date().toISOString(),
-          ip_address: "192.168.1.1"
-        },
-        {
-          id: "2", 
-          user_id: "user2",
-          action: "service_created",
-          description: "Created new service: Hair Cut",
-          timestamp: new Date(Date.now() - 3600000).toISOString()
-        }
-      ];
-      setUserActivities(mockActivities);
+      const entries = await fetchAuditLog({
+        actorId: activityFilters.actorId === "all" ? undefined : activityFilters.actorId,
+        tableName: activityFilters.tableName === "all" ? undefined : activityFilters.tableName,
+        dateFrom: activityFilters.dateFrom,
+        dateTo: activityFilters.dateTo,
+      });
+      setUserActivities(entries);
     } catch (error) {
       console.error("Error fetching user activities:", error);
     } finally {
@@ -379,7 +401,7 @@ export default function AdminManagement() {
       id: user.id,
       full_name: user.full_name,
       email: user.email,
-      role: user.role,
+      role_id: user.role_id || "",
       access_level: user.access_level,
       is_active: user.is_active
     });
@@ -389,7 +411,7 @@ export default function AdminManagement() {
   const handleUpdateUser = async () => {
     try {
       const originalUser = users.find(u => u.id === editUserFormData.id);
-      const roleChanged = editUserFormData.role !== originalUser?.role;
+      const roleChanged = editUserFormData.role_id !== (originalUser?.role_id || "");
       const accessChanged = editUserFormData.access_level !== originalUser?.access_level;
       const statusChanged = editUserFormData.is_active !== originalUser?.is_active;
 
@@ -398,7 +420,7 @@ export default function AdminManagement() {
         .update({
           full_name: editUserFormData.full_name,
           email: editUserFormData.email,
-          role: editUserFormData.role,
+          ...(roleChanged && { role_id: editUserFormData.role_id }),
           access_level: editUserFormData.access_level,
           is_active: editUserFormData.is_active,
           updated_at: new Date().toISOString()
@@ -407,15 +429,11 @@ export default function AdminManagement() {
 
       if (error) throw error;
 
-      // Log changes and trigger real-time updates
-      if (roleChanged) {
-        await logRoleChange(editUserFormData.id, editUserFormData.role, editUserFormData.full_name);
-      }
-
+      // The audit trigger on profiles records the change
       // Trigger real-time updates for permission changes
       if (roleChanged || accessChanged || statusChanged) {
         await triggerUserPermissionUpdate(editUserFormData.id, {
-          role: editUserFormData.role,
+          role: roles.find(role => role.id === editUserFormData.role_id)?.name || '',
           access_level: editUserFormData.access_level,
           is_active: editUserFormData.is_active
         });
@@ -438,12 +456,14 @@ export default function AdminManagement() {
     }
   };
 
+  const getRoleLabel = (roleKey: string) => roles.find(role => role.key === roleKey)?.name || roleKey || 'None';
+
   const handleRoleChange = (user: UserProfile) => {
     setRoleChangeData({
       userId: user.id,
       userName: user.full_name,
-      currentRole: user.role,
-      newRole: user.role,
+      currentRole: roles.find(role => role.id === user.role_id)?.key || "",
+      newRole: roles.find(role => role.id === user.role_id)?.key || "",
       reason: ""
     });
     setIsRoleChangeDialogOpen(true);
@@ -460,30 +480,20 @@ export default function AdminManagement() {
     }
 
     try {
-      // Update user role
-      const { error } = await supabase
-        .from("profiles")
-        .update({
-          role: roleChangeData.newRole,
-          updated_at: new Date().toISOString()
-        })
-        .eq("id", roleChangeData.userId);
-
-      if (error) throw error;
-
-      // Log the role change
-      await logRoleChange(roleChangeData.userId, roleChangeData.newRole, roleChangeData.userName, roleChangeData.reason);
+      // Update user role; the audit log records the change with its reason
+      const result = await changeUserRole(roleChangeData.userId, roleChangeData.newRole, roleChangeData.reason.trim());
+      if (!result.success) throw new Error(result.error || result.message);
 
       // Trigger real-time updates for the affected user
       await triggerUserPermissionUpdate(roleChangeData.userId, {
-        role: roleChangeData.newRole,
+        role: getRoleLabel(roleChangeData.newRole),
         access_level: users.find(u => u.id === roleChangeData.userId)?.access_level || 'full',
         is_active: users.find(u => u.id === roleChangeData.userId)?.is_active || true
       });
 
       toast({
         title: "Success",
-        description: `User role changed from ${roleChangeData.currentRole} to ${roleChangeData.newRole}. User will be notified of permission changes.`,
+        description: `User role changed from ${getRoleLabel(roleChangeData.currentRole)} to ${getRoleLabel(roleChangeData.newRole)}. User will be notified of permission changes.`,
       });
 
       setIsRoleChangeDialogOpen(false);
@@ -499,28 +509,6 @@ export default function AdminManagement() {
     }
   };
 
-  const logRoleChange = async (userId: string, newRole: string, userName: string, reason?: string) => {
-    try {
-      // Create an activity log entry for the role change
-      const activityDescription = `Role changed from ${roleChangeData.currentRole} to ${newRole}${reason ? ` - Reason: ${reason}` : ''}`;
-      
-      // In a real implementation, you would insert this into an audit_log table
-      // For now, we'll add it to the local activities state
-      const newActivity: UserActivity = {
-        id: `role_change_${Date.now()}`,
-        user_id: userId,
-        action: 'role_change',
-        description: activityDescription,
-        timestamp: new Date().toISOString(),
-        ip_address: 'System'
-      };
-
-      setUserActivities(prev => [newActivity, ...prev]);
-    } catch (error) {
-      console.error("Error logging role change:", error);
-    }
-  };
-
   const triggerUserPermissionUpdate = async (userId: string, newPermissions: {
     role: string;
     access_level: string;
@@ -584,7 +572,7 @@ export default function AdminManagement() {
   const filteredUsers = users.filter(user => {
     const matchesSearch = user.full_name.toLowerCase().includes(searchQuery.toLowerCase()) ||
                          user.email.toLowerCase().includes(searchQuery.toLowerCase());
-    const matchesRole = roleFilter === "all" || user.role === roleFilter;
+    const matchesRole = roleFilter === "all" || user.role_id === roleFilter;
     const matchesStatus = statusFilter === "all" || 
                          (statusFilter === "active" && user.is_active) ||
                          (statusFilter === "inactive" && !user.is_active) ||
@@ -639,8 +627,8 @@ export default function AdminManagement() {
     }
   };
 
-  // Check if user is admin using real-time permissions
-  if (!isAdmin(profile) && !hasAdminAccess) {
+  // Check the user's role grants user management
+  if (!canManageUsers) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 p-4">
         <Card className="w-full max-w-md shadow-xl">
@@ -652,7 +640,7 @@ export default function AdminManagement() {
             </div>
             <CardTitle className="text-2xl text-red-900">Access Denied</CardTitle>
             <CardDescription className="text-red-700 text-lg">
-              Administrator privileges required to access this section.
+              User management access is required for this section.
             </CardDescription>
           </CardHeader>
         </Card>
@@ -752,7 +740,7 @@ export default function AdminManagement() {
         )}
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-6">
+          <TabsList className="grid w-full grid-cols-4 lg:grid-cols-8">
             <TabsTrigger value="dashboard" className="flex items-center space-x-2">
               <BarChart3 className="h-4 w-4" />
               <span className="hidden sm:inline">Dashboard</span>
@@ -761,6 +749,14 @@ export default function AdminManagement() {
               <Users className="h-4 w-4" />
               <span className="hidden sm:inline">Users</span>
             </TabsTrigger>
+            <TabsTrigger value="roles" className="flex items-center space-x-2">
+              <Key className="h-4 w-4" />
+              <span className="hidden sm:inline">Roles</span>
+            </TabsTrigger>
+            <TabsTrigger value="branches" className="flex items-center space-x-2">
+              <Building2 className="h-4 w-4" />
+              <span className="hidden sm:inline">Branches</span>
+            </TabsTrigger>
             <TabsTrigger value="activity" className="flex items-center space-x-2">
               <Activity className="h-4 w-4" />
               <span className="hidden sm:inline">Activity</span>
@@ -891,10 +887,10 @@ export default function AdminManagement() {
                         </div>
                         <div className="flex-1 min-w-0">
                           <p className="text-sm font-medium text-gray-900 truncate">
-                            {activity.description}
+                            {describeAuditEntry(activity)}
                           </p>
                           <p className="text-xs text-gray-500">
-                            {formatDate(activity.timestamp)}
+                            {activity.actor_name || 'System'} · {formatDate(activity.created_at)}
                           </p>
                         </div>
                       </div>
@@ -958,8 +954,9 @@ export default function AdminManagement() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="all">All Roles</SelectItem>
-                      <SelectItem value="admin">Administrators</SelectItem>
-                      <SelectItem value="user">Users</SelectItem>
+                      {roles.map(role => (
+                        <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Select value={statusFilter} onValueChange={setStatusFilter}>
@@ -1034,7 +1031,7 @@ export default function AdminManagement() {
                           </TableCell>
                           <TableCell>
                             <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>
-                              {user.role === 'admin' ? 'Administrator' : 'User'}
+                              {getRoleName(user)}
                             </Badge>
                           </TableCell>
                           <TableCell>
@@ -1112,39 +1109,153 @@ export default function AdminManagement() {
             </Card>
           </TabsContent>
 
+          {/* Roles Tab */}
+          <TabsContent value="roles" className="space-y-6">
+            {isAdmin(profile) ? (
+              <RolePermissionsManager
+                roles={roles}
+                features={appFeatures}
+                userCounts={users.reduce<Record<string, number>>((counts, user) => {
+                  if (user.role_id) counts[user.role_id] = (counts[user.role_id] || 0) + 1;
+                  return counts;
+                }, {})}
+                onChanged={fetchRoleData}
+              />
+            ) : (
+              <Alert>
+                <Lock className="h-4 w-4" />
+                <AlertDescription>
+                  Only full-access roles can change role permissions.
+                </AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
+
+          {/* Branches Tab */}
+          <TabsContent value="branches" className="space-y-6">
+            {isAdmin(profile) ? (
+              <BranchManager
+                users={users}
+                fullAccessUserIds={users
+                  .filter(user => roles.find(role => role.id === user.role_id)?.all_features)
+                  .map(user => user.user_id)}
+              />
+            ) : (
+              <Alert>
+                <Lock className="h-4 w-4" />
+                <AlertDescription>
+                  Only full-access roles can manage branches.
+                </AlertDescription>
+              </Alert>
+            )}
+          </TabsContent>
+
           {/* Activity Tab */}
           <TabsContent value="activity" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>System Activity</CardTitle>
-                <CardDescription>
-                  Monitor user activities and system events
-                </CardDescription>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>System Activity</CardTitle>
+                    <CardDescription>
+                      Every change to users, services, inventory, expenses and workers
+                    </CardDescription>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportAuditLogCsv(userActivities)}
+                    disabled={userActivities.length === 0}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    Export CSV
+                  </Button>
+                </div>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {userActivities.map((activity) => (
-                    <div key={activity.id} className="flex items-center space-x-4 p-4 border rounded-lg hover:bg-gray-50">
-                      <div className="p-2 bg-blue-100 rounded-full">
-                        <Activity className="h-4 w-4 text-blue-600" />
-                      </div>
-                      <div className="flex-1 min-w-0">
-                        <p className="font-medium text-gray-900">{activity.description}</p>
-                        <div className="flex items-center space-x-4 text-sm text-gray-500">
-                          <span>User ID: {activity.user_id}</span>
-                          <span>•</span>
-                          <span>{formatDate(activity.timestamp)}</span>
-                          {activity.ip_address && (
-                            <>
-                              <span>•</span>
-                              <span>IP: {activity.ip_address}</span>
-                            </>
-                          )}
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                  <div className="grid gap-2">
+                    <Label>User</Label>
+                    <Select
+                      value={activityFilters.actorId}
+                      onValueChange={(value) => setActivityFilters({ ...activityFilters, actorId: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All users</SelectItem>
+                        {users.map((user) => (
+                          <SelectItem key={user.user_id} value={user.user_id}>{user.full_name || user.email}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label>Entity</Label>
+                    <Select
+                      value={activityFilters.tableName}
+                      onValueChange={(value) => setActivityFilters({ ...activityFilters, tableName: value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="all">All entities</SelectItem>
+                        {AUDITED_ENTITIES.map((entity) => (
+                          <SelectItem key={entity.value} value={entity.value}>{entity.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="activity-date-from">From</Label>
+                    <Input
+                      id="activity-date-from"
+                      type="date"
+                      value={activityFilters.dateFrom}
+                      onChange={(e) => setActivityFilters({ ...activityFilters, dateFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="activity-date-to">To</Label>
+                    <Input
+                      id="activity-date-to"
+                      type="date"
+                      value={activityFilters.dateTo}
+                      onChange={(e) => setActivityFilters({ ...activityFilters, dateTo: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                {isActivitiesLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <RefreshCw className="h-6 w-6 animate-spin text-blue-600" />
+                  </div>
+                ) : (
+                  <div className="space-y-4">
+                    {userActivities.map((activity) => (
+                      <div key={activity.id} className="flex items-center space-x-4 p-4 border rounded-lg hover:bg-gray-50">
+                        <div className="p-2 bg-blue-100 rounded-full">
+                          <Activity className="h-4 w-4 text-blue-600" />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                          <p className="font-medium text-gray-900">{describeAuditEntry(activity)}</p>
+                          <div className="flex items-center space-x-4 text-sm text-gray-500">
+                            <span>{activity.actor_name || 'System'}</span>
+                            <span>•</span>
+                            <Badge variant="outline">{getEntityLabel(activity.table_name)}</Badge>
+                            <span>•</span>
+                            <span>{formatDate(activity.created_at)}</span>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  ))}
-                </div>
+                    ))}
+                    {userActivities.length === 0 && (
+                      <p className="text-center py-8 text-muted-foreground">No activity matches these filters</p>
+                    )}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -1351,13 +1462,14 @@ export default function AdminManagement() {
               </div>
               <div>
                 <Label>Role</Label>
-                <Select value={userFormData.role} onValueChange={(value: "admin" | "user") => setUserFormData({...userFormData, role: value})}>
+                <Select value={userFormData.role_id} onValueChange={(value) => setUserFormData({...userFormData, role_id: value})}>
                   <SelectTrigger>
-                    <SelectValue />
+                    <SelectValue placeholder="Select a role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="admin">Administrator</SelectItem>
+                    {roles.map(role => (
+                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1415,13 +1527,14 @@ export default function AdminManagement() {
               </div>
               <div>
                 <Label>Role</Label>
-                <Select value={editUserFormData.role} onValueChange={(value: "admin" | "user") => setEditUserFormData({...editUserFormData, role: value})}>
+                <Select value={editUserFormData.role_id} onValueChange={(value) => setEditUserFormData({...editUserFormData, role_id: value})}>
                   <SelectTrigger>
-                    <SelectValue />
+                    <SelectValue placeholder="Select a role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="admin">Administrator</SelectItem>
+                    {roles.map(role => (
+                      <SelectItem key={role.id} value={role.id}>{role.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1474,8 +1587,8 @@ export default function AdminManagement() {
               <div className="bg-gray-50 p-4 rounded-lg">
                 <div className="flex items-center justify-between">
                   <span className="font-medium">Current Role:</span>
-                  <Badge className={roleChangeData.currentRole === 'admin' ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}>
-                    {roleChangeData.currentRole === 'admin' ? 'Administrator' : 'User'}
+                  <Badge className={roles.find(role => role.key === roleChangeData.currentRole)?.all_features ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-800'}>
+                    {getRoleLabel(roleChangeData.currentRole)}
                   </Badge>
                 </div>
               </div>
@@ -1484,14 +1597,15 @@ export default function AdminManagement() {
                 <Label>New Role</Label>
                 <Select 
                   value={roleChangeData.newRole} 
-                  onValueChange={(value: "admin" | "user") => setRoleChangeData({...roleChangeData, newRole: value})}
+                  onValueChange={(value) => setRoleChangeData({...roleChangeData, newRole: value})}
                 >
                   <SelectTrigger>
-                    <SelectValue />
+                    <SelectValue placeholder="Select a role" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="user">User</SelectItem>
-                    <SelectItem value="admin">Administrator</SelectItem>
+                    {roles.map(role => (
+                      <SelectItem key={role.id} value={role.key}>{role.name}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -1511,9 +1625,11 @@ export default function AdminManagement() {
                   <AlertTriangle className="h-4 w-4" />
                   <AlertDescription>
                     <strong>Warning:</strong> Changing user roles will immediately affect their system permissions. 
-                    {roleChangeData.newRole === 'admin' 
+                    {roles.find(role => role.key === roleChangeData.newRole)?.all_features
                       ? ' This user will gain full administrative access to the system.'
-                      : ' This user will lose administrative privileges.'
+                      : ` This user will only have access to: ${roles.find(role => role.key === roleChangeData.newRole)?.features
+                          .map(key => appFeatures.find(feature => feature.key === key)?.label || key)
+                          .join(', ') || 'nothing yet'}.`
                     }
                   </AlertDescription>
                 </Alert>
@@ -0,0 +1,436 @@
+import { useState, useEffect } from "react";
+import { Clock, LogIn, LogOut, RefreshCw, UserCheck, AlertTriangle, UserX, CalendarDays } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AttendanceDay,
+  ATTENDANCE_STATUS_STYLES,
+  clockInWorker,
+  clockOutWorker,
+  fetchMonthlyAttendance,
+  formatTimeOfDay,
+  toLocalDateString,
+} from "@/utils/attendance";
+
+interface Worker {
+  id: string;
+  name: string;
+  role: string;
+}
+
+export default function Attendance() {
+  const [workers, setWorkers] = useState<Worker[]>([]);
+  const [todayAttendance, setTodayAttendance] = useState<AttendanceDay[]>([]);
+  const [monthAttendance, setMonthAttendance] = useState<AttendanceDay[]>([]);
+  const [selectedMonth, setSelectedMonth] = useState<string>(toLocalDateString().slice(0, 7));
+  const [isLoading, setIsLoading] = useState(true);
+  const [processingWorkerId, setProcessingWorkerId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const today = toLocalDateString();
+
+  useEffect(() => {
+    fetchToday();
+
+    const attendanceSubscription = supabase
+      .channel('worker_attendance_changes')
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'worker_attendance'
+        },
+        () => {
+          fetchToday();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      attendanceSubscription.unsubscribe();
+    };
+  }, []);
+
+  useEffect(() => {
+    fetchMonth();
+  }, [selectedMonth]);
+
+  const fetchToday = async () => {
+    try {
+      const [workersResponse, attendance] = await Promise.all([
+        supabase.from("workers").select("id, name, role").order("name"),
+        fetchMonthlyAttendance(today),
+      ]);
+
+      if (workersResponse.error) throw workersResponse.error;
+      setWorkers(workersResponse.data || []);
+      setTodayAttendance(attendance.filter(a => a.date === today));
+    } catch (error) {
+      console.error("Error fetching attendance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load today's attendance",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fetchMonth = async () => {
+    try {
+      const attendance = await fetchMonthlyAttendance(selectedMonth);
+      setMonthAttendance(attendance);
+    } catch (error) {
+      console.error("Error fetching monthly attendance:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load monthly attendance",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleClock = async (worker: Worker, action: 'in' | 'out') => {
+    setProcessingWorkerId(worker.id);
+    try {
+      const result = action === 'in' ? await clockInWorker(worker.id) : await clockOutWorker(worker.id);
+
+      if (!result.success) {
+        throw new Error(result.error || result.message);
+      }
+
+      toast({
+        title: action === 'in' ? "Clocked In" : "Clocked Out",
+        description: `${worker.name}: ${result.message}`,
+        variant: result.status === 'late' ? "destructive" : "default",
+      });
+      await fetchToday();
+      if (selectedMonth === today.slice(0, 7)) {
+        fetchMonth();
+      }
+    } catch (error) {
+      console.error(`Error clocking ${action}:`, error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to clock ${action}`,
+        variant: "destructive",
+      });
+    } finally {
+      setProcessingWorkerId(null);
+    }
+  };
+
+  const getTodayRecord = (workerId: string) => todayAttendance.find(a => a.worker_id === workerId);
+
+  const getStatusBadge = (record?: AttendanceDay) => {
+    if (!record) return <Badge variant="outline">-</Badge>;
+    if (record.status === 'upcoming') {
+      return <Badge className="bg-blue-100 text-blue-800 border-blue-200">Not clocked in</Badge>;
+    }
+    const style = ATTENDANCE_STATUS_STYLES[record.status];
+    return <Badge className={style.className}>{style.label}</Badge>;
+  };
+
+  const clockedInCount = todayAttendance.filter(a => a.check_in_time && !a.check_out_time).length;
+  const lateCount = todayAttendance.filter(a => a.status === 'late').length;
+  const scheduledCount = todayAttendance.filter(a => a.is_scheduled).length;
+  const notInCount = todayAttendance.filter(a => a.is_scheduled && !a.check_in_time).length;
+
+  // Monthly grid
+  const [year, month] = selectedMonth.split('-').map(Number);
+  const daysInMonth = new Date(year, month, 0).getDate();
+  const monthDays = Array.from({ length: daysInMonth }, (_, i) => i + 1);
+  const monthByWorker = new Map<string, Map<number, AttendanceDay>>();
+  monthAttendance.forEach(day => {
+    if (!monthByWorker.has(day.worker_id)) monthByWorker.set(day.worker_id, new Map());
+    monthByWorker.get(day.worker_id)!.set(Number(day.date.slice(8, 10)), day);
+  });
+
+  const getWorkerMonthTotals = (workerId: string) => {
+    const days = Array.from(monthByWorker.get(workerId)?.values() || []);
+    return {
+      present: days.filter(d => d.status === 'present').length,
+      late: days.filter(d => d.status === 'late').length,
+      halfDay: days.filter(d => d.status === 'half_day').length,
+      absent: days.filter(d => d.status === 'absent').length,
+      hours: days.reduce((sum, d) => sum + Number(d.hours_worked || 0), 0),
+    };
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-teal-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-teal-600 to-emerald-600 bg-clip-text text-transparent">
+            Attendance
+          </h1>
+          <p className="text-muted-foreground">Clock staff in and out and review monthly attendance</p>
+        </div>
+        <Button
+          onClick={() => { fetchToday(); fetchMonth(); }}
+          variant="outline"
+          className="border-teal-200 text-teal-700 hover:bg-teal-50"
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-teal-50 to-emerald-50">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-teal-100 rounded-full">
+                <CalendarDays className="h-6 w-6 text-teal-600" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-teal-600">Scheduled Today</p>
+                <p className="text-2xl font-bold text-teal-900">{scheduledCount}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-emerald-50 to-green-50">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-emerald-100 rounded-full">
+                <UserCheck className="h-6 w-6 text-emerald-600" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-emerald-600">On Shift Now</p>
+                <p className="text-2xl font-bold text-emerald-900">{clockedInCount}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-amber-50 to-orange-50">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-amber-100 rounded-full">
+                <AlertTriangle className="h-6 w-6 text-amber-600" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-amber-600">Late Today</p>
+                <p className="text-2xl font-bold text-amber-900">{lateCount}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-red-50 to-rose-50">
+          <CardContent className="p-6">
+            <div className="flex items-center gap-3">
+              <div className="p-3 bg-red-100 rounded-full">
+                <UserX className="h-6 w-6 text-red-600" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-red-600">Not Clocked In</p>
+                <p className="text-2xl font-bold text-red-900">{notInCount}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="front-desk" className="space-y-6">
+        <TabsList className="bg-teal-50">
+          <TabsTrigger value="front-desk" className="data-[state=active]:bg-white data-[state=active]:text-teal-700">
+            <Clock className="mr-2 h-4 w-4" />
+            Front Desk
+          </TabsTrigger>
+          <TabsTrigger value="monthly" className="data-[state=active]:bg-white data-[state=active]:text-teal-700">
+            <CalendarDays className="mr-2 h-4 w-4" />
+            Monthly Grid
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="front-desk">
+          <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-teal-50/50">
+            <CardHeader className="bg-gradient-to-r from-teal-50 to-emerald-50 border-b border-teal-100">
+              <CardTitle className="text-teal-800">
+                Today - {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+              </CardTitle>
+              <CardDescription className="text-teal-600">
+                Clock-ins more than a few minutes after the scheduled start are marked late automatically
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="p-6">
+              <Table>
+                <TableHeader>
+                  <TableRow className="bg-gradient-to-r from-teal-50 to-emerald-50">
+                    <TableHead className="text-teal-800 font-semibold">Worker</TableHead>
+                    <TableHead className="text-teal-800 font-semibold">Scheduled</TableHead>
+                    <TableHead className="text-teal-800 font-semibold">Clock In</TableHead>
+                    <TableHead className="text-teal-800 font-semibold">Clock Out</TableHead>
+                    <TableHead className="text-teal-800 font-semibold">Hours</TableHead>
+                    <TableHead className="text-teal-800 font-semibold">Status</TableHead>
+                    <TableHead className="text-teal-800 font-semibold text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {workers.map(worker => {
+                    const record = getTodayRecord(worker.id);
+                    const isProcessing = processingWorkerId === worker.id;
+                    return (
+                      <TableRow key={worker.id} className="hover:bg-teal-50/50">
+                        <TableCell>
+                          <div className="font-medium text-gray-900">{worker.name}</div>
+                          <div className="text-xs text-gray-500 capitalize">{worker.role}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-gray-700">
+                          {record?.is_scheduled
+                            ? `${formatTimeOfDay(record.scheduled_start)} - ${formatTimeOfDay(record.scheduled_end)}`
+                            : <span className="text-muted-foreground">Not scheduled</span>}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {formatTimeOfDay(record?.check_in_time || null)}
+                          {record && record.minutes_late > 0 && (
+                            <span className="ml-2 text-xs text-amber-600">+{record.minutes_late} min</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">{formatTimeOfDay(record?.check_out_time || null)}</TableCell>
+                        <TableCell className="text-sm">{record?.check_out_time ? Number(record.hours_worked).toFixed(2) : '-'}</TableCell>
+                        <TableCell>{getStatusBadge(record)}</TableCell>
+                        <TableCell className="text-right">
+                          {!record?.check_in_time ? (
+                            <Button
+                              size="sm"
+                              disabled={isProcessing}
+                              onClick={() => handleClock(worker, 'in')}
+                              className="bg-gradient-to-r from-teal-600 to-emerald-600 hover:from-teal-700 hover:to-emerald-700 text-white"
+                            >
+                              <LogIn className="mr-2 h-4 w-4" />
+                              Clock In
+                            </Button>
+                          ) : !record.check_out_time ? (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={isProcessing}
+                              onClick={() => handleClock(worker, 'out')}
+                              className="border-teal-200 text-teal-700 hover:bg-teal-50"
+                            >
+                              <LogOut className="mr-2 h-4 w-4" />
+                              Clock Out
+                            </Button>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Done for today</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  {workers.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                        No workers found
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="monthly">
+          <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-teal-50/50">
+            <CardHeader className="bg-gradient-to-r from-teal-50 to-emerald-50 border-b border-teal-100">
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <div>
+                  <CardTitle className="text-teal-800">Monthly Attendance</CardTitle>
+                  <CardDescription className="text-teal-600">
+                    Scheduled days without a clock-in are counted as absent
+                  </CardDescription>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="attendance-month">Month</Label>
+                  <Input
+                    id="attendance-month"
+                    type="month"
+                    value={selectedMonth}
+                    onChange={(e) => e.target.value && setSelectedMonth(e.target.value)}
+                    className="border-teal-200"
+                  />
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2 pt-2">
+                {(['present', 'late', 'half_day', 'absent', 'upcoming', 'off'] as const).map(status => (
+                  <Badge key={status} className={ATTENDANCE_STATUS_STYLES[status].className}>
+                    {ATTENDANCE_STATUS_STYLES[status].short && `${ATTENDANCE_STATUS_STYLES[status].short} = `}
+                    {ATTENDANCE_STATUS_STYLES[status].label}
+                  </Badge>
+                ))}
+              </div>
+            </CardHeader>
+            <CardContent className="p-4 overflow-x-auto">
+              <table className="min-w-max border-collapse text-xs">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-white p-2 text-left text-teal-800">Worker</th>
+                    {monthDays.map(day => (
+                      <th key={day} className="w-7 p-1 text-center font-medium text-gray-600">{day}</th>
+                    ))}
+                    <th className="p-2 text-center text-emerald-700">P</th>
+                    <th className="p-2 text-center text-amber-700">L</th>
+                    <th className="p-2 text-center text-orange-700">H</th>
+                    <th className="p-2 text-center text-red-700">A</th>
+                    <th className="p-2 text-center text-teal-800">Hours</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {workers.map(worker => {
+                    const days = monthByWorker.get(worker.id);
+                    const totals = getWorkerMonthTotals(worker.id);
+                    return (
+                      <tr key={worker.id} className="border-t border-gray-100">
+                        <td className="sticky left-0 bg-white p-2 font-medium text-gray-900 whitespace-nowrap">{worker.name}</td>
+                        {monthDays.map(day => {
+                          const record = days?.get(day);
+                          const style = record ? ATTENDANCE_STATUS_STYLES[record.status] : ATTENDANCE_STATUS_STYLES.off;
+                          return (
+                            <td key={day} className="p-0.5">
+                              <div
+                                className={`flex h-6 w-6 items-center justify-center rounded border font-semibold ${style.className}`}
+                                title={record
+                                  ? `${record.date}: ${style.label}${record.check_in_time ? ` (${formatTimeOfDay(record.check_in_time)} - ${formatTimeOfDay(record.check_out_time)})` : ''}`
+                                  : ''}
+                              >
+                                {style.short}
+                              </div>
+                            </td>
+                          );
+                        })}
+                        <td className="p-2 text-center font-semibold text-emerald-700">{totals.present}</td>
+                        <td className="p-2 text-center font-semibold text-amber-700">{totals.late}</td>
+                        <td className="p-2 text-center font-semibold text-orange-700">{totals.halfDay}</td>
+                        <td className="p-2 text-center font-semibold text-red-700">{totals.absent}</td>
+                        <td className="p-2 text-center font-semibold text-teal-800">{totals.hours.toFixed(1)}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
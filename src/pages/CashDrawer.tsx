@@ -0,0 +1,588 @@
+import { useState, useEffect } from "react";
+import { Banknote, Building2, Lock, LockOpen, MinusCircle, Printer, RefreshCw, Scale, Wallet } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ZReportDialog } from "@/components/payments/ZReportDialog";
+import { useToast } from "@/hooks/use-toast";
+import { useBranch } from "@/hooks/useBranch";
+import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import { getPaymentMethodLabel } from "@/utils/payments";
+import {
+  CashDrawerSession,
+  closeCashDrawer,
+  DrawerSummary,
+  fetchClosedDrawerSessions,
+  fetchDrawerSummary,
+  fetchOpenDrawerSession,
+  openCashDrawer,
+  recordDrawerPayout,
+  VARIANCE_TOLERANCE,
+} from "@/utils/cashDrawer";
+
+export default function CashDrawer() {
+  const [openSession, setOpenSession] = useState<CashDrawerSession | null>(null);
+  const [summary, setSummary] = useState<DrawerSummary | null>(null);
+  const [history, setHistory] = useState<CashDrawerSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [openingFloat, setOpeningFloat] = useState("");
+  const [openingNotes, setOpeningNotes] = useState("");
+  const [payout, setPayout] = useState({ name: "", category: "", amount: "" });
+  const [countedCash, setCountedCash] = useState("");
+  const [closingNotes, setClosingNotes] = useState("");
+  const [report, setReport] = useState<DrawerSummary | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+  const { toast } = useToast();
+  const { branches, currentBranchId, isLoading: branchesLoading } = useBranch();
+  // Each branch has its own till, so the drawer needs a single branch in scope
+  const needsBranch = currentBranchId === null && branches.length > 1;
+
+  useEffect(() => {
+    if (!branchesLoading) fetchDrawer();
+  }, [branchesLoading, needsBranch]);
+
+  const fetchDrawer = async () => {
+    if (needsBranch) {
+      setIsLoading(false);
+      return;
+    }
+
+    try {
+      const [session, closedSessions] = await Promise.all([
+        fetchOpenDrawerSession(),
+        fetchClosedDrawerSessions(),
+      ]);
+      setOpenSession(session);
+      setHistory(closedSessions);
+      setSummary(session ? await fetchDrawerSummary(session.id) : null);
+    } catch (error) {
+      console.error("Error fetching cash drawer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the cash drawer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleOpen = async () => {
+    const float = parseFloat(openingFloat);
+    if (isNaN(float) || float < 0) {
+      toast({
+        title: "Invalid Float",
+        description: "Enter the cash in the drawer before trading starts",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await openCashDrawer(float, secureInput.string(openingNotes.trim()) || undefined);
+      if (!result.success) {
+        toast({
+          title: "Could Not Open Drawer",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Drawer Opened",
+        description: `Opening float ${formatCurrency(float)}`,
+      });
+      setOpeningFloat("");
+      setOpeningNotes("");
+      fetchDrawer();
+    } catch (error) {
+      console.error("Error opening cash drawer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to open the cash drawer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handlePayout = async () => {
+    if (!openSession) return;
+
+    const amount = parseFloat(payout.amount);
+    if (!payout.name.trim() || isNaN(amount) || amount <= 0) {
+      toast({
+        title: "Incomplete Pay-out",
+        description: "Enter what was paid for and the amount taken from the till",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await recordDrawerPayout(openSession.id, {
+        name: secureInput.string(payout.name.trim()),
+        category: secureInput.string(payout.category.trim()),
+        amount,
+      });
+      if (!result.success) {
+        toast({
+          title: "Pay-out Failed",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Pay-out Recorded",
+        description: `${formatCurrency(amount)} paid from the drawer`,
+      });
+      setPayout({ name: "", category: "", amount: "" });
+      setSummary(await fetchDrawerSummary(openSession.id));
+    } catch (error) {
+      console.error("Error recording pay-out:", error);
+      toast({
+        title: "Error",
+        description: "Failed to record the pay-out",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    if (!openSession || !summary) return;
+
+    const counted = parseFloat(countedCash);
+    if (isNaN(counted) || counted < 0) {
+      toast({
+        title: "Count Required",
+        description: "Count the cash in the drawer before closing",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const expectedVariance = counted - Number(summary.expected_cash);
+    if (Math.abs(expectedVariance) > VARIANCE_TOLERANCE && !closingNotes.trim() &&
+        !confirm(`The drawer is ${expectedVariance < 0 ? 'short' : 'over'} by ${formatCurrency(Math.abs(expectedVariance))}. Close without a note?`)) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const result = await closeCashDrawer(openSession.id, counted, secureInput.string(closingNotes.trim()) || undefined);
+      if (!result.success) {
+        toast({
+          title: "Could Not Close Drawer",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      toast({
+        title: "Drawer Closed",
+        description: `Variance ${formatCurrency(result.variance || 0)}`,
+      });
+      setCountedCash("");
+      setClosingNotes("");
+      setReport(result.z_report || null);
+      fetchDrawer();
+    } catch (error) {
+      console.error("Error closing cash drawer:", error);
+      toast({
+        title: "Error",
+        description: "Failed to close the cash drawer",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const openReport = async (sessionId: string) => {
+    setLoadingReportId(sessionId);
+    try {
+      setReport(await fetchDrawerSummary(sessionId));
+    } catch (error) {
+      console.error("Error fetching Z-report:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the Z-report",
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingReportId(null);
+    }
+  };
+
+  const getVarianceBadge = (variance: number | null) => {
+    const value = Number(variance ?? 0);
+    if (Math.abs(value) <= VARIANCE_TOLERANCE) {
+      return <Badge className="bg-green-100 text-green-800 border-green-200">Balanced</Badge>;
+    }
+    return value < 0
+      ? <Badge className="bg-red-100 text-red-800 border-red-200">Short {formatCurrency(Math.abs(value))}</Badge>
+      : <Badge className="bg-amber-100 text-amber-800 border-amber-200">Over {formatCurrency(value)}</Badge>;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-16">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (needsBranch) {
+    return (
+      <Card className="border-0 shadow-lg max-w-xl mx-auto mt-8">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="h-5 w-5" />
+            Choose a Branch
+          </CardTitle>
+          <CardDescription>
+            Every branch keeps its own cash drawer. Pick a branch from the switcher at the top of the page to open, pay out or close its till.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  const countedValue = parseFloat(countedCash);
+  const previewVariance = summary && !isNaN(countedValue) ? countedValue - Number(summary.expected_cash) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-green-600 to-lime-600 bg-clip-text text-transparent">
+            Cash Drawer
+          </h1>
+          <p className="text-muted-foreground">Open the till with a float, pay out expenses and reconcile at close of day</p>
+        </div>
+        <Button
+          onClick={fetchDrawer}
+          variant="outline"
+          className="border-green-200 text-green-700 hover:bg-green-50"
+        >
+          <RefreshCw className="mr-2 h-4 w-4" />
+          Refresh
+        </Button>
+      </div>
+
+      {!openSession ? (
+        <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-green-50/50">
+          <CardHeader className="bg-gradient-to-r from-green-50 to-lime-50 border-b border-green-100">
+            <CardTitle className="text-green-800 flex items-center gap-2">
+              <LockOpen className="h-5 w-5" />
+              Open the Drawer
+            </CardTitle>
+            <CardDescription className="text-green-600">
+              No drawer is open. Count the float before the first sale of the day.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 space-y-4 max-w-xl">
+            <div className="grid gap-2">
+              <Label htmlFor="opening-float">Opening Float *</Label>
+              <Input
+                id="opening-float"
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="opening-notes">Notes</Label>
+              <Textarea
+                id="opening-notes"
+                value={openingNotes}
+                onChange={(e) => setOpeningNotes(e.target.value)}
+                rows={2}
+                placeholder="Optional"
+              />
+            </div>
+            <Button
+              onClick={handleOpen}
+              disabled={isSubmitting}
+              className="bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700"
+            >
+              <LockOpen className="mr-2 h-4 w-4" />
+              {isSubmitting ? "Opening..." : "Open Drawer"}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : summary && (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-green-50 to-lime-50">
+              <CardContent className="p-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-green-100 rounded-full">
+                    <Wallet className="h-6 w-6 text-green-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-green-600">Opening Float</p>
+                    <p className="text-2xl font-bold text-green-900">{formatCurrency(Number(summary.opening_float))}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-emerald-50 to-green-50">
+              <CardContent className="p-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-emerald-100 rounded-full">
+                    <Banknote className="h-6 w-6 text-emerald-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-emerald-600">Cash Taken</p>
+                    <p className="text-2xl font-bold text-emerald-900">{formatCurrency(Number(summary.cash_payments))}</p>
+                    {Number(summary.cash_tips || 0) > 0 && (
+                      <p className="text-xs text-emerald-700">+ {formatCurrency(Number(summary.cash_tips))} in tips</p>
+                    )}
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-red-50 to-orange-50">
+              <CardContent className="p-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-red-100 rounded-full">
+                    <MinusCircle className="h-6 w-6 text-red-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-red-600">Refunds & Pay-outs</p>
+                    <p className="text-2xl font-bold text-red-900">
+                      {formatCurrency(Number(summary.cash_refunds) + Number(summary.paid_out_total))}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+            <Card className="border-0 shadow-lg bg-gradient-to-br from-blue-50 to-indigo-50">
+              <CardContent className="p-6">
+                <div className="flex items-center gap-3">
+                  <div className="p-3 bg-blue-100 rounded-full">
+                    <Scale className="h-6 w-6 text-blue-600" />
+                  </div>
+                  <div>
+                    <p className="text-sm font-medium text-blue-600">Expected in Drawer</p>
+                    <p className="text-2xl font-bold text-blue-900">{formatCurrency(Number(summary.expected_cash))}</p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card className="border-0 shadow-lg">
+              <CardHeader className="border-b">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Takings Since Opening</CardTitle>
+                    <CardDescription>
+                      Opened {new Date(summary.opened_at).toLocaleString()}
+                      {summary.opened_by_name ? ` by ${summary.opened_by_name}` : ''}
+                    </CardDescription>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setReport(summary)}>
+                    <Printer className="mr-2 h-4 w-4" />
+                    X-Report
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="p-6 space-y-2 text-sm">
+                {summary.payments_by_method.length === 0 && (
+                  <p className="text-muted-foreground">No payments taken yet</p>
+                )}
+                {summary.payments_by_method.map((method) => (
+                  <div key={method.payment_method} className="flex justify-between">
+                    <span>{getPaymentMethodLabel(method.payment_method)} ({method.count})</span>
+                    <span className="font-medium">{formatCurrency(Number(method.amount))}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t pt-2">
+                  <span>Refunds ({summary.refunds_count})</span>
+                  <span className="font-medium text-red-600">-{formatCurrency(Number(summary.refunds_total))}</span>
+                </div>
+                {summary.paid_out.map((expense) => (
+                  <div key={expense.id} className="flex justify-between">
+                    <span>Paid out: {expense.name}</span>
+                    <span className="font-medium text-red-600">-{formatCurrency(Number(expense.amount))}</span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+
+            <div className="space-y-6">
+              <Card className="border-0 shadow-lg">
+                <CardHeader className="border-b">
+                  <CardTitle className="flex items-center gap-2">
+                    <MinusCircle className="h-5 w-5 text-red-600" />
+                    Pay Out from Till
+                  </CardTitle>
+                  <CardDescription>Cash expenses are also recorded in the expense ledger</CardDescription>
+                </CardHeader>
+                <CardContent className="p-6">
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                    <Input
+                      value={payout.name}
+                      onChange={(e) => setPayout({ ...payout, name: e.target.value })}
+                      placeholder="What for"
+                    />
+                    <Input
+                      value={payout.category}
+                      onChange={(e) => setPayout({ ...payout, category: e.target.value })}
+                      placeholder="Category"
+                    />
+                    <Input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={payout.amount}
+                      onChange={(e) => setPayout({ ...payout, amount: e.target.value })}
+                      placeholder="Amount"
+                    />
+                  </div>
+                  <Button
+                    onClick={handlePayout}
+                    disabled={isSubmitting}
+                    variant="outline"
+                    className="mt-3 border-red-200 text-red-700 hover:bg-red-50"
+                  >
+                    Record Pay-out
+                  </Button>
+                </CardContent>
+              </Card>
+
+              <Card className="border-0 shadow-lg">
+                <CardHeader className="border-b">
+                  <CardTitle className="flex items-center gap-2">
+                    <Lock className="h-5 w-5 text-green-700" />
+                    Close the Drawer
+                  </CardTitle>
+                  <CardDescription>Count every note and coin, then close to print the Z-report</CardDescription>
+                </CardHeader>
+                <CardContent className="p-6 space-y-3">
+                  <div className="grid gap-2">
+                    <Label htmlFor="counted-cash">Counted Cash *</Label>
+                    <Input
+                      id="counted-cash"
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={countedCash}
+                      onChange={(e) => setCountedCash(e.target.value)}
+                      placeholder="0.00"
+                    />
+                  </div>
+                  {previewVariance !== null && (
+                    <div className="flex items-center justify-between text-sm">
+                      <span>Variance against {formatCurrency(Number(summary.expected_cash))} expected</span>
+                      {getVarianceBadge(previewVariance)}
+                    </div>
+                  )}
+                  <div className="grid gap-2">
+                    <Label htmlFor="closing-notes">Notes</Label>
+                    <Textarea
+                      id="closing-notes"
+                      value={closingNotes}
+                      onChange={(e) => setClosingNotes(e.target.value)}
+                      rows={2}
+                      placeholder="Explain any shortage or overage"
+                    />
+                  </div>
+                  <Button
+                    onClick={handleClose}
+                    disabled={isSubmitting}
+                    className="bg-gradient-to-r from-green-600 to-lime-600 hover:from-green-700 hover:to-lime-700"
+                  >
+                    <Lock className="mr-2 h-4 w-4" />
+                    {isSubmitting ? "Closing..." : "Close Drawer"}
+                  </Button>
+                </CardContent>
+              </Card>
+            </div>
+          </div>
+        </>
+      )}
+
+      <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-green-50/50">
+        <CardHeader className="bg-gradient-to-r from-green-50 to-lime-50 border-b border-green-100">
+          <CardTitle className="text-green-800">Closed Sessions</CardTitle>
+          <CardDescription className="text-green-600">Reprint the Z-report of any earlier day</CardDescription>
+        </CardHeader>
+        <CardContent className="p-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Opened</TableHead>
+                <TableHead>Closed</TableHead>
+                <TableHead>Float</TableHead>
+                <TableHead>Expected</TableHead>
+                <TableHead>Counted</TableHead>
+                <TableHead>Variance</TableHead>
+                <TableHead className="text-right">Z-Report</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {history.map((session) => (
+                <TableRow key={session.id}>
+                  <TableCell className="text-sm">{new Date(session.opened_at).toLocaleString()}</TableCell>
+                  <TableCell className="text-sm">{session.closed_at ? new Date(session.closed_at).toLocaleString() : '-'}</TableCell>
+                  <TableCell>{formatCurrency(Number(session.opening_float))}</TableCell>
+                  <TableCell>{formatCurrency(Number(session.expected_cash ?? 0))}</TableCell>
+                  <TableCell>{formatCurrency(Number(session.counted_cash ?? 0))}</TableCell>
+                  <TableCell>{getVarianceBadge(session.variance)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openReport(session.id)}
+                      disabled={loadingReportId === session.id}
+                      className="text-green-700 hover:text-green-800 hover:bg-green-50"
+                    >
+                      {loadingReportId === session.id
+                        ? <RefreshCw className="h-4 w-4 animate-spin" />
+                        : <Printer className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {history.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                    No closed sessions yet
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <ZReportDialog
+        isOpen={!!report}
+        onClose={() => setReport(null)}
+        report={report}
+      />
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Plus, Search, Edit, Trash2, History, Calendar, DollarSign, User, Mail, Phone, Scissors, Palette } from "lucide-react";
+import { Plus, Search, Edit, Trash2, History, Calendar, DollarSign, User, Mail, Phone, Scissors, Palette, Wallet, Award } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,9 +13,16 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { CustomerProductHistory } from "@/components/services/CustomerProductHistory";
+import { CustomerLoyaltyCard } from "@/components/customers/CustomerLoyaltyCard";
+import { LoyaltyProgramSettings } from "@/components/customers/LoyaltyProgramSettings";
+import { PrepaidPackages } from "@/components/customers/PrepaidPackages";
+import { GiftVouchers } from "@/components/customers/GiftVouchers";
 import { formatCurrency } from "@/lib/utils";
 import { customerValidation, CustomerFormData } from "@/utils/validation";
 import { secureFormSubmit, secureInput } from "@/utils/security";
+import { CustomerBalance, fetchCustomerBalances } from "@/utils/payments";
+import { LoyaltyBalance, fetchLoyaltyBalances } from "@/utils/loyalty";
+import { isAdmin } from "@/utils/permissions";
 
 interface Customer {
   id: string;
@@ -45,6 +52,8 @@ interface ServiceHistory {
 
 export default function Customers() {
   const [customers, setCustomers] = useState<Customer[]>([]);
+  const [balances, setBalances] = useState<Record<string, CustomerBalance>>({});
+  const [loyaltyBalances, setLoyaltyBalances] = useState<Record<string, LoyaltyBalance>>({});
   const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null);
   const [serviceHistory, setServiceHistory] = useState<ServiceHistory[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -62,7 +71,7 @@ export default function Customers() {
     notes: "",
   });
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -78,6 +87,19 @@ export default function Customers() {
 
       if (error) throw error;
       setCustomers(data || []);
+
+      // Balances are informational; the list still loads if they fail
+      try {
+        setBalances(await fetchCustomerBalances());
+      } catch (balanceError) {
+        console.error("Error fetching customer balances:", balanceError);
+      }
+
+      try {
+        setLoyaltyBalances(await fetchLoyaltyBalances());
+      } catch (loyaltyError) {
+        console.error("Error fetching loyalty balances:", loyaltyError);
+      }
     } catch (error) {
       console.error("Error fetching customers:", error);
       toast({
@@ -326,7 +348,7 @@ export default function Customers() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 bg-gray-100 p-1">
+        <TabsList className="grid w-full grid-cols-5 bg-gray-100 p-1">
           <TabsTrigger 
             value="customers" 
             className="data-[state=active]:bg-white data-[state=active]:text-purple-600 data-[state=active]:shadow-sm"
@@ -357,6 +379,18 @@ export default function Customers() {
               </span>
             )}
           </TabsTrigger>
+          <TabsTrigger 
+            value="loyalty" 
+            className="data-[state=active]:bg-white data-[state=active]:text-purple-600 data-[state=active]:shadow-sm"
+          >
+            Loyalty Programme
+          </TabsTrigger>
+          <TabsTrigger 
+            value="prepaid" 
+            className="data-[state=active]:bg-white data-[state=active]:text-purple-600 data-[state=active]:shadow-sm"
+          >
+            Packages & Vouchers
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="customers" className="mt-6">
@@ -390,6 +424,8 @@ export default function Customers() {
                       <TableHead className="text-purple-800 font-semibold">Hair Type</TableHead>
                       <TableHead className="text-purple-800 font-semibold">Style Preference</TableHead>
                       <TableHead className="text-purple-800 font-semibold">Member Since</TableHead>
+                      <TableHead className="text-purple-800 font-semibold">Balance</TableHead>
+                      <TableHead className="text-purple-800 font-semibold">Loyalty</TableHead>
                       <TableHead className="text-purple-800 font-semibold text-right">Actions</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -439,6 +475,37 @@ export default function Customers() {
                             {new Date(customer.created_at).toLocaleDateString()}
                           </span>
                         </TableCell>
+                        <TableCell>
+                          {Number(balances[customer.id]?.outstanding_balance || 0) > 0 ? (
+                            <span className="text-sm font-semibold text-amber-600">
+                              {formatCurrency(Number(balances[customer.id].outstanding_balance))} due
+                            </span>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                          {Number(balances[customer.id]?.deposits_held || 0) > 0 && (
+                            <div className="text-xs text-emerald-600">
+                              {formatCurrency(Number(balances[customer.id].deposits_held))} deposit
+                            </div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {loyaltyBalances[customer.id] ? (
+                            <div className="space-y-1">
+                              <div className="text-sm font-semibold text-amber-700 flex items-center gap-1">
+                                <Award className="h-3 w-3" />
+                                {loyaltyBalances[customer.id].points_balance.toLocaleString()} pts
+                              </div>
+                              {loyaltyBalances[customer.id].tier_name && (
+                                <Badge variant="outline" className="text-xs border-amber-300 text-amber-700">
+                                  {loyaltyBalances[customer.id].tier_name}
+                                </Badge>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground">-</span>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right">
                           <div className="flex items-center justify-end space-x-2">
                             <Button
@@ -469,7 +536,7 @@ export default function Customers() {
                     ))}
                     {filteredCustomers.length === 0 && (
                       <TableRow>
-                        <TableCell colSpan={6} className="text-center py-8 text-muted-foreground">
+                        <TableCell colSpan={8} className="text-center py-8 text-muted-foreground">
                           <div className="flex flex-col items-center gap-2">
                             <User className="h-12 w-12 text-gray-300" />
                             <p>No customers found</p>
@@ -510,7 +577,7 @@ export default function Customers() {
                   </div>
                 </CardHeader>
                 <CardContent className="p-6">
-                  <div className="grid gap-6 md:grid-cols-3">
+                  <div className="grid gap-6 md:grid-cols-4">
                     <div className="space-y-3 p-4 bg-blue-50 rounded-lg border border-blue-100">
                       <div className="text-sm font-semibold text-blue-800 flex items-center gap-2">
                         <Mail className="h-4 w-4" />
@@ -548,10 +615,23 @@ export default function Customers() {
                         {selectedCustomer.notes || "No notes available"}
                       </div>
                     </div>
+                    <div className="space-y-3 p-4 bg-amber-50 rounded-lg border border-amber-100">
+                      <div className="text-sm font-semibold text-amber-800 flex items-center gap-2">
+                        <Wallet className="h-4 w-4" />
+                        Account
+                      </div>
+                      <div className="space-y-1 text-sm text-amber-700">
+                        <div>Outstanding: {formatCurrency(Number(balances[selectedCustomer.id]?.outstanding_balance || 0))}</div>
+                        <div>Deposits held: {formatCurrency(Number(balances[selectedCustomer.id]?.deposits_held || 0))}</div>
+                        <div>Total paid: {formatCurrency(Number(balances[selectedCustomer.id]?.total_paid || 0))}</div>
+                      </div>
+                    </div>
                   </div>
                 </CardContent>
               </Card>
 
+              <CustomerLoyaltyCard customerId={selectedCustomer.id} />
+
               <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-emerald-50/50">
                 <CardHeader className="bg-gradient-to-r from-emerald-50 to-teal-50 border-b border-emerald-100">
                   <CardTitle className="text-emerald-800">Service Records</CardTitle>
@@ -639,6 +719,15 @@ export default function Customers() {
             />
           )}
         </TabsContent>
+
+        <TabsContent value="loyalty" className="mt-6">
+          <LoyaltyProgramSettings canManage={isAdmin(profile)} />
+        </TabsContent>
+
+        <TabsContent value="prepaid" className="mt-6 space-y-6">
+          <PrepaidPackages customers={customers} canManage={isAdmin(profile)} />
+          <GiftVouchers customers={customers} />
+        </TabsContent>
       </Tabs>
 
       <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
@@ -4,6 +4,8 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Users, UserCheck, Package, AlertTriangle, TrendingUp, Calendar, Activity, DollarSign, Zap } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useBranch } from "@/hooks/useBranch";
+import { BranchComparison } from "@/components/branches/BranchComparison";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
 import { formatCurrency } from "@/lib/utils";
@@ -45,6 +47,7 @@ export default function Dashboard() {
   });
   const [isLoading, setIsLoading] = useState(true);
   const [showAllActivities, setShowAllActivities] = useState(false);
+  const { branches, currentBranch } = useBranch();
 
   useEffect(() => {
     fetchDashboardStats();
@@ -239,7 +242,9 @@ export default function Dashboard() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold text-gray-900">Dashboard</h1>
-          <p className="text-gray-600">Welcome to your salon management dashboard</p>
+          <p className="text-gray-600">
+            {currentBranch ? `${currentBranch.name} overview` : branches.length > 1 ? 'Consolidated overview of all branches' : 'Welcome to your salon management dashboard'}
+          </p>
         </div>
       </div>
 
@@ -456,6 +461,14 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      {branches.length > 1 && (
+        <BranchComparison
+          dateFrom={new Date(new Date().getFullYear(), new Date().getMonth(), 1).toLocaleDateString('en-CA')}
+          dateTo={new Date().toLocaleDateString('en-CA')}
+          description="This month's figures per branch, with the consolidated total"
+        />
+      )}
+
       {/* Quick Stats Row */}
       <div className="grid gap-4 md:grid-cols-3">
         <Card className="border-0 shadow-md bg-gradient-to-r from-purple-50 to-pink-50">
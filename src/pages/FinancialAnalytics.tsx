@@ -20,12 +20,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
+import { useBranch } from '@/hooks/useBranch';
+import { BranchComparison } from '@/components/branches/BranchComparison';
+import { PrepaidLiability } from '@/components/customers/PrepaidLiability';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ResponsiveContainer, AreaChart, Area, LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, PieChart, Pie, Cell } from 'recharts';
 import { formatCurrency } from '@/lib/utils';
+import { fetchReorderSuggestions, ReorderSuggestion } from '@/utils/reorder';
 
 interface FinancialMetrics {
   totalRevenue: number;
+  retailRevenue: number;
+  totalRefunds: number;
   totalExpenses: number;
   netProfit: number;
   profitMargin: number;
@@ -52,20 +58,33 @@ interface ProductPerformance {
   product_name: string;
   quantity_sold: number;
   revenue_generated: number;
+  cost_of_goods: number;
+  gross_profit: number;
   profit_margin: number;
   stock_level: number;
   trend: 'increasing' | 'decreasing' | 'stable';
   category: string;
   supplier: string;
   reorder_point: number;
-  days_of_inventory: number;
+  days_of_inventory: number | null;
   service_sales: number;
   cart_sales: number;
 }
 
+interface ServiceMargin {
+  service_name: string;
+  services_count: number;
+  revenue: number;
+  cost_of_goods: number;
+  gross_profit: number;
+  gross_margin: number;
+}
+
 interface MonthlyData {
   month: string;
   revenue: number;
+  retail_sales?: number;
+  refunds?: number; // negative: refunds and voids reduce revenue
   expenses: number;
   profit: number;
   services_count: number;
@@ -133,9 +152,12 @@ export default function FinancialAnalytics() {
   const [selectedPeriod, setSelectedPeriod] = useState('current_month');
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear().toString());
   const [isLoading, setIsLoading] = useState(false);
+  // yyyy-mm-dd bounds of the selected period, for the branch comparison
+  const [periodRange, setPeriodRange] = useState<{ from: string; to: string } | null>(null);
   const [financialMetrics, setFinancialMetrics] = useState<FinancialMetrics | null>(null);
   const [expenseCategories, setExpenseCategories] = useState<ExpenseCategory[]>([]);
   const [topProducts, setTopProducts] = useState<ProductPerformance[]>([]);
+  const [serviceMargins, setServiceMargins] = useState<ServiceMargin[]>([]);
   const [monthlyData, setMonthlyData] = useState<MonthlyData[]>([]);
   const [businessInsights, setBusinessInsights] = useState<BusinessInsight[]>([]);
   const [expenseFields, setExpenseFields] = useState<ExpenseField[]>([
@@ -151,6 +173,7 @@ export default function FinancialAnalytics() {
   const [isBusinessInsightsLoading, setIsBusinessInsightsLoading] = useState(false);
   
   const { user } = useAuth();
+  const { branches, currentBranch } = useBranch();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -246,13 +269,18 @@ export default function FinancialAnalytics() {
       if (startDate.getFullYear() < selectedYearNum) {
         startDate = new Date(selectedYearNum, 0, 1);
       }
+      setPeriodRange({ from: startDate.toLocaleDateString('en-CA'), to: endDate.toLocaleDateString('en-CA') });
       
       // Fetch real data in parallel
       const [
         { data: services, error: servicesError },
         { data: expenses, error: expensesError },
         { data: customers, error: customersError },
-        { data: previousPeriodServices, error: previousPeriodError }
+        { data: previousPeriodServices, error: previousPeriodError },
+        { data: retailSales, error: retailSalesError },
+        { data: refunds, error: refundsError },
+        { data: previousPeriodSales, error: previousPeriodSalesError },
+        { data: previousPeriodRefunds, error: previousPeriodRefundsError }
       ] = await Promise.all([
         // Current period services
         supabase
@@ -284,10 +312,36 @@ export default function FinancialAnalytics() {
           .eq('status', 'completed')
           .eq('created_by', user?.id)
           .gte('date_time', new Date(startDate.getTime() - (endDate.getTime() - startDate.getTime())).toISOString())
-          .lt('date_time', startDate.toISOString())
+          .lt('date_time', startDate.toISOString()),
+
+        // Retail sales and refunds (RLS limits non-admins to their own sales)
+        supabase
+          .from('sales_transactions')
+          .select('total_amount, created_at')
+          .gte('created_at', startDate.toISOString())
+          .lte('created_at', endDate.toISOString()),
+
+        supabase
+          .from('sales_refunds')
+          .select('total_amount, created_at')
+          .gte('created_at', startDate.toISOString())
+          .lte('created_at', endDate.toISOString()),
+
+        supabase
+          .from('sales_transactions')
+          .select('total_amount, created_at')
+          .gte('created_at', new Date(startDate.getTime() - (endDate.getTime() - startDate.getTime())).toISOString())
+          .lt('created_at', startDate.toISOString()),
+
+        supabase
+          .from('sales_refunds')
+          .select('total_amount, created_at')
+          .gte('created_at', new Date(startDate.getTime() - (endDate.getTime() - startDate.getTime())).toISOString())
+          .lt('created_at', startDate.toISOString())
       ]);
       
-      if (servicesError || expensesError || customersError || previousPeriodError) {
+      if (servicesError || expensesError || customersError || previousPeriodError ||
+          retailSalesError || refundsError || previousPeriodSalesError || previousPeriodRefundsError) {
         throw new Error('Failed to fetch financial data');
       }
       
@@ -298,13 +352,19 @@ export default function FinancialAnalytics() {
       console.log('- Previous period services:', previousPeriodServices?.length || 0);
       
       // Calculate metrics
-      const totalRevenue = services?.reduce((sum, service) => sum + (service.service_price || 0), 0) || 0;
+      const serviceRevenue = services?.reduce((sum, service) => sum + (service.service_price || 0), 0) || 0;
+      const retailRevenue = retailSales?.reduce((sum, sale) => sum + (sale.total_amount || 0), 0) || 0;
+      const totalRefunds = refunds?.reduce((sum, refund) => sum + (refund.total_amount || 0), 0) || 0;
+      const totalRevenue = serviceRevenue + retailRevenue - totalRefunds;
       const totalExpenses = expenses?.reduce((sum, expense) => sum + (expense.amount || 0), 0) || 0;
       const netProfit = totalRevenue - totalExpenses;
       const profitMargin = totalRevenue > 0 ? (netProfit / totalRevenue) * 100 : 0;
       
       // Calculate growth
-      const previousPeriodRevenue = previousPeriodServices?.reduce((sum, service) => sum + (service.service_price || 0), 0) || 0;
+      const previousPeriodRevenue =
+        (previousPeriodServices?.reduce((sum, service) => sum + (service.service_price || 0), 0) || 0) +
+        (previousPeriodSales?.reduce((sum, sale) => sum + (sale.total_amount || 0), 0) || 0) -
+        (previousPeriodRefunds?.reduce((sum, refund) => sum + (refund.total_amount || 0), 0) || 0);
       const monthlyGrowth = previousPeriodRevenue > 0 ? ((totalRevenue - previousPeriodRevenue) / previousPeriodRevenue) * 100 : 0;
       
       // Calculate average order value
@@ -320,6 +380,8 @@ export default function FinancialAnalytics() {
       
       const realMetrics: FinancialMetrics = {
         totalRevenue,
+        retailRevenue,
+        totalRefunds,
         totalExpenses,
         netProfit,
         profitMargin: Math.round(profitMargin * 10) / 10,
@@ -846,7 +908,7 @@ export default function FinancialAnalytics() {
              // First, get completed services within the date range
        const { data: completedServices, error: servicesError } = await supabase
          .from('services')
-         .select('id, date_time, service_price')
+         .select('id, date_time, service_price, service_name')
          .eq('status', 'completed')
          .gte('date_time', startDate.toISOString())
          .lte('date_time', endDate.toISOString())
@@ -862,6 +924,7 @@ export default function FinancialAnalytics() {
       if (!completedServices || completedServices.length === 0) {
         // No completed services in this period, show empty state
         setTopProducts([]);
+        setServiceMargins([]);
         return;
       }
 
@@ -882,11 +945,64 @@ export default function FinancialAnalytics() {
       console.log("Found", serviceProductsData?.length || 0, "service products");
       console.log("Service products data:", serviceProductsData);
 
-      // Also fetch cart sales from inventory transactions
+      // Cost of the products each service used, from its stock deductions
+      const { data: serviceDeductions, error: serviceDeductionsError } = await supabase
+        .from('inventory_transactions')
+        .select('item_id, reference_number, cost_amount')
+        .eq('transaction_type', 'stock_out')
+        .in('reference_number', serviceIds.map(id => `SERVICE-${id}`));
+
+      if (serviceDeductionsError) {
+        console.error("Error fetching service deductions:", serviceDeductionsError);
+        throw serviceDeductionsError;
+      }
+
+      const serviceCostById = new Map<string, number>();
+      const serviceCostByItem = new Map<string, number>();
+      serviceDeductions?.forEach(deduction => {
+        const serviceId = (deduction.reference_number || '').replace('SERVICE-', '');
+        const cost = Number(deduction.cost_amount) || 0;
+        serviceCostById.set(serviceId, (serviceCostById.get(serviceId) || 0) + cost);
+        serviceCostByItem.set(deduction.item_id, (serviceCostByItem.get(deduction.item_id) || 0) + cost);
+      });
+
+      // Gross margin per service: its price less the cost of the products it used
+      const marginsByService = new Map<string, ServiceMargin>();
+      completedServices.forEach(service => {
+        const name = service.service_name || 'Unnamed Service';
+        const margin = marginsByService.get(name) || {
+          service_name: name,
+          services_count: 0,
+          revenue: 0,
+          cost_of_goods: 0,
+          gross_profit: 0,
+          gross_margin: 0,
+        };
+        margin.services_count += 1;
+        margin.revenue += Number(service.service_price) || 0;
+        margin.cost_of_goods += serviceCostById.get(service.id) || 0;
+        marginsByService.set(name, margin);
+      });
+      setServiceMargins(
+        Array.from(marginsByService.values())
+          .map(margin => {
+            const gross_profit = margin.revenue - margin.cost_of_goods;
+            return {
+              ...margin,
+              gross_profit,
+              gross_margin: margin.revenue > 0 ? Math.round((gross_profit / margin.revenue) * 1000) / 10 : 0,
+            };
+          })
+          .sort((a, b) => b.gross_profit - a.gross_profit)
+      );
+
+      // Also fetch cart sales from inventory transactions. Service deductions are
+      // stock_out rows too, but they are already counted from service_products.
       const { data: cartSalesData, error: cartSalesError } = await supabase
         .from('inventory_transactions')
-        .select('item_id, quantity, unit_price, total_amount, transaction_date')
+        .select('item_id, quantity, unit_price, total_amount, cost_amount, transaction_date')
         .eq('transaction_type', 'stock_out')
+        .or('reference_number.is.null,reference_number.not.like.SERVICE-*')
         .gte('transaction_date', startDate.toISOString())
         .lte('transaction_date', endDate.toISOString())
         .eq('created_by', user.id);
@@ -908,6 +1024,8 @@ export default function FinancialAnalytics() {
           quantity: sp.quantity,
           price_per_unit: sp.price_per_unit,
           total_price: sp.total_price,
+          // Counted from the service's stock deductions below
+          cost: 0,
           source: 'service'
         })));
       }
@@ -919,6 +1037,7 @@ export default function FinancialAnalytics() {
           quantity: cs.quantity,
           price_per_unit: cs.unit_price,
           total_price: cs.total_amount,
+          cost: Number(cs.cost_amount) || 0,
           source: 'cart'
         })));
       }
@@ -949,6 +1068,13 @@ export default function FinancialAnalytics() {
         inventoryItems?.map(item => [item.id, item]) || []
       );
 
+      // Stock, usage velocity and reorder point from the reorder engine
+      const reorderData = await fetchReorderSuggestions().catch((error): ReorderSuggestion[] => {
+        console.error("Error fetching reorder data:", error);
+        return [];
+      });
+      const reorderMap = new Map(reorderData.map(item => [item.item_id, item]));
+
       console.log("Processing combined sales data with inventory data...");
       console.log("Found", inventoryItems?.length || 0, "inventory items");
       console.log("Total sales records:", allProductSales.length);
@@ -962,6 +1088,7 @@ export default function FinancialAnalytics() {
         category: string; 
         quantity_sold: number; 
         revenue_generated: number; 
+        cost_of_goods: number;
         unit_price: number;
         total_quantity: number;
         service_sales: number;
@@ -973,6 +1100,7 @@ export default function FinancialAnalytics() {
         quantity: number;
         price_per_unit: number;
         total_price: number;
+        cost: number;
         source: 'service' | 'cart';
       }) => {
         const productId = item.inventory_item_id;
@@ -987,6 +1115,7 @@ export default function FinancialAnalytics() {
             category: 'Inventory Item', // Default category for inventory items
             quantity_sold: 0,
             revenue_generated: 0,
+            cost_of_goods: serviceCostByItem.get(productId) || 0,
             unit_price: product?.unit_price || 0,
             total_quantity: 0,
             service_sales: 0,
@@ -1000,6 +1129,7 @@ export default function FinancialAnalytics() {
         
         productSalesData[productId].quantity_sold += quantity;
         productSalesData[productId].revenue_generated += quantity * price;
+        productSalesData[productId].cost_of_goods += item.cost;
         productSalesData[productId].total_quantity += quantity;
         
         // Track sales by source
@@ -1012,32 +1142,28 @@ export default function FinancialAnalytics() {
 
       // Convert to array and calculate additional metrics
       const productsArray = Object.values(productSalesData).map(product => {
-        // Calculate profit margin (assuming 30% profit margin for demo)
-        const cost = product.revenue_generated * 0.7; // 70% of revenue as cost
-        const profit = product.revenue_generated - cost;
-        const profit_margin = product.revenue_generated > 0 ? (profit / product.revenue_generated) * 100 : 0;
+        // Gross margin from the average cost of the units sold or used
+        const gross_profit = product.revenue_generated - product.cost_of_goods;
+        const profit_margin = product.revenue_generated > 0 ? (gross_profit / product.revenue_generated) * 100 : 0;
         
-        // Mock stock level and reorder point for now
-        const stock_level = Math.max(0, Math.floor(Math.random() * 50) + 10);
-        const reorder_point = Math.floor(stock_level * 0.3);
-        
-        // Calculate days of inventory (simplified)
-        const days_of_inventory = product.quantity_sold > 0 ? Math.floor((stock_level / product.quantity_sold) * 30) : 0;
+        const reorder = reorderMap.get(product.product_id);
+        const stock_level = reorder?.current_stock ?? 0;
+        const reorder_point = reorder?.reorder_point ?? 0;
+        const days_of_inventory = reorder?.days_of_inventory ?? null;
         
         // Determine trend based on stock level vs reorder point
         let trend: 'increasing' | 'decreasing' | 'stable' = 'stable';
-        if (stock_level < reorder_point) {
+        if (stock_level <= reorder_point) {
           trend = 'decreasing';
         } else if (stock_level > reorder_point * 2) {
           trend = 'increasing';
         }
         
-        // Mock supplier
-        const suppliers = ['Supplier A', 'Supplier B', 'Supplier C', 'Local Vendor'];
-        const supplier = suppliers[Math.floor(Math.random() * suppliers.length)];
+        const supplier = reorder?.supplier_name || 'No supplier';
         
         return {
           ...product,
+          gross_profit,
           profit_margin: Math.round(profit_margin * 10) / 10, // Round to 1 decimal place
           stock_level,
           reorder_point,
@@ -1150,6 +1276,28 @@ export default function FinancialAnalytics() {
          throw expensesError;
        }
 
+       // Retail sales add to revenue; refunds and voids are booked as negative revenue
+       const [
+         { data: retailSales, error: retailSalesError },
+         { data: refundsData, error: refundsError }
+       ] = await Promise.all([
+         supabase
+           .from('sales_transactions')
+           .select('total_amount, created_at')
+           .gte('created_at', startDate.toISOString())
+           .lte('created_at', endDate.toISOString()),
+         supabase
+           .from('sales_refunds')
+           .select('total_amount, created_at')
+           .gte('created_at', startDate.toISOString())
+           .lte('created_at', endDate.toISOString())
+       ]);
+
+       if (retailSalesError || refundsError) {
+         console.error("Error fetching retail sales:", retailSalesError || refundsError);
+         throw retailSalesError || refundsError;
+       }
+
        console.log("Found", completedServices?.length || 0, "completed services");
        console.log("Found", expensesData?.length || 0, "expenses");
 
@@ -1184,6 +1332,8 @@ export default function FinancialAnalytics() {
          monthlyData[monthKey] = {
            month: monthKey,
            revenue: 0,
+           retail_sales: 0,
+           refunds: 0,
            expenses: 0,
            profit: 0,
            services_count: 0,
@@ -1223,6 +1373,23 @@ export default function FinancialAnalytics() {
          });
        }
 
+       // Aggregate retail sales and refunds by month
+       retailSales?.forEach(sale => {
+         const monthKey = new Date(sale.created_at).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+         if (monthlyData[monthKey]) {
+           monthlyData[monthKey].revenue += sale.total_amount || 0;
+           monthlyData[monthKey].retail_sales = (monthlyData[monthKey].retail_sales || 0) + (sale.total_amount || 0);
+         }
+       });
+
+       refundsData?.forEach(refund => {
+         const monthKey = new Date(refund.created_at).toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+         if (monthlyData[monthKey]) {
+           monthlyData[monthKey].revenue -= refund.total_amount || 0;
+           monthlyData[monthKey].refunds = (monthlyData[monthKey].refunds || 0) - (refund.total_amount || 0);
+         }
+       });
+
        // Aggregate expenses by month
        if (expensesData) {
          expensesData.forEach((expense: ExpenseRecord) => {
@@ -1662,7 +1829,7 @@ export default function FinancialAnalytics() {
          }
          
          // Stock level insights
-         const lowStockProducts = topProducts.filter(p => p.stock_level < 10);
+         const lowStockProducts = topProducts.filter(p => p.stock_level <= p.reorder_point);
          if (lowStockProducts.length > 0) {
            insights.push({
              type: 'warning',
@@ -1910,6 +2077,7 @@ export default function FinancialAnalytics() {
           <h1 className="text-3xl font-bold text-gray-900">Financial Analytics & Business Intelligence</h1>
           <p className="text-gray-600 mt-2">
             Real-time financial insights, expense tracking, and business performance analytics
+            {branches.length > 1 && ` — ${currentBranch ? currentBranch.name : 'all branches'}`}
           </p>
         </div>
         <div className="flex gap-2">
@@ -1942,6 +2110,14 @@ export default function FinancialAnalytics() {
                 </span>
               ) : 'No previous data'}
             </p>
+            {(financialMetrics?.retailRevenue || financialMetrics?.totalRefunds) ? (
+              <p className="text-xs text-muted-foreground mt-1">
+                Retail {formatCurrency(financialMetrics.retailRevenue)}
+                {financialMetrics.totalRefunds > 0 && (
+                  <span className="text-red-600"> · Refunds -{formatCurrency(financialMetrics.totalRefunds)}</span>
+                )}
+              </p>
+            ) : null}
           </CardContent>
         </Card>
 
@@ -2025,12 +2201,13 @@ export default function FinancialAnalytics() {
 
       {/* Professional Charts Section */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="trends">Trends</TabsTrigger>
           <TabsTrigger value="expenses">Expenses</TabsTrigger>
           <TabsTrigger value="add-expenses">Add Expenses</TabsTrigger>
           <TabsTrigger value="products">Products</TabsTrigger>
+          <TabsTrigger value="branches">Branches</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -2077,6 +2254,14 @@ export default function FinancialAnalytics() {
                     fillOpacity={0.6}
                     name="Expenses"
                   />
+                  <Area 
+                    type="monotone" 
+                    dataKey="refunds" 
+                    stroke="#f97316" 
+                    fill="#f97316" 
+                    fillOpacity={0.4}
+                    name="Refunds"
+                  />
                 </AreaChart>
               </ResponsiveContainer>
               ) : (
@@ -2137,6 +2322,7 @@ export default function FinancialAnalytics() {
               )}
             </CardContent>
           </Card>
+          {periodRange && <PrepaidLiability dateFrom={periodRange.from} dateTo={periodRange.to} />}
         </TabsContent>
 
         {/* Trends Tab */}
@@ -2756,8 +2942,11 @@ export default function FinancialAnalytics() {
                       <th className="text-left p-2">Category</th>
                       <th className="text-left p-2">Quantity Sold</th>
                       <th className="text-left p-2">Revenue</th>
-                      <th className="text-left p-2">Profit Margin</th>
+                      <th className="text-left p-2">Cost of Goods</th>
+                      <th className="text-left p-2">Gross Margin</th>
                       <th className="text-left p-2">Stock Level</th>
+                      <th className="text-left p-2">Reorder Point</th>
+                      <th className="text-left p-2">Days of Stock</th>
                       <th className="text-left p-2">Trend</th>
                     </tr>
                   </thead>
@@ -2775,19 +2964,22 @@ export default function FinancialAnalytics() {
                         <td className="p-2 text-green-600 font-medium">
                           {formatCurrency(product.revenue_generated)}
                         </td>
+                        <td className="p-2 text-gray-700">{formatCurrency(product.cost_of_goods)}</td>
                         <td className="p-2">
-                          <Badge variant="outline" className="bg-green-100 text-green-800">
+                          <Badge variant="outline" className={product.gross_profit < 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
                             {product.profit_margin.toFixed(1)}%
                           </Badge>
                         </td>
                         <td className="p-2">
                           <Badge 
                             variant="outline" 
-                            className={product.stock_level < 10 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}
+                            className={product.stock_level <= product.reorder_point ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}
                           >
                             {product.stock_level}
                           </Badge>
                         </td>
+                        <td className="p-2">{product.reorder_point}</td>
+                        <td className="p-2">{product.days_of_inventory ?? '-'}</td>
                         <td className="p-2">
                           <Badge 
                             variant="outline" 
@@ -2804,7 +2996,7 @@ export default function FinancialAnalytics() {
                        ))
                      ) : (
                                                 <tr>
-                           <td colSpan={7} className="text-center py-8 text-gray-500">
+                           <td colSpan={10} className="text-center py-8 text-gray-500">
                              <div className="flex flex-col items-center gap-2">
                                <BarChart3 className="h-8 w-8 text-gray-300" />
                                <p>No inventory performance data available</p>
@@ -2818,6 +3010,67 @@ export default function FinancialAnalytics() {
               </div>
             </CardContent>
           </Card>
+
+          {/* Service Gross Margin */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Service Gross Margin</CardTitle>
+              <CardDescription>
+                Service revenue less the average cost of the products each service used
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-2">Service</th>
+                      <th className="text-left p-2">Services</th>
+                      <th className="text-left p-2">Revenue</th>
+                      <th className="text-left p-2">Product Cost</th>
+                      <th className="text-left p-2">Gross Profit</th>
+                      <th className="text-left p-2">Gross Margin</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {serviceMargins.length > 0 ? (
+                      serviceMargins.map((margin) => (
+                        <tr key={margin.service_name} className="border-b hover:bg-gray-50">
+                          <td className="p-2 font-medium">{margin.service_name}</td>
+                          <td className="p-2">{margin.services_count}</td>
+                          <td className="p-2 text-green-600 font-medium">{formatCurrency(margin.revenue)}</td>
+                          <td className="p-2 text-gray-700">{formatCurrency(margin.cost_of_goods)}</td>
+                          <td className="p-2 font-medium">{formatCurrency(margin.gross_profit)}</td>
+                          <td className="p-2">
+                            <Badge variant="outline" className={margin.gross_profit < 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+                              {margin.gross_margin.toFixed(1)}%
+                            </Badge>
+                          </td>
+                        </tr>
+                      ))
+                    ) : (
+                      <tr>
+                        <td colSpan={6} className="text-center py-8 text-gray-500">
+                          No completed services in the selected period
+                        </td>
+                      </tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        {/* Branches Tab */}
+        <TabsContent value="branches" className="space-y-6">
+          {periodRange && (
+            <BranchComparison
+              dateFrom={periodRange.from}
+              dateTo={periodRange.to}
+              description={`${periodRange.from} to ${periodRange.to}, per branch and consolidated`}
+            />
+          )}
         </TabsContent>
       </Tabs>
 
@@ -2871,7 +3124,7 @@ export default function FinancialAnalytics() {
                        <th className="text-left p-2">Inventory Item</th>
                   <th className="text-left p-2">Quantity Sold</th>
                   <th className="text-left p-2">Revenue</th>
-                  <th className="text-left p-2">Profit Margin</th>
+                  <th className="text-left p-2">Gross Margin</th>
                   <th className="text-left p-2">Stock Level</th>
                   <th className="text-left p-2">Trend</th>
                 </tr>
@@ -2892,7 +3145,7 @@ export default function FinancialAnalytics() {
                     <td className="p-2">
                       <Badge 
                         variant="outline" 
-                        className={product.stock_level < 10 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}
+                        className={product.stock_level <= product.reorder_point ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}
                       >
                         {product.stock_level}
                       </Badge>
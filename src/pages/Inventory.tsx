@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Plus, Search, Edit, Trash2, Package, AlertTriangle, TrendingUp, TrendingDown, Box, DollarSign, Calendar, Tag, BarChart3, Receipt, RefreshCw, ShoppingCart, X, Minus, CreditCard } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Package, AlertTriangle, TrendingUp, TrendingDown, Box, DollarSign, Calendar, Tag, BarChart3, Receipt, RefreshCw, ShoppingCart, X, Minus, CreditCard, History, ArrowRightLeft, ClipboardList, Truck, Layers, ClipboardCheck, ScanLine, Barcode } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -12,10 +12,33 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
 import { InventoryReceiptDialog } from "@/components/inventory/InventoryReceiptDialog";
+import { SalesReceiptData, SalesReceiptDialog } from "@/components/inventory/SalesReceiptDialog";
+import { SalesHistory } from "@/components/inventory/SalesHistory";
+import { TransferStockDialog } from "@/components/inventory/TransferStockDialog";
+import { InventoryLotsDialog } from "@/components/inventory/InventoryLotsDialog";
+import { ExpiringLots } from "@/components/inventory/ExpiringLots";
+import { PurchaseOrders } from "@/components/inventory/PurchaseOrders";
+import { ReorderSuggestions } from "@/components/inventory/ReorderSuggestions";
+import { SupplierDirectory } from "@/components/inventory/SupplierDirectory";
+import { Stocktakes } from "@/components/inventory/Stocktakes";
+import { BarcodeScannerDialog } from "@/components/inventory/BarcodeScannerDialog";
+import { BarcodeLabelsDialog } from "@/components/inventory/BarcodeLabelsDialog";
+import { SplitPaymentInput } from "@/components/payments/SplitPaymentInput";
+import { TipInput } from "@/components/payments/TipInput";
+import { LoyaltyRedemptionInput } from "@/components/customers/LoyaltyRedemptionInput";
 import { formatCurrency } from "@/lib/utils";
 import { inventoryItemValidation, InventoryItemFormData } from "@/utils/validation";
 import { secureFormSubmit, secureInput } from "@/utils/security";
+import { processCartCheckout } from "@/utils/sales";
+import { PaymentTender, sumTenders } from "@/utils/payments";
+import { Tip, TipEntry, emptyTip, fetchTips, getTipError, recordTip } from "@/utils/tips";
+import { fetchSuppliers, Supplier } from "@/utils/purchasing";
+import { EXPIRY_WARNING_DAYS, fetchInventoryLots, InventoryLot, isLotExpired } from "@/utils/inventoryLots";
+import { findItemByBarcode } from "@/utils/barcode";
+import { isAdmin } from "@/utils/permissions";
+import { fetchRetailCatalog, Product, ProductVariant, variantDisplayName, variantLabel, variantPrice } from "@/utils/retailCatalog";
 
 interface InventoryItem {
   id: string;
@@ -24,10 +47,14 @@ interface InventoryItem {
   min_stock_level: number;
   max_stock_level: number;
   unit_price: number;
+  cost_price: number;
   expiry_date: string | null;
   supplier: string | null;
+  supplier_id?: string | null;
   barcode: string | null;
   category_id: string | null;
+  branch_id?: string;
+  product_variant_id?: string | null;
   created_at: string;
   created_by: string;
 }
@@ -47,6 +74,8 @@ interface Transaction {
   total_amount: number | null;
   reason: string | null;
   reference_number: string | null;
+  lot_number?: string | null;
+  expiry_date?: string | null;
   created_at: string;
   inventory_items: {
     id: string;
@@ -58,9 +87,19 @@ interface Transaction {
   };
 }
 
+// An inventory item on sale in the shop as an active catalog variant
+interface ShopListing {
+  item: InventoryItem;
+  product: Product;
+  variant: ProductVariant;
+  name: string;
+  price: number;
+}
+
 // Cart interfaces
 interface CartItem {
   id: string;
+  variant_id: string;
   name: string;
   unit_price: number;
   quantity: number;
@@ -75,6 +114,12 @@ interface Cart {
   itemCount: number;
 }
 
+interface CheckoutCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+}
+
 export default function Inventory() {
   // Add CSS animations for cart
   useEffect(() => {
@@ -119,14 +164,21 @@ export default function Inventory() {
   }, []);
   const [items, setItems] = useState<InventoryItem[]>([]);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isTransactionDialogOpen, setIsTransactionDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [selectedItem, setSelectedItem] = useState<InventoryItem | null>(null);
+  const [transferItem, setTransferItem] = useState<InventoryItem | null>(null);
+  const [lotsItem, setLotsItem] = useState<InventoryItem | null>(null);
+  const [expiringLots, setExpiringLots] = useState<InventoryLot[]>([]);
+  const [retailCatalog, setRetailCatalog] = useState<Product[]>([]);
   const [searchQuery, setSearchQuery] = useState("");
   const [activeTab, setActiveTab] = useState("shop");
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isLabelsOpen, setIsLabelsOpen] = useState(false);
   
   // Cart state with persistence
   const [cart, setCart] = useState<Cart>(() => {
@@ -150,11 +202,21 @@ export default function Inventory() {
   const [isCartOpen, setIsCartOpen] = useState(false);
   const [isCheckoutOpen, setIsCheckoutOpen] = useState(false);
   const [checkoutData, setCheckoutData] = useState({
+    customerId: "",
     customerName: "",
     customerPhone: "",
-    paymentMethod: "cash",
     referenceNumber: "",
+    workerId: "",
   });
+  const [checkoutTenders, setCheckoutTenders] = useState<PaymentTender[]>([]);
+  const [checkoutRedemption, setCheckoutRedemption] = useState({ points: 0, discount: 0 });
+  const [checkoutTip, setCheckoutTip] = useState<TipEntry>(emptyTip());
+  const [checkoutCustomers, setCheckoutCustomers] = useState<CheckoutCustomer[]>([]);
+  const [checkoutWorkers, setCheckoutWorkers] = useState<{ id: string; name: string }[]>([]);
+  const [isCheckingOut, setIsCheckingOut] = useState(false);
+  const [completedSale, setCompletedSale] = useState<SalesReceiptData | null>(null);
+  const [salesRefreshKey, setSalesRefreshKey] = useState(0);
+  const [purchasingRefreshKey, setPurchasingRefreshKey] = useState(0);
   
   const [formData, setFormData] = useState<InventoryItemFormData>({
     name: "",
@@ -162,8 +224,10 @@ export default function Inventory() {
     min_stock_level: "0",
     max_stock_level: "0",
     unit_price: "0",
+    cost_price: 0,
     expiry_date: "",
     supplier: "",
+    supplier_id: "",
     barcode: "",
     category_id: "",
   });
@@ -173,13 +237,15 @@ export default function Inventory() {
     unit_price: "",
     reason: "",
     reference_number: "",
+    lot_number: "",
+    expiry_date: "",
   });
   
   // Receipt dialog state
   const [isReceiptOpen, setIsReceiptOpen] = useState(false);
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
 
   // Secure input handler with sanitization
@@ -333,13 +399,16 @@ export default function Inventory() {
 
   const fetchData = async () => {
     try {
-      const [itemsResponse, categoriesResponse, transactionsResponse] = await Promise.all([
+      const [itemsResponse, categoriesResponse, transactionsResponse, supplierList, lotList, catalog] = await Promise.all([
         supabase.from("inventory_items").select("*").order("created_at", { ascending: false }),
         supabase.from("inventory_categories").select("*").order("name"),
         supabase.from("inventory_transactions").select(`
           *,
           inventory_items(id, name, unit_price, supplier, current_stock, category_id)
-        `).order("created_at", { ascending: false }).limit(50)
+        `).order("created_at", { ascending: false }).limit(50),
+        fetchSuppliers(),
+        fetchInventoryLots({ expiringWithinDays: EXPIRY_WARNING_DAYS }),
+        fetchRetailCatalog()
       ]);
 
       if (itemsResponse.error) throw itemsResponse.error;
@@ -348,6 +417,9 @@ export default function Inventory() {
 
       setItems(itemsResponse.data || []);
       setCategories(categoriesResponse.data || []);
+      setSuppliers(supplierList);
+      setExpiringLots(lotList);
+      setRetailCatalog(catalog);
       setTransactions(transactionsResponse.data || []);
     } catch (error) {
       console.error("Error fetching data:", error);
@@ -368,16 +440,17 @@ export default function Inventory() {
     try {
       const itemData = {
         name: formData.name,
-        current_stock: parseInt(formData.current_stock.toString()) || 0,
         min_stock_level: parseInt(formData.min_stock_level.toString()) || 0,
         max_stock_level: parseInt(formData.max_stock_level.toString()) || 100,
         unit_price: parseFloat(formData.unit_price.toString()) || 0,
-        expiry_date: formData.expiry_date || null,
+        cost_price: parseFloat(formData.cost_price.toString()) || 0,
         supplier: formData.supplier || null,
+        supplier_id: formData.supplier_id || null,
         barcode: formData.barcode || null,
         category_id: formData.category_id || null,
       };
 
+      // Stock and expiry live in lots once the item exists; they change through transactions
       if (editingItem) {
         const { error } = await supabase
           .from("inventory_items")
@@ -389,7 +462,12 @@ export default function Inventory() {
       } else {
         const { error } = await supabase
           .from("inventory_items")
-          .insert({ ...itemData, created_by: user.id });
+          .insert({
+            ...itemData,
+            current_stock: parseInt(formData.current_stock.toString()) || 0,
+            expiry_date: formData.expiry_date || null,
+            created_by: user.id,
+          });
 
         if (error) throw error;
         toast({ title: "Success", description: "Item created successfully" });
@@ -403,8 +481,10 @@ export default function Inventory() {
         min_stock_level: "0",
         max_stock_level: "0",
         unit_price: "0",
+        cost_price: 0,
         expiry_date: "",
         supplier: "",
+        supplier_id: "",
         barcode: "",
         category_id: "",
       });
@@ -450,6 +530,8 @@ export default function Inventory() {
           total_amount: transactionData.unit_price ? parseFloat(transactionData.unit_price) * quantity : null,
           reason: transactionData.reason || null,
           reference_number: transactionData.reference_number || null,
+          lot_number: isStockIn ? secureInput.string(transactionData.lot_number.trim()) || null : null,
+          expiry_date: isStockIn ? transactionData.expiry_date || null : null,
           created_by: user.id,
         });
 
@@ -493,6 +575,8 @@ export default function Inventory() {
         unit_price: "",
         reason: "",
         reference_number: "",
+        lot_number: "",
+        expiry_date: "",
       });
       fetchData();
     } catch (error) {
@@ -536,8 +620,10 @@ export default function Inventory() {
         min_stock_level: item.min_stock_level.toString(),
         max_stock_level: item.max_stock_level.toString(),
         unit_price: item.unit_price.toString(),
+        cost_price: item.cost_price,
         expiry_date: item.expiry_date || "",
         supplier: item.supplier || "",
+        supplier_id: item.supplier_id || "",
         barcode: item.barcode || "",
         category_id: item.category_id || "",
       });
@@ -549,8 +635,10 @@ export default function Inventory() {
         min_stock_level: "10",
         max_stock_level: "100",
         unit_price: "0",
+        cost_price: 0,
         expiry_date: "",
         supplier: "",
+        supplier_id: "",
         barcode: "",
         category_id: "",
       });
@@ -563,9 +651,11 @@ export default function Inventory() {
     setTransactionData({
       transaction_type: "",
       quantity: "",
-      unit_price: item.unit_price.toString(),
+      unit_price: item.cost_price.toString(),
       reason: "",
       reference_number: "",
+      lot_number: "",
+      expiry_date: "",
     });
     setIsTransactionDialogOpen(true);
   };
@@ -601,6 +691,12 @@ export default function Inventory() {
         cartUpdated = true;
         return false;
       }
+
+      if (!shopListings.some(listing => listing.item.id === cartItem.id && listing.variant.id === cartItem.variant_id)) {
+        // Item is no longer sold as this catalog variant
+        cartUpdated = true;
+        return false;
+      }
       
       if (inventoryItem.current_stock < cartItem.quantity) {
         // Adjust quantity to available stock
@@ -644,6 +740,16 @@ export default function Inventory() {
 
   // Cart functions
   const addToCart = (item: InventoryItem) => {
+    const listing = shopListings.find(candidate => candidate.item.id === item.id);
+    if (!listing) {
+      toast({
+        title: "Not in Catalog",
+        description: `${item.name} is not linked to an active product in the retail catalog`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (item.current_stock <= 0) {
       toast({
         title: "Out of Stock",
@@ -689,8 +795,9 @@ export default function Inventory() {
         // Add new item to cart
         const newItem: CartItem = {
           id: item.id,
-          name: item.name,
-          unit_price: item.unit_price,
+          variant_id: listing.variant.id,
+          name: listing.name,
+          unit_price: listing.price,
           quantity: 1,
           current_stock: item.current_stock,
           supplier: item.supplier,
@@ -714,10 +821,33 @@ export default function Inventory() {
 
     toast({
       title: "Added to Cart",
-      description: `${item.name} added to cart`,
+      description: `${listing.name} added to cart`,
     });
   };
 
+  // On the shop tab a scan rings the item up; elsewhere it opens the item's transaction dialog
+  const handleBarcodeScan = (code: string) => {
+    // Catalog SKUs are printed on shelf labels, so the shop also accepts them
+    const item = findItemByBarcode(items, code)
+      || (activeTab === 'shop' ? shopListings.find(listing => listing.variant.sku === code.trim())?.item : undefined);
+    if (!item) {
+      toast({
+        title: "Unknown Barcode",
+        description: `No inventory item has barcode ${code}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (activeTab === 'shop') {
+      addToCart(item);
+    } else {
+      openTransactionDialog(item);
+    }
+  };
+
+  useBarcodeScanner(handleBarcodeScan, activeTab === 'shop' || activeTab === 'inventory');
+
   const removeFromCart = (itemId: string) => {
     setCart(prevCart => {
       const updatedItems = prevCart.items.filter(item => item.id !== itemId);
@@ -782,6 +912,17 @@ export default function Inventory() {
     });
   };
 
+  // What the tenders must cover once any redeemed points are taken off
+  const checkoutDue = Math.max(0, cart.total - checkoutRedemption.discount);
+
+  const updateCheckoutRedemption = (points: number, discount: number) => {
+    setCheckoutRedemption({ points, discount });
+    // A single tender follows the new total; split tenders are left for the cashier to adjust
+    setCheckoutTenders(prev => (prev.length === 1
+      ? [{ ...prev[0], amount: Math.round(Math.max(0, cart.total - discount) * 100) / 100 }]
+      : prev));
+  };
+
   const handleCheckout = async () => {
     if (cart.items.length === 0) {
       toast({
@@ -801,53 +942,149 @@ export default function Inventory() {
       return;
     }
 
-    try {
-      // Process each item in cart
-      for (const cartItem of cart.items) {
-        // Create inventory transaction for stock out
-        const { error: transactionError } = await supabase
-          .from("inventory_transactions")
-          .insert({
-            item_id: cartItem.id,
-            transaction_type: 'stock_out',
-            quantity: cartItem.quantity,
-            unit_price: cartItem.unit_price,
-            total_amount: cartItem.unit_price * cartItem.quantity,
-            reason: `Sale to ${checkoutData.customerName}`,
-            reference_number: checkoutData.referenceNumber || `SALE-${Date.now()}`,
-            created_by: user?.id,
-          });
+    const tendered = sumTenders(checkoutTenders);
+    if (tendered > checkoutDue + 0.001) {
+      toast({
+        title: "Overpayment",
+        description: `Tenders add up to ${formatCurrency(tendered)} but the total is ${formatCurrency(checkoutDue)}`,
+        variant: "destructive",
+      });
+      return;
+    }
 
-        if (transactionError) throw transactionError;
+    if (tendered < checkoutDue - 0.001 && !checkoutData.customerId) {
+      toast({
+        title: "Customer Required",
+        description: "Select a registered customer to leave a balance outstanding",
+        variant: "destructive",
+      });
+      return;
+    }
 
-        // Update inventory stock
-        const { error: updateError } = await supabase
-          .from("inventory_items")
-          .update({ 
-            current_stock: cartItem.current_stock - cartItem.quantity 
-          })
-          .eq("id", cartItem.id);
+    const tipError = getTipError(checkoutTip);
+    if (tipError) {
+      toast({
+        title: "Invalid Tip",
+        description: tipError,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const tenders = checkoutTenders
+      .filter(tender => tender.amount > 0)
+      .map(tender => ({
+        ...tender,
+        reference_number: secureInput.string((tender.reference_number || '').trim()) || undefined,
+      }));
 
-        if (updateError) throw updateError;
+    setIsCheckingOut(true);
+    try {
+      // Stock deduction, the sale, its items and the tenders are written in one database transaction
+      const result = await processCartCheckout({
+        customerId: checkoutData.customerId || null,
+        customerName: secureInput.string(checkoutData.customerName.trim()),
+        customerPhone: secureInput.string(checkoutData.customerPhone.trim()),
+        paymentMethod: tenders[0]?.payment_method || 'cash',
+        referenceNumber: secureInput.string(checkoutData.referenceNumber.trim()),
+        items: cart.items.map(item => ({ id: item.id, variant_id: item.variant_id, name: item.name, quantity: item.quantity })),
+        payments: tenders,
+        redeemPoints: checkoutData.customerId ? checkoutRedemption.points : 0,
+        workerId: checkoutData.workerId || null,
+      });
+
+      if (!result.success) {
+        toast({
+          title: "Checkout Error",
+          description: result.error || result.message,
+          variant: "destructive",
+        });
+        fetchData();
+        return;
       }
 
       toast({
         title: "Sale Completed",
-        description: `Successfully sold ${cart.itemCount} items for ${formatCurrency(cart.total)}`,
+        description: `Successfully sold ${result.items_count} items for ${formatCurrency(result.total_amount || 0)}`,
+      });
+
+      // The tip is recorded against the sale once it exists; a failure leaves the sale in place
+      let tips: Tip[] = [];
+      if (checkoutTip.amount > 0 && result.sale_id) {
+        try {
+          const tipResult = await recordTip({ saleId: result.sale_id }, {
+            ...checkoutTip,
+            reference_number: secureInput.string((checkoutTip.reference_number || '').trim()) || undefined,
+          });
+
+          if (!tipResult.success) {
+            toast({
+              title: "Tip Not Recorded",
+              description: `The sale was completed, but the tip was not: ${tipResult.error || tipResult.message}`,
+              variant: "destructive",
+            });
+          } else {
+            tips = await fetchTips({ saleId: result.sale_id });
+          }
+        } catch (tipError) {
+          console.error("Error recording tip:", tipError);
+          toast({
+            title: "Tip Not Recorded",
+            description: "The sale was completed, but the tip could not be recorded",
+            variant: "destructive",
+          });
+        }
+      }
+
+      setCompletedSale({
+        items: cart.items.map(item => ({
+          id: item.id,
+          name: item.name,
+          unit_price: item.unit_price,
+          quantity: item.quantity,
+        })),
+        total: result.total_amount ?? cart.total,
+        customerName: checkoutData.customerName.trim(),
+        customerPhone: checkoutData.customerPhone.trim() || undefined,
+        paymentMethod: tenders.length > 1 ? 'split' : tenders[0]?.payment_method || 'on_account',
+        referenceNumber: result.reference_number,
+        saleDate: result.created_at || new Date().toISOString(),
+        payments: tenders,
+        amountPaid: result.amount_paid ?? tendered,
+        balance: result.balance ?? 0,
+        loyalty: checkoutData.customerId && result.points_balance != null
+          ? {
+              points_redeemed: result.points_redeemed || 0,
+              discount: result.loyalty_discount || 0,
+              points_earned: result.points_earned || 0,
+              points_balance: result.points_balance,
+            }
+          : null,
+        tips,
       });
 
       // Clear cart and close checkout
-      clearCart();
+      const emptyCart = { items: [], total: 0, itemCount: 0 };
+      setCart(emptyCart);
+      saveCartToStorage(emptyCart);
       setIsCheckoutOpen(false);
       setCheckoutData({
+        customerId: "",
         customerName: "",
         customerPhone: "",
-        paymentMethod: "cash",
         referenceNumber: "",
+        workerId: "",
       });
+      setCheckoutTenders([]);
+      setCheckoutRedemption({ points: 0, discount: 0 });
+      setCheckoutTip(emptyTip());
 
-      // Refresh inventory data
+      // Refresh inventory data and sales history
       fetchData();
+      setSalesRefreshKey(prev => prev + 1);
+      window.dispatchEvent(new CustomEvent('inventory-data-changed', {
+        detail: { source: 'cart-checkout', saleId: result.sale_id }
+      }));
 
     } catch (error) {
       console.error("Error during checkout:", error);
@@ -856,22 +1093,79 @@ export default function Inventory() {
         description: "Failed to complete sale. Please try again.",
         variant: "destructive",
       });
+    } finally {
+      setIsCheckingOut(false);
+    }
+  };
+
+  const openCheckout = async () => {
+    setCheckoutTenders([{ payment_method: 'cash', amount: Math.round(cart.total * 100) / 100 }]);
+    setCheckoutRedemption({ points: 0, discount: 0 });
+    setCheckoutTip(emptyTip(checkoutData.workerId));
+    setIsCheckoutOpen(true);
+    try {
+      const [customersResult, workersResult] = await Promise.all([
+        supabase.from("customers").select("id, name, phone").order("name"),
+        supabase.from("workers").select("id, name").order("name"),
+      ]);
+
+      if (customersResult.error) throw customersResult.error;
+      if (workersResult.error) throw workersResult.error;
+      setCheckoutCustomers(customersResult.data || []);
+      setCheckoutWorkers(workersResult.data || []);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
     }
   };
 
+  const selectCheckoutCustomer = (customerId: string) => {
+    if (customerId === "walk-in") {
+      setCheckoutData({ ...checkoutData, customerId: "" });
+      updateCheckoutRedemption(0, 0);
+      return;
+    }
+    const customer = checkoutCustomers.find(c => c.id === customerId);
+    if (!customer) return;
+    setCheckoutData({
+      ...checkoutData,
+      customerId: customer.id,
+      customerName: customer.name,
+      customerPhone: customer.phone || "",
+    });
+  };
+
   const filteredItems = items.filter((item) =>
     item.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    (item.supplier && item.supplier.toLowerCase().includes(searchQuery.toLowerCase()))
+    (item.supplier && item.supplier.toLowerCase().includes(searchQuery.toLowerCase())) ||
+    (item.barcode && item.barcode.includes(searchQuery.trim()))
+  );
+
+  const shopListings: ShopListing[] = retailCatalog
+    .filter(product => product.is_active)
+    .flatMap(product => product.product_variants
+      .filter(variant => variant.is_active)
+      .flatMap(variant => items
+        .filter(item => item.product_variant_id === variant.id)
+        .map(item => ({
+          item,
+          product,
+          variant,
+          name: variantDisplayName(product, variant),
+          price: variantPrice(product, variant),
+        }))));
+
+  const filteredListings = shopListings.filter(({ item, product, variant }) =>
+    product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    product.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    variantLabel(variant).toLowerCase().includes(searchQuery.toLowerCase()) ||
+    variant.sku.toLowerCase().includes(searchQuery.trim().toLowerCase()) ||
+    (item.barcode && item.barcode.includes(searchQuery.trim()))
   );
 
   const lowStockItems = items.filter(item => item.current_stock <= item.min_stock_level);
-  const expiringSoonItems = items.filter(item => {
-    if (!item.expiry_date) return false;
-    const expiryDate = new Date(item.expiry_date);
-    const thirtyDaysFromNow = new Date();
-    thirtyDaysFromNow.setDate(thirtyDaysFromNow.getDate() + 30);
-    return expiryDate <= thirtyDaysFromNow && expiryDate >= new Date();
-  });
+  // Per lot: a restock with a later expiry does not hide an older lot that is about to expire
+  const expiringSoonItems = expiringLots.filter(lot => !isLotExpired(lot));
+  const expiredLots = expiringLots.filter(lot => isLotExpired(lot));
 
   const getStockBadge = (item: InventoryItem) => {
     if (item.current_stock <= item.min_stock_level) {
@@ -901,6 +1195,12 @@ export default function Inventory() {
         return <Badge className="bg-red-100 text-red-800 border-red-200 hover:bg-red-200">📤 Stock Out</Badge>;
       case 'adjustment':
         return <Badge className="bg-blue-100 text-blue-800 border-blue-200 hover:bg-blue-200">⚖ Adjustment</Badge>;
+      case 'transfer_in':
+        return <Badge className="bg-indigo-100 text-indigo-800 border-indigo-200 hover:bg-indigo-200">🔀 Transfer In</Badge>;
+      case 'transfer_out':
+        return <Badge className="bg-orange-100 text-orange-800 border-orange-200 hover:bg-orange-200">🔀 Transfer Out</Badge>;
+      case 'write_off':
+        return <Badge className="bg-gray-100 text-gray-800 border-gray-200 hover:bg-gray-200">🗑 Write-off</Badge>;
       default:
         return <Badge variant="outline">{type}</Badge>;
     }
@@ -962,6 +1262,24 @@ export default function Inventory() {
             <BarChart3 className="mr-2 h-4 w-4" />
             Record Transaction
           </Button>
+          <Button 
+            variant="outline"
+            onClick={() => setIsScannerOpen(true)}
+            className="border-green-200 text-green-700 hover:bg-green-50 hover:border-green-300"
+          >
+            <ScanLine className="mr-2 h-4 w-4" />
+            Scan
+          </Button>
+          {isAdmin(profile) && (
+            <Button 
+              variant="outline"
+              onClick={() => setIsLabelsOpen(true)}
+              className="border-green-200 text-green-700 hover:bg-green-50 hover:border-green-300"
+            >
+              <Barcode className="mr-2 h-4 w-4" />
+              Labels
+            </Button>
+          )}
           
           {/* Shopping Cart Button */}
           <Button 
@@ -989,7 +1307,7 @@ export default function Inventory() {
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-3 bg-gray-100 p-1">
+        <TabsList className="grid w-full grid-cols-7 bg-gray-100 p-1">
           <TabsTrigger 
             value="inventory" 
             className="data-[state=active]:bg-white data-[state=active]:text-green-600 data-[state=active]:shadow-sm"
@@ -1011,9 +1329,44 @@ export default function Inventory() {
             <BarChart3 className="mr-2 h-4 w-4" />
             Transactions
           </TabsTrigger>
+          <TabsTrigger 
+            value="sales" 
+            className="data-[state=active]:bg-white data-[state=active]:text-purple-600 data-[state=active]:shadow-sm"
+          >
+            <History className="mr-2 h-4 w-4" />
+            Sales History
+          </TabsTrigger>
+          <TabsTrigger 
+            value="purchasing" 
+            className="data-[state=active]:bg-white data-[state=active]:text-indigo-600 data-[state=active]:shadow-sm"
+          >
+            <ClipboardList className="mr-2 h-4 w-4" />
+            Purchase Orders
+          </TabsTrigger>
+          <TabsTrigger 
+            value="suppliers" 
+            className="data-[state=active]:bg-white data-[state=active]:text-amber-600 data-[state=active]:shadow-sm"
+          >
+            <Truck className="mr-2 h-4 w-4" />
+            Suppliers
+          </TabsTrigger>
+          <TabsTrigger 
+            value="stocktake" 
+            className="data-[state=active]:bg-white data-[state=active]:text-teal-600 data-[state=active]:shadow-sm"
+          >
+            <ClipboardCheck className="mr-2 h-4 w-4" />
+            Stocktake
+          </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="inventory" className="mt-6">
+        <TabsContent value="inventory" className="mt-6 space-y-6">
+          {(expiredLots.length > 0 || expiringSoonItems.length > 0) && (
+            <ExpiringLots
+              expiredLots={expiredLots}
+              expiringSoonLots={expiringSoonItems}
+              onWrittenOff={fetchData}
+            />
+          )}
           <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-green-50/50">
             <CardHeader className="bg-gradient-to-r from-green-50 to-emerald-50 border-b border-green-100">
               <CardTitle className="text-green-800">Inventory Management</CardTitle>
@@ -1043,7 +1396,7 @@ export default function Inventory() {
                       <TableHead className="text-green-800 font-semibold">Category</TableHead>
                       <TableHead className="text-green-800 font-semibold">Stock Level</TableHead>
                       <TableHead className="text-green-800 font-semibold">Status</TableHead>
-                      <TableHead className="text-green-800 font-semibold">Unit Price</TableHead>
+                      <TableHead className="text-green-800 font-semibold">Price / Cost</TableHead>
                       <TableHead className="text-green-800 font-semibold">Expiry Date</TableHead>
                       <TableHead className="text-green-800 font-semibold text-right">Actions</TableHead>
                     </TableRow>
@@ -1087,6 +1440,10 @@ export default function Inventory() {
                             <DollarSign className="h-4 w-4 text-emerald-500" />
                             <span className="font-semibold text-emerald-700">{formatCurrency(item.unit_price)}</span>
                           </div>
+                          <div className="text-xs text-gray-500">
+                            Cost {formatCurrency(item.cost_price)}
+                            {item.unit_price > 0 && ` · ${Math.round(((item.unit_price - item.cost_price) / item.unit_price) * 100)}% margin`}
+                          </div>
                         </TableCell>
                         <TableCell>
                           {item.expiry_date ? (
@@ -1122,6 +1479,25 @@ export default function Inventory() {
                             >
                               <BarChart3 className="h-4 w-4" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setLotsItem(item)}
+                              className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                              title="Lots and expiry dates"
+                            >
+                              <Layers className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setTransferItem(item)}
+                              disabled={item.current_stock <= 0}
+                              className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                              title="Transfer to another branch"
+                            >
+                              <ArrowRightLeft className="h-4 w-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -1165,7 +1541,7 @@ export default function Inventory() {
             <CardHeader className="bg-gradient-to-r from-blue-50 to-cyan-50 border-b border-blue-100">
               <CardTitle className="text-blue-800">Product Shop</CardTitle>
               <CardDescription className="text-blue-600">
-                Browse and purchase products from your inventory
+                Sell products from the retail catalog, at catalog prices
               </CardDescription>
               <div className="flex items-center space-x-2">
                 <Search className="h-4 w-4 text-blue-500" />
@@ -1184,28 +1560,34 @@ export default function Inventory() {
                 </div>
               ) : (
                 <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                  {filteredItems.map((item) => (
+                  {filteredListings.map(({ item, product, variant, price }) => (
                     <div key={item.id} className="bg-white border border-gray-200 rounded-lg p-4 hover:shadow-md transition-all duration-200 transform hover:scale-[1.02]">
+                      {product.photo_url && (
+                        <img
+                          src={product.photo_url}
+                          alt={product.name}
+                          className="mb-3 h-36 w-full rounded-md object-cover"
+                        />
+                      )}
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex-1">
-                          <h3 className="font-medium text-gray-900 text-lg">{item.name}</h3>
-                          {item.supplier && (
-                            <p className="text-sm text-gray-500 flex items-center gap-1">
-                              <Tag className="h-3 w-3" />
-                              {item.supplier}
-                            </p>
+                          <h3 className="font-medium text-gray-900 text-lg">{product.name}</h3>
+                          {variantLabel(variant) && (
+                            <p className="text-sm text-gray-600">{variantLabel(variant)}</p>
                           )}
+                          <p className="text-sm text-gray-500 flex items-center gap-1">
+                            <Tag className="h-3 w-3" />
+                            <span className="font-mono">{variant.sku}</span>
+                          </p>
+                        </div>
+                        <div className="ml-2">
+                          {getCategoryBadge(product.category)}
                         </div>
-                        {item.category_id && (
-                          <div className="ml-2">
-                            {getCategoryBadge(categories.find(c => c.id === item.category_id)?.name || 'Unknown')}
-                          </div>
-                        )}
                       </div>
                       
                       <div className="space-y-3">
                         <div className="flex items-center justify-between">
-                          <span className="text-2xl font-bold text-blue-600">{formatCurrency(item.unit_price)}</span>
+                          <span className="text-2xl font-bold text-blue-600">{formatCurrency(price)}</span>
                           {getStockStatusBadge(item.current_stock, item.min_stock_level)}
                         </div>
                         
@@ -1228,12 +1610,12 @@ export default function Inventory() {
                     </div>
                   ))}
                   
-                  {filteredItems.length === 0 && (
+                  {filteredListings.length === 0 && (
                     <div className="col-span-full text-center py-8 text-muted-foreground">
                       <div className="flex flex-col items-center gap-2">
                         <ShoppingCart className="h-12 w-12 text-gray-300" />
                         <p>No products found</p>
-                        <p className="text-sm">Try adjusting your search or add new inventory items</p>
+                        <p className="text-sm">Try adjusting your search, or link stock to products in the Retail Catalog</p>
                       </div>
                     </div>
                   )}
@@ -1340,6 +1722,41 @@ export default function Inventory() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="sales" className="mt-6">
+          <SalesHistory refreshKey={salesRefreshKey} />
+        </TabsContent>
+
+        <TabsContent value="purchasing" className="mt-6 space-y-6">
+          <ReorderSuggestions
+            refreshKey={purchasingRefreshKey}
+            onOrdersCreated={() => setPurchasingRefreshKey(key => key + 1)}
+          />
+          <PurchaseOrders
+            suppliers={suppliers}
+            items={items}
+            refreshKey={purchasingRefreshKey}
+            onStockReceived={() => {
+              fetchData();
+              setPurchasingRefreshKey(key => key + 1);
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="suppliers" className="mt-6">
+          <SupplierDirectory
+            suppliers={suppliers}
+            itemCounts={items.reduce<Record<string, number>>((counts, item) => {
+              if (item.supplier_id) counts[item.supplier_id] = (counts[item.supplier_id] || 0) + 1;
+              return counts;
+            }, {})}
+            onChanged={fetchData}
+          />
+        </TabsContent>
+
+        <TabsContent value="stocktake" className="mt-6">
+          <Stocktakes onStockAdjusted={fetchData} />
+        </TabsContent>
       </Tabs>
 
       {/* Item Dialog */}
@@ -1366,11 +1783,13 @@ export default function Inventory() {
               </div>
               <div className="grid grid-cols-3 gap-2">
                 <div>
-                  <Label htmlFor="current_stock">Current Stock</Label>
+                  <Label htmlFor="current_stock">{editingItem ? 'Current Stock' : 'Opening Stock'}</Label>
                   <Input
                     id="current_stock"
                     type="number"
                     value={formData.current_stock}
+                    disabled={!!editingItem}
+                    title={editingItem ? 'Use a stock transaction to change stock' : undefined}
                     onChange={(e) => handleInputChange('current_stock', parseInt(e.target.value) || 0)}
                   />
                 </div>
@@ -1393,33 +1812,67 @@ export default function Inventory() {
                   />
                 </div>
               </div>
-              <div className="grid gap-2">
-                <Label htmlFor="unit_price">Unit Price *</Label>
-                <Input
-                  id="unit_price"
-                  type="number"
-                  step="0.01"
-                  value={formData.unit_price}
-                  onChange={(e) => handleInputChange('unit_price', parseFloat(e.target.value) || 0)}
-                  required
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="unit_price">Selling Price *</Label>
+                  <Input
+                    id="unit_price"
+                    type="number"
+                    step="0.01"
+                    value={formData.unit_price}
+                    onChange={(e) => handleInputChange('unit_price', parseFloat(e.target.value) || 0)}
+                    required
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="cost_price">Cost Price</Label>
+                  <Input
+                    id="cost_price"
+                    type="number"
+                    step="0.01"
+                    value={formData.cost_price}
+                    onChange={(e) => handleInputChange('cost_price', parseFloat(e.target.value) || 0)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {editingItem ? 'Average cost; re-averaged on every stock in' : 'Cost of the opening stock'}
+                  </p>
+                </div>
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="supplier">Supplier</Label>
-                <Input
-                  id="supplier"
-                  value={formData.supplier}
-                  onChange={(e) => handleInputChange('supplier', e.target.value)}
-                />
+                <Select
+                  value={formData.supplier_id || "none"}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    supplier_id: value === "none" ? "" : value,
+                    supplier: value === "none" ? "" : suppliers.find(supplier => supplier.id === value)?.name || "",
+                  }))}
+                >
+                  <SelectTrigger id="supplier">
+                    <SelectValue placeholder="Select supplier" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">No supplier</SelectItem>
+                    {suppliers.filter(supplier => supplier.is_active || supplier.id === formData.supplier_id).map(supplier => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="expiry_date">Expiry Date</Label>
+                <Label htmlFor="expiry_date">{editingItem ? 'Earliest Expiry' : 'Expiry Date'}</Label>
                 <Input
                   id="expiry_date"
                   type="date"
                   value={formData.expiry_date}
                   onChange={(e) => handleInputChange('expiry_date', e.target.value)}
+                  disabled={!!editingItem}
                 />
+                {editingItem && (
+                  <p className="text-xs text-muted-foreground">Each delivery has its own expiry date. See the item's lots.</p>
+                )}
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="barcode">Barcode</Label>
@@ -1476,7 +1929,7 @@ export default function Inventory() {
                 />
               </div>
               <div className="grid gap-2">
-                <Label htmlFor="unit_price">Unit Price</Label>
+                <Label htmlFor="unit_price">Unit Cost</Label>
                 <Input
                   id="unit_price"
                   type="number"
@@ -1485,6 +1938,28 @@ export default function Inventory() {
                   onChange={(e) => setTransactionData({ ...transactionData, unit_price: e.target.value })}
                 />
               </div>
+              {transactionData.transaction_type === 'stock_in' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="grid gap-2">
+                    <Label htmlFor="lot_number">Lot Number</Label>
+                    <Input
+                      id="lot_number"
+                      value={transactionData.lot_number}
+                      onChange={(e) => setTransactionData({ ...transactionData, lot_number: e.target.value })}
+                      placeholder="Generated if empty"
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="lot_expiry_date">Expiry Date</Label>
+                    <Input
+                      id="lot_expiry_date"
+                      type="date"
+                      value={transactionData.expiry_date}
+                      onChange={(e) => setTransactionData({ ...transactionData, expiry_date: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
               <div className="grid gap-2">
                 <Label htmlFor="reason">Reason</Label>
                 <Input
@@ -1514,6 +1989,35 @@ export default function Inventory() {
         </DialogContent>
       </Dialog>
 
+      {/* Inter-branch Transfer Dialog */}
+      <TransferStockDialog
+        isOpen={!!transferItem}
+        onClose={() => setTransferItem(null)}
+        item={transferItem}
+        onTransferred={fetchData}
+      />
+
+      <InventoryLotsDialog
+        isOpen={!!lotsItem}
+        onClose={() => setLotsItem(null)}
+        item={lotsItem}
+        onChanged={fetchData}
+      />
+
+      <BarcodeScannerDialog
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScan={handleBarcodeScan}
+        title={activeTab === 'shop' ? 'Scan to Add to Cart' : 'Scan Item'}
+      />
+
+      <BarcodeLabelsDialog
+        isOpen={isLabelsOpen}
+        onClose={() => setIsLabelsOpen(false)}
+        items={items}
+        onChanged={fetchData}
+      />
+
       {/* Inventory Receipt Dialog */}
       <InventoryReceiptDialog
         isOpen={isReceiptOpen}
@@ -1673,7 +2177,7 @@ export default function Inventory() {
                   <Button
                     onClick={() => {
                       setIsCartOpen(false);
-                      setIsCheckoutOpen(true);
+                      openCheckout();
                     }}
                     className="w-full bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-[1.02]"
                   >
@@ -1716,6 +2220,51 @@ export default function Inventory() {
           </DialogHeader>
           
           <div className="space-y-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="checkoutCustomer">Customer</Label>
+              <Select
+                value={checkoutData.customerId || "walk-in"}
+                onValueChange={selectCheckoutCustomer}
+              >
+                <SelectTrigger id="checkoutCustomer">
+                  <SelectValue placeholder="Walk-in customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="walk-in">Walk-in customer</SelectItem>
+                  {checkoutCustomers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}{customer.phone ? ` · ${customer.phone}` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="checkoutWorker">Sold By</Label>
+              <Select
+                value={checkoutData.workerId || "none"}
+                onValueChange={(value) => {
+                  const workerId = value === "none" ? "" : value;
+                  setCheckoutData({ ...checkoutData, workerId });
+                  // The seller gets the tip unless it has already been split
+                  if (workerId && checkoutTip.shares.length <= 1) {
+                    setCheckoutTip({ ...checkoutTip, shares: emptyTip(workerId).shares });
+                  }
+                }}
+              >
+                <SelectTrigger id="checkoutWorker">
+                  <SelectValue placeholder="No commission" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No commission</SelectItem>
+                  {checkoutWorkers.map((worker) => (
+                    <SelectItem key={worker.id} value={worker.id}>{worker.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="grid gap-2">
               <Label htmlFor="customerName">Customer Name *</Label>
               <Input
@@ -1737,23 +2286,27 @@ export default function Inventory() {
               />
             </div>
             
-            <div className="grid gap-2">
-              <Label htmlFor="paymentMethod">Payment Method</Label>
-              <Select 
-                value={checkoutData.paymentMethod} 
-                onValueChange={(value) => setCheckoutData({ ...checkoutData, paymentMethod: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue placeholder="Select payment method" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="cash">Cash</SelectItem>
-                  <SelectItem value="card">Card</SelectItem>
-                  <SelectItem value="mobile_money">Mobile Money</SelectItem>
-                  <SelectItem value="bank_transfer">Bank Transfer</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            {checkoutData.customerId && (
+              <LoyaltyRedemptionInput
+                customerId={checkoutData.customerId}
+                maxDiscount={cart.total}
+                points={checkoutRedemption.points}
+                onChange={updateCheckoutRedemption}
+              />
+            )}
+
+            <SplitPaymentInput
+              tenders={checkoutTenders}
+              onChange={setCheckoutTenders}
+              amountDue={checkoutDue}
+            />
+            {sumTenders(checkoutTenders) < checkoutDue - 0.001 && (
+              <p className="text-xs text-amber-600">
+                The unpaid amount is charged to the customer's account and requires a registered customer.
+              </p>
+            )}
+
+            <TipInput tip={checkoutTip} onChange={setCheckoutTip} />
             
             <div className="grid gap-2">
               <Label htmlFor="referenceNumber">Reference Number</Label>
@@ -1774,10 +2327,16 @@ export default function Inventory() {
                     <span>{formatCurrency(item.unit_price * item.quantity)}</span>
                   </div>
                 ))}
+                {checkoutRedemption.discount > 0 && (
+                  <div className="flex justify-between text-amber-700">
+                    <span>Loyalty discount ({checkoutRedemption.points} pts)</span>
+                    <span>-{formatCurrency(checkoutRedemption.discount)}</span>
+                  </div>
+                )}
                 <div className="border-t pt-2 font-medium">
                   <div className="flex justify-between">
                     <span>Total:</span>
-                    <span className="text-blue-600">{formatCurrency(cart.total)}</span>
+                    <span className="text-blue-600">{formatCurrency(checkoutDue)}</span>
                   </div>
                 </div>
               </div>
@@ -1788,12 +2347,19 @@ export default function Inventory() {
             <Button type="button" variant="outline" onClick={() => setIsCheckoutOpen(false)}>
               Cancel
             </Button>
-            <Button onClick={handleCheckout} className="bg-green-600 hover:bg-green-700">
-              Complete Sale
+            <Button onClick={handleCheckout} disabled={isCheckingOut} className="bg-green-600 hover:bg-green-700">
+              {isCheckingOut ? "Processing..." : "Complete Sale"}
             </Button>
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Receipt for the sale just completed */}
+      <SalesReceiptDialog
+        isOpen={!!completedSale}
+        onClose={() => setCompletedSale(null)}
+        saleData={completedSale}
+      />
     </div>
   );
 }
\ No newline at end of file
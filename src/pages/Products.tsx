@@ -1,43 +1,82 @@
 import { useState, useEffect } from "react";
-import { Plus, Search, Edit, Trash2, Package, Tag, DollarSign, Calendar, Box } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Box, Tag, ImagePlus, Link2, X, Layers } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
+import { useBranch } from "@/hooks/useBranch";
 import { formatCurrency } from "@/lib/utils";
+import { secureInput } from "@/utils/security";
+import {
+  Product,
+  ProductVariant,
+  TaxClass,
+  TAX_CLASS_LABELS,
+  fetchRetailCatalog,
+  linkVariantItem,
+  saveProduct,
+  saveVariant,
+  uploadProductPhoto,
+  variantLabel,
+  variantPrice,
+} from "@/utils/retailCatalog";
 
-interface Product {
+interface StockItem {
   id: string;
   name: string;
-  category: string;
-  unit_price: number;
-  description: string | null;
-  created_by: string;
-  created_at: string;
-  updated_at: string;
+  branch_id: string | null;
+  current_stock: number;
+  product_variant_id: string | null;
 }
 
+const emptyProductForm = {
+  name: "",
+  category: "",
+  unit_price: "",
+  description: "",
+  photo_url: null as string | null,
+  tax_class: "standard" as TaxClass,
+  is_active: true,
+};
+
+const emptyVariantForm = {
+  sku: "",
+  size: "",
+  colour: "",
+  retail_price: "",
+  is_active: true,
+  item_id: "",
+};
+
 export default function Products() {
   const [products, setProducts] = useState<Product[]>([]);
+  const [stockItems, setStockItems] = useState<StockItem[]>([]);
   const [isLoading, setIsLoading] = useState(true);
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
-  const [formData, setFormData] = useState({
-    name: "",
-    category: "",
-    unit_price: "",
-    description: "",
-  });
-  
+
+  const [isProductDialogOpen, setIsProductDialogOpen] = useState(false);
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [productForm, setProductForm] = useState(emptyProductForm);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const [isVariantDialogOpen, setIsVariantDialogOpen] = useState(false);
+  const [variantProduct, setVariantProduct] = useState<Product | null>(null);
+  const [editingVariant, setEditingVariant] = useState<ProductVariant | null>(null);
+  const [variantForm, setVariantForm] = useState(emptyVariantForm);
+
+  const [isSaving, setIsSaving] = useState(false);
+
   const { user } = useAuth();
+  const { branches } = useBranch();
   const { toast } = useToast();
 
   useEffect(() => {
@@ -46,18 +85,23 @@ export default function Products() {
 
   const fetchProducts = async () => {
     try {
-      const { data, error } = await supabase
-        .from("products")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [catalog, itemsResponse] = await Promise.all([
+        fetchRetailCatalog(),
+        supabase
+          .from("inventory_items")
+          .select("id, name, branch_id, current_stock, product_variant_id")
+          .order("name"),
+      ]);
 
-      if (error) throw error;
-      setProducts(data || []);
+      if (itemsResponse.error) throw itemsResponse.error;
+
+      setProducts(catalog);
+      setStockItems(itemsResponse.data || []);
     } catch (error) {
       console.error("Error fetching products:", error);
       toast({
         title: "Error",
-        description: "Failed to load products",
+        description: "Failed to load the retail catalog",
         variant: "destructive",
       });
     } finally {
@@ -65,39 +109,106 @@ export default function Products() {
     }
   };
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const branchName = (branchId: string | null) =>
+    branches.find(branch => branch.id === branchId)?.name || "No branch";
+
+  const openProductDialog = (product?: Product) => {
+    setEditingProduct(product || null);
+    setProductForm(product
+      ? {
+          name: product.name,
+          category: product.category,
+          unit_price: product.unit_price.toString(),
+          description: product.description || "",
+          photo_url: product.photo_url,
+          tax_class: product.tax_class,
+          is_active: product.is_active,
+        }
+      : emptyProductForm);
+    setIsProductDialogOpen(true);
+  };
+
+  const openVariantDialog = (product: Product, variant?: ProductVariant) => {
+    setVariantProduct(product);
+    setEditingVariant(variant || null);
+    setVariantForm(variant
+      ? {
+          sku: variant.sku,
+          size: variant.size || "",
+          colour: variant.colour || "",
+          retail_price: variant.retail_price?.toString() || "",
+          is_active: variant.is_active,
+          item_id: "",
+        }
+      : emptyVariantForm);
+    setIsVariantDialogOpen(true);
+  };
+
+  const handlePhotoChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    if (!file.type.startsWith("image/")) {
+      toast({
+        title: "Invalid Photo",
+        description: "Choose an image file",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const photoUrl = await uploadProductPhoto(file);
+      setProductForm(prev => ({ ...prev, photo_url: photoUrl }));
+    } catch (error) {
+      console.error("Error uploading photo:", error);
+      toast({
+        title: "Error",
+        description: "Failed to upload the photo",
+        variant: "destructive",
+      });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSaveProduct = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    const price = parseFloat(productForm.unit_price);
+    if (!productForm.name.trim() || !productForm.category.trim() || isNaN(price) || price < 0) {
+      toast({
+        title: "Incomplete Product",
+        description: "Enter the product name, category and retail price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
     try {
-      const productData = {
-        name: formData.name,
-        category: formData.category,
-        unit_price: parseFloat(formData.unit_price) || 0,
-        description: formData.description || null,
-        created_by: user.id,
-      };
-
-      if (editingProduct) {
-        const { error } = await supabase
-          .from("products")
-          .update(productData)
-          .eq("id", editingProduct.id);
-
-        if (error) throw error;
-        toast({ title: "Success", description: "Product updated successfully" });
-      } else {
-        const { error } = await supabase
-          .from("products")
-          .insert(productData);
-
-        if (error) throw error;
-        toast({ title: "Success", description: "Product created successfully" });
-      }
+      await saveProduct({
+        id: editingProduct?.id,
+        name: secureInput.string(productForm.name.trim()),
+        category: secureInput.string(productForm.category.trim()),
+        description: secureInput.string(productForm.description.trim()),
+        unitPrice: price,
+        photoUrl: productForm.photo_url,
+        taxClass: productForm.tax_class,
+        isActive: productForm.is_active,
+        createdBy: user.id,
+      });
 
-      setIsDialogOpen(false);
-      setEditingProduct(null);
-      setFormData({ name: "", category: "", unit_price: "", description: "" });
+      toast({
+        title: "Success",
+        description: editingProduct
+          ? "Product updated successfully"
+          : "Product created. Add a variant to start selling it.",
+      });
+      setIsProductDialogOpen(false);
       fetchProducts();
     } catch (error) {
       console.error("Error saving product:", error);
@@ -106,11 +217,85 @@ export default function Products() {
         description: "Failed to save product",
         variant: "destructive",
       });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveVariant = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!variantProduct) return;
+
+    const price = variantForm.retail_price === "" ? null : parseFloat(variantForm.retail_price);
+    if (!variantForm.sku.trim()) {
+      toast({
+        title: "Missing SKU",
+        description: "Every variant needs a unique SKU",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (price !== null && (isNaN(price) || price < 0)) {
+      toast({
+        title: "Invalid Price",
+        description: "Enter a price of zero or more, or leave it empty to use the product price",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const variantId = await saveVariant({
+        id: editingVariant?.id,
+        productId: variantProduct.id,
+        sku: secureInput.string(variantForm.sku.trim()),
+        size: secureInput.string(variantForm.size.trim()),
+        colour: secureInput.string(variantForm.colour.trim()),
+        retailPrice: price,
+        isActive: variantForm.is_active,
+      });
+
+      if (variantForm.item_id) {
+        await linkVariantItem(variantForm.item_id, variantId);
+      }
+
+      toast({
+        title: "Success",
+        description: editingVariant ? "Variant updated successfully" : "Variant added successfully",
+      });
+      setIsVariantDialogOpen(false);
+      fetchProducts();
+    } catch (error) {
+      console.error("Error saving variant:", error);
+      toast({
+        title: "Error",
+        description: "Failed to save variant. SKUs must be unique and each branch can stock a variant only once.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUnlink = async (itemId: string) => {
+    try {
+      await linkVariantItem(itemId, null);
+      toast({ title: "Success", description: "Stock item unlinked; it is no longer sold in the shop" });
+      fetchProducts();
+    } catch (error) {
+      console.error("Error unlinking stock item:", error);
+      toast({
+        title: "Error",
+        description: "Failed to unlink stock item",
+        variant: "destructive",
+      });
     }
   };
 
   const handleDelete = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this product?")) return;
+    if (!confirm("Delete this product and all of its variants? Linked stock stays in inventory but is no longer sold.")) return;
 
     try {
       const { error } = await supabase
@@ -142,24 +327,20 @@ export default function Products() {
       'treatments': 'bg-teal-100 text-teal-800 border-teal-200',
       'extensions': 'bg-rose-100 text-rose-800 border-rose-200',
     };
-    
+
     const colorClass = categoryColors[category.toLowerCase()] || 'bg-gray-100 text-gray-800 border-gray-200';
     return <Badge className={`${colorClass} hover:opacity-80`}>{category}</Badge>;
   };
 
-
-
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    });
-  };
+  // Stock a variant can be linked to: unlinked items, plus anything already linked to it
+  const linkableItems = stockItems.filter(item =>
+    !item.product_variant_id || item.product_variant_id === editingVariant?.id
+  );
 
   const filteredProducts = products.filter((product) =>
     product.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    product.category.toLowerCase().includes(searchQuery.toLowerCase())
+    product.category.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    product.product_variants.some(variant => variant.sku.toLowerCase().includes(searchQuery.toLowerCase()))
   );
 
   return (
@@ -167,12 +348,12 @@ export default function Products() {
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-3xl font-bold tracking-tight bg-gradient-to-r from-rose-600 to-pink-600 bg-clip-text text-transparent">
-            Products
+            Retail Catalog
           </h1>
-          <p className="text-muted-foreground">Manage salon products and pricing</p>
+          <p className="text-muted-foreground">Sellable products, their variants and the stock they are sold from</p>
         </div>
-        <Button 
-          onClick={() => setIsDialogOpen(true)}
+        <Button
+          onClick={() => openProductDialog()}
           className="bg-gradient-to-r from-rose-600 to-pink-600 hover:from-rose-700 hover:to-pink-700 text-white shadow-lg hover:shadow-xl transition-all duration-200"
         >
           <Plus className="mr-2 h-4 w-4" />
@@ -184,12 +365,12 @@ export default function Products() {
         <CardHeader className="bg-gradient-to-r from-rose-50 to-pink-50 border-b border-rose-100">
           <CardTitle className="text-rose-800">Product Catalog</CardTitle>
           <CardDescription className="text-rose-600">
-            View and manage all salon products and their details
+            The shop sells active variants that are linked to a stock item in the branch
           </CardDescription>
           <div className="flex items-center space-x-2">
             <Search className="h-4 w-4 text-rose-500" />
             <Input
-              placeholder="Search products..."
+              placeholder="Search products or SKUs..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
               className="max-w-sm border-rose-200 focus:border-rose-400 focus:ring-rose-400"
@@ -207,21 +388,40 @@ export default function Products() {
                 <TableRow className="bg-gradient-to-r from-rose-50 to-pink-50 hover:bg-gradient-to-r hover:from-rose-100 hover:to-pink-100">
                   <TableHead className="text-rose-800 font-semibold">Product</TableHead>
                   <TableHead className="text-rose-800 font-semibold">Category</TableHead>
-                  <TableHead className="text-rose-800 font-semibold">Price</TableHead>
-                  <TableHead className="text-rose-800 font-semibold">Description</TableHead>
-                  <TableHead className="text-rose-800 font-semibold">Created</TableHead>
+                  <TableHead className="text-rose-800 font-semibold">Tax Class</TableHead>
+                  <TableHead className="text-rose-800 font-semibold">Retail Price</TableHead>
+                  <TableHead className="text-rose-800 font-semibold">Variants</TableHead>
                   <TableHead className="text-rose-800 font-semibold text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
                 {filteredProducts.map((product) => (
-                  <TableRow key={product.id} className="hover:bg-rose-50/50 transition-colors duration-200">
+                  <TableRow key={product.id} className="hover:bg-rose-50/50 transition-colors duration-200 align-top">
                     <TableCell>
-                      <div className="space-y-1">
-                        <div className="font-medium text-gray-900">{product.name}</div>
-                        <div className="text-sm text-gray-500 flex items-center gap-2">
-                          <Tag className="h-3 w-3 text-blue-500" />
-                          Product ID: {product.id.slice(0, 8)}...
+                      <div className="flex items-start gap-3">
+                        {product.photo_url ? (
+                          <img
+                            src={product.photo_url}
+                            alt={product.name}
+                            className="h-12 w-12 rounded-md object-cover border"
+                          />
+                        ) : (
+                          <div className="h-12 w-12 rounded-md bg-rose-100 flex items-center justify-center">
+                            <Box className="h-5 w-5 text-rose-400" />
+                          </div>
+                        )}
+                        <div className="space-y-1">
+                          <div className="font-medium text-gray-900 flex items-center gap-2">
+                            {product.name}
+                            {!product.is_active && <Badge variant="secondary">Inactive</Badge>}
+                          </div>
+                          {product.description && (
+                            <div className="text-sm text-gray-500">
+                              {product.description.length > 50
+                                ? `${product.description.substring(0, 50)}...`
+                                : product.description}
+                            </div>
+                          )}
                         </div>
                       </div>
                     </TableCell>
@@ -229,27 +429,67 @@ export default function Products() {
                       {getCategoryBadge(product.category)}
                     </TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-2">
-                        <DollarSign className="h-4 w-4 text-emerald-500" />
-                        <span className="font-semibold text-emerald-700">{formatCurrency(product.unit_price)}</span>
-                      </div>
+                      <span className="text-sm text-gray-700">{TAX_CLASS_LABELS[product.tax_class]}</span>
                     </TableCell>
                     <TableCell>
-                      {product.description ? (
-                        <span className="text-sm text-gray-600 bg-gray-100 px-2 py-1 rounded">
-                          {product.description.length > 50 
-                            ? `${product.description.substring(0, 50)}...` 
-                            : product.description
-                          }
-                        </span>
-                      ) : (
-                        <span className="text-muted-foreground">-</span>
-                      )}
+                      <span className="font-semibold text-emerald-700">{formatCurrency(product.unit_price)}</span>
                     </TableCell>
                     <TableCell>
-                      <div className="flex items-center gap-2">
-                        <Calendar className="h-4 w-4 text-rose-500" />
-                        <span className="text-sm text-gray-700">{formatDate(product.created_at)}</span>
+                      <div className="space-y-2 min-w-[260px]">
+                        {product.product_variants.map(variant => (
+                          <div key={variant.id} className="rounded-md border bg-white p-2 text-sm">
+                            <div className="flex items-center justify-between gap-2">
+                              <div className="flex items-center gap-2">
+                                <Tag className="h-3 w-3 text-blue-500" />
+                                <span className="font-mono">{variant.sku}</span>
+                                {variantLabel(variant) && (
+                                  <span className="text-gray-600">{variantLabel(variant)}</span>
+                                )}
+                                {!variant.is_active && <Badge variant="secondary">Inactive</Badge>}
+                              </div>
+                              <div className="flex items-center gap-1">
+                                <span className="font-medium">{formatCurrency(variantPrice(product, variant))}</span>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => openVariantDialog(product, variant)}
+                                  className="h-7 w-7 p-0 text-blue-600 hover:text-blue-700 hover:bg-blue-50"
+                                >
+                                  <Edit className="h-3 w-3" />
+                                </Button>
+                              </div>
+                            </div>
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {variant.inventory_items.length === 0 ? (
+                                <span className="text-xs text-amber-700">Not linked to stock</span>
+                              ) : (
+                                variant.inventory_items.map(item => (
+                                  <Badge key={item.id} variant="outline" className="gap-1 font-normal">
+                                    <Link2 className="h-3 w-3" />
+                                    {branchName(item.branch_id)}: {item.current_stock} in stock
+                                    <button
+                                      type="button"
+                                      onClick={() => handleUnlink(item.id)}
+                                      className="ml-1 text-gray-400 hover:text-red-600"
+                                      aria-label="Unlink stock item"
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </Badge>
+                                ))
+                              )}
+                            </div>
+                          </div>
+                        ))}
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => openVariantDialog(product)}
+                          className="border-rose-200 text-rose-700 hover:bg-rose-50"
+                        >
+                          <Layers className="mr-1 h-3 w-3" />
+                          Add Variant
+                        </Button>
                       </div>
                     </TableCell>
                     <TableCell className="text-right">
@@ -257,10 +497,7 @@ export default function Products() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => {
-                            setEditingProduct(product);
-                            setIsDialogOpen(true);
-                          }}
+                          onClick={() => openProductDialog(product)}
                           className="text-blue-600 hover:text-blue-700 hover:bg-blue-50"
                         >
                           <Edit className="h-4 w-4" />
@@ -295,24 +532,62 @@ export default function Products() {
       </Card>
 
       {/* Product Dialog */}
-      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+      <Dialog open={isProductDialogOpen} onOpenChange={setIsProductDialogOpen}>
         <DialogContent className="sm:max-w-md border-0 shadow-2xl">
-          <form onSubmit={handleSubmit}>
+          <form onSubmit={handleSaveProduct}>
             <DialogHeader className="bg-gradient-to-r from-rose-50 to-pink-50 p-6 -m-6 mb-6 rounded-t-lg">
               <DialogTitle className="text-rose-800">
                 {editingProduct ? "Edit Product" : "Add New Product"}
               </DialogTitle>
               <DialogDescription className="text-rose-600">
-                {editingProduct ? "Update product information" : "Create a new product for your salon"}
+                {editingProduct ? "Update product information" : "Add a product to the retail catalog"}
               </DialogDescription>
             </DialogHeader>
             <div className="grid gap-4 py-4">
+              <div className="flex items-center gap-4">
+                {productForm.photo_url ? (
+                  <img
+                    src={productForm.photo_url}
+                    alt="Product"
+                    className="h-20 w-20 rounded-md object-cover border"
+                  />
+                ) : (
+                  <div className="h-20 w-20 rounded-md bg-rose-100 flex items-center justify-center">
+                    <Box className="h-8 w-8 text-rose-400" />
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label htmlFor="photo" className="cursor-pointer inline-flex items-center gap-2 text-sm font-medium text-rose-700 hover:text-rose-800">
+                    <ImagePlus className="h-4 w-4" />
+                    {isUploading ? "Uploading..." : productForm.photo_url ? "Change photo" : "Add photo"}
+                  </Label>
+                  <Input
+                    id="photo"
+                    type="file"
+                    accept="image/*"
+                    onChange={handlePhotoChange}
+                    disabled={isUploading}
+                    className="hidden"
+                  />
+                  {productForm.photo_url && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setProductForm({ ...productForm, photo_url: null })}
+                      className="h-7 px-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+                    >
+                      Remove photo
+                    </Button>
+                  )}
+                </div>
+              </div>
               <div className="grid gap-2">
                 <Label htmlFor="name" className="text-gray-700 font-medium">Product Name *</Label>
                 <Input
                   id="name"
-                  value={formData.name}
-                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  value={productForm.name}
+                  onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
                   required
                   className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
                 />
@@ -321,43 +596,73 @@ export default function Products() {
                 <Label htmlFor="category" className="text-gray-700 font-medium">Category *</Label>
                 <Input
                   id="category"
-                  value={formData.category}
-                  onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+                  value={productForm.category}
+                  onChange={(e) => setProductForm({ ...productForm, category: e.target.value })}
                   required
                   placeholder="e.g., Hair Care, Styling, Tools"
                   className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
                 />
               </div>
-              <div className="grid gap-2">
-                <Label htmlFor="unit_price" className="text-gray-700 font-medium">Unit Price *</Label>
-                <Input
-                  id="unit_price"
-                  type="number"
-                  step="0.01"
-                  value={formData.unit_price}
-                  onChange={(e) => setFormData({ ...formData, unit_price: e.target.value })}
-                  required
-                  className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
-                />
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="unit_price" className="text-gray-700 font-medium">Retail Price *</Label>
+                  <Input
+                    id="unit_price"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={productForm.unit_price}
+                    onChange={(e) => setProductForm({ ...productForm, unit_price: e.target.value })}
+                    required
+                    className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label className="text-gray-700 font-medium">Tax Class</Label>
+                  <Select
+                    value={productForm.tax_class}
+                    onValueChange={(value) => setProductForm({ ...productForm, tax_class: value as TaxClass })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(TAX_CLASS_LABELS) as TaxClass[]).map(taxClass => (
+                        <SelectItem key={taxClass} value={taxClass}>
+                          {TAX_CLASS_LABELS[taxClass]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="description" className="text-gray-700 font-medium">Description</Label>
                 <Textarea
                   id="description"
-                  value={formData.description}
-                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  value={productForm.description}
+                  onChange={(e) => setProductForm({ ...productForm, description: e.target.value })}
                   placeholder="Product description and details..."
                   rows={3}
                   className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
                 />
               </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="product_active" className="text-gray-700 font-medium">Sold in the shop</Label>
+                <Switch
+                  id="product_active"
+                  checked={productForm.is_active}
+                  onCheckedChange={(checked) => setProductForm({ ...productForm, is_active: checked })}
+                />
+              </div>
             </div>
             <DialogFooter className="bg-gray-50 p-6 -m-6 mt-6 rounded-b-lg">
-              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="border-gray-300">
+              <Button type="button" variant="outline" onClick={() => setIsProductDialogOpen(false)} className="border-gray-300">
                 Cancel
               </Button>
-              <Button 
-                type="submit" 
+              <Button
+                type="submit"
+                disabled={isSaving || isUploading}
                 className="bg-gradient-to-r from-rose-600 to-pink-600 hover:from-rose-700 hover:to-pink-700 text-white"
               >
                 {editingProduct ? "Update" : "Create"}
@@ -366,6 +671,110 @@ export default function Products() {
           </form>
         </DialogContent>
       </Dialog>
+
+      {/* Variant Dialog */}
+      <Dialog open={isVariantDialogOpen} onOpenChange={setIsVariantDialogOpen}>
+        <DialogContent className="sm:max-w-md border-0 shadow-2xl">
+          <form onSubmit={handleSaveVariant}>
+            <DialogHeader className="bg-gradient-to-r from-rose-50 to-pink-50 p-6 -m-6 mb-6 rounded-t-lg">
+              <DialogTitle className="text-rose-800">
+                {editingVariant ? "Edit Variant" : "Add Variant"}
+              </DialogTitle>
+              <DialogDescription className="text-rose-600">
+                {variantProduct?.name}: a sellable size or colour with its own SKU
+              </DialogDescription>
+            </DialogHeader>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="sku" className="text-gray-700 font-medium">SKU *</Label>
+                <Input
+                  id="sku"
+                  value={variantForm.sku}
+                  onChange={(e) => setVariantForm({ ...variantForm, sku: e.target.value })}
+                  required
+                  className="font-mono border-gray-200 focus:border-rose-400 focus:ring-rose-400"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="size" className="text-gray-700 font-medium">Size</Label>
+                  <Input
+                    id="size"
+                    value={variantForm.size}
+                    onChange={(e) => setVariantForm({ ...variantForm, size: e.target.value })}
+                    placeholder="e.g., 250ml"
+                    className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="colour" className="text-gray-700 font-medium">Colour</Label>
+                  <Input
+                    id="colour"
+                    value={variantForm.colour}
+                    onChange={(e) => setVariantForm({ ...variantForm, colour: e.target.value })}
+                    placeholder="e.g., Auburn"
+                    className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
+                  />
+                </div>
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="retail_price" className="text-gray-700 font-medium">Retail Price</Label>
+                <Input
+                  id="retail_price"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={variantForm.retail_price}
+                  onChange={(e) => setVariantForm({ ...variantForm, retail_price: e.target.value })}
+                  placeholder={variantProduct ? `${variantProduct.unit_price} (product price)` : undefined}
+                  className="border-gray-200 focus:border-rose-400 focus:ring-rose-400"
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label className="text-gray-700 font-medium">Link Stock Item</Label>
+                <Select
+                  value={variantForm.item_id}
+                  onValueChange={(value) => setVariantForm({ ...variantForm, item_id: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose the inventory item this is sold from" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {linkableItems.map(item => (
+                      <SelectItem key={item.id} value={item.id}>
+                        {item.name} · {branchName(item.branch_id)} ({item.current_stock} in stock)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Each branch stocks a variant as one inventory item. Transfers link the receiving branch's copy automatically.
+                </p>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="variant_active" className="text-gray-700 font-medium">Sold in the shop</Label>
+                <Switch
+                  id="variant_active"
+                  checked={variantForm.is_active}
+                  onCheckedChange={(checked) => setVariantForm({ ...variantForm, is_active: checked })}
+                />
+              </div>
+            </div>
+            <DialogFooter className="bg-gray-50 p-6 -m-6 mt-6 rounded-b-lg">
+              <Button type="button" variant="outline" onClick={() => setIsVariantDialogOpen(false)} className="border-gray-300">
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={isSaving}
+                className="bg-gradient-to-r from-rose-600 to-pink-600 hover:from-rose-700 hover:to-pink-700 text-white"
+              >
+                {editingVariant ? "Update" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
     </div>
   );
-}
\ No newline at end of file
+}
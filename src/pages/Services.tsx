@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Plus, Search, Edit, Trash2, Receipt, Calendar, Users, Scissors, DollarSign, Clock, UserCheck, TrendingUp, RefreshCw } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Receipt, Calendar, Users, Scissors, DollarSign, Clock, UserCheck, TrendingUp, RefreshCw, Wallet, BookOpen } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,15 +9,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { ReceiptDialog } from "@/components/services/ReceiptDialog";
+import { RecordPaymentDialog } from "@/components/payments/RecordPaymentDialog";
 import { InventoryAvailabilityCheck } from "@/components/services/InventoryAvailabilityCheck";
-import { updateWorkerEarnings } from "@/utils/workerEarnings";
+import { AppointmentCalendar } from "@/components/services/AppointmentCalendar";
+import { ServiceCatalog } from "@/components/services/ServiceCatalog";
 import { formatCurrency } from "@/lib/utils";
 import { extendedServiceValidation, ExtendedServiceFormData } from "@/utils/validation";
 import { secureFormSubmit, secureInput } from "@/utils/security";
+import { DEFAULT_SERVICE_DURATION, SERVICE_DURATION_OPTIONS, StaffAvailability, fetchStaffAvailability, getBookingConflictMessage, toDateTimeLocalValue } from "@/utils/appointments";
+import { CatalogService, fetchServiceCatalog, recipeToServiceProducts } from "@/utils/serviceCatalog";
+import { isAdmin } from "@/utils/permissions";
+import { fetchServicePrepaid } from "@/utils/prepaid";
+import { getPayrollLockMessage } from "@/utils/payroll";
 
 interface Service {
   id: string;
@@ -28,10 +36,12 @@ interface Service {
   staff_member_id: string | null;
   status: string;
   date_time: string;
+  duration_minutes?: number;
   notes: string | null;
   created_by: string;
   created_at: string;
   commission_rate?: number | null;
+  catalog_service_id?: string | null;
   customers?: { name: string; email: string; phone: string } | null;
   workers?: { name: string } | null;
 }
@@ -79,11 +89,16 @@ export default function Services() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isReceiptOpen, setIsReceiptOpen] = useState(false);
   const [selectedService, setSelectedService] = useState<Service | null>(null);
+  const [paymentService, setPaymentService] = useState<Service | null>(null);
   const [editingService, setEditingService] = useState<Service | null>(null);
   const [isInventoryCheckOpen, setIsInventoryCheckOpen] = useState(false);
   const [pendingServiceCompletion, setPendingServiceCompletion] = useState<Service | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [isNewCustomer, setIsNewCustomer] = useState(false);
+  const [activeView, setActiveView] = useState("list");
+  const [calendarRefreshKey, setCalendarRefreshKey] = useState(0);
+  const [staffAvailability, setStaffAvailability] = useState<StaffAvailability[] | null>(null);
+  const [catalog, setCatalog] = useState<CatalogService[]>([]);
   
   const [formData, setFormData] = useState<ExtendedServiceFormData>({
     customer_id: "",
@@ -95,7 +110,8 @@ export default function Services() {
     service_price: 0,
     staff_member_id: "",
     status: "pending",
-    date_time: new Date().toISOString().slice(0, 16),
+    date_time: toDateTimeLocalValue(new Date()),
+    duration_minutes: DEFAULT_SERVICE_DURATION,
     notes: "",
     commission_rate: 0,
   });
@@ -103,7 +119,7 @@ export default function Services() {
   const [serviceProducts, setServiceProducts] = useState<ServiceProduct[]>([]);
   const [customerSearchQuery, setCustomerSearchQuery] = useState("");
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
 
   // Secure input handler with sanitization
@@ -139,6 +155,7 @@ export default function Services() {
 
   useEffect(() => {
     fetchData();
+    loadCatalog();
 
     // Set up real-time subscriptions for automatic updates
     const servicesSubscription = supabase
@@ -228,6 +245,34 @@ export default function Services() {
     };
   }, []);
 
+  // Re-check which staff are scheduled and free whenever the booking slot changes
+  useEffect(() => {
+    if (!isDialogOpen || !formData.date_time) {
+      setStaffAvailability(null);
+      return;
+    }
+
+    const start = new Date(formData.date_time);
+    if (isNaN(start.getTime())) return;
+
+    let cancelled = false;
+    fetchStaffAvailability(start, Number(formData.duration_minutes) || DEFAULT_SERVICE_DURATION, editingService?.id)
+      .then(data => {
+        if (!cancelled) setStaffAvailability(data);
+      })
+      .catch(error => {
+        console.error("Error checking staff availability:", error);
+        if (!cancelled) setStaffAvailability(null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isDialogOpen, formData.date_time, formData.duration_minutes, editingService?.id]);
+
+  const getStaffAvailability = (workerId: string) =>
+    staffAvailability?.find(a => a.worker_id === workerId);
+
   const fetchData = async () => {
     try {
       const [servicesResponse, customersResponse, workersResponse, inventoryResponse] = await Promise.all([
@@ -256,6 +301,7 @@ export default function Services() {
         workers: service.workers && typeof service.workers === 'object' && !('error' in (service.workers as object)) ? service.workers : null
       }));
       setServices(transformedServices);
+      setCalendarRefreshKey(prev => prev + 1);
       setCustomers(customersResponse.data || []);
       setWorkers(workersResponse.data || []);
       
@@ -279,6 +325,39 @@ export default function Services() {
     }
   };
 
+  const loadCatalog = async () => {
+    try {
+      setCatalog(await fetchServiceCatalog());
+    } catch (error) {
+      console.error("Error fetching service catalog:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load the service menu",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Fill the booking from a menu service, replacing the products with its standard recipe
+  const applyCatalogService = (catalogServiceId: string) => {
+    const catalogService = catalog.find(service => service.id === catalogServiceId);
+    if (!catalogService) {
+      setFormData(prev => ({ ...prev, catalog_service_id: "" }));
+      return;
+    }
+
+    setFormData(prev => ({
+      ...prev,
+      catalog_service_id: catalogService.id,
+      service_name: catalogService.name,
+      service_category: catalogService.category,
+      service_price: catalogService.default_price,
+      duration_minutes: catalogService.duration_minutes,
+      commission_rate: catalogService.commission_rate ?? 0,
+    }));
+    setServiceProducts(recipeToServiceProducts(catalogService, inventoryItems));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
@@ -340,6 +419,21 @@ export default function Services() {
       return;
     }
 
+    // Active bookings may only go to staff who are scheduled and free at that time
+    const selectedStaffAvailability = formData.staff_member_id ? getStaffAvailability(formData.staff_member_id) : undefined;
+    if (
+      selectedStaffAvailability &&
+      !selectedStaffAvailability.is_available &&
+      (formData.status === 'pending' || formData.status === 'in_progress')
+    ) {
+      toast({
+        title: "Staff Unavailable",
+        description: `${selectedStaffAvailability.worker_name} is not available at this time (${selectedStaffAvailability.reason}).`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       let customerId = formData.customer_id;
 
@@ -374,9 +468,11 @@ export default function Services() {
         service_price: parseFloat(formData.service_price) || 0,
         staff_member_id: formData.staff_member_id || null,
         status: formData.status,
-        date_time: formData.date_time,
+        date_time: new Date(formData.date_time).toISOString(),
+        duration_minutes: Number(formData.duration_minutes) || DEFAULT_SERVICE_DURATION,
         notes: formData.notes || null,
         commission_rate: formData.commission_rate ? parseFloat(formData.commission_rate) : null,
+        catalog_service_id: formData.catalog_service_id || null,
         created_by: user.id,
       };
 
@@ -449,26 +545,8 @@ export default function Services() {
           if (productsError) throw productsError;
         }
 
+        // Commission for services created as completed is posted by the database
         toast({ title: "Success", description: "Service created successfully" });
-        
-        // Calculate worker earnings if staff member is assigned and service is completed
-        if (formData.staff_member_id && formData.status === 'completed') {
-          try {
-            const result = await updateWorkerEarnings(
-              formData.staff_member_id,
-              parseFloat(formData.service_price) || 0,
-              formData.date_time
-            );
-            
-            if (result.success) {
-              console.log("Worker earnings updated:", result.message);
-            } else {
-              console.warn("Failed to update worker earnings:", result.message);
-            }
-          } catch (earningsError) {
-            console.error("Error updating worker earnings:", earningsError);
-          }
-        }
       }
 
       setIsDialogOpen(false);
@@ -483,7 +561,8 @@ export default function Services() {
         service_price: "",
         staff_member_id: "",
         status: "pending",
-        date_time: new Date().toISOString().slice(0, 16),
+        date_time: toDateTimeLocalValue(new Date()),
+        duration_minutes: DEFAULT_SERVICE_DURATION,
         notes: "",
         commission_rate: "",
       });
@@ -507,9 +586,11 @@ export default function Services() {
       }, 500);
     } catch (error) {
       console.error("Error saving service:", error);
+      const conflict = getBookingConflictMessage(error);
+      const payrollLock = getPayrollLockMessage(error);
       toast({
-        title: "Error",
-        description: "Failed to save service",
+        title: conflict ? "Booking Conflict" : payrollLock ? "Payroll Locked" : "Error",
+        description: conflict || payrollLock || "Failed to save service",
         variant: "destructive",
       });
     }
@@ -529,9 +610,10 @@ export default function Services() {
       fetchData();
     } catch (error) {
       console.error("Error deleting service:", error);
+      const payrollLock = getPayrollLockMessage(error);
       toast({
-        title: "Error",
-        description: "Failed to delete service",
+        title: payrollLock ? "Payroll Locked" : "Error",
+        description: payrollLock || "Failed to delete service",
         variant: "destructive",
       });
     }
@@ -548,7 +630,8 @@ export default function Services() {
       service_price: "",
       staff_member_id: "",
       status: "pending",
-      date_time: new Date().toISOString().slice(0, 16),
+      date_time: toDateTimeLocalValue(new Date()),
+      duration_minutes: DEFAULT_SERVICE_DURATION,
       notes: "",
       commission_rate: "",
     });
@@ -569,9 +652,11 @@ export default function Services() {
         service_price: service.service_price.toString(),
         staff_member_id: service.staff_member_id || "",
         status: service.status,
-        date_time: new Date(service.date_time).toISOString().slice(0, 16),
+        date_time: toDateTimeLocalValue(new Date(service.date_time)),
+        duration_minutes: service.duration_minutes || DEFAULT_SERVICE_DURATION,
         notes: service.notes || "",
         commission_rate: service.commission_rate?.toString() || "",
+        catalog_service_id: service.catalog_service_id || "",
       });
       
       // Fetch existing service products
@@ -611,7 +696,8 @@ export default function Services() {
         service_price: "",
         staff_member_id: "",
         status: "pending",
-        date_time: new Date().toISOString().slice(0, 16),
+        date_time: toDateTimeLocalValue(new Date()),
+        duration_minutes: DEFAULT_SERVICE_DURATION,
         notes: "",
         commission_rate: "",
       });
@@ -620,6 +706,25 @@ export default function Services() {
     setIsDialogOpen(true);
   };
 
+  // Open the booking dialog pre-filled from an empty calendar slot
+  const openNewAppointment = (start: Date, staffMemberId: string | null) => {
+    setEditingService(null);
+    resetForm();
+    setFormData(prev => ({
+      ...prev,
+      staff_member_id: staffMemberId || "",
+      date_time: toDateTimeLocalValue(start),
+    }));
+    setIsDialogOpen(true);
+  };
+
+  const openServiceFromCalendar = (serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    if (service) {
+      openDialog(service);
+    }
+  };
+
   const openReceipt = (service: Service) => {
     setSelectedService(service);
     setIsReceiptOpen(true);
@@ -706,28 +811,32 @@ export default function Services() {
         throw updateError;
       }
 
+      // The worker's commission is posted to the ledger with the status change
       console.log('Service status updated successfully');
 
-      // Update worker earnings if staff member is assigned
-      if (service.staff_member_id) {
-        try {
-          await updateWorkerEarnings(service.staff_member_id, service.service_price, service.commission_rate);
-          console.log('Worker earnings updated');
-        } catch (earningsError) {
-          console.warn('Warning: Failed to update worker earnings:', earningsError);
-          // Don't fail the service completion for earnings update failure
+      // A matching prepaid package is redeemed by the database on completion
+      let packageNote = '';
+      try {
+        const packageUnit = (await fetchServicePrepaid(service.id)).find(item => item.source === 'package');
+        if (packageUnit) {
+          packageNote = ` Paid from the customer's "${packageUnit.name}" package.`;
         }
+      } catch (prepaidError) {
+        console.warn('Warning: Failed to check prepaid package redemption:', prepaidError);
       }
 
       // Success message with details
       toast({
         title: "✅ Service Completed Successfully",
-        description: `"${service.service_name}" has been completed and inventory has been updated.`,
+        description: `"${service.service_name}" has been completed and inventory has been updated.${packageNote}`,
         className: "bg-green-50 border-green-200 text-green-800",
       });
 
       console.log('Service completed successfully');
 
+      // Take the payment and any tip while the client is still here
+      setPaymentService({ ...service, status: 'completed' });
+
       // Refresh ALL data to show updated inventory levels
       await fetchData(); // This will refresh both services and inventory items
 
@@ -920,6 +1029,42 @@ export default function Services() {
         </div>
       </div>
 
+      <Tabs value={activeView} onValueChange={setActiveView} className="space-y-6">
+        <TabsList className="bg-blue-50">
+          <TabsTrigger value="list" className="data-[state=active]:bg-white data-[state=active]:text-blue-700">
+            <Scissors className="mr-2 h-4 w-4" />
+            Service List
+          </TabsTrigger>
+          <TabsTrigger value="calendar" className="data-[state=active]:bg-white data-[state=active]:text-blue-700">
+            <Calendar className="mr-2 h-4 w-4" />
+            Calendar
+          </TabsTrigger>
+          <TabsTrigger value="menu" className="data-[state=active]:bg-white data-[state=active]:text-blue-700">
+            <BookOpen className="mr-2 h-4 w-4" />
+            Service Menu
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="menu">
+          <ServiceCatalog
+            catalog={catalog}
+            inventoryItems={inventoryItems}
+            canManage={isAdmin(profile)}
+            onChanged={loadCatalog}
+          />
+        </TabsContent>
+
+        <TabsContent value="calendar">
+          <AppointmentCalendar
+            workers={workers}
+            refreshKey={calendarRefreshKey}
+            onSelectService={openServiceFromCalendar}
+            onCreateAt={openNewAppointment}
+            onRescheduled={fetchData}
+          />
+        </TabsContent>
+
+        <TabsContent value="list">
       <Card className="border-0 shadow-lg bg-gradient-to-br from-white to-blue-50/50">
         <CardHeader className="bg-gradient-to-r from-blue-50 to-cyan-50 border-b border-blue-100">
           <CardTitle className="text-blue-800">Service Directory</CardTitle>
@@ -987,6 +1132,10 @@ export default function Services() {
                         <Calendar className="h-4 w-4 text-blue-500" />
                         <span className="text-sm text-gray-700">{formatDate(service.date_time)}</span>
                       </div>
+                      <div className="flex items-center gap-2 text-xs text-gray-500 mt-1">
+                        <Clock className="h-3 w-3" />
+                        {service.duration_minutes || DEFAULT_SERVICE_DURATION} min
+                      </div>
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-2">
@@ -1012,6 +1161,17 @@ export default function Services() {
                         >
                           <Receipt className="h-4 w-4" />
                         </Button>
+                        {service.status !== 'cancelled' && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setPaymentService(service)}
+                            className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                            title={service.status === 'completed' ? 'Take payment' : 'Take deposit'}
+                          >
+                            <Wallet className="h-4 w-4" />
+                          </Button>
+                        )}
                         <Button
                           variant="ghost"
                           size="sm"
@@ -1048,6 +1208,8 @@ export default function Services() {
           )}
         </CardContent>
       </Card>
+        </TabsContent>
+      </Tabs>
 
       {/* Service Dialog */}
       <Dialog open={isDialogOpen} onOpenChange={(open) => {
@@ -1201,6 +1363,33 @@ export default function Services() {
                 </div>
               )}
 
+              <div className="grid gap-2">
+                <Label className="text-gray-700 font-medium">Menu Service</Label>
+                <Select
+                  value={formData.catalog_service_id || "custom"}
+                  onValueChange={(value) => applyCatalogService(value === "custom" ? "" : value)}
+                >
+                  <SelectTrigger className="border-gray-200 focus:border-blue-400 focus:ring-blue-400">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">Custom service</SelectItem>
+                    {catalog
+                      .filter(service => service.is_active || service.id === formData.catalog_service_id)
+                      .map(service => (
+                        <SelectItem key={service.id} value={service.id}>
+                          {service.name} - {formatCurrency(service.default_price)}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                {formData.catalog_service_id && (
+                  <p className="text-xs text-gray-500">
+                    Price, duration, commission and products come from the menu and can still be adjusted.
+                  </p>
+                )}
+              </div>
+
               <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
                 <Label htmlFor="service_name" className="text-gray-700 font-medium">Service Name *</Label>
@@ -1268,9 +1457,45 @@ export default function Services() {
                       <SelectValue placeholder="Select staff member (optional)" />
                     </SelectTrigger>
                     <SelectContent>
-                      {workers.map((worker) => (
-                        <SelectItem key={worker.id} value={worker.id}>
-                          {worker.name}
+                      {workers.map((worker) => {
+                        const availability = getStaffAvailability(worker.id);
+                        const isUnavailable = availability ? !availability.is_available : false;
+                        return (
+                          <SelectItem
+                            key={worker.id}
+                            value={worker.id}
+                            disabled={isUnavailable && worker.id !== formData.staff_member_id}
+                          >
+                            {worker.name}
+                            {availability && (
+                              <span className={`ml-2 text-xs ${isUnavailable ? 'text-red-500' : 'text-emerald-600'}`}>
+                                {isUnavailable ? availability.reason : 'Available'}
+                              </span>
+                            )}
+                          </SelectItem>
+                        );
+                      })}
+                    </SelectContent>
+                  </Select>
+                  {staffAvailability && (
+                    <p className="text-xs text-gray-500">
+                      {staffAvailability.filter(a => a.is_available).length} of {workers.length} staff free at this time
+                    </p>
+                  )}
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="duration_minutes" className="text-gray-700 font-medium">Duration *</Label>
+                  <Select
+                    value={String(formData.duration_minutes || DEFAULT_SERVICE_DURATION)}
+                    onValueChange={(value) => setFormData({ ...formData, duration_minutes: parseInt(value) })}
+                  >
+                    <SelectTrigger className="border-gray-200 focus:border-blue-400 focus:ring-blue-400">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SERVICE_DURATION_OPTIONS.map((minutes) => (
+                        <SelectItem key={minutes} value={String(minutes)}>
+                          {minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)}h${minutes % 60 ? ` ${minutes % 60}m` : ''}`}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -1482,6 +1707,18 @@ export default function Services() {
         service={selectedService}
       />
 
+      {/* Payments and deposits */}
+      <RecordPaymentDialog
+        isOpen={!!paymentService}
+        onClose={() => setPaymentService(null)}
+        target={paymentService ? { serviceId: paymentService.id } : null}
+        title={paymentService?.status === 'completed' ? 'Service Payment' : 'Service Deposit'}
+        description={paymentService ? `${paymentService.customers?.name || 'Customer'} · ${paymentService.service_name}` : undefined}
+        isDeposit={!!paymentService && paymentService.status !== 'completed'}
+        customerId={paymentService?.customer_id}
+        workerId={paymentService?.staff_member_id}
+      />
+
       {/* Inventory Availability Check Dialog */}
       <Dialog open={isInventoryCheckOpen} onOpenChange={setIsInventoryCheckOpen}>
         <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -11,7 +11,8 @@ import {
   Search,
   Clock,
   UserCheck,
-  Receipt
+  Receipt,
+  HandCoins
 } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -26,6 +27,13 @@ import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/hooks/useAuth";
 import { formatCurrency } from "@/lib/utils";
+import { AttendanceSummary, calculateProratedSalary, fetchAttendanceSummary } from "@/utils/attendance";
+import { StaffAdvance, fetchStaffAdvances, getAdvanceBalance } from "@/utils/staffAdvances";
+import { RuleCommission, commissionByRule, fetchCommissionEntries, fetchWorkerEarnings, netCommissionByService, recalculateAllWorkerEarnings } from "@/utils/workerEarnings";
+import { fetchWorkerTips } from "@/utils/tips";
+import { isAdmin } from "@/utils/permissions";
+import { PayrollRuns } from "@/components/workers/PayrollRuns";
+import { CommissionRules } from "@/components/workers/CommissionRules";
 
 interface Worker {
   id: string;
@@ -50,11 +58,14 @@ interface ServiceHistory {
   status: string;
   service_commission_rate?: number;
   worker_commission_rate?: number;
+  commission_rule?: string | null;
+  commission_basis?: 'gross' | 'net';
 }
 
 interface DailyEarnings {
   date: string;
   earnings: number;
+  tips: number;
   services_count: number;
   services: ServiceHistory[];
 }
@@ -71,6 +82,8 @@ export default function WorkerPayroll() {
   const [isWorkerDetailOpen, setIsWorkerDetailOpen] = useState(false);
   const [workerServiceHistory, setWorkerServiceHistory] = useState<ServiceHistory[]>([]);
   const [workerDailyEarnings, setWorkerDailyEarnings] = useState<DailyEarnings[]>([]);
+  const [workerRuleCommissions, setWorkerRuleCommissions] = useState<RuleCommission[]>([]);
+  const [workerAdvances, setWorkerAdvances] = useState<StaffAdvance[]>([]);
   const [selectedWorkerDate, setSelectedWorkerDate] = useState<string>(new Date().toISOString().slice(0, 10));
   const [isCommissionEditOpen, setIsCommissionEditOpen] = useState(false);
   const [editingCommissionWorker, setEditingCommissionWorker] = useState<Worker | null>(null);
@@ -78,19 +91,31 @@ export default function WorkerPayroll() {
   const [isServiceCommissionEditOpen, setIsServiceCommissionEditOpen] = useState(false);
   const [editingServiceCommission, setEditingServiceCommission] = useState<{serviceId: string, serviceName: string, currentRate: number} | null>(null);
   const [newServiceCommissionRate, setNewServiceCommissionRate] = useState<string>("");
+  const [attendanceSummaries, setAttendanceSummaries] = useState<Record<string, AttendanceSummary>>({});
+  const [isRebuilding, setIsRebuilding] = useState(false);
   
-  const { user } = useAuth();
+  const { user, profile } = useAuth();
   const { toast } = useToast();
 
   useEffect(() => {
     fetchWorkers();
-  }, []);
+  }, [selectedMonth]);
+
+  useEffect(() => {
+    fetchAttendance();
+  }, [selectedMonth]);
 
   useEffect(() => {
     if (selectedWorker) {
       fetchWorkerServiceHistory(selectedWorker.id);
     }
-  }, [selectedWorker, selectedWorkerDate]);
+  }, [selectedWorker, selectedWorkerDate, selectedMonth]);
+
+  useEffect(() => {
+    if (selectedWorker) {
+      fetchWorkerAdvances(selectedWorker.id);
+    }
+  }, [selectedWorker]);
 
   const fetchWorkers = async () => {
     try {
@@ -101,17 +126,18 @@ export default function WorkerPayroll() {
         .order("name");
 
       if (error) throw error;
+
+      // Commission totals come from the ledger, for the selected month
+      const earnings = await fetchWorkerEarnings(selectedMonth);
       
-      // Fetch real-time earnings data for each worker
       const workersWithEarnings = await Promise.all(
         (data || []).map(async (worker) => {
           if (worker.payment_type === 'commission') {
-            const earnings = await calculateWorkerEarnings(worker.id);
             return {
               ...worker,
-              total_earnings: earnings.totalEarnings,
-              current_month_earnings: earnings.currentMonthEarnings,
-              services_performed: earnings.servicesPerformed
+              total_earnings: Number(earnings[worker.id]?.total_earnings || 0),
+              current_month_earnings: Number(earnings[worker.id]?.month_earnings || 0),
+              services_performed: earnings[worker.id]?.services_performed || 0
             };
           } else {
             // For salary workers, still count services for tracking purposes
@@ -139,91 +165,46 @@ export default function WorkerPayroll() {
     }
   };
 
-  const getWorkerServiceCount = async (workerId: string) => {
+  // Attendance for the selected month, used to prorate salaried staff for absences
+  const fetchAttendance = async () => {
     try {
-      const { data: services, error } = await supabase
-        .from("services")
-        .select("id")
-        .eq("staff_member_id", workerId)
-        .eq("status", "completed");
+      const summaries = await fetchAttendanceSummary(selectedMonth);
+      setAttendanceSummaries(
+        summaries.reduce((acc, summary) => ({ ...acc, [summary.worker_id]: summary }), {} as Record<string, AttendanceSummary>)
+      );
+    } catch (error) {
+      console.error("Error fetching attendance summary:", error);
+      setAttendanceSummaries({});
+    }
+  };
 
-      if (error) throw error;
-      return services?.length || 0;
+  // Approved advances and loans still being repaid through payroll
+  const fetchWorkerAdvances = async (workerId: string) => {
+    try {
+      const advances = await fetchStaffAdvances(workerId);
+      setWorkerAdvances(advances.filter(advance => advance.status === 'approved' && getAdvanceBalance(advance).outstanding > 0));
     } catch (error) {
-      console.error("Error getting worker service count:", error);
-      return 0;
+      console.error("Error fetching worker advances:", error);
+      setWorkerAdvances([]);
     }
   };
 
-  const calculateWorkerEarnings = async (workerId: string) => {
+  const getProratedSalary = (worker: Worker) =>
+    calculateProratedSalary(worker.salary || 0, attendanceSummaries[worker.id]);
+
+  const getWorkerServiceCount = async (workerId: string) => {
     try {
-      // Get all completed services for this worker
       const { data: services, error } = await supabase
         .from("services")
-        .select(`
-          id,
-          service_name,
-          service_price,
-          created_at,
-          status,
-          customers (name)
-        `)
+        .select("id")
         .eq("staff_member_id", workerId)
         .eq("status", "completed");
 
       if (error) throw error;
-
-      if (!services || services.length === 0) {
-        return { totalEarnings: 0, currentMonthEarnings: 0, servicesPerformed: 0 };
-      }
-
-      // Get worker commission rate
-      const { data: worker } = await supabase
-        .from("workers")
-        .select("commission_rate")
-        .eq("id", workerId)
-        .single();
-
-      const workerCommissionRate = worker?.commission_rate || 0;
-      
-      // Get commission rates for all services
-      const serviceIds = services.map(s => s.id);
-      const { data: serviceCommissionRates } = await supabase
-        .from("services")
-        .select("id, commission_rate")
-        .in("id", serviceIds);
-      
-      const serviceCommissionMap = new Map(
-        serviceCommissionRates?.map(s => [s.id, s.commission_rate]) || []
-      );
-      
-      const totalEarnings = services.reduce((sum, service) => {
-        const serviceCommissionRate = serviceCommissionMap.get(service.id) || workerCommissionRate;
-        const commission = (service.service_price * serviceCommissionRate) / 100;
-        return sum + commission;
-      }, 0);
-
-      // Calculate current month earnings
-      const currentMonth = new Date().getMonth();
-      const currentYear = new Date().getFullYear();
-      const currentMonthEarnings = services.reduce((sum, service) => {
-        const serviceDate = new Date(service.created_at);
-        if (serviceDate.getMonth() === currentMonth && serviceDate.getFullYear() === currentYear) {
-          const serviceCommissionRate = serviceCommissionMap.get(service.id) || workerCommissionRate;
-          const commission = (service.service_price * serviceCommissionRate) / 100;
-          return sum + commission;
-        }
-        return sum;
-      }, 0);
-
-      return {
-        totalEarnings,
-        currentMonthEarnings,
-        servicesPerformed: services.length
-      };
+      return services?.length || 0;
     } catch (error) {
-      console.error("Error calculating worker earnings:", error);
-      return { totalEarnings: 0, currentMonthEarnings: 0, servicesPerformed: 0 };
+      console.error("Error getting worker service count:", error);
+      return 0;
     }
   };
 
@@ -235,13 +216,13 @@ export default function WorkerPayroll() {
           id,
           service_name,
           service_price,
-          created_at,
+          date_time,
           status,
           customers (name)
         `)
         .eq("staff_member_id", workerId)
         .eq("status", "completed")
-        .order("created_at", { ascending: false });
+        .order("date_time", { ascending: false });
 
       if (error) throw error;
 
@@ -251,41 +232,26 @@ export default function WorkerPayroll() {
         return;
       }
 
-      // Get worker commission rate
-      const { data: worker } = await supabase
-        .from("workers")
-        .select("commission_rate")
-        .eq("id", workerId)
-        .single();
-
-      const workerCommissionRate = worker?.commission_rate || 0;
-
-      // Get commission rates for all services
-      const serviceIds = services.map(s => s.id);
-      const { data: serviceCommissionRates } = await supabase
-        .from("services")
-        .select("id, commission_rate")
-        .in("id", serviceIds);
-      
-      const serviceCommissionMap = new Map(
-        serviceCommissionRates?.map(s => [s.id, s.commission_rate]) || []
-      );
-
-      // Transform services to include commission calculations
-      const servicesWithCommission = services.map(service => {
-        const serviceCommissionRate = serviceCommissionMap.get(service.id) || workerCommissionRate;
-        return {
-          id: service.id,
-          service_name: service.service_name,
-          service_price: service.service_price,
-          customer_name: service.customers?.name || 'Unknown Customer',
-          commission_amount: (service.service_price * serviceCommissionRate) / 100,
-          service_date: service.created_at,
-          status: service.status,
-          service_commission_rate: serviceCommissionRate,
-          worker_commission_rate: workerCommissionRate
-        };
-      });
+      const workerCommissionRate = selectedWorker?.commission_rate || 0;
+
+      // Commission as posted to the ledger, net of any reversals
+      const entries = await fetchCommissionEntries(workerId);
+      const commissions = netCommissionByService(entries);
+      setWorkerRuleCommissions(commissionByRule(entries, selectedMonth));
+
+      const servicesWithCommission = services.map(service => ({
+        id: service.id,
+        service_name: service.service_name,
+        service_price: service.service_price,
+        customer_name: service.customers?.name || 'Unknown Customer',
+        commission_amount: commissions[service.id]?.amount || 0,
+        service_date: service.date_time,
+        status: service.status,
+        service_commission_rate: commissions[service.id]?.commission_rate ?? 0,
+        worker_commission_rate: workerCommissionRate,
+        commission_rule: commissions[service.id]?.rule_name,
+        commission_basis: commissions[service.id]?.basis
+      }));
 
       setWorkerServiceHistory(servicesWithCommission);
 
@@ -304,12 +270,31 @@ export default function WorkerPayroll() {
           dailyEarningsMap.set(date, {
             date,
             earnings: service.commission_amount,
+            tips: 0,
             services_count: 1,
             services: [service]
           });
         }
       });
 
+      // Tips are kept apart from commission, including days with tips but no services
+      (await fetchWorkerTips(workerId)).forEach(tip => {
+        const date = new Date(tip.created_at).toISOString().slice(0, 10);
+        const existing = dailyEarningsMap.get(date);
+
+        if (existing) {
+          existing.tips += Number(tip.amount);
+        } else {
+          dailyEarningsMap.set(date, {
+            date,
+            earnings: 0,
+            tips: Number(tip.amount),
+            services_count: 0,
+            services: []
+          });
+        }
+      });
+
       const dailyEarnings = Array.from(dailyEarningsMap.values())
         .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
@@ -354,16 +339,6 @@ export default function WorkerPayroll() {
           : worker
       ));
 
-      // Refresh earnings for this worker
-      if (editingCommissionWorker.payment_type === 'commission') {
-        const earnings = await calculateWorkerEarnings(editingCommissionWorker.id);
-        setWorkers(prev => prev.map(worker => 
-          worker.id === editingCommissionWorker.id 
-            ? { ...worker, total_earnings: earnings.totalEarnings, current_month_earnings: earnings.currentMonthEarnings }
-            : worker
-        ));
-      }
-
       toast({
         title: "Success",
         description: `Commission rate updated to ${newCommissionRate}%`,
@@ -427,6 +402,39 @@ export default function WorkerPayroll() {
     }
   };
 
+  const handleRebuildLedger = async () => {
+    setIsRebuilding(true);
+    try {
+      const result = await recalculateAllWorkerEarnings();
+
+      if (!result.success) {
+        throw new Error(result.error || result.message);
+      }
+
+      const corrections = result.corrections || [];
+      toast({
+        title: corrections.length === 0 ? "Ledger Verified" : "Ledger Corrected",
+        description: corrections.length === 0
+          ? result.message
+          : `${result.message}: ${corrections.slice(0, 3).map(c => `${c.service_name} ${formatCurrency(Number(c.before))} → ${formatCurrency(Number(c.after))}`).join(', ')}${corrections.length > 3 ? '…' : ''}`,
+      });
+
+      await fetchWorkers();
+      if (selectedWorker) {
+        await fetchWorkerServiceHistory(selectedWorker.id);
+      }
+    } catch (error) {
+      console.error("Error rebuilding commission ledger:", error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rebuild the commission ledger",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRebuilding(false);
+    }
+  };
+
   const getPaymentTypeBadge = (paymentType: string) => {
     if (paymentType === 'commission') {
       return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Commission Based</Badge>;
@@ -471,6 +479,12 @@ export default function WorkerPayroll() {
       .reduce((total, worker) => total + worker.salary, 0);
   };
 
+  const calculateTotalProratedSalary = () => {
+    return workers
+      .filter(worker => worker.payment_type === 'monthly')
+      .reduce((total, worker) => total + getProratedSalary(worker), 0);
+  };
+
   const filteredWorkers = workers.filter(worker => {
     const matchesSearch = worker.name.toLowerCase().includes(searchQuery.toLowerCase());
     const matchesRole = filterRole === "all" || worker.role === filterRole;
@@ -492,6 +506,9 @@ export default function WorkerPayroll() {
       'Total Earnings': worker.total_earnings || 0,
       'Current Month Earnings': worker.current_month_earnings || 0,
       'Services Performed': worker.services_performed || 0,
+      'Days Absent': attendanceSummaries[worker.id]?.absent_days || 0,
+      'Hours Worked': attendanceSummaries[worker.id]?.hours_worked || 0,
+      'Prorated Salary': worker.payment_type === 'monthly' ? getProratedSalary(worker) : 'N/A',
       'Hire Date': new Date(worker.hire_date).toLocaleDateString()
     }));
 
@@ -537,6 +554,10 @@ export default function WorkerPayroll() {
             <RefreshCw className="h-4 w-4 mr-2" />
             Refresh
           </Button>
+          <Button onClick={handleRebuildLedger} variant="outline" size="sm" disabled={isRebuilding}>
+            <Receipt className="h-4 w-4 mr-2" />
+            {isRebuilding ? "Checking..." : "Verify Ledger"}
+          </Button>
           <Button onClick={exportPayrollData} variant="outline" size="sm">
             <Download className="h-4 w-4 mr-2" />
             Export CSV
@@ -580,7 +601,7 @@ export default function WorkerPayroll() {
           <CardContent>
                             <div className="text-2xl font-bold">{formatCurrency(calculateTotalSalary())}</div>
             <p className="text-xs text-muted-foreground">
-              Fixed monthly cost
+              Fixed monthly cost · {formatCurrency(calculateTotalProratedSalary())} after attendance
             </p>
           </CardContent>
         </Card>
@@ -593,7 +614,7 @@ export default function WorkerPayroll() {
           <CardContent>
                             <div className="text-2xl font-bold">{formatCurrency(calculateTotalMonthlyEarnings())}</div>
             <p className="text-xs text-muted-foreground">
-              This month's total
+              Total for {selectedMonth}
             </p>
           </CardContent>
         </Card>
@@ -665,10 +686,12 @@ export default function WorkerPayroll() {
 
       {/* Main Content Tabs */}
       <Tabs defaultValue="overview" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="commission">Commission Workers</TabsTrigger>
           <TabsTrigger value="salary">Salary Workers</TabsTrigger>
+          <TabsTrigger value="rules">Commission Rules</TabsTrigger>
+          <TabsTrigger value="runs">Payroll Runs</TabsTrigger>
         </TabsList>
 
         {/* Overview Tab */}
@@ -701,7 +724,7 @@ export default function WorkerPayroll() {
                     <TableHead>Commission Rate</TableHead>
                     <TableHead>Base Amount</TableHead>
                     <TableHead>Total Earnings</TableHead>
-                    <TableHead>This Month</TableHead>
+                    <TableHead>{selectedMonth}</TableHead>
                     <TableHead>Services</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
@@ -794,7 +817,7 @@ export default function WorkerPayroll() {
                     <TableHead>Role</TableHead>
                     <TableHead>Commission Rate</TableHead>
                     <TableHead>Total Earnings</TableHead>
-                    <TableHead>This Month</TableHead>
+                    <TableHead>{selectedMonth}</TableHead>
                     <TableHead>Services</TableHead>
                     <TableHead>Daily Average</TableHead>
                     <TableHead>Actions</TableHead>
@@ -878,6 +901,8 @@ export default function WorkerPayroll() {
                     <TableHead>Worker</TableHead>
                     <TableHead>Role</TableHead>
                     <TableHead>Monthly Salary</TableHead>
+                    <TableHead>Attendance</TableHead>
+                    <TableHead>Prorated Pay</TableHead>
                     <TableHead>Services Performed</TableHead>
                     <TableHead>Hire Date</TableHead>
                     <TableHead>Annual Cost</TableHead>
@@ -892,6 +917,25 @@ export default function WorkerPayroll() {
                       <TableCell>
                         {formatCurrency(worker.salary)}/month
                       </TableCell>
+                      <TableCell>
+                        {attendanceSummaries[worker.id]?.scheduled_days ? (
+                          <div className="flex flex-col">
+                            <span className="font-medium">
+                              {attendanceSummaries[worker.id].present_days + attendanceSummaries[worker.id].late_days}/{attendanceSummaries[worker.id].scheduled_days} days
+                            </span>
+                            <span className="text-xs text-muted-foreground">
+                              {attendanceSummaries[worker.id].absent_days} absent · {attendanceSummaries[worker.id].half_days} half · {Number(attendanceSummaries[worker.id].hours_worked).toFixed(1)}h
+                            </span>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-muted-foreground">No schedule</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <span className={getProratedSalary(worker) < worker.salary ? 'font-medium text-amber-700' : 'font-medium'}>
+                          {formatCurrency(getProratedSalary(worker))}
+                        </span>
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <span className="font-medium">{worker.services_performed || 0}</span>
@@ -924,6 +968,16 @@ export default function WorkerPayroll() {
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Commission Rules Tab */}
+        <TabsContent value="rules" className="space-y-6">
+          <CommissionRules workers={workers} canManage={isAdmin(profile)} />
+        </TabsContent>
+
+        {/* Payroll Runs Tab */}
+        <TabsContent value="runs" className="space-y-6">
+          <PayrollRuns month={selectedMonth} canApprove={isAdmin(profile)} />
+        </TabsContent>
       </Tabs>
 
       {/* Worker Detail Dialog */}
@@ -1004,6 +1058,30 @@ export default function WorkerPayroll() {
                         <div className="text-sm text-purple-600">Avg. Services/Day</div>
                       </div>
                     </div>
+                    {attendanceSummaries[selectedWorker.id] && (
+                      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4">
+                        <div className="text-center p-4 bg-teal-50 rounded-lg">
+                          <div className="text-2xl font-bold text-teal-600">
+                            {Number(attendanceSummaries[selectedWorker.id].hours_worked).toFixed(1)}
+                          </div>
+                          <div className="text-sm text-teal-600">Hours Worked ({selectedMonth})</div>
+                        </div>
+                        <div className="text-center p-4 bg-amber-50 rounded-lg">
+                          <div className="text-2xl font-bold text-amber-600">{attendanceSummaries[selectedWorker.id].late_days}</div>
+                          <div className="text-sm text-amber-600">Late Days</div>
+                        </div>
+                        <div className="text-center p-4 bg-red-50 rounded-lg">
+                          <div className="text-2xl font-bold text-red-600">
+                            {attendanceSummaries[selectedWorker.id].absent_days + attendanceSummaries[selectedWorker.id].half_days * 0.5}
+                          </div>
+                          <div className="text-sm text-red-600">Days Absent</div>
+                        </div>
+                        <div className="text-center p-4 bg-green-50 rounded-lg">
+                          <div className="text-2xl font-bold text-green-600">{formatCurrency(getProratedSalary(selectedWorker))}</div>
+                          <div className="text-sm text-green-600">Prorated Salary</div>
+                        </div>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               )}
@@ -1032,6 +1110,11 @@ export default function WorkerPayroll() {
                         {workerDailyEarnings.find(d => d.date === selectedWorkerDate) ? (
                           <span className="text-green-600 font-medium">
                             {formatCurrency(workerDailyEarnings.find(d => d.date === selectedWorkerDate)?.earnings || 0)} earned on this date
+                            {(workerDailyEarnings.find(d => d.date === selectedWorkerDate)?.tips || 0) > 0 && (
+                              <span className="text-rose-600">
+                                {' '}plus {formatCurrency(workerDailyEarnings.find(d => d.date === selectedWorkerDate)?.tips || 0)} in tips
+                              </span>
+                            )}
                           </span>
                         ) : (
                           <span className="text-gray-500">No services on this date</span>
@@ -1042,13 +1125,108 @@ export default function WorkerPayroll() {
                 </Card>
               )}
 
+              {/* Outstanding Advances & Loans */}
+              {workerAdvances.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <HandCoins className="h-5 w-5 text-amber-600" />
+                      Advances & Loans
+                    </CardTitle>
+                    <CardDescription>
+                      Outstanding balances, deducted from {selectedWorker.name}'s payroll every month
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Given</TableHead>
+                          <TableHead>Amount</TableHead>
+                          <TableHead>Installment</TableHead>
+                          <TableHead>Repaid</TableHead>
+                          <TableHead>Outstanding</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {workerAdvances.map((advance) => {
+                          const balance = getAdvanceBalance(advance);
+                          return (
+                            <TableRow key={advance.id}>
+                              <TableCell>
+                                <div className="font-medium">{new Date(`${advance.issued_on}T00:00:00`).toLocaleDateString()}</div>
+                                <div className="text-xs text-muted-foreground capitalize">{advance.kind}</div>
+                              </TableCell>
+                              <TableCell>{formatCurrency(Number(advance.amount))}</TableCell>
+                              <TableCell>{formatCurrency(Number(advance.installment_amount))}/month</TableCell>
+                              <TableCell>
+                                {formatCurrency(balance.repaid)}
+                                {balance.scheduled > 0 && (
+                                  <div className="text-xs text-blue-600">+{formatCurrency(balance.scheduled)} on draft payroll</div>
+                                )}
+                              </TableCell>
+                              <TableCell className="text-amber-600 font-medium">
+                                {formatCurrency(balance.outstanding)}
+                                <div className="text-xs text-muted-foreground font-normal">
+                                  {balance.installments_left} installment{balance.installments_left !== 1 ? 's' : ''} left
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                        <TableRow>
+                          <TableCell colSpan={4} className="font-medium">Total outstanding</TableCell>
+                          <TableCell className="text-amber-600 font-bold">
+                            {formatCurrency(workerAdvances.reduce((sum, advance) => sum + getAdvanceBalance(advance).outstanding, 0))}
+                          </TableCell>
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
+              {/* Commission by Rule */}
+              {workerRuleCommissions.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Commission by Rule</CardTitle>
+                    <CardDescription>
+                      Which rule produced {selectedWorker.name}'s commission in {selectedMonth}, net of reversals
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Rule</TableHead>
+                          <TableHead>From</TableHead>
+                          <TableHead>Entries</TableHead>
+                          <TableHead>Commission</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {workerRuleCommissions.map((rule) => (
+                          <TableRow key={`${rule.source}:${rule.rule_name}`}>
+                            <TableCell className="font-medium">{rule.rule_name}</TableCell>
+                            <TableCell>{rule.source === 'retail' ? 'Retail sales' : 'Services'}</TableCell>
+                            <TableCell>{rule.entries}</TableCell>
+                            <TableCell className="text-green-600 font-medium">{formatCurrency(rule.amount)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </CardContent>
+                </Card>
+              )}
+
               {/* Daily Earnings Summary */}
-              {selectedWorker.payment_type === 'commission' && (
+              {(selectedWorker.payment_type === 'commission' || workerDailyEarnings.some(daily => daily.tips > 0)) && (
                 <Card>
                   <CardHeader>
                     <CardTitle>Daily Earnings Summary</CardTitle>
                     <CardDescription>
-                      Commission earnings breakdown by date (Last 30 days)
+                      Commission and tips by date (Last 30 days)
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -1076,13 +1254,25 @@ export default function WorkerPayroll() {
                                 {daily.services_count} service{daily.services_count !== 1 ? 's' : ''} completed
                               </p>
                             </div>
-                            <div className="text-right">
-                              <p className="text-lg font-bold text-green-600">
-                                {formatCurrency(daily.earnings)}
-                              </p>
-                              <p className="text-sm text-muted-foreground">
-                                Commission earned
-                              </p>
+                            <div className="flex gap-6 text-right">
+                              {daily.tips > 0 && (
+                                <div>
+                                  <p className="text-lg font-bold text-rose-600">
+                                    {formatCurrency(daily.tips)}
+                                  </p>
+                                  <p className="text-sm text-muted-foreground">
+                                    Tips
+                                  </p>
+                                </div>
+                              )}
+                              <div>
+                                <p className="text-lg font-bold text-green-600">
+                                  {formatCurrency(daily.earnings)}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  Commission earned
+                                </p>
+                              </div>
                             </div>
                           </div>
                         </div>
@@ -1137,6 +1327,11 @@ export default function WorkerPayroll() {
                               <TableCell>
                                 <div className="flex items-center gap-2">
                                   <Badge variant="outline">{service.service_commission_rate || 0}%</Badge>
+                                  {service.commission_rule && (
+                                    <span className="text-xs text-muted-foreground">
+                                      {service.commission_rule}{service.commission_basis === 'net' ? ' · net' : ''}
+                                    </span>
+                                  )}
                                   <Button
                                     variant="ghost"
                                     size="sm"
@@ -1202,7 +1397,7 @@ export default function WorkerPayroll() {
               Commission workers earn based on service performance, while salary workers receive fixed monthly compensation.
             </p>
             <div className="text-sm text-blue-700 space-y-1">
-              <p>• <strong>Real-Time Data:</strong> All earnings calculated from actual completed services</p>
+              <p>• <strong>Commission Ledger:</strong> Commission is posted when a service is completed; edits and cancellations reverse it</p>
               <p>• <strong>Commission Workers:</strong> Earn variable commission rates based on individual worker settings</p>
               <p>• <strong>Service-Specific Commissions:</strong> Different services can have different commission rates</p>
               <p>• <strong>Commission Management:</strong> Edit both worker and service commission rates directly from payroll view</p>
@@ -1238,7 +1433,7 @@ export default function WorkerPayroll() {
                 step="0.1"
               />
               <p className="text-xs text-muted-foreground">
-                Worker will earn {newCommissionRate || 0}% from each service they perform
+                Worker will earn {newCommissionRate || 0}% from each service they complete from now on; commission already earned keeps its rate
               </p>
             </div>
             <div className="flex justify-end space-x-2">
@@ -1279,7 +1474,7 @@ export default function WorkerPayroll() {
                 step="0.1"
               />
               <p className="text-xs text-muted-foreground">
-                This service will use {newServiceCommissionRate || 0}% commission rate instead of the worker's default rate
+                This service will use {newServiceCommissionRate || 0}% commission rate instead of its commission rule or the worker's default rate; its ledger entry is reversed and re-posted
               </p>
             </div>
             <div className="flex justify-end space-x-2">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Plus, Search, Edit, Trash2, Calendar, DollarSign, Users, UserCheck, Mail, Phone, Briefcase, TrendingUp } from "lucide-react";
+import { Plus, Search, Edit, Trash2, Calendar, DollarSign, Users, UserCheck, Mail, Phone, Briefcase, TrendingUp, CalendarClock, HandCoins } from "lucide-react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -14,6 +14,10 @@ import { useAuth } from "@/hooks/useAuth";
 import { formatCurrency } from "@/lib/utils";
 import { workerValidation, WorkerFormData } from "@/utils/validation";
 import { secureFormSubmit, secureInput } from "@/utils/security";
+import { isAdmin } from "@/utils/permissions";
+import { WorkerScheduleDialog } from "@/components/workers/WorkerScheduleDialog";
+import { WorkerAdvancesDialog } from "@/components/workers/WorkerAdvancesDialog";
+import { StaffAdvance, fetchStaffAdvances, getAdvanceBalance } from "@/utils/staffAdvances";
 
 interface Worker {
   id: string;
@@ -36,6 +40,9 @@ export default function Workers() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingWorker, setEditingWorker] = useState<Worker | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [scheduleWorker, setScheduleWorker] = useState<Worker | null>(null);
+  const [advancesWorker, setAdvancesWorker] = useState<Worker | null>(null);
+  const [editingWorkerAdvances, setEditingWorkerAdvances] = useState<StaffAdvance[]>([]);
   const [formData, setFormData] = useState<WorkerFormData>({
     name: "",
     email: "",
@@ -63,7 +70,7 @@ export default function Workers() {
         .order("created_at", { ascending: false });
 
       if (error) throw error;
-      setWorkers(data || []);
+      setWorkers((data || []) as Worker[]);
     } catch (error) {
       console.error("Error fetching workers:", error);
       toast({
@@ -194,8 +201,12 @@ export default function Workers() {
   };
 
   const openDialog = (worker?: Worker) => {
+    setEditingWorkerAdvances([]);
     if (worker) {
       setEditingWorker(worker);
+      fetchStaffAdvances(worker.id)
+        .then(setEditingWorkerAdvances)
+        .catch(error => console.error("Error fetching staff advances:", error));
       setFormData({
         name: worker.name,
         email: worker.email || "",
@@ -214,6 +225,11 @@ export default function Workers() {
     setIsDialogOpen(true);
   };
 
+  const outstandingAdvances = editingWorkerAdvances
+    .map(advance => ({ advance, balance: getAdvanceBalance(advance) }))
+    .filter(({ balance }) => balance.outstanding > 0);
+  const totalOutstandingAdvances = outstandingAdvances.reduce((sum, { balance }) => sum + balance.outstanding, 0);
+
   const filteredWorkers = workers.filter((worker) =>
     worker.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
     worker.role.toLowerCase().includes(searchQuery.toLowerCase()) ||
@@ -455,6 +471,24 @@ export default function Workers() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setScheduleWorker(worker)}
+                          className="text-emerald-600 hover:text-emerald-700 hover:bg-emerald-50"
+                          title="Schedule & availability"
+                        >
+                          <CalendarClock className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setAdvancesWorker(worker)}
+                          className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                          title="Advances & loans"
+                        >
+                          <HandCoins className="h-4 w-4" />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -620,6 +654,29 @@ export default function Workers() {
                   />
                 </div>
               </div>
+
+              {/* Outstanding advances and loans */}
+              {editingWorker && outstandingAdvances.length > 0 && (
+                <div className="grid gap-2 rounded-lg border border-amber-200 bg-amber-50 p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="flex items-center gap-2 text-sm font-medium text-amber-900">
+                      <HandCoins className="h-4 w-4" />
+                      Outstanding Advances & Loans
+                    </span>
+                    <span className="font-semibold text-amber-900">{formatCurrency(totalOutstandingAdvances)}</span>
+                  </div>
+                  {outstandingAdvances.map(({ advance, balance }) => (
+                    <div key={advance.id} className="flex justify-between gap-2 text-sm text-amber-800">
+                      <span>
+                        {advance.kind === 'loan' ? 'Loan' : 'Advance'} of {formatCurrency(advance.amount)} on {formatDate(advance.issued_on)}
+                      </span>
+                      <span className="text-right">
+                        {formatCurrency(balance.outstanding)} · {balance.installments_left} installment{balance.installments_left !== 1 ? 's' : ''} left
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
             <DialogFooter className="flex flex-col sm:flex-row gap-2 sm:gap-0 sm:justify-end">
               <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)} className="w-full sm:w-auto">
@@ -632,6 +689,19 @@ export default function Workers() {
           </form>
         </DialogContent>
       </Dialog>
+
+      <WorkerScheduleDialog
+        isOpen={!!scheduleWorker}
+        onClose={() => setScheduleWorker(null)}
+        worker={scheduleWorker}
+      />
+
+      <WorkerAdvancesDialog
+        isOpen={!!advancesWorker}
+        onClose={() => setAdvancesWorker(null)}
+        worker={advancesWorker}
+        canApprove={isAdmin(profile)}
+      />
     </div>
   );
 }
\ No newline at end of file
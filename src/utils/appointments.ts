@@ -0,0 +1,121 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const DEFAULT_SERVICE_DURATION = 60;
+export const CALENDAR_START_HOUR = 8;
+export const CALENDAR_END_HOUR = 20;
+export const CALENDAR_SLOT_MINUTES = 30;
+
+export const SERVICE_DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 150, 180, 240];
+
+export interface StaffBooking {
+  service_id: string;
+  staff_member_id: string | null;
+  /** Null on other users' bookings, which only show the stylist is busy */
+  service_name: string | null;
+  service_category: string | null;
+  customer_name: string | null;
+  date_time: string;
+  duration_minutes: number;
+  status: string;
+  is_own: boolean;
+}
+
+/**
+ * Get the end time of an appointment from its start and duration
+ */
+export const getServiceEnd = (dateTime: string | Date, durationMinutes?: number | null) => {
+  const start = new Date(dateTime);
+  return new Date(start.getTime() + (durationMinutes || DEFAULT_SERVICE_DURATION) * 60000);
+};
+
+/**
+ * Start of the day (local time) for the given date
+ */
+export const startOfDay = (date: Date) => {
+  const d = new Date(date);
+  d.setHours(0, 0, 0, 0);
+  return d;
+};
+
+/**
+ * Start of the week (Monday, local time) for the given date
+ */
+export const startOfWeek = (date: Date) => {
+  const d = startOfDay(date);
+  const day = d.getDay();
+  d.setDate(d.getDate() - (day === 0 ? 6 : day - 1));
+  return d;
+};
+
+export const addDays = (date: Date, days: number) => {
+  const d = new Date(date);
+  d.setDate(d.getDate() + days);
+  return d;
+};
+
+export const isSameDay = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() &&
+  a.getMonth() === b.getMonth() &&
+  a.getDate() === b.getDate();
+
+/**
+ * Format a date as the value expected by <input type="datetime-local"> in local time
+ */
+export const toDateTimeLocalValue = (date: Date) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Booking conflicts raised by the database trigger carry a "Booking conflict:" prefix.
+ * Returns the readable message, or null for any other error.
+ */
+export const getBookingConflictMessage = (error: unknown) => {
+  const message = (error as { message?: string } | null)?.message;
+  if (message && message.includes('Booking conflict')) {
+    return message.replace(/^.*Booking conflict:\s*/, '');
+  }
+  return null;
+};
+
+/**
+ * Fetch all stylist bookings overlapping the given range (including other users' bookings)
+ */
+export const fetchStaffBookings = async (rangeStart: Date, rangeEnd: Date): Promise<StaffBooking[]> => {
+  const { data, error } = await supabase.rpc('get_staff_bookings', {
+    p_start: rangeStart.toISOString(),
+    p_end: rangeEnd.toISOString(),
+  });
+
+  if (error) throw error;
+  return (data || []) as StaffBooking[];
+};
+
+export interface StaffAvailability {
+  worker_id: string;
+  worker_name: string;
+  is_available: boolean;
+  reason: string | null;
+  start_time: string | null;
+  end_time: string | null;
+}
+
+/**
+ * Check every worker's schedule, time off and existing bookings for the given slot.
+ * Schedules are stored in local time, so the browser's time zone is sent along.
+ */
+export const fetchStaffAvailability = async (
+  start: Date,
+  durationMinutes: number,
+  excludeServiceId?: string
+): Promise<StaffAvailability[]> => {
+  const { data, error } = await supabase.rpc('get_available_staff', {
+    p_start: start.toISOString(),
+    p_duration_minutes: durationMinutes,
+    p_exclude_service_id: excludeServiceId,
+    p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+
+  if (error) throw error;
+  return (data || []) as StaffAvailability[];
+};
@@ -0,0 +1,125 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type AttendanceStatus = 'present' | 'late' | 'half_day' | 'absent' | 'upcoming' | 'off';
+
+export interface AttendanceDay {
+  worker_id: string;
+  date: string;
+  is_scheduled: boolean;
+  scheduled_start: string | null;
+  scheduled_end: string | null;
+  attendance_id: string | null;
+  status: AttendanceStatus;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  hours_worked: number;
+  minutes_late: number;
+}
+
+export interface AttendanceSummary {
+  worker_id: string;
+  scheduled_days: number;
+  present_days: number;
+  late_days: number;
+  half_days: number;
+  absent_days: number;
+  hours_worked: number;
+  attendance_ratio: number;
+}
+
+interface ClockResult {
+  success: boolean;
+  status?: string;
+  message: string;
+  error?: string;
+}
+
+/** Minutes after the scheduled start before a clock-in counts as late */
+export const LATE_GRACE_MINUTES = 10;
+
+export const ATTENDANCE_STATUS_STYLES: Record<AttendanceStatus, { label: string; short: string; className: string }> = {
+  present: { label: 'Present', short: 'P', className: 'bg-emerald-100 text-emerald-800 border-emerald-200' },
+  late: { label: 'Late', short: 'L', className: 'bg-amber-100 text-amber-800 border-amber-200' },
+  half_day: { label: 'Half Day', short: 'H', className: 'bg-orange-100 text-orange-800 border-orange-200' },
+  absent: { label: 'Absent', short: 'A', className: 'bg-red-100 text-red-800 border-red-200' },
+  upcoming: { label: 'Scheduled', short: '·', className: 'bg-blue-50 text-blue-600 border-blue-100' },
+  off: { label: 'Off', short: '', className: 'bg-gray-50 text-gray-400 border-gray-100' },
+};
+
+const getTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Local calendar date as YYYY-MM-DD (toISOString would give the UTC date)
+ */
+export const toLocalDateString = (date: Date = new Date()) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+/**
+ * Format a Postgres TIME (HH:MM:SS) as HH:MM
+ */
+export const formatTimeOfDay = (time: string | null) => (time ? time.slice(0, 5) : '--:--');
+
+/**
+ * Clock a worker in for today. Late arrivals are detected against their schedule.
+ */
+export const clockInWorker = async (workerId: string, notes?: string): Promise<ClockResult> => {
+  const { data, error } = await supabase.rpc('clock_in_worker', {
+    p_worker_id: workerId,
+    p_timezone: getTimeZone(),
+    p_grace_minutes: LATE_GRACE_MINUTES,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as ClockResult;
+};
+
+/**
+ * Clock a worker out for today
+ */
+export const clockOutWorker = async (workerId: string): Promise<ClockResult> => {
+  const { data, error } = await supabase.rpc('clock_out_worker', {
+    p_worker_id: workerId,
+    p_timezone: getTimeZone(),
+  });
+
+  if (error) throw error;
+  return data as unknown as ClockResult;
+};
+
+/**
+ * Attendance for every day of the month containing `month` (YYYY-MM or YYYY-MM-DD)
+ */
+export const fetchMonthlyAttendance = async (month: string, workerId?: string): Promise<AttendanceDay[]> => {
+  const { data, error } = await supabase.rpc('get_monthly_attendance', {
+    p_month: month.length === 7 ? `${month}-01` : month,
+    p_worker_id: workerId,
+    p_today: toLocalDateString(),
+  });
+
+  if (error) throw error;
+  return (data || []) as AttendanceDay[];
+};
+
+/**
+ * Per-worker attendance totals for the month containing `month`
+ */
+export const fetchAttendanceSummary = async (month: string): Promise<AttendanceSummary[]> => {
+  const { data, error } = await supabase.rpc('get_attendance_summary', {
+    p_month: month.length === 7 ? `${month}-01` : month,
+    p_today: toLocalDateString(),
+  });
+
+  if (error) throw error;
+  return (data || []) as AttendanceSummary[];
+};
+
+/**
+ * Salary prorated by attendance: absences are unpaid and half days are paid at 50%
+ */
+export const calculateProratedSalary = (salary: number, summary?: AttendanceSummary | null) => {
+  if (!summary) return salary;
+  return Math.round(salary * Number(summary.attendance_ratio) * 100) / 100;
+};
@@ -0,0 +1,143 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditEntry {
+  id: string;
+  table_name: string;
+  record_id: string | null;
+  action: AuditAction;
+  actor_id: string | null;
+  actor_name: string | null;
+  old_data: Record<string, unknown> | null;
+  new_data: Record<string, unknown> | null;
+  changed_fields: string[] | null;
+  reason: string | null;
+  created_at: string;
+}
+
+export interface AuditLogFilters {
+  actorId?: string;
+  tableName?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/** Tables with audit triggers, and how they are named in the activity feed */
+export const AUDITED_ENTITIES = [
+  { value: 'profiles', label: 'Users' },
+  { value: 'services', label: 'Services' },
+  { value: 'inventory_items', label: 'Inventory Items' },
+  { value: 'inventory_transactions', label: 'Inventory Transactions' },
+  { value: 'expenses', label: 'Expenses' },
+  { value: 'workers', label: 'Workers' },
+  { value: 'suppliers', label: 'Suppliers' },
+  { value: 'purchase_orders', label: 'Purchase Orders' },
+] as const;
+
+const ACTION_VERBS: Record<AuditAction, string> = {
+  INSERT: 'Created',
+  UPDATE: 'Updated',
+  DELETE: 'Deleted',
+};
+
+export const getEntityLabel = (tableName: string) =>
+  AUDITED_ENTITIES.find(entity => entity.value === tableName)?.label || tableName;
+
+/**
+ * Human-readable name of the audited row, e.g. the service or worker name
+ */
+const getRecordLabel = (entry: AuditEntry) => {
+  const row = entry.new_data || entry.old_data || {};
+  const label = row.full_name || row.name || row.service_name || row.po_number || row.email;
+  return typeof label === 'string' ? label : entry.record_id?.slice(0, 8) || '';
+};
+
+/**
+ * One-line summary for the activity feed
+ */
+export const describeAuditEntry = (entry: AuditEntry) => {
+  const entity = getEntityLabel(entry.table_name).replace(/s$/, '').toLowerCase();
+  const base = `${ACTION_VERBS[entry.action]} ${entity} ${getRecordLabel(entry)}`.trim();
+
+  if (entry.action !== 'UPDATE' || !entry.changed_fields?.length) return base;
+
+  if (entry.table_name === 'profiles' && entry.changed_fields.includes('role')) {
+    return `${base}: role ${entry.old_data?.role} → ${entry.new_data?.role}${entry.reason ? ` (${entry.reason})` : ''}`;
+  }
+
+  if (entry.table_name === 'profiles' && entry.changed_fields.includes('role_id')) {
+    return `${base}: role changed${entry.reason ? ` (${entry.reason})` : ''}`;
+  }
+
+  return `${base}: ${entry.changed_fields.join(', ')}`;
+};
+
+/**
+ * Audit log entries, newest first. Admins only.
+ */
+export const fetchAuditLog = async (filters: AuditLogFilters = {}): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase.rpc('get_audit_log', {
+    p_actor_id: filters.actorId || undefined,
+    p_table_name: filters.tableName || undefined,
+    p_date_from: filters.dateFrom || undefined,
+    p_date_to: filters.dateTo || undefined,
+    p_limit: filters.limit ?? 200,
+    p_offset: filters.offset ?? 0,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as AuditEntry[];
+};
+
+/**
+ * Change a user's role through the database so the audit entry carries the reason
+ */
+export const changeUserRole = async (profileId: string, role: string, reason?: string) => {
+  const { data, error } = await supabase.rpc('change_user_role', {
+    p_profile_id: profileId,
+    p_role: role,
+    p_reason: reason || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as { success: boolean; previous_role?: string; message: string; error?: string };
+};
+
+const toCsvValue = (value: unknown) => {
+  const text = value === null || value === undefined
+    ? ''
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Download audit entries as CSV, including the before and after JSON
+ */
+export const exportAuditLogCsv = (entries: AuditEntry[]) => {
+  const header = ['Timestamp', 'User', 'Entity', 'Action', 'Record ID', 'Summary', 'Changed Fields', 'Reason', 'Before', 'After'];
+  const rows = entries.map(entry => [
+    entry.created_at,
+    entry.actor_name || entry.actor_id || 'System',
+    getEntityLabel(entry.table_name),
+    entry.action,
+    entry.record_id,
+    describeAuditEntry(entry),
+    entry.changed_fields?.join('; '),
+    entry.reason,
+    entry.old_data,
+    entry.new_data,
+  ]);
+
+  const csvContent = [header, ...rows].map(row => row.map(toCsvValue).join(',')).join('\n');
+
+  const blob = new Blob([csvContent], { type: 'text/csv' });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `audit-log-${new Date().toISOString().slice(0, 10)}.csv`;
+  a.click();
+  window.URL.revokeObjectURL(url);
+};
@@ -0,0 +1,114 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type BarcodeFormat = 'ean13' | 'code128';
+
+export const BARCODE_FORMAT_LABELS: Record<BarcodeFormat, string> = {
+  ean13: 'EAN-13',
+  code128: 'Code 128',
+};
+
+// EAN-13 digit patterns; R codes are the L codes with bars and spaces swapped
+const EAN_L = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Code 128 bar/space widths by symbol value; 103-105 are the start codes, 106 is the stop
+const CODE128 = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+/** Check digit for the first 12 digits of an EAN-13 */
+export const ean13CheckDigit = (digits: string) => {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((acc, digit, index) => acc + parseInt(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return ((10 - (sum % 10)) % 10).toString();
+};
+
+export const isValidEan13 = (code: string) =>
+  /^\d{13}$/.test(code) && ean13CheckDigit(code) === code[12];
+
+/**
+ * A new EAN-13 in the 20-29 range GS1 reserves for in-store use, so it cannot clash with a
+ * manufacturer's code.
+ */
+export const generateStoreBarcode = () => {
+  const body = '2' + Array.from({ length: 11 }, () => Math.floor(Math.random() * 10)).join('');
+  return body + ean13CheckDigit(body);
+};
+
+/** Code 128 only encodes printable ASCII */
+export const canEncodeCode128 = (value: string) => /^[\x20-\x7e]+$/.test(value);
+
+/** EAN-13 as a string of modules, '1' for a bar and '0' for a space */
+const encodeEan13 = (code: string) => {
+  const digits = code.split('').map(digit => parseInt(digit));
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits.slice(1, 7).map((digit, index) => (parity[index] === 'L' ? EAN_L : EAN_G)[digit]).join('');
+  const right = digits.slice(7).map(digit => EAN_L[digit].replace(/./g, bit => (bit === '1' ? '0' : '1'))).join('');
+  return `101${left}01010${right}101`;
+};
+
+/** Code 128 as modules, using code set C for even runs of digits and code set B otherwise */
+const encodeCode128 = (value: string) => {
+  const useC = /^\d+$/.test(value) && value.length % 2 === 0;
+  const symbols = useC
+    ? [CODE128_START_C, ...(value.match(/\d{2}/g) || []).map(pair => parseInt(pair))]
+    : [CODE128_START_B, ...value.split('').map(char => char.charCodeAt(0) - 32)];
+
+  const checksum = symbols.reduce((acc, symbol, index) => acc + symbol * Math.max(index, 1), 0) % 103;
+
+  return [...symbols, checksum, CODE128_STOP]
+    .map(symbol => CODE128[symbol]
+      .split('')
+      .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(parseInt(width)))
+      .join(''))
+    .join('');
+};
+
+/** Modules for a value, or null when the value cannot be drawn in the format */
+export const barcodeModules = (value: string, format: BarcodeFormat): string | null => {
+  if (format === 'ean13') return isValidEan13(value) ? encodeEan13(value) : null;
+  return canEncodeCode128(value) ? encodeCode128(value) : null;
+};
+
+/**
+ * The item with a scanned code. A 12-digit UPC-A matches the same product stored as EAN-13
+ * with a leading zero, and the other way around.
+ */
+export const findItemByBarcode = <T extends { barcode: string | null }>(items: T[], code: string): T | undefined => {
+  const scanned = code.trim();
+  if (!scanned) return undefined;
+
+  const variants = [scanned];
+  if (/^\d{12}$/.test(scanned)) variants.push(`0${scanned}`);
+  if (/^0\d{12}$/.test(scanned)) variants.push(scanned.slice(1));
+
+  return items.find(item => !!item.barcode && variants.includes(item.barcode.trim()));
+};
+
+/** Save barcodes generated for items that had none */
+export const assignItemBarcodes = async (assignments: { id: string; barcode: string }[]) => {
+  for (const assignment of assignments) {
+    const { error } = await supabase
+      .from('inventory_items')
+      .update({ barcode: assignment.barcode })
+      .eq('id', assignment.id);
+
+    if (error) throw error;
+  }
+};
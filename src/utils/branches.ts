@@ -0,0 +1,147 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Branch {
+  id: string;
+  name: string;
+  code: string;
+  address: string | null;
+  phone: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface BranchSummary {
+  branch_id: string;
+  branch_name: string;
+  services_count: number;
+  service_revenue: number;
+  retail_revenue: number;
+  expenses: number;
+  customers_count: number;
+  inventory_value: number;
+}
+
+interface BranchResult {
+  success: boolean;
+  branch_id?: string;
+  transfer_id?: string;
+  reference_number?: string;
+  message: string;
+  error?: string;
+}
+
+/**
+ * Branches the signed-in user can work in, oldest first
+ */
+export const fetchBranches = async (): Promise<Branch[]> => {
+  const { data, error } = await supabase
+    .from('branches')
+    .select('*')
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as Branch[];
+};
+
+/**
+ * The branch the user is working in; null means all of their branches
+ */
+export const fetchBranchScope = async (userId: string): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('user_branch_scope')
+    .select('branch_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.branch_id ?? null;
+};
+
+/**
+ * Switch the working branch. RLS limits every scoped table to it, and new rows default to it.
+ */
+export const setBranchScope = async (branchId: string | null): Promise<BranchResult> => {
+  const { data, error } = await supabase.rpc('set_branch_scope', {
+    p_branch_id: branchId ?? undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as BranchResult;
+};
+
+export const saveBranch = async (
+  branch: { id?: string; name: string; code: string; address?: string; phone?: string; is_active?: boolean }
+) => {
+  const values = {
+    name: branch.name,
+    code: branch.code.toUpperCase(),
+    address: branch.address || null,
+    phone: branch.phone || null,
+    is_active: branch.is_active ?? true,
+  };
+
+  const { error } = branch.id
+    ? await supabase.from('branches').update(values).eq('id', branch.id)
+    : await supabase.from('branches').insert(values);
+
+  if (error) throw error;
+};
+
+/**
+ * Branch ids assigned to each user, keyed by auth user id
+ */
+export const fetchUserBranches = async (): Promise<Record<string, string[]>> => {
+  const { data, error } = await supabase
+    .from('user_branches')
+    .select('user_id, branch_id');
+
+  if (error) throw error;
+
+  return (data || []).reduce<Record<string, string[]>>((assignments, row) => {
+    assignments[row.user_id] = [...(assignments[row.user_id] || []), row.branch_id];
+    return assignments;
+  }, {});
+};
+
+export const setUserBranches = async (userId: string, branchIds: string[]): Promise<BranchResult> => {
+  const { data, error } = await supabase.rpc('set_user_branches', {
+    p_user_id: userId,
+    p_branch_ids: branchIds,
+  });
+
+  if (error) throw error;
+  return data as unknown as BranchResult;
+};
+
+/**
+ * Move stock to another branch. Both sides are recorded as inventory transactions with the same transfer id.
+ */
+export const transferInventory = async (
+  itemId: string,
+  toBranchId: string,
+  quantity: number,
+  notes?: string
+): Promise<BranchResult> => {
+  const { data, error } = await supabase.rpc('transfer_inventory', {
+    p_item_id: itemId,
+    p_to_branch_id: toBranchId,
+    p_quantity: quantity,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as BranchResult;
+};
+
+/**
+ * Revenue, expenses and stock value per branch for a date range (yyyy-mm-dd)
+ */
+export const fetchBranchSummary = async (dateFrom: string, dateTo: string): Promise<BranchSummary[]> => {
+  const { data, error } = await supabase.rpc('get_branch_summary', {
+    p_date_from: dateFrom,
+    p_date_to: dateTo,
+  });
+
+  if (error) throw error;
+  return (data || []) as unknown as BranchSummary[];
+};
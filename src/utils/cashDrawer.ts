@@ -0,0 +1,139 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { PaymentMethod } from "@/utils/payments";
+
+export interface CashDrawerSession {
+  id: string;
+  status: 'open' | 'closed';
+  opening_float: number;
+  opened_by: string;
+  opened_at: string;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  variance: number | null;
+  closed_by: string | null;
+  closed_at: string | null;
+  notes: string | null;
+}
+
+export interface DrawerSummary {
+  session_id: string;
+  status: 'open' | 'closed';
+  opened_at: string;
+  closed_at: string | null;
+  opened_by_name: string | null;
+  closed_by_name: string | null;
+  opening_float: number;
+  payments_by_method: { payment_method: PaymentMethod; amount: number; count: number }[];
+  payments_count: number;
+  service_payments: number;
+  sale_payments: number;
+  deposits: number;
+  cash_payments: number;
+  refunds_total: number;
+  cash_refunds: number;
+  refunds_count: number;
+  /** Missing from Z-reports closed before tips were recorded */
+  cash_tips?: number;
+  tips_count?: number;
+  paid_out_total: number;
+  paid_out: { id: string; name: string; category: string; amount: number; created_at: string }[];
+  expected_cash: number;
+  counted_cash: number | null;
+  variance: number | null;
+  notes: string | null;
+}
+
+interface DrawerResult {
+  success: boolean;
+  session_id?: string;
+  expected_cash?: number;
+  counted_cash?: number;
+  variance?: number;
+  z_report?: DrawerSummary;
+  message: string;
+  error?: string;
+}
+
+/** Variances within this amount are treated as a balanced drawer */
+export const VARIANCE_TOLERANCE = 0.5;
+
+/**
+ * The drawer session currently open, if any
+ */
+export const fetchOpenDrawerSession = async (): Promise<CashDrawerSession | null> => {
+  const { data, error } = await supabase
+    .from('cash_drawer_sessions')
+    .select('*')
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as CashDrawerSession | null;
+};
+
+/**
+ * Closed drawer sessions, newest first
+ */
+export const fetchClosedDrawerSessions = async (limit = 30): Promise<CashDrawerSession[]> => {
+  const { data, error } = await supabase
+    .from('cash_drawer_sessions')
+    .select('*')
+    .eq('status', 'closed')
+    .order('closed_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as CashDrawerSession[];
+};
+
+/**
+ * Running totals for a session; for a closed session these match its Z-report
+ */
+export const fetchDrawerSummary = async (sessionId: string): Promise<DrawerSummary | null> => {
+  const { data, error } = await supabase.rpc('get_cash_drawer_summary', { p_session_id: sessionId });
+
+  if (error) throw error;
+  return data as unknown as DrawerSummary | null;
+};
+
+export const openCashDrawer = async (openingFloat: number, notes?: string): Promise<DrawerResult> => {
+  const { data, error } = await supabase.rpc('open_cash_drawer', {
+    p_opening_float: openingFloat,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as DrawerResult;
+};
+
+/**
+ * Pay an expense in cash out of the open drawer. It is recorded in expenses as well.
+ */
+export const recordDrawerPayout = async (
+  sessionId: string,
+  payout: { name: string; category: string; amount: number }
+): Promise<DrawerResult> => {
+  const { data, error } = await supabase.rpc('record_cash_drawer_payout', {
+    p_session_id: sessionId,
+    p_name: payout.name,
+    p_category: payout.category,
+    p_amount: payout.amount,
+  });
+
+  if (error) throw error;
+  return data as unknown as DrawerResult;
+};
+
+/**
+ * Close the drawer with the counted cash. The variance and Z-report are stored on the session.
+ */
+export const closeCashDrawer = async (sessionId: string, countedCash: number, notes?: string): Promise<DrawerResult> => {
+  const { data, error } = await supabase.rpc('close_cash_drawer', {
+    p_session_id: sessionId,
+    p_counted_cash: countedCash,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as DrawerResult;
+};
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type CommissionBasis = 'gross' | 'net';
+
+export interface CommissionRule {
+  id: string;
+  name: string;
+  applies_to: 'service' | 'retail';
+  worker_id: string | null;
+  service_category: string | null;
+  min_monthly_revenue: number;
+  rate: number;
+  basis: CommissionBasis;
+  is_active: boolean;
+  workers: { name: string } | null;
+}
+
+/** Rules by what they apply to, then the most specific first, as they are matched */
+export const fetchCommissionRules = async (): Promise<CommissionRule[]> => {
+  const { data, error } = await supabase
+    .from('commission_rules')
+    .select('*, workers(name)')
+    .order('applies_to', { ascending: false })
+    .order('min_monthly_revenue')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as unknown as CommissionRule[];
+};
+
+/**
+ * Create or update a rule. It applies to services and sales posted from then on;
+ * commission already posted keeps the rate it was posted at.
+ */
+export const saveCommissionRule = async (rule: {
+  id?: string;
+  name: string;
+  appliesTo: 'service' | 'retail';
+  workerId: string | null;
+  serviceCategory: string | null;
+  minMonthlyRevenue: number;
+  rate: number;
+  basis: CommissionBasis;
+  isActive: boolean;
+  createdBy: string;
+}) => {
+  const ruleData = {
+    name: rule.name,
+    applies_to: rule.appliesTo,
+    worker_id: rule.workerId,
+    service_category: rule.appliesTo === 'service' ? rule.serviceCategory : null,
+    min_monthly_revenue: rule.minMonthlyRevenue,
+    rate: rule.rate,
+    basis: rule.basis,
+    is_active: rule.isActive,
+  };
+
+  const { error } = rule.id
+    ? await supabase.from('commission_rules').update(ruleData).eq('id', rule.id)
+    : await supabase.from('commission_rules').insert({ ...ruleData, created_by: rule.createdBy });
+
+  if (error) throw error;
+};
@@ -0,0 +1,76 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface InventoryLot {
+  id: string;
+  item_id: string;
+  branch_id: string;
+  lot_number: string;
+  expiry_date: string | null;
+  unit_cost: number;
+  quantity_received: number;
+  quantity_remaining: number;
+  received_at: string;
+  purchase_order_id: string | null;
+  inventory_items: { name: string } | null;
+}
+
+interface WriteOffResult {
+  success: boolean;
+  reference_number?: string;
+  lots_written_off?: number;
+  units?: number;
+  total_value?: number;
+  message: string;
+  error?: string;
+}
+
+/** Lots expiring within this many days are flagged on the Inventory page */
+export const EXPIRY_WARNING_DAYS = 30;
+
+export const isLotExpired = (lot: Pick<InventoryLot, 'expiry_date'>) =>
+  !!lot.expiry_date && lot.expiry_date < new Date().toLocaleDateString('en-CA');
+
+/**
+ * Lots with stock left, in first-expiry-first-out order. Pass an item to list only its lots,
+ * or a number of days to list lots that are expired or expire within that window.
+ */
+export const fetchInventoryLots = async (options: {
+  itemId?: string;
+  expiringWithinDays?: number;
+} = {}): Promise<InventoryLot[]> => {
+  let query = supabase
+    .from('inventory_lots')
+    .select('*, inventory_items(name)')
+    .gt('quantity_remaining', 0)
+    .order('expiry_date', { ascending: true, nullsFirst: false })
+    .order('received_at', { ascending: true });
+
+  if (options.itemId) {
+    query = query.eq('item_id', options.itemId);
+  }
+
+  if (options.expiringWithinDays !== undefined) {
+    const until = new Date();
+    until.setDate(until.getDate() + options.expiringWithinDays);
+    query = query.lte('expiry_date', until.toLocaleDateString('en-CA'));
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data || []) as InventoryLot[];
+};
+
+/**
+ * Write off what is left in the given lots, or in every expired lot when no lots are given.
+ * Each lot becomes a write_off transaction at its unit cost.
+ */
+export const writeOffLots = async (lotIds?: string[], reason?: string): Promise<WriteOffResult> => {
+  const { data, error } = await supabase.rpc('write_off_lots', {
+    p_lot_ids: lotIds,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data as unknown as WriteOffResult;
+};
@@ -0,0 +1,148 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface LoyaltySettings {
+  is_enabled: boolean;
+  points_per_unit: number;
+  point_value: number;
+  min_redeem_points: number;
+  expiry_months: number | null;
+  updated_at: string;
+}
+
+export interface LoyaltyTier {
+  id: string;
+  name: string;
+  min_points: number;
+  earn_multiplier: number;
+}
+
+export interface LoyaltyLedgerEntry {
+  id: string;
+  entry_type: 'earn' | 'redeem' | 'expire';
+  points: number;
+  amount: number | null;
+  description: string;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface CustomerLoyalty {
+  points_balance: number;
+  lifetime_points: number;
+  tier: Omit<LoyaltyTier, 'id'> | null;
+  next_tier: Omit<LoyaltyTier, 'id'> | null;
+  expiring_soon: number;
+  ledger: LoyaltyLedgerEntry[];
+}
+
+export interface LoyaltyBalance {
+  customer_id: string;
+  points_balance: number;
+  tier_name: string | null;
+}
+
+/** Points activity printed on a service or sale receipt */
+export interface LoyaltyReceipt {
+  points_redeemed: number;
+  discount: number;
+  points_earned: number;
+  points_balance: number;
+}
+
+interface RedemptionResult {
+  success: boolean;
+  points_redeemed?: number;
+  discount?: number;
+  points_balance?: number;
+  message: string;
+  error?: string;
+}
+
+/** Programme settings and tiers, lowest tier first */
+export const fetchLoyaltyProgram = async (): Promise<{ settings: LoyaltySettings | null; tiers: LoyaltyTier[] }> => {
+  const [settingsResult, tiersResult] = await Promise.all([
+    supabase.from('loyalty_settings').select('*').maybeSingle(),
+    supabase.from('loyalty_tiers').select('id, name, min_points, earn_multiplier').order('min_points'),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (tiersResult.error) throw tiersResult.error;
+  return {
+    settings: settingsResult.data as LoyaltySettings | null,
+    tiers: (tiersResult.data || []) as LoyaltyTier[],
+  };
+};
+
+export const saveLoyaltySettings = async (
+  settings: Omit<LoyaltySettings, 'updated_at'>,
+  updatedBy: string
+) => {
+  const { error } = await supabase
+    .from('loyalty_settings')
+    .update({ ...settings, updated_by: updatedBy })
+    .eq('id', true);
+
+  if (error) throw error;
+};
+
+/** Create or update a tier */
+export const saveLoyaltyTier = async (tier: Omit<LoyaltyTier, 'id'> & { id?: string }) => {
+  const tierData = {
+    name: tier.name,
+    min_points: tier.min_points,
+    earn_multiplier: tier.earn_multiplier,
+  };
+
+  const { error } = tier.id
+    ? await supabase.from('loyalty_tiers').update(tierData).eq('id', tier.id)
+    : await supabase.from('loyalty_tiers').insert(tierData);
+
+  if (error) throw error;
+};
+
+export const deleteLoyaltyTier = async (tierId: string) => {
+  const { error } = await supabase.from('loyalty_tiers').delete().eq('id', tierId);
+  if (error) throw error;
+};
+
+/** Balance, tier, points expiring within 30 days and the latest ledger entries */
+export const fetchCustomerLoyalty = async (customerId: string): Promise<CustomerLoyalty> => {
+  const { data, error } = await supabase.rpc('get_customer_loyalty', { p_customer_id: customerId });
+
+  if (error) throw error;
+  return data as unknown as CustomerLoyalty;
+};
+
+/** Balance and tier of every customer who has earned points, keyed by customer id */
+export const fetchLoyaltyBalances = async (): Promise<Record<string, LoyaltyBalance>> => {
+  const { data, error } = await supabase.rpc('get_loyalty_balances');
+
+  if (error) throw error;
+  return Object.fromEntries(((data || []) as LoyaltyBalance[]).map(row => [row.customer_id, row]));
+};
+
+/** Spend points as a discount on what is still owed for a service */
+export const redeemPointsForService = async (serviceId: string, points: number): Promise<RedemptionResult> => {
+  const { data, error } = await supabase.rpc('redeem_loyalty_points_for_service', {
+    p_service_id: serviceId,
+    p_points: points,
+  });
+
+  if (error) throw error;
+  return data as unknown as RedemptionResult;
+};
+
+/** Points redeemed and earned on a service or sale; null when it has no registered customer */
+export const fetchLoyaltyReceipt = async (target: { serviceId?: string; saleId?: string }): Promise<LoyaltyReceipt | null> => {
+  const { data, error } = await supabase.rpc('get_loyalty_receipt', {
+    p_service_id: target.serviceId,
+    p_sale_id: target.saleId,
+  });
+
+  if (error) throw error;
+  return data as unknown as LoyaltyReceipt | null;
+};
+
+/** Discount a number of points is worth */
+export const pointsValue = (settings: Pick<LoyaltySettings, 'point_value'>, points: number) =>
+  Math.round(points * settings.point_value * 100) / 100;
@@ -0,0 +1,110 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const PAYMENT_METHODS = [
+  { value: 'cash', label: 'Cash' },
+  { value: 'card', label: 'Card' },
+  { value: 'mobile_money', label: 'Mobile Money' },
+  { value: 'bank_transfer', label: 'Bank Transfer' },
+] as const;
+
+export type PaymentMethod = typeof PAYMENT_METHODS[number]['value'];
+
+export interface PaymentTender {
+  payment_method: PaymentMethod;
+  amount: number;
+  reference_number?: string;
+}
+
+export interface PaymentRecord {
+  id: string;
+  amount: number;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  is_deposit: boolean;
+  created_at: string;
+}
+
+export interface PaymentSummary {
+  amount_due: number;
+  amount_paid: number;
+  balance: number;
+  returned_to_customer: number;
+  payments: PaymentRecord[];
+}
+
+export interface RecordPaymentResult {
+  success: boolean;
+  amount_due?: number;
+  amount_paid?: number;
+  balance?: number;
+  is_deposit?: boolean;
+  message: string;
+  error?: string;
+}
+
+export interface CustomerBalance {
+  customer_id: string;
+  total_charged: number;
+  total_paid: number;
+  deposits_held: number;
+  outstanding_balance: number;
+}
+
+export const getPaymentMethodLabel = (method: string) => {
+  if (method === 'split') return 'Split Payment';
+  if (method === 'on_account') return 'On Account';
+  return PAYMENT_METHODS.find(option => option.value === method)?.label || method;
+};
+
+/**
+ * Sum of the tenders, rounded to cents
+ */
+export const sumTenders = (tenders: PaymentTender[]) =>
+  Math.round(tenders.reduce((sum, tender) => sum + (Number(tender.amount) || 0), 0) * 100) / 100;
+
+/**
+ * Record one or more tenders against a service or a sale. Payments on a service that
+ * is not completed yet are stored as deposits.
+ */
+export const recordPayments = async (
+  target: { serviceId: string } | { saleId: string },
+  tenders: PaymentTender[],
+  notes?: string
+): Promise<RecordPaymentResult> => {
+  const { data, error } = await supabase.rpc('record_payments', {
+    p_payments: tenders.filter(tender => tender.amount > 0).map(tender => ({ ...tender })),
+    p_service_id: 'serviceId' in target ? target.serviceId : undefined,
+    p_sale_id: 'saleId' in target ? target.saleId : undefined,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as RecordPaymentResult;
+};
+
+/**
+ * Amount due, paid and the tender breakdown for a service or a sale
+ */
+export const fetchPaymentSummary = async (
+  target: { serviceId: string } | { saleId: string }
+): Promise<PaymentSummary> => {
+  const { data, error } = await supabase.rpc('get_payment_summary', {
+    p_service_id: 'serviceId' in target ? target.serviceId : undefined,
+    p_sale_id: 'saleId' in target ? target.saleId : undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as PaymentSummary;
+};
+
+/**
+ * Outstanding balances keyed by customer id
+ */
+export const fetchCustomerBalances = async (customerId?: string): Promise<Record<string, CustomerBalance>> => {
+  const { data, error } = await supabase.rpc('get_customer_balances', {
+    p_customer_id: customerId,
+  });
+
+  if (error) throw error;
+  return (data || []).reduce((acc, balance) => ({ ...acc, [balance.customer_id]: balance }), {} as Record<string, CustomerBalance>);
+};
@@ -0,0 +1,210 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentMethod } from "@/utils/payments";
+
+export type PayrollRunStatus = 'draft' | 'approved' | 'paid';
+
+export interface PayrollRun {
+  id: string;
+  branch_id: string;
+  period_start: string;
+  status: PayrollRunStatus;
+  approved_by: string | null;
+  approved_at: string | null;
+  created_at: string;
+}
+
+export interface PayrollDeduction {
+  name: string;
+  rate: number;
+  fixed_amount: number;
+  amount: number;
+}
+
+/** A worker's payslip for the run */
+export interface PayrollLine {
+  id: string;
+  run_id: string;
+  worker_id: string | null;
+  worker_name: string;
+  worker_role: string;
+  payment_type: string;
+  base_salary: number;
+  attendance_ratio: number;
+  commission: number;
+  services_count: number;
+  tips: number;
+  bonus: number;
+  gross_pay: number;
+  deductions: PayrollDeduction[];
+  deductions_total: number;
+  advances: number;
+  net_pay: number;
+  amount_paid: number;
+  notes: string | null;
+}
+
+export interface PayrollPayment {
+  id: string;
+  line_id: string;
+  amount: number;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  created_at: string;
+}
+
+export interface PayrollDeductionType {
+  id: string;
+  name: string;
+  rate: number;
+  fixed_amount: number;
+  is_active: boolean;
+}
+
+interface PayrollResult {
+  success: boolean;
+  run_id?: string;
+  payslips?: number;
+  net_pay?: number;
+  amount?: number;
+  message: string;
+  error?: string;
+}
+
+/**
+ * The run for a month (yyyy-mm) in the branch payroll is prepared for (the scoped branch,
+ * or the user's first one), or null when payroll hasn't been prepared yet
+ */
+export const fetchPayrollRun = async (month: string): Promise<PayrollRun | null> => {
+  const { data: branchId, error: branchError } = await supabase.rpc('current_branch_id');
+  if (branchError) throw branchError;
+
+  const { data, error } = await supabase
+    .from('payroll_runs')
+    .select('*')
+    .eq('branch_id', branchId)
+    .eq('period_start', `${month}-01`)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data as PayrollRun | null;
+};
+
+/** A run's payslips, by worker name */
+export const fetchPayrollLines = async (runId: string): Promise<PayrollLine[]> => {
+  const { data, error } = await supabase
+    .from('payroll_lines')
+    .select('*')
+    .eq('run_id', runId)
+    .order('worker_name');
+
+  if (error) throw error;
+  return (data || []) as unknown as PayrollLine[];
+};
+
+/** Wages paid against a payslip, oldest first */
+export const fetchPayrollPayments = async (lineId: string): Promise<PayrollPayment[]> => {
+  const { data, error } = await supabase
+    .from('payroll_payments')
+    .select('*')
+    .eq('line_id', lineId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as PayrollPayment[];
+};
+
+/** Create the month's (yyyy-mm) draft payroll, or refresh it from current salaries, attendance, commission, tips and advances */
+export const generatePayrollRun = async (month: string): Promise<PayrollResult> => {
+  const { data, error } = await supabase.rpc('generate_payroll_run', { p_month: `${month}-01` });
+
+  if (error) throw error;
+  return data as unknown as PayrollResult;
+};
+
+/** Set the bonus on a draft payslip; advance installments are re-taken against the new pay */
+export const updatePayrollLine = async (line: {
+  id: string;
+  bonus: number;
+  notes?: string;
+}): Promise<PayrollResult> => {
+  const { data, error } = await supabase.rpc('update_payroll_line', {
+    p_line_id: line.id,
+    p_bonus: line.bonus,
+    p_notes: line.notes || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as PayrollResult;
+};
+
+/** Approve a draft run, locking its month, or reopen an approved run that has no wages paid */
+export const setPayrollRunApproved = async (runId: string, approve: boolean): Promise<PayrollResult> => {
+  const { data, error } = await supabase.rpc('set_payroll_run_status', {
+    p_run_id: runId,
+    p_approve: approve,
+  });
+
+  if (error) throw error;
+  return data as unknown as PayrollResult;
+};
+
+/** Pay one payslip, or every unpaid payslip in the run when no line is given; the amount defaults to what is owed */
+export const recordPayrollPayment = async (payment: {
+  runId: string;
+  paymentMethod: PaymentMethod;
+  lineId?: string;
+  amount?: number;
+  referenceNumber?: string;
+}): Promise<PayrollResult> => {
+  const { data, error } = await supabase.rpc('record_payroll_payment', {
+    p_run_id: payment.runId,
+    p_payment_method: payment.paymentMethod,
+    p_line_id: payment.lineId || undefined,
+    p_amount: payment.amount ?? undefined,
+    p_reference_number: payment.referenceNumber || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as PayrollResult;
+};
+
+export const fetchPayrollDeductionTypes = async (): Promise<PayrollDeductionType[]> => {
+  const { data, error } = await supabase
+    .from('payroll_deduction_types')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as PayrollDeductionType[];
+};
+
+/** Create or update a statutory deduction; it applies to payslips from the next payroll refresh */
+export const savePayrollDeductionType = async (deduction: {
+  id?: string;
+  name: string;
+  rate: number;
+  fixedAmount: number;
+  isActive: boolean;
+}) => {
+  const deductionData = {
+    name: deduction.name,
+    rate: deduction.rate,
+    fixed_amount: deduction.fixedAmount,
+    is_active: deduction.isActive,
+  };
+
+  const { error } = deduction.id
+    ? await supabase.from('payroll_deduction_types').update(deductionData).eq('id', deduction.id)
+    : await supabase.from('payroll_deduction_types').insert(deductionData);
+
+  if (error) throw error;
+};
+
+/**
+ * Changes to completed services in an approved payroll month are rejected by the database.
+ * Returns the readable message, or null for any other error.
+ */
+export const getPayrollLockMessage = (error: unknown) => {
+  const message = (error as { message?: string } | null)?.message;
+  return message && message.includes('reopen the payroll run') ? message : null;
+};
@@ -43,47 +43,43 @@ export const canViewAdminContent = (profile: Profile | null): boolean => {
  */
 export const getUserRoleDisplay = (profile: Profile | null): string => {
   if (!profile) return 'Unknown';
+  if (profile.role_name) return profile.role_name;
   return profile.role === 'admin' ? 'Administrator' : 'User';
 };
 
 /**
- * Check if user can access a specific feature based on role
+ * Older feature names used around the app, mapped to the grantable features in app_features
+ */
+const FEATURE_ALIASES: Record<string, string> = {
+  'admin': 'user_management',
+  'workers_management': 'workers',
+  'system_settings': 'settings',
+  'view_all_customers': 'customers',
+  'edit_all_customers': 'customers',
+  'view_own_services': 'services',
+  'edit_own_services': 'services',
+  'view_own_service_products': 'services',
+  'view_all_services': 'all_services',
+  'edit_all_services': 'all_services',
+  'view_all_service_products': 'all_services',
+};
+
+/**
+ * Check if user can access a specific feature based on their role's grants
  * @param profile - User profile object
  * @param feature - Feature name to check
  * @returns boolean indicating if user can access the feature
  */
 export const canAccessFeature = (profile: Profile | null, feature: string): boolean => {
   if (!profile) return false;
-  
-  // Define feature permissions
-  const featurePermissions: Record<string, string[]> = {
-    // Admin-only features
-    'dashboard': ['admin'],
-    'workers_management': ['admin'],
-    'system_settings': ['admin'],
-    'user_management': ['admin'],
-    
-    // User-accessible features
-    'services': ['admin', 'user'],
-    'customers': ['admin', 'user'],
-    'inventory': ['admin', 'user'],
-    'alerts': ['admin', 'user'],
-    'reports': ['admin', 'user'],
-    'basic_operations': ['admin', 'user'],
-    
-    // Data access permissions (hybrid approach)
-    'view_all_customers': ['admin', 'user'],        // ✅ All users can see all customers
-    'view_own_services': ['admin', 'user'],         // ✅ Users can see their own services
-    'view_all_services': ['admin'],                 // ❌ Only admins can see all services
-    'view_own_service_products': ['admin', 'user'], // ✅ Users can see products for their own services
-    'view_all_service_products': ['admin'],         // ❌ Only admins can see all service products
-    'edit_all_customers': ['admin', 'user'],        // ✅ All users can edit any customer
-    'edit_own_services': ['admin', 'user'],         // ✅ Users can edit their own services
-    'edit_all_services': ['admin'],                 // ❌ Only admins can edit all services
-  };
-  
-  const requiredRoles = featurePermissions[feature] || ['user'];
-  return requiredRoles.includes(profile.role);
+  if (profile.is_active === false || profile.access_level === 'banned') return false;
+  if (feature === 'basic_operations') return true;
+
+  // Grants not loaded yet: only full-access users get through
+  if (!profile.features) return isAdmin(profile);
+  if (profile.all_features) return true;
+
+  return profile.features.includes(FEATURE_ALIASES[feature] || feature);
 };
 
 /**
@@ -0,0 +1,212 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentTender } from "@/utils/payments";
+
+export interface ServicePackage {
+  id: string;
+  name: string;
+  catalog_service_id: string;
+  units: number;
+  price: number;
+  validity_months: number | null;
+  is_active: boolean;
+  service_catalog: { name: string } | null;
+}
+
+export interface CustomerPackage {
+  id: string;
+  customer_id: string;
+  name: string;
+  units_total: number;
+  units_remaining: number;
+  price_paid: number;
+  expires_at: string | null;
+  created_at: string;
+  customers: { name: string } | null;
+  service_catalog: { name: string } | null;
+}
+
+export interface GiftVoucher {
+  id: string;
+  code: string;
+  initial_value: number;
+  balance: number;
+  expires_at: string | null;
+  purchaser_name: string;
+  recipient_name: string | null;
+  customer_id: string | null;
+  created_at: string;
+}
+
+/** Package units or voucher value a service used */
+export interface ServicePrepaid {
+  source: 'package' | 'voucher';
+  name: string;
+  units: number;
+  covered: number;
+}
+
+interface PrepaidBalances {
+  outstanding: number;
+  open_count: number;
+  expired_unredeemed: number;
+  sold: number;
+  redeemed: number;
+}
+
+export interface PrepaidLiability {
+  packages: PrepaidBalances & { outstanding_units: number };
+  vouchers: PrepaidBalances;
+}
+
+interface PrepaidResult {
+  success: boolean;
+  customer_package_id?: string;
+  gift_voucher_id?: string;
+  code?: string;
+  expires_at?: string | null;
+  amount?: number;
+  voucher_balance?: number;
+  message: string;
+  error?: string;
+}
+
+/** Packages that can be sold, with the catalog service each one covers */
+export const fetchServicePackages = async (): Promise<ServicePackage[]> => {
+  const { data, error } = await supabase
+    .from('service_packages')
+    .select('*, service_catalog(name)')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as unknown as ServicePackage[];
+};
+
+/** Create or update a package */
+export const saveServicePackage = async (pkg: {
+  id?: string;
+  name: string;
+  catalogServiceId: string;
+  units: number;
+  price: number;
+  validityMonths: number | null;
+  isActive: boolean;
+  createdBy: string;
+}) => {
+  const packageData = {
+    name: pkg.name,
+    catalog_service_id: pkg.catalogServiceId,
+    units: pkg.units,
+    price: pkg.price,
+    validity_months: pkg.validityMonths,
+    is_active: pkg.isActive,
+  };
+
+  const { error } = pkg.id
+    ? await supabase.from('service_packages').update(packageData).eq('id', pkg.id)
+    : await supabase.from('service_packages').insert({ ...packageData, created_by: pkg.createdBy });
+
+  if (error) throw error;
+};
+
+/** Packages sold to customers, newest first; pass a customer id for just theirs */
+export const fetchCustomerPackages = async (customerId?: string): Promise<CustomerPackage[]> => {
+  let query = supabase
+    .from('customer_packages')
+    .select('*, customers(name), service_catalog(name)')
+    .order('created_at', { ascending: false });
+
+  if (customerId) query = query.eq('customer_id', customerId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as unknown as CustomerPackage[];
+};
+
+/** Gift vouchers, newest first; pass a customer id for the ones they bought */
+export const fetchGiftVouchers = async (customerId?: string): Promise<GiftVoucher[]> => {
+  let query = supabase
+    .from('gift_vouchers')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (customerId) query = query.eq('customer_id', customerId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data || []) as GiftVoucher[];
+};
+
+/** Sell a package to a customer; the tenders must cover its price in full */
+export const sellServicePackage = async (
+  customerId: string,
+  packageId: string,
+  payments: PaymentTender[]
+): Promise<PrepaidResult> => {
+  const { data, error } = await supabase.rpc('sell_service_package', {
+    p_customer_id: customerId,
+    p_package_id: packageId,
+    p_payments: payments.filter(tender => tender.amount > 0).map(tender => ({ ...tender })),
+  });
+
+  if (error) throw error;
+  return data as unknown as PrepaidResult;
+};
+
+/** Sell a gift voucher; a code is generated unless one is given, and null validity never expires */
+export const issueGiftVoucher = async (voucher: {
+  value: number;
+  purchaserName: string;
+  recipientName?: string;
+  customerId?: string | null;
+  validityMonths: number | null;
+  code?: string;
+  payments: PaymentTender[];
+}): Promise<PrepaidResult> => {
+  const { data, error } = await supabase.rpc('issue_gift_voucher', {
+    p_value: voucher.value,
+    p_purchaser_name: voucher.purchaserName,
+    p_recipient_name: voucher.recipientName || undefined,
+    p_customer_id: voucher.customerId || undefined,
+    p_validity_months: voucher.validityMonths ?? undefined,
+    p_code: voucher.code || undefined,
+    p_payments: voucher.payments.filter(tender => tender.amount > 0).map(tender => ({ ...tender })),
+  });
+
+  if (error) throw error;
+  return data as unknown as PrepaidResult;
+};
+
+/** Take a gift voucher off what is owed for a service; the amount defaults to as much as possible */
+export const redeemGiftVoucher = async (serviceId: string, code: string, amount?: number): Promise<PrepaidResult> => {
+  const { data, error } = await supabase.rpc('redeem_gift_voucher_for_service', {
+    p_service_id: serviceId,
+    p_code: code,
+    p_amount: amount,
+  });
+
+  if (error) throw error;
+  return data as unknown as PrepaidResult;
+};
+
+export const fetchServicePrepaid = async (serviceId: string): Promise<ServicePrepaid[]> => {
+  const { data, error } = await supabase.rpc('get_service_prepaid', { p_service_id: serviceId });
+
+  if (error) throw error;
+  return (data || []) as ServicePrepaid[];
+};
+
+/** Unredeemed package and voucher balances, plus sales and redemptions in the period (yyyy-mm-dd, inclusive) */
+export const fetchPrepaidLiability = async (period?: { from: string; to: string }): Promise<PrepaidLiability> => {
+  const periodEnd = period ? new Date(`${period.to}T00:00:00`) : null;
+  periodEnd?.setDate(periodEnd.getDate() + 1);
+
+  const { data, error } = await supabase.rpc('get_prepaid_liability', {
+    p_from: period ? new Date(`${period.from}T00:00:00`).toISOString() : undefined,
+    p_to: periodEnd?.toISOString(),
+  });
+
+  if (error) throw error;
+  return data as unknown as PrepaidLiability;
+};
+
+export const isPrepaidExpired = (expiresAt: string | null) => !!expiresAt && new Date(expiresAt) <= new Date();
@@ -0,0 +1,162 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+}
+
+export interface PurchaseOrderLine {
+  id: string;
+  item_id: string;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  inventory_items: { name: string; barcode: string | null } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  branch_id: string;
+  status: PurchaseOrderStatus;
+  order_date: string;
+  expected_date: string | null;
+  notes: string | null;
+  total_amount: number;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  suppliers: Pick<Supplier, 'name' | 'contact_name' | 'email' | 'phone' | 'address'> | null;
+  branches: { name: string; address: string | null; phone: string | null } | null;
+  purchase_order_lines: PurchaseOrderLine[];
+}
+
+export interface PurchaseOrderLineInput {
+  item_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+interface PurchaseOrderResult {
+  success: boolean;
+  purchase_order_id?: string;
+  po_number?: string;
+  status?: PurchaseOrderStatus;
+  units_received?: number;
+  message: string;
+  error?: string;
+}
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const fetchSuppliers = async (): Promise<Supplier[]> => {
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as Supplier[];
+};
+
+export const saveSupplier = async (
+  supplier: Omit<Supplier, 'id' | 'created_at'> & { id?: string }
+) => {
+  const { id, ...values } = supplier;
+
+  const { error } = id
+    ? await supabase.from('suppliers').update(values).eq('id', id)
+    : await supabase.from('suppliers').insert(values);
+
+  if (error) throw error;
+};
+
+/**
+ * Purchase orders in the current branch scope with supplier, branch and lines, newest first
+ */
+export const fetchPurchaseOrders = async (): Promise<PurchaseOrder[]> => {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select(`
+      *,
+      suppliers(name, contact_name, email, phone, address),
+      branches(name, address, phone),
+      purchase_order_lines(id, item_id, quantity_ordered, quantity_received, unit_cost, inventory_items(name, barcode))
+    `)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as PurchaseOrder[];
+};
+
+/**
+ * Create a draft order, or replace the supplier, expected date and lines of an existing draft.
+ * The expected date defaults to the supplier's lead time.
+ */
+export const savePurchaseOrder = async (order: {
+  id?: string;
+  supplierId: string;
+  expectedDate?: string;
+  notes?: string;
+  lines: PurchaseOrderLineInput[];
+}): Promise<PurchaseOrderResult> => {
+  const { data, error } = await supabase.rpc('save_purchase_order', {
+    p_supplier_id: order.supplierId,
+    p_lines: order.lines.map(line => ({ ...line })),
+    p_po_id: order.id,
+    p_expected_date: order.expectedDate || undefined,
+    p_notes: order.notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as PurchaseOrderResult;
+};
+
+export const updatePurchaseOrderStatus = async (
+  orderId: string,
+  status: 'sent' | 'cancelled'
+): Promise<PurchaseOrderResult> => {
+  const { data, error } = await supabase.rpc('update_purchase_order_status', {
+    p_po_id: orderId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+  return data as unknown as PurchaseOrderResult;
+};
+
+/**
+ * Book in what arrived. Each received quantity becomes a stock_in transaction referencing the PO
+ * and opens a lot with the given lot number and expiry date.
+ */
+export const receivePurchaseOrder = async (
+  orderId: string,
+  lines: { line_id: string; quantity: number; lot_number?: string; expiry_date?: string }[],
+  notes?: string
+): Promise<PurchaseOrderResult> => {
+  const { data, error } = await supabase.rpc('receive_purchase_order', {
+    p_po_id: orderId,
+    p_lines: lines.filter(line => line.quantity > 0).map(line => ({ ...line })),
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as PurchaseOrderResult;
+};
@@ -0,0 +1,60 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface ReorderSuggestion {
+  item_id: string;
+  item_name: string;
+  branch_id: string;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  lead_time_days: number;
+  current_stock: number;
+  min_stock_level: number;
+  max_stock_level: number;
+  /** Units still outstanding on draft, sent and partially received orders */
+  on_order: number;
+  consumed_quantity: number;
+  daily_usage: number;
+  /** Null when the item was not used in the lookback window */
+  days_of_inventory: number | null;
+  reorder_point: number;
+  suggested_quantity: number;
+  unit_cost: number;
+  needs_reorder: boolean;
+}
+
+interface ReorderOrdersResult {
+  success: boolean;
+  orders?: { purchase_order_id: string; po_number: string; supplier_name: string }[];
+  skipped?: number;
+  message: string;
+  error?: string;
+}
+
+export const REORDER_LOOKBACK_OPTIONS = [30, 60, 90];
+
+/**
+ * Usage velocity and reorder point for every item in the branch scope.
+ * Consumption counts products used on completed services plus retail sales and other stock_out movements.
+ */
+export const fetchReorderSuggestions = async (lookbackDays = 30): Promise<ReorderSuggestion[]> => {
+  const { data, error } = await supabase.rpc('get_reorder_suggestions', {
+    p_lookback_days: lookbackDays,
+  });
+
+  if (error) throw error;
+  return (data || []) as ReorderSuggestion[];
+};
+
+/**
+ * Admin-only: one draft purchase order per supplier and branch. Items without a supplier are skipped.
+ */
+export const createReorderPurchaseOrders = async (
+  lines: { item_id: string; quantity: number; unit_cost: number }[]
+): Promise<ReorderOrdersResult> => {
+  const { data, error } = await supabase.rpc('create_reorder_purchase_orders', {
+    p_lines: lines.map(line => ({ ...line })),
+  });
+
+  if (error) throw error;
+  return data as unknown as ReorderOrdersResult;
+};
@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type TaxClass = 'standard' | 'reduced' | 'zero' | 'exempt';
+
+export const TAX_CLASS_LABELS: Record<TaxClass, string> = {
+  standard: 'Standard rate',
+  reduced: 'Reduced rate',
+  zero: 'Zero rated',
+  exempt: 'Exempt',
+};
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  sku: string;
+  size: string | null;
+  colour: string | null;
+  retail_price: number | null;
+  is_active: boolean;
+  created_at: string;
+  inventory_items: { id: string; name: string; branch_id: string | null; current_stock: number }[];
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  unit_price: number;
+  photo_url: string | null;
+  tax_class: TaxClass;
+  is_active: boolean;
+  created_at: string;
+  product_variants: ProductVariant[];
+}
+
+const PHOTO_BUCKET = 'product-photos';
+
+/** The retail catalog with each product's variants and the stock items they are sold from */
+export const fetchRetailCatalog = async (): Promise<Product[]> => {
+  const { data, error } = await supabase
+    .from('products')
+    .select(`
+      *,
+      product_variants(*, inventory_items(id, name, branch_id, current_stock))
+    `)
+    .order('category')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as unknown as Product[];
+};
+
+/** Create or update a product; returns its id */
+export const saveProduct = async (product: {
+  id?: string;
+  name: string;
+  category: string;
+  description?: string;
+  unitPrice: number;
+  photoUrl: string | null;
+  taxClass: TaxClass;
+  isActive: boolean;
+  createdBy: string;
+}): Promise<string> => {
+  const productData = {
+    name: product.name,
+    category: product.category,
+    description: product.description || null,
+    unit_price: product.unitPrice,
+    photo_url: product.photoUrl,
+    tax_class: product.taxClass,
+    is_active: product.isActive,
+  };
+
+  if (product.id) {
+    const { error } = await supabase.from('products').update(productData).eq('id', product.id);
+    if (error) throw error;
+    return product.id;
+  }
+
+  const { data, error } = await supabase
+    .from('products')
+    .insert({ ...productData, created_by: product.createdBy })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/** Create or update a variant of a product; returns its id */
+export const saveVariant = async (variant: {
+  id?: string;
+  productId: string;
+  sku: string;
+  size?: string;
+  colour?: string;
+  retailPrice: number | null;
+  isActive: boolean;
+}): Promise<string> => {
+  const variantData = {
+    product_id: variant.productId,
+    sku: variant.sku,
+    size: variant.size || null,
+    colour: variant.colour || null,
+    retail_price: variant.retailPrice,
+    is_active: variant.isActive,
+  };
+
+  if (variant.id) {
+    const { error } = await supabase.from('product_variants').update(variantData).eq('id', variant.id);
+    if (error) throw error;
+    return variant.id;
+  }
+
+  const { data, error } = await supabase
+    .from('product_variants')
+    .insert(variantData)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+/** Sell an inventory item as the given variant, or unlink it with null */
+export const linkVariantItem = async (itemId: string, variantId: string | null) => {
+  const { error } = await supabase
+    .from('inventory_items')
+    .update({ product_variant_id: variantId })
+    .eq('id', itemId);
+
+  if (error) throw error;
+};
+
+/** Upload a product photo and return its public URL */
+export const uploadProductPhoto = async (file: File) => {
+  const extension = file.name.split('.').pop()?.toLowerCase() || 'jpg';
+  const path = `${crypto.randomUUID()}.${extension}`;
+
+  const { error } = await supabase.storage.from(PHOTO_BUCKET).upload(path, file, {
+    contentType: file.type,
+  });
+  if (error) throw error;
+
+  return supabase.storage.from(PHOTO_BUCKET).getPublicUrl(path).data.publicUrl;
+};
+
+/** "Large / Red", or an empty string for a variant without options */
+export const variantLabel = (variant: Pick<ProductVariant, 'size' | 'colour'>) =>
+  [variant.size, variant.colour].filter(Boolean).join(' / ');
+
+/** Retail price of a variant: its own price, else the product's */
+export const variantPrice = (product: Pick<Product, 'unit_price'>, variant: Pick<ProductVariant, 'retail_price'>) =>
+  variant.retail_price ?? product.unit_price;
+
+/** How a variant is named on receipts: "Argan Oil - 250ml / Gold" */
+export const variantDisplayName = (product: Pick<Product, 'name'>, variant: Pick<ProductVariant, 'size' | 'colour'>) =>
+  variantLabel(variant) ? `${product.name} - ${variantLabel(variant)}` : product.name;
@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Role {
+  id: string;
+  key: string;
+  name: string;
+  description: string | null;
+  all_features: boolean;
+  is_system: boolean;
+  /** Granted feature keys; every feature for all_features roles */
+  features: string[];
+}
+
+export interface AppFeature {
+  key: string;
+  label: string;
+  description: string | null;
+  sort_order: number;
+}
+
+/** The signed-in user's role and grants, as returned by get_my_access */
+export interface UserAccess {
+  role_id?: string;
+  role_key?: string;
+  role_name?: string;
+  all_features: boolean;
+  features: string[];
+}
+
+interface RoleResult {
+  success: boolean;
+  role_id?: string;
+  role_key?: string;
+  message: string;
+  error?: string;
+}
+
+/**
+ * Role and granted features of the signed-in user
+ */
+export const fetchMyAccess = async (): Promise<UserAccess> => {
+  const { data, error } = await supabase.rpc('get_my_access');
+
+  if (error) throw error;
+  return data as unknown as UserAccess;
+};
+
+/**
+ * Every role with its granted features, full-access roles first
+ */
+export const fetchRoles = async (): Promise<Role[]> => {
+  const [rolesResult, grantsResult, features] = await Promise.all([
+    supabase.from('roles').select('*').order('all_features', { ascending: false }).order('name'),
+    supabase.from('role_permissions').select('role_id, feature'),
+    fetchAppFeatures(),
+  ]);
+
+  if (rolesResult.error) throw rolesResult.error;
+  if (grantsResult.error) throw grantsResult.error;
+
+  return (rolesResult.data || []).map(role => ({
+    ...role,
+    features: role.all_features
+      ? features.map(feature => feature.key)
+      : (grantsResult.data || []).filter(grant => grant.role_id === role.id).map(grant => grant.feature),
+  }));
+};
+
+export const fetchAppFeatures = async (): Promise<AppFeature[]> => {
+  const { data, error } = await supabase
+    .from('app_features')
+    .select('*')
+    .order('sort_order');
+
+  if (error) throw error;
+  return (data || []) as AppFeature[];
+};
+
+/**
+ * Create a role (no id) or update its name, description and grants
+ */
+export const saveRole = async (
+  role: { id?: string; name: string; description?: string; features: string[] }
+): Promise<RoleResult> => {
+  const { data, error } = await supabase.rpc('save_role', {
+    p_name: role.name,
+    p_role_id: role.id,
+    p_description: role.description,
+    p_features: role.features,
+  });
+
+  if (error) throw error;
+  return data as unknown as RoleResult;
+};
+
+export const deleteRole = async (roleId: string): Promise<RoleResult> => {
+  const { data, error } = await supabase.rpc('delete_role', { p_role_id: roleId });
+
+  if (error) throw error;
+  return data as unknown as RoleResult;
+};
@@ -0,0 +1,247 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SalesReceiptData } from "@/components/inventory/SalesReceiptDialog";
+import { PaymentTender } from "@/utils/payments";
+
+export interface CheckoutItem {
+  id: string;
+  /** The catalog variant the inventory item is sold as */
+  variant_id: string;
+  name: string;
+  quantity: number;
+}
+
+export interface CheckoutRequest {
+  customerName: string;
+  customerPhone?: string;
+  customerId?: string | null;
+  paymentMethod: string;
+  referenceNumber?: string;
+  items: CheckoutItem[];
+  // Split tenders; when omitted the sale is paid in full with paymentMethod
+  payments?: PaymentTender[];
+  // Loyalty points the customer spends as a discount; needs customerId
+  redeemPoints?: number;
+  // Worker credited with the sale; earns retail commission when a rule matches
+  workerId?: string | null;
+}
+
+export interface CheckoutResult {
+  success: boolean;
+  sale_id?: string;
+  reference_number?: string;
+  total_amount?: number;
+  loyalty_discount?: number;
+  points_redeemed?: number;
+  points_earned?: number;
+  points_balance?: number | null;
+  amount_paid?: number;
+  balance?: number;
+  items_count?: number;
+  created_at?: string;
+  message: string;
+  error?: string;
+}
+
+export interface SaleSummary {
+  sale_id: string;
+  customer_id: string | null;
+  customer_name: string;
+  customer_phone: string | null;
+  payment_method: string;
+  total_amount: number;
+  refunded_amount: number;
+  items_count: number;
+  status: string;
+  created_at: string;
+  reference_number: string | null;
+  sold_by: string | null;
+}
+
+export interface SaleLineItem {
+  id: string;
+  inventory_item_id: string;
+  item_name: string;
+  unit_price: number;
+  quantity: number;
+  refunded_quantity: number;
+  total_price: number;
+}
+
+export interface SaleDetails {
+  sale_info: {
+    id: string;
+    customer_id: string | null;
+    customer_name: string;
+    customer_phone: string | null;
+    payment_method: string;
+    reference_number: string | null;
+    total_amount: number;
+    items_count: number;
+    status: string;
+    created_at: string;
+    created_by: string;
+    refunded_amount: number;
+  };
+  items: SaleLineItem[];
+}
+
+export interface RefundLine {
+  sales_item_id: string;
+  quantity: number;
+  restock: boolean;
+}
+
+export interface RefundResult {
+  success: boolean;
+  refund_id?: string;
+  refund_type?: 'full' | 'partial' | 'void';
+  reference_number?: string;
+  total_amount?: number;
+  items_count?: number;
+  sale_status?: string;
+  created_at?: string;
+  message: string;
+  error?: string;
+}
+
+export interface SaleRefund {
+  refund_id: string;
+  refund_type: 'full' | 'partial' | 'void';
+  reason: string;
+  total_amount: number;
+  items_count: number;
+  reference_number: string;
+  approved_by_name: string | null;
+  created_at: string;
+  items: {
+    id: string;
+    sales_item_id: string;
+    item_name: string;
+    unit_price: number;
+    quantity: number;
+    total_price: number;
+    restocked: boolean;
+  }[];
+}
+
+export interface SalesHistoryFilters {
+  customerName?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  paymentMethod?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Record a cart sale in a single database transaction. Prices are taken from inventory,
+ * so the cart only needs to send item ids and quantities.
+ */
+export const processCartCheckout = async (request: CheckoutRequest): Promise<CheckoutResult> => {
+  const { data, error } = await supabase.rpc('process_cart_checkout', {
+    p_customer_name: request.customerName,
+    p_customer_phone: request.customerPhone || undefined,
+    p_customer_id: request.customerId || undefined,
+    p_payment_method: request.paymentMethod,
+    p_reference_number: request.referenceNumber || undefined,
+    p_items: request.items.map(item => ({ id: item.id, variant_id: item.variant_id, name: item.name, quantity: item.quantity })),
+    p_payments: request.payments?.filter(tender => tender.amount > 0).map(tender => ({ ...tender })),
+    p_redeem_points: request.redeemPoints || undefined,
+    p_worker_id: request.workerId || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as CheckoutResult;
+};
+
+/**
+ * Sales history, newest first. Non-admins only see the sales they rang up.
+ */
+export const fetchSalesHistory = async (filters: SalesHistoryFilters = {}): Promise<SaleSummary[]> => {
+  const { data, error } = await supabase.rpc('get_sales_history', {
+    p_limit: filters.limit ?? 100,
+    p_offset: filters.offset ?? 0,
+    p_customer_name: filters.customerName || undefined,
+    p_date_from: filters.dateFrom || undefined,
+    p_date_to: filters.dateTo || undefined,
+    p_payment_method: filters.paymentMethod || undefined,
+  });
+
+  if (error) throw error;
+  return (data || []) as SaleSummary[];
+};
+
+/**
+ * Header and line items of a single sale, or null when it is not visible to the caller
+ */
+export const fetchSaleDetails = async (saleId: string): Promise<SaleDetails | null> => {
+  const { data, error } = await supabase.rpc('get_sale_details', { p_sale_id: saleId });
+
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) return null;
+
+  return {
+    sale_info: row.sale_info as unknown as SaleDetails['sale_info'],
+    items: (row.items || []) as unknown as SaleLineItem[],
+  };
+};
+
+/**
+ * Refund selected sale lines, or void the whole sale. Only admins can approve refunds;
+ * the caller is recorded as the approver.
+ */
+export const processSaleRefund = async (
+  saleId: string,
+  reason: string,
+  lines: RefundLine[],
+  isVoid = false
+): Promise<RefundResult> => {
+  const { data, error } = await supabase.rpc('process_sale_refund', {
+    p_sale_id: saleId,
+    p_reason: reason,
+    p_items: lines.filter(line => line.quantity > 0).map(line => ({ ...line })),
+    p_void: isVoid,
+  });
+
+  if (error) throw error;
+  return data as unknown as RefundResult;
+};
+
+/**
+ * Refunds and voids recorded against a sale, newest first
+ */
+export const fetchSaleRefunds = async (saleId: string): Promise<SaleRefund[]> => {
+  const { data, error } = await supabase.rpc('get_sale_refunds', { p_sale_id: saleId });
+
+  if (error) throw error;
+  return (data || []).map(row => ({
+    ...row,
+    refund_type: row.refund_type as SaleRefund['refund_type'],
+    items: (row.items || []) as unknown as SaleRefund['items'],
+  }));
+};
+
+/**
+ * Build the printable receipt for a refund already recorded on a sale
+ */
+export const buildRefundReceipt = (sale: SaleDetails['sale_info'], refund: SaleRefund): SalesReceiptData => ({
+  items: refund.items.map(item => ({
+    id: item.id,
+    name: item.restocked ? item.item_name : `${item.item_name} (not restocked)`,
+    unit_price: Number(item.unit_price),
+    quantity: item.quantity,
+  })),
+  total: Number(refund.total_amount),
+  customerName: sale.customer_name,
+  customerPhone: sale.customer_phone || undefined,
+  paymentMethod: sale.payment_method,
+  referenceNumber: refund.reference_number,
+  saleDate: refund.created_at,
+  refund: {
+    type: refund.refund_type,
+    reason: refund.reason,
+    approvedBy: refund.approved_by_name,
+    originalReference: sale.reference_number,
+  },
+});
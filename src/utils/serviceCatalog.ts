@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface RecipeItem {
+  id: string;
+  item_id: string;
+  quantity: number;
+  inventory_items: { name: string; unit_price: number; cost_price: number } | null;
+}
+
+export interface CatalogService {
+  id: string;
+  name: string;
+  category: string;
+  description: string | null;
+  default_price: number;
+  duration_minutes: number;
+  commission_rate: number | null;
+  is_active: boolean;
+  created_at: string;
+  service_recipe_items: RecipeItem[];
+}
+
+export interface RecipeItemInput {
+  item_id: string;
+  quantity: number;
+}
+
+interface CatalogServiceResult {
+  success: boolean;
+  catalog_service_id?: string;
+  message: string;
+  error?: string;
+}
+
+/** The service menu with each service's recipe, by category then name */
+export const fetchServiceCatalog = async (): Promise<CatalogService[]> => {
+  const { data, error } = await supabase
+    .from('service_catalog')
+    .select(`
+      *,
+      service_recipe_items(id, item_id, quantity, inventory_items(name, unit_price, cost_price))
+    `)
+    .order('category')
+    .order('name');
+
+  if (error) throw error;
+  return (data || []) as unknown as CatalogService[];
+};
+
+/** Create or update a catalog service; its recipe is replaced with the given items */
+export const saveCatalogService = async (service: {
+  id?: string;
+  name: string;
+  category: string;
+  description?: string;
+  defaultPrice: number;
+  durationMinutes: number;
+  commissionRate: number | null;
+  isActive: boolean;
+  recipe: RecipeItemInput[];
+}): Promise<CatalogServiceResult> => {
+  const { data, error } = await supabase.rpc('save_catalog_service', {
+    p_name: service.name,
+    p_category: service.category,
+    p_default_price: service.defaultPrice,
+    p_duration_minutes: service.durationMinutes,
+    p_recipe: service.recipe.map(item => ({ ...item })),
+    p_catalog_service_id: service.id,
+    p_commission_rate: service.commissionRate ?? undefined,
+    p_description: service.description,
+    p_is_active: service.isActive,
+  });
+
+  if (error) throw error;
+  return data as unknown as CatalogServiceResult;
+};
+
+/** Standard product cost of one service, at average cost */
+export const recipeCost = (service: CatalogService) =>
+  service.service_recipe_items.reduce(
+    (sum, item) => sum + item.quantity * (item.inventory_items?.cost_price || 0),
+    0
+  );
+
+/**
+ * Booking lines for a catalog service's recipe. Items are matched by id, or by name when the
+ * recipe was set up against another branch's stock. Stock is counted in whole units, so
+ * fractional recipe quantities round up.
+ */
+export const recipeToServiceProducts = <T extends { id: string; name: string; unit_price: number }>(
+  service: CatalogService,
+  items: T[]
+) =>
+  service.service_recipe_items.flatMap(recipeItem => {
+    const recipeName = recipeItem.inventory_items?.name.toLowerCase();
+    const item = items.find(candidate => candidate.id === recipeItem.item_id)
+      || items.find(candidate => candidate.name.toLowerCase() === recipeName);
+    if (!item) return [];
+
+    const quantity = Math.max(Math.ceil(recipeItem.quantity), 1);
+    return [{
+      inventory_item_id: item.id,
+      quantity,
+      price_per_unit: item.unit_price,
+      total_price: item.unit_price * quantity,
+    }];
+  });
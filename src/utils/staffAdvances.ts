@@ -0,0 +1,135 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PayrollRunStatus } from "@/utils/payroll";
+
+export type AdvanceKind = 'advance' | 'loan';
+export type AdvanceStatus = 'pending' | 'approved' | 'rejected';
+
+export interface AdvanceRepayment {
+  id: string;
+  amount: number;
+  payroll_line_id: string;
+  payroll_lines: {
+    payroll_runs: { period_start: string; status: PayrollRunStatus } | null;
+  } | null;
+}
+
+export interface StaffAdvance {
+  id: string;
+  worker_id: string;
+  kind: AdvanceKind;
+  amount: number;
+  issued_on: string;
+  installment_amount: number;
+  first_deduction_month: string;
+  reason: string | null;
+  status: AdvanceStatus;
+  approved_at: string | null;
+  created_at: string;
+  staff_advance_repayments: AdvanceRepayment[];
+}
+
+/** An installment on a payslip, with the advance it repays */
+export interface PayslipRepayment {
+  id: string;
+  amount: number;
+  staff_advances: { kind: AdvanceKind; issued_on: string; amount: number } | null;
+}
+
+export interface AdvanceBalance {
+  /** Deducted on approved or paid payroll */
+  repaid: number;
+  /** Deducted on draft payroll, not yet final */
+  scheduled: number;
+  /** Still owed after repaid and scheduled installments */
+  outstanding: number;
+  installments_left: number;
+}
+
+interface AdvanceResult {
+  success: boolean;
+  message: string;
+  error?: string;
+}
+
+/** Repaid, scheduled and outstanding amounts of an advance; nothing is owed until it is approved */
+export const getAdvanceBalance = (advance: StaffAdvance): AdvanceBalance => {
+  const sumRepayments = (draft: boolean) =>
+    advance.staff_advance_repayments
+      .filter(repayment => (repayment.payroll_lines?.payroll_runs?.status === 'draft') === draft)
+      .reduce((sum, repayment) => sum + Number(repayment.amount), 0);
+
+  const repaid = sumRepayments(false);
+  const scheduled = sumRepayments(true);
+  const outstanding = advance.status === 'approved'
+    ? Math.max(0, Math.round((Number(advance.amount) - repaid - scheduled) * 100) / 100)
+    : 0;
+
+  return {
+    repaid,
+    scheduled,
+    outstanding,
+    installments_left: Math.ceil(outstanding / Number(advance.installment_amount)),
+  };
+};
+
+/** A worker's advances and loans, newest first, with their payroll repayments */
+export const fetchStaffAdvances = async (workerId: string): Promise<StaffAdvance[]> => {
+  const { data, error } = await supabase
+    .from('staff_advances')
+    .select('*, staff_advance_repayments(id, amount, payroll_line_id, payroll_lines(payroll_runs(period_start, status)))')
+    .eq('worker_id', workerId)
+    .order('issued_on', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as unknown as StaffAdvance[];
+};
+
+/** Installments deducted on a payslip, with the advance each one repays */
+export const fetchPayslipRepayments = async (lineId: string): Promise<PayslipRepayment[]> => {
+  const { data, error } = await supabase
+    .from('staff_advance_repayments')
+    .select('id, amount, staff_advances(kind, issued_on, amount)')
+    .eq('payroll_line_id', lineId);
+
+  if (error) throw error;
+  return (data || []) as unknown as PayslipRepayment[];
+};
+
+/**
+ * Record an advance or loan for approval. Once approved, payroll deducts the installment
+ * every month from firstDeductionMonth (yyyy-mm) until it is repaid.
+ */
+export const requestStaffAdvance = async (advance: {
+  workerId: string;
+  kind: AdvanceKind;
+  amount: number;
+  issuedOn: string;
+  installmentAmount: number;
+  firstDeductionMonth: string;
+  reason?: string;
+  createdBy: string;
+}) => {
+  const { error } = await supabase.from('staff_advances').insert({
+    worker_id: advance.workerId,
+    kind: advance.kind,
+    amount: advance.amount,
+    issued_on: advance.issuedOn,
+    installment_amount: advance.installmentAmount,
+    first_deduction_month: `${advance.firstDeductionMonth}-01`,
+    reason: advance.reason || null,
+    created_by: advance.createdBy,
+  });
+
+  if (error) throw error;
+};
+
+/** Approve a pending advance so payroll starts repaying it, or reject it */
+export const setStaffAdvanceApproved = async (advanceId: string, approve: boolean): Promise<AdvanceResult> => {
+  const { data, error } = await supabase.rpc('set_staff_advance_status', {
+    p_advance_id: advanceId,
+    p_approve: approve,
+  });
+
+  if (error) throw error;
+  return data as unknown as AdvanceResult;
+};
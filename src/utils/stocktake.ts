@@ -0,0 +1,160 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export type StocktakeStatus = 'counting' | 'posted' | 'cancelled';
+
+export interface Stocktake {
+  id: string;
+  reference: string;
+  branch_id: string;
+  status: StocktakeStatus;
+  notes: string | null;
+  started_by: string | null;
+  started_at: string;
+  posted_by: string | null;
+  posted_at: string | null;
+  variance_units: number;
+  variance_value: number;
+  branches: { name: string } | null;
+}
+
+export interface StocktakeLine {
+  id: string;
+  stocktake_id: string;
+  item_id: string;
+  expected_quantity: number;
+  counted_quantity: number | null;
+  unit_price: number;
+  counted_at: string | null;
+  adjusted: boolean;
+  inventory_items: { name: string; barcode: string | null } | null;
+}
+
+export interface ShrinkageRow {
+  item_id: string;
+  item_name: string;
+  stocktakes: number;
+  units: number;
+  value: number;
+}
+
+interface StocktakeResult {
+  success: boolean;
+  stocktake_id?: string;
+  reference?: string;
+  items?: number;
+  updated?: number;
+  adjusted_items?: number;
+  variance_units?: number;
+  variance_value?: number;
+  message: string;
+  error?: string;
+}
+
+export const STOCKTAKE_STATUS_LABELS: Record<StocktakeStatus, string> = {
+  counting: 'Counting',
+  posted: 'Posted',
+  cancelled: 'Cancelled',
+};
+
+/** Counted minus expected; null until the line is counted */
+export const lineVariance = (line: Pick<StocktakeLine, 'expected_quantity' | 'counted_quantity'>) =>
+  line.counted_quantity === null ? null : line.counted_quantity - line.expected_quantity;
+
+export const fetchStocktakes = async (): Promise<Stocktake[]> => {
+  const { data, error } = await supabase
+    .from('stocktakes')
+    .select('*, branches(name)')
+    .order('started_at', { ascending: false });
+
+  if (error) throw error;
+  return (data || []) as Stocktake[];
+};
+
+export const fetchStocktakeLines = async (stocktakeId: string): Promise<StocktakeLine[]> => {
+  const { data, error } = await supabase
+    .from('stocktake_lines')
+    .select('*, inventory_items(name, barcode)')
+    .eq('stocktake_id', stocktakeId);
+
+  if (error) throw error;
+  return ((data || []) as StocktakeLine[])
+    .sort((a, b) => (a.inventory_items?.name || '').localeCompare(b.inventory_items?.name || ''));
+};
+
+/**
+ * Net variance per item over the adjustments posted since the given date. Only lines that were
+ * posted count, so rejected variances and cancelled sessions stay out of the report.
+ */
+export const fetchShrinkage = async (since: string): Promise<ShrinkageRow[]> => {
+  const { data, error } = await supabase
+    .from('stocktake_lines')
+    .select('item_id, expected_quantity, counted_quantity, unit_price, stocktake_id, inventory_items(name), stocktakes!inner(status, posted_at)')
+    .eq('adjusted', true)
+    .eq('stocktakes.status', 'posted')
+    .gte('stocktakes.posted_at', since);
+
+  if (error) throw error;
+
+  const rows = (data || []).reduce<Record<string, ShrinkageRow>>((acc, line) => {
+    const units = (line.counted_quantity ?? line.expected_quantity) - line.expected_quantity;
+    const row = acc[line.item_id] || {
+      item_id: line.item_id,
+      item_name: line.inventory_items?.name || 'Unknown item',
+      stocktakes: 0,
+      units: 0,
+      value: 0,
+    };
+    // An item has one line per stocktake
+    row.stocktakes += 1;
+    row.units += units;
+    row.value += units * Number(line.unit_price);
+    acc[line.item_id] = row;
+    return acc;
+  }, {});
+
+  return Object.values(rows).sort((a, b) => a.value - b.value);
+};
+
+/** Snapshot the expected stock of every item in the current branch */
+export const startStocktake = async (notes?: string): Promise<StocktakeResult> => {
+  const { data, error } = await supabase.rpc('start_stocktake', {
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data as unknown as StocktakeResult;
+};
+
+/** Save counted quantities; a null count clears the line */
+export const recordStocktakeCounts = async (
+  stocktakeId: string,
+  counts: { line_id: string; counted_quantity: number | null }[]
+): Promise<StocktakeResult> => {
+  const { data, error } = await supabase.rpc('record_stocktake_counts', {
+    p_stocktake_id: stocktakeId,
+    p_counts: counts.map(count => ({ ...count })),
+  });
+
+  if (error) throw error;
+  return data as unknown as StocktakeResult;
+};
+
+/** Admin-only: post the approved lines as adjustment transactions and close the stocktake */
+export const postStocktake = async (stocktakeId: string, lineIds: string[]): Promise<StocktakeResult> => {
+  const { data, error } = await supabase.rpc('post_stocktake', {
+    p_stocktake_id: stocktakeId,
+    p_line_ids: lineIds,
+  });
+
+  if (error) throw error;
+  return data as unknown as StocktakeResult;
+};
+
+export const cancelStocktake = async (stocktakeId: string): Promise<StocktakeResult> => {
+  const { data, error } = await supabase.rpc('cancel_stocktake', {
+    p_stocktake_id: stocktakeId,
+  });
+
+  if (error) throw error;
+  return data as unknown as StocktakeResult;
+};
@@ -0,0 +1,133 @@
+import { supabase } from "@/integrations/supabase/client";
+import { PaymentMethod } from "@/utils/payments";
+
+/** A worker's percentage of a tip */
+export interface TipShare {
+  worker_id: string;
+  share_percent: number;
+}
+
+/** A tip being entered, before it is recorded */
+export interface TipEntry {
+  amount: number;
+  payment_method: PaymentMethod;
+  reference_number?: string;
+  shares: TipShare[];
+}
+
+export interface Tip {
+  id: string;
+  amount: number;
+  payment_method: PaymentMethod;
+  reference_number: string | null;
+  created_at: string;
+  tip_allocations: {
+    worker_id: string;
+    share_percent: number;
+    amount: number;
+    workers: { name: string } | null;
+  }[];
+}
+
+/** A worker's share of one tip */
+export interface WorkerTip {
+  amount: number;
+  share_percent: number;
+  created_at: string;
+  tips: {
+    service_id: string | null;
+    sale_id: string | null;
+    payment_method: PaymentMethod;
+  } | null;
+}
+
+export interface RecordTipResult {
+  success: boolean;
+  tip_id?: string;
+  amount?: number;
+  workers?: number;
+  message: string;
+  error?: string;
+}
+
+/** No tip yet; all of it goes to the worker who did the work, when there is one */
+export const emptyTip = (workerId?: string | null): TipEntry => ({
+  amount: 0,
+  payment_method: 'cash',
+  shares: workerId ? [{ worker_id: workerId, share_percent: 100 }] : [],
+});
+
+/** Equal percentages for the workers, the last one taking the rounding difference */
+export const splitTipEvenly = (workerIds: string[]): TipShare[] => {
+  const each = Math.floor(10000 / workerIds.length) / 100;
+  return workerIds.map((worker_id, index) => ({
+    worker_id,
+    share_percent: index === workerIds.length - 1
+      ? Math.round((100 - each * (workerIds.length - 1)) * 100) / 100
+      : each,
+  }));
+};
+
+/**
+ * Why the tip can't be recorded as entered, or null when it can. A tip of 0 is valid
+ * and simply not recorded.
+ */
+export const getTipError = (tip: TipEntry): string | null => {
+  if (tip.amount <= 0) return null;
+
+  const workerIds = tip.shares.map(share => share.worker_id).filter(Boolean);
+  if (workerIds.length === 0) return "Choose who receives the tip";
+  if (workerIds.length !== tip.shares.length) return "Choose a worker for every share of the tip";
+  if (new Set(workerIds).size !== workerIds.length) return "Each worker can only appear once in a tip split";
+  if (tip.shares.some(share => !(share.share_percent > 0))) return "Every share of the tip must be more than 0%";
+
+  const total = tip.shares.reduce((sum, share) => sum + share.share_percent, 0);
+  if (Math.abs(total - 100) > 0.01) return `Tip shares add up to ${Math.round(total * 100) / 100}%, not 100%`;
+
+  return null;
+};
+
+/** Record a tip on a completed service or a sale, split between workers */
+export const recordTip = async (
+  target: { serviceId: string } | { saleId: string },
+  tip: TipEntry
+): Promise<RecordTipResult> => {
+  const { data, error } = await supabase.rpc('record_tip', {
+    p_amount: tip.amount,
+    p_payment_method: tip.payment_method,
+    p_allocations: tip.shares.map(share => ({ ...share })),
+    p_service_id: 'serviceId' in target ? target.serviceId : undefined,
+    p_sale_id: 'saleId' in target ? target.saleId : undefined,
+    p_reference_number: tip.reference_number || undefined,
+  });
+
+  if (error) throw error;
+  return data as unknown as RecordTipResult;
+};
+
+/** Tips taken on a service or a sale, with who received them */
+export const fetchTips = async (target: { serviceId: string } | { saleId: string }): Promise<Tip[]> => {
+  const query = supabase
+    .from('tips')
+    .select('id, amount, payment_method, reference_number, created_at, tip_allocations(worker_id, share_percent, amount, workers(name))');
+
+  const { data, error } = await ('serviceId' in target
+    ? query.eq('service_id', target.serviceId)
+    : query.eq('sale_id', target.saleId)
+  ).order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as Tip[];
+};
+
+/** A worker's tip shares, oldest first */
+export const fetchWorkerTips = async (workerId: string): Promise<WorkerTip[]> => {
+  const { data, error } = await supabase
+    .from('tip_allocations')
+    .select('amount, share_percent, created_at, tips(service_id, sale_id, payment_method)')
+    .eq('worker_id', workerId)
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as unknown as WorkerTip[];
+};
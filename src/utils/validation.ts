@@ -135,11 +135,16 @@ export const extendedServiceValidation = z.object({
     .uuid("Invalid staff member ID format")
     .optional()
     .or(z.literal("")),
-  status: z.enum(['pending', 'completed', 'cancelled'], {
-    errorMap: () => ({ message: "Status must be 'pending', 'completed', or 'cancelled'" })
+  status: z.enum(['pending', 'in_progress', 'completed', 'cancelled'], {
+    errorMap: () => ({ message: "Status must be 'pending', 'in_progress', 'completed', or 'cancelled'" })
   }),
   date_time: z.string()
     .min(1, "Date and time is required"),
+  duration_minutes: z.union([z.string(), z.number()])
+    .transform((val) => typeof val === 'string' ? parseInt(val) || 0 : val)
+    .refine((val) => val >= 5, "Duration must be at least 5 minutes")
+    .refine((val) => val <= 720, "Duration cannot exceed 12 hours")
+    .optional(),
   notes: z.string()
     .max(500, "Notes must be less than 500 characters")
     .optional()
@@ -149,6 +154,10 @@ export const extendedServiceValidation = z.object({
     .refine((val) => val >= 0, "Commission rate must be positive")
     .refine((val) => val <= 100, "Commission rate cannot exceed 100%")
     .optional(),
+  catalog_service_id: z.string()
+    .uuid("Invalid catalog service ID format")
+    .optional()
+    .or(z.literal("")),
 });
 
 // Inventory item validation schema
@@ -176,10 +185,18 @@ export const inventoryItemValidation = z.object({
     .transform((val) => typeof val === 'string' ? parseFloat(val) || 0 : val)
     .refine((val) => val >= 0, "Unit price must be positive")
     .refine((val) => val <= 9999.99, "Unit price must be less than 10,000"),
+  cost_price: z.union([z.string(), z.number()])
+    .transform((val) => typeof val === 'string' ? parseFloat(val) || 0 : val)
+    .refine((val) => val >= 0, "Cost price cannot be negative")
+    .refine((val) => val <= 9999.99, "Cost price must be less than 10,000"),
   supplier: z.string()
     .max(100, "Supplier name must be less than 100 characters")
     .optional()
     .or(z.literal("")),
+  supplier_id: z.string()
+    .uuid("Invalid supplier ID format")
+    .optional()
+    .or(z.literal("")),
   barcode: z.string()
     .max(50, "Barcode must be less than 50 characters")
     .optional()
@@ -1,162 +1,137 @@
 import { supabase } from "@/integrations/supabase/client";
 
-export interface WorkerEarnings {
-  worker_id: string;
-  service_price: number;
-  commission_rate: number;
-  commission_amount: number;
-  service_date: string;
-}
-
 /**
- * Calculate and update worker earnings when a service is completed
- * This function should be called from the Services page when a service is added/updated
+ * Commission is posted by the database when a service is completed (see the
+ * commission_ledger migration); nothing here writes earnings from the browser.
  */
-export const updateWorkerEarnings = async (
-  workerId: string,
-  servicePrice: number,
-  serviceDate: string = new Date().toISOString()
-) => {
-  try {
-    // Get worker details to check payment type and commission rate
-    const { data: worker, error: workerError } = await supabase
-      .from("workers")
-      .select("payment_type, commission_rate, total_earnings, current_month_earnings, services_performed")
-      .eq("id", workerId)
-      .single();
 
-    if (workerError) throw workerError;
+export interface WorkerEarnings {
+  worker_id: string;
+  total_earnings: number;
+  services_performed: number;
+  month_earnings: number;
+  month_services: number;
+}
 
-    // Only calculate earnings for commission-based workers
-    if (worker.payment_type !== 'commission') {
-      return { success: true, message: "Worker is on monthly salary - no commission calculated" };
-    }
+export interface CommissionEntry {
+  id: string;
+  worker_id: string;
+  service_id: string | null;
+  sale_id: string | null;
+  source: 'service' | 'retail';
+  entry_type: 'earned' | 'reversal';
+  service_date: string;
+  base_amount: number;
+  cost_amount: number;
+  commission_rate: number;
+  basis: 'gross' | 'net';
+  rule_name: string | null;
+  amount: number;
+  description: string;
+  created_at: string;
+}
 
-    const commissionRate = worker.commission_rate || 6;
-    const commissionAmount = (servicePrice * commissionRate) / 100;
+/** Net commission a service earned a worker, after any reversals, and the rule that set it */
+export interface ServiceCommission {
+  amount: number;
+  commission_rate: number;
+  basis: 'gross' | 'net';
+  rule_name: string | null;
+}
 
-    // Calculate new totals
-    const newTotalEarnings = (worker.total_earnings || 0) + commissionAmount;
-    const newServicesPerformed = (worker.services_performed || 0) + 1;
+/** Commission a rule produced, net of reversals */
+export interface RuleCommission {
+  rule_name: string;
+  source: 'service' | 'retail';
+  amount: number;
+  entries: number;
+}
 
-    // Check if service is in current month
-    const serviceDateObj = new Date(serviceDate);
-    const currentDate = new Date();
-    const isCurrentMonth = serviceDateObj.getMonth() === currentDate.getMonth() &&
-                          serviceDateObj.getFullYear() === currentDate.getFullYear();
+export interface CommissionRebuildResult {
+  success: boolean;
+  services_checked?: number;
+  entries_posted?: number;
+  corrections?: { service_id: string | null; sale_id: string | null; service_name: string; before: number; after: number }[];
+  message: string;
+  error?: string;
+}
 
-    let newCurrentMonthEarnings = worker.current_month_earnings || 0;
-    if (isCurrentMonth) {
-      newCurrentMonthEarnings += commissionAmount;
-    }
+/** All-time and monthly commission per worker, keyed by worker id; month is yyyy-mm */
+export const fetchWorkerEarnings = async (month: string): Promise<Record<string, WorkerEarnings>> => {
+  const { data, error } = await supabase.rpc('get_worker_earnings', { p_month: `${month}-01` });
 
-    // Update worker with new earnings
-    const { error: updateError } = await supabase
-      .from("workers")
-      .update({
-        total_earnings: newTotalEarnings,
-        current_month_earnings: newCurrentMonthEarnings,
-        services_performed: newServicesPerformed
-      })
-      .eq("id", workerId);
+  if (error) throw error;
+  return (data || []).reduce(
+    (acc, row) => ({ ...acc, [row.worker_id]: row }),
+    {} as Record<string, WorkerEarnings>
+  );
+};
 
-    if (updateError) throw updateError;
+/** A worker's ledger entries, newest service first */
+export const fetchCommissionEntries = async (workerId: string): Promise<CommissionEntry[]> => {
+  const { data, error } = await supabase
+    .from('commission_ledger')
+    .select('*')
+    .eq('worker_id', workerId)
+    .order('service_date', { ascending: false })
+    .order('created_at');
+
+  if (error) throw error;
+  return (data || []) as CommissionEntry[];
+};
 
-    return {
-      success: true,
-      message: `Commission calculated: ${commissionAmount.toFixed(2)} (${commissionRate}% of ${servicePrice})`,
-      data: {
-        commissionAmount,
-        newTotalEarnings,
-        newCurrentMonthEarnings,
-        newServicesPerformed
-      }
+/** Net commission per service from a worker's ledger entries, keyed by service id */
+export const netCommissionByService = (entries: CommissionEntry[]): Record<string, ServiceCommission> =>
+  entries.reduce((acc, entry) => {
+    if (!entry.service_id) return acc;
+    const current = acc[entry.service_id] || {
+      amount: 0,
+      commission_rate: entry.commission_rate,
+      basis: entry.basis,
+      rule_name: entry.rule_name,
     };
-
-  } catch (error) {
-    console.error("Error updating worker earnings:", error);
+    const isEarned = entry.entry_type === 'earned';
     return {
-      success: false,
-      message: "Failed to update worker earnings",
-      error
+      ...acc,
+      [entry.service_id]: {
+        amount: current.amount + Number(entry.amount),
+        commission_rate: isEarned ? Number(entry.commission_rate) : current.commission_rate,
+        basis: isEarned ? entry.basis : current.basis,
+        rule_name: isEarned ? entry.rule_name : current.rule_name,
+      },
     };
-  }
+  }, {} as Record<string, ServiceCommission>);
+
+/** Commission per rule for entries dated in the month (yyyy-mm), largest first */
+export const commissionByRule = (entries: CommissionEntry[], month: string): RuleCommission[] => {
+  const totals = entries
+    .filter(entry => entry.service_date.slice(0, 7) === month)
+    .reduce((acc, entry) => {
+      const ruleName = entry.rule_name || 'Flat rate';
+      const key = `${entry.source}:${ruleName}`;
+      const current = acc[key] || { rule_name: ruleName, source: entry.source, amount: 0, entries: 0 };
+      return {
+        ...acc,
+        [key]: {
+          ...current,
+          amount: current.amount + Number(entry.amount),
+          entries: current.entries + (entry.entry_type === 'earned' ? 1 : -1),
+        },
+      };
+    }, {} as Record<string, RuleCommission>);
+
+  return Object.values(totals)
+    .filter(rule => rule.amount !== 0 || rule.entries !== 0)
+    .sort((a, b) => b.amount - a.amount);
 };
 
 /**
- * Recalculate all worker earnings from services
- * This is useful for maintenance or when earnings get out of sync
+ * Re-check every service against the commission ledger. Anything out of step is
+ * reversed and re-posted, and each correction is reported; none means the ledger is in sync.
  */
-export const recalculateAllWorkerEarnings = async () => {
-  try {
-    // Get all commission-based workers
-    const { data: workers, error: workersError } = await supabase
-      .from("workers")
-      .select("id, payment_type, commission_rate")
-      .eq("payment_type", "commission");
-
-    if (workersError) throw workersError;
-
-    const results = [];
-
-    for (const worker of workers) {
-      // Get all services for this worker
-      const { data: services, error: servicesError } = await supabase
-        .from("services")
-        .select("service_price, created_at")
-        .eq("staff_member_id", worker.id);
-
-      if (servicesError) {
-        results.push({ workerId: worker.id, success: false, error: servicesError });
-        continue;
-      }
-
-      if (services && services.length > 0) {
-        const totalEarnings = services.reduce((sum, service) => {
-          const commission = (service.service_price * (worker.commission_rate || 6)) / 100;
-          return sum + commission;
-        }, 0);
-
-        // Calculate current month earnings
-        const currentMonth = new Date().getMonth();
-        const currentYear = new Date().getFullYear();
-        const currentMonthEarnings = services.reduce((sum, service) => {
-          const serviceDate = new Date(service.created_at);
-          if (serviceDate.getMonth() === currentMonth && serviceDate.getFullYear() === currentYear) {
-            const commission = (service.service_price * (worker.commission_rate || 6)) / 100;
-            return sum + commission;
-          }
-          return sum;
-        }, 0);
-
-        // Update worker
-        const { error: updateError } = await supabase
-          .from("workers")
-          .update({
-            total_earnings: totalEarnings,
-            current_month_earnings: currentMonthEarnings,
-            services_performed: services.length
-          })
-          .eq("id", worker.id);
-
-        if (updateError) {
-          results.push({ workerId: worker.id, success: false, error: updateError });
-        } else {
-          results.push({
-            workerId: worker.id,
-            success: true,
-            totalEarnings,
-            currentMonthEarnings,
-            servicesPerformed: services.length
-          });
-        }
-      }
-    }
-
-    return { success: true, results };
+export const recalculateAllWorkerEarnings = async (): Promise<CommissionRebuildResult> => {
+  const { data, error } = await supabase.rpc('rebuild_commission_ledger');
 
-  } catch (error) {
-    console.error("Error recalculating all worker earnings:", error);
-    return { success: false, error };
-  }
+  if (error) throw error;
+  return data as unknown as CommissionRebuildResult;
 };
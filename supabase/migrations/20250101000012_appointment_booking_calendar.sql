@@ -0,0 +1,198 @@
+-- Migration: Appointment booking calendar
+-- Date: 2025-01-01
+-- Description: Add per-service duration, server-side double-booking detection for stylists
+--              and a calendar feed of bookings for the Services calendar view
+
+-- ============================================================================
+-- STEP 1: Service duration
+-- ============================================================================
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS duration_minutes INTEGER NOT NULL DEFAULT 60;
+
+ALTER TABLE public.services
+DROP CONSTRAINT IF EXISTS services_duration_minutes_check;
+
+ALTER TABLE public.services
+ADD CONSTRAINT services_duration_minutes_check CHECK (duration_minutes > 0 AND duration_minutes <= 720);
+
+COMMENT ON COLUMN public.services.duration_minutes IS 'Length of the appointment in minutes. The booking occupies [date_time, date_time + duration_minutes).';
+
+CREATE INDEX IF NOT EXISTS idx_services_staff_date_time ON public.services(staff_member_id, date_time);
+
+-- ============================================================================
+-- STEP 2: Conflict lookup
+-- ============================================================================
+
+-- Returns every active booking of a stylist overlapping the requested slot.
+-- SECURITY DEFINER so that bookings created by other users (hidden by RLS) are still considered.
+CREATE OR REPLACE FUNCTION public.find_booking_conflicts(
+  p_staff_member_id UUID,
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER,
+  p_exclude_service_id UUID DEFAULT NULL
+)
+RETURNS TABLE(
+  service_id UUID,
+  service_name TEXT,
+  customer_name TEXT,
+  date_time TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER,
+  status TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_staff_member_id IS NULL OR p_start IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    s.id,
+    s.service_name,
+    c.name,
+    s.date_time,
+    s.duration_minutes,
+    s.status
+  FROM public.services s
+  LEFT JOIN public.customers c ON c.id = s.customer_id
+  WHERE s.staff_member_id = p_staff_member_id
+    AND s.status <> 'cancelled'
+    AND (p_exclude_service_id IS NULL OR s.id <> p_exclude_service_id)
+    AND s.date_time < p_start + make_interval(mins => COALESCE(p_duration_minutes, 60))
+    AND s.date_time + make_interval(mins => s.duration_minutes) > p_start
+  ORDER BY s.date_time;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Double-booking guard
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.prevent_service_double_booking()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict RECORD;
+BEGIN
+  IF NEW.staff_member_id IS NULL OR NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only re-check when the slot itself changes or a cancelled booking is revived,
+  -- so that completing a historical appointment is never blocked
+  IF TG_OP = 'UPDATE'
+     AND NEW.date_time = OLD.date_time
+     AND NEW.duration_minutes = OLD.duration_minutes
+     AND NEW.staff_member_id IS NOT DISTINCT FROM OLD.staff_member_id
+     AND OLD.status <> 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- Serialize bookings per stylist so two concurrent inserts can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext(NEW.staff_member_id::text));
+
+  SELECT * INTO v_conflict
+  FROM public.find_booking_conflicts(NEW.staff_member_id, NEW.date_time, NEW.duration_minutes, NEW.id)
+  LIMIT 1;
+
+  IF FOUND THEN
+    -- The clashing booking may be another user's, so its service and customer aren't named
+    RAISE EXCEPTION 'Booking conflict: stylist is already booked from % to %',
+      to_char(v_conflict.date_time, 'YYYY-MM-DD HH24:MI'),
+      to_char(v_conflict.date_time + make_interval(mins => v_conflict.duration_minutes), 'HH24:MI')
+      USING ERRCODE = 'exclusion_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_prevent_service_double_booking ON public.services;
+CREATE TRIGGER trigger_prevent_service_double_booking
+  BEFORE INSERT OR UPDATE ON public.services
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prevent_service_double_booking();
+
+-- ============================================================================
+-- STEP 4: Calendar feed
+-- ============================================================================
+
+-- All stylists' bookings in a date range. The calendar needs to show when a stylist is busy,
+-- but service and customer names are only returned for the caller's own bookings.
+CREATE OR REPLACE FUNCTION public.get_staff_bookings(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE(
+  service_id UUID,
+  staff_member_id UUID,
+  service_name TEXT,
+  service_category TEXT,
+  customer_name TEXT,
+  date_time TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER,
+  status TEXT,
+  is_own BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.staff_member_id,
+    CASE WHEN b.is_own THEN b.service_name END,
+    CASE WHEN b.is_own THEN b.service_category END,
+    CASE WHEN b.is_own THEN b.customer_name END,
+    b.date_time,
+    b.duration_minutes,
+    b.status,
+    b.is_own
+  FROM (
+    SELECT
+      s.id,
+      s.staff_member_id,
+      s.service_name,
+      s.service_category,
+      c.name AS customer_name,
+      s.date_time,
+      s.duration_minutes,
+      s.status,
+      (s.created_by = auth.uid() OR v_is_admin) AS is_own
+    FROM public.services s
+    LEFT JOIN public.customers c ON c.id = s.customer_id
+    WHERE s.date_time < p_end
+      AND s.date_time + make_interval(mins => s.duration_minutes) > p_start
+  ) b
+  ORDER BY b.date_time;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_staff_bookings(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Internal: names every overlapping booking, so only the trigger and other functions call it
+REVOKE EXECUTE ON FUNCTION public.find_booking_conflicts(UUID, TIMESTAMP WITH TIME ZONE, INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.find_booking_conflicts IS 'Lists active bookings of a stylist that overlap the given slot';
+COMMENT ON FUNCTION public.prevent_service_double_booking IS 'Rejects inserts/updates that double-book a stylist';
+COMMENT ON FUNCTION public.get_staff_bookings IS 'Calendar feed of all stylist bookings in a date range';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Appointment booking calendar installed: duration_minutes, double-booking trigger, get_staff_bookings';
+END $$;
@@ -0,0 +1,233 @@
+-- Migration: Worker schedules, overrides and time off
+-- Date: 2025-01-01
+-- Description: Per-date schedule overrides and time off on top of the weekly worker_schedules,
+--              plus an availability lookup used by the Services booking form
+
+-- ============================================================================
+-- STEP 1: Per-date schedule overrides
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.worker_schedule_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES public.workers(id) ON DELETE CASCADE NOT NULL,
+  date DATE NOT NULL,
+  is_working_day BOOLEAN NOT NULL DEFAULT true,
+  start_time TIME,
+  end_time TIME,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(worker_id, date),
+  CHECK (NOT is_working_day OR (start_time IS NOT NULL AND end_time IS NOT NULL AND end_time > start_time))
+);
+
+-- ============================================================================
+-- STEP 2: Time off (vacation, sick leave, ...)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.worker_time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID REFERENCES public.workers(id) ON DELETE CASCADE NOT NULL,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  type TEXT NOT NULL DEFAULT 'vacation' CHECK (type IN ('vacation', 'sick', 'personal', 'other')),
+  reason TEXT,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_worker_schedule_overrides_worker_date ON public.worker_schedule_overrides(worker_id, date);
+CREATE INDEX IF NOT EXISTS idx_worker_time_off_worker_dates ON public.worker_time_off(worker_id, start_date, end_date);
+
+-- ============================================================================
+-- STEP 3: RLS (same model as worker_schedules)
+-- ============================================================================
+
+ALTER TABLE public.worker_schedule_overrides ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.worker_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage all schedule overrides"
+ON public.worker_schedule_overrides FOR ALL
+USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Users can view schedule overrides"
+ON public.worker_schedule_overrides FOR SELECT
+TO authenticated USING (true);
+
+CREATE POLICY "Admins can manage all time off"
+ON public.worker_time_off FOR ALL
+USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Users can view time off"
+ON public.worker_time_off FOR SELECT
+TO authenticated USING (true);
+
+CREATE TRIGGER update_worker_schedule_overrides_updated_at
+  BEFORE UPDATE ON public.worker_schedule_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_worker_time_off_updated_at
+  BEFORE UPDATE ON public.worker_time_off
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_worker_schedules_updated_at ON public.worker_schedules;
+CREATE TRIGGER update_worker_schedules_updated_at
+  BEFORE UPDATE ON public.worker_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- STEP 4: Working hours of a worker on a given date
+-- ============================================================================
+
+-- Resolves time off, then a per-date override, then the weekly schedule.
+-- Returns no row when the worker has nothing configured for that date.
+CREATE OR REPLACE FUNCTION public.get_worker_hours(
+  p_worker_id UUID,
+  p_date DATE
+)
+RETURNS TABLE(
+  is_working BOOLEAN,
+  start_time TIME,
+  end_time TIME,
+  source TEXT,
+  reason TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_time_off RECORD;
+  v_override RECORD;
+  v_schedule RECORD;
+BEGIN
+  SELECT * INTO v_time_off
+  FROM public.worker_time_off t
+  WHERE t.worker_id = p_worker_id
+    AND p_date BETWEEN t.start_date AND t.end_date
+  LIMIT 1;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT false, NULL::TIME, NULL::TIME, 'time_off'::TEXT,
+      initcap(v_time_off.type) || COALESCE(': ' || v_time_off.reason, '');
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_override
+  FROM public.worker_schedule_overrides o
+  WHERE o.worker_id = p_worker_id
+    AND o.date = p_date;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_override.is_working_day, v_override.start_time, v_override.end_time, 'override'::TEXT,
+      COALESCE(v_override.notes, CASE WHEN v_override.is_working_day THEN 'Adjusted hours' ELSE 'Day off' END);
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_schedule
+  FROM public.worker_schedules s
+  WHERE s.worker_id = p_worker_id
+    AND s.day_of_week = EXTRACT(DOW FROM p_date)::INTEGER;
+
+  IF FOUND THEN
+    RETURN QUERY SELECT v_schedule.is_working_day, v_schedule.start_time, v_schedule.end_time, 'weekly'::TEXT,
+      CASE WHEN v_schedule.is_working_day THEN NULL ELSE 'Not a working day' END;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Staff availability for a booking slot
+-- ============================================================================
+
+-- p_timezone is the salon's local time zone (sent by the browser) so that the
+-- booking time can be compared with schedule times, which are stored as local TIME.
+CREATE OR REPLACE FUNCTION public.get_available_staff(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER DEFAULT 60,
+  p_exclude_service_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE(
+  worker_id UUID,
+  worker_name TEXT,
+  is_available BOOLEAN,
+  reason TEXT,
+  start_time TIME,
+  end_time TIME
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_worker RECORD;
+  v_hours RECORD;
+  v_local_start TIMESTAMP;
+  v_local_end TIMESTAMP;
+  v_conflict RECORD;
+BEGIN
+  v_local_start := p_start AT TIME ZONE COALESCE(p_timezone, 'UTC');
+  v_local_end := v_local_start + make_interval(mins => COALESCE(p_duration_minutes, 60));
+
+  FOR v_worker IN SELECT w.id, w.name FROM public.workers w ORDER BY w.name LOOP
+    SELECT * INTO v_hours FROM public.get_worker_hours(v_worker.id, v_local_start::DATE);
+
+    -- A worker with nothing configured for the date has no hours to check
+    -- against, so only their existing bookings can make them unavailable.
+    IF FOUND THEN
+      IF NOT v_hours.is_working THEN
+        RETURN QUERY SELECT v_worker.id, v_worker.name, false, v_hours.reason, NULL::TIME, NULL::TIME;
+        CONTINUE;
+      END IF;
+
+      IF v_local_start::TIME < v_hours.start_time
+         OR v_local_end::DATE > v_local_start::DATE
+         OR v_local_end::TIME > v_hours.end_time THEN
+        RETURN QUERY SELECT v_worker.id, v_worker.name, false,
+          'Works ' || to_char(v_hours.start_time, 'HH24:MI') || ' - ' || to_char(v_hours.end_time, 'HH24:MI'),
+          v_hours.start_time, v_hours.end_time;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    SELECT * INTO v_conflict
+    FROM public.find_booking_conflicts(v_worker.id, p_start, p_duration_minutes, p_exclude_service_id)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_worker.id, v_worker.name, false,
+        'Already booked at this time'::TEXT,
+        v_hours.start_time, v_hours.end_time;
+      CONTINUE;
+    END IF;
+
+    RETURN QUERY SELECT v_worker.id, v_worker.name, true, NULL::TEXT, v_hours.start_time, v_hours.end_time;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_worker_hours(UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_available_staff(TIMESTAMP WITH TIME ZONE, INTEGER, UUID, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.worker_schedule_overrides IS 'Per-date changes to a worker''s weekly schedule (different hours or a day off)';
+COMMENT ON TABLE public.worker_time_off IS 'Date ranges when a worker is unavailable (vacation, sick leave, ...)';
+COMMENT ON FUNCTION public.get_worker_hours IS 'Effective working hours of a worker on a date: time off, then override, then weekly schedule';
+COMMENT ON FUNCTION public.get_available_staff IS 'Lists every worker with whether they are free for the given slot; workers without a schedule are treated as available';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Worker availability installed: worker_schedule_overrides, worker_time_off, get_available_staff';
+END $$;
@@ -0,0 +1,380 @@
+-- Migration: Worker attendance tracking
+-- Date: 2025-01-01
+-- Description: Clock-in/clock-out on worker_attendance with late/absent detection against
+--              the worker schedules, a monthly attendance grid and per-month totals for payroll
+
+-- ============================================================================
+-- STEP 1: Extend worker_attendance
+-- ============================================================================
+
+ALTER TABLE public.worker_attendance
+ADD COLUMN IF NOT EXISTS scheduled_start TIME,
+ADD COLUMN IF NOT EXISTS scheduled_end TIME,
+ADD COLUMN IF NOT EXISTS minutes_late INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+ALTER TABLE public.worker_attendance
+ADD COLUMN IF NOT EXISTS hours_worked DECIMAL(5,2) GENERATED ALWAYS AS (
+  CASE
+    WHEN check_in_time IS NOT NULL AND check_out_time IS NOT NULL AND check_out_time > check_in_time
+      THEN ROUND((EXTRACT(EPOCH FROM (check_out_time - check_in_time)) / 3600)::NUMERIC, 2)
+    ELSE 0
+  END
+) STORED;
+
+COMMENT ON COLUMN public.worker_attendance.scheduled_start IS 'Scheduled start time on that date, captured at clock-in';
+COMMENT ON COLUMN public.worker_attendance.minutes_late IS 'Minutes after the scheduled start the worker clocked in';
+COMMENT ON COLUMN public.worker_attendance.hours_worked IS 'Hours between check-in and check-out';
+
+CREATE INDEX IF NOT EXISTS idx_worker_attendance_date ON public.worker_attendance(date);
+
+DROP TRIGGER IF EXISTS update_worker_attendance_updated_at ON public.worker_attendance;
+CREATE TRIGGER update_worker_attendance_updated_at
+  BEFORE UPDATE ON public.worker_attendance
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- STEP 2: Clock in
+-- ============================================================================
+
+-- The front desk clocks workers in and out, so these run as SECURITY DEFINER:
+-- the user clocking a worker out is not necessarily the one who clocked them in.
+CREATE OR REPLACE FUNCTION public.clock_in_worker(
+  p_worker_id UUID,
+  p_timezone TEXT DEFAULT 'UTC',
+  p_grace_minutes INTEGER DEFAULT 10,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local_now TIMESTAMP;
+  v_date DATE;
+  v_time TIME;
+  v_is_working BOOLEAN := false;
+  v_start TIME;
+  v_end TIME;
+  v_existing RECORD;
+  v_status TEXT := 'present';
+  v_minutes_late INTEGER := 0;
+  v_attendance_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Attendance drives salary proration, so only users with the attendance
+  -- grant may record it, and only for workers in their branch scope
+  -- (has_feature and workers.branch_id come from the roles and branches migrations).
+  IF NOT public.has_feature(auth.uid(), 'attendance') THEN
+    RAISE EXCEPTION 'Attendance access is required to clock workers in';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.workers w
+    WHERE w.id = p_worker_id AND public.in_branch_scope(w.branch_id)
+  ) THEN
+    RAISE EXCEPTION 'Worker not found';
+  END IF;
+
+  v_local_now := now() AT TIME ZONE COALESCE(p_timezone, 'UTC');
+  v_date := v_local_now::DATE;
+  v_time := date_trunc('minute', v_local_now)::TIME;
+
+  SELECT * INTO v_existing
+  FROM public.worker_attendance
+  WHERE worker_id = p_worker_id AND date = v_date;
+
+  IF FOUND AND v_existing.check_in_time IS NOT NULL THEN
+    RAISE EXCEPTION 'Worker already clocked in today at %', to_char(v_existing.check_in_time, 'HH24:MI');
+  END IF;
+
+  SELECT h.is_working, h.start_time, h.end_time
+  INTO v_is_working, v_start, v_end
+  FROM public.get_worker_hours(p_worker_id, v_date) h;
+
+  IF NOT COALESCE(v_is_working, false) THEN
+    v_start := NULL;
+    v_end := NULL;
+  END IF;
+
+  IF v_start IS NOT NULL THEN
+    v_minutes_late := GREATEST(0, (EXTRACT(EPOCH FROM (v_time - v_start)) / 60)::INTEGER);
+    IF v_minutes_late > COALESCE(p_grace_minutes, 0) THEN
+      v_status := 'late';
+    ELSE
+      v_minutes_late := 0;
+    END IF;
+  END IF;
+
+  INSERT INTO public.worker_attendance (
+    worker_id,
+    date,
+    check_in_time,
+    status,
+    minutes_late,
+    scheduled_start,
+    scheduled_end,
+    notes,
+    created_by
+  ) VALUES (
+    p_worker_id,
+    v_date,
+    v_time,
+    v_status,
+    v_minutes_late,
+    v_start,
+    v_end,
+    p_notes,
+    auth.uid()
+  )
+  ON CONFLICT (worker_id, date) DO UPDATE SET
+    check_in_time = EXCLUDED.check_in_time,
+    status = EXCLUDED.status,
+    minutes_late = EXCLUDED.minutes_late,
+    scheduled_start = EXCLUDED.scheduled_start,
+    scheduled_end = EXCLUDED.scheduled_end,
+    notes = COALESCE(EXCLUDED.notes, public.worker_attendance.notes)
+  RETURNING id INTO v_attendance_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'attendance_id', v_attendance_id,
+    'status', v_status,
+    'check_in_time', to_char(v_time, 'HH24:MI'),
+    'minutes_late', v_minutes_late,
+    'message', CASE WHEN v_status = 'late'
+      THEN 'Clocked in ' || v_minutes_late || ' minutes late'
+      ELSE 'Clocked in on time' END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to clock in'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Clock out
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.clock_out_worker(
+  p_worker_id UUID,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_local_now TIMESTAMP;
+  v_date DATE;
+  v_time TIME;
+  v_attendance RECORD;
+  v_status TEXT;
+  v_scheduled_hours NUMERIC;
+  v_worked_hours NUMERIC;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(auth.uid(), 'attendance') THEN
+    RAISE EXCEPTION 'Attendance access is required to clock workers out';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.workers w
+    WHERE w.id = p_worker_id AND public.in_branch_scope(w.branch_id)
+  ) THEN
+    RAISE EXCEPTION 'Worker not found';
+  END IF;
+
+  v_local_now := now() AT TIME ZONE COALESCE(p_timezone, 'UTC');
+  v_date := v_local_now::DATE;
+  v_time := date_trunc('minute', v_local_now)::TIME;
+
+  SELECT * INTO v_attendance
+  FROM public.worker_attendance
+  WHERE worker_id = p_worker_id AND date = v_date;
+
+  IF NOT FOUND OR v_attendance.check_in_time IS NULL THEN
+    RAISE EXCEPTION 'Worker has not clocked in today';
+  END IF;
+
+  IF v_attendance.check_out_time IS NOT NULL THEN
+    RAISE EXCEPTION 'Worker already clocked out today at %', to_char(v_attendance.check_out_time, 'HH24:MI');
+  END IF;
+
+  v_status := v_attendance.status;
+  v_worked_hours := EXTRACT(EPOCH FROM (v_time - v_attendance.check_in_time)) / 3600;
+
+  -- Leaving before half of the scheduled shift is worked counts as a half day
+  IF v_attendance.scheduled_start IS NOT NULL AND v_attendance.scheduled_end IS NOT NULL THEN
+    v_scheduled_hours := EXTRACT(EPOCH FROM (v_attendance.scheduled_end - v_attendance.scheduled_start)) / 3600;
+    IF v_scheduled_hours > 0 AND v_worked_hours < v_scheduled_hours / 2 THEN
+      v_status := 'half_day';
+    END IF;
+  END IF;
+
+  UPDATE public.worker_attendance
+  SET check_out_time = v_time,
+      status = v_status
+  WHERE id = v_attendance.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'attendance_id', v_attendance.id,
+    'status', v_status,
+    'check_out_time', to_char(v_time, 'HH24:MI'),
+    'hours_worked', ROUND(GREATEST(v_worked_hours, 0)::NUMERIC, 2),
+    'message', 'Clocked out after ' || ROUND(GREATEST(v_worked_hours, 0)::NUMERIC, 2) || ' hours'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to clock out'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Monthly attendance grid
+-- ============================================================================
+
+-- One row per worker per day of the month. Days a worker was scheduled but has no
+-- attendance record are reported as 'absent' once they are in the past; scheduled
+-- days from p_today onwards are 'upcoming' and unscheduled days without a record are 'off'.
+CREATE OR REPLACE FUNCTION public.get_monthly_attendance(
+  p_month DATE,
+  p_worker_id UUID DEFAULT NULL,
+  p_today DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  worker_id UUID,
+  date DATE,
+  is_scheduled BOOLEAN,
+  scheduled_start TIME,
+  scheduled_end TIME,
+  attendance_id UUID,
+  status TEXT,
+  check_in_time TIME,
+  check_out_time TIME,
+  hours_worked DECIMAL(5,2),
+  minutes_late INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    w.id,
+    d.day::DATE,
+    COALESCE(h.is_working, false),
+    h.start_time,
+    h.end_time,
+    a.id,
+    CASE
+      WHEN a.id IS NOT NULL THEN a.status
+      WHEN COALESCE(h.is_working, false) AND d.day::DATE < p_today THEN 'absent'
+      WHEN COALESCE(h.is_working, false) THEN 'upcoming'
+      ELSE 'off'
+    END,
+    a.check_in_time,
+    a.check_out_time,
+    COALESCE(a.hours_worked, 0)::DECIMAL(5,2),
+    COALESCE(a.minutes_late, 0)
+  FROM public.workers w
+  CROSS JOIN generate_series(
+    date_trunc('month', p_month)::DATE,
+    (date_trunc('month', p_month) + INTERVAL '1 month - 1 day')::DATE,
+    INTERVAL '1 day'
+  ) AS d(day)
+  LEFT JOIN LATERAL public.get_worker_hours(w.id, d.day::DATE) h ON true
+  LEFT JOIN public.worker_attendance a ON a.worker_id = w.id AND a.date = d.day::DATE
+  WHERE p_worker_id IS NULL OR w.id = p_worker_id
+  ORDER BY w.name, d.day;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Monthly totals (used by payroll to prorate salaries)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_attendance_summary(
+  p_month DATE,
+  p_today DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE(
+  worker_id UUID,
+  scheduled_days INTEGER,
+  present_days INTEGER,
+  late_days INTEGER,
+  half_days INTEGER,
+  absent_days INTEGER,
+  hours_worked DECIMAL(8,2),
+  attendance_ratio DECIMAL(5,4)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    m.worker_id,
+    COUNT(*) FILTER (WHERE m.is_scheduled)::INTEGER,
+    COUNT(*) FILTER (WHERE m.status = 'present')::INTEGER,
+    COUNT(*) FILTER (WHERE m.status = 'late')::INTEGER,
+    COUNT(*) FILTER (WHERE m.status = 'half_day')::INTEGER,
+    COUNT(*) FILTER (WHERE m.status = 'absent')::INTEGER,
+    COALESCE(SUM(m.hours_worked), 0)::DECIMAL(8,2),
+    -- Share of scheduled days actually worked; a half day counts as 0.5.
+    -- Workers without a schedule are paid in full (ratio 1).
+    CASE
+      WHEN COUNT(*) FILTER (WHERE m.is_scheduled) = 0 THEN 1
+      ELSE LEAST(1, GREATEST(0,
+        1 - (COUNT(*) FILTER (WHERE m.status = 'absent' AND m.is_scheduled)
+             + 0.5 * COUNT(*) FILTER (WHERE m.status = 'half_day' AND m.is_scheduled))
+            / COUNT(*) FILTER (WHERE m.is_scheduled)::NUMERIC
+      ))
+    END::DECIMAL(5,4)
+  FROM public.get_monthly_attendance(p_month, NULL, p_today) m
+  GROUP BY m.worker_id;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.clock_in_worker(UUID, TEXT, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.clock_out_worker(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_monthly_attendance(DATE, UUID, DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_attendance_summary(DATE, DATE) TO authenticated;
+
+COMMENT ON FUNCTION public.clock_in_worker IS 'Front-desk clock-in; flags the worker late when past the scheduled start plus grace minutes';
+COMMENT ON FUNCTION public.clock_out_worker IS 'Front-desk clock-out; flags a half day when less than half the shift was worked';
+COMMENT ON FUNCTION public.get_monthly_attendance IS 'Attendance grid for a month with absences derived from the schedules';
+COMMENT ON FUNCTION public.get_attendance_summary IS 'Per-worker monthly attendance totals and the ratio used to prorate salaries';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Worker attendance tracking installed: clock_in_worker, clock_out_worker, get_monthly_attendance, get_attendance_summary';
+END $$;
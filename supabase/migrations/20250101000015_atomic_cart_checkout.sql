@@ -0,0 +1,311 @@
+-- Migration: Atomic cart checkout and sales history
+-- Date: 2025-01-01
+-- Description: Cart checkout runs through process_cart_checkout in a single transaction, locking
+--              stock rows, pricing from inventory_items and recording the payment method and
+--              customer. Sales history and sale details are limited to the caller's own sales
+--              unless they are an admin.
+
+-- ============================================================================
+-- STEP 1: Link sales to customers
+-- ============================================================================
+
+ALTER TABLE public.sales_transactions
+ADD COLUMN IF NOT EXISTS customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_transactions_customer_id ON public.sales_transactions(customer_id);
+
+COMMENT ON COLUMN public.sales_transactions.customer_id IS 'Registered customer for the sale; NULL for walk-in customers';
+
+-- ============================================================================
+-- STEP 2: Checkout
+-- ============================================================================
+
+-- Replaces the shopping cart migration's version, whatever parameter order it was created with
+DROP FUNCTION IF EXISTS public.process_cart_checkout(TEXT, TEXT, TEXT, TEXT, JSONB, UUID);
+DROP FUNCTION IF EXISTS public.process_cart_checkout(TEXT, JSONB, UUID, TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.process_cart_checkout(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created_by UUID := auth.uid();
+  v_sale_id UUID;
+  v_reference TEXT;
+  v_item JSONB;
+  v_inventory_item RECORD;
+  v_quantity INTEGER;
+  v_total_amount DECIMAL(10,2) := 0;
+  v_items_count INTEGER := 0;
+BEGIN
+  IF v_created_by IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_customer_name IS NULL OR btrim(p_customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart items cannot be empty';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO public.sales_transactions (
+    customer_id,
+    customer_name,
+    customer_phone,
+    payment_method,
+    reference_number,
+    total_amount,
+    items_count,
+    created_by
+  ) VALUES (
+    p_customer_id,
+    btrim(p_customer_name),
+    NULLIF(btrim(COALESCE(p_customer_phone, '')), ''),
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    0,
+    0,
+    v_created_by
+  ) RETURNING id INTO v_sale_id;
+
+  v_reference := COALESCE(NULLIF(btrim(COALESCE(p_reference_number, '')), ''), 'SALE-' || v_sale_id);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item "%"', COALESCE(v_item->>'name', v_item->>'id');
+    END IF;
+
+    -- Lock the row so concurrent checkouts cannot both pass the stock check
+    SELECT id, name, unit_price, current_stock
+    INTO v_inventory_item
+    FROM public.inventory_items
+    WHERE id = (v_item->>'id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item not found: %', v_item->>'id';
+    END IF;
+
+    IF v_inventory_item.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for item "%". Required: %, Available: %',
+        v_inventory_item.name, v_quantity, v_inventory_item.current_stock;
+    END IF;
+
+    INSERT INTO public.sales_items (
+      sale_id,
+      inventory_item_id,
+      item_name,
+      unit_price,
+      quantity,
+      total_price
+    ) VALUES (
+      v_sale_id,
+      v_inventory_item.id,
+      v_inventory_item.name,
+      v_inventory_item.unit_price,
+      v_quantity,
+      v_inventory_item.unit_price * v_quantity
+    );
+
+    INSERT INTO public.inventory_transactions (
+      item_id,
+      transaction_type,
+      quantity,
+      unit_price,
+      total_amount,
+      reason,
+      reference_number,
+      created_by
+    ) VALUES (
+      v_inventory_item.id,
+      'stock_out',
+      v_quantity,
+      v_inventory_item.unit_price,
+      v_inventory_item.unit_price * v_quantity,
+      'Sale to ' || btrim(p_customer_name),
+      v_reference,
+      v_created_by
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock - v_quantity
+    WHERE id = v_inventory_item.id;
+
+    v_total_amount := v_total_amount + (v_inventory_item.unit_price * v_quantity);
+    v_items_count := v_items_count + v_quantity;
+  END LOOP;
+
+  UPDATE public.sales_transactions
+  SET total_amount = v_total_amount,
+      items_count = v_items_count,
+      reference_number = v_reference
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'reference_number', v_reference,
+    'total_amount', v_total_amount,
+    'items_count', v_items_count,
+    'created_at', now(),
+    'message', 'Sale completed successfully'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Any failure rolls back the sale, its items and every stock movement
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process cart checkout'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Sales history
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_sales_history(INTEGER, INTEGER, TEXT, DATE, DATE);
+
+CREATE OR REPLACE FUNCTION public.get_sales_history(
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0,
+  p_customer_name TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_payment_method TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  sale_id UUID,
+  customer_id UUID,
+  customer_name TEXT,
+  customer_phone TEXT,
+  payment_method TEXT,
+  total_amount DECIMAL(10,2),
+  items_count INTEGER,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  reference_number TEXT,
+  sold_by TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := public.get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    st.id,
+    st.customer_id,
+    st.customer_name,
+    st.customer_phone,
+    st.payment_method,
+    st.total_amount,
+    st.items_count,
+    st.status,
+    st.created_at,
+    st.reference_number,
+    p.full_name
+  FROM public.sales_transactions st
+  LEFT JOIN public.profiles p ON p.user_id = st.created_by
+  WHERE (v_is_admin OR st.created_by = auth.uid())
+    AND (p_customer_name IS NULL OR st.customer_name ILIKE '%' || p_customer_name || '%')
+    AND (p_date_from IS NULL OR st.created_at::DATE >= p_date_from)
+    AND (p_date_to IS NULL OR st.created_at::DATE <= p_date_to)
+    AND (p_payment_method IS NULL OR st.payment_method = p_payment_method)
+  ORDER BY st.created_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Sale details
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_sale_details(p_sale_id UUID)
+RETURNS TABLE (
+  sale_info JSONB,
+  items JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := public.get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    jsonb_build_object(
+      'id', st.id,
+      'customer_id', st.customer_id,
+      'customer_name', st.customer_name,
+      'customer_phone', st.customer_phone,
+      'payment_method', st.payment_method,
+      'reference_number', st.reference_number,
+      'total_amount', st.total_amount,
+      'items_count', st.items_count,
+      'status', st.status,
+      'created_at', st.created_at,
+      'created_by', st.created_by
+    ) AS sale_info,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', si.id,
+          'inventory_item_id', si.inventory_item_id,
+          'item_name', si.item_name,
+          'unit_price', si.unit_price,
+          'quantity', si.quantity,
+          'total_price', si.total_price
+        ) ORDER BY si.created_at, si.item_name
+      ) FILTER (WHERE si.id IS NOT NULL),
+      '[]'::jsonb
+    ) AS items
+  FROM public.sales_transactions st
+  LEFT JOIN public.sales_items si ON st.id = si.sale_id
+  WHERE st.id = p_sale_id
+    AND (v_is_admin OR st.created_by = auth.uid())
+  GROUP BY st.id;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sales_history(INTEGER, INTEGER, TEXT, DATE, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_details(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.process_cart_checkout IS 'Atomically records a cart sale, its items and the stock-out transactions';
+COMMENT ON FUNCTION public.get_sales_history IS 'Sales visible to the caller (all sales for admins) with filtering and pagination';
+COMMENT ON FUNCTION public.get_sale_details IS 'Sale header and line items for reprinting a receipt';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Atomic cart checkout installed: process_cart_checkout, get_sales_history, get_sale_details';
+END $$;
@@ -0,0 +1,473 @@
+-- Migration: Refunds, voids and returns for retail sales
+-- Date: 2025-01-01
+-- Description: Full and partial refunds of cart sales line by line from sales_items, with an
+--              optional restock of each returned line through inventory_transactions. Every
+--              refund records its reason and the admin who approved it. A void cancels the
+--              whole sale.
+
+-- ============================================================================
+-- STEP 1: Refund tables
+-- ============================================================================
+
+ALTER TABLE public.sales_items
+ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.sales_items
+DROP CONSTRAINT IF EXISTS sales_items_refunded_quantity_check;
+
+ALTER TABLE public.sales_items
+ADD CONSTRAINT sales_items_refunded_quantity_check CHECK (refunded_quantity >= 0 AND refunded_quantity <= quantity);
+
+COMMENT ON COLUMN public.sales_items.refunded_quantity IS 'Units of this line already refunded or voided';
+
+CREATE TABLE IF NOT EXISTS public.sales_refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id UUID REFERENCES public.sales_transactions(id) ON DELETE CASCADE NOT NULL,
+  refund_type TEXT NOT NULL CHECK (refund_type IN ('full', 'partial', 'void')),
+  reason TEXT NOT NULL CHECK (btrim(reason) <> ''),
+  total_amount DECIMAL(10,2) NOT NULL CHECK (total_amount >= 0),
+  items_count INTEGER NOT NULL DEFAULT 0,
+  reference_number TEXT NOT NULL,
+  approved_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.sales_refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID REFERENCES public.sales_refunds(id) ON DELETE CASCADE NOT NULL,
+  sales_item_id UUID REFERENCES public.sales_items(id) ON DELETE CASCADE NOT NULL,
+  inventory_item_id UUID REFERENCES public.inventory_items(id) NOT NULL,
+  item_name TEXT NOT NULL,
+  unit_price DECIMAL(10,2) NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  total_price DECIMAL(10,2) NOT NULL,
+  restocked BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sales_refunds_sale_id ON public.sales_refunds(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sales_refunds_created_at ON public.sales_refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_sales_refund_items_refund_id ON public.sales_refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_sales_refund_items_sales_item_id ON public.sales_refund_items(sales_item_id);
+
+ALTER TABLE public.sales_refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sales_refund_items ENABLE ROW LEVEL SECURITY;
+
+-- Refunds are only written through process_sale_refund
+CREATE POLICY "Admins can manage sales refunds" ON public.sales_refunds
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Users can view refunds of their sales" ON public.sales_refunds
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.sales_transactions st
+    WHERE st.id = sales_refunds.sale_id
+    AND st.created_by = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can manage sales refund items" ON public.sales_refund_items
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Users can view refund items of their sales" ON public.sales_refund_items
+FOR SELECT USING (
+  EXISTS (
+    SELECT 1 FROM public.sales_refunds sr
+    JOIN public.sales_transactions st ON st.id = sr.sale_id
+    WHERE sr.id = sales_refund_items.refund_id
+    AND st.created_by = auth.uid()
+  )
+);
+
+-- ============================================================================
+-- STEP 2: Process a refund
+-- ============================================================================
+
+-- p_items: [{ "sales_item_id": uuid, "quantity": int, "restock": bool }]
+-- Ignored for voids, which always return every outstanding unit to stock.
+CREATE OR REPLACE FUNCTION public.process_sale_refund(
+  p_sale_id UUID,
+  p_reason TEXT,
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_void BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_sale RECORD;
+  v_line RECORD;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_restock BOOLEAN;
+  v_refund_id UUID;
+  v_reference TEXT;
+  v_total DECIMAL(10,2) := 0;
+  v_count INTEGER := 0;
+  v_remaining INTEGER;
+  v_refund_type TEXT;
+  v_new_status TEXT;
+BEGIN
+  IF v_user_id IS NULL OR public.get_user_role(v_user_id) <> 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only an admin can approve refunds';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A refund reason is required';
+  END IF;
+
+  SELECT * INTO v_sale
+  FROM public.sales_transactions
+  WHERE id = p_sale_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  IF v_sale.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'This sale has already been %', v_sale.status;
+  END IF;
+
+  IF NOT p_void AND (p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0) THEN
+    RAISE EXCEPTION 'Select at least one item to refund';
+  END IF;
+
+  v_reference := 'REF-' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+
+  INSERT INTO public.sales_refunds (
+    sale_id, refund_type, reason, total_amount, items_count, reference_number, approved_by, created_by
+  ) VALUES (
+    p_sale_id, CASE WHEN p_void THEN 'void' ELSE 'partial' END, btrim(p_reason), 0, 0, v_reference, v_user_id, v_user_id
+  ) RETURNING id INTO v_refund_id;
+
+  IF p_void THEN
+    -- Build the item list from every line that still has units outstanding
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'sales_item_id', si.id,
+      'quantity', si.quantity - si.refunded_quantity,
+      'restock', true
+    )), '[]'::jsonb)
+    INTO p_items
+    FROM public.sales_items si
+    WHERE si.sale_id = p_sale_id
+      AND si.quantity > si.refunded_quantity;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_restock := COALESCE((v_item->>'restock')::BOOLEAN, true);
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_line
+    FROM public.sales_items
+    WHERE id = (v_item->>'sales_item_id')::UUID
+      AND sale_id = p_sale_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item does not belong to this sale';
+    END IF;
+
+    IF v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Cannot refund % of "%". Only % left to refund',
+        v_quantity, v_line.item_name, v_line.quantity - v_line.refunded_quantity;
+    END IF;
+
+    INSERT INTO public.sales_refund_items (
+      refund_id, sales_item_id, inventory_item_id, item_name, unit_price, quantity, total_price, restocked
+    ) VALUES (
+      v_refund_id, v_line.id, v_line.inventory_item_id, v_line.item_name, v_line.unit_price,
+      v_quantity, v_line.unit_price * v_quantity, v_restock
+    );
+
+    UPDATE public.sales_items
+    SET refunded_quantity = refunded_quantity + v_quantity
+    WHERE id = v_line.id;
+
+    IF v_restock THEN
+      INSERT INTO public.inventory_transactions (
+        item_id,
+        transaction_type,
+        quantity,
+        unit_price,
+        total_amount,
+        reason,
+        reference_number,
+        created_by
+      ) VALUES (
+        v_line.inventory_item_id,
+        'stock_in',
+        v_quantity,
+        v_line.unit_price,
+        v_line.unit_price * v_quantity,
+        CASE WHEN p_void THEN 'Void of sale to ' ELSE 'Return from ' END || v_sale.customer_name || ': ' || btrim(p_reason),
+        v_reference,
+        v_user_id
+      );
+
+      UPDATE public.inventory_items
+      SET current_stock = current_stock + v_quantity
+      WHERE id = v_line.inventory_item_id;
+    END IF;
+
+    v_total := v_total + v_line.unit_price * v_quantity;
+    v_count := v_count + v_quantity;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this sale';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity - refunded_quantity), 0) INTO v_remaining
+  FROM public.sales_items
+  WHERE sale_id = p_sale_id;
+
+  IF p_void THEN
+    v_refund_type := 'void';
+    v_new_status := 'cancelled';
+  ELSIF v_remaining = 0 THEN
+    v_refund_type := 'full';
+    v_new_status := 'refunded';
+  ELSE
+    v_refund_type := 'partial';
+    v_new_status := v_sale.status;
+  END IF;
+
+  UPDATE public.sales_refunds
+  SET refund_type = v_refund_type,
+      total_amount = v_total,
+      items_count = v_count
+  WHERE id = v_refund_id;
+
+  UPDATE public.sales_transactions
+  SET status = v_new_status
+  WHERE id = p_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refund_id', v_refund_id,
+    'refund_type', v_refund_type,
+    'reference_number', v_reference,
+    'total_amount', v_total,
+    'items_count', v_count,
+    'sale_status', v_new_status,
+    'created_at', now(),
+    'message', CASE WHEN p_void THEN 'Sale voided successfully' ELSE 'Refund processed successfully' END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process refund'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Refund history for a sale
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_sale_refunds(p_sale_id UUID)
+RETURNS TABLE (
+  refund_id UUID,
+  refund_type TEXT,
+  reason TEXT,
+  total_amount DECIMAL(10,2),
+  items_count INTEGER,
+  reference_number TEXT,
+  approved_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  items JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    sr.id,
+    sr.refund_type,
+    sr.reason,
+    sr.total_amount,
+    sr.items_count,
+    sr.reference_number,
+    p.full_name,
+    sr.created_at,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', sri.id,
+          'sales_item_id', sri.sales_item_id,
+          'item_name', sri.item_name,
+          'unit_price', sri.unit_price,
+          'quantity', sri.quantity,
+          'total_price', sri.total_price,
+          'restocked', sri.restocked
+        ) ORDER BY sri.item_name
+      ) FILTER (WHERE sri.id IS NOT NULL),
+      '[]'::jsonb
+    )
+  FROM public.sales_refunds sr
+  JOIN public.sales_transactions st ON st.id = sr.sale_id
+  LEFT JOIN public.sales_refund_items sri ON sri.refund_id = sr.id
+  LEFT JOIN public.profiles p ON p.user_id = sr.approved_by
+  WHERE sr.sale_id = p_sale_id
+    AND (public.get_user_role(auth.uid()) = 'admin'::app_role OR st.created_by = auth.uid())
+  GROUP BY sr.id, p.full_name
+  ORDER BY sr.created_at DESC;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Include refunded quantities in sale details
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_sale_details(p_sale_id UUID)
+RETURNS TABLE (
+  sale_info JSONB,
+  items JSONB
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := public.get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    jsonb_build_object(
+      'id', st.id,
+      'customer_id', st.customer_id,
+      'customer_name', st.customer_name,
+      'customer_phone', st.customer_phone,
+      'payment_method', st.payment_method,
+      'reference_number', st.reference_number,
+      'total_amount', st.total_amount,
+      'items_count', st.items_count,
+      'status', st.status,
+      'created_at', st.created_at,
+      'created_by', st.created_by,
+      'refunded_amount', (
+        SELECT COALESCE(SUM(sr.total_amount), 0)
+        FROM public.sales_refunds sr
+        WHERE sr.sale_id = st.id
+      )
+    ) AS sale_info,
+    COALESCE(
+      jsonb_agg(
+        jsonb_build_object(
+          'id', si.id,
+          'inventory_item_id', si.inventory_item_id,
+          'item_name', si.item_name,
+          'unit_price', si.unit_price,
+          'quantity', si.quantity,
+          'refunded_quantity', si.refunded_quantity,
+          'total_price', si.total_price
+        ) ORDER BY si.created_at, si.item_name
+      ) FILTER (WHERE si.id IS NOT NULL),
+      '[]'::jsonb
+    ) AS items
+  FROM public.sales_transactions st
+  LEFT JOIN public.sales_items si ON st.id = si.sale_id
+  WHERE st.id = p_sale_id
+    AND (v_is_admin OR st.created_by = auth.uid())
+  GROUP BY st.id;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Include refunded amounts in sales history
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_sales_history(INTEGER, INTEGER, TEXT, DATE, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_sales_history(
+  p_limit INTEGER DEFAULT 50,
+  p_offset INTEGER DEFAULT 0,
+  p_customer_name TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_payment_method TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  sale_id UUID,
+  customer_id UUID,
+  customer_name TEXT,
+  customer_phone TEXT,
+  payment_method TEXT,
+  total_amount DECIMAL(10,2),
+  refunded_amount DECIMAL(10,2),
+  items_count INTEGER,
+  status TEXT,
+  created_at TIMESTAMP WITH TIME ZONE,
+  reference_number TEXT,
+  sold_by TEXT
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := public.get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    st.id,
+    st.customer_id,
+    st.customer_name,
+    st.customer_phone,
+    st.payment_method,
+    st.total_amount,
+    COALESCE((
+      SELECT SUM(sr.total_amount) FROM public.sales_refunds sr WHERE sr.sale_id = st.id
+    ), 0)::DECIMAL(10,2),
+    st.items_count,
+    st.status,
+    st.created_at,
+    st.reference_number,
+    p.full_name
+  FROM public.sales_transactions st
+  LEFT JOIN public.profiles p ON p.user_id = st.created_by
+  WHERE (v_is_admin OR st.created_by = auth.uid())
+    AND (p_customer_name IS NULL OR st.customer_name ILIKE '%' || p_customer_name || '%')
+    AND (p_date_from IS NULL OR st.created_at::DATE >= p_date_from)
+    AND (p_date_to IS NULL OR st.created_at::DATE <= p_date_to)
+    AND (p_payment_method IS NULL OR st.payment_method = p_payment_method)
+  ORDER BY st.created_at DESC
+  LIMIT p_limit OFFSET p_offset;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.process_sale_refund(UUID, TEXT, JSONB, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_refunds(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sales_history(INTEGER, INTEGER, TEXT, DATE, DATE, TEXT) TO authenticated;
+
+COMMENT ON TABLE public.sales_refunds IS 'Refunds and voids of retail sales with their reason and approving admin';
+COMMENT ON TABLE public.sales_refund_items IS 'Sale lines returned by each refund and whether they went back to stock';
+COMMENT ON FUNCTION public.process_sale_refund IS 'Admin-approved full, partial or void refund of a sale with optional restock';
+COMMENT ON FUNCTION public.get_sale_refunds IS 'Refunds recorded against a sale, newest first';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Sales refunds installed: sales_refunds, sales_refund_items, process_sale_refund, get_sale_refunds';
+END $$;
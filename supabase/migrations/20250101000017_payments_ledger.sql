@@ -0,0 +1,588 @@
+-- Migration: Payments ledger with split tenders and deposits
+-- Date: 2025-01-01
+-- Description: A payments ledger for services and sales. One service or sale can be settled
+--              with several tenders (e.g. part cash, part mobile money). Payments can be
+--              partial, and payments taken before a service is completed are deposits.
+--              Outstanding balances roll up per customer.
+
+-- ============================================================================
+-- STEP 1: Payments table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id UUID REFERENCES public.services(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES public.sales_transactions(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'card', 'mobile_money', 'bank_transfer')),
+  reference_number TEXT,
+  is_deposit BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  received_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payments_single_target CHECK ((service_id IS NULL) <> (sale_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_service_id ON public.payments(service_id);
+CREATE INDEX IF NOT EXISTS idx_payments_sale_id ON public.payments(sale_id);
+CREATE INDEX IF NOT EXISTS idx_payments_customer_id ON public.payments(customer_id);
+CREATE INDEX IF NOT EXISTS idx_payments_created_at ON public.payments(created_at);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+-- Payments are written through record_payments and process_cart_checkout
+CREATE POLICY "Admins can manage payments" ON public.payments
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- Payments are visible with the service or sale they belong to. The lookups run under the
+-- caller's RLS, so whoever can see the service or sale can see what was paid on it.
+CREATE POLICY "Users can view payments on their services and sales" ON public.payments
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.services s WHERE s.id = payments.service_id)
+  OR EXISTS (SELECT 1 FROM public.sales_transactions st WHERE st.id = payments.sale_id)
+);
+
+COMMENT ON TABLE public.payments IS 'Tenders received against a service or a retail sale';
+COMMENT ON COLUMN public.payments.is_deposit IS 'Taken before the service was completed';
+
+-- A sale paid with more than one tender is recorded as split; one with nothing paid is on account
+ALTER TABLE public.sales_transactions
+DROP CONSTRAINT IF EXISTS sales_transactions_payment_method_check;
+
+ALTER TABLE public.sales_transactions
+ADD CONSTRAINT sales_transactions_payment_method_check
+CHECK (payment_method IN ('cash', 'card', 'mobile_money', 'bank_transfer', 'split', 'on_account'));
+
+-- Existing sales were always paid in full with their single payment method
+INSERT INTO public.payments (sale_id, customer_id, amount, payment_method, reference_number, received_by, created_at)
+SELECT st.id, st.customer_id, st.total_amount, st.payment_method, st.reference_number, st.created_by, st.created_at
+FROM public.sales_transactions st
+WHERE st.total_amount > 0
+  AND st.payment_method IN ('cash', 'card', 'mobile_money', 'bank_transfer')
+  AND NOT EXISTS (SELECT 1 FROM public.payments p WHERE p.sale_id = st.id);
+
+-- ============================================================================
+-- STEP 2: Amounts due
+-- ============================================================================
+
+-- Service price plus the products used, matching the service receipt
+CREATE OR REPLACE FUNCTION public.get_service_amount_due(p_service_id UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    COALESCE(s.service_price, 0) +
+    COALESCE((SELECT SUM(sp.total_price) FROM public.service_products sp WHERE sp.service_id = s.id), 0)
+  )::DECIMAL(10,2)
+  FROM public.services s
+  WHERE s.id = p_service_id;
+$$;
+
+-- Sale total less anything refunded or voided
+CREATE OR REPLACE FUNCTION public.get_sale_amount_due(p_sale_id UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(0,
+    st.total_amount - COALESCE((SELECT SUM(sr.total_amount) FROM public.sales_refunds sr WHERE sr.sale_id = st.id), 0)
+  )::DECIMAL(10,2)
+  FROM public.sales_transactions st
+  WHERE st.id = p_sale_id;
+$$;
+
+-- ============================================================================
+-- STEP 3: Record payments
+-- ============================================================================
+
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+CREATE OR REPLACE FUNCTION public.record_payments(
+  p_payments JSONB,
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_customer_id UUID;
+  v_status TEXT;
+  v_due DECIMAL(10,2);
+  v_paid DECIMAL(10,2);
+  v_tendered DECIMAL(10,2) := 0;
+  v_is_deposit BOOLEAN := false;
+  v_tender JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (p_service_id IS NULL) = (p_sale_id IS NULL) THEN
+    RAISE EXCEPTION 'A payment must be for exactly one service or sale';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one payment';
+  END IF;
+
+  IF p_service_id IS NOT NULL THEN
+    SELECT customer_id, status INTO v_customer_id, v_status
+    FROM public.services
+    WHERE id = p_service_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    v_due := public.get_service_amount_due(p_service_id);
+    v_is_deposit := v_status IN ('pending', 'in_progress');
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE service_id = p_service_id;
+  ELSE
+    SELECT customer_id, status INTO v_customer_id, v_status
+    FROM public.sales_transactions
+    WHERE id = p_sale_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    v_due := public.get_sale_amount_due(p_sale_id);
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE sale_id = p_sale_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot take payment for a cancelled %', CASE WHEN p_service_id IS NOT NULL THEN 'service' ELSE 'sale' END;
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      service_id, sale_id, customer_id, amount, payment_method, reference_number, is_deposit, notes, received_by
+    ) VALUES (
+      p_service_id,
+      p_sale_id,
+      v_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_is_deposit,
+      NULLIF(btrim(COALESCE(p_notes, '')), ''),
+      v_user_id
+    );
+
+    v_tendered := v_tendered + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_tendered <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF v_paid + v_tendered > v_due THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', v_tendered, GREATEST(0, v_due - v_paid);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'amount_due', v_due,
+    'amount_paid', v_paid + v_tendered,
+    'balance', v_due - v_paid - v_tendered,
+    'is_deposit', v_is_deposit,
+    'message', CASE WHEN v_is_deposit THEN 'Deposit recorded' ELSE 'Payment recorded' END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record payment'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Payment summary for a receipt
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_payment_summary(
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_due DECIMAL(10,2);
+  v_paid DECIMAL(10,2);
+  v_payments JSONB;
+BEGIN
+  -- Runs as the caller, so these only find a service or sale the caller may see
+  IF NOT EXISTS (SELECT 1 FROM public.services s WHERE s.id = p_service_id)
+     AND NOT EXISTS (SELECT 1 FROM public.sales_transactions st WHERE st.id = p_sale_id) THEN
+    RAISE EXCEPTION 'Service or sale not found';
+  END IF;
+
+  IF p_service_id IS NOT NULL THEN
+    v_due := public.get_service_amount_due(p_service_id);
+  ELSE
+    v_due := public.get_sale_amount_due(p_sale_id);
+  END IF;
+
+  SELECT
+    COALESCE(SUM(p.amount), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', p.id,
+      'amount', p.amount,
+      'payment_method', p.payment_method,
+      'reference_number', p.reference_number,
+      'is_deposit', p.is_deposit,
+      'created_at', p.created_at
+    ) ORDER BY p.created_at), '[]'::jsonb)
+  INTO v_paid, v_payments
+  FROM public.payments p
+  WHERE (p_service_id IS NOT NULL AND p.service_id = p_service_id)
+     OR (p_sale_id IS NOT NULL AND p.sale_id = p_sale_id);
+
+  RETURN jsonb_build_object(
+    'amount_due', COALESCE(v_due, 0),
+    'amount_paid', v_paid,
+    'balance', GREATEST(0, COALESCE(v_due, 0) - v_paid),
+    -- Paid beyond what is now due, i.e. money handed back on a refund
+    'returned_to_customer', GREATEST(0, v_paid - COALESCE(v_due, 0)),
+    'payments', v_payments
+  );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Outstanding balance per customer
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_customer_balances(p_customer_id UUID DEFAULT NULL)
+RETURNS TABLE (
+  customer_id UUID,
+  total_charged DECIMAL(10,2),
+  total_paid DECIMAL(10,2),
+  deposits_held DECIMAL(10,2),
+  outstanding_balance DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- has_feature comes from the roles migration
+  IF NOT (public.has_feature(auth.uid(), 'customers') OR public.has_feature(auth.uid(), 'reports')) THEN
+    RAISE EXCEPTION 'Customers or reports access is required to view customer balances';
+  END IF;
+
+  RETURN QUERY
+  WITH charges AS (
+    -- Completed services
+    SELECT
+      s.customer_id,
+      public.get_service_amount_due(s.id) AS due,
+      COALESCE((SELECT SUM(p.amount) FROM public.payments p WHERE p.service_id = s.id), 0) AS paid,
+      0::DECIMAL(10,2) AS deposit
+    FROM public.services s
+    WHERE s.status = 'completed'
+      AND s.customer_id IS NOT NULL
+      AND (p_customer_id IS NULL OR s.customer_id = p_customer_id)
+
+    UNION ALL
+
+    -- Deposits held against services not yet completed
+    SELECT
+      s.customer_id,
+      0,
+      0,
+      COALESCE((SELECT SUM(p.amount) FROM public.payments p WHERE p.service_id = s.id), 0)
+    FROM public.services s
+    WHERE s.status IN ('pending', 'in_progress')
+      AND s.customer_id IS NOT NULL
+      AND (p_customer_id IS NULL OR s.customer_id = p_customer_id)
+
+    UNION ALL
+
+    -- Retail sales to registered customers, net of refunds
+    SELECT
+      st.customer_id,
+      public.get_sale_amount_due(st.id),
+      COALESCE((SELECT SUM(p.amount) FROM public.payments p WHERE p.sale_id = st.id), 0),
+      0
+    FROM public.sales_transactions st
+    WHERE st.status <> 'cancelled'
+      AND st.customer_id IS NOT NULL
+      AND (p_customer_id IS NULL OR st.customer_id = p_customer_id)
+  )
+  SELECT
+    c.customer_id,
+    SUM(c.due)::DECIMAL(10,2),
+    SUM(LEAST(c.paid, c.due))::DECIMAL(10,2),
+    SUM(c.deposit)::DECIMAL(10,2),
+    SUM(GREATEST(0, c.due - c.paid))::DECIMAL(10,2)
+  FROM charges c
+  GROUP BY c.customer_id;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Checkout with split tenders
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID);
+
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+-- When omitted the sale is paid in full with p_payment_method.
+CREATE OR REPLACE FUNCTION public.process_cart_checkout(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created_by UUID := auth.uid();
+  v_sale_id UUID;
+  v_reference TEXT;
+  v_item JSONB;
+  v_inventory_item RECORD;
+  v_quantity INTEGER;
+  v_total_amount DECIMAL(10,2) := 0;
+  v_items_count INTEGER := 0;
+  v_payments JSONB;
+  v_tender JSONB;
+  v_paid DECIMAL(10,2) := 0;
+  v_methods INTEGER;
+  v_payment_method TEXT;
+BEGIN
+  IF v_created_by IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_customer_name IS NULL OR btrim(p_customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart items cannot be empty';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO public.sales_transactions (
+    customer_id,
+    customer_name,
+    customer_phone,
+    payment_method,
+    reference_number,
+    total_amount,
+    items_count,
+    created_by
+  ) VALUES (
+    p_customer_id,
+    btrim(p_customer_name),
+    NULLIF(btrim(COALESCE(p_customer_phone, '')), ''),
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    0,
+    0,
+    v_created_by
+  ) RETURNING id INTO v_sale_id;
+
+  v_reference := COALESCE(NULLIF(btrim(COALESCE(p_reference_number, '')), ''), 'SALE-' || v_sale_id);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item "%"', COALESCE(v_item->>'name', v_item->>'id');
+    END IF;
+
+    -- Lock the row so concurrent checkouts cannot both pass the stock check
+    SELECT id, name, unit_price, current_stock
+    INTO v_inventory_item
+    FROM public.inventory_items
+    WHERE id = (v_item->>'id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item not found: %', v_item->>'id';
+    END IF;
+
+    IF v_inventory_item.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for item "%". Required: %, Available: %',
+        v_inventory_item.name, v_quantity, v_inventory_item.current_stock;
+    END IF;
+
+    INSERT INTO public.sales_items (
+      sale_id,
+      inventory_item_id,
+      item_name,
+      unit_price,
+      quantity,
+      total_price
+    ) VALUES (
+      v_sale_id,
+      v_inventory_item.id,
+      v_inventory_item.name,
+      v_inventory_item.unit_price,
+      v_quantity,
+      v_inventory_item.unit_price * v_quantity
+    );
+
+    INSERT INTO public.inventory_transactions (
+      item_id,
+      transaction_type,
+      quantity,
+      unit_price,
+      total_amount,
+      reason,
+      reference_number,
+      created_by
+    ) VALUES (
+      v_inventory_item.id,
+      'stock_out',
+      v_quantity,
+      v_inventory_item.unit_price,
+      v_inventory_item.unit_price * v_quantity,
+      'Sale to ' || btrim(p_customer_name),
+      v_reference,
+      v_created_by
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock - v_quantity
+    WHERE id = v_inventory_item.id;
+
+    v_total_amount := v_total_amount + (v_inventory_item.unit_price * v_quantity);
+    v_items_count := v_items_count + v_quantity;
+  END LOOP;
+
+  -- Tenders
+  v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+    'payment_method', COALESCE(p_payment_method, 'cash'),
+    'amount', v_total_amount,
+    'reference_number', p_reference_number
+  )));
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, customer_id, amount, payment_method, reference_number, received_by
+    ) VALUES (
+      v_sale_id,
+      p_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_created_by
+    );
+
+    v_paid := v_paid + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_paid > v_total_amount THEN
+    RAISE EXCEPTION 'Payments of % exceed the sale total of %', v_paid, v_total_amount;
+  END IF;
+
+  IF v_paid < v_total_amount AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a registered customer to leave a balance of % outstanding', v_total_amount - v_paid;
+  END IF;
+
+  SELECT COUNT(DISTINCT payment_method), MIN(payment_method)
+  INTO v_methods, v_payment_method
+  FROM public.payments
+  WHERE sale_id = v_sale_id;
+
+  UPDATE public.sales_transactions
+  SET total_amount = v_total_amount,
+      items_count = v_items_count,
+      reference_number = v_reference,
+      payment_method = CASE
+        WHEN v_methods = 0 THEN 'on_account'
+        WHEN v_methods > 1 THEN 'split'
+        ELSE v_payment_method
+      END
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'reference_number', v_reference,
+    'total_amount', v_total_amount,
+    'amount_paid', v_paid,
+    'balance', v_total_amount - v_paid,
+    'items_count', v_items_count,
+    'created_at', now(),
+    'message', 'Sale completed successfully'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Any failure rolls back the sale, its items, payments and every stock movement
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process cart checkout'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 7: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_service_amount_due(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_amount_due(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payments(JSONB, UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_payment_summary(UUID, UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_customer_balances(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_customer_balances(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.get_service_amount_due IS 'Service price plus products used on the service';
+COMMENT ON FUNCTION public.get_sale_amount_due IS 'Sale total less refunds and voids';
+COMMENT ON FUNCTION public.record_payments IS 'Records one or more tenders against a service or sale; deposits before completion';
+COMMENT ON FUNCTION public.get_payment_summary IS 'Amount due, paid, balance and tender breakdown for a receipt';
+COMMENT ON FUNCTION public.get_customer_balances IS 'Outstanding balance and deposits held per customer';
+COMMENT ON FUNCTION public.process_cart_checkout IS 'Atomically records a cart sale, its items, tenders and the stock-out transactions';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Payments ledger installed: payments, record_payments, get_payment_summary, get_customer_balances';
+END $$;
@@ -0,0 +1,375 @@
+-- Migration: Cash drawer sessions and Z-report
+-- Date: 2025-01-01
+-- Description: The front desk opens a cash drawer session with an opening float and closes it
+--              at the end of the day by counting the drawer. Expected cash is the float plus
+--              cash payments on services and sales, less cash refunds and expenses paid out of
+--              the till. The variance and a Z-report snapshot are stored with the session.
+
+-- ============================================================================
+-- STEP 1: Drawer sessions
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.cash_drawer_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_by UUID REFERENCES auth.users(id) NOT NULL,
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expected_cash DECIMAL(10,2),
+  counted_cash DECIMAL(10,2) CHECK (counted_cash IS NULL OR counted_cash >= 0),
+  variance DECIMAL(10,2),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  z_report JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT cash_drawer_sessions_closed_check CHECK (
+    status = 'open' OR (closed_at IS NOT NULL AND counted_cash IS NOT NULL)
+  )
+);
+
+-- Only one drawer can be open at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_sessions_single_open
+ON public.cash_drawer_sessions(status) WHERE status = 'open';
+
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_sessions_opened_at ON public.cash_drawer_sessions(opened_at);
+
+ALTER TABLE public.cash_drawer_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Sessions are opened and closed through open_cash_drawer and close_cash_drawer
+CREATE POLICY "Admins can manage cash drawer sessions" ON public.cash_drawer_sessions
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Authenticated users can view cash drawer sessions" ON public.cash_drawer_sessions
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+COMMENT ON TABLE public.cash_drawer_sessions IS 'Front desk cash drawer from opening float to end-of-day count';
+COMMENT ON COLUMN public.cash_drawer_sessions.variance IS 'Counted cash minus expected cash; negative means the drawer is short';
+COMMENT ON COLUMN public.cash_drawer_sessions.z_report IS 'Totals captured when the session was closed';
+
+-- Expenses paid out of the till belong to the session they were paid from
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS cash_drawer_session_id UUID REFERENCES public.cash_drawer_sessions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_expenses_cash_drawer_session_id ON public.expenses(cash_drawer_session_id);
+
+COMMENT ON COLUMN public.expenses.cash_drawer_session_id IS 'Set when the expense was paid in cash from the drawer';
+
+-- ============================================================================
+-- STEP 2: Session totals
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_summary(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_drawer_sessions%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_by_method JSONB;
+  v_cash_payments DECIMAL(10,2);
+  v_service_payments DECIMAL(10,2);
+  v_sale_payments DECIMAL(10,2);
+  v_deposits DECIMAL(10,2);
+  v_payments_count INTEGER;
+  v_refunds DECIMAL(10,2);
+  v_cash_refunds DECIMAL(10,2);
+  v_refunds_count INTEGER;
+  v_expenses JSONB;
+  v_paid_out DECIMAL(10,2);
+BEGIN
+  -- has_feature comes from the roles migration
+  IF NOT public.has_feature(auth.uid(), 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to view the till summary';
+  END IF;
+
+  SELECT * INTO v_session FROM public.cash_drawer_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_until := COALESCE(v_session.closed_at, now());
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', m.payment_method,
+    'amount', m.amount,
+    'count', m.count
+  ) ORDER BY m.payment_method), '[]'::jsonb)
+  INTO v_by_method
+  FROM (
+    SELECT p.payment_method, SUM(p.amount) AS amount, COUNT(*) AS count
+    FROM public.payments p
+    WHERE p.created_at >= v_session.opened_at AND p.created_at < v_until
+    GROUP BY p.payment_method
+  ) m;
+
+  SELECT
+    COALESCE(SUM(p.amount) FILTER (WHERE p.payment_method = 'cash'), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.service_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.sale_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.is_deposit), 0),
+    COUNT(*)
+  INTO v_cash_payments, v_service_payments, v_sale_payments, v_deposits, v_payments_count
+  FROM public.payments p
+  WHERE p.created_at >= v_session.opened_at AND p.created_at < v_until;
+
+  -- Refunds go back the way the sale was paid, so only the cash share of each refund, taken
+  -- from the sale's tenders, leaves the till. This covers split sales paid partly in cash.
+  SELECT
+    COALESCE(SUM(r.total_amount), 0),
+    COALESCE(SUM(ROUND(r.total_amount * COALESCE(t.cash_paid / NULLIF(t.total_paid, 0), 0), 2)), 0),
+    COUNT(*)
+  INTO v_refunds, v_cash_refunds, v_refunds_count
+  FROM public.sales_refunds r
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'cash') AS cash_paid,
+      SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.sale_id = r.sale_id
+  ) t ON true
+  WHERE r.created_at >= v_session.opened_at AND r.created_at < v_until;
+
+  SELECT
+    COALESCE(SUM(e.amount), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', e.id,
+      'name', e.name,
+      'category', e.category,
+      'amount', e.amount,
+      'created_at', e.created_at
+    ) ORDER BY e.created_at), '[]'::jsonb)
+  INTO v_paid_out, v_expenses
+  FROM public.expenses e
+  WHERE e.cash_drawer_session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'session_id', v_session.id,
+    'status', v_session.status,
+    'opened_at', v_session.opened_at,
+    'closed_at', v_session.closed_at,
+    'opened_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.opened_by),
+    'closed_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.closed_by),
+    'opening_float', v_session.opening_float,
+    'payments_by_method', v_by_method,
+    'payments_count', v_payments_count,
+    'service_payments', v_service_payments,
+    'sale_payments', v_sale_payments,
+    'deposits', v_deposits,
+    'cash_payments', v_cash_payments,
+    'refunds_total', v_refunds,
+    'cash_refunds', v_cash_refunds,
+    'refunds_count', v_refunds_count,
+    'paid_out_total', v_paid_out,
+    'paid_out', v_expenses,
+    'expected_cash', v_session.opening_float + v_cash_payments - v_cash_refunds - v_paid_out,
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'notes', v_session.notes
+  );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Open, pay out and close
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.open_cash_drawer(
+  p_opening_float DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_drawer_sessions WHERE status = 'open') THEN
+    RAISE EXCEPTION 'A cash drawer session is already open';
+  END IF;
+
+  INSERT INTO public.cash_drawer_sessions (opening_float, opened_by, notes)
+  VALUES (p_opening_float, v_user_id, NULLIF(btrim(p_notes), ''))
+  RETURNING id INTO v_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', v_session_id,
+    'message', 'Cash drawer opened'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to open cash drawer'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_drawer_payout(
+  p_session_id UUID,
+  p_name TEXT,
+  p_category TEXT,
+  p_amount DECIMAL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_expense_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cash_drawer_sessions WHERE id = p_session_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Cash can only be paid out of an open drawer';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Expense name is required';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  INSERT INTO public.expenses (name, category, amount, date, created_by, cash_drawer_session_id)
+  VALUES (btrim(p_name), COALESCE(NULLIF(btrim(p_category), ''), 'Other'), p_amount, CURRENT_DATE, v_user_id, p_session_id)
+  RETURNING id INTO v_expense_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'expense_id', v_expense_id,
+    'message', 'Paid out from the drawer'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record pay-out'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_cash_drawer(
+  p_session_id UUID,
+  p_counted_cash DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session public.cash_drawer_sessions%ROWTYPE;
+  v_closed_at TIMESTAMP WITH TIME ZONE := now();
+  v_summary JSONB;
+  v_expected DECIMAL(10,2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash cannot be negative';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.cash_drawer_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cash drawer session not found';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'This cash drawer session is already closed';
+  END IF;
+
+  -- Fix the end of the session first so the snapshot covers exactly what it was closed with
+  UPDATE public.cash_drawer_sessions
+  SET closed_at = v_closed_at,
+      closed_by = v_user_id,
+      counted_cash = p_counted_cash,
+      status = 'closed',
+      notes = COALESCE(NULLIF(btrim(p_notes), ''), notes)
+  WHERE id = p_session_id;
+
+  v_summary := public.get_cash_drawer_summary(p_session_id);
+  v_expected := (v_summary->>'expected_cash')::DECIMAL(10,2);
+
+  UPDATE public.cash_drawer_sessions
+  SET expected_cash = v_expected,
+      variance = p_counted_cash - v_expected
+  WHERE id = p_session_id;
+
+  v_summary := public.get_cash_drawer_summary(p_session_id);
+
+  UPDATE public.cash_drawer_sessions
+  SET z_report = v_summary
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'expected_cash', v_expected,
+    'counted_cash', p_counted_cash,
+    'variance', p_counted_cash - v_expected,
+    'z_report', v_summary,
+    'message', 'Cash drawer closed'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to close cash drawer'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_cash_drawer_summary(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.open_cash_drawer(DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_cash_drawer_payout(UUID, TEXT, TEXT, DECIMAL) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.close_cash_drawer(UUID, DECIMAL, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.get_cash_drawer_summary IS 'Z-report totals for a drawer session: tenders, refunds, pay-outs and expected cash';
+COMMENT ON FUNCTION public.open_cash_drawer IS 'Opens the cash drawer with an opening float; only one drawer can be open';
+COMMENT ON FUNCTION public.record_cash_drawer_payout IS 'Records an expense paid in cash from the open drawer';
+COMMENT ON FUNCTION public.close_cash_drawer IS 'Closes the drawer with the counted cash, storing the variance and Z-report';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Cash drawer sessions installed: open_cash_drawer, record_cash_drawer_payout, close_cash_drawer, get_cash_drawer_summary';
+END $$;
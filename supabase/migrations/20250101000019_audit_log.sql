@@ -0,0 +1,251 @@
+-- Migration: Append-only audit log
+-- Date: 2025-01-01
+-- Description: Row-level triggers on profiles, services, inventory_items, inventory_transactions,
+--              expenses and workers record who changed what, with the row before and after the
+--              change. The log cannot be updated or deleted, and only admins can read it.
+
+-- ============================================================================
+-- STEP 1: Audit log table
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  table_name TEXT NOT NULL,
+  record_id TEXT,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON public.audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_table_name ON public.audit_log(table_name);
+CREATE INDEX IF NOT EXISTS idx_audit_log_actor_id ON public.audit_log(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_log_record_id ON public.audit_log(record_id);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Entries are only written by the audit trigger; there are no insert, update or delete policies
+CREATE POLICY "Admins can view audit log" ON public.audit_log
+FOR SELECT USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+COMMENT ON TABLE public.audit_log IS 'Append-only record of changes to audited tables';
+COMMENT ON COLUMN public.audit_log.actor_id IS 'auth.uid() of the user who made the change; null for system changes';
+COMMENT ON COLUMN public.audit_log.reason IS 'Optional reason supplied through the audit.reason setting';
+
+-- Block edits and deletes even for roles that bypass RLS
+CREATE OR REPLACE FUNCTION public.prevent_audit_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The audit log is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_log_append_only ON public.audit_log;
+CREATE TRIGGER audit_log_append_only
+BEFORE UPDATE OR DELETE ON public.audit_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_audit_log_changes();
+
+-- ============================================================================
+-- STEP 2: Audit trigger
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.audit_row_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_old JSONB;
+  v_new JSONB;
+  v_changed TEXT[];
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    v_old := to_jsonb(OLD);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    v_new := to_jsonb(NEW);
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key)
+    INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at'
+      AND v_old->n.key IS DISTINCT FROM n.value;
+
+    -- Touching only updated_at is not a change worth recording
+    IF v_changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, old_data, new_data, changed_fields, reason)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new->>'id', v_old->>'id'),
+    TG_OP,
+    auth.uid(),
+    v_old,
+    v_new,
+    v_changed,
+    NULLIF(current_setting('audit.reason', true), '')
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['profiles', 'services', 'inventory_items', 'inventory_transactions', 'expenses', 'workers']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 3: Role changes with a reason
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.change_user_role(
+  p_profile_id UUID,
+  p_role TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_role TEXT;
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can change user roles';
+  END IF;
+
+  SELECT role::TEXT INTO v_previous_role FROM public.profiles WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Picked up by audit_row_change for the profile update below
+  PERFORM set_config('audit.reason', COALESCE(btrim(p_reason), ''), true);
+
+  UPDATE public.profiles
+  SET role = p_role::app_role,
+      updated_at = now()
+  WHERE id = p_profile_id;
+
+  PERFORM set_config('audit.reason', '', true);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_role', v_previous_role,
+    'role', p_role,
+    'message', 'Role changed'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to change role'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Reading the log
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_audit_log(
+  p_actor_id UUID DEFAULT NULL,
+  p_table_name TEXT DEFAULT NULL,
+  p_date_from DATE DEFAULT NULL,
+  p_date_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT 200,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  table_name TEXT,
+  record_id TEXT,
+  action TEXT,
+  actor_id UUID,
+  actor_name TEXT,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can view the audit log';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    a.id,
+    a.table_name,
+    a.record_id,
+    a.action,
+    a.actor_id,
+    p.full_name,
+    a.old_data,
+    a.new_data,
+    a.changed_fields,
+    a.reason,
+    a.created_at
+  FROM public.audit_log a
+  LEFT JOIN public.profiles p ON p.user_id = a.actor_id
+  WHERE (p_actor_id IS NULL OR a.actor_id = p_actor_id)
+    AND (p_table_name IS NULL OR a.table_name = p_table_name)
+    AND (p_date_from IS NULL OR a.created_at >= p_date_from)
+    AND (p_date_to IS NULL OR a.created_at < p_date_to + 1)
+  ORDER BY a.created_at DESC
+  LIMIT p_limit
+  OFFSET p_offset;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.audit_log TO authenticated;
+GRANT EXECUTE ON FUNCTION public.change_user_role(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_audit_log(UUID, TEXT, DATE, DATE, INTEGER, INTEGER) TO authenticated;
+
+COMMENT ON FUNCTION public.audit_row_change IS 'Writes an audit_log entry with the row before and after each change';
+COMMENT ON FUNCTION public.change_user_role IS 'Admin-only role change recorded in the audit log with a reason';
+COMMENT ON FUNCTION public.get_audit_log IS 'Audit log entries filtered by actor, table and date range, newest first';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Audit log installed on profiles, services, inventory_items, inventory_transactions, expenses and workers';
+END $$;
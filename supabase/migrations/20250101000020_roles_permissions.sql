@@ -0,0 +1,808 @@
+-- Migration: Roles and per-feature permissions
+-- Date: 2025-01-01
+-- Description: Replaces the two-value admin/user model with roles stored as data (owner,
+--              receptionist, stylist, inventory manager, accountant, ...) and per-feature
+--              grants that admins edit. has_feature() is used by the RLS policies below and
+--              get_my_access() feeds the same grants to the app's route guards and sidebar.
+--              profiles.role is kept in sync (admin for roles with every feature) so the
+--              existing admin policies keep working.
+
+-- ============================================================================
+-- STEP 1: Roles, features and grants
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.roles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  key TEXT NOT NULL UNIQUE CHECK (key ~ '^[a-z][a-z0-9_]*$'),
+  name TEXT NOT NULL,
+  description TEXT,
+  all_features BOOLEAN NOT NULL DEFAULT false,
+  is_system BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.app_features (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0
+);
+
+CREATE TABLE IF NOT EXISTS public.role_permissions (
+  role_id UUID NOT NULL REFERENCES public.roles(id) ON DELETE CASCADE,
+  feature TEXT NOT NULL REFERENCES public.app_features(key) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (role_id, feature)
+);
+
+CREATE TRIGGER update_roles_updated_at
+BEFORE UPDATE ON public.roles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.roles IS 'Staff roles; all_features roles can do everything and map to the admin app_role';
+COMMENT ON TABLE public.app_features IS 'Features that can be granted to roles';
+COMMENT ON TABLE public.role_permissions IS 'Features granted to each role';
+
+INSERT INTO public.app_features (key, label, description, sort_order) VALUES
+  ('dashboard', 'Dashboard', 'Business overview', 10),
+  ('services', 'Services', 'Book, complete and take payment for services', 20),
+  ('all_services', 'All Services', 'See and edit services recorded by other users', 30),
+  ('customers', 'Customers', 'View and edit every customer', 40),
+  ('workers', 'Workers', 'Manage workers and their schedules', 50),
+  ('attendance', 'Attendance', 'Clock in and out and view attendance', 60),
+  ('inventory', 'Inventory', 'Stock, retail sales and inventory transactions', 70),
+  ('cash_drawer', 'Cash Drawer', 'Open and close the till and record pay-outs', 80),
+  ('alerts', 'Alerts', 'Stock and system alerts', 90),
+  ('payroll', 'Worker Payroll', 'Commissions and worker earnings', 100),
+  ('reports', 'Financial Analytics', 'Revenue, expenses and reports', 110),
+  ('settings', 'Settings', 'System settings', 120),
+  ('user_management', 'User Management', 'Users and their roles', 130)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO public.roles (key, name, description, all_features, is_system) VALUES
+  ('owner', 'Owner', 'Full access to every feature', true, true),
+  ('receptionist', 'Receptionist', 'Front desk: bookings, customers, retail, the till and reports', false, true),
+  ('stylist', 'Stylist', 'Own services, customers and attendance', false, true),
+  ('inventory_manager', 'Inventory Manager', 'Stock, retail and alerts', false, true),
+  ('accountant', 'Accountant', 'Reports, payroll and cash reconciliation', false, true)
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO public.role_permissions (role_id, feature)
+SELECT r.id, g.feature
+FROM (VALUES
+  ('receptionist', 'services'),
+  ('receptionist', 'customers'),
+  ('receptionist', 'inventory'),
+  ('receptionist', 'attendance'),
+  ('receptionist', 'cash_drawer'),
+  ('receptionist', 'alerts'),
+  -- Every non-admin user could open reports before roles existed, and those users
+  -- (and new sign-ups) get the receptionist role, so it keeps that access
+  ('receptionist', 'reports'),
+  ('stylist', 'services'),
+  ('stylist', 'customers'),
+  ('stylist', 'attendance'),
+  ('inventory_manager', 'inventory'),
+  ('inventory_manager', 'alerts'),
+  ('inventory_manager', 'attendance'),
+  ('accountant', 'dashboard'),
+  ('accountant', 'reports'),
+  ('accountant', 'payroll'),
+  ('accountant', 'cash_drawer'),
+  ('accountant', 'attendance')
+) AS g(role_key, feature)
+JOIN public.roles r ON r.key = g.role_key
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- STEP 2: Roles on profiles
+-- ============================================================================
+
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS role_id UUID REFERENCES public.roles(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role_id ON public.profiles(role_id);
+
+COMMENT ON COLUMN public.profiles.role_id IS 'Role whose grants apply to this user; profiles.role is derived from it';
+
+UPDATE public.profiles p
+SET role_id = r.id
+FROM public.roles r
+WHERE p.role_id IS NULL
+  AND r.key = CASE WHEN p.role = 'admin'::app_role THEN 'owner' ELSE 'receptionist' END;
+
+CREATE OR REPLACE FUNCTION public.has_feature(_user_id UUID, _feature TEXT)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.roles r ON r.id = p.role_id
+    WHERE p.user_id = _user_id
+      AND (
+        r.all_features
+        OR EXISTS (
+          SELECT 1 FROM public.role_permissions rp
+          WHERE rp.role_id = r.id AND rp.feature = _feature
+        )
+      )
+  );
+$$;
+
+-- Keeps role and role_id consistent and stops users from changing their own role
+CREATE OR REPLACE FUNCTION public.sync_profile_role()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_all_features BOOLEAN;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND (NEW.role_id IS DISTINCT FROM OLD.role_id OR NEW.role IS DISTINCT FROM OLD.role)
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_feature(auth.uid(), 'user_management') THEN
+    RAISE EXCEPTION 'Only users with user management access can change roles';
+  END IF;
+
+  -- Writers that only know the legacy enum pick the matching default role
+  IF NEW.role_id IS NULL
+     OR (TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role AND NEW.role_id IS NOT DISTINCT FROM OLD.role_id) THEN
+    SELECT id INTO NEW.role_id
+    FROM public.roles
+    WHERE key = CASE WHEN NEW.role = 'admin'::app_role THEN 'owner' ELSE 'receptionist' END;
+  END IF;
+
+  SELECT all_features INTO v_all_features FROM public.roles WHERE id = NEW.role_id;
+
+  NEW.role := CASE WHEN COALESCE(v_all_features, false) THEN 'admin'::app_role ELSE 'user'::app_role END;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_profile_role ON public.profiles;
+CREATE TRIGGER sync_profile_role
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_profile_role();
+
+-- ============================================================================
+-- STEP 3: RLS for roles and grants
+-- ============================================================================
+
+ALTER TABLE public.roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.app_features ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view roles" ON public.roles
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view features" ON public.app_features
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view role permissions" ON public.role_permissions
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Roles and grants are only written through the RPCs below
+
+-- ============================================================================
+-- STEP 4: Feature grants on business tables
+-- ============================================================================
+
+-- Profiles: user management sees and edits every user
+CREATE POLICY "User managers can view all profiles" ON public.profiles
+FOR SELECT USING (public.has_feature(auth.uid(), 'user_management'));
+
+CREATE POLICY "User managers can update all profiles" ON public.profiles
+FOR UPDATE USING (public.has_feature(auth.uid(), 'user_management'));
+
+-- Services: all_services widens the own-services policies
+CREATE POLICY "Granted roles can manage all services" ON public.services
+FOR ALL USING (public.has_feature(auth.uid(), 'all_services'));
+
+CREATE POLICY "Services require the services grant" ON public.services
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'services'));
+
+CREATE POLICY "Service updates require the services grant" ON public.services
+AS RESTRICTIVE FOR UPDATE USING (public.has_feature(auth.uid(), 'services'));
+
+CREATE POLICY "Service deletes require the services grant" ON public.services
+AS RESTRICTIVE FOR DELETE USING (public.has_feature(auth.uid(), 'services'));
+
+-- Customers: the customers grant sees everyone; booking a service can create one
+CREATE POLICY "Granted roles can manage all customers" ON public.customers
+FOR ALL USING (public.has_feature(auth.uid(), 'customers'));
+
+CREATE POLICY "Customers require the customers or services grant" ON public.customers
+AS RESTRICTIVE FOR INSERT WITH CHECK (
+  public.has_feature(auth.uid(), 'customers') OR public.has_feature(auth.uid(), 'services')
+);
+
+CREATE POLICY "Customer updates require the customers grant" ON public.customers
+AS RESTRICTIVE FOR UPDATE USING (public.has_feature(auth.uid(), 'customers'));
+
+CREATE POLICY "Customer deletes require the customers grant" ON public.customers
+AS RESTRICTIVE FOR DELETE USING (public.has_feature(auth.uid(), 'customers'));
+
+-- Workers: everyone can still read them for pickers; writes need the workers grant
+CREATE POLICY "Granted roles can manage workers" ON public.workers
+FOR ALL USING (public.has_feature(auth.uid(), 'workers'));
+
+-- Inventory: everyone can read stock; changing it needs the inventory grant
+CREATE POLICY "Granted roles can manage inventory" ON public.inventory_items
+FOR ALL USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Inventory items require the inventory grant" ON public.inventory_items
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Inventory item updates require the inventory grant" ON public.inventory_items
+AS RESTRICTIVE FOR UPDATE USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Inventory item deletes require the inventory grant" ON public.inventory_items
+AS RESTRICTIVE FOR DELETE USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Granted roles can manage transactions" ON public.inventory_transactions
+FOR ALL USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Transactions require the inventory grant" ON public.inventory_transactions
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'inventory'));
+
+-- Payments: financial analytics reads every tender
+CREATE POLICY "Granted roles can view payments" ON public.payments
+FOR SELECT USING (public.has_feature(auth.uid(), 'reports'));
+
+-- Expenses belong to financial analytics; till pay-outs go through record_cash_drawer_payout
+CREATE POLICY "Granted roles can manage expenses" ON public.expenses
+FOR ALL USING (public.has_feature(auth.uid(), 'reports'));
+
+CREATE POLICY "Expenses require the reports grant" ON public.expenses
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'reports'));
+
+CREATE POLICY "Expense updates require the reports grant" ON public.expenses
+AS RESTRICTIVE FOR UPDATE USING (public.has_feature(auth.uid(), 'reports'));
+
+CREATE POLICY "Expense deletes require the reports grant" ON public.expenses
+AS RESTRICTIVE FOR DELETE USING (public.has_feature(auth.uid(), 'reports'));
+
+-- Retail sales: recording a sale needs the inventory grant
+CREATE POLICY "Sales require the inventory grant" ON public.sales_transactions
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'inventory'));
+
+-- Attendance: recording shifts needs the attendance grant
+CREATE POLICY "Attendance requires the attendance grant" ON public.worker_attendance
+AS RESTRICTIVE FOR INSERT WITH CHECK (public.has_feature(auth.uid(), 'attendance'));
+
+-- ============================================================================
+-- STEP 5: Feature grants on server-side actions
+-- ============================================================================
+
+-- SECURITY DEFINER functions bypass the policies above, so they check the same grants.
+-- open_cash_drawer and process_cart_checkout are redefined by later migrations with the
+-- same checks.
+
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+CREATE OR REPLACE FUNCTION public.record_payments(
+  p_payments JSONB,
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_customer_id UUID;
+  v_status TEXT;
+  v_due DECIMAL(10,2);
+  v_paid DECIMAL(10,2);
+  v_tendered DECIMAL(10,2) := 0;
+  v_is_deposit BOOLEAN := false;
+  v_tender JSONB;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (p_service_id IS NULL) = (p_sale_id IS NULL) THEN
+    RAISE EXCEPTION 'A payment must be for exactly one service or sale';
+  END IF;
+
+  IF p_service_id IS NOT NULL AND NOT public.has_feature(v_user_id, 'services') THEN
+    RAISE EXCEPTION 'Services access is required to take payment for a service';
+  END IF;
+
+  IF p_sale_id IS NOT NULL AND NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to take payment for a sale';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Enter at least one payment';
+  END IF;
+
+  IF p_service_id IS NOT NULL THEN
+    SELECT customer_id, status INTO v_customer_id, v_status
+    FROM public.services
+    WHERE id = p_service_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    v_due := public.get_service_amount_due(p_service_id);
+    v_is_deposit := v_status IN ('pending', 'in_progress');
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE service_id = p_service_id;
+  ELSE
+    SELECT customer_id, status INTO v_customer_id, v_status
+    FROM public.sales_transactions
+    WHERE id = p_sale_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    v_due := public.get_sale_amount_due(p_sale_id);
+    SELECT COALESCE(SUM(amount), 0) INTO v_paid FROM public.payments WHERE sale_id = p_sale_id;
+  END IF;
+
+  IF v_status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot take payment for a cancelled %', CASE WHEN p_service_id IS NOT NULL THEN 'service' ELSE 'sale' END;
+  END IF;
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(p_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      service_id, sale_id, customer_id, amount, payment_method, reference_number, is_deposit, notes, received_by
+    ) VALUES (
+      p_service_id,
+      p_sale_id,
+      v_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_is_deposit,
+      NULLIF(btrim(COALESCE(p_notes, '')), ''),
+      v_user_id
+    );
+
+    v_tendered := v_tendered + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_tendered <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF v_paid + v_tendered > v_due THEN
+    RAISE EXCEPTION 'Payment of % exceeds the outstanding balance of %', v_tendered, GREATEST(0, v_due - v_paid);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'amount_due', v_due,
+    'amount_paid', v_paid + v_tendered,
+    'balance', v_due - v_paid - v_tendered,
+    'is_deposit', v_is_deposit,
+    'message', CASE WHEN v_is_deposit THEN 'Deposit recorded' ELSE 'Payment recorded' END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record payment'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_drawer_payout(
+  p_session_id UUID,
+  p_name TEXT,
+  p_category TEXT,
+  p_amount DECIMAL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_expense_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to pay out from the till';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.cash_drawer_sessions WHERE id = p_session_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Cash can only be paid out of an open drawer';
+  END IF;
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Expense name is required';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  INSERT INTO public.expenses (name, category, amount, date, created_by, cash_drawer_session_id)
+  VALUES (btrim(p_name), COALESCE(NULLIF(btrim(p_category), ''), 'Other'), p_amount, CURRENT_DATE, v_user_id, p_session_id)
+  RETURNING id INTO v_expense_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'expense_id', v_expense_id,
+    'message', 'Paid out from the drawer'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record pay-out'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_cash_drawer(
+  p_session_id UUID,
+  p_counted_cash DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_session public.cash_drawer_sessions%ROWTYPE;
+  v_closed_at TIMESTAMP WITH TIME ZONE := now();
+  v_summary JSONB;
+  v_expected DECIMAL(10,2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to close the till';
+  END IF;
+
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash cannot be negative';
+  END IF;
+
+  SELECT * INTO v_session
+  FROM public.cash_drawer_sessions
+  WHERE id = p_session_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cash drawer session not found';
+  END IF;
+
+  IF v_session.status <> 'open' THEN
+    RAISE EXCEPTION 'This cash drawer session is already closed';
+  END IF;
+
+  -- Fix the end of the session first so the snapshot covers exactly what it was closed with
+  UPDATE public.cash_drawer_sessions
+  SET closed_at = v_closed_at,
+      closed_by = v_user_id,
+      counted_cash = p_counted_cash,
+      status = 'closed',
+      notes = COALESCE(NULLIF(btrim(p_notes), ''), notes)
+  WHERE id = p_session_id;
+
+  v_summary := public.get_cash_drawer_summary(p_session_id);
+  v_expected := (v_summary->>'expected_cash')::DECIMAL(10,2);
+
+  UPDATE public.cash_drawer_sessions
+  SET expected_cash = v_expected,
+      variance = p_counted_cash - v_expected
+  WHERE id = p_session_id;
+
+  v_summary := public.get_cash_drawer_summary(p_session_id);
+
+  UPDATE public.cash_drawer_sessions
+  SET z_report = v_summary
+  WHERE id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', p_session_id,
+    'expected_cash', v_expected,
+    'counted_cash', p_counted_cash,
+    'variance', p_counted_cash - v_expected,
+    'z_report', v_summary,
+    'message', 'Cash drawer closed'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to close cash drawer'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Access for the signed-in user
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_my_access()
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'role_id', r.id,
+    'role_key', r.key,
+    'role_name', r.name,
+    'all_features', r.all_features,
+    'features', CASE
+      WHEN r.all_features THEN (SELECT COALESCE(jsonb_agg(f.key ORDER BY f.sort_order), '[]'::jsonb) FROM public.app_features f)
+      ELSE (SELECT COALESCE(jsonb_agg(rp.feature ORDER BY rp.feature), '[]'::jsonb) FROM public.role_permissions rp WHERE rp.role_id = r.id)
+    END
+  )
+  INTO v_result
+  FROM public.profiles p
+  JOIN public.roles r ON r.id = p.role_id
+  WHERE p.user_id = auth.uid();
+
+  RETURN COALESCE(v_result, jsonb_build_object('all_features', false, 'features', '[]'::jsonb));
+END;
+$$;
+
+-- ============================================================================
+-- STEP 7: Managing roles
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.save_role(
+  p_name TEXT,
+  p_role_id UUID DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_features TEXT[] DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role public.roles%ROWTYPE;
+  v_key TEXT;
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can edit roles';
+  END IF;
+
+  IF btrim(COALESCE(p_name, '')) = '' THEN
+    RAISE EXCEPTION 'Role name is required';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(p_features) f
+    WHERE f NOT IN (SELECT key FROM public.app_features)
+  ) THEN
+    RAISE EXCEPTION 'Unknown feature in grants';
+  END IF;
+
+  IF p_role_id IS NULL THEN
+    v_key := trim(BOTH '_' FROM regexp_replace(lower(btrim(p_name)), '[^a-z0-9]+', '_', 'g'));
+
+    IF v_key = '' OR v_key !~ '^[a-z]' THEN
+      v_key := 'role_' || v_key;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM public.roles WHERE key = v_key) THEN
+      RAISE EXCEPTION 'A role named % already exists', btrim(p_name);
+    END IF;
+
+    INSERT INTO public.roles (key, name, description)
+    VALUES (v_key, btrim(p_name), NULLIF(btrim(p_description), ''))
+    RETURNING * INTO v_role;
+  ELSE
+    UPDATE public.roles
+    SET name = btrim(p_name),
+        description = NULLIF(btrim(p_description), '')
+    WHERE id = p_role_id
+    RETURNING * INTO v_role;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Role not found';
+    END IF;
+  END IF;
+
+  -- Grants on all_features roles are implied, so they are not stored
+  DELETE FROM public.role_permissions WHERE role_id = v_role.id;
+
+  IF NOT v_role.all_features THEN
+    INSERT INTO public.role_permissions (role_id, feature)
+    SELECT DISTINCT v_role.id, f FROM unnest(p_features) f;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'role_id', v_role.id,
+    'role_key', v_role.key,
+    'message', 'Role saved'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to save role'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.delete_role(p_role_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role public.roles%ROWTYPE;
+  v_holders INTEGER;
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can delete roles';
+  END IF;
+
+  SELECT * INTO v_role FROM public.roles WHERE id = p_role_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Role not found';
+  END IF;
+
+  IF v_role.is_system THEN
+    RAISE EXCEPTION 'Built-in roles cannot be deleted';
+  END IF;
+
+  SELECT COUNT(*) INTO v_holders FROM public.profiles WHERE role_id = p_role_id;
+
+  IF v_holders > 0 THEN
+    RAISE EXCEPTION '% user(s) still have the % role', v_holders, v_role.name;
+  END IF;
+
+  DELETE FROM public.roles WHERE id = p_role_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Role deleted'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to delete role'
+    );
+END;
+$$;
+
+-- change_user_role now takes a role key; 'admin' and 'user' still map to owner and receptionist
+CREATE OR REPLACE FUNCTION public.change_user_role(
+  p_profile_id UUID,
+  p_role TEXT,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_previous_role TEXT;
+  v_role public.roles%ROWTYPE;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'user_management') THEN
+    RAISE EXCEPTION 'Only users with user management access can change roles';
+  END IF;
+
+  SELECT * INTO v_role
+  FROM public.roles
+  WHERE key = CASE p_role WHEN 'admin' THEN 'owner' WHEN 'user' THEN 'receptionist' ELSE p_role END;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown role %', p_role;
+  END IF;
+
+  -- Only full-access users can hand out full access
+  IF v_role.all_features AND public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can grant the % role', v_role.name;
+  END IF;
+
+  SELECT r.key INTO v_previous_role
+  FROM public.profiles p
+  LEFT JOIN public.roles r ON r.id = p.role_id
+  WHERE p.id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found';
+  END IF;
+
+  -- Picked up by audit_row_change for the profile update below
+  PERFORM set_config('audit.reason', COALESCE(btrim(p_reason), ''), true);
+
+  UPDATE public.profiles
+  SET role_id = v_role.id,
+      updated_at = now()
+  WHERE id = p_profile_id;
+
+  PERFORM set_config('audit.reason', '', true);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'previous_role', v_previous_role,
+    'role', v_role.key,
+    'message', 'Role changed'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to change role'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 8: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.roles TO authenticated;
+GRANT SELECT ON public.app_features TO authenticated;
+GRANT SELECT ON public.role_permissions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_feature(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_access() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_role(TEXT, UUID, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.delete_role(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.has_feature IS 'Whether the user''s role grants the feature; used by RLS policies';
+COMMENT ON FUNCTION public.get_my_access IS 'Role and granted features of the signed-in user';
+COMMENT ON FUNCTION public.save_role IS 'Admin-only create or update of a role and its feature grants';
+COMMENT ON FUNCTION public.delete_role IS 'Admin-only delete of a custom role nobody holds';
+COMMENT ON FUNCTION public.change_user_role IS 'Assign a role by key, recorded in the audit log with a reason';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Roles installed: owner, receptionist, stylist, inventory_manager, accountant';
+END $$;
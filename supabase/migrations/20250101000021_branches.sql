@@ -0,0 +1,863 @@
+-- Migration: Multiple branches
+-- Date: 2025-01-01
+-- Description: Adds branches and scopes customers, services, workers, inventory, expenses,
+--              alerts, sales, payments and cash drawer sessions to a branch. Users see the
+--              branches they are assigned to (full-access roles see all of them) and pick a
+--              working scope with set_branch_scope: one branch, or all of them for consolidated
+--              views. New rows default to the scoped branch. Stock moves between branches
+--              through transfer_inventory as a transfer_out / transfer_in pair.
+
+-- ============================================================================
+-- STEP 1: Branches and assignments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.branches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  code TEXT NOT NULL UNIQUE,
+  address TEXT,
+  phone TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_branches_updated_at
+BEFORE UPDATE ON public.branches
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.user_branches (
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL REFERENCES public.branches(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, branch_id)
+);
+
+-- The branch each user is working in; a null branch_id means all of their branches
+CREATE TABLE IF NOT EXISTS public.user_branch_scope (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  branch_id UUID REFERENCES public.branches(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE public.branches IS 'Salon locations';
+COMMENT ON TABLE public.user_branches IS 'Branches each user works at; full-access roles see every branch';
+COMMENT ON TABLE public.user_branch_scope IS 'Branch the user is currently working in, or null for all of their branches';
+
+-- Existing data belongs to the first branch
+INSERT INTO public.branches (name, code)
+SELECT 'Main Branch', 'MAIN'
+WHERE NOT EXISTS (SELECT 1 FROM public.branches);
+
+INSERT INTO public.user_branches (user_id, branch_id)
+SELECT p.user_id, b.id
+FROM public.profiles p
+CROSS JOIN (SELECT id FROM public.branches ORDER BY created_at LIMIT 1) b
+ON CONFLICT DO NOTHING;
+
+-- ============================================================================
+-- STEP 2: Branch access helpers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.can_access_branch(_user_id UUID, _branch_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.profiles p
+    JOIN public.roles r ON r.id = p.role_id
+    WHERE p.user_id = _user_id AND r.all_features
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.user_branches ub
+    WHERE ub.user_id = _user_id AND ub.branch_id = _branch_id
+  );
+$$;
+
+-- Branch for new rows: the scoped branch, else the user's first branch, else the first branch
+CREATE OR REPLACE FUNCTION public.current_branch_id()
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT s.branch_id FROM public.user_branch_scope s WHERE s.user_id = auth.uid()),
+    (
+      SELECT ub.branch_id
+      FROM public.user_branches ub
+      JOIN public.branches b ON b.id = ub.branch_id
+      WHERE ub.user_id = auth.uid() AND b.is_active
+      ORDER BY b.created_at
+      LIMIT 1
+    ),
+    (SELECT id FROM public.branches WHERE is_active ORDER BY created_at LIMIT 1)
+  );
+$$;
+
+-- Row visibility: an accessible branch that matches the user's scope
+CREATE OR REPLACE FUNCTION public.in_branch_scope(_branch_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.can_access_branch(auth.uid(), _branch_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.user_branch_scope s
+      WHERE s.user_id = auth.uid()
+        AND s.branch_id IS NOT NULL
+        AND s.branch_id <> _branch_id
+    );
+$$;
+
+-- ============================================================================
+-- STEP 3: Branch columns
+-- ============================================================================
+
+DO $$
+DECLARE
+  v_table TEXT;
+  v_main UUID;
+BEGIN
+  SELECT id INTO v_main FROM public.branches ORDER BY created_at LIMIT 1;
+
+  FOREACH v_table IN ARRAY ARRAY[
+    'customers', 'services', 'workers', 'inventory_items', 'inventory_transactions',
+    'expenses', 'alerts', 'sales_transactions', 'payments', 'cash_drawer_sessions'
+  ]
+  LOOP
+    EXECUTE format('ALTER TABLE public.%I ADD COLUMN IF NOT EXISTS branch_id UUID REFERENCES public.branches(id)', v_table);
+    EXECUTE format('UPDATE public.%I SET branch_id = $1 WHERE branch_id IS NULL', v_table) USING v_main;
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN branch_id SET DEFAULT public.current_branch_id()', v_table);
+    EXECUTE format('ALTER TABLE public.%I ALTER COLUMN branch_id SET NOT NULL', v_table);
+    EXECUTE format('CREATE INDEX IF NOT EXISTS idx_%1$s_branch_id ON public.%1$I(branch_id)', v_table);
+  END LOOP;
+END $$;
+
+-- Child rows follow their parent's branch rather than the user's scope
+CREATE OR REPLACE FUNCTION public.inherit_branch_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_branch_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'inventory_transactions' THEN
+    SELECT branch_id INTO v_branch_id FROM public.inventory_items WHERE id = NEW.item_id;
+  ELSIF TG_TABLE_NAME = 'payments' THEN
+    IF NEW.service_id IS NOT NULL THEN
+      SELECT branch_id INTO v_branch_id FROM public.services WHERE id = NEW.service_id;
+    ELSE
+      SELECT branch_id INTO v_branch_id FROM public.sales_transactions WHERE id = NEW.sale_id;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'alerts' AND NEW.entity_type = 'inventory_item' AND NEW.entity_id IS NOT NULL THEN
+    SELECT branch_id INTO v_branch_id FROM public.inventory_items WHERE id = NEW.entity_id;
+  END IF;
+
+  NEW.branch_id := COALESCE(v_branch_id, NEW.branch_id);
+  RETURN NEW;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['inventory_transactions', 'payments', 'alerts']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS inherit_%1$s_branch ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER inherit_%1$s_branch BEFORE INSERT ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.inherit_branch_id()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- Barcodes are unique within a branch so transferred items can keep theirs
+ALTER TABLE public.inventory_items DROP CONSTRAINT IF EXISTS inventory_items_barcode_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_branch_barcode
+ON public.inventory_items(branch_id, barcode) WHERE barcode IS NOT NULL;
+
+-- One open drawer per branch instead of one overall
+DROP INDEX IF EXISTS public.idx_cash_drawer_sessions_single_open;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_sessions_single_open
+ON public.cash_drawer_sessions(branch_id) WHERE status = 'open';
+
+-- Transfers are recorded as a pair sharing transfer_id
+ALTER TABLE public.inventory_transactions
+DROP CONSTRAINT IF EXISTS inventory_transactions_transaction_type_check;
+
+ALTER TABLE public.inventory_transactions
+ADD CONSTRAINT inventory_transactions_transaction_type_check
+CHECK (transaction_type IN ('stock_in', 'stock_out', 'adjustment', 'transfer_in', 'transfer_out'));
+
+ALTER TABLE public.inventory_transactions
+ADD COLUMN IF NOT EXISTS transfer_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_transfer_id
+ON public.inventory_transactions(transfer_id) WHERE transfer_id IS NOT NULL;
+
+COMMENT ON COLUMN public.inventory_transactions.transfer_id IS 'Links the transfer_out and transfer_in rows of an inter-branch transfer';
+
+-- New users start at the first branch
+CREATE OR REPLACE FUNCTION public.assign_default_branch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.user_branches (user_id, branch_id)
+  SELECT NEW.user_id, id
+  FROM public.branches
+  WHERE is_active
+  ORDER BY created_at
+  LIMIT 1
+  ON CONFLICT DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS assign_default_branch ON public.profiles;
+CREATE TRIGGER assign_default_branch
+AFTER INSERT ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_default_branch();
+
+-- ============================================================================
+-- STEP 4: RLS
+-- ============================================================================
+
+ALTER TABLE public.branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_branches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_branch_scope ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their branches" ON public.branches
+FOR SELECT USING (public.can_access_branch(auth.uid(), id));
+
+CREATE POLICY "Admins can manage branches" ON public.branches
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Users can view their branch assignments" ON public.user_branches
+FOR SELECT USING (user_id = auth.uid() OR public.has_feature(auth.uid(), 'user_management'));
+
+CREATE POLICY "Admins can manage branch assignments" ON public.user_branches
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- The scope is changed through set_branch_scope
+CREATE POLICY "Users can view their branch scope" ON public.user_branch_scope
+FOR SELECT USING (user_id = auth.uid());
+
+-- Restrictive: on top of the existing policies, rows must be in the user's branch scope
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY[
+    'customers', 'services', 'workers', 'inventory_items', 'inventory_transactions',
+    'expenses', 'alerts', 'sales_transactions', 'payments', 'cash_drawer_sessions'
+  ]
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Rows are limited to the branch scope" ON public.%I', v_table);
+    EXECUTE format(
+      'CREATE POLICY "Rows are limited to the branch scope" ON public.%I
+       AS RESTRICTIVE FOR ALL
+       USING (public.in_branch_scope(branch_id))
+       WITH CHECK (public.can_access_branch(auth.uid(), branch_id))',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 5: Scope, assignments and transfers
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_branch_scope(p_branch_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_branch_id IS NOT NULL AND NOT public.can_access_branch(auth.uid(), p_branch_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this branch';
+  END IF;
+
+  INSERT INTO public.user_branch_scope (user_id, branch_id, updated_at)
+  VALUES (auth.uid(), p_branch_id, now())
+  ON CONFLICT (user_id) DO UPDATE
+  SET branch_id = EXCLUDED.branch_id,
+      updated_at = now();
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'branch_id', p_branch_id,
+    'message', 'Branch scope updated'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to switch branch'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_user_branches(p_user_id UUID, p_branch_ids UUID[])
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.get_user_role(auth.uid()) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can assign branches';
+  END IF;
+
+  DELETE FROM public.user_branches
+  WHERE user_id = p_user_id
+    AND NOT (branch_id = ANY(COALESCE(p_branch_ids, '{}')));
+
+  INSERT INTO public.user_branches (user_id, branch_id)
+  SELECT p_user_id, b FROM unnest(COALESCE(p_branch_ids, '{}')) b
+  ON CONFLICT DO NOTHING;
+
+  -- A scope on a branch the user lost falls back to all of their branches
+  UPDATE public.user_branch_scope
+  SET branch_id = NULL,
+      updated_at = now()
+  WHERE user_id = p_user_id
+    AND NOT public.can_access_branch(p_user_id, branch_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', 'Branches updated'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update branches'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.transfer_inventory(
+  p_item_id UUID,
+  p_to_branch_id UUID,
+  p_quantity INTEGER,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item public.inventory_items%ROWTYPE;
+  v_target_id UUID;
+  v_transfer_id UUID := gen_random_uuid();
+  v_reference TEXT;
+  v_from_name TEXT;
+  v_to_name TEXT;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to transfer stock';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_item FROM public.inventory_items WHERE id = p_item_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Item not found';
+  END IF;
+
+  IF NOT public.can_access_branch(v_user_id, v_item.branch_id)
+     OR NOT public.can_access_branch(v_user_id, p_to_branch_id) THEN
+    RAISE EXCEPTION 'You must be assigned to both branches';
+  END IF;
+
+  IF v_item.branch_id = p_to_branch_id THEN
+    RAISE EXCEPTION 'The item is already in that branch';
+  END IF;
+
+  IF v_item.current_stock < p_quantity THEN
+    RAISE EXCEPTION 'Only % in stock', v_item.current_stock;
+  END IF;
+
+  SELECT name INTO v_from_name FROM public.branches WHERE id = v_item.branch_id;
+  SELECT name INTO v_to_name FROM public.branches WHERE id = p_to_branch_id AND is_active;
+
+  IF v_to_name IS NULL THEN
+    RAISE EXCEPTION 'Destination branch not found';
+  END IF;
+
+  -- Same item at the destination: same barcode, otherwise same name
+  SELECT id INTO v_target_id
+  FROM public.inventory_items
+  WHERE branch_id = p_to_branch_id
+    AND (
+      (v_item.barcode IS NOT NULL AND barcode = v_item.barcode)
+      OR (v_item.barcode IS NULL AND lower(name) = lower(v_item.name))
+    )
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_target_id IS NULL THEN
+    INSERT INTO public.inventory_items (
+      name, category_id, current_stock, min_stock_level, max_stock_level,
+      unit_price, expiry_date, supplier, barcode, created_by, branch_id
+    )
+    VALUES (
+      v_item.name, v_item.category_id, 0, v_item.min_stock_level, v_item.max_stock_level,
+      v_item.unit_price, v_item.expiry_date, v_item.supplier, v_item.barcode, v_user_id, p_to_branch_id
+    )
+    RETURNING id INTO v_target_id;
+  END IF;
+
+  v_reference := 'TRF-' || upper(substr(replace(v_transfer_id::TEXT, '-', ''), 1, 8));
+
+  UPDATE public.inventory_items
+  SET current_stock = current_stock - p_quantity
+  WHERE id = v_item.id;
+
+  UPDATE public.inventory_items
+  SET current_stock = current_stock + p_quantity
+  WHERE id = v_target_id;
+
+  INSERT INTO public.inventory_transactions (
+    item_id, transaction_type, quantity, unit_price, total_amount,
+    reason, reference_number, created_by, transfer_id
+  )
+  VALUES
+    (v_item.id, 'transfer_out', p_quantity, v_item.unit_price, v_item.unit_price * p_quantity,
+     COALESCE(NULLIF(btrim(p_notes), ''), 'Transfer to ' || v_to_name), v_reference, v_user_id, v_transfer_id),
+    (v_target_id, 'transfer_in', p_quantity, v_item.unit_price, v_item.unit_price * p_quantity,
+     COALESCE(NULLIF(btrim(p_notes), ''), 'Transfer from ' || v_from_name), v_reference, v_user_id, v_transfer_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'transfer_id', v_transfer_id,
+    'reference_number', v_reference,
+    'target_item_id', v_target_id,
+    'message', format('Transferred %s x %s to %s', p_quantity, v_item.name, v_to_name)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to transfer stock'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Per-branch figures
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_branch_summary(p_date_from DATE, p_date_to DATE)
+RETURNS TABLE (
+  branch_id UUID,
+  branch_name TEXT,
+  services_count BIGINT,
+  service_revenue DECIMAL,
+  retail_revenue DECIMAL,
+  expenses DECIMAL,
+  customers_count BIGINT,
+  inventory_value DECIMAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.name,
+    (SELECT COUNT(*) FROM public.services s
+      WHERE s.branch_id = b.id AND s.status = 'completed'
+        AND s.date_time >= p_date_from AND s.date_time < p_date_to + 1),
+    (SELECT COALESCE(SUM(s.service_price), 0) FROM public.services s
+      WHERE s.branch_id = b.id AND s.status = 'completed'
+        AND s.date_time >= p_date_from AND s.date_time < p_date_to + 1),
+    (SELECT COALESCE(SUM(st.total_amount), 0) FROM public.sales_transactions st
+      WHERE st.branch_id = b.id
+        AND st.created_at >= p_date_from AND st.created_at < p_date_to + 1)
+    - (SELECT COALESCE(SUM(r.total_amount), 0) FROM public.sales_refunds r
+        JOIN public.sales_transactions st ON st.id = r.sale_id
+        WHERE st.branch_id = b.id
+          AND r.created_at >= p_date_from AND r.created_at < p_date_to + 1),
+    (SELECT COALESCE(SUM(e.amount), 0) FROM public.expenses e
+      WHERE e.branch_id = b.id AND e.date BETWEEN p_date_from AND p_date_to),
+    (SELECT COUNT(*) FROM public.customers c WHERE c.branch_id = b.id),
+    (SELECT COALESCE(SUM(i.current_stock * i.unit_price), 0) FROM public.inventory_items i WHERE i.branch_id = b.id)
+  FROM public.branches b
+  WHERE public.can_access_branch(auth.uid(), b.id)
+  ORDER BY b.created_at;
+END;
+$$;
+
+-- The drawer summary only counts takings of the drawer's own branch
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_summary(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_drawer_sessions%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_by_method JSONB;
+  v_cash_payments DECIMAL(10,2);
+  v_service_payments DECIMAL(10,2);
+  v_sale_payments DECIMAL(10,2);
+  v_deposits DECIMAL(10,2);
+  v_payments_count INTEGER;
+  v_refunds DECIMAL(10,2);
+  v_cash_refunds DECIMAL(10,2);
+  v_refunds_count INTEGER;
+  v_expenses JSONB;
+  v_paid_out DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to view the till summary';
+  END IF;
+
+  SELECT * INTO v_session FROM public.cash_drawer_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_until := COALESCE(v_session.closed_at, now());
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', m.payment_method,
+    'amount', m.amount,
+    'count', m.count
+  ) ORDER BY m.payment_method), '[]'::jsonb)
+  INTO v_by_method
+  FROM (
+    SELECT p.payment_method, SUM(p.amount) AS amount, COUNT(*) AS count
+    FROM public.payments p
+    WHERE p.branch_id = v_session.branch_id
+      AND p.created_at >= v_session.opened_at AND p.created_at < v_until
+    GROUP BY p.payment_method
+  ) m;
+
+  SELECT
+    COALESCE(SUM(p.amount) FILTER (WHERE p.payment_method = 'cash'), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.service_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.sale_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.is_deposit), 0),
+    COUNT(*)
+  INTO v_cash_payments, v_service_payments, v_sale_payments, v_deposits, v_payments_count
+  FROM public.payments p
+  WHERE p.branch_id = v_session.branch_id
+    AND p.created_at >= v_session.opened_at AND p.created_at < v_until;
+
+  -- Refunds go back the way the sale was paid, so only the cash share of each refund, taken
+  -- from the sale's tenders, leaves the till. This covers split sales paid partly in cash.
+  SELECT
+    COALESCE(SUM(r.total_amount), 0),
+    COALESCE(SUM(ROUND(r.total_amount * COALESCE(t.cash_paid / NULLIF(t.total_paid, 0), 0), 2)), 0),
+    COUNT(*)
+  INTO v_refunds, v_cash_refunds, v_refunds_count
+  FROM public.sales_refunds r
+  JOIN public.sales_transactions st ON st.id = r.sale_id
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'cash') AS cash_paid,
+      SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.sale_id = r.sale_id
+  ) t ON true
+  WHERE st.branch_id = v_session.branch_id
+    AND r.created_at >= v_session.opened_at AND r.created_at < v_until;
+
+  SELECT
+    COALESCE(SUM(e.amount), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', e.id,
+      'name', e.name,
+      'category', e.category,
+      'amount', e.amount,
+      'created_at', e.created_at
+    ) ORDER BY e.created_at), '[]'::jsonb)
+  INTO v_paid_out, v_expenses
+  FROM public.expenses e
+  WHERE e.cash_drawer_session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'session_id', v_session.id,
+    'branch_id', v_session.branch_id,
+    'branch_name', (SELECT name FROM public.branches WHERE id = v_session.branch_id),
+    'status', v_session.status,
+    'opened_at', v_session.opened_at,
+    'closed_at', v_session.closed_at,
+    'opened_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.opened_by),
+    'closed_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.closed_by),
+    'opening_float', v_session.opening_float,
+    'payments_by_method', v_by_method,
+    'payments_count', v_payments_count,
+    'service_payments', v_service_payments,
+    'sale_payments', v_sale_payments,
+    'deposits', v_deposits,
+    'cash_payments', v_cash_payments,
+    'refunds_total', v_refunds,
+    'cash_refunds', v_cash_refunds,
+    'refunds_count', v_refunds_count,
+    'paid_out_total', v_paid_out,
+    'paid_out', v_expenses,
+    'expected_cash', v_session.opening_float + v_cash_payments - v_cash_refunds - v_paid_out,
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'notes', v_session.notes
+  );
+END;
+$$;
+
+-- Opening checks for an open drawer in the user's branch only
+CREATE OR REPLACE FUNCTION public.open_cash_drawer(
+  p_opening_float DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_session_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to open the till';
+  END IF;
+
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+
+  IF NOT public.can_access_branch(v_user_id, v_branch_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this branch';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.cash_drawer_sessions WHERE status = 'open' AND branch_id = v_branch_id) THEN
+    RAISE EXCEPTION 'A cash drawer session is already open';
+  END IF;
+
+  INSERT INTO public.cash_drawer_sessions (opening_float, opened_by, notes, branch_id)
+  VALUES (p_opening_float, v_user_id, NULLIF(btrim(p_notes), ''), v_branch_id)
+  RETURNING id INTO v_session_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'session_id', v_session_id,
+    'message', 'Cash drawer opened'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to open cash drawer'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 7: Booking calendar and staff availability
+-- ============================================================================
+
+-- Both run as SECURITY DEFINER, so they filter on the worker's branch themselves
+-- instead of relying on the workers RLS policy
+CREATE OR REPLACE FUNCTION public.get_staff_bookings(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_end TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE(
+  service_id UUID,
+  staff_member_id UUID,
+  service_name TEXT,
+  service_category TEXT,
+  customer_name TEXT,
+  date_time TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER,
+  status TEXT,
+  is_own BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_is_admin BOOLEAN := get_user_role(auth.uid()) = 'admin'::app_role;
+BEGIN
+  RETURN QUERY
+  SELECT
+    b.id,
+    b.staff_member_id,
+    CASE WHEN b.is_own THEN b.service_name END,
+    CASE WHEN b.is_own THEN b.service_category END,
+    CASE WHEN b.is_own THEN b.customer_name END,
+    b.date_time,
+    b.duration_minutes,
+    b.status,
+    b.is_own
+  FROM (
+    SELECT
+      s.id,
+      s.staff_member_id,
+      s.service_name,
+      s.service_category,
+      c.name AS customer_name,
+      s.date_time,
+      s.duration_minutes,
+      s.status,
+      (s.created_by = auth.uid() OR v_is_admin) AS is_own
+    FROM public.services s
+    LEFT JOIN public.customers c ON c.id = s.customer_id
+    LEFT JOIN public.workers w ON w.id = s.staff_member_id
+    WHERE public.in_branch_scope(COALESCE(w.branch_id, s.branch_id))
+      AND s.date_time < p_end
+      AND s.date_time + make_interval(mins => s.duration_minutes) > p_start
+  ) b
+  ORDER BY b.date_time;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_available_staff(
+  p_start TIMESTAMP WITH TIME ZONE,
+  p_duration_minutes INTEGER DEFAULT 60,
+  p_exclude_service_id UUID DEFAULT NULL,
+  p_timezone TEXT DEFAULT 'UTC'
+)
+RETURNS TABLE(
+  worker_id UUID,
+  worker_name TEXT,
+  is_available BOOLEAN,
+  reason TEXT,
+  start_time TIME,
+  end_time TIME
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_worker RECORD;
+  v_hours RECORD;
+  v_local_start TIMESTAMP;
+  v_local_end TIMESTAMP;
+  v_conflict RECORD;
+BEGIN
+  v_local_start := p_start AT TIME ZONE COALESCE(p_timezone, 'UTC');
+  v_local_end := v_local_start + make_interval(mins => COALESCE(p_duration_minutes, 60));
+
+  FOR v_worker IN
+    SELECT w.id, w.name
+    FROM public.workers w
+    WHERE public.in_branch_scope(w.branch_id)
+    ORDER BY w.name
+  LOOP
+    SELECT * INTO v_hours FROM public.get_worker_hours(v_worker.id, v_local_start::DATE);
+
+    -- A worker with nothing configured for the date has no hours to check
+    -- against, so only their existing bookings can make them unavailable.
+    IF FOUND THEN
+      IF NOT v_hours.is_working THEN
+        RETURN QUERY SELECT v_worker.id, v_worker.name, false, v_hours.reason, NULL::TIME, NULL::TIME;
+        CONTINUE;
+      END IF;
+
+      IF v_local_start::TIME < v_hours.start_time
+         OR v_local_end::DATE > v_local_start::DATE
+         OR v_local_end::TIME > v_hours.end_time THEN
+        RETURN QUERY SELECT v_worker.id, v_worker.name, false,
+          'Works ' || to_char(v_hours.start_time, 'HH24:MI') || ' - ' || to_char(v_hours.end_time, 'HH24:MI'),
+          v_hours.start_time, v_hours.end_time;
+        CONTINUE;
+      END IF;
+    END IF;
+
+    SELECT * INTO v_conflict
+    FROM public.find_booking_conflicts(v_worker.id, p_start, p_duration_minutes, p_exclude_service_id)
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT v_worker.id, v_worker.name, false,
+        'Already booked at this time'::TEXT,
+        v_hours.start_time, v_hours.end_time;
+      CONTINUE;
+    END IF;
+
+    RETURN QUERY SELECT v_worker.id, v_worker.name, true, NULL::TEXT, v_hours.start_time, v_hours.end_time;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 8: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.branches TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.user_branches TO authenticated;
+GRANT SELECT ON public.user_branch_scope TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_branch(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.current_branch_id() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.in_branch_scope(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_branch_scope(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_branches(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.transfer_inventory(UUID, UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_branch_summary(DATE, DATE) TO authenticated;
+
+COMMENT ON FUNCTION public.can_access_branch IS 'Whether the user is assigned to the branch or has a full-access role';
+COMMENT ON FUNCTION public.current_branch_id IS 'Default branch for new rows: the scoped branch or the user''s first branch';
+COMMENT ON FUNCTION public.in_branch_scope IS 'Whether a row of the branch is visible in the user''s current scope';
+COMMENT ON FUNCTION public.set_branch_scope IS 'Switch the signed-in user to one branch, or null for all of their branches';
+COMMENT ON FUNCTION public.set_user_branches IS 'Admin-only replacement of a user''s branch assignments';
+COMMENT ON FUNCTION public.transfer_inventory IS 'Move stock to another branch as a paired transfer_out / transfer_in';
+COMMENT ON FUNCTION public.get_branch_summary IS 'Revenue, expenses and stock value per accessible branch for a date range';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Branches installed; existing data assigned to the first branch';
+END $$;
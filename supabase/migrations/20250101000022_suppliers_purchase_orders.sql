@@ -0,0 +1,497 @@
+-- Migration: Suppliers and purchase orders
+-- Date: 2025-01-01
+-- Description: Replaces the free-text inventory_items.supplier with a supplier directory
+--              (contacts and lead times) and adds purchase orders with lines. An order moves
+--              draft -> sent -> partially_received -> received (or cancelled). Receiving goods
+--              through receive_purchase_order writes the stock_in transactions and updates
+--              stock in one go.
+
+-- ============================================================================
+-- STEP 1: Supplier directory
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  contact_name TEXT,
+  email TEXT,
+  phone TEXT,
+  address TEXT,
+  lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_suppliers_updated_at
+BEFORE UPDATE ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.suppliers IS 'Who stock is bought from, with contacts and the usual delivery lead time';
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_items_supplier_id ON public.inventory_items(supplier_id);
+
+-- Existing free-text suppliers become directory entries
+INSERT INTO public.suppliers (name)
+SELECT DISTINCT btrim(supplier)
+FROM public.inventory_items
+WHERE NULLIF(btrim(supplier), '') IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+UPDATE public.inventory_items i
+SET supplier_id = s.id
+FROM public.suppliers s
+WHERE i.supplier_id IS NULL
+  AND s.name = btrim(i.supplier);
+
+-- The supplier column keeps the directory name for receipts and older screens
+CREATE OR REPLACE FUNCTION public.sync_item_supplier_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.supplier_id IS NOT NULL THEN
+    SELECT name INTO NEW.supplier FROM public.suppliers WHERE id = NEW.supplier_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_item_supplier_name ON public.inventory_items;
+CREATE TRIGGER sync_item_supplier_name
+BEFORE INSERT OR UPDATE OF supplier_id ON public.inventory_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_item_supplier_name();
+
+-- Renaming a supplier renames it on its items
+CREATE OR REPLACE FUNCTION public.rename_supplier_on_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE public.inventory_items SET supplier = NEW.name WHERE supplier_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rename_supplier_on_items ON public.suppliers;
+CREATE TRIGGER rename_supplier_on_items
+AFTER UPDATE OF name ON public.suppliers
+FOR EACH ROW
+EXECUTE FUNCTION public.rename_supplier_on_items();
+
+-- ============================================================================
+-- STEP 2: Purchase orders
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number TEXT NOT NULL UNIQUE,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  notes TEXT,
+  total_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (quantity_received <= quantity_ordered)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier_id ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_branch_id ON public.purchase_orders(branch_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_lines_order_id ON public.purchase_order_lines(purchase_order_id);
+
+CREATE TRIGGER update_purchase_orders_updated_at
+BEFORE UPDATE ON public.purchase_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stock received against an order points back at it
+ALTER TABLE public.inventory_transactions
+ADD COLUMN IF NOT EXISTS purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_inventory_transactions_purchase_order_id
+ON public.inventory_transactions(purchase_order_id);
+
+COMMENT ON TABLE public.purchase_orders IS 'Stock ordered from a supplier for one branch';
+COMMENT ON TABLE public.purchase_order_lines IS 'Items, quantities and costs on a purchase order, with what has arrived so far';
+
+-- Orders and suppliers show up in the activity feed
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['suppliers', 'purchase_orders']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 3: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view suppliers" ON public.suppliers
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Granted roles can manage suppliers" ON public.suppliers
+FOR ALL USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Granted roles can view purchase orders" ON public.purchase_orders
+FOR SELECT USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Rows are limited to the branch scope" ON public.purchase_orders
+AS RESTRICTIVE FOR ALL
+USING (public.in_branch_scope(branch_id))
+WITH CHECK (public.can_access_branch(auth.uid(), branch_id));
+
+-- Lines follow their order's visibility
+CREATE POLICY "Granted roles can view purchase order lines" ON public.purchase_order_lines
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.purchase_orders po WHERE po.id = purchase_order_id)
+);
+
+-- Orders and lines are only written through the RPCs below
+
+-- ============================================================================
+-- STEP 4: Order workflow
+-- ============================================================================
+
+-- Create a draft (no p_po_id) or replace a draft's supplier, dates and lines.
+-- p_lines: [{ "item_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.save_purchase_order(
+  p_supplier_id UUID,
+  p_lines JSONB,
+  p_po_id UUID DEFAULT NULL,
+  p_expected_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_supplier public.suppliers%ROWTYPE;
+  v_line JSONB;
+  v_item public.inventory_items%ROWTYPE;
+  v_quantity INTEGER;
+  v_unit_cost DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to order stock';
+  END IF;
+
+  SELECT * INTO v_supplier FROM public.suppliers WHERE id = p_supplier_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Supplier not found';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Add at least one item to the order';
+  END IF;
+
+  IF p_po_id IS NULL THEN
+    v_po.id := gen_random_uuid();
+
+    INSERT INTO public.purchase_orders (id, po_number, supplier_id, expected_date, notes, created_by)
+    VALUES (
+      v_po.id,
+      'PO-' || upper(substr(replace(v_po.id::TEXT, '-', ''), 1, 8)),
+      p_supplier_id,
+      COALESCE(p_expected_date, CURRENT_DATE + v_supplier.lead_time_days),
+      NULLIF(btrim(p_notes), ''),
+      v_user_id
+    )
+    RETURNING * INTO v_po;
+  ELSE
+    SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_po.branch_id) THEN
+      RAISE EXCEPTION 'Purchase order not found';
+    END IF;
+
+    IF v_po.status <> 'draft' THEN
+      RAISE EXCEPTION 'Only draft orders can be edited';
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = COALESCE(p_expected_date, order_date + v_supplier.lead_time_days),
+        notes = NULLIF(btrim(p_notes), '')
+    WHERE id = v_po.id;
+
+    DELETE FROM public.purchase_order_lines WHERE purchase_order_id = v_po.id;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(p_lines)
+  LOOP
+    v_quantity := (v_line->>'quantity')::INTEGER;
+    v_unit_cost := COALESCE((v_line->>'unit_cost')::DECIMAL, 0);
+
+    SELECT * INTO v_item FROM public.inventory_items WHERE id = (v_line->>'item_id')::UUID;
+
+    IF NOT FOUND OR v_item.branch_id <> v_po.branch_id THEN
+      RAISE EXCEPTION 'Item % is not stocked at this order''s branch', v_line->>'item_id';
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than zero', v_item.name;
+    END IF;
+
+    IF v_unit_cost < 0 THEN
+      RAISE EXCEPTION 'Unit cost for % cannot be negative', v_item.name;
+    END IF;
+
+    INSERT INTO public.purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_cost)
+    VALUES (v_po.id, v_item.id, v_quantity, v_unit_cost);
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET total_amount = (
+    SELECT COALESCE(SUM(quantity_ordered * unit_cost), 0)
+    FROM public.purchase_order_lines
+    WHERE purchase_order_id = v_po.id
+  )
+  WHERE id = v_po.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order_id', v_po.id,
+    'po_number', v_po.po_number,
+    'message', format('Purchase order %s saved', v_po.po_number)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to save purchase order'
+    );
+END;
+$$;
+
+-- draft -> sent, and draft/sent -> cancelled. Receiving moves the order on from sent.
+CREATE OR REPLACE FUNCTION public.update_purchase_order_status(p_po_id UUID, p_status TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to update orders';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_po.branch_id) THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF p_status = 'sent' AND v_po.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft orders can be sent';
+  ELSIF p_status = 'cancelled' AND v_po.status NOT IN ('draft', 'sent') THEN
+    RAISE EXCEPTION 'Orders that have started arriving cannot be cancelled';
+  ELSIF p_status NOT IN ('sent', 'cancelled') THEN
+    RAISE EXCEPTION 'Orders cannot be set to % directly', p_status;
+  END IF;
+
+  UPDATE public.purchase_orders
+  SET status = p_status,
+      sent_at = CASE WHEN p_status = 'sent' THEN now() ELSE sent_at END
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order_id', p_po_id,
+    'status', p_status,
+    'message', format('%s marked %s', v_po.po_number, p_status)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update purchase order'
+    );
+END;
+$$;
+
+-- Book in delivered goods. p_lines: [{ "line_id": uuid, "quantity": int }]
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_line JSONB;
+  v_po_line public.purchase_order_lines%ROWTYPE;
+  v_quantity INTEGER;
+  v_units INTEGER := 0;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to receive stock';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_po.branch_id) THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent orders can be received';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_po_line
+    FROM public.purchase_order_lines
+    WHERE id = (v_line->>'line_id')::UUID AND purchase_order_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on this order', v_line->>'line_id';
+    END IF;
+
+    IF v_quantity < 0 OR v_po_line.quantity_received + v_quantity > v_po_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % still to receive for one of the lines',
+        v_po_line.quantity_ordered - v_po_line.quantity_received;
+    END IF;
+
+    UPDATE public.purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_po_line.id;
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock + v_quantity
+    WHERE id = v_po_line.item_id;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, transaction_type, quantity, unit_price, total_amount,
+      reason, reference_number, created_by, purchase_order_id
+    )
+    VALUES (
+      v_po_line.item_id, 'stock_in', v_quantity, v_po_line.unit_cost, v_po_line.unit_cost * v_quantity,
+      COALESCE(NULLIF(btrim(p_notes), ''), 'Received on ' || v_po.po_number),
+      v_po.po_number, v_user_id, p_po_id
+    );
+
+    v_units := v_units + v_quantity;
+  END LOOP;
+
+  IF v_units = 0 THEN
+    RAISE EXCEPTION 'Enter the quantities that arrived';
+  END IF;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = p_po_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE public.purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN now() ELSE received_at END
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order_id', p_po_id,
+    'status', v_status,
+    'units_received', v_units,
+    'message', format('Received %s unit(s) on %s', v_units, v_po.po_number)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to receive purchase order'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.suppliers TO authenticated;
+GRANT SELECT ON public.purchase_orders TO authenticated;
+GRANT SELECT ON public.purchase_order_lines TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_purchase_order(UUID, JSONB, UUID, DATE, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_purchase_order_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.sync_item_supplier_name IS 'Keeps inventory_items.supplier equal to the linked supplier''s name';
+COMMENT ON FUNCTION public.save_purchase_order IS 'Create a draft purchase order or replace a draft''s lines';
+COMMENT ON FUNCTION public.update_purchase_order_status IS 'Send or cancel a purchase order';
+COMMENT ON FUNCTION public.receive_purchase_order IS 'Book in delivered quantities as stock_in transactions and advance the order status';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Suppliers and purchase orders installed; free-text suppliers migrated to the directory';
+END $$;
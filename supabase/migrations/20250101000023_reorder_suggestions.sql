@@ -0,0 +1,255 @@
+-- Migration: Reorder suggestions
+-- Date: 2025-01-01
+-- Description: Derives each item's daily consumption from the products used on completed
+--              services and from other stock_out transactions (retail sales, manual
+--              removals), then compares stock plus open orders with a reorder point of
+--              lead-time demand on top of min_stock_level. Items at or below it get a
+--              suggested quantity that refills them to max_stock_level. Admins can turn
+--              suggestions into draft purchase orders, one per supplier and branch.
+
+-- ============================================================================
+-- STEP 1: Suggestions
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(p_lookback_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  item_id UUID,
+  item_name TEXT,
+  branch_id UUID,
+  supplier_id UUID,
+  supplier_name TEXT,
+  lead_time_days INTEGER,
+  current_stock INTEGER,
+  min_stock_level INTEGER,
+  max_stock_level INTEGER,
+  on_order INTEGER,
+  consumed_quantity INTEGER,
+  daily_usage DECIMAL,
+  days_of_inventory DECIMAL,
+  reorder_point INTEGER,
+  suggested_quantity INTEGER,
+  unit_cost DECIMAL,
+  needs_reorder BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER := GREATEST(COALESCE(p_lookback_days, 30), 1);
+  v_since TIMESTAMP WITH TIME ZONE := now() - make_interval(days => GREATEST(COALESCE(p_lookback_days, 30), 1));
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to view reorder suggestions';
+  END IF;
+
+  RETURN QUERY
+  WITH service_usage AS (
+    -- Products used on services completed in the window
+    SELECT sp.inventory_item_id AS item_id, SUM(sp.quantity)::INTEGER AS quantity
+    FROM public.service_products sp
+    JOIN public.services s ON s.id = sp.service_id
+    WHERE s.status = 'completed'
+      AND s.date_time >= v_since
+    GROUP BY sp.inventory_item_id
+  ),
+  other_usage AS (
+    -- Service deductions are already counted above
+    SELECT t.item_id, SUM(t.quantity)::INTEGER AS quantity
+    FROM public.inventory_transactions t
+    WHERE t.transaction_type = 'stock_out'
+      AND t.transaction_date >= v_since
+      AND COALESCE(t.reference_number, '') NOT LIKE 'SERVICE-%'
+    GROUP BY t.item_id
+  ),
+  open_orders AS (
+    SELECT l.item_id, SUM(l.quantity_ordered - l.quantity_received)::INTEGER AS quantity
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status IN ('draft', 'sent', 'partially_received')
+    GROUP BY l.item_id
+  ),
+  last_costs AS (
+    SELECT DISTINCT ON (l.item_id) l.item_id, l.unit_cost
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status <> 'cancelled'
+    ORDER BY l.item_id, po.order_date DESC, l.created_at DESC
+  ),
+  usage AS (
+    SELECT
+      i.id,
+      i.name,
+      i.branch_id,
+      i.supplier_id,
+      sup.name AS supplier_name,
+      COALESCE(sup.lead_time_days, 7) AS lead_time_days,
+      i.current_stock,
+      i.min_stock_level,
+      i.max_stock_level,
+      COALESCE(oo.quantity, 0) AS on_order,
+      COALESCE(su.quantity, 0) + COALESCE(ou.quantity, 0) AS consumed,
+      (COALESCE(su.quantity, 0) + COALESCE(ou.quantity, 0))::DECIMAL / v_days AS daily_usage,
+      COALESCE(lc.unit_cost, i.unit_price) AS unit_cost
+    FROM public.inventory_items i
+    LEFT JOIN public.suppliers sup ON sup.id = i.supplier_id
+    LEFT JOIN service_usage su ON su.item_id = i.id
+    LEFT JOIN other_usage ou ON ou.item_id = i.id
+    LEFT JOIN open_orders oo ON oo.item_id = i.id
+    LEFT JOIN last_costs lc ON lc.item_id = i.id
+    WHERE public.in_branch_scope(i.branch_id)
+  ),
+  points AS (
+    SELECT
+      u.*,
+      -- Demand while an order is on its way, on top of the safety level
+      (CEIL(u.daily_usage * u.lead_time_days) + u.min_stock_level)::INTEGER AS reorder_point
+    FROM usage u
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.branch_id,
+    p.supplier_id,
+    p.supplier_name,
+    p.lead_time_days,
+    p.current_stock,
+    p.min_stock_level,
+    p.max_stock_level,
+    p.on_order,
+    p.consumed,
+    ROUND(p.daily_usage, 2),
+    CASE WHEN p.daily_usage > 0 THEN ROUND(p.current_stock / p.daily_usage, 1) END,
+    p.reorder_point,
+    CASE
+      WHEN p.current_stock + p.on_order <= p.reorder_point THEN
+        -- Refill to the maximum; when the maximum is below the reorder point, cover another lead time
+        GREATEST(
+          GREATEST(p.max_stock_level, p.reorder_point + CEIL(p.daily_usage * p.lead_time_days)::INTEGER)
+            - p.current_stock - p.on_order,
+          1
+        )
+      ELSE 0
+    END,
+    p.unit_cost,
+    p.current_stock + p.on_order <= p.reorder_point
+  FROM points p
+  ORDER BY (p.current_stock + p.on_order <= p.reorder_point) DESC,
+           CASE WHEN p.daily_usage > 0 THEN p.current_stock / p.daily_usage END ASC NULLS LAST,
+           p.name;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 2: Suggestions to draft purchase orders
+-- ============================================================================
+
+-- p_lines: [{ "item_id": uuid, "quantity": int, "unit_cost": number }]
+-- Lines are grouped into one draft per supplier and branch; items without a supplier are skipped.
+CREATE OR REPLACE FUNCTION public.create_reorder_purchase_orders(p_lines JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_group RECORD;
+  v_po_id UUID;
+  v_po_number TEXT;
+  v_orders JSONB := '[]'::JSONB;
+  v_skipped INTEGER;
+BEGIN
+  IF public.get_user_role(v_user_id) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can create orders from suggestions';
+  END IF;
+
+  IF p_lines IS NULL OR jsonb_array_length(p_lines) = 0 THEN
+    RAISE EXCEPTION 'Select at least one suggestion';
+  END IF;
+
+  SELECT jsonb_array_length(p_lines) - COUNT(*)
+  INTO v_skipped
+  FROM jsonb_array_elements(p_lines) l
+  JOIN public.inventory_items i ON i.id = (l->>'item_id')::UUID
+  WHERE (l->>'quantity')::INTEGER > 0
+    AND i.supplier_id IS NOT NULL
+    AND public.can_access_branch(v_user_id, i.branch_id);
+
+  FOR v_group IN
+    SELECT i.supplier_id, i.branch_id, s.name AS supplier_name, s.lead_time_days
+    FROM jsonb_array_elements(p_lines) l
+    JOIN public.inventory_items i ON i.id = (l->>'item_id')::UUID
+    JOIN public.suppliers s ON s.id = i.supplier_id
+    WHERE (l->>'quantity')::INTEGER > 0
+      AND public.can_access_branch(v_user_id, i.branch_id)
+    GROUP BY i.supplier_id, i.branch_id, s.name, s.lead_time_days
+  LOOP
+    v_po_id := gen_random_uuid();
+    v_po_number := 'PO-' || upper(substr(replace(v_po_id::TEXT, '-', ''), 1, 8));
+
+    INSERT INTO public.purchase_orders (id, po_number, supplier_id, branch_id, expected_date, notes, created_by)
+    VALUES (
+      v_po_id, v_po_number, v_group.supplier_id, v_group.branch_id,
+      CURRENT_DATE + v_group.lead_time_days, 'Created from reorder suggestions', v_user_id
+    );
+
+    INSERT INTO public.purchase_order_lines (purchase_order_id, item_id, quantity_ordered, unit_cost)
+    SELECT v_po_id, i.id, (l->>'quantity')::INTEGER, COALESCE((l->>'unit_cost')::DECIMAL, i.unit_price)
+    FROM jsonb_array_elements(p_lines) l
+    JOIN public.inventory_items i ON i.id = (l->>'item_id')::UUID
+    WHERE (l->>'quantity')::INTEGER > 0
+      AND i.supplier_id = v_group.supplier_id
+      AND i.branch_id = v_group.branch_id;
+
+    UPDATE public.purchase_orders
+    SET total_amount = (
+      SELECT COALESCE(SUM(quantity_ordered * unit_cost), 0)
+      FROM public.purchase_order_lines
+      WHERE purchase_order_id = v_po_id
+    )
+    WHERE id = v_po_id;
+
+    v_orders := v_orders || jsonb_build_object(
+      'purchase_order_id', v_po_id,
+      'po_number', v_po_number,
+      'supplier_name', v_group.supplier_name
+    );
+  END LOOP;
+
+  IF jsonb_array_length(v_orders) = 0 THEN
+    RAISE EXCEPTION 'None of the selected items has a supplier';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'orders', v_orders,
+    'skipped', v_skipped,
+    'message', format('Created %s draft order(s)', jsonb_array_length(v_orders))
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to create purchase orders'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Permissions
+-- ============================================================================
+
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.create_reorder_purchase_orders(JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.get_reorder_suggestions IS 'Daily usage, days of stock, reorder point and suggested order quantity per item in the branch scope';
+COMMENT ON FUNCTION public.create_reorder_purchase_orders IS 'Admin-only: turn reorder suggestions into draft purchase orders per supplier and branch';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Reorder suggestions installed';
+END $$;
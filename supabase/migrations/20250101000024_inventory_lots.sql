@@ -0,0 +1,702 @@
+-- Migration: Batch/lot tracking
+-- Date: 2025-01-01
+-- Description: Stock is held in lots, each with its own quantity, expiry date and cost, so a
+--              restock no longer overwrites the expiry of what is already on the shelf. Lots
+--              follow inventory_transactions: stock_in opens a lot, and stock_out (service
+--              completion, cart checkout, manual removals) and transfer_out consume lots
+--              first-expiry-first-out. Transfers carry lot numbers and expiry dates to the
+--              other branch, returns go back into the lot they were sold from, and expired
+--              lots are cleared with write_off transactions. inventory_items.expiry_date now
+--              shows the earliest expiry still in stock.
+
+-- ============================================================================
+-- STEP 1: Lot tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.inventory_lots (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  item_id UUID REFERENCES public.inventory_items(id) ON DELETE CASCADE NOT NULL,
+  branch_id UUID REFERENCES public.branches(id) NOT NULL,
+  lot_number TEXT NOT NULL,
+  expiry_date DATE,
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  quantity_received INTEGER NOT NULL CHECK (quantity_received >= 0),
+  quantity_remaining INTEGER NOT NULL CHECK (quantity_remaining >= 0),
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_fefo
+ON public.inventory_lots(item_id, expiry_date, received_at) WHERE quantity_remaining > 0;
+CREATE INDEX IF NOT EXISTS idx_inventory_lots_branch_id ON public.inventory_lots(branch_id);
+
+DROP TRIGGER IF EXISTS update_inventory_lots_updated_at ON public.inventory_lots;
+CREATE TRIGGER update_inventory_lots_updated_at
+BEFORE UPDATE ON public.inventory_lots
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Which lots each outgoing movement drew from. The transaction row is written after its
+-- BEFORE trigger records the consumption, hence the deferred key.
+CREATE TABLE IF NOT EXISTS public.inventory_lot_consumptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  transaction_id UUID NOT NULL REFERENCES public.inventory_transactions(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+  lot_id UUID NOT NULL REFERENCES public.inventory_lots(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_lot_consumptions_transaction_id ON public.inventory_lot_consumptions(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_inventory_lot_consumptions_lot_id ON public.inventory_lot_consumptions(lot_id);
+
+ALTER TABLE public.inventory_transactions
+ADD COLUMN IF NOT EXISTS lot_id UUID REFERENCES public.inventory_lots(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS lot_number TEXT,
+ADD COLUMN IF NOT EXISTS expiry_date DATE;
+
+COMMENT ON COLUMN public.inventory_transactions.lot_id IS 'Lot opened by a stock_in, or the single lot a return or write_off applies to';
+COMMENT ON COLUMN public.inventory_transactions.lot_number IS 'Supplier lot number given when stock is received';
+COMMENT ON COLUMN public.inventory_transactions.expiry_date IS 'Expiry date given when stock is received';
+
+ALTER TABLE public.inventory_transactions
+DROP CONSTRAINT IF EXISTS inventory_transactions_transaction_type_check;
+
+ALTER TABLE public.inventory_transactions
+ADD CONSTRAINT inventory_transactions_transaction_type_check
+CHECK (transaction_type IN ('stock_in', 'stock_out', 'adjustment', 'transfer_in', 'transfer_out', 'write_off'));
+
+-- ============================================================================
+-- STEP 2: Opening lots for stock on hand
+-- ============================================================================
+
+INSERT INTO public.inventory_lots (
+  item_id, branch_id, lot_number, expiry_date, unit_cost, quantity_received, quantity_remaining, created_by
+)
+SELECT
+  i.id, i.branch_id, 'OPENING', i.expiry_date, i.unit_price, i.current_stock, i.current_stock, i.created_by
+FROM public.inventory_items i
+WHERE i.current_stock > 0
+  AND NOT EXISTS (SELECT 1 FROM public.inventory_lots l WHERE l.item_id = i.id);
+
+-- New items start with one lot holding their opening stock
+CREATE OR REPLACE FUNCTION public.create_opening_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_stock > 0 THEN
+    INSERT INTO public.inventory_lots (
+      item_id, branch_id, lot_number, expiry_date, unit_cost, quantity_received, quantity_remaining, created_by
+    )
+    VALUES (
+      NEW.id, NEW.branch_id, 'OPENING', NEW.expiry_date, NEW.unit_price, NEW.current_stock, NEW.current_stock, NEW.created_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS create_inventory_item_opening_lot ON public.inventory_items;
+CREATE TRIGGER create_inventory_item_opening_lot
+AFTER INSERT ON public.inventory_items
+FOR EACH ROW EXECUTE FUNCTION public.create_opening_lot();
+
+-- ============================================================================
+-- STEP 3: Lots follow stock movements
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_to_lots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.inventory_items%ROWTYPE;
+  v_lot public.inventory_lots%ROWTYPE;
+  v_source RECORD;
+  v_left INTEGER := NEW.quantity;
+  v_take INTEGER;
+  v_lot_id UUID;
+BEGIN
+  SELECT * INTO v_item FROM public.inventory_items WHERE id = NEW.item_id;
+
+  IF NEW.transaction_type IN ('stock_in', 'transfer_in') THEN
+    IF NEW.lot_id IS NOT NULL THEN
+      -- Returns go back into the lot they came from
+      UPDATE public.inventory_lots
+      SET quantity_remaining = quantity_remaining + NEW.quantity
+      WHERE id = NEW.lot_id AND item_id = NEW.item_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The lot does not belong to this item';
+      END IF;
+
+      v_left := 0;
+    ELSIF NEW.transaction_type = 'transfer_in' AND NEW.transfer_id IS NOT NULL THEN
+      -- Transferred stock keeps the lot numbers and expiry dates it left with
+      FOR v_source IN
+        SELECT l.lot_number, l.expiry_date, l.unit_cost, l.received_at, SUM(c.quantity)::INTEGER AS quantity
+        FROM public.inventory_transactions t
+        JOIN public.inventory_lot_consumptions c ON c.transaction_id = t.id
+        JOIN public.inventory_lots l ON l.id = c.lot_id
+        WHERE t.transfer_id = NEW.transfer_id AND t.transaction_type = 'transfer_out'
+        GROUP BY l.id, l.lot_number, l.expiry_date, l.unit_cost, l.received_at
+        ORDER BY l.expiry_date ASC NULLS LAST
+      LOOP
+        v_take := LEAST(v_source.quantity, v_left);
+        EXIT WHEN v_take <= 0;
+
+        INSERT INTO public.inventory_lots (
+          item_id, branch_id, lot_number, expiry_date, unit_cost,
+          quantity_received, quantity_remaining, received_at, created_by
+        )
+        VALUES (
+          NEW.item_id, v_item.branch_id, v_source.lot_number, v_source.expiry_date, v_source.unit_cost,
+          v_take, v_take, v_source.received_at, NEW.created_by
+        );
+
+        v_left := v_left - v_take;
+      END LOOP;
+    END IF;
+
+    -- Newly received stock, or transferred units that were never in a lot
+    IF v_left > 0 THEN
+      INSERT INTO public.inventory_lots (
+        item_id, branch_id, lot_number, expiry_date, unit_cost,
+        quantity_received, quantity_remaining, purchase_order_id, created_by
+      )
+      VALUES (
+        NEW.item_id,
+        v_item.branch_id,
+        COALESCE(NULLIF(btrim(NEW.lot_number), ''), 'LOT-' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8))),
+        NEW.expiry_date,
+        COALESCE(NEW.unit_price, v_item.unit_price, 0),
+        v_left,
+        v_left,
+        NEW.purchase_order_id,
+        NEW.created_by
+      )
+      RETURNING id INTO v_lot_id;
+
+      IF v_left = NEW.quantity THEN
+        NEW.lot_id := v_lot_id;
+      END IF;
+    END IF;
+
+  ELSIF NEW.transaction_type IN ('stock_out', 'transfer_out', 'write_off') THEN
+    IF NEW.lot_id IS NOT NULL THEN
+      UPDATE public.inventory_lots
+      SET quantity_remaining = quantity_remaining - NEW.quantity
+      WHERE id = NEW.lot_id AND item_id = NEW.item_id AND quantity_remaining >= NEW.quantity;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not enough left in the selected lot of "%"', v_item.name;
+      END IF;
+
+      INSERT INTO public.inventory_lot_consumptions (transaction_id, lot_id, quantity)
+      VALUES (NEW.id, NEW.lot_id, NEW.quantity);
+    ELSIF NEW.transaction_type = 'write_off' THEN
+      RAISE EXCEPTION 'Choose the lot to write off';
+    ELSE
+      -- First expiry, first out. Expired lots wait for a write-off; lots without a date go last.
+      FOR v_lot IN
+        SELECT *
+        FROM public.inventory_lots
+        WHERE item_id = NEW.item_id
+          AND quantity_remaining > 0
+          AND (expiry_date IS NULL OR expiry_date >= CURRENT_DATE)
+        ORDER BY expiry_date ASC NULLS LAST, received_at ASC
+        FOR UPDATE
+      LOOP
+        EXIT WHEN v_left = 0;
+        v_take := LEAST(v_lot.quantity_remaining, v_left);
+
+        UPDATE public.inventory_lots
+        SET quantity_remaining = quantity_remaining - v_take
+        WHERE id = v_lot.id;
+
+        INSERT INTO public.inventory_lot_consumptions (transaction_id, lot_id, quantity)
+        VALUES (NEW.id, v_lot.id, v_take);
+
+        v_left := v_left - v_take;
+      END LOOP;
+
+      IF v_left > 0 AND EXISTS (
+        SELECT 1 FROM public.inventory_lots
+        WHERE item_id = NEW.item_id AND quantity_remaining > 0 AND expiry_date < CURRENT_DATE
+      ) THEN
+        RAISE EXCEPTION 'Only expired stock of "%" is left. Write it off before using more', v_item.name;
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE public.inventory_items i
+  SET expiry_date = l.earliest
+  FROM (
+    SELECT MIN(expiry_date) AS earliest
+    FROM public.inventory_lots
+    WHERE item_id = NEW.item_id AND quantity_remaining > 0
+  ) l
+  WHERE i.id = NEW.item_id
+    AND i.expiry_date IS DISTINCT FROM l.earliest;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS apply_inventory_transaction_to_lots ON public.inventory_transactions;
+CREATE TRIGGER apply_inventory_transaction_to_lots
+BEFORE INSERT ON public.inventory_transactions
+FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_to_lots();
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.inventory_lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.inventory_lot_consumptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view lots" ON public.inventory_lots
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Rows are limited to the branch scope" ON public.inventory_lots
+AS RESTRICTIVE FOR ALL
+USING (public.in_branch_scope(branch_id))
+WITH CHECK (public.can_access_branch(auth.uid(), branch_id));
+
+-- Consumptions follow their lot's visibility
+CREATE POLICY "Authenticated users can view lot consumptions" ON public.inventory_lot_consumptions
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.inventory_lots l WHERE l.id = lot_id)
+);
+
+-- Lots are only written by the triggers above and the RPCs below
+
+-- ============================================================================
+-- STEP 5: Write-offs
+-- ============================================================================
+
+-- Without p_lot_ids every expired lot in the branch scope is written off
+CREATE OR REPLACE FUNCTION public.write_off_lots(
+  p_lot_ids UUID[] DEFAULT NULL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_lot RECORD;
+  v_reference TEXT := 'WO-' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+  v_lots INTEGER := 0;
+  v_units INTEGER := 0;
+  v_value DECIMAL(10,2) := 0;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to write off stock';
+  END IF;
+
+  FOR v_lot IN
+    SELECT l.*
+    FROM public.inventory_lots l
+    WHERE l.quantity_remaining > 0
+      AND public.in_branch_scope(l.branch_id)
+      AND CASE
+        WHEN p_lot_ids IS NULL THEN l.expiry_date < CURRENT_DATE
+        ELSE l.id = ANY(p_lot_ids)
+      END
+    ORDER BY l.expiry_date
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.inventory_transactions (
+      item_id, transaction_type, quantity, unit_price, total_amount,
+      reason, reference_number, created_by, lot_id
+    )
+    VALUES (
+      v_lot.item_id, 'write_off', v_lot.quantity_remaining, v_lot.unit_cost,
+      v_lot.unit_cost * v_lot.quantity_remaining,
+      COALESCE(
+        NULLIF(btrim(p_reason), ''),
+        CASE
+          WHEN v_lot.expiry_date < CURRENT_DATE THEN format('Lot %s expired on %s', v_lot.lot_number, v_lot.expiry_date)
+          ELSE format('Lot %s written off', v_lot.lot_number)
+        END
+      ),
+      v_reference, v_user_id, v_lot.id
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = GREATEST(current_stock - v_lot.quantity_remaining, 0)
+    WHERE id = v_lot.item_id;
+
+    v_lots := v_lots + 1;
+    v_units := v_units + v_lot.quantity_remaining;
+    v_value := v_value + v_lot.unit_cost * v_lot.quantity_remaining;
+  END LOOP;
+
+  IF v_lots = 0 THEN
+    RAISE EXCEPTION '%', CASE WHEN p_lot_ids IS NULL THEN 'There are no expired lots to write off' ELSE 'Nothing is left in the selected lots' END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reference_number', v_reference,
+    'lots_written_off', v_lots,
+    'units', v_units,
+    'total_value', v_value,
+    'message', format('Wrote off %s unit(s) from %s lot(s)', v_units, v_lots)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to write off stock'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Receiving and returns with lots
+-- ============================================================================
+
+-- p_lines: [{ "line_id": uuid, "quantity": int, "lot_number": text, "expiry_date": date }]
+-- Each received line opens a lot with the supplier's lot number and expiry date.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  p_po_id UUID,
+  p_lines JSONB,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_po public.purchase_orders%ROWTYPE;
+  v_line JSONB;
+  v_po_line public.purchase_order_lines%ROWTYPE;
+  v_quantity INTEGER;
+  v_units INTEGER := 0;
+  v_status TEXT;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to receive stock';
+  END IF;
+
+  SELECT * INTO v_po FROM public.purchase_orders WHERE id = p_po_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_po.branch_id) THEN
+    RAISE EXCEPTION 'Purchase order not found';
+  END IF;
+
+  IF v_po.status NOT IN ('sent', 'partially_received') THEN
+    RAISE EXCEPTION 'Only sent orders can be received';
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_lines, '[]'::JSONB))
+  LOOP
+    v_quantity := COALESCE((v_line->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN v_quantity = 0;
+
+    SELECT * INTO v_po_line
+    FROM public.purchase_order_lines
+    WHERE id = (v_line->>'line_id')::UUID AND purchase_order_id = p_po_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on this order', v_line->>'line_id';
+    END IF;
+
+    IF v_quantity < 0 OR v_po_line.quantity_received + v_quantity > v_po_line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % still to receive for one of the lines',
+        v_po_line.quantity_ordered - v_po_line.quantity_received;
+    END IF;
+
+    UPDATE public.purchase_order_lines
+    SET quantity_received = quantity_received + v_quantity
+    WHERE id = v_po_line.id;
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock + v_quantity
+    WHERE id = v_po_line.item_id;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, transaction_type, quantity, unit_price, total_amount,
+      reason, reference_number, created_by, purchase_order_id, lot_number, expiry_date
+    )
+    VALUES (
+      v_po_line.item_id, 'stock_in', v_quantity, v_po_line.unit_cost, v_po_line.unit_cost * v_quantity,
+      COALESCE(NULLIF(btrim(p_notes), ''), 'Received on ' || v_po.po_number),
+      v_po.po_number, v_user_id, p_po_id,
+      NULLIF(btrim(v_line->>'lot_number'), ''), NULLIF(v_line->>'expiry_date', '')::DATE
+    );
+
+    v_units := v_units + v_quantity;
+  END LOOP;
+
+  IF v_units = 0 THEN
+    RAISE EXCEPTION 'Enter the quantities that arrived';
+  END IF;
+
+  v_status := CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public.purchase_order_lines
+      WHERE purchase_order_id = p_po_id AND quantity_received < quantity_ordered
+    ) THEN 'partially_received'
+    ELSE 'received'
+  END;
+
+  UPDATE public.purchase_orders
+  SET status = v_status,
+      received_at = CASE WHEN v_status = 'received' THEN now() ELSE received_at END
+  WHERE id = p_po_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order_id', p_po_id,
+    'status', v_status,
+    'units_received', v_units,
+    'message', format('Received %s unit(s) on %s', v_units, v_po.po_number)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to receive purchase order'
+    );
+END;
+$$;
+
+-- Same as before, except restocked units return to the lot they were sold from
+CREATE OR REPLACE FUNCTION public.process_sale_refund(
+  p_sale_id UUID,
+  p_reason TEXT,
+  p_items JSONB DEFAULT '[]'::jsonb,
+  p_void BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_sale RECORD;
+  v_line RECORD;
+  v_item JSONB;
+  v_quantity INTEGER;
+  v_restock BOOLEAN;
+  v_refund_id UUID;
+  v_reference TEXT;
+  v_total DECIMAL(10,2) := 0;
+  v_count INTEGER := 0;
+  v_remaining INTEGER;
+  v_refund_type TEXT;
+  v_new_status TEXT;
+  v_lot_id UUID;
+BEGIN
+  IF v_user_id IS NULL OR public.get_user_role(v_user_id) <> 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only an admin can approve refunds';
+  END IF;
+
+  IF p_reason IS NULL OR btrim(p_reason) = '' THEN
+    RAISE EXCEPTION 'A refund reason is required';
+  END IF;
+
+  SELECT * INTO v_sale
+  FROM public.sales_transactions
+  WHERE id = p_sale_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  IF v_sale.status IN ('cancelled', 'refunded') THEN
+    RAISE EXCEPTION 'This sale has already been %', v_sale.status;
+  END IF;
+
+  IF NOT p_void AND (p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0) THEN
+    RAISE EXCEPTION 'Select at least one item to refund';
+  END IF;
+
+  v_reference := 'REF-' || upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+
+  INSERT INTO public.sales_refunds (
+    sale_id, refund_type, reason, total_amount, items_count, reference_number, approved_by, created_by
+  ) VALUES (
+    p_sale_id, CASE WHEN p_void THEN 'void' ELSE 'partial' END, btrim(p_reason), 0, 0, v_reference, v_user_id, v_user_id
+  ) RETURNING id INTO v_refund_id;
+
+  IF p_void THEN
+    -- Build the item list from every line that still has units outstanding
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'sales_item_id', si.id,
+      'quantity', si.quantity - si.refunded_quantity,
+      'restock', true
+    )), '[]'::jsonb)
+    INTO p_items
+    FROM public.sales_items si
+    WHERE si.sale_id = p_sale_id
+      AND si.quantity > si.refunded_quantity;
+  END IF;
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+    v_restock := COALESCE((v_item->>'restock')::BOOLEAN, true);
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    SELECT * INTO v_line
+    FROM public.sales_items
+    WHERE id = (v_item->>'sales_item_id')::UUID
+      AND sale_id = p_sale_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item does not belong to this sale';
+    END IF;
+
+    IF v_quantity > v_line.quantity - v_line.refunded_quantity THEN
+      RAISE EXCEPTION 'Cannot refund % of "%". Only % left to refund',
+        v_quantity, v_line.item_name, v_line.quantity - v_line.refunded_quantity;
+    END IF;
+
+    INSERT INTO public.sales_refund_items (
+      refund_id, sales_item_id, inventory_item_id, item_name, unit_price, quantity, total_price, restocked
+    ) VALUES (
+      v_refund_id, v_line.id, v_line.inventory_item_id, v_line.item_name, v_line.unit_price,
+      v_quantity, v_line.unit_price * v_quantity, v_restock
+    );
+
+    UPDATE public.sales_items
+    SET refunded_quantity = refunded_quantity + v_quantity
+    WHERE id = v_line.id;
+
+    IF v_restock THEN
+      -- Back into a lot the sale drew from, the latest-expiring one first
+      SELECT c.lot_id INTO v_lot_id
+      FROM public.inventory_transactions t
+      JOIN public.inventory_lot_consumptions c ON c.transaction_id = t.id
+      JOIN public.inventory_lots l ON l.id = c.lot_id
+      WHERE t.item_id = v_line.inventory_item_id
+        AND t.transaction_type = 'stock_out'
+        AND t.reference_number = v_sale.reference_number
+      ORDER BY l.expiry_date DESC NULLS FIRST
+      LIMIT 1;
+
+      INSERT INTO public.inventory_transactions (
+        item_id,
+        transaction_type,
+        quantity,
+        unit_price,
+        total_amount,
+        reason,
+        reference_number,
+        created_by,
+        lot_id
+      ) VALUES (
+        v_line.inventory_item_id,
+        'stock_in',
+        v_quantity,
+        v_line.unit_price,
+        v_line.unit_price * v_quantity,
+        CASE WHEN p_void THEN 'Void of sale to ' ELSE 'Return from ' END || v_sale.customer_name || ': ' || btrim(p_reason),
+        v_reference,
+        v_user_id,
+        v_lot_id
+      );
+
+      UPDATE public.inventory_items
+      SET current_stock = current_stock + v_quantity
+      WHERE id = v_line.inventory_item_id;
+    END IF;
+
+    v_total := v_total + v_line.unit_price * v_quantity;
+    v_count := v_count + v_quantity;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nothing left to refund on this sale';
+  END IF;
+
+  SELECT COALESCE(SUM(quantity - refunded_quantity), 0) INTO v_remaining
+  FROM public.sales_items
+  WHERE sale_id = p_sale_id;
+
+  IF p_void THEN
+    v_refund_type := 'void';
+    v_new_status := 'cancelled';
+  ELSIF v_remaining = 0 THEN
+    v_refund_type := 'full';
+    v_new_status := 'refunded';
+  ELSE
+    v_refund_type := 'partial';
+    v_new_status := v_sale.status;
+  END IF;
+
+  UPDATE public.sales_refunds
+  SET refund_type = v_refund_type,
+      total_amount = v_total,
+      items_count = v_count
+  WHERE id = v_refund_id;
+
+  UPDATE public.sales_transactions
+  SET status = v_new_status
+  WHERE id = p_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'refund_id', v_refund_id,
+    'refund_type', v_refund_type,
+    'reference_number', v_reference,
+    'total_amount', v_total,
+    'items_count', v_count,
+    'sale_status', v_new_status,
+    'created_at', now(),
+    'message', CASE WHEN p_void THEN 'Sale voided successfully' ELSE 'Refund processed successfully' END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process refund'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 7: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.inventory_lots TO authenticated;
+GRANT SELECT ON public.inventory_lot_consumptions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.write_off_lots(UUID[], TEXT) TO authenticated;
+
+COMMENT ON TABLE public.inventory_lots IS 'Stock received together: quantity left, expiry date and unit cost';
+COMMENT ON TABLE public.inventory_lot_consumptions IS 'Lots drawn on by each outgoing inventory transaction';
+COMMENT ON FUNCTION public.apply_transaction_to_lots IS 'Opens lots for incoming stock and consumes lots first-expiry-first-out for outgoing stock';
+COMMENT ON FUNCTION public.write_off_lots IS 'Write off the given lots, or every expired lot in the branch scope';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Inventory lots installed; stock on hand moved into opening lots';
+END $$;
@@ -0,0 +1,430 @@
+-- Migration: Stocktake sessions
+-- Date: 2025-01-01
+-- Description: Physical counts that reconcile current_stock with the shelf. Starting a
+--              stocktake snapshots the expected quantity and unit price of every item in the
+--              branch. Staff enter counted quantities, an admin reviews the variances and posts
+--              the approved ones as adjustment transactions (signed quantity: negative for
+--              shrinkage). Posted sessions keep their lines for shrinkage reporting.
+
+-- ============================================================================
+-- STEP 1: Stocktake tables
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.stocktakes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference TEXT NOT NULL UNIQUE,
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  status TEXT NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'posted', 'cancelled')),
+  notes TEXT,
+  started_by UUID REFERENCES auth.users(id),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  posted_by UUID REFERENCES auth.users(id),
+  posted_at TIMESTAMP WITH TIME ZONE,
+  variance_units INTEGER NOT NULL DEFAULT 0,
+  variance_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.stocktakes.variance_value IS 'Net value of the posted adjustments at the snapshot unit prices; negative for shrinkage';
+
+-- One count at a time per branch
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stocktakes_single_counting
+ON public.stocktakes(branch_id) WHERE status = 'counting';
+
+CREATE TABLE IF NOT EXISTS public.stocktake_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stocktake_id UUID REFERENCES public.stocktakes(id) ON DELETE CASCADE NOT NULL,
+  item_id UUID REFERENCES public.inventory_items(id) ON DELETE CASCADE NOT NULL,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  unit_price DECIMAL(10,2) NOT NULL DEFAULT 0,
+  counted_by UUID REFERENCES auth.users(id),
+  counted_at TIMESTAMP WITH TIME ZONE,
+  adjusted BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (stocktake_id, item_id)
+);
+
+COMMENT ON COLUMN public.stocktake_lines.expected_quantity IS 'current_stock when the stocktake started';
+COMMENT ON COLUMN public.stocktake_lines.adjusted IS 'The variance was posted as an adjustment transaction';
+
+CREATE INDEX IF NOT EXISTS idx_stocktake_lines_item_id ON public.stocktake_lines(item_id);
+
+DROP TRIGGER IF EXISTS update_stocktakes_updated_at ON public.stocktakes;
+CREATE TRIGGER update_stocktakes_updated_at
+BEFORE UPDATE ON public.stocktakes
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_stocktakes_changes ON public.stocktakes;
+CREATE TRIGGER audit_stocktakes_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.stocktakes
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- ============================================================================
+-- STEP 2: Adjustments move lots too
+-- ============================================================================
+
+-- Adjustments carry a signed quantity. Stock found opens a lot; stock missing comes out of the
+-- lots first-expiry-first-out, expired ones included since they are still on the shelf.
+CREATE OR REPLACE FUNCTION public.apply_adjustment_to_lots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot public.inventory_lots%ROWTYPE;
+  v_left INTEGER := -NEW.quantity;
+  v_take INTEGER;
+BEGIN
+  IF NEW.quantity > 0 THEN
+    INSERT INTO public.inventory_lots (
+      item_id, branch_id, lot_number, unit_cost, quantity_received, quantity_remaining, created_by
+    )
+    SELECT
+      i.id, i.branch_id, COALESCE(NEW.reference_number, 'ADJUSTMENT'),
+      COALESCE(NEW.unit_price, i.unit_price, 0), NEW.quantity, NEW.quantity, NEW.created_by
+    FROM public.inventory_items i
+    WHERE i.id = NEW.item_id
+    RETURNING id INTO NEW.lot_id;
+  ELSIF NEW.quantity < 0 THEN
+    FOR v_lot IN
+      SELECT *
+      FROM public.inventory_lots
+      WHERE item_id = NEW.item_id AND quantity_remaining > 0
+      ORDER BY expiry_date ASC NULLS LAST, received_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left = 0;
+      v_take := LEAST(v_lot.quantity_remaining, v_left);
+
+      UPDATE public.inventory_lots
+      SET quantity_remaining = quantity_remaining - v_take
+      WHERE id = v_lot.id;
+
+      INSERT INTO public.inventory_lot_consumptions (transaction_id, lot_id, quantity)
+      VALUES (NEW.id, v_lot.id, v_take);
+
+      v_left := v_left - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires before apply_inventory_transaction_to_lots, which then refreshes the item's expiry date
+DROP TRIGGER IF EXISTS apply_inventory_adjustment_to_lots ON public.inventory_transactions;
+CREATE TRIGGER apply_inventory_adjustment_to_lots
+BEFORE INSERT ON public.inventory_transactions
+FOR EACH ROW
+WHEN (NEW.transaction_type = 'adjustment')
+EXECUTE FUNCTION public.apply_adjustment_to_lots();
+
+-- ============================================================================
+-- STEP 3: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.stocktakes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stocktake_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Granted roles can view stocktakes" ON public.stocktakes
+FOR SELECT USING (public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Rows are limited to the branch scope" ON public.stocktakes
+AS RESTRICTIVE FOR ALL
+USING (public.in_branch_scope(branch_id))
+WITH CHECK (public.can_access_branch(auth.uid(), branch_id));
+
+-- Lines follow their stocktake's visibility
+CREATE POLICY "Granted roles can view stocktake lines" ON public.stocktake_lines
+FOR SELECT USING (
+  EXISTS (SELECT 1 FROM public.stocktakes s WHERE s.id = stocktake_id)
+);
+
+-- Stocktakes and lines are only written through the RPCs below
+
+-- ============================================================================
+-- STEP 4: Counting workflow
+-- ============================================================================
+
+-- Snapshot every item of the current branch
+CREATE OR REPLACE FUNCTION public.start_stocktake(p_notes TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_stocktake_id UUID := gen_random_uuid();
+  v_reference TEXT;
+  v_items INTEGER;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to start a stocktake';
+  END IF;
+
+  IF NOT public.can_access_branch(v_user_id, v_branch_id) THEN
+    RAISE EXCEPTION 'You are not assigned to this branch';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stocktakes WHERE status = 'counting' AND branch_id = v_branch_id) THEN
+    RAISE EXCEPTION 'A stocktake is already in progress for this branch';
+  END IF;
+
+  v_reference := 'ST-' || upper(substr(replace(v_stocktake_id::TEXT, '-', ''), 1, 8));
+
+  INSERT INTO public.stocktakes (id, reference, branch_id, notes, started_by)
+  VALUES (v_stocktake_id, v_reference, v_branch_id, NULLIF(btrim(p_notes), ''), v_user_id);
+
+  INSERT INTO public.stocktake_lines (stocktake_id, item_id, expected_quantity, unit_price)
+  SELECT v_stocktake_id, i.id, i.current_stock, i.unit_price
+  FROM public.inventory_items i
+  WHERE i.branch_id = v_branch_id;
+
+  GET DIAGNOSTICS v_items = ROW_COUNT;
+
+  IF v_items = 0 THEN
+    RAISE EXCEPTION 'There are no items to count in this branch';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'stocktake_id', v_stocktake_id,
+    'reference', v_reference,
+    'items', v_items,
+    'message', format('Stocktake %s started with %s item(s)', v_reference, v_items)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to start stocktake'
+    );
+END;
+$$;
+
+-- p_counts: [{ "line_id": uuid, "counted_quantity": int or null }]; null clears a count
+CREATE OR REPLACE FUNCTION public.record_stocktake_counts(
+  p_stocktake_id UUID,
+  p_counts JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stocktake public.stocktakes%ROWTYPE;
+  v_updated INTEGER;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to count stock';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM public.stocktakes WHERE id = p_stocktake_id;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_stocktake.branch_id) THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stocktake is already %', v_stocktake.status;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_counts, '[]'::JSONB)) c
+    WHERE (c->>'counted_quantity')::INTEGER < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted quantities cannot be negative';
+  END IF;
+
+  UPDATE public.stocktake_lines l
+  SET counted_quantity = (c->>'counted_quantity')::INTEGER,
+      counted_by = CASE WHEN c->>'counted_quantity' IS NULL THEN NULL ELSE v_user_id END,
+      counted_at = CASE WHEN c->>'counted_quantity' IS NULL THEN NULL ELSE now() END
+  FROM jsonb_array_elements(COALESCE(p_counts, '[]'::JSONB)) c
+  WHERE l.id = (c->>'line_id')::UUID
+    AND l.stocktake_id = p_stocktake_id;
+
+  GET DIAGNOSTICS v_updated = ROW_COUNT;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'updated', v_updated,
+    'message', format('Saved %s count(s)', v_updated)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to save counts'
+    );
+END;
+$$;
+
+-- Post the variances of the approved lines (all counted lines when p_line_ids is null).
+-- Uncounted and unapproved lines leave stock untouched.
+CREATE OR REPLACE FUNCTION public.post_stocktake(
+  p_stocktake_id UUID,
+  p_line_ids UUID[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stocktake public.stocktakes%ROWTYPE;
+  v_line RECORD;
+  v_variance INTEGER;
+  v_units INTEGER := 0;
+  v_value DECIMAL(10,2) := 0;
+  v_adjusted INTEGER := 0;
+BEGIN
+  IF public.get_user_role(v_user_id) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only an admin can post stocktake adjustments';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM public.stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_stocktake.branch_id) THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stocktake is already %', v_stocktake.status;
+  END IF;
+
+  FOR v_line IN
+    SELECT l.*
+    FROM public.stocktake_lines l
+    WHERE l.stocktake_id = p_stocktake_id
+      AND l.counted_quantity IS NOT NULL
+      AND l.counted_quantity <> l.expected_quantity
+      AND (p_line_ids IS NULL OR l.id = ANY(p_line_ids))
+    FOR UPDATE
+  LOOP
+    v_variance := v_line.counted_quantity - v_line.expected_quantity;
+
+    INSERT INTO public.inventory_transactions (
+      item_id, transaction_type, quantity, unit_price, total_amount,
+      reason, reference_number, created_by
+    )
+    VALUES (
+      v_line.item_id, 'adjustment', v_variance, v_line.unit_price, v_line.unit_price * v_variance,
+      format('Stocktake %s: counted %s, expected %s', v_stocktake.reference, v_line.counted_quantity, v_line.expected_quantity),
+      v_stocktake.reference, v_user_id
+    );
+
+    -- Relative to the snapshot, so sales made while counting are kept
+    UPDATE public.inventory_items
+    SET current_stock = GREATEST(current_stock + v_variance, 0)
+    WHERE id = v_line.item_id;
+
+    UPDATE public.stocktake_lines SET adjusted = true WHERE id = v_line.id;
+
+    v_adjusted := v_adjusted + 1;
+    v_units := v_units + v_variance;
+    v_value := v_value + v_line.unit_price * v_variance;
+  END LOOP;
+
+  UPDATE public.stocktakes
+  SET status = 'posted',
+      posted_by = v_user_id,
+      posted_at = now(),
+      variance_units = v_units,
+      variance_value = v_value
+  WHERE id = p_stocktake_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reference', v_stocktake.reference,
+    'adjusted_items', v_adjusted,
+    'variance_units', v_units,
+    'variance_value', v_value,
+    'message', format('%s posted with %s adjustment(s)', v_stocktake.reference, v_adjusted)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to post stocktake'
+    );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.cancel_stocktake(p_stocktake_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_stocktake public.stocktakes%ROWTYPE;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to cancel a stocktake';
+  END IF;
+
+  SELECT * INTO v_stocktake FROM public.stocktakes WHERE id = p_stocktake_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_access_branch(v_user_id, v_stocktake.branch_id) THEN
+    RAISE EXCEPTION 'Stocktake not found';
+  END IF;
+
+  IF v_stocktake.status <> 'counting' THEN
+    RAISE EXCEPTION 'This stocktake is already %', v_stocktake.status;
+  END IF;
+
+  UPDATE public.stocktakes SET status = 'cancelled' WHERE id = p_stocktake_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'reference', v_stocktake.reference,
+    'message', format('%s cancelled', v_stocktake.reference)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to cancel stocktake'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.stocktakes TO authenticated;
+GRANT SELECT ON public.stocktake_lines TO authenticated;
+GRANT EXECUTE ON FUNCTION public.start_stocktake(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_stocktake_counts(UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.post_stocktake(UUID, UUID[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.cancel_stocktake(UUID) TO authenticated;
+
+COMMENT ON FUNCTION public.apply_adjustment_to_lots IS 'Opens a lot for stock found and consumes lots for stock missing on adjustment transactions';
+COMMENT ON FUNCTION public.start_stocktake IS 'Snapshot the expected quantity of every item in the current branch';
+COMMENT ON FUNCTION public.record_stocktake_counts IS 'Save counted quantities on an open stocktake';
+COMMENT ON FUNCTION public.post_stocktake IS 'Admin-only: post approved variances as adjustment transactions and close the stocktake';
+COMMENT ON FUNCTION public.cancel_stocktake IS 'Abandon an open stocktake without changing stock';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Stocktake sessions installed';
+END $$;
@@ -0,0 +1,359 @@
+-- Migration: Weighted-average inventory costing
+-- Date: 2025-01-01
+-- Description: unit_price on inventory_items stays the selling price and a new cost_price
+--              holds the weighted-average cost of the stock on hand. Every stock_in re-averages
+--              the cost with the units received; every other movement is costed at the current
+--              average, so stock_out rows (retail sales, service deductions, manual removals)
+--              carry their cost of goods sold in unit_cost and cost_amount. Sale lines keep
+--              the cost of the units sold for margin reporting.
+
+-- ============================================================================
+-- STEP 1: Cost columns
+-- ============================================================================
+
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS cost_price DECIMAL(12,4) NOT NULL DEFAULT 0 CHECK (cost_price >= 0);
+
+ALTER TABLE public.inventory_transactions
+ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12,4),
+ADD COLUMN IF NOT EXISTS cost_amount DECIMAL(12,2);
+
+ALTER TABLE public.sales_items
+ADD COLUMN IF NOT EXISTS unit_cost DECIMAL(12,4) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.inventory_items.unit_price IS 'Selling price';
+COMMENT ON COLUMN public.inventory_items.cost_price IS 'Weighted-average cost of the stock on hand, re-averaged on every stock_in';
+COMMENT ON COLUMN public.inventory_transactions.unit_cost IS 'Cost per unit: the purchase cost for stock coming in, the average cost for everything else';
+COMMENT ON COLUMN public.inventory_transactions.cost_amount IS 'unit_cost x quantity; the cost of goods sold on stock_out rows';
+COMMENT ON COLUMN public.sales_items.unit_cost IS 'Average cost of the item when it was sold';
+
+-- ============================================================================
+-- STEP 2: Opening costs
+-- ============================================================================
+
+-- Best known cost: the last purchase order received, else the lots still on hand, else the price
+UPDATE public.inventory_items i
+SET cost_price = COALESCE(
+  (
+    SELECT l.unit_cost
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE l.item_id = i.id AND l.quantity_received > 0
+    ORDER BY po.received_at DESC NULLS LAST, l.created_at DESC
+    LIMIT 1
+  ),
+  (
+    SELECT SUM(l.quantity_remaining * l.unit_cost) / NULLIF(SUM(l.quantity_remaining), 0)
+    FROM public.inventory_lots l
+    WHERE l.item_id = i.id AND l.quantity_remaining > 0
+  ),
+  i.unit_price
+);
+
+-- Earlier movements are costed at the opening cost
+UPDATE public.inventory_transactions t
+SET unit_cost = i.cost_price,
+    cost_amount = ROUND(i.cost_price * t.quantity, 2)
+FROM public.inventory_items i
+WHERE i.id = t.item_id
+  AND t.unit_cost IS NULL;
+
+UPDATE public.sales_items si
+SET unit_cost = i.cost_price
+FROM public.inventory_items i
+WHERE i.id = si.inventory_item_id;
+
+-- ============================================================================
+-- STEP 3: Costing movements
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.apply_transaction_costing()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_item public.inventory_items%ROWTYPE;
+  v_on_hand INTEGER;
+BEGIN
+  SELECT * INTO v_item FROM public.inventory_items WHERE id = NEW.item_id FOR UPDATE;
+
+  IF NEW.transaction_type IN ('stock_in', 'transfer_in') AND NEW.lot_id IS NULL THEN
+    IF NEW.transaction_type = 'transfer_in' AND NEW.transfer_id IS NOT NULL THEN
+      -- Transferred stock arrives at the cost it left the other branch with
+      SELECT t.unit_cost INTO NEW.unit_cost
+      FROM public.inventory_transactions t
+      WHERE t.transfer_id = NEW.transfer_id AND t.transaction_type = 'transfer_out'
+      LIMIT 1;
+    ELSIF NEW.transaction_type = 'stock_in' THEN
+      -- unit_price on a stock_in is what was paid; lots are opened at the same cost
+      NEW.unit_price := COALESCE(NEW.unit_price, v_item.cost_price);
+      NEW.unit_cost := NEW.unit_price;
+    END IF;
+    NEW.unit_cost := COALESCE(NEW.unit_cost, v_item.cost_price);
+
+    -- Lots are still as they were before this movement
+    SELECT GREATEST(COALESCE(SUM(quantity_remaining), 0), 0)::INTEGER INTO v_on_hand
+    FROM public.inventory_lots
+    WHERE item_id = NEW.item_id;
+
+    IF v_on_hand + NEW.quantity > 0 THEN
+      UPDATE public.inventory_items
+      SET cost_price = (v_on_hand * v_item.cost_price + NEW.quantity * NEW.unit_cost) / (v_on_hand + NEW.quantity)
+      WHERE id = NEW.item_id;
+    END IF;
+  ELSE
+    -- Outgoing stock, adjustments and returns move at the average, which leaves it unchanged
+    NEW.unit_cost := v_item.cost_price;
+  END IF;
+
+  NEW.cost_amount := ROUND(NEW.unit_cost * NEW.quantity, 2);
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires before apply_inventory_transaction_to_lots so the units on hand exclude this movement
+DROP TRIGGER IF EXISTS apply_inventory_costing ON public.inventory_transactions;
+CREATE TRIGGER apply_inventory_costing
+BEFORE INSERT ON public.inventory_transactions
+FOR EACH ROW EXECUTE FUNCTION public.apply_transaction_costing();
+
+CREATE OR REPLACE FUNCTION public.set_sales_item_cost()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT cost_price INTO NEW.unit_cost
+  FROM public.inventory_items
+  WHERE id = NEW.inventory_item_id;
+
+  NEW.unit_cost := COALESCE(NEW.unit_cost, 0);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_sales_items_cost ON public.sales_items;
+CREATE TRIGGER set_sales_items_cost
+BEFORE INSERT ON public.sales_items
+FOR EACH ROW EXECUTE FUNCTION public.set_sales_item_cost();
+
+-- ============================================================================
+-- STEP 4: Lots are opened at cost, not at the selling price
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_opening_lot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.current_stock > 0 THEN
+    INSERT INTO public.inventory_lots (
+      item_id, branch_id, lot_number, expiry_date, unit_cost, quantity_received, quantity_remaining, created_by
+    )
+    VALUES (
+      NEW.id, NEW.branch_id, 'OPENING', NEW.expiry_date, NEW.cost_price, NEW.current_stock, NEW.current_stock, NEW.created_by
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.apply_adjustment_to_lots()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lot public.inventory_lots%ROWTYPE;
+  v_left INTEGER := -NEW.quantity;
+  v_take INTEGER;
+BEGIN
+  IF NEW.quantity > 0 THEN
+    INSERT INTO public.inventory_lots (
+      item_id, branch_id, lot_number, unit_cost, quantity_received, quantity_remaining, created_by
+    )
+    SELECT
+      i.id, i.branch_id, COALESCE(NEW.reference_number, 'ADJUSTMENT'),
+      i.cost_price, NEW.quantity, NEW.quantity, NEW.created_by
+    FROM public.inventory_items i
+    WHERE i.id = NEW.item_id
+    RETURNING id INTO NEW.lot_id;
+  ELSIF NEW.quantity < 0 THEN
+    FOR v_lot IN
+      SELECT *
+      FROM public.inventory_lots
+      WHERE item_id = NEW.item_id AND quantity_remaining > 0
+      ORDER BY expiry_date ASC NULLS LAST, received_at ASC
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_left = 0;
+      v_take := LEAST(v_lot.quantity_remaining, v_left);
+
+      UPDATE public.inventory_lots
+      SET quantity_remaining = quantity_remaining - v_take
+      WHERE id = v_lot.id;
+
+      INSERT INTO public.inventory_lot_consumptions (transaction_id, lot_id, quantity)
+      VALUES (NEW.id, v_lot.id, v_take);
+
+      v_left := v_left - v_take;
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Reorder suggestions fall back to the average cost
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(p_lookback_days INTEGER DEFAULT 30)
+RETURNS TABLE (
+  item_id UUID,
+  item_name TEXT,
+  branch_id UUID,
+  supplier_id UUID,
+  supplier_name TEXT,
+  lead_time_days INTEGER,
+  current_stock INTEGER,
+  min_stock_level INTEGER,
+  max_stock_level INTEGER,
+  on_order INTEGER,
+  consumed_quantity INTEGER,
+  daily_usage DECIMAL,
+  days_of_inventory DECIMAL,
+  reorder_point INTEGER,
+  suggested_quantity INTEGER,
+  unit_cost DECIMAL,
+  needs_reorder BOOLEAN
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER := GREATEST(COALESCE(p_lookback_days, 30), 1);
+  v_since TIMESTAMP WITH TIME ZONE := now() - make_interval(days => GREATEST(COALESCE(p_lookback_days, 30), 1));
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to view reorder suggestions';
+  END IF;
+
+  RETURN QUERY
+  WITH service_usage AS (
+    -- Products used on services completed in the window
+    SELECT sp.inventory_item_id AS item_id, SUM(sp.quantity)::INTEGER AS quantity
+    FROM public.service_products sp
+    JOIN public.services s ON s.id = sp.service_id
+    WHERE s.status = 'completed'
+      AND s.date_time >= v_since
+    GROUP BY sp.inventory_item_id
+  ),
+  other_usage AS (
+    -- Service deductions are already counted above
+    SELECT t.item_id, SUM(t.quantity)::INTEGER AS quantity
+    FROM public.inventory_transactions t
+    WHERE t.transaction_type = 'stock_out'
+      AND t.transaction_date >= v_since
+      AND COALESCE(t.reference_number, '') NOT LIKE 'SERVICE-%'
+    GROUP BY t.item_id
+  ),
+  open_orders AS (
+    SELECT l.item_id, SUM(l.quantity_ordered - l.quantity_received)::INTEGER AS quantity
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status IN ('draft', 'sent', 'partially_received')
+    GROUP BY l.item_id
+  ),
+  last_costs AS (
+    SELECT DISTINCT ON (l.item_id) l.item_id, l.unit_cost
+    FROM public.purchase_order_lines l
+    JOIN public.purchase_orders po ON po.id = l.purchase_order_id
+    WHERE po.status <> 'cancelled'
+    ORDER BY l.item_id, po.order_date DESC, l.created_at DESC
+  ),
+  usage AS (
+    SELECT
+      i.id,
+      i.name,
+      i.branch_id,
+      i.supplier_id,
+      sup.name AS supplier_name,
+      COALESCE(sup.lead_time_days, 7) AS lead_time_days,
+      i.current_stock,
+      i.min_stock_level,
+      i.max_stock_level,
+      COALESCE(oo.quantity, 0) AS on_order,
+      COALESCE(su.quantity, 0) + COALESCE(ou.quantity, 0) AS consumed,
+      (COALESCE(su.quantity, 0) + COALESCE(ou.quantity, 0))::DECIMAL / v_days AS daily_usage,
+      COALESCE(lc.unit_cost, i.cost_price)::DECIMAL AS unit_cost
+    FROM public.inventory_items i
+    LEFT JOIN public.suppliers sup ON sup.id = i.supplier_id
+    LEFT JOIN service_usage su ON su.item_id = i.id
+    LEFT JOIN other_usage ou ON ou.item_id = i.id
+    LEFT JOIN open_orders oo ON oo.item_id = i.id
+    LEFT JOIN last_costs lc ON lc.item_id = i.id
+    WHERE public.in_branch_scope(i.branch_id)
+  ),
+  points AS (
+    SELECT
+      u.*,
+      -- Demand while an order is on its way, on top of the safety level
+      (CEIL(u.daily_usage * u.lead_time_days) + u.min_stock_level)::INTEGER AS reorder_point
+    FROM usage u
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.branch_id,
+    p.supplier_id,
+    p.supplier_name,
+    p.lead_time_days,
+    p.current_stock,
+    p.min_stock_level,
+    p.max_stock_level,
+    p.on_order,
+    p.consumed,
+    ROUND(p.daily_usage, 2),
+    CASE WHEN p.daily_usage > 0 THEN ROUND(p.current_stock / p.daily_usage, 1) END,
+    p.reorder_point,
+    CASE
+      WHEN p.current_stock + p.on_order <= p.reorder_point THEN
+        -- Refill to the maximum; when the maximum is below the reorder point, cover another lead time
+        GREATEST(
+          GREATEST(p.max_stock_level, p.reorder_point + CEIL(p.daily_usage * p.lead_time_days)::INTEGER)
+            - p.current_stock - p.on_order,
+          1
+        )
+      ELSE 0
+    END,
+    p.unit_cost,
+    p.current_stock + p.on_order <= p.reorder_point
+  FROM points p
+  ORDER BY (p.current_stock + p.on_order <= p.reorder_point) DESC,
+           CASE WHEN p.daily_usage > 0 THEN p.current_stock / p.daily_usage END ASC NULLS LAST,
+           p.name;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Comments
+-- ============================================================================
+
+COMMENT ON FUNCTION public.apply_transaction_costing IS 'Re-averages cost_price on stock coming in and stamps every movement with its unit cost and cost amount';
+COMMENT ON FUNCTION public.set_sales_item_cost IS 'Records the average cost of an item on each sale line';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Weighted-average inventory costing installed';
+END $$;
@@ -0,0 +1,209 @@
+-- Migration: Service catalog and standard recipes
+-- Date: 2025-01-01
+-- Description: A managed menu of services with a default price, duration and commission rate,
+--              and a standard recipe (bill of materials) of the products each service uses,
+--              e.g. "Relaxer: 0.2 x Relaxer Cream". Bookings remember the catalog service they
+--              were made from so actual product usage can be compared with the recipe.
+
+-- ============================================================================
+-- STEP 1: Catalog
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.service_catalog (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL,
+  description TEXT,
+  default_price DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (default_price >= 0),
+  duration_minutes INTEGER NOT NULL DEFAULT 60 CHECK (duration_minutes > 0),
+  commission_rate DECIMAL(5,2) CHECK (commission_rate BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_service_catalog_name ON public.service_catalog(lower(name));
+
+CREATE TRIGGER update_service_catalog_updated_at
+BEFORE UPDATE ON public.service_catalog
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS audit_service_catalog_changes ON public.service_catalog;
+CREATE TRIGGER audit_service_catalog_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.service_catalog
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+COMMENT ON TABLE public.service_catalog IS 'The service menu: default price, duration and commission rate per service';
+COMMENT ON COLUMN public.service_catalog.commission_rate IS 'Commission % for this service; NULL uses the worker''s own rate';
+
+-- Quantities are in the item's stock units and may be fractional (a fifth of a tub)
+CREATE TABLE IF NOT EXISTS public.service_recipe_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  catalog_service_id UUID NOT NULL REFERENCES public.service_catalog(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.inventory_items(id) ON DELETE CASCADE,
+  quantity DECIMAL(10,3) NOT NULL CHECK (quantity > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (catalog_service_id, item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_service_recipe_items_item_id ON public.service_recipe_items(item_id);
+
+COMMENT ON TABLE public.service_recipe_items IS 'Standard products used by one catalog service';
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS catalog_service_id UUID REFERENCES public.service_catalog(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_services_catalog_service_id ON public.services(catalog_service_id);
+
+COMMENT ON COLUMN public.services.catalog_service_id IS 'The catalog service the booking was made from, if any';
+
+-- Seed the menu from what has been booked so far, at the most recent price
+INSERT INTO public.service_catalog (name, category, default_price, duration_minutes, commission_rate)
+SELECT DISTINCT ON (lower(btrim(service_name)))
+  btrim(service_name),
+  btrim(service_category),
+  service_price,
+  COALESCE(duration_minutes, 60),
+  commission_rate
+FROM public.services
+WHERE NULLIF(btrim(service_name), '') IS NOT NULL
+  AND NULLIF(btrim(service_category), '') IS NOT NULL
+ORDER BY lower(btrim(service_name)), date_time DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE public.services s
+SET catalog_service_id = c.id
+FROM public.service_catalog c
+WHERE s.catalog_service_id IS NULL
+  AND lower(c.name) = lower(btrim(s.service_name));
+
+-- ============================================================================
+-- STEP 2: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.service_catalog ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.service_recipe_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view the service catalog" ON public.service_catalog
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Authenticated users can view service recipes" ON public.service_recipe_items
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+-- Prices, commission rates and recipes are only written through save_catalog_service
+
+-- ============================================================================
+-- STEP 3: Saving a catalog service
+-- ============================================================================
+
+-- Create (no p_catalog_service_id) or update a catalog service and replace its recipe.
+-- p_recipe: [{ "item_id": uuid, "quantity": number }]
+CREATE OR REPLACE FUNCTION public.save_catalog_service(
+  p_name TEXT,
+  p_category TEXT,
+  p_default_price DECIMAL,
+  p_duration_minutes INTEGER,
+  p_recipe JSONB DEFAULT '[]'::JSONB,
+  p_catalog_service_id UUID DEFAULT NULL,
+  p_commission_rate DECIMAL DEFAULT NULL,
+  p_description TEXT DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_id UUID := p_catalog_service_id;
+  v_line JSONB;
+  v_quantity DECIMAL(10,3);
+BEGIN
+  IF public.get_user_role(v_user_id) IS DISTINCT FROM 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only admins can manage the service catalog';
+  END IF;
+
+  IF NULLIF(btrim(p_name), '') IS NULL OR NULLIF(btrim(p_category), '') IS NULL THEN
+    RAISE EXCEPTION 'A service needs a name and a category';
+  END IF;
+
+  IF v_id IS NULL THEN
+    INSERT INTO public.service_catalog (
+      name, category, description, default_price, duration_minutes, commission_rate, is_active, created_by
+    )
+    VALUES (
+      btrim(p_name), btrim(p_category), NULLIF(btrim(p_description), ''), p_default_price,
+      p_duration_minutes, p_commission_rate, p_is_active, v_user_id
+    )
+    RETURNING id INTO v_id;
+  ELSE
+    UPDATE public.service_catalog
+    SET name = btrim(p_name),
+        category = btrim(p_category),
+        description = NULLIF(btrim(p_description), ''),
+        default_price = p_default_price,
+        duration_minutes = p_duration_minutes,
+        commission_rate = p_commission_rate,
+        is_active = p_is_active
+    WHERE id = v_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Catalog service not found';
+    END IF;
+
+    DELETE FROM public.service_recipe_items WHERE catalog_service_id = v_id;
+  END IF;
+
+  FOR v_line IN SELECT * FROM jsonb_array_elements(COALESCE(p_recipe, '[]'::JSONB))
+  LOOP
+    v_quantity := (v_line->>'quantity')::DECIMAL;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Recipe quantities must be greater than zero';
+    END IF;
+
+    INSERT INTO public.service_recipe_items (catalog_service_id, item_id, quantity)
+    VALUES (v_id, (v_line->>'item_id')::UUID, v_quantity)
+    ON CONFLICT (catalog_service_id, item_id)
+    DO UPDATE SET quantity = public.service_recipe_items.quantity + EXCLUDED.quantity;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'catalog_service_id', v_id,
+    'message', format('%s saved', btrim(p_name))
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', format('A service called %s already exists', btrim(p_name))
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to save catalog service'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.service_catalog TO authenticated;
+GRANT SELECT ON public.service_recipe_items TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_catalog_service(TEXT, TEXT, DECIMAL, INTEGER, JSONB, UUID, DECIMAL, TEXT, BOOLEAN) TO authenticated;
+
+COMMENT ON FUNCTION public.save_catalog_service IS 'Create or update a catalog service and replace its standard recipe';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Service catalog and recipes installed';
+END $$;
@@ -0,0 +1,463 @@
+-- Migration: Retail catalog
+-- Date: 2025-01-01
+-- Description: Turns the unused products table into the retail catalog. A product carries the
+--              photo, default retail price and tax class; its variants (size/colour) are the
+--              sellable SKUs. Each branch's inventory item is linked to the variant it stocks,
+--              and the cart sells variants: prices come from the catalog, stock from the linked
+--              item. Existing inventory items are seeded as single-variant products so the
+--              shop keeps working.
+
+-- ============================================================================
+-- STEP 1: Products and variants
+-- ============================================================================
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS photo_url TEXT,
+ADD COLUMN IF NOT EXISTS tax_class TEXT NOT NULL DEFAULT 'standard'
+  CHECK (tax_class IN ('standard', 'reduced', 'zero', 'exempt')),
+ADD COLUMN IF NOT EXISTS is_active BOOLEAN NOT NULL DEFAULT true;
+
+COMMENT ON TABLE public.products IS 'Retail catalog: what the shop sells, independent of how it is stocked';
+COMMENT ON COLUMN public.products.unit_price IS 'Default retail price; a variant may override it';
+COMMENT ON COLUMN public.products.tax_class IS 'Tax treatment of the product: standard, reduced, zero or exempt';
+
+DROP TRIGGER IF EXISTS update_products_updated_at ON public.products;
+CREATE TRIGGER update_products_updated_at
+BEFORE UPDATE ON public.products
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  sku TEXT NOT NULL UNIQUE,
+  size TEXT,
+  colour TEXT,
+  retail_price DECIMAL(10,2) CHECK (retail_price >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id);
+
+CREATE TRIGGER update_product_variants_updated_at
+BEFORE UPDATE ON public.product_variants
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.product_variants IS 'Sellable SKUs of a product, e.g. one per size or colour';
+COMMENT ON COLUMN public.product_variants.retail_price IS 'Overrides the product''s retail price when set';
+
+-- The inventory item each branch stocks the variant as
+ALTER TABLE public.inventory_items
+ADD COLUMN IF NOT EXISTS product_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_inventory_items_branch_variant
+ON public.inventory_items(branch_id, product_variant_id) WHERE product_variant_id IS NOT NULL;
+
+COMMENT ON COLUMN public.inventory_items.product_variant_id IS 'The catalog variant this stock is sold as; one item per variant per branch';
+
+-- Sale lines remember the SKU and its tax class
+ALTER TABLE public.sales_items
+ADD COLUMN IF NOT EXISTS product_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS tax_class TEXT;
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['products', 'product_variants']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Seed the catalog
+-- ============================================================================
+
+-- Legacy products get a default variant, to be linked to stock from the catalog page
+INSERT INTO public.product_variants (product_id, sku)
+SELECT p.id, 'SKU-' || upper(substr(replace(p.id::TEXT, '-', ''), 1, 8))
+FROM public.products p
+WHERE NOT EXISTS (SELECT 1 FROM public.product_variants v WHERE v.product_id = p.id);
+
+-- Every stocked item becomes a product with one variant, shared by its copies in other branches
+DO $$
+DECLARE
+  v_item RECORD;
+  v_product_id UUID;
+  v_variant_id UUID;
+BEGIN
+  FOR v_item IN
+    SELECT DISTINCT ON (lower(btrim(i.name)))
+      lower(btrim(i.name)) AS name_key, btrim(i.name) AS name, i.unit_price, i.barcode, i.created_by,
+      COALESCE(c.name, 'Retail') AS category
+    FROM public.inventory_items i
+    LEFT JOIN public.inventory_categories c ON c.id = i.category_id
+    WHERE i.product_variant_id IS NULL
+    ORDER BY lower(btrim(i.name)), i.created_at
+  LOOP
+    INSERT INTO public.products (name, category, unit_price, created_by)
+    VALUES (v_item.name, v_item.category, v_item.unit_price, v_item.created_by)
+    RETURNING id INTO v_product_id;
+
+    INSERT INTO public.product_variants (product_id, sku)
+    VALUES (
+      v_product_id,
+      COALESCE(
+        CASE WHEN NOT EXISTS (SELECT 1 FROM public.product_variants WHERE sku = v_item.barcode) THEN v_item.barcode END,
+        'SKU-' || upper(substr(replace(v_product_id::TEXT, '-', ''), 1, 8))
+      )
+    )
+    RETURNING id INTO v_variant_id;
+
+    UPDATE public.inventory_items i
+    SET product_variant_id = v_variant_id
+    WHERE lower(btrim(i.name)) = v_item.name_key
+      AND i.product_variant_id IS NULL
+      AND i.id = (
+        SELECT first_item.id
+        FROM public.inventory_items first_item
+        WHERE first_item.branch_id = i.branch_id
+          AND lower(btrim(first_item.name)) = v_item.name_key
+        ORDER BY first_item.created_at
+        LIMIT 1
+      );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 3: Transferred stock keeps its variant
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.link_transferred_item_to_variant()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.inventory_items target
+  SET product_variant_id = source.product_variant_id
+  FROM public.inventory_transactions t
+  JOIN public.inventory_items source ON source.id = t.item_id
+  WHERE t.transfer_id = NEW.transfer_id
+    AND t.transaction_type = 'transfer_out'
+    AND target.id = NEW.item_id
+    AND target.product_variant_id IS NULL
+    AND source.product_variant_id IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM public.inventory_items other
+      WHERE other.branch_id = target.branch_id
+        AND other.product_variant_id = source.product_variant_id
+    );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_transferred_item_to_variant ON public.inventory_transactions;
+CREATE TRIGGER link_transferred_item_to_variant
+AFTER INSERT ON public.inventory_transactions
+FOR EACH ROW
+WHEN (NEW.transaction_type = 'transfer_in' AND NEW.transfer_id IS NOT NULL)
+EXECUTE FUNCTION public.link_transferred_item_to_variant();
+
+-- ============================================================================
+-- STEP 4: Row Level Security and photos
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can create products" ON public.products;
+DROP POLICY IF EXISTS "Users can update their own products" ON public.products;
+
+CREATE POLICY "Granted roles can manage products" ON public.products
+FOR ALL USING (public.has_feature(auth.uid(), 'inventory'));
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view product variants" ON public.product_variants
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Granted roles can manage product variants" ON public.product_variants
+FOR ALL USING (public.has_feature(auth.uid(), 'inventory'));
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('product-photos', 'product-photos', true)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Product photos are public" ON storage.objects
+FOR SELECT USING (bucket_id = 'product-photos');
+
+CREATE POLICY "Granted roles can upload product photos" ON storage.objects
+FOR INSERT WITH CHECK (bucket_id = 'product-photos' AND public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Granted roles can replace product photos" ON storage.objects
+FOR UPDATE USING (bucket_id = 'product-photos' AND public.has_feature(auth.uid(), 'inventory'));
+
+CREATE POLICY "Granted roles can delete product photos" ON storage.objects
+FOR DELETE USING (bucket_id = 'product-photos' AND public.has_feature(auth.uid(), 'inventory'));
+
+-- ============================================================================
+-- STEP 5: Checkout sells catalog variants
+-- ============================================================================
+
+-- p_items: [{ "id": inventory item uuid, "variant_id": uuid, "name": text, "quantity": int }]
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+-- When omitted the sale is paid in full with p_payment_method.
+CREATE OR REPLACE FUNCTION public.process_cart_checkout(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created_by UUID := auth.uid();
+  v_sale_id UUID;
+  v_reference TEXT;
+  v_item JSONB;
+  v_inventory_item RECORD;
+  v_variant RECORD;
+  v_quantity INTEGER;
+  v_total_amount DECIMAL(10,2) := 0;
+  v_items_count INTEGER := 0;
+  v_payments JSONB;
+  v_tender JSONB;
+  v_paid DECIMAL(10,2) := 0;
+  v_methods INTEGER;
+  v_payment_method TEXT;
+BEGIN
+  IF v_created_by IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_created_by, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to sell retail items';
+  END IF;
+
+  IF p_customer_name IS NULL OR btrim(p_customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart items cannot be empty';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO public.sales_transactions (
+    customer_id,
+    customer_name,
+    customer_phone,
+    payment_method,
+    reference_number,
+    total_amount,
+    items_count,
+    created_by
+  ) VALUES (
+    p_customer_id,
+    btrim(p_customer_name),
+    NULLIF(btrim(COALESCE(p_customer_phone, '')), ''),
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    0,
+    0,
+    v_created_by
+  ) RETURNING id INTO v_sale_id;
+
+  v_reference := COALESCE(NULLIF(btrim(COALESCE(p_reference_number, '')), ''), 'SALE-' || v_sale_id);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item "%"', COALESCE(v_item->>'name', v_item->>'id');
+    END IF;
+
+    -- Lock the row so concurrent checkouts cannot both pass the stock check
+    SELECT id, name, current_stock, product_variant_id
+    INTO v_inventory_item
+    FROM public.inventory_items
+    WHERE id = (v_item->>'id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item not found: %', v_item->>'id';
+    END IF;
+
+    -- Price, name and tax class come from the catalog variant the item is stocked as
+    SELECT
+      v.id,
+      p.name || COALESCE(' - ' || NULLIF(concat_ws(' / ', v.size, v.colour), ''), '') AS name,
+      COALESCE(v.retail_price, p.unit_price) AS retail_price,
+      p.tax_class
+    INTO v_variant
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    WHERE v.id = (v_item->>'variant_id')::UUID
+      AND v.is_active
+      AND p.is_active
+      AND v.id = v_inventory_item.product_variant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item "%" is not for sale in the retail catalog', v_inventory_item.name;
+    END IF;
+
+    IF v_inventory_item.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for item "%". Required: %, Available: %',
+        v_variant.name, v_quantity, v_inventory_item.current_stock;
+    END IF;
+
+    INSERT INTO public.sales_items (
+      sale_id,
+      inventory_item_id,
+      product_variant_id,
+      item_name,
+      unit_price,
+      quantity,
+      total_price,
+      tax_class
+    ) VALUES (
+      v_sale_id,
+      v_inventory_item.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.retail_price,
+      v_quantity,
+      v_variant.retail_price * v_quantity,
+      v_variant.tax_class
+    );
+
+    INSERT INTO public.inventory_transactions (
+      item_id,
+      transaction_type,
+      quantity,
+      unit_price,
+      total_amount,
+      reason,
+      reference_number,
+      created_by
+    ) VALUES (
+      v_inventory_item.id,
+      'stock_out',
+      v_quantity,
+      v_variant.retail_price,
+      v_variant.retail_price * v_quantity,
+      'Sale to ' || btrim(p_customer_name),
+      v_reference,
+      v_created_by
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock - v_quantity
+    WHERE id = v_inventory_item.id;
+
+    v_total_amount := v_total_amount + (v_variant.retail_price * v_quantity);
+    v_items_count := v_items_count + v_quantity;
+  END LOOP;
+
+  -- Tenders
+  v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+    'payment_method', COALESCE(p_payment_method, 'cash'),
+    'amount', v_total_amount,
+    'reference_number', p_reference_number
+  )));
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, customer_id, amount, payment_method, reference_number, received_by
+    ) VALUES (
+      v_sale_id,
+      p_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_created_by
+    );
+
+    v_paid := v_paid + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_paid > v_total_amount THEN
+    RAISE EXCEPTION 'Payments of % exceed the sale total of %', v_paid, v_total_amount;
+  END IF;
+
+  IF v_paid < v_total_amount AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a registered customer to leave a balance of % outstanding', v_total_amount - v_paid;
+  END IF;
+
+  SELECT COUNT(DISTINCT payment_method), MIN(payment_method)
+  INTO v_methods, v_payment_method
+  FROM public.payments
+  WHERE sale_id = v_sale_id;
+
+  UPDATE public.sales_transactions
+  SET total_amount = v_total_amount,
+      items_count = v_items_count,
+      reference_number = v_reference,
+      payment_method = CASE
+        WHEN v_methods = 0 THEN 'on_account'
+        WHEN v_methods > 1 THEN 'split'
+        ELSE v_payment_method
+      END
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'reference_number', v_reference,
+    'total_amount', v_total_amount,
+    'amount_paid', v_paid,
+    'balance', v_total_amount - v_paid,
+    'items_count', v_items_count,
+    'created_at', now(),
+    'message', 'Sale completed successfully'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Any failure rolls back the sale, its items, payments and every stock movement
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process cart checkout'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.product_variants TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB) TO authenticated;
+
+COMMENT ON FUNCTION public.process_cart_checkout IS 'Atomically records a sale of catalog variants, its items, tenders and the stock-out transactions';
+COMMENT ON FUNCTION public.link_transferred_item_to_variant IS 'Links stock created by a transfer to the same catalog variant as its source';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Retail catalog installed: products, product_variants, variant-linked stock and checkout';
+END $$;
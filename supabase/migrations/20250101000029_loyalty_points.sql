@@ -0,0 +1,1013 @@
+-- Migration: Customer loyalty points
+-- Date: 2025-01-01
+-- Description: A points ledger per customer. Completed services (through
+--              service_completion_trigger) and retail sales earn points on what the customer
+--              owes, at a configurable earn rate boosted by the customer's tier. Points expire a
+--              set number of months after they are earned, oldest first, and can be redeemed as
+--              a discount at checkout or against a service. Cancelling gives redeemed points back
+--              and takes earned points away.
+
+-- ============================================================================
+-- STEP 1: Programme settings and tiers
+-- ============================================================================
+
+-- A single row; the programme is configured by admins
+CREATE TABLE IF NOT EXISTS public.loyalty_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  is_enabled BOOLEAN NOT NULL DEFAULT true,
+  points_per_unit DECIMAL(10,4) NOT NULL DEFAULT 0.01 CHECK (points_per_unit >= 0),
+  point_value DECIMAL(10,2) NOT NULL DEFAULT 5 CHECK (point_value > 0),
+  min_redeem_points INTEGER NOT NULL DEFAULT 200 CHECK (min_redeem_points > 0),
+  expiry_months INTEGER CHECK (expiry_months > 0),
+  updated_by UUID REFERENCES auth.users(id),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.loyalty_settings (id, expiry_months) VALUES (true, 12) ON CONFLICT DO NOTHING;
+
+CREATE TRIGGER update_loyalty_settings_updated_at
+BEFORE UPDATE ON public.loyalty_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.loyalty_settings IS 'Loyalty programme rules; a single row';
+COMMENT ON COLUMN public.loyalty_settings.points_per_unit IS 'Points earned per unit of currency spent, before the tier multiplier';
+COMMENT ON COLUMN public.loyalty_settings.point_value IS 'Discount one point is worth when redeemed';
+COMMENT ON COLUMN public.loyalty_settings.expiry_months IS 'Months until earned points expire; NULL means they never do';
+
+-- A customer's tier is the highest one their lifetime earned points reach
+CREATE TABLE IF NOT EXISTS public.loyalty_tiers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  min_points INTEGER NOT NULL UNIQUE CHECK (min_points >= 0),
+  earn_multiplier DECIMAL(4,2) NOT NULL DEFAULT 1 CHECK (earn_multiplier > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+INSERT INTO public.loyalty_tiers (name, min_points, earn_multiplier)
+VALUES ('Bronze', 0, 1.00), ('Silver', 2000, 1.25), ('Gold', 10000, 1.50)
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE public.loyalty_tiers IS 'Loyalty tiers by lifetime earned points, each with an earn multiplier';
+
+-- ============================================================================
+-- STEP 2: Points ledger
+-- ============================================================================
+
+-- earn: credited for a service or sale (negative when it is reduced or cancelled)
+-- redeem: spent as a discount (positive when the discount is given back)
+-- expire: earned points that passed their expiry date unspent
+CREATE TABLE IF NOT EXISTS public.loyalty_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'expire')),
+  points INTEGER NOT NULL CHECK (points <> 0),
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  sale_id UUID REFERENCES public.sales_transactions(id) ON DELETE SET NULL,
+  amount DECIMAL(10,2),
+  earn_rate DECIMAL(10,4),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  description TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer_id ON public.loyalty_ledger(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_service_id ON public.loyalty_ledger(service_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_sale_id ON public.loyalty_ledger(sale_id);
+
+COMMENT ON TABLE public.loyalty_ledger IS 'Every change to a customer''s loyalty points; the balance is the sum';
+COMMENT ON COLUMN public.loyalty_ledger.amount IS 'Spend the points were earned on, or the discount they were redeemed for';
+COMMENT ON COLUMN public.loyalty_ledger.earn_rate IS 'Points per unit of currency, tier multiplier included, fixed when a service or sale first earns';
+
+-- Discounts given for redeemed points
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0 CHECK (loyalty_points_redeemed >= 0),
+ADD COLUMN IF NOT EXISTS loyalty_discount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (loyalty_discount >= 0);
+
+ALTER TABLE public.sales_transactions
+ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0 CHECK (loyalty_points_redeemed >= 0),
+ADD COLUMN IF NOT EXISTS loyalty_discount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (loyalty_discount >= 0);
+
+COMMENT ON COLUMN public.sales_transactions.loyalty_discount IS 'Already taken off total_amount';
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['loyalty_settings', 'loyalty_tiers']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- A service's amount due is net of its loyalty discount
+CREATE OR REPLACE FUNCTION public.get_service_amount_due(p_service_id UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(0,
+    COALESCE(s.service_price, 0) +
+    COALESCE((SELECT SUM(sp.total_price) FROM public.service_products sp WHERE sp.service_id = s.id), 0) -
+    s.loyalty_discount
+  )::DECIMAL(10,2)
+  FROM public.services s
+  WHERE s.id = p_service_id;
+$$;
+
+-- ============================================================================
+-- STEP 3: Balances, tiers and expiry
+-- ============================================================================
+
+-- Points due to expire by p_as_of. Spending and earlier expiry use up the oldest points first,
+-- so whatever has been earned with an expiry on or before p_as_of and not used up since expires.
+CREATE OR REPLACE FUNCTION public.get_loyalty_points_expiring(p_customer_id UUID, p_as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(0,
+    COALESCE(SUM(points) FILTER (WHERE entry_type = 'earn' AND expires_at <= p_as_of), 0) +
+    COALESCE(SUM(points) FILTER (WHERE entry_type IN ('redeem', 'expire')), 0)
+  )::INTEGER
+  FROM public.loyalty_ledger
+  WHERE customer_id = p_customer_id;
+$$;
+
+-- Spendable points: the ledger total less anything already past its expiry
+CREATE OR REPLACE FUNCTION public.get_loyalty_points_balance(p_customer_id UUID)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    COALESCE((SELECT SUM(points) FROM public.loyalty_ledger WHERE customer_id = p_customer_id), 0) -
+    public.get_loyalty_points_expiring(p_customer_id)
+  )::INTEGER;
+$$;
+
+-- The tier a customer's lifetime earned points reach
+CREATE OR REPLACE FUNCTION public.get_customer_loyalty_tier(p_customer_id UUID)
+RETURNS public.loyalty_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT t.*
+  FROM public.loyalty_tiers t
+  WHERE t.min_points <= (
+    SELECT COALESCE(SUM(points), 0) FROM public.loyalty_ledger
+    WHERE customer_id = p_customer_id AND entry_type = 'earn'
+  )
+  ORDER BY t.min_points DESC
+  LIMIT 1;
+$$;
+
+-- Write the customer's expired points to the ledger; returns how many expired
+CREATE OR REPLACE FUNCTION public.expire_loyalty_points(p_customer_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_expiring INTEGER := public.get_loyalty_points_expiring(p_customer_id);
+BEGIN
+  IF v_expiring > 0 THEN
+    INSERT INTO public.loyalty_ledger (customer_id, entry_type, points, description, created_by)
+    VALUES (p_customer_id, 'expire', -v_expiring, 'Points expired', auth.uid());
+  END IF;
+
+  RETURN v_expiring;
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Earning and giving back
+-- ============================================================================
+
+-- Bring the points a service or sale has earned in line with what the customer owes for it.
+-- The rate is fixed the first time it earns, so later changes (a refund, an edited price) are
+-- valued the same way even if the customer has since moved up a tier.
+CREATE OR REPLACE FUNCTION public.sync_loyalty_earnings(
+  p_customer_id UUID,
+  p_amount DECIMAL,
+  p_description TEXT,
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.loyalty_settings;
+  v_other RECORD;
+  v_earned INTEGER;
+  v_rate DECIMAL(10,4);
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+  v_target INTEGER;
+BEGIN
+  -- Points credited to someone else for the same work move with it
+  FOR v_other IN
+    SELECT customer_id, SUM(points) AS points, MIN(expires_at) AS expires_at
+    FROM public.loyalty_ledger
+    WHERE entry_type = 'earn'
+      AND (service_id = p_service_id OR sale_id = p_sale_id)
+      AND customer_id IS DISTINCT FROM p_customer_id
+    GROUP BY customer_id
+    HAVING SUM(points) <> 0
+  LOOP
+    INSERT INTO public.loyalty_ledger (
+      customer_id, entry_type, points, service_id, sale_id, amount, expires_at, description, created_by
+    ) VALUES (
+      v_other.customer_id, 'earn', -v_other.points, p_service_id, p_sale_id, 0, v_other.expires_at,
+      CASE WHEN p_customer_id IS NULL THEN p_description ELSE p_description || ' (moved to another customer)' END,
+      auth.uid()
+    );
+  END LOOP;
+
+  IF p_customer_id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT COALESCE(SUM(points), 0), MAX(earn_rate), MIN(expires_at)
+  INTO v_earned, v_rate, v_expires_at
+  FROM public.loyalty_ledger
+  WHERE entry_type = 'earn'
+    AND customer_id = p_customer_id
+    AND (service_id = p_service_id OR sale_id = p_sale_id);
+
+  IF v_rate IS NULL THEN
+    SELECT * INTO v_settings FROM public.loyalty_settings;
+
+    IF NOT FOUND OR NOT v_settings.is_enabled OR COALESCE(p_amount, 0) <= 0 THEN
+      RETURN 0;
+    END IF;
+
+    v_rate := v_settings.points_per_unit * COALESCE((public.get_customer_loyalty_tier(p_customer_id)).earn_multiplier, 1);
+    v_expires_at := CASE
+      WHEN v_settings.expiry_months IS NOT NULL THEN now() + make_interval(months => v_settings.expiry_months)
+    END;
+  END IF;
+
+  v_target := FLOOR(GREATEST(COALESCE(p_amount, 0), 0) * v_rate)::INTEGER;
+
+  IF v_target <> v_earned THEN
+    INSERT INTO public.loyalty_ledger (
+      customer_id, entry_type, points, service_id, sale_id, amount, earn_rate, expires_at, description, created_by
+    ) VALUES (
+      p_customer_id, 'earn', v_target - v_earned, p_service_id, p_sale_id, p_amount, v_rate, v_expires_at,
+      CASE WHEN v_earned = 0 THEN p_description ELSE p_description || ' (adjusted)' END,
+      auth.uid()
+    );
+  END IF;
+
+  RETURN v_target - v_earned;
+END;
+$$;
+
+-- Give back the points redeemed against a cancelled service or sale
+CREATE OR REPLACE FUNCTION public.return_redeemed_loyalty_points(
+  p_description TEXT,
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_redeemed RECORD;
+  v_returned INTEGER := 0;
+BEGIN
+  FOR v_redeemed IN
+    SELECT customer_id, SUM(points) AS points, SUM(amount) AS amount
+    FROM public.loyalty_ledger
+    WHERE entry_type = 'redeem'
+      AND (service_id = p_service_id OR sale_id = p_sale_id)
+    GROUP BY customer_id
+    HAVING SUM(points) < 0
+  LOOP
+    INSERT INTO public.loyalty_ledger (
+      customer_id, entry_type, points, service_id, sale_id, amount, description, created_by
+    ) VALUES (
+      v_redeemed.customer_id, 'redeem', -v_redeemed.points, p_service_id, p_sale_id, -v_redeemed.amount,
+      p_description, auth.uid()
+    );
+
+    v_returned := v_returned - v_redeemed.points;
+  END LOOP;
+
+  RETURN v_returned;
+END;
+$$;
+
+-- The completion trigger now also keeps the service's loyalty points in step with its status
+CREATE OR REPLACE FUNCTION public.service_completion_trigger()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_has_products BOOLEAN;
+  v_deduction_success BOOLEAN;
+  v_amount DECIMAL(10,2);
+BEGIN
+  -- Only process when status changes to 'completed'
+  IF NEW.status = 'completed' AND OLD.status != 'completed' THEN
+
+    -- Check if service has products that need inventory deduction
+    SELECT EXISTS (
+      SELECT 1 FROM public.service_products WHERE service_id = NEW.id
+    ) INTO v_has_products;
+
+    IF v_has_products THEN
+      -- Attempt to deduct inventory
+      v_deduction_success := public.deduct_inventory_for_service(NEW.id, NEW.created_by);
+
+      -- If deduction fails, revert the status change
+      IF NOT v_deduction_success THEN
+        RAISE EXCEPTION 'Failed to deduct inventory for service. Please check stock levels.';
+      END IF;
+    END IF;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND NEW.loyalty_points_redeemed > 0 THEN
+    PERFORM public.return_redeemed_loyalty_points('Returned: ' || NEW.service_name || ' was cancelled', NEW.id);
+    NEW.loyalty_points_redeemed := 0;
+    NEW.loyalty_discount := 0;
+  END IF;
+
+  -- Completed work earns on what the customer owes; undoing a completion takes the points back
+  IF NEW.status = 'completed' OR OLD.status = 'completed' THEN
+    v_amount := CASE WHEN NEW.status = 'completed' THEN GREATEST(0,
+      COALESCE(NEW.service_price, 0) +
+      COALESCE((SELECT SUM(sp.total_price) FROM public.service_products sp WHERE sp.service_id = NEW.id), 0) -
+      NEW.loyalty_discount
+    ) ELSE 0 END;
+
+    PERFORM public.sync_loyalty_earnings(NEW.customer_id, v_amount, 'Service: ' || NEW.service_name, NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- A deleted booking takes its points with it and gives back anything redeemed against it
+CREATE OR REPLACE FUNCTION public.reverse_service_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.return_redeemed_loyalty_points('Returned: ' || OLD.service_name || ' was deleted', OLD.id);
+  PERFORM public.sync_loyalty_earnings(NULL, 0, 'Service: ' || OLD.service_name || ' (deleted)', OLD.id);
+  RETURN OLD;
+END;
+$$;
+
+-- A service recorded as already completed earns once the row exists; the ledger
+-- references the service, so this can't happen in the BEFORE completion trigger
+CREATE OR REPLACE FUNCTION public.sync_inserted_service_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.sync_loyalty_earnings(
+    NEW.customer_id,
+    GREATEST(0, COALESCE(NEW.service_price, 0) - NEW.loyalty_discount),
+    'Service: ' || NEW.service_name,
+    NEW.id
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_inserted_service_loyalty ON public.services;
+CREATE TRIGGER sync_inserted_service_loyalty
+AFTER INSERT ON public.services
+FOR EACH ROW
+WHEN (NEW.status = 'completed')
+EXECUTE FUNCTION public.sync_inserted_service_loyalty();
+
+DROP TRIGGER IF EXISTS reverse_service_loyalty ON public.services;
+CREATE TRIGGER reverse_service_loyalty
+BEFORE DELETE ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.reverse_service_loyalty();
+
+-- Sales earn on their amount due, so refunds reduce the points and a void removes them
+CREATE OR REPLACE FUNCTION public.sync_sale_loyalty()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'cancelled' THEN
+    PERFORM public.return_redeemed_loyalty_points('Returned: sale ' || COALESCE(NEW.reference_number, NEW.id::TEXT) || ' was voided', NULL, NEW.id);
+  END IF;
+
+  PERFORM public.sync_loyalty_earnings(
+    NEW.customer_id,
+    CASE WHEN NEW.status = 'cancelled' THEN 0 ELSE public.get_sale_amount_due(NEW.id) END,
+    'Sale ' || COALESCE(NEW.reference_number, NEW.id::TEXT),
+    NULL,
+    NEW.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_sale_loyalty ON public.sales_transactions;
+CREATE TRIGGER sync_sale_loyalty
+AFTER INSERT OR UPDATE OF total_amount, status, customer_id ON public.sales_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_sale_loyalty();
+
+-- Points sales and services made before the programme started are not credited retrospectively
+
+-- ============================================================================
+-- STEP 5: Redemption
+-- ============================================================================
+
+-- Check the customer can spend p_points and value them; expired points are written off first
+CREATE OR REPLACE FUNCTION public.price_loyalty_redemption(p_customer_id UUID, p_points INTEGER)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_settings public.loyalty_settings;
+  v_balance INTEGER;
+BEGIN
+  SELECT * INTO v_settings FROM public.loyalty_settings;
+
+  IF NOT FOUND OR NOT v_settings.is_enabled THEN
+    RAISE EXCEPTION 'The loyalty programme is switched off';
+  END IF;
+
+  IF p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a registered customer to redeem points';
+  END IF;
+
+  -- Serialise redemptions for the customer so the balance cannot be spent twice
+  PERFORM 1 FROM public.customers WHERE id = p_customer_id FOR UPDATE;
+
+  PERFORM public.expire_loyalty_points(p_customer_id);
+  v_balance := public.get_loyalty_points_balance(p_customer_id);
+
+  IF p_points < v_settings.min_redeem_points THEN
+    RAISE EXCEPTION 'At least % points must be redeemed at a time', v_settings.min_redeem_points;
+  END IF;
+
+  IF p_points > v_balance THEN
+    RAISE EXCEPTION 'The customer has only % points available', v_balance;
+  END IF;
+
+  RETURN ROUND(p_points * v_settings.point_value, 2);
+END;
+$$;
+
+-- Redeem points as a discount on a service
+CREATE OR REPLACE FUNCTION public.redeem_loyalty_points_for_service(p_service_id UUID, p_points INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_service RECORD;
+  v_discount DECIMAL(10,2);
+  v_outstanding DECIMAL(10,2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id, customer_id, service_name, status INTO v_service
+  FROM public.services
+  WHERE id = p_service_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  IF v_service.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot redeem points against a cancelled service';
+  END IF;
+
+  v_discount := public.price_loyalty_redemption(v_service.customer_id, p_points);
+  v_outstanding := public.get_service_amount_due(p_service_id) -
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE service_id = p_service_id), 0);
+
+  IF v_discount > v_outstanding THEN
+    RAISE EXCEPTION '% points are worth % but only % is outstanding', p_points, v_discount, GREATEST(v_outstanding, 0);
+  END IF;
+
+  INSERT INTO public.loyalty_ledger (customer_id, entry_type, points, service_id, amount, description, created_by)
+  VALUES (v_service.customer_id, 'redeem', -p_points, p_service_id, v_discount, 'Redeemed: ' || v_service.service_name, v_user_id);
+
+  -- Fires the completion trigger, which re-values the points the service earns
+  UPDATE public.services
+  SET loyalty_points_redeemed = loyalty_points_redeemed + p_points,
+      loyalty_discount = loyalty_discount + v_discount
+  WHERE id = p_service_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'points_redeemed', p_points,
+    'discount', v_discount,
+    'points_balance', public.get_loyalty_points_balance(v_service.customer_id),
+    'message', format('%s points redeemed for a discount of %s', p_points, v_discount)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to redeem points'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Checkout redeems points
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB);
+
+-- p_items: [{ "id": inventory item uuid, "variant_id": uuid, "name": text, "quantity": int }]
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+-- When omitted the sale is paid in full with p_payment_method.
+-- p_redeem_points: loyalty points the customer spends as a discount on the sale
+CREATE OR REPLACE FUNCTION public.process_cart_checkout(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_redeem_points INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created_by UUID := auth.uid();
+  v_sale_id UUID;
+  v_reference TEXT;
+  v_item JSONB;
+  v_inventory_item RECORD;
+  v_variant RECORD;
+  v_quantity INTEGER;
+  v_total_amount DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_items_count INTEGER := 0;
+  v_payments JSONB;
+  v_tender JSONB;
+  v_paid DECIMAL(10,2) := 0;
+  v_methods INTEGER;
+  v_payment_method TEXT;
+BEGIN
+  IF v_created_by IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_created_by, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to sell retail items';
+  END IF;
+
+  IF p_customer_name IS NULL OR btrim(p_customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart items cannot be empty';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO public.sales_transactions (
+    customer_id,
+    customer_name,
+    customer_phone,
+    payment_method,
+    reference_number,
+    total_amount,
+    items_count,
+    created_by
+  ) VALUES (
+    p_customer_id,
+    btrim(p_customer_name),
+    NULLIF(btrim(COALESCE(p_customer_phone, '')), ''),
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    0,
+    0,
+    v_created_by
+  ) RETURNING id INTO v_sale_id;
+
+  v_reference := COALESCE(NULLIF(btrim(COALESCE(p_reference_number, '')), ''), 'SALE-' || v_sale_id);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item "%"', COALESCE(v_item->>'name', v_item->>'id');
+    END IF;
+
+    -- Lock the row so concurrent checkouts cannot both pass the stock check
+    SELECT id, name, current_stock, product_variant_id
+    INTO v_inventory_item
+    FROM public.inventory_items
+    WHERE id = (v_item->>'id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item not found: %', v_item->>'id';
+    END IF;
+
+    -- Price, name and tax class come from the catalog variant the item is stocked as
+    SELECT
+      v.id,
+      p.name || COALESCE(' - ' || NULLIF(concat_ws(' / ', v.size, v.colour), ''), '') AS name,
+      COALESCE(v.retail_price, p.unit_price) AS retail_price,
+      p.tax_class
+    INTO v_variant
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    WHERE v.id = (v_item->>'variant_id')::UUID
+      AND v.is_active
+      AND p.is_active
+      AND v.id = v_inventory_item.product_variant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item "%" is not for sale in the retail catalog', v_inventory_item.name;
+    END IF;
+
+    IF v_inventory_item.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for item "%". Required: %, Available: %',
+        v_variant.name, v_quantity, v_inventory_item.current_stock;
+    END IF;
+
+    INSERT INTO public.sales_items (
+      sale_id,
+      inventory_item_id,
+      product_variant_id,
+      item_name,
+      unit_price,
+      quantity,
+      total_price,
+      tax_class
+    ) VALUES (
+      v_sale_id,
+      v_inventory_item.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.retail_price,
+      v_quantity,
+      v_variant.retail_price * v_quantity,
+      v_variant.tax_class
+    );
+
+    INSERT INTO public.inventory_transactions (
+      item_id,
+      transaction_type,
+      quantity,
+      unit_price,
+      total_amount,
+      reason,
+      reference_number,
+      created_by
+    ) VALUES (
+      v_inventory_item.id,
+      'stock_out',
+      v_quantity,
+      v_variant.retail_price,
+      v_variant.retail_price * v_quantity,
+      'Sale to ' || btrim(p_customer_name),
+      v_reference,
+      v_created_by
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock - v_quantity
+    WHERE id = v_inventory_item.id;
+
+    v_total_amount := v_total_amount + (v_variant.retail_price * v_quantity);
+    v_items_count := v_items_count + v_quantity;
+  END LOOP;
+
+  -- Points come off the goods total; the tenders cover what is left
+  IF COALESCE(p_redeem_points, 0) > 0 THEN
+    v_discount := public.price_loyalty_redemption(p_customer_id, p_redeem_points);
+
+    IF v_discount > v_total_amount THEN
+      RAISE EXCEPTION '% points are worth % but the sale total is %', p_redeem_points, v_discount, v_total_amount;
+    END IF;
+
+    INSERT INTO public.loyalty_ledger (customer_id, entry_type, points, sale_id, amount, description, created_by)
+    VALUES (p_customer_id, 'redeem', -p_redeem_points, v_sale_id, v_discount, 'Redeemed: sale ' || v_reference, v_created_by);
+
+    v_total_amount := v_total_amount - v_discount;
+  END IF;
+
+  -- Tenders
+  v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+    'payment_method', COALESCE(p_payment_method, 'cash'),
+    'amount', v_total_amount,
+    'reference_number', p_reference_number
+  )));
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, customer_id, amount, payment_method, reference_number, received_by
+    ) VALUES (
+      v_sale_id,
+      p_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_created_by
+    );
+
+    v_paid := v_paid + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_paid > v_total_amount THEN
+    RAISE EXCEPTION 'Payments of % exceed the sale total of %', v_paid, v_total_amount;
+  END IF;
+
+  IF v_paid < v_total_amount AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a registered customer to leave a balance of % outstanding', v_total_amount - v_paid;
+  END IF;
+
+  SELECT COUNT(DISTINCT payment_method), MIN(payment_method)
+  INTO v_methods, v_payment_method
+  FROM public.payments
+  WHERE sale_id = v_sale_id;
+
+  UPDATE public.sales_transactions
+  SET total_amount = v_total_amount,
+      items_count = v_items_count,
+      loyalty_points_redeemed = COALESCE(p_redeem_points, 0),
+      loyalty_discount = v_discount,
+      reference_number = v_reference,
+      payment_method = CASE
+        WHEN v_methods = 0 THEN 'on_account'
+        WHEN v_methods > 1 THEN 'split'
+        ELSE v_payment_method
+      END
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'reference_number', v_reference,
+    'total_amount', v_total_amount,
+    'loyalty_discount', v_discount,
+    'points_redeemed', COALESCE(p_redeem_points, 0),
+    -- Credited by sync_sale_loyalty when the total was written above
+    'points_earned', (
+      SELECT COALESCE(SUM(points), 0) FROM public.loyalty_ledger WHERE sale_id = v_sale_id AND entry_type = 'earn'
+    ),
+    'points_balance', CASE WHEN p_customer_id IS NOT NULL THEN public.get_loyalty_points_balance(p_customer_id) END,
+    'amount_paid', v_paid,
+    'balance', v_total_amount - v_paid,
+    'items_count', v_items_count,
+    'created_at', now(),
+    'message', 'Sale completed successfully'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Any failure rolls back the sale, its items, payments and every stock movement
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process cart checkout'
+    );
+END;
+$$;
+
+
+-- ============================================================================
+-- STEP 7: Reading points
+-- ============================================================================
+
+-- A customer's balance, tier and recent ledger for their profile
+CREATE OR REPLACE FUNCTION public.get_customer_loyalty(p_customer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_lifetime INTEGER;
+  v_tier public.loyalty_tiers;
+  v_next_tier public.loyalty_tiers;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'customers') THEN
+    RAISE EXCEPTION 'Customers access is required to view loyalty points';
+  END IF;
+
+  SELECT COALESCE(SUM(points), 0) INTO v_lifetime
+  FROM public.loyalty_ledger
+  WHERE customer_id = p_customer_id AND entry_type = 'earn';
+
+  v_tier := public.get_customer_loyalty_tier(p_customer_id);
+
+  SELECT * INTO v_next_tier
+  FROM public.loyalty_tiers
+  WHERE min_points > v_lifetime
+  ORDER BY min_points
+  LIMIT 1;
+
+  RETURN jsonb_build_object(
+    'points_balance', public.get_loyalty_points_balance(p_customer_id),
+    'lifetime_points', v_lifetime,
+    'tier', CASE WHEN v_tier.id IS NOT NULL THEN jsonb_build_object(
+      'name', v_tier.name, 'min_points', v_tier.min_points, 'earn_multiplier', v_tier.earn_multiplier
+    ) END,
+    'next_tier', CASE WHEN v_next_tier.id IS NOT NULL THEN jsonb_build_object(
+      'name', v_next_tier.name, 'min_points', v_next_tier.min_points, 'earn_multiplier', v_next_tier.earn_multiplier
+    ) END,
+    'expiring_soon', public.get_loyalty_points_expiring(p_customer_id, now() + INTERVAL '30 days') -
+      public.get_loyalty_points_expiring(p_customer_id),
+    'ledger', COALESCE((
+      SELECT jsonb_agg(entry ORDER BY entry.created_at DESC)
+      FROM (
+        SELECT l.id, l.entry_type, l.points, l.amount, l.description, l.expires_at, l.created_at
+        FROM public.loyalty_ledger l
+        WHERE l.customer_id = p_customer_id
+        ORDER BY l.created_at DESC
+        LIMIT 50
+      ) entry
+    ), '[]'::JSONB)
+  );
+END;
+$$;
+
+-- Balance and tier for every customer with points, for the customer directory
+CREATE OR REPLACE FUNCTION public.get_loyalty_balances()
+RETURNS TABLE (
+  customer_id UUID,
+  points_balance INTEGER,
+  tier_name TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    c.customer_id,
+    public.get_loyalty_points_balance(c.customer_id),
+    (public.get_customer_loyalty_tier(c.customer_id)).name
+  FROM (SELECT DISTINCT l.customer_id FROM public.loyalty_ledger l) c
+  -- Same grant as the loyalty_ledger SELECT policy
+  WHERE public.has_feature(auth.uid(), 'customers');
+$$;
+
+-- Points redeemed and earned on one service or sale, and the balance now, for its receipt
+CREATE OR REPLACE FUNCTION public.get_loyalty_receipt(
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer_id UUID;
+  v_discount DECIMAL(10,2);
+BEGIN
+  IF p_service_id IS NOT NULL THEN
+    IF NOT public.has_feature(auth.uid(), 'services') THEN
+      RAISE EXCEPTION 'Services access is required to view a service receipt';
+    END IF;
+
+    SELECT customer_id, loyalty_discount INTO v_customer_id, v_discount FROM public.services WHERE id = p_service_id;
+  ELSE
+    IF NOT public.has_feature(auth.uid(), 'inventory') THEN
+      RAISE EXCEPTION 'Inventory access is required to view a sale receipt';
+    END IF;
+
+    SELECT customer_id, loyalty_discount INTO v_customer_id, v_discount FROM public.sales_transactions WHERE id = p_sale_id;
+  END IF;
+
+  IF v_customer_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN (
+    SELECT jsonb_build_object(
+      'points_redeemed', COALESCE(-SUM(l.points) FILTER (WHERE l.entry_type = 'redeem'), 0),
+      'discount', v_discount,
+      'points_earned', COALESCE(SUM(l.points) FILTER (WHERE l.entry_type = 'earn' AND l.customer_id = v_customer_id), 0),
+      'points_balance', public.get_loyalty_points_balance(v_customer_id)
+    )
+    FROM public.loyalty_ledger l
+    WHERE (p_service_id IS NOT NULL AND l.service_id = p_service_id)
+       OR (p_sale_id IS NOT NULL AND l.sale_id = p_sale_id)
+  );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 8: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.loyalty_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view loyalty settings" ON public.loyalty_settings
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage loyalty settings" ON public.loyalty_settings
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Authenticated users can view loyalty tiers" ON public.loyalty_tiers
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage loyalty tiers" ON public.loyalty_tiers
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- Points are only written by the triggers and redemption functions above
+CREATE POLICY "Granted roles can view loyalty points" ON public.loyalty_ledger
+FOR SELECT USING (public.has_feature(auth.uid(), 'customers'));
+
+-- ============================================================================
+-- STEP 9: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.loyalty_settings TO authenticated;
+GRANT UPDATE ON public.loyalty_settings TO authenticated;
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.loyalty_tiers TO authenticated;
+GRANT SELECT ON public.loyalty_ledger TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_customer_loyalty(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_loyalty_balances() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_loyalty_receipt(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_loyalty_points_for_service(UUID, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB, INTEGER) TO authenticated;
+
+-- Internal: only reachable through the triggers and functions above. Supabase grants
+-- EXECUTE to anon and authenticated directly, so revoking from PUBLIC alone isn't enough.
+REVOKE EXECUTE ON FUNCTION public.expire_loyalty_points(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_loyalty_earnings(UUID, DECIMAL, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.return_redeemed_loyalty_points(TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.price_loyalty_redemption(UUID, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_loyalty_points_expiring(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_loyalty_points_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.get_customer_loyalty_tier(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sync_loyalty_earnings IS 'Credits or reverses the points a service or sale earns so they match its amount due';
+COMMENT ON FUNCTION public.redeem_loyalty_points_for_service IS 'Spends a customer''s points as a discount on a service';
+COMMENT ON FUNCTION public.process_cart_checkout IS 'Atomically records a sale of catalog variants, its items, tenders, redeemed points and the stock-out transactions';
+COMMENT ON FUNCTION public.get_customer_loyalty IS 'A customer''s points balance, tier, points expiring in 30 days and recent ledger';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Loyalty points installed: settings, tiers, ledger, earning triggers and redemption';
+END $$;
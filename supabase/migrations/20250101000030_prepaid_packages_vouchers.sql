@@ -0,0 +1,731 @@
+-- Migration: Prepaid service packages and gift vouchers
+-- Date: 2025-01-01
+-- Description: Packages of prepaid service units (e.g. five washes) sold to a customer for
+--              one catalog service, and gift vouchers with a code, value and expiry. A package
+--              unit is used automatically when a matching service is completed; a voucher is
+--              redeemed against a service for part or all of what is owed. Both are paid for
+--              up front through the payments ledger and held as a liability until redeemed.
+
+-- ============================================================================
+-- STEP 1: Packages
+-- ============================================================================
+
+-- What can be sold: N units of one catalog service for a bundle price
+CREATE TABLE IF NOT EXISTS public.service_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  catalog_service_id UUID NOT NULL REFERENCES public.service_catalog(id),
+  units INTEGER NOT NULL CHECK (units > 0),
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  validity_months INTEGER CHECK (validity_months > 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_service_packages_updated_at
+BEFORE UPDATE ON public.service_packages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON COLUMN public.service_packages.validity_months IS 'Months a sold package can be used for; NULL means it never expires';
+
+-- A package sold to a customer. Name, service and price are copied so later edits to the
+-- package do not change what the customer bought.
+CREATE TABLE IF NOT EXISTS public.customer_packages (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  package_id UUID NOT NULL REFERENCES public.service_packages(id),
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  catalog_service_id UUID NOT NULL REFERENCES public.service_catalog(id),
+  name TEXT NOT NULL,
+  units_total INTEGER NOT NULL CHECK (units_total > 0),
+  units_remaining INTEGER NOT NULL CHECK (units_remaining >= 0),
+  price_paid DECIMAL(10,2) NOT NULL CHECK (price_paid >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  sold_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT customer_packages_units_check CHECK (units_remaining <= units_total)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_packages_customer_id ON public.customer_packages(customer_id, catalog_service_id);
+
+-- ============================================================================
+-- STEP 2: Gift vouchers
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.gift_vouchers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code TEXT NOT NULL UNIQUE,
+  initial_value DECIMAL(10,2) NOT NULL CHECK (initial_value > 0),
+  balance DECIMAL(10,2) NOT NULL CHECK (balance >= 0),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  purchaser_name TEXT NOT NULL,
+  recipient_name TEXT,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  sold_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT gift_vouchers_balance_within_value CHECK (balance <= initial_value)
+);
+
+COMMENT ON COLUMN public.gift_vouchers.customer_id IS 'Registered customer who bought the voucher, if any';
+
+-- ============================================================================
+-- STEP 3: Redemptions and payments
+-- ============================================================================
+
+-- Every use of a package unit or voucher value against a service; reversals are negative rows
+CREATE TABLE IF NOT EXISTS public.prepaid_redemptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  customer_package_id UUID REFERENCES public.customer_packages(id) ON DELETE CASCADE,
+  gift_voucher_id UUID REFERENCES public.gift_vouchers(id) ON DELETE CASCADE,
+  units INTEGER NOT NULL DEFAULT 0,
+  amount DECIMAL(10,2) NOT NULL,
+  covered DECIMAL(10,2) NOT NULL,
+  description TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT prepaid_redemptions_single_source CHECK ((customer_package_id IS NULL) <> (gift_voucher_id IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_prepaid_redemptions_service_id ON public.prepaid_redemptions(service_id);
+CREATE INDEX IF NOT EXISTS idx_prepaid_redemptions_customer_package_id ON public.prepaid_redemptions(customer_package_id);
+CREATE INDEX IF NOT EXISTS idx_prepaid_redemptions_gift_voucher_id ON public.prepaid_redemptions(gift_voucher_id);
+
+COMMENT ON COLUMN public.prepaid_redemptions.amount IS 'Prepaid value used up, i.e. liability released';
+COMMENT ON COLUMN public.prepaid_redemptions.covered IS 'Taken off what the customer owes for the service';
+
+ALTER TABLE public.services
+ADD COLUMN IF NOT EXISTS prepaid_covered DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (prepaid_covered >= 0);
+
+COMMENT ON COLUMN public.services.prepaid_covered IS 'Covered by a package unit or gift voucher';
+
+-- Packages and vouchers are paid for through the same ledger as services and sales
+ALTER TABLE public.payments
+ADD COLUMN IF NOT EXISTS customer_package_id UUID REFERENCES public.customer_packages(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS gift_voucher_id UUID REFERENCES public.gift_vouchers(id) ON DELETE CASCADE;
+
+ALTER TABLE public.payments DROP CONSTRAINT IF EXISTS payments_single_target;
+ALTER TABLE public.payments
+ADD CONSTRAINT payments_single_target CHECK (num_nonnulls(service_id, sale_id, customer_package_id, gift_voucher_id) = 1);
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['service_packages', 'customer_packages', 'gift_vouchers']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- A service's amount due is also net of what a package or voucher covered
+CREATE OR REPLACE FUNCTION public.get_service_amount_due(p_service_id UUID)
+RETURNS DECIMAL(10,2)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(0,
+    COALESCE(s.service_price, 0) +
+    COALESCE((SELECT SUM(sp.total_price) FROM public.service_products sp WHERE sp.service_id = s.id), 0) -
+    s.loyalty_discount -
+    s.prepaid_covered
+  )::DECIMAL(10,2)
+  FROM public.services s
+  WHERE s.id = p_service_id;
+$$;
+
+-- ============================================================================
+-- STEP 4: Selling
+-- ============================================================================
+
+-- Record the tenders for a package or voucher; they must add up to its price exactly
+CREATE OR REPLACE FUNCTION public.record_prepaid_payments(
+  p_payments JSONB,
+  p_price DECIMAL,
+  p_customer_id UUID,
+  p_customer_package_id UUID DEFAULT NULL,
+  p_gift_voucher_id UUID DEFAULT NULL
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_tender JSONB;
+  v_tendered DECIMAL(10,2) := 0;
+BEGIN
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(COALESCE(p_payments, '[]'::JSONB))
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      customer_package_id, gift_voucher_id, customer_id, amount, payment_method, reference_number, received_by
+    ) VALUES (
+      p_customer_package_id,
+      p_gift_voucher_id,
+      p_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      auth.uid()
+    );
+
+    v_tendered := v_tendered + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_tendered <> p_price THEN
+    RAISE EXCEPTION 'Prepaid items are paid in full: payments of % do not match the price of %', v_tendered, p_price;
+  END IF;
+
+  RETURN v_tendered;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sell_service_package(
+  p_customer_id UUID,
+  p_package_id UUID,
+  p_payments JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_package public.service_packages;
+  v_customer_package_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'customers') THEN
+    RAISE EXCEPTION 'You do not have permission to sell packages';
+  END IF;
+
+  SELECT * INTO v_package FROM public.service_packages WHERE id = p_package_id AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Package not found or no longer sold';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Select a registered customer';
+  END IF;
+
+  v_expires_at := CASE
+    WHEN v_package.validity_months IS NOT NULL THEN now() + make_interval(months => v_package.validity_months)
+  END;
+
+  INSERT INTO public.customer_packages (
+    package_id, customer_id, catalog_service_id, name, units_total, units_remaining, price_paid, expires_at, sold_by
+  ) VALUES (
+    v_package.id, p_customer_id, v_package.catalog_service_id, v_package.name, v_package.units, v_package.units,
+    v_package.price, v_expires_at, v_user_id
+  )
+  RETURNING id INTO v_customer_package_id;
+
+  PERFORM public.record_prepaid_payments(p_payments, v_package.price, p_customer_id, v_customer_package_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'customer_package_id', v_customer_package_id,
+    'expires_at', v_expires_at,
+    'message', format('%s sold with %s units', v_package.name, v_package.units)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to sell package'
+    );
+END;
+$$;
+
+-- p_code: printed on the voucher; generated when omitted. Without p_validity_months it never expires.
+CREATE OR REPLACE FUNCTION public.issue_gift_voucher(
+  p_value DECIMAL,
+  p_purchaser_name TEXT,
+  p_payments JSONB,
+  p_recipient_name TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_validity_months INTEGER DEFAULT NULL,
+  p_code TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_code TEXT := upper(NULLIF(btrim(COALESCE(p_code, '')), ''));
+  v_voucher_id UUID;
+  v_expires_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'customers') THEN
+    RAISE EXCEPTION 'You do not have permission to sell gift vouchers';
+  END IF;
+
+  IF COALESCE(p_value, 0) <= 0 THEN
+    RAISE EXCEPTION 'Voucher value must be greater than zero';
+  END IF;
+
+  IF NULLIF(btrim(COALESCE(p_purchaser_name, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Enter who bought the voucher';
+  END IF;
+
+  IF v_code IS NOT NULL THEN
+    IF EXISTS (SELECT 1 FROM public.gift_vouchers WHERE code = v_code) THEN
+      RAISE EXCEPTION 'Voucher code % is already in use', v_code;
+    END IF;
+  ELSE
+    LOOP
+      v_code := 'GV-' || upper(substr(md5(random()::TEXT || clock_timestamp()::TEXT), 1, 8));
+      EXIT WHEN NOT EXISTS (SELECT 1 FROM public.gift_vouchers WHERE code = v_code);
+    END LOOP;
+  END IF;
+
+  v_expires_at := CASE WHEN p_validity_months IS NOT NULL THEN now() + make_interval(months => p_validity_months) END;
+
+  INSERT INTO public.gift_vouchers (
+    code, initial_value, balance, expires_at, purchaser_name, recipient_name, customer_id, sold_by
+  ) VALUES (
+    v_code, p_value, p_value, v_expires_at, btrim(p_purchaser_name), NULLIF(btrim(COALESCE(p_recipient_name, '')), ''),
+    p_customer_id, v_user_id
+  )
+  RETURNING id INTO v_voucher_id;
+
+  PERFORM public.record_prepaid_payments(p_payments, p_value, p_customer_id, NULL, v_voucher_id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'gift_voucher_id', v_voucher_id,
+    'code', v_code,
+    'expires_at', v_expires_at,
+    'message', format('Gift voucher %s issued', v_code)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to issue gift voucher'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Redemption
+-- ============================================================================
+
+-- Give back the package units and voucher value a service used
+CREATE OR REPLACE FUNCTION public.reverse_prepaid_redemptions(
+  p_service_id UUID,
+  p_description TEXT,
+  p_packages BOOLEAN DEFAULT true,
+  p_vouchers BOOLEAN DEFAULT true
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_used RECORD;
+  v_uncovered DECIMAL(10,2) := 0;
+BEGIN
+  FOR v_used IN
+    SELECT customer_package_id, gift_voucher_id, SUM(units) AS units, SUM(amount) AS amount, SUM(covered) AS covered
+    FROM public.prepaid_redemptions
+    WHERE service_id = p_service_id
+      AND ((p_packages AND customer_package_id IS NOT NULL) OR (p_vouchers AND gift_voucher_id IS NOT NULL))
+    GROUP BY customer_package_id, gift_voucher_id
+    HAVING SUM(amount) <> 0 OR SUM(units) <> 0
+  LOOP
+    IF v_used.customer_package_id IS NOT NULL THEN
+      UPDATE public.customer_packages
+      SET units_remaining = units_remaining + v_used.units
+      WHERE id = v_used.customer_package_id;
+    ELSE
+      UPDATE public.gift_vouchers
+      SET balance = balance + v_used.amount
+      WHERE id = v_used.gift_voucher_id;
+    END IF;
+
+    INSERT INTO public.prepaid_redemptions (
+      service_id, customer_package_id, gift_voucher_id, units, amount, covered, description, created_by
+    ) VALUES (
+      p_service_id, v_used.customer_package_id, v_used.gift_voucher_id, -v_used.units, -v_used.amount, -v_used.covered,
+      p_description, auth.uid()
+    );
+
+    v_uncovered := v_uncovered + v_used.covered;
+  END LOOP;
+
+  RETURN v_uncovered;
+END;
+$$;
+
+-- Completing a service uses a unit of the customer's matching package, soonest to expire first.
+-- Undoing the completion gives the unit back; cancelling also gives back voucher value.
+CREATE OR REPLACE FUNCTION public.sync_service_prepaid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_package public.customer_packages;
+  v_amount DECIMAL(10,2);
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed'
+     AND NEW.customer_id IS NOT NULL
+     AND NEW.catalog_service_id IS NOT NULL THEN
+    SELECT * INTO v_package
+    FROM public.customer_packages
+    WHERE customer_id = NEW.customer_id
+      AND catalog_service_id = NEW.catalog_service_id
+      AND units_remaining > 0
+      AND (expires_at IS NULL OR expires_at > now())
+    ORDER BY expires_at NULLS LAST, created_at
+    LIMIT 1
+    FOR UPDATE;
+
+    IF FOUND THEN
+      -- The last unit releases whatever is left so the package's liability ends at exactly zero
+      v_amount := CASE
+        WHEN v_package.units_remaining = 1 THEN v_package.price_paid - COALESCE((
+          SELECT SUM(amount) FROM public.prepaid_redemptions WHERE customer_package_id = v_package.id
+        ), 0)
+        ELSE ROUND(v_package.price_paid / v_package.units_total, 2)
+      END;
+
+      UPDATE public.customer_packages
+      SET units_remaining = units_remaining - 1
+      WHERE id = v_package.id;
+
+      INSERT INTO public.prepaid_redemptions (
+        service_id, customer_package_id, units, amount, covered, description, created_by
+      ) VALUES (
+        NEW.id, v_package.id, 1, v_amount, COALESCE(NEW.service_price, 0),
+        'Package: ' || v_package.name || ' used for ' || NEW.service_name, auth.uid()
+      );
+
+      NEW.prepaid_covered := NEW.prepaid_covered + COALESCE(NEW.service_price, 0);
+    END IF;
+  ELSIF OLD.status = 'completed' AND NEW.status <> 'completed' THEN
+    NEW.prepaid_covered := GREATEST(0, NEW.prepaid_covered -
+      public.reverse_prepaid_redemptions(NEW.id, 'Returned: ' || NEW.service_name || ' is no longer completed', true, false));
+  END IF;
+
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    NEW.prepaid_covered := GREATEST(0, NEW.prepaid_covered -
+      public.reverse_prepaid_redemptions(NEW.id, 'Returned: ' || NEW.service_name || ' was cancelled'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Fires before trigger_service_completion (alphabetical), so its loyalty and amount-due
+-- calculations already see the package cover
+DROP TRIGGER IF EXISTS sync_service_prepaid ON public.services;
+CREATE TRIGGER sync_service_prepaid
+BEFORE UPDATE OF status ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_service_prepaid();
+
+CREATE OR REPLACE FUNCTION public.reverse_service_prepaid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.reverse_prepaid_redemptions(OLD.id, 'Returned: ' || OLD.service_name || ' was deleted');
+  RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reverse_service_prepaid ON public.services;
+CREATE TRIGGER reverse_service_prepaid
+BEFORE DELETE ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.reverse_service_prepaid();
+
+-- Spend a gift voucher against what is still owed for a service; p_amount defaults to as
+-- much as the voucher and the outstanding balance allow
+CREATE OR REPLACE FUNCTION public.redeem_gift_voucher_for_service(
+  p_service_id UUID,
+  p_code TEXT,
+  p_amount DECIMAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_service RECORD;
+  v_voucher public.gift_vouchers;
+  v_outstanding DECIMAL(10,2);
+  v_amount DECIMAL(10,2);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_user_id, 'services') THEN
+    RAISE EXCEPTION 'Services access is required to redeem a voucher against a service';
+  END IF;
+
+  -- Same visibility as the services RLS: own services unless all_services, within branch scope
+  SELECT id, service_name, status INTO v_service
+  FROM public.services
+  WHERE id = p_service_id
+    AND (created_by = v_user_id OR public.has_feature(v_user_id, 'all_services'))
+    AND public.in_branch_scope(branch_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service not found';
+  END IF;
+
+  IF v_service.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Cannot redeem a voucher against a cancelled service';
+  END IF;
+
+  SELECT * INTO v_voucher
+  FROM public.gift_vouchers
+  WHERE code = upper(btrim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No gift voucher with code %', upper(btrim(p_code));
+  END IF;
+
+  IF v_voucher.expires_at IS NOT NULL AND v_voucher.expires_at <= now() THEN
+    RAISE EXCEPTION 'Gift voucher % expired on %', v_voucher.code, to_char(v_voucher.expires_at, 'YYYY-MM-DD');
+  END IF;
+
+  IF v_voucher.balance <= 0 THEN
+    RAISE EXCEPTION 'Gift voucher % has been used up', v_voucher.code;
+  END IF;
+
+  v_outstanding := public.get_service_amount_due(p_service_id) -
+    COALESCE((SELECT SUM(amount) FROM public.payments WHERE service_id = p_service_id), 0);
+  v_amount := COALESCE(p_amount, LEAST(v_voucher.balance, v_outstanding));
+
+  IF v_amount <= 0 THEN
+    RAISE EXCEPTION 'Nothing is outstanding on this service';
+  END IF;
+
+  IF v_amount > v_voucher.balance THEN
+    RAISE EXCEPTION 'Gift voucher % only has % left', v_voucher.code, v_voucher.balance;
+  END IF;
+
+  IF v_amount > v_outstanding THEN
+    RAISE EXCEPTION 'Only % is outstanding on this service', GREATEST(v_outstanding, 0);
+  END IF;
+
+  UPDATE public.gift_vouchers
+  SET balance = balance - v_amount
+  WHERE id = v_voucher.id;
+
+  INSERT INTO public.prepaid_redemptions (
+    service_id, gift_voucher_id, amount, covered, description, created_by
+  ) VALUES (
+    p_service_id, v_voucher.id, v_amount, v_amount, 'Voucher ' || v_voucher.code || ' used for ' || v_service.service_name, v_user_id
+  );
+
+  UPDATE public.services
+  SET prepaid_covered = prepaid_covered + v_amount
+  WHERE id = p_service_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'amount', v_amount,
+    'voucher_balance', v_voucher.balance - v_amount,
+    'message', format('%s taken off with voucher %s', v_amount, v_voucher.code)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to redeem gift voucher'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Reporting
+-- ============================================================================
+
+-- Package units and voucher value a service used, for its receipt
+CREATE OR REPLACE FUNCTION public.get_service_prepaid(p_service_id UUID)
+RETURNS TABLE (
+  source TEXT,
+  name TEXT,
+  units INTEGER,
+  covered DECIMAL(10,2)
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    CASE WHEN r.customer_package_id IS NOT NULL THEN 'package' ELSE 'voucher' END,
+    COALESCE(cp.name, gv.code),
+    SUM(r.units)::INTEGER,
+    SUM(r.covered)::DECIMAL(10,2)
+  FROM public.prepaid_redemptions r
+  LEFT JOIN public.customer_packages cp ON cp.id = r.customer_package_id
+  LEFT JOIN public.gift_vouchers gv ON gv.id = r.gift_voucher_id
+  WHERE r.service_id = p_service_id
+  GROUP BY r.customer_package_id, r.gift_voucher_id, cp.name, gv.code
+  HAVING SUM(r.covered) <> 0;
+$$;
+
+-- Unredeemed prepaid balances owed to customers (still usable) and those that lapsed unused,
+-- plus what was sold and redeemed between p_from and p_to
+CREATE OR REPLACE FUNCTION public.get_prepaid_liability(
+  p_from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_packages JSONB;
+  v_vouchers JSONB;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'reports') THEN
+    RAISE EXCEPTION 'You do not have permission to view financial reports';
+  END IF;
+
+  WITH package_balances AS (
+    SELECT
+      cp.*,
+      cp.price_paid - COALESCE((SELECT SUM(r.amount) FROM public.prepaid_redemptions r WHERE r.customer_package_id = cp.id), 0) AS remaining_value,
+      (cp.expires_at IS NOT NULL AND cp.expires_at <= now()) AS is_expired
+    FROM public.customer_packages cp
+  )
+  SELECT jsonb_build_object(
+    'outstanding', COALESCE(SUM(remaining_value) FILTER (WHERE NOT is_expired), 0),
+    'outstanding_units', COALESCE(SUM(units_remaining) FILTER (WHERE NOT is_expired), 0),
+    'open_count', COUNT(*) FILTER (WHERE NOT is_expired AND units_remaining > 0),
+    'expired_unredeemed', COALESCE(SUM(remaining_value) FILTER (WHERE is_expired), 0),
+    'sold', COALESCE(SUM(price_paid) FILTER (
+      WHERE (p_from IS NULL OR created_at >= p_from) AND (p_to IS NULL OR created_at < p_to)
+    ), 0)
+  )
+  INTO v_packages
+  FROM package_balances;
+
+  SELECT jsonb_build_object(
+    'outstanding', COALESCE(SUM(balance) FILTER (WHERE expires_at IS NULL OR expires_at > now()), 0),
+    'open_count', COUNT(*) FILTER (WHERE balance > 0 AND (expires_at IS NULL OR expires_at > now())),
+    'expired_unredeemed', COALESCE(SUM(balance) FILTER (WHERE expires_at <= now()), 0),
+    'sold', COALESCE(SUM(initial_value) FILTER (
+      WHERE (p_from IS NULL OR created_at >= p_from) AND (p_to IS NULL OR created_at < p_to)
+    ), 0)
+  )
+  INTO v_vouchers
+  FROM public.gift_vouchers;
+
+  RETURN jsonb_build_object(
+    'packages', v_packages || jsonb_build_object('redeemed', (
+      SELECT COALESCE(SUM(amount), 0) FROM public.prepaid_redemptions
+      WHERE customer_package_id IS NOT NULL
+        AND (p_from IS NULL OR created_at >= p_from) AND (p_to IS NULL OR created_at < p_to)
+    )),
+    'vouchers', v_vouchers || jsonb_build_object('redeemed', (
+      SELECT COALESCE(SUM(amount), 0) FROM public.prepaid_redemptions
+      WHERE gift_voucher_id IS NOT NULL
+        AND (p_from IS NULL OR created_at >= p_from) AND (p_to IS NULL OR created_at < p_to)
+    ))
+  );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 7: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.service_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_packages ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_vouchers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.prepaid_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view service packages" ON public.service_packages
+FOR SELECT USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Admins can manage service packages" ON public.service_packages
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- Sold packages, vouchers and redemptions are only written by the functions above
+CREATE POLICY "Granted roles can view customer packages" ON public.customer_packages
+FOR SELECT USING (public.has_feature(auth.uid(), 'customers'));
+
+CREATE POLICY "Granted roles can view gift vouchers" ON public.gift_vouchers
+FOR SELECT USING (public.has_feature(auth.uid(), 'customers'));
+
+CREATE POLICY "Granted roles can view prepaid redemptions" ON public.prepaid_redemptions
+FOR SELECT USING (public.has_feature(auth.uid(), 'customers'));
+
+-- ============================================================================
+-- STEP 8: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.service_packages TO authenticated;
+GRANT SELECT ON public.customer_packages TO authenticated;
+GRANT SELECT ON public.gift_vouchers TO authenticated;
+GRANT SELECT ON public.prepaid_redemptions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.sell_service_package(UUID, UUID, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.issue_gift_voucher(DECIMAL, TEXT, JSONB, TEXT, UUID, INTEGER, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_gift_voucher_for_service(UUID, TEXT, DECIMAL) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_service_prepaid(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_prepaid_liability(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Internal: only reachable through the triggers and functions above
+REVOKE EXECUTE ON FUNCTION public.record_prepaid_payments(JSONB, DECIMAL, UUID, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.reverse_prepaid_redemptions(UUID, TEXT, BOOLEAN, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.sell_service_package IS 'Sells a package of prepaid service units to a customer, paid in full';
+COMMENT ON FUNCTION public.issue_gift_voucher IS 'Sells a gift voucher with a code, value and expiry, paid in full';
+COMMENT ON FUNCTION public.redeem_gift_voucher_for_service IS 'Takes part or all of what is owed for a service off a gift voucher';
+COMMENT ON FUNCTION public.get_prepaid_liability IS 'Unredeemed package and voucher balances, lapsed balances, and period sales and redemptions';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Prepaid packages and gift vouchers installed: selling, redemption on completion and liability reporting';
+END $$;
@@ -0,0 +1,321 @@
+-- Migration: Server-side commission ledger
+-- Date: 2025-01-01
+-- Description: Commission is posted by the database when a service is completed, one ledger
+--              entry per service, instead of the browser read-modify-writing worker totals.
+--              Editing a completed service (price, worker, rate or date), un-completing,
+--              cancelling or deleting it reverses its entry and posts a new one where due.
+--              Monthly and all-time totals are derived from the ledger, and the ledger can
+--              be rebuilt from the services table with every correction reported.
+
+-- ============================================================================
+-- STEP 1: Ledger
+-- ============================================================================
+
+-- Earned entries are positive; a reversal copies the entry it cancels with the signs flipped
+CREATE TABLE IF NOT EXISTS public.commission_ledger (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  service_id UUID REFERENCES public.services(id) ON DELETE SET NULL,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('earned', 'reversal')),
+  service_date TIMESTAMP WITH TIME ZONE NOT NULL,
+  base_amount DECIMAL(10,2) NOT NULL,
+  commission_rate DECIMAL(5,2) NOT NULL,
+  amount DECIMAL(10,2) NOT NULL,
+  description TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_commission_ledger_worker_date ON public.commission_ledger(worker_id, service_date);
+CREATE INDEX IF NOT EXISTS idx_commission_ledger_service_id ON public.commission_ledger(service_id);
+
+COMMENT ON TABLE public.commission_ledger IS 'Commission earned per completed service; corrections are reversals, never edits';
+COMMENT ON COLUMN public.commission_ledger.service_date IS 'When the service was performed; monthly totals are grouped by this date';
+COMMENT ON COLUMN public.commission_ledger.base_amount IS 'Service price the commission was calculated on';
+
+-- ============================================================================
+-- STEP 2: Posting
+-- ============================================================================
+
+-- Bring a service's ledger entries in line with the service. Whatever is posted but no longer
+-- matches is reversed, and the commission now due is posted. Once earned, a service keeps the
+-- rate it was posted at, so changing a worker's default rate does not re-rate past work.
+-- Returns the number of entries written.
+CREATE OR REPLACE FUNCTION public.post_service_commission(
+  p_service_id UUID,
+  p_description TEXT,
+  p_reverse_only BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service RECORD;
+  v_posted RECORD;
+  v_posted_rate DECIMAL(5,2);
+  v_rate DECIMAL(5,2);
+  v_amount DECIMAL(10,2);
+  v_is_due BOOLEAN := false;
+  v_keep BOOLEAN := false;
+  v_count INTEGER := 0;
+BEGIN
+  SELECT
+    s.id, s.service_name, s.status, s.staff_member_id, s.date_time,
+    COALESCE(s.service_price, 0) AS service_price,
+    s.commission_rate AS service_rate,
+    w.commission_rate AS worker_rate,
+    w.payment_type
+  INTO v_service
+  FROM public.services s
+  LEFT JOIN public.workers w ON w.id = s.staff_member_id
+  WHERE s.id = p_service_id;
+
+  IF FOUND AND NOT p_reverse_only AND v_service.status = 'completed' AND v_service.staff_member_id IS NOT NULL THEN
+    SELECT commission_rate INTO v_posted_rate
+    FROM public.commission_ledger
+    WHERE service_id = p_service_id AND worker_id = v_service.staff_member_id
+    GROUP BY commission_rate
+    HAVING SUM(amount) <> 0 OR SUM(base_amount) <> 0
+    LIMIT 1;
+
+    -- Commission workers earn on completion; anyone already earning on this service keeps earning
+    v_is_due := v_service.payment_type = 'commission' OR v_posted_rate IS NOT NULL;
+    -- Workers without a rate of their own earn the app's default of 6%
+    v_rate := COALESCE(v_service.service_rate, v_posted_rate, v_service.worker_rate, 6);
+    v_amount := ROUND(v_service.service_price * v_rate / 100, 2);
+  END IF;
+
+  FOR v_posted IN
+    SELECT worker_id, service_date, commission_rate, SUM(base_amount) AS base_amount, SUM(amount) AS amount
+    FROM public.commission_ledger
+    WHERE service_id = p_service_id
+    GROUP BY worker_id, service_date, commission_rate
+    HAVING SUM(amount) <> 0 OR SUM(base_amount) <> 0
+  LOOP
+    IF v_is_due AND NOT v_keep
+       AND v_posted.worker_id = v_service.staff_member_id
+       AND v_posted.service_date = v_service.date_time
+       AND v_posted.commission_rate = v_rate
+       AND v_posted.base_amount = v_service.service_price
+       AND v_posted.amount = v_amount THEN
+      v_keep := true;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.commission_ledger (
+      worker_id, service_id, entry_type, service_date, base_amount, commission_rate, amount, description, created_by
+    ) VALUES (
+      v_posted.worker_id, p_service_id, 'reversal', v_posted.service_date, -v_posted.base_amount,
+      v_posted.commission_rate, -v_posted.amount, p_description, auth.uid()
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_is_due AND NOT v_keep THEN
+    INSERT INTO public.commission_ledger (
+      worker_id, service_id, entry_type, service_date, base_amount, commission_rate, amount, description, created_by
+    ) VALUES (
+      v_service.staff_member_id, p_service_id, 'earned', v_service.date_time, v_service.service_price,
+      v_rate, v_amount, format('Commission: %s (%s%%)', v_service.service_name, v_rate), auth.uid()
+    );
+    v_count := v_count + 1;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_service_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.post_service_commission(OLD.id, 'Reversed: ' || OLD.service_name || ' was deleted', true);
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status <> 'completed' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.post_service_commission(
+    NEW.id,
+    'Reversed: ' || NEW.service_name || CASE
+      WHEN NEW.status = 'cancelled' THEN ' was cancelled'
+      WHEN NEW.status <> 'completed' THEN ' is no longer completed'
+      ELSE ' was edited'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_service_commission ON public.services;
+CREATE TRIGGER sync_service_commission
+AFTER INSERT OR UPDATE OF status, staff_member_id, service_price, commission_rate, date_time ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_service_commission();
+
+-- Before the delete so the service is still there to be named; the entries then keep a NULL service_id
+DROP TRIGGER IF EXISTS reverse_service_commission ON public.services;
+CREATE TRIGGER reverse_service_commission
+BEFORE DELETE ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_service_commission();
+
+-- ============================================================================
+-- STEP 3: Totals and rebuild
+-- ============================================================================
+
+-- All-time and monthly commission per worker; p_month is any date in the month wanted
+CREATE OR REPLACE FUNCTION public.get_worker_earnings(p_month DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  worker_id UUID,
+  total_earnings DECIMAL(12,2),
+  services_performed INTEGER,
+  month_earnings DECIMAL(12,2),
+  month_services INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', p_month::TIMESTAMP);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to view worker earnings';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cl.worker_id,
+    SUM(cl.amount)::DECIMAL(12,2),
+    SUM(CASE WHEN cl.entry_type = 'earned' THEN 1 ELSE -1 END)::INTEGER,
+    COALESCE(SUM(cl.amount) FILTER (
+      WHERE cl.service_date >= v_month_start AND cl.service_date < v_month_start + INTERVAL '1 month'
+    ), 0)::DECIMAL(12,2),
+    COALESCE(SUM(CASE WHEN cl.entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (
+      WHERE cl.service_date >= v_month_start AND cl.service_date < v_month_start + INTERVAL '1 month'
+    ), 0)::INTEGER
+  FROM public.commission_ledger cl
+  GROUP BY cl.worker_id;
+END;
+$$;
+
+-- Re-check every service against the ledger and post whatever corrections are needed.
+-- A ledger that is in sync comes back with no corrections.
+CREATE OR REPLACE FUNCTION public.rebuild_commission_ledger()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service RECORD;
+  v_before DECIMAL(12,2);
+  v_after DECIMAL(12,2);
+  v_posted INTEGER;
+  v_checked INTEGER := 0;
+  v_entries INTEGER := 0;
+  v_corrections JSONB := '[]'::JSONB;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to rebuild worker earnings';
+  END IF;
+
+  FOR v_service IN
+    SELECT s.id, s.service_name
+    FROM public.services s
+    WHERE s.status = 'completed'
+       OR EXISTS (SELECT 1 FROM public.commission_ledger cl WHERE cl.service_id = s.id)
+    ORDER BY s.date_time
+  LOOP
+    v_checked := v_checked + 1;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_before FROM public.commission_ledger WHERE service_id = v_service.id;
+    v_posted := public.post_service_commission(v_service.id, 'Reversed: ledger rebuild for ' || v_service.service_name);
+
+    IF v_posted > 0 THEN
+      SELECT COALESCE(SUM(amount), 0) INTO v_after FROM public.commission_ledger WHERE service_id = v_service.id;
+      v_entries := v_entries + v_posted;
+      v_corrections := v_corrections || jsonb_build_object(
+        'service_id', v_service.id,
+        'service_name', v_service.service_name,
+        'before', v_before,
+        'after', v_after
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'services_checked', v_checked,
+    'entries_posted', v_entries,
+    'corrections', v_corrections,
+    'message', CASE
+      WHEN jsonb_array_length(v_corrections) = 0 THEN format('Ledger verified: %s services in sync', v_checked)
+      ELSE format('%s of %s services corrected', jsonb_array_length(v_corrections), v_checked)
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to rebuild the commission ledger'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Backfill
+-- ============================================================================
+
+-- Post commission for services completed before the ledger existed, at today's worker rates
+DO $$
+DECLARE
+  v_service_id UUID;
+BEGIN
+  FOR v_service_id IN
+    SELECT id FROM public.services WHERE status = 'completed' ORDER BY date_time
+  LOOP
+    PERFORM public.post_service_commission(v_service_id, 'Reversed: opening balance');
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 5: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.commission_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Only written by the functions above
+CREATE POLICY "Granted roles can view the commission ledger" ON public.commission_ledger
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll'));
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.commission_ledger TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_worker_earnings(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.rebuild_commission_ledger() TO authenticated;
+
+-- Internal: only reachable through the triggers and functions above
+REVOKE EXECUTE ON FUNCTION public.post_service_commission(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_worker_earnings IS 'All-time and monthly commission per worker, derived from the commission ledger';
+COMMENT ON FUNCTION public.rebuild_commission_ledger IS 'Re-checks every service against the commission ledger and reports the corrections posted';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Commission ledger installed: posting on completion, reversals on edits and cancellations, derived monthly totals';
+END $$;
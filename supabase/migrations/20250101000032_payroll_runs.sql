@@ -0,0 +1,641 @@
+-- Migration: Payroll runs, payslips and pay-period locking
+-- Date: 2025-01-01
+-- Description: A payroll run per branch and month with one payslip line per worker: salary
+--              (prorated for attendance) plus ledger commission plus tips and bonus, minus
+--              advances and statutory deductions. Drafts can be regenerated and adjusted;
+--              approving a run locks the month so neither its services nor the commission
+--              earned in it can change. Wages are then paid against each payslip, and the
+--              run is marked paid once every payslip is settled.
+
+-- ============================================================================
+-- STEP 1: Statutory deductions
+-- ============================================================================
+
+-- Each active deduction takes a percentage of gross pay plus a fixed amount from every payslip
+CREATE TABLE IF NOT EXISTS public.payroll_deduction_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL UNIQUE,
+  rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (rate BETWEEN 0 AND 100),
+  fixed_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (fixed_amount >= 0),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TRIGGER update_payroll_deduction_types_updated_at
+BEFORE UPDATE ON public.payroll_deduction_types
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON COLUMN public.payroll_deduction_types.rate IS 'Percentage of gross pay';
+
+-- ============================================================================
+-- STEP 2: Runs, payslips and wage payments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.payroll_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  period_start DATE NOT NULL CHECK (period_start = date_trunc('month', period_start)::DATE),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'approved', 'paid')),
+  created_by UUID REFERENCES auth.users(id),
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_runs_branch_period_key UNIQUE (branch_id, period_start)
+);
+
+CREATE TRIGGER update_payroll_runs_updated_at
+BEFORE UPDATE ON public.payroll_runs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.payroll_runs IS 'Monthly payroll per branch; approved and paid runs lock the month';
+
+-- One payslip per worker. Name, role and pay type are copied so the payslip reads the
+-- same after the worker record changes.
+CREATE TABLE IF NOT EXISTS public.payroll_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id UUID NOT NULL REFERENCES public.payroll_runs(id) ON DELETE CASCADE,
+  worker_id UUID REFERENCES public.workers(id) ON DELETE SET NULL,
+  worker_name TEXT NOT NULL,
+  worker_role TEXT NOT NULL,
+  payment_type TEXT NOT NULL,
+  base_salary DECIMAL(10,2) NOT NULL DEFAULT 0,
+  attendance_ratio DECIMAL(5,4) NOT NULL DEFAULT 1,
+  commission DECIMAL(10,2) NOT NULL DEFAULT 0,
+  services_count INTEGER NOT NULL DEFAULT 0,
+  tips DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (tips >= 0),
+  bonus DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (bonus >= 0),
+  gross_pay DECIMAL(10,2) NOT NULL DEFAULT 0,
+  deductions JSONB NOT NULL DEFAULT '[]'::JSONB,
+  deductions_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  advances DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (advances >= 0),
+  net_pay DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (net_pay >= 0),
+  amount_paid DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payroll_lines_run_worker_key UNIQUE (run_id, worker_id),
+  CONSTRAINT payroll_lines_paid_check CHECK (amount_paid <= net_pay)
+);
+
+CREATE TRIGGER update_payroll_lines_updated_at
+BEFORE UPDATE ON public.payroll_lines
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON COLUMN public.payroll_lines.base_salary IS 'Monthly salary prorated by attendance_ratio; 0 for commission workers';
+COMMENT ON COLUMN public.payroll_lines.deductions IS 'Statutory deductions applied: [{name, rate, fixed_amount, amount}]';
+
+CREATE TABLE IF NOT EXISTS public.payroll_payments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  line_id UUID NOT NULL REFERENCES public.payroll_lines(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'card', 'mobile_money', 'bank_transfer')),
+  reference_number TEXT,
+  paid_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payroll_lines_run_id ON public.payroll_lines(run_id);
+CREATE INDEX IF NOT EXISTS idx_payroll_payments_line_id ON public.payroll_payments(line_id);
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['payroll_deduction_types', 'payroll_runs', 'payroll_lines', 'payroll_payments']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 3: Period locking
+-- ============================================================================
+
+-- Whether the month containing p_date has an approved or paid payroll run for the branch
+CREATE OR REPLACE FUNCTION public.is_payroll_locked(p_branch_id UUID, p_date TIMESTAMP WITH TIME ZONE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.payroll_runs
+    WHERE branch_id = p_branch_id
+      AND period_start = date_trunc('month', p_date)::DATE
+      AND status IN ('approved', 'paid')
+  );
+$$;
+
+-- Completed services in a locked month can still be paid for, but nothing that feeds pay may
+-- change. Bookings that were never completed earn nothing and stay editable.
+CREATE OR REPLACE FUNCTION public.enforce_payroll_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_locked_date TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.status = 'completed'
+     AND public.is_payroll_locked(OLD.branch_id, OLD.date_time) THEN
+    IF TG_OP = 'DELETE'
+       OR (NEW.status, NEW.staff_member_id, NEW.service_price, NEW.commission_rate, NEW.date_time, NEW.branch_id)
+          IS DISTINCT FROM (OLD.status, OLD.staff_member_id, OLD.service_price, OLD.commission_rate, OLD.date_time, OLD.branch_id) THEN
+      v_locked_date := OLD.date_time;
+    END IF;
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND v_locked_date IS NULL AND NEW.status = 'completed'
+     AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'completed'
+          OR (NEW.date_time, NEW.branch_id) IS DISTINCT FROM (OLD.date_time, OLD.branch_id))
+     AND public.is_payroll_locked(NEW.branch_id, NEW.date_time) THEN
+    v_locked_date := NEW.date_time;
+  END IF;
+
+  IF v_locked_date IS NOT NULL THEN
+    RAISE EXCEPTION 'Payroll for % is locked; reopen the payroll run to change this service',
+      to_char(v_locked_date, 'FMMonth YYYY');
+  END IF;
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_payroll_lock ON public.services;
+CREATE TRIGGER enforce_payroll_lock
+BEFORE INSERT OR UPDATE OR DELETE ON public.services
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_payroll_lock();
+
+-- Commission also moves without a service edit, e.g. reversals when a sale is refunded, so no
+-- entry may be dated into a locked month of the worker's branch
+CREATE OR REPLACE FUNCTION public.enforce_commission_payroll_lock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.is_payroll_locked((SELECT branch_id FROM public.workers WHERE id = NEW.worker_id), NEW.service_date) THEN
+    RAISE EXCEPTION 'Payroll for % is locked; reopen the payroll run to change commission earned in it',
+      to_char(NEW.service_date, 'FMMonth YYYY');
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_commission_payroll_lock ON public.commission_ledger;
+CREATE TRIGGER enforce_commission_payroll_lock
+BEFORE INSERT ON public.commission_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_commission_payroll_lock();
+
+-- ============================================================================
+-- STEP 4: Payslip calculation
+-- ============================================================================
+
+-- Recompute gross, statutory deductions and net pay for a payslip from its components
+CREATE OR REPLACE FUNCTION public.refresh_payroll_line(p_line_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.payroll_lines;
+  v_gross DECIMAL(10,2);
+  v_deductions JSONB;
+  v_deductions_total DECIMAL(10,2);
+BEGIN
+  SELECT * INTO v_line FROM public.payroll_lines WHERE id = p_line_id FOR UPDATE;
+
+  v_gross := v_line.base_salary + v_line.commission + v_line.tips + v_line.bonus;
+
+  SELECT
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'name', d.name,
+      'rate', d.rate,
+      'fixed_amount', d.fixed_amount,
+      'amount', d.amount
+    ) ORDER BY d.name), '[]'::JSONB),
+    COALESCE(SUM(d.amount), 0)
+  INTO v_deductions, v_deductions_total
+  FROM (
+    -- Deductions are taken in name order until gross pay runs out, so together they never exceed it
+    SELECT name, rate, fixed_amount,
+      LEAST(full_amount, GREATEST(0, v_gross - COALESCE(SUM(full_amount) OVER (
+        ORDER BY name ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0))) AS amount
+    FROM (
+      SELECT name, rate, fixed_amount, ROUND(v_gross * rate / 100, 2) + fixed_amount AS full_amount
+      FROM public.payroll_deduction_types
+      WHERE is_active
+    ) t
+  ) d
+  WHERE v_gross > 0;
+
+  IF v_gross - v_deductions_total - v_line.advances < 0 THEN
+    RAISE EXCEPTION 'Advances for % are more than their pay after deductions (%)',
+      v_line.worker_name, GREATEST(v_gross - v_deductions_total, 0);
+  END IF;
+
+  UPDATE public.payroll_lines
+  SET gross_pay = v_gross,
+      deductions = v_deductions,
+      deductions_total = v_deductions_total,
+      net_pay = v_gross - v_deductions_total - v_line.advances
+  WHERE id = p_line_id;
+END;
+$$;
+
+-- Create the branch's run for the month, or refresh a draft from current salaries, attendance
+-- and commission. Tips, bonus, advances and notes already entered on a draft are kept.
+CREATE OR REPLACE FUNCTION public.generate_payroll_run(p_month DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_period_start DATE := date_trunc('month', p_month)::DATE;
+  v_period_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month')::DATE;
+  v_run public.payroll_runs;
+  v_worker RECORD;
+  v_line_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM public.payroll_runs
+  WHERE branch_id = v_branch_id AND period_start = v_period_start
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.payroll_runs (branch_id, period_start, created_by)
+    VALUES (v_branch_id, v_period_start, v_user_id)
+    RETURNING * INTO v_run;
+  ELSIF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll for % has already been approved', to_char(v_period_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_worker IN
+    SELECT
+      w.id, w.name, w.role, COALESCE(w.payment_type, 'monthly') AS payment_type, COALESCE(w.salary, 0) AS salary,
+      COALESCE(a.attendance_ratio, 1) AS attendance_ratio,
+      COALESCE(c.commission, 0) AS commission,
+      COALESCE(c.services_count, 0) AS services_count
+    FROM public.workers w
+    LEFT JOIN public.get_attendance_summary(v_period_start) a ON a.worker_id = w.id
+    LEFT JOIN (
+      SELECT
+        worker_id,
+        SUM(amount) AS commission,
+        SUM(CASE WHEN entry_type = 'earned' THEN 1 ELSE -1 END) AS services_count
+      FROM public.commission_ledger
+      WHERE service_date >= v_period_start AND service_date < v_period_end
+      GROUP BY worker_id
+    ) c ON c.worker_id = w.id
+    WHERE w.branch_id = v_branch_id
+      AND w.hire_date < v_period_end
+  LOOP
+    INSERT INTO public.payroll_lines (
+      run_id, worker_id, worker_name, worker_role, payment_type,
+      base_salary, attendance_ratio, commission, services_count
+    ) VALUES (
+      v_run.id, v_worker.id, v_worker.name, v_worker.role, v_worker.payment_type,
+      CASE WHEN v_worker.payment_type = 'monthly' THEN ROUND(v_worker.salary * v_worker.attendance_ratio, 2) ELSE 0 END,
+      v_worker.attendance_ratio, v_worker.commission, v_worker.services_count
+    )
+    ON CONFLICT (run_id, worker_id) DO UPDATE
+    SET worker_name = EXCLUDED.worker_name,
+        worker_role = EXCLUDED.worker_role,
+        payment_type = EXCLUDED.payment_type,
+        base_salary = EXCLUDED.base_salary,
+        attendance_ratio = EXCLUDED.attendance_ratio,
+        commission = EXCLUDED.commission,
+        services_count = EXCLUDED.services_count
+    RETURNING id INTO v_line_id;
+
+    PERFORM public.refresh_payroll_line(v_line_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Workers on this payroll are owed until their payslip is paid
+  UPDATE public.workers
+  SET payment_status = 'pending'
+  WHERE id IN (SELECT worker_id FROM public.payroll_lines WHERE run_id = v_run.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'run_id', v_run.id,
+    'payslips', v_count,
+    'message', format('Payroll for %s prepared with %s payslips', to_char(v_period_start, 'FMMonth YYYY'), v_count)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to prepare payroll'
+    );
+END;
+$$;
+
+-- Adjust the manual parts of a draft payslip
+CREATE OR REPLACE FUNCTION public.update_payroll_line(
+  p_line_id UUID,
+  p_tips DECIMAL,
+  p_bonus DECIMAL,
+  p_advances DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_net DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT r.status INTO v_status
+  FROM public.payroll_lines l
+  JOIN public.payroll_runs r ON r.id = l.run_id
+  WHERE l.id = p_line_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payslip not found';
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft payroll can be changed';
+  END IF;
+
+  UPDATE public.payroll_lines
+  SET tips = COALESCE(p_tips, 0),
+      bonus = COALESCE(p_bonus, 0),
+      advances = COALESCE(p_advances, 0),
+      notes = NULLIF(btrim(COALESCE(p_notes, '')), '')
+  WHERE id = p_line_id;
+
+  PERFORM public.refresh_payroll_line(p_line_id);
+
+  SELECT net_pay INTO v_net FROM public.payroll_lines WHERE id = p_line_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'net_pay', v_net,
+    'message', 'Payslip updated'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update payslip'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Approval and payment
+-- ============================================================================
+
+-- Approve a draft run, locking its month; or reopen an approved run that has no payments yet
+CREATE OR REPLACE FUNCTION public.set_payroll_run_status(p_run_id UUID, p_approve BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.payroll_runs;
+BEGIN
+  IF public.get_user_role(auth.uid()) <> 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only administrators can approve or reopen payroll';
+  END IF;
+
+  SELECT * INTO v_run FROM public.payroll_runs WHERE id = p_run_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found';
+  END IF;
+
+  IF p_approve THEN
+    IF v_run.status <> 'draft' THEN
+      RAISE EXCEPTION 'Payroll for % is already approved', to_char(v_run.period_start, 'FMMonth YYYY');
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.payroll_lines WHERE run_id = p_run_id) THEN
+      RAISE EXCEPTION 'There are no payslips to approve';
+    END IF;
+
+    UPDATE public.payroll_runs
+    SET status = 'approved', approved_by = auth.uid(), approved_at = now()
+    WHERE id = p_run_id;
+  ELSE
+    IF v_run.status <> 'approved' THEN
+      RAISE EXCEPTION 'Only approved payroll that has not been paid can be reopened';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.payroll_payments pp
+      JOIN public.payroll_lines l ON l.id = pp.line_id
+      WHERE l.run_id = p_run_id
+    ) THEN
+      RAISE EXCEPTION 'Wages have already been paid on this payroll';
+    END IF;
+
+    UPDATE public.payroll_runs
+    SET status = 'draft', approved_by = NULL, approved_at = NULL
+    WHERE id = p_run_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', CASE
+      WHEN p_approve THEN format('Payroll for %s approved; the month is now locked', to_char(v_run.period_start, 'FMMonth YYYY'))
+      ELSE format('Payroll for %s reopened for changes', to_char(v_run.period_start, 'FMMonth YYYY'))
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update payroll status'
+    );
+END;
+$$;
+
+-- Pay wages against approved payslips: one payslip, or every unpaid payslip in the run when
+-- p_line_id is NULL. The amount defaults to what is still owed.
+CREATE OR REPLACE FUNCTION public.record_payroll_payment(
+  p_run_id UUID,
+  p_payment_method TEXT,
+  p_line_id UUID DEFAULT NULL,
+  p_amount DECIMAL DEFAULT NULL,
+  p_reference_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_run public.payroll_runs;
+  v_line public.payroll_lines;
+  v_amount DECIMAL(10,2);
+  v_total DECIMAL(10,2) := 0;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to pay wages';
+  END IF;
+
+  SELECT * INTO v_run FROM public.payroll_runs WHERE id = p_run_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payroll run not found';
+  END IF;
+
+  IF v_run.status = 'draft' THEN
+    RAISE EXCEPTION 'Payroll must be approved before wages are paid';
+  END IF;
+
+  IF p_line_id IS NULL AND p_amount IS NOT NULL THEN
+    RAISE EXCEPTION 'An amount can only be given when paying a single payslip';
+  END IF;
+
+  FOR v_line IN
+    SELECT * FROM public.payroll_lines
+    WHERE run_id = p_run_id
+      AND (p_line_id IS NULL OR id = p_line_id)
+      AND net_pay > amount_paid
+    FOR UPDATE
+  LOOP
+    v_amount := COALESCE(p_amount, v_line.net_pay - v_line.amount_paid);
+
+    IF v_amount <= 0 OR v_amount > v_line.net_pay - v_line.amount_paid THEN
+      RAISE EXCEPTION '% is owed % on this payslip', v_line.worker_name, v_line.net_pay - v_line.amount_paid;
+    END IF;
+
+    INSERT INTO public.payroll_payments (line_id, amount, payment_method, reference_number, paid_by)
+    VALUES (v_line.id, v_amount, p_payment_method, NULLIF(btrim(COALESCE(p_reference_number, '')), ''), auth.uid());
+
+    UPDATE public.payroll_lines
+    SET amount_paid = amount_paid + v_amount
+    WHERE id = v_line.id;
+
+    IF v_line.amount_paid + v_amount >= v_line.net_pay AND v_line.worker_id IS NOT NULL THEN
+      UPDATE public.workers SET payment_status = 'paid' WHERE id = v_line.worker_id;
+    END IF;
+
+    v_total := v_total + v_amount;
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'Nothing is owed on %', CASE WHEN p_line_id IS NULL THEN 'this payroll' ELSE 'this payslip' END;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.payroll_lines WHERE run_id = p_run_id AND net_pay > amount_paid) THEN
+    UPDATE public.payroll_runs SET status = 'paid' WHERE id = p_run_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'amount', v_total,
+    'payslips', v_count,
+    'message', format('%s paid on %s payslip%s', v_total, v_count, CASE WHEN v_count = 1 THEN '' ELSE 's' END)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record wage payment'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.payroll_deduction_types ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payroll_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Granted roles can view payroll deductions" ON public.payroll_deduction_types
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll'));
+
+CREATE POLICY "Admins can manage payroll deductions" ON public.payroll_deduction_types
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- Runs, payslips and payments are only written by the functions above
+CREATE POLICY "Granted roles can view payroll runs" ON public.payroll_runs
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll') AND public.in_branch_scope(branch_id));
+
+CREATE POLICY "Granted roles can view payslips" ON public.payroll_lines
+FOR SELECT USING (
+  public.has_feature(auth.uid(), 'payroll')
+  AND EXISTS (SELECT 1 FROM public.payroll_runs r WHERE r.id = run_id AND public.in_branch_scope(r.branch_id))
+);
+
+CREATE POLICY "Granted roles can view wage payments" ON public.payroll_payments
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll'));
+
+-- ============================================================================
+-- STEP 7: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.payroll_deduction_types TO authenticated;
+GRANT SELECT ON public.payroll_runs TO authenticated;
+GRANT SELECT ON public.payroll_lines TO authenticated;
+GRANT SELECT ON public.payroll_payments TO authenticated;
+GRANT EXECUTE ON FUNCTION public.generate_payroll_run(DATE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, DECIMAL, DECIMAL, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_payroll_run_status(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payroll_payment(UUID, TEXT, UUID, DECIMAL, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.is_payroll_locked(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Internal: only reachable through the functions above
+REVOKE EXECUTE ON FUNCTION public.refresh_payroll_line(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.generate_payroll_run IS 'Creates or refreshes the branch''s draft payroll for a month';
+COMMENT ON FUNCTION public.set_payroll_run_status IS 'Approves a draft payroll (locking its month) or reopens an unpaid one';
+COMMENT ON FUNCTION public.record_payroll_payment IS 'Pays wages against one approved payslip or every unpaid payslip in a run';
+COMMENT ON FUNCTION public.is_payroll_locked IS 'Whether a branch''s month has approved payroll, freezing its services';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Payroll runs installed: payslips with deductions, approval with period locking, wage payments';
+END $$;
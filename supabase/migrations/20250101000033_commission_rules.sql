@@ -0,0 +1,928 @@
+-- Migration: Commission rules
+-- Date: 2025-01-01
+-- Description: Commission rates come from rules instead of one flat rate per worker. A rule
+--              can apply to one worker or everyone, to one service category or all of them,
+--              and from a monthly revenue threshold upwards (tiers). Retail rules pay
+--              commission to the worker credited with a shop sale. Each rule pays on gross
+--              revenue or on net revenue after product cost. Every ledger entry records the
+--              rule that produced it.
+--
+--              A service's rate is, in order: its own commission_rate override; the rate it
+--              was first posted at; the best matching rule; the worker's default rate.
+
+-- ============================================================================
+-- STEP 1: Rules
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.commission_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  applies_to TEXT NOT NULL DEFAULT 'service' CHECK (applies_to IN ('service', 'retail')),
+  worker_id UUID REFERENCES public.workers(id) ON DELETE CASCADE,
+  service_category TEXT,
+  min_monthly_revenue DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (min_monthly_revenue >= 0),
+  rate DECIMAL(5,2) NOT NULL CHECK (rate BETWEEN 0 AND 100),
+  basis TEXT NOT NULL DEFAULT 'gross' CHECK (basis IN ('gross', 'net')),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT commission_rules_category_check CHECK (applies_to = 'service' OR service_category IS NULL)
+);
+
+CREATE TRIGGER update_commission_rules_updated_at
+BEFORE UPDATE ON public.commission_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+COMMENT ON TABLE public.commission_rules IS 'Commission rates by worker, service category and monthly revenue tier';
+COMMENT ON COLUMN public.commission_rules.worker_id IS 'NULL applies the rule to every worker';
+COMMENT ON COLUMN public.commission_rules.service_category IS 'NULL applies the rule to every category; retail rules have none';
+COMMENT ON COLUMN public.commission_rules.min_monthly_revenue IS 'Tier threshold: the worker''s revenue earlier in the month must have reached this';
+COMMENT ON COLUMN public.commission_rules.basis IS 'gross pays on the price; net pays on the price less the cost of products used or sold';
+
+DROP TRIGGER IF EXISTS audit_commission_rules_changes ON public.commission_rules;
+CREATE TRIGGER audit_commission_rules_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.commission_rules
+FOR EACH ROW EXECUTE FUNCTION public.audit_row_change();
+
+-- ============================================================================
+-- STEP 2: Ledger and sales columns
+-- ============================================================================
+
+-- The worker credited with a shop sale earns any retail commission on it
+ALTER TABLE public.sales_transactions
+ADD COLUMN IF NOT EXISTS worker_id UUID REFERENCES public.workers(id) ON DELETE SET NULL;
+
+ALTER TABLE public.commission_ledger
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'service' CHECK (source IN ('service', 'retail')),
+ADD COLUMN IF NOT EXISTS sale_id UUID REFERENCES public.sales_transactions(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS basis TEXT NOT NULL DEFAULT 'gross' CHECK (basis IN ('gross', 'net')),
+ADD COLUMN IF NOT EXISTS cost_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES public.commission_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS rule_name TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_commission_ledger_sale_id ON public.commission_ledger(sale_id);
+
+COMMENT ON COLUMN public.commission_ledger.service_date IS 'When the service was performed or the sale made; monthly totals are grouped by this date';
+COMMENT ON COLUMN public.commission_ledger.base_amount IS 'Revenue the commission was calculated on, after cost_amount for net rules';
+COMMENT ON COLUMN public.commission_ledger.cost_amount IS 'Product cost taken off the revenue for net rules';
+COMMENT ON COLUMN public.commission_ledger.rule_name IS 'Rule that set the rate, or Service override / Worker rate; NULL for entries posted before rules existed';
+
+-- ============================================================================
+-- STEP 3: Rate selection and posting
+-- ============================================================================
+
+-- The most specific active rule: worker-specific before everyone, category-specific before
+-- all categories, then the highest tier the month's earlier revenue has reached
+CREATE OR REPLACE FUNCTION public.match_commission_rule(
+  p_applies_to TEXT,
+  p_worker_id UUID,
+  p_category TEXT,
+  p_month_revenue DECIMAL
+)
+RETURNS public.commission_rules
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT *
+  FROM public.commission_rules
+  WHERE is_active
+    AND applies_to = p_applies_to
+    AND (worker_id IS NULL OR worker_id = p_worker_id)
+    AND (service_category IS NULL OR lower(service_category) = lower(p_category))
+    AND min_monthly_revenue <= p_month_revenue
+  ORDER BY worker_id IS NOT NULL DESC, service_category IS NOT NULL DESC, min_monthly_revenue DESC, created_at DESC
+  LIMIT 1;
+$$;
+
+-- Bring the ledger entries of a service or sale in line with what is now due. Posted groups
+-- that no longer match are reversed and the commission due is posted. Returns entries written.
+CREATE OR REPLACE FUNCTION public.sync_commission_entries(
+  p_service_id UUID,
+  p_sale_id UUID,
+  p_description TEXT,
+  p_is_due BOOLEAN,
+  p_worker_id UUID,
+  p_date TIMESTAMP WITH TIME ZONE,
+  p_base DECIMAL,
+  p_cost DECIMAL,
+  p_rate DECIMAL,
+  p_basis TEXT,
+  p_rule_id UUID,
+  p_rule_name TEXT,
+  p_label TEXT
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source TEXT := CASE WHEN p_sale_id IS NULL THEN 'service' ELSE 'retail' END;
+  v_posted RECORD;
+  -- Nothing to pay on no revenue; an empty entry would never count as posted
+  v_is_due BOOLEAN := COALESCE(p_is_due, false) AND p_base <> 0;
+  v_amount DECIMAL(10,2) := ROUND(COALESCE(p_base, 0) * COALESCE(p_rate, 0) / 100, 2);
+  v_keep BOOLEAN := false;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_posted IN
+    SELECT
+      worker_id, service_date, commission_rate, basis, rule_id, rule_name,
+      SUM(base_amount) AS base_amount, SUM(cost_amount) AS cost_amount, SUM(amount) AS amount
+    FROM public.commission_ledger
+    WHERE service_id = p_service_id OR sale_id = p_sale_id
+    GROUP BY worker_id, service_date, commission_rate, basis, rule_id, rule_name
+    HAVING SUM(amount) <> 0 OR SUM(base_amount) <> 0
+  LOOP
+    IF v_is_due AND NOT v_keep
+       AND v_posted.worker_id = p_worker_id
+       AND v_posted.service_date = p_date
+       AND v_posted.commission_rate = p_rate
+       AND v_posted.basis = p_basis
+       AND v_posted.rule_id IS NOT DISTINCT FROM p_rule_id
+       AND v_posted.rule_name IS NOT DISTINCT FROM p_rule_name
+       AND v_posted.base_amount = p_base
+       AND v_posted.cost_amount = p_cost
+       AND v_posted.amount = v_amount THEN
+      v_keep := true;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.commission_ledger (
+      worker_id, service_id, sale_id, source, entry_type, service_date, base_amount, cost_amount,
+      commission_rate, basis, rule_id, rule_name, amount, description, created_by
+    ) VALUES (
+      v_posted.worker_id, p_service_id, p_sale_id, v_source, 'reversal', v_posted.service_date,
+      -v_posted.base_amount, -v_posted.cost_amount, v_posted.commission_rate, v_posted.basis,
+      v_posted.rule_id, v_posted.rule_name, -v_posted.amount, p_description, auth.uid()
+    );
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_is_due AND NOT v_keep THEN
+    INSERT INTO public.commission_ledger (
+      worker_id, service_id, sale_id, source, entry_type, service_date, base_amount, cost_amount,
+      commission_rate, basis, rule_id, rule_name, amount, description, created_by
+    ) VALUES (
+      p_worker_id, p_service_id, p_sale_id, v_source, 'earned', p_date, p_base, p_cost,
+      p_rate, p_basis, p_rule_id, p_rule_name, v_amount,
+      format('Commission: %s (%s%% %s, %s)', p_label, p_rate, p_basis, COALESCE(p_rule_name, 'flat rate')), auth.uid()
+    );
+    v_count := v_count + 1;
+  END IF;
+
+  RETURN v_count;
+END;
+$$;
+
+-- Same contract as before: bring a service's entries in line with the service. Net rules
+-- take off the cost of the products deducted from stock when the service was completed.
+CREATE OR REPLACE FUNCTION public.post_service_commission(
+  p_service_id UUID,
+  p_description TEXT,
+  p_reverse_only BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service RECORD;
+  v_rule public.commission_rules;
+  v_posted_rate DECIMAL(5,2);
+  v_posted_basis TEXT;
+  v_posted_rule_id UUID;
+  v_posted_rule_name TEXT;
+  v_revenue DECIMAL(12,2);
+  v_rate DECIMAL(5,2);
+  v_basis TEXT := 'gross';
+  v_rule_id UUID;
+  v_rule_name TEXT;
+  v_cost DECIMAL(10,2) := 0;
+  v_is_due BOOLEAN := false;
+BEGIN
+  SELECT
+    s.id, s.service_name, s.service_category, s.status, s.staff_member_id, s.date_time,
+    COALESCE(s.service_price, 0) AS service_price,
+    s.commission_rate AS service_rate,
+    w.commission_rate AS worker_rate,
+    w.payment_type
+  INTO v_service
+  FROM public.services s
+  LEFT JOIN public.workers w ON w.id = s.staff_member_id
+  WHERE s.id = p_service_id;
+
+  IF FOUND AND NOT p_reverse_only AND v_service.status = 'completed' AND v_service.staff_member_id IS NOT NULL THEN
+    SELECT commission_rate, basis, rule_id, rule_name
+    INTO v_posted_rate, v_posted_basis, v_posted_rule_id, v_posted_rule_name
+    FROM public.commission_ledger
+    WHERE service_id = p_service_id AND worker_id = v_service.staff_member_id
+    GROUP BY commission_rate, basis, rule_id, rule_name
+    HAVING SUM(amount) <> 0 OR SUM(base_amount) <> 0
+    LIMIT 1;
+
+    -- Commission workers earn on completion; anyone already earning on this service keeps earning
+    v_is_due := v_service.payment_type = 'commission' OR v_posted_rate IS NOT NULL;
+
+    IF v_service.service_rate IS NOT NULL THEN
+      v_rate := v_service.service_rate;
+      v_rule_name := 'Service override';
+    ELSIF v_posted_rate IS NOT NULL THEN
+      v_rate := v_posted_rate;
+      v_basis := v_posted_basis;
+      v_rule_id := v_posted_rule_id;
+      v_rule_name := v_posted_rule_name;
+    ELSE
+      -- Tiers count the worker's completed service revenue earlier in the same month
+      SELECT COALESCE(SUM(COALESCE(s.service_price, 0)), 0) INTO v_revenue
+      FROM public.services s
+      WHERE s.staff_member_id = v_service.staff_member_id
+        AND s.status = 'completed'
+        AND s.date_time >= date_trunc('month', v_service.date_time)
+        AND (s.date_time, s.id) < (v_service.date_time, v_service.id);
+
+      v_rule := public.match_commission_rule('service', v_service.staff_member_id, v_service.service_category, v_revenue);
+
+      IF v_rule.id IS NOT NULL THEN
+        v_rate := v_rule.rate;
+        v_basis := v_rule.basis;
+        v_rule_id := v_rule.id;
+        v_rule_name := v_rule.name;
+      ELSE
+        v_rate := COALESCE(v_service.worker_rate, 6);
+        v_rule_name := 'Worker rate';
+      END IF;
+    END IF;
+
+    IF v_basis = 'net' THEN
+      SELECT COALESCE(SUM(cost_amount), 0) INTO v_cost
+      FROM public.inventory_transactions
+      WHERE reference_number = 'SERVICE-' || p_service_id
+        AND transaction_type = 'stock_out';
+    END IF;
+  END IF;
+
+  RETURN public.sync_commission_entries(
+    p_service_id, NULL, p_description, v_is_due, v_service.staff_member_id, v_service.date_time,
+    GREATEST(COALESCE(v_service.service_price, 0) - v_cost, 0), v_cost,
+    v_rate, v_basis, v_rule_id, v_rule_name, v_service.service_name
+  );
+END;
+$$;
+
+-- Bring a shop sale's entries in line with the sale: refunded units earn nothing and a void
+-- reverses everything. Retail commission is only paid where a retail rule matches.
+CREATE OR REPLACE FUNCTION public.post_sale_commission(
+  p_sale_id UUID,
+  p_description TEXT,
+  p_reverse_only BOOLEAN DEFAULT false
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_sale RECORD;
+  v_rule public.commission_rules;
+  v_posted_rate DECIMAL(5,2);
+  v_posted_basis TEXT;
+  v_posted_rule_id UUID;
+  v_posted_rule_name TEXT;
+  v_revenue DECIMAL(12,2) := 0;
+  v_sold DECIMAL(10,2) := 0;
+  v_cost DECIMAL(10,2) := 0;
+  v_rate DECIMAL(5,2);
+  v_basis TEXT := 'gross';
+  v_rule_id UUID;
+  v_rule_name TEXT;
+  v_is_due BOOLEAN := false;
+BEGIN
+  SELECT st.id, st.status, st.worker_id, st.created_at, COALESCE(st.reference_number, st.id::TEXT) AS reference
+  INTO v_sale
+  FROM public.sales_transactions st
+  WHERE st.id = p_sale_id;
+
+  IF FOUND AND NOT p_reverse_only AND v_sale.status <> 'cancelled' AND v_sale.worker_id IS NOT NULL THEN
+    SELECT
+      COALESCE(SUM((quantity - refunded_quantity) * unit_price), 0),
+      COALESCE(SUM((quantity - refunded_quantity) * unit_cost), 0)
+    INTO v_sold, v_cost
+    FROM public.sales_items
+    WHERE sale_id = p_sale_id;
+
+    SELECT commission_rate, basis, rule_id, rule_name
+    INTO v_posted_rate, v_posted_basis, v_posted_rule_id, v_posted_rule_name
+    FROM public.commission_ledger
+    WHERE sale_id = p_sale_id AND worker_id = v_sale.worker_id
+    GROUP BY commission_rate, basis, rule_id, rule_name
+    HAVING SUM(amount) <> 0 OR SUM(base_amount) <> 0
+    LIMIT 1;
+
+    IF v_posted_rate IS NOT NULL THEN
+      v_is_due := true;
+      v_rate := v_posted_rate;
+      v_basis := v_posted_basis;
+      v_rule_id := v_posted_rule_id;
+      v_rule_name := v_posted_rule_name;
+    ELSE
+      -- Tiers count the worker's retail sales earlier in the same month, net of refunds
+      SELECT COALESCE(SUM((si.quantity - si.refunded_quantity) * si.unit_price), 0) INTO v_revenue
+      FROM public.sales_transactions st
+      JOIN public.sales_items si ON si.sale_id = st.id
+      WHERE st.worker_id = v_sale.worker_id
+        AND st.status <> 'cancelled'
+        AND st.created_at >= date_trunc('month', v_sale.created_at)
+        AND (st.created_at, st.id) < (v_sale.created_at, v_sale.id);
+
+      v_rule := public.match_commission_rule('retail', v_sale.worker_id, NULL, v_revenue);
+
+      IF v_rule.id IS NOT NULL THEN
+        v_is_due := true;
+        v_rate := v_rule.rate;
+        v_basis := v_rule.basis;
+        v_rule_id := v_rule.id;
+        v_rule_name := v_rule.name;
+      END IF;
+    END IF;
+  END IF;
+
+  IF v_basis <> 'net' THEN
+    v_cost := 0;
+  END IF;
+
+  RETURN public.sync_commission_entries(
+    NULL, p_sale_id, p_description, v_is_due, v_sale.worker_id, v_sale.created_at,
+    GREATEST(v_sold - v_cost, 0), v_cost,
+    v_rate, v_basis, v_rule_id, v_rule_name, 'sale ' || v_sale.reference
+  );
+END;
+$$;
+
+-- Checkout writes the sale total last, and refunds and voids update the status
+CREATE OR REPLACE FUNCTION public.sync_sale_commission()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.post_sale_commission(
+    NEW.id,
+    'Reversed: sale ' || COALESCE(NEW.reference_number, NEW.id::TEXT) || CASE
+      WHEN NEW.status = 'cancelled' THEN ' was voided'
+      WHEN NEW.worker_id IS DISTINCT FROM OLD.worker_id THEN ' was credited to another worker'
+      ELSE ' was refunded'
+    END
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_sale_commission ON public.sales_transactions;
+CREATE TRIGGER sync_sale_commission
+AFTER UPDATE OF total_amount, status, worker_id ON public.sales_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_sale_commission();
+
+-- ============================================================================
+-- STEP 4: Checkout credits a worker
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB, INTEGER);
+
+-- p_items: [{ "id": inventory item uuid, "variant_id": uuid, "name": text, "quantity": int }]
+-- p_payments: [{ "payment_method": text, "amount": number, "reference_number": text }]
+-- When omitted the sale is paid in full with p_payment_method.
+-- p_redeem_points: loyalty points the customer spends as a discount on the sale
+-- p_worker_id: the worker credited with the sale, who earns any retail commission
+CREATE OR REPLACE FUNCTION public.process_cart_checkout(
+  p_customer_name TEXT,
+  p_items JSONB,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash',
+  p_reference_number TEXT DEFAULT NULL,
+  p_customer_id UUID DEFAULT NULL,
+  p_payments JSONB DEFAULT NULL,
+  p_redeem_points INTEGER DEFAULT 0,
+  p_worker_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created_by UUID := auth.uid();
+  v_sale_id UUID;
+  v_reference TEXT;
+  v_item JSONB;
+  v_inventory_item RECORD;
+  v_variant RECORD;
+  v_quantity INTEGER;
+  v_total_amount DECIMAL(10,2) := 0;
+  v_discount DECIMAL(10,2) := 0;
+  v_items_count INTEGER := 0;
+  v_payments JSONB;
+  v_tender JSONB;
+  v_paid DECIMAL(10,2) := 0;
+  v_methods INTEGER;
+  v_payment_method TEXT;
+BEGIN
+  IF v_created_by IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT public.has_feature(v_created_by, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to sell retail items';
+  END IF;
+
+  IF p_customer_name IS NULL OR btrim(p_customer_name) = '' THEN
+    RAISE EXCEPTION 'Customer name is required';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cart items cannot be empty';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  IF p_worker_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM public.workers WHERE id = p_worker_id) THEN
+    RAISE EXCEPTION 'Worker not found';
+  END IF;
+
+  INSERT INTO public.sales_transactions (
+    customer_id,
+    customer_name,
+    customer_phone,
+    payment_method,
+    reference_number,
+    total_amount,
+    items_count,
+    worker_id,
+    created_by
+  ) VALUES (
+    p_customer_id,
+    btrim(p_customer_name),
+    NULLIF(btrim(COALESCE(p_customer_phone, '')), ''),
+    COALESCE(p_payment_method, 'cash'),
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    0,
+    0,
+    p_worker_id,
+    v_created_by
+  ) RETURNING id INTO v_sale_id;
+
+  v_reference := COALESCE(NULLIF(btrim(COALESCE(p_reference_number, '')), ''), 'SALE-' || v_sale_id);
+
+  FOR v_item IN SELECT * FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::INTEGER;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for item "%"', COALESCE(v_item->>'name', v_item->>'id');
+    END IF;
+
+    -- Lock the row so concurrent checkouts cannot both pass the stock check
+    SELECT id, name, current_stock, product_variant_id
+    INTO v_inventory_item
+    FROM public.inventory_items
+    WHERE id = (v_item->>'id')::UUID
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Inventory item not found: %', v_item->>'id';
+    END IF;
+
+    -- Price, name and tax class come from the catalog variant the item is stocked as
+    SELECT
+      v.id,
+      p.name || COALESCE(' - ' || NULLIF(concat_ws(' / ', v.size, v.colour), ''), '') AS name,
+      COALESCE(v.retail_price, p.unit_price) AS retail_price,
+      p.tax_class
+    INTO v_variant
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    WHERE v.id = (v_item->>'variant_id')::UUID
+      AND v.is_active
+      AND p.is_active
+      AND v.id = v_inventory_item.product_variant_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item "%" is not for sale in the retail catalog', v_inventory_item.name;
+    END IF;
+
+    IF v_inventory_item.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for item "%". Required: %, Available: %',
+        v_variant.name, v_quantity, v_inventory_item.current_stock;
+    END IF;
+
+    INSERT INTO public.sales_items (
+      sale_id,
+      inventory_item_id,
+      product_variant_id,
+      item_name,
+      unit_price,
+      quantity,
+      total_price,
+      tax_class
+    ) VALUES (
+      v_sale_id,
+      v_inventory_item.id,
+      v_variant.id,
+      v_variant.name,
+      v_variant.retail_price,
+      v_quantity,
+      v_variant.retail_price * v_quantity,
+      v_variant.tax_class
+    );
+
+    INSERT INTO public.inventory_transactions (
+      item_id,
+      transaction_type,
+      quantity,
+      unit_price,
+      total_amount,
+      reason,
+      reference_number,
+      created_by
+    ) VALUES (
+      v_inventory_item.id,
+      'stock_out',
+      v_quantity,
+      v_variant.retail_price,
+      v_variant.retail_price * v_quantity,
+      'Sale to ' || btrim(p_customer_name),
+      v_reference,
+      v_created_by
+    );
+
+    UPDATE public.inventory_items
+    SET current_stock = current_stock - v_quantity
+    WHERE id = v_inventory_item.id;
+
+    v_total_amount := v_total_amount + (v_variant.retail_price * v_quantity);
+    v_items_count := v_items_count + v_quantity;
+  END LOOP;
+
+  -- Points come off the goods total; the tenders cover what is left
+  IF COALESCE(p_redeem_points, 0) > 0 THEN
+    v_discount := public.price_loyalty_redemption(p_customer_id, p_redeem_points);
+
+    IF v_discount > v_total_amount THEN
+      RAISE EXCEPTION '% points are worth % but the sale total is %', p_redeem_points, v_discount, v_total_amount;
+    END IF;
+
+    INSERT INTO public.loyalty_ledger (customer_id, entry_type, points, sale_id, amount, description, created_by)
+    VALUES (p_customer_id, 'redeem', -p_redeem_points, v_sale_id, v_discount, 'Redeemed: sale ' || v_reference, v_created_by);
+
+    v_total_amount := v_total_amount - v_discount;
+  END IF;
+
+  -- Tenders
+  v_payments := COALESCE(p_payments, jsonb_build_array(jsonb_build_object(
+    'payment_method', COALESCE(p_payment_method, 'cash'),
+    'amount', v_total_amount,
+    'reference_number', p_reference_number
+  )));
+
+  FOR v_tender IN SELECT * FROM jsonb_array_elements(v_payments)
+  LOOP
+    IF COALESCE((v_tender->>'amount')::DECIMAL(10,2), 0) <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO public.payments (
+      sale_id, customer_id, amount, payment_method, reference_number, received_by
+    ) VALUES (
+      v_sale_id,
+      p_customer_id,
+      (v_tender->>'amount')::DECIMAL(10,2),
+      v_tender->>'payment_method',
+      NULLIF(btrim(COALESCE(v_tender->>'reference_number', '')), ''),
+      v_created_by
+    );
+
+    v_paid := v_paid + (v_tender->>'amount')::DECIMAL(10,2);
+  END LOOP;
+
+  IF v_paid > v_total_amount THEN
+    RAISE EXCEPTION 'Payments of % exceed the sale total of %', v_paid, v_total_amount;
+  END IF;
+
+  IF v_paid < v_total_amount AND p_customer_id IS NULL THEN
+    RAISE EXCEPTION 'Select a registered customer to leave a balance of % outstanding', v_total_amount - v_paid;
+  END IF;
+
+  SELECT COUNT(DISTINCT payment_method), MIN(payment_method)
+  INTO v_methods, v_payment_method
+  FROM public.payments
+  WHERE sale_id = v_sale_id;
+
+  UPDATE public.sales_transactions
+  SET total_amount = v_total_amount,
+      items_count = v_items_count,
+      loyalty_points_redeemed = COALESCE(p_redeem_points, 0),
+      loyalty_discount = v_discount,
+      reference_number = v_reference,
+      payment_method = CASE
+        WHEN v_methods = 0 THEN 'on_account'
+        WHEN v_methods > 1 THEN 'split'
+        ELSE v_payment_method
+      END
+  WHERE id = v_sale_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'sale_id', v_sale_id,
+    'reference_number', v_reference,
+    'total_amount', v_total_amount,
+    'loyalty_discount', v_discount,
+    'points_redeemed', COALESCE(p_redeem_points, 0),
+    -- Credited by sync_sale_loyalty when the total was written above
+    'points_earned', (
+      SELECT COALESCE(SUM(points), 0) FROM public.loyalty_ledger WHERE sale_id = v_sale_id AND entry_type = 'earn'
+    ),
+    'points_balance', CASE WHEN p_customer_id IS NOT NULL THEN public.get_loyalty_points_balance(p_customer_id) END,
+    'amount_paid', v_paid,
+    'balance', v_total_amount - v_paid,
+    'items_count', v_items_count,
+    'created_at', now(),
+    'message', 'Sale completed successfully'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Any failure rolls back the sale, its items, payments and every stock movement
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to process cart checkout'
+    );
+END;
+$$;
+
+
+-- ============================================================================
+-- STEP 5: Totals, rebuild and payroll count services only
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_worker_earnings(p_month DATE DEFAULT CURRENT_DATE)
+RETURNS TABLE (
+  worker_id UUID,
+  total_earnings DECIMAL(12,2),
+  services_performed INTEGER,
+  month_earnings DECIMAL(12,2),
+  month_services INTEGER
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_month_start TIMESTAMP WITH TIME ZONE := date_trunc('month', p_month::TIMESTAMP);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to view worker earnings';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cl.worker_id,
+    SUM(cl.amount)::DECIMAL(12,2),
+    COALESCE(SUM(CASE WHEN cl.entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (WHERE cl.source = 'service'), 0)::INTEGER,
+    COALESCE(SUM(cl.amount) FILTER (
+      WHERE cl.service_date >= v_month_start AND cl.service_date < v_month_start + INTERVAL '1 month'
+    ), 0)::DECIMAL(12,2),
+    COALESCE(SUM(CASE WHEN cl.entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (
+      WHERE cl.source = 'service'
+        AND cl.service_date >= v_month_start AND cl.service_date < v_month_start + INTERVAL '1 month'
+    ), 0)::INTEGER
+  FROM public.commission_ledger cl
+  GROUP BY cl.worker_id;
+END;
+$$;
+
+-- Re-check every service and credited sale against the ledger and post whatever corrections
+-- are needed. A ledger that is in sync comes back with no corrections.
+CREATE OR REPLACE FUNCTION public.rebuild_commission_ledger()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_source RECORD;
+  v_before DECIMAL(12,2);
+  v_after DECIMAL(12,2);
+  v_posted INTEGER;
+  v_checked INTEGER := 0;
+  v_entries INTEGER := 0;
+  v_corrections JSONB := '[]'::JSONB;
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to rebuild worker earnings';
+  END IF;
+
+  FOR v_source IN
+    SELECT s.id AS service_id, NULL::UUID AS sale_id, s.service_name AS name, s.date_time AS occurred_at
+    FROM public.services s
+    WHERE s.status = 'completed'
+       OR EXISTS (SELECT 1 FROM public.commission_ledger cl WHERE cl.service_id = s.id)
+    UNION ALL
+    SELECT NULL::UUID, st.id, 'Sale ' || COALESCE(st.reference_number, st.id::TEXT), st.created_at
+    FROM public.sales_transactions st
+    WHERE st.worker_id IS NOT NULL
+       OR EXISTS (SELECT 1 FROM public.commission_ledger cl WHERE cl.sale_id = st.id)
+    ORDER BY occurred_at
+  LOOP
+    v_checked := v_checked + 1;
+
+    SELECT COALESCE(SUM(amount), 0) INTO v_before
+    FROM public.commission_ledger
+    WHERE service_id = v_source.service_id OR sale_id = v_source.sale_id;
+
+    IF v_source.service_id IS NOT NULL THEN
+      v_posted := public.post_service_commission(v_source.service_id, 'Reversed: ledger rebuild for ' || v_source.name);
+    ELSE
+      v_posted := public.post_sale_commission(v_source.sale_id, 'Reversed: ledger rebuild for ' || v_source.name);
+    END IF;
+
+    IF v_posted > 0 THEN
+      SELECT COALESCE(SUM(amount), 0) INTO v_after
+      FROM public.commission_ledger
+      WHERE service_id = v_source.service_id OR sale_id = v_source.sale_id;
+
+      v_entries := v_entries + v_posted;
+      v_corrections := v_corrections || jsonb_build_object(
+        'service_id', v_source.service_id,
+        'sale_id', v_source.sale_id,
+        'service_name', v_source.name,
+        'before', v_before,
+        'after', v_after
+      );
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'services_checked', v_checked,
+    'entries_posted', v_entries,
+    'corrections', v_corrections,
+    'message', CASE
+      WHEN jsonb_array_length(v_corrections) = 0 THEN format('Ledger verified: %s services and sales in sync', v_checked)
+      ELSE format('%s of %s services and sales corrected', jsonb_array_length(v_corrections), v_checked)
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to rebuild the commission ledger'
+    );
+END;
+$$;
+
+-- As before, but the payslip's service count leaves out retail sales; their commission is
+-- still part of the commission total
+CREATE OR REPLACE FUNCTION public.generate_payroll_run(p_month DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_period_start DATE := date_trunc('month', p_month)::DATE;
+  v_period_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month')::DATE;
+  v_run public.payroll_runs;
+  v_worker RECORD;
+  v_line_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM public.payroll_runs
+  WHERE branch_id = v_branch_id AND period_start = v_period_start
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.payroll_runs (branch_id, period_start, created_by)
+    VALUES (v_branch_id, v_period_start, v_user_id)
+    RETURNING * INTO v_run;
+  ELSIF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll for % has already been approved', to_char(v_period_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_worker IN
+    SELECT
+      w.id, w.name, w.role, COALESCE(w.payment_type, 'monthly') AS payment_type, COALESCE(w.salary, 0) AS salary,
+      COALESCE(a.attendance_ratio, 1) AS attendance_ratio,
+      COALESCE(c.commission, 0) AS commission,
+      COALESCE(c.services_count, 0) AS services_count
+    FROM public.workers w
+    LEFT JOIN public.get_attendance_summary(v_period_start) a ON a.worker_id = w.id
+    LEFT JOIN (
+      SELECT
+        worker_id,
+        SUM(amount) AS commission,
+        COALESCE(SUM(CASE WHEN entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (WHERE source = 'service'), 0) AS services_count
+      FROM public.commission_ledger
+      WHERE service_date >= v_period_start AND service_date < v_period_end
+      GROUP BY worker_id
+    ) c ON c.worker_id = w.id
+    WHERE w.branch_id = v_branch_id
+      AND w.hire_date < v_period_end
+  LOOP
+    INSERT INTO public.payroll_lines (
+      run_id, worker_id, worker_name, worker_role, payment_type,
+      base_salary, attendance_ratio, commission, services_count
+    ) VALUES (
+      v_run.id, v_worker.id, v_worker.name, v_worker.role, v_worker.payment_type,
+      CASE WHEN v_worker.payment_type = 'monthly' THEN ROUND(v_worker.salary * v_worker.attendance_ratio, 2) ELSE 0 END,
+      v_worker.attendance_ratio, v_worker.commission, v_worker.services_count
+    )
+    ON CONFLICT (run_id, worker_id) DO UPDATE
+    SET worker_name = EXCLUDED.worker_name,
+        worker_role = EXCLUDED.worker_role,
+        payment_type = EXCLUDED.payment_type,
+        base_salary = EXCLUDED.base_salary,
+        attendance_ratio = EXCLUDED.attendance_ratio,
+        commission = EXCLUDED.commission,
+        services_count = EXCLUDED.services_count
+    RETURNING id INTO v_line_id;
+
+    PERFORM public.refresh_payroll_line(v_line_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Workers on this payroll are owed until their payslip is paid
+  UPDATE public.workers
+  SET payment_status = 'pending'
+  WHERE id IN (SELECT worker_id FROM public.payroll_lines WHERE run_id = v_run.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'run_id', v_run.id,
+    'payslips', v_count,
+    'message', format('Payroll for %s prepared with %s payslips', to_char(v_period_start, 'FMMonth YYYY'), v_count)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to prepare payroll'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 6: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.commission_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Granted roles can view commission rules" ON public.commission_rules
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll'));
+
+CREATE POLICY "Admins can manage commission rules" ON public.commission_rules
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- ============================================================================
+-- STEP 7: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.commission_rules TO authenticated;
+-- Checkout records the sale as the signed-in user, so it is not callable anonymously
+REVOKE EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB, INTEGER, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.process_cart_checkout(TEXT, JSONB, TEXT, TEXT, TEXT, UUID, JSONB, INTEGER, UUID) TO authenticated;
+
+-- Internal: only reachable through the triggers and functions above
+REVOKE EXECUTE ON FUNCTION public.match_commission_rule(TEXT, UUID, TEXT, DECIMAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_commission_entries(UUID, UUID, TEXT, BOOLEAN, UUID, TIMESTAMP WITH TIME ZONE, DECIMAL, DECIMAL, DECIMAL, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.post_sale_commission(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.match_commission_rule IS 'The most specific active commission rule for a worker, category and month-to-date revenue';
+COMMENT ON FUNCTION public.process_cart_checkout IS 'Atomically records a sale of catalog variants, its items, tenders, redeemed points, the stock-out transactions and the worker credited';
+COMMENT ON FUNCTION public.rebuild_commission_ledger IS 'Re-checks every service and credited sale against the commission ledger and reports the corrections posted';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Commission rules installed: category, tier, retail and net-of-cost rates recorded per ledger entry';
+END $$;
@@ -0,0 +1,568 @@
+-- Migration: Tips shared between staff
+-- Date: 2025-01-01
+-- Description: Tips taken with any tender when a service is paid for or a shop sale checks
+--              out. A tip is split between one or more workers by percentage, and each
+--              worker's share is recorded as an allocation. Tips are kept apart from the
+--              amount due, so they never change a balance, and payroll now takes each
+--              worker's tips for the month from the allocations instead of manual entry.
+--              Cash tips stay in the till, so the drawer's expected cash includes them.
+
+-- ============================================================================
+-- STEP 1: Tips and their allocations
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.tips (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  service_id UUID REFERENCES public.services(id) ON DELETE CASCADE,
+  sale_id UUID REFERENCES public.sales_transactions(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'card', 'mobile_money', 'bank_transfer')),
+  reference_number TEXT,
+  received_by UUID REFERENCES auth.users(id) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tips_single_target CHECK ((service_id IS NULL) <> (sale_id IS NULL))
+);
+
+CREATE TABLE IF NOT EXISTS public.tip_allocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  tip_id UUID NOT NULL REFERENCES public.tips(id) ON DELETE CASCADE,
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  share_percent DECIMAL(5,2) NOT NULL CHECK (share_percent > 0 AND share_percent <= 100),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT tip_allocations_tip_worker_key UNIQUE (tip_id, worker_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tips_service_id ON public.tips(service_id);
+CREATE INDEX IF NOT EXISTS idx_tips_sale_id ON public.tips(sale_id);
+CREATE INDEX IF NOT EXISTS idx_tips_branch_created_at ON public.tips(branch_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_tip_allocations_worker_date ON public.tip_allocations(worker_id, created_at);
+
+COMMENT ON TABLE public.tips IS 'Gratuities taken on a service or sale, on top of the amount due';
+COMMENT ON TABLE public.tip_allocations IS 'Each worker''s share of a tip; payroll pays out the month''s allocations';
+COMMENT ON COLUMN public.tip_allocations.amount IS 'share_percent of the tip, rounded to cents; the last share takes the rounding difference';
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['tips', 'tip_allocations']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Record a tip
+-- ============================================================================
+
+-- p_allocations: [{ "worker_id": uuid, "share_percent": number }], shares adding up to 100
+CREATE OR REPLACE FUNCTION public.record_tip(
+  p_amount DECIMAL,
+  p_payment_method TEXT,
+  p_allocations JSONB,
+  p_service_id UUID DEFAULT NULL,
+  p_sale_id UUID DEFAULT NULL,
+  p_reference_number TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_customer_id UUID;
+  v_branch_id UUID;
+  v_status TEXT;
+  v_tip_id UUID;
+  v_allocation JSONB;
+  v_share DECIMAL(5,2);
+  v_total_share DECIMAL(7,2) := 0;
+  v_allocated DECIMAL(10,2) := 0;
+  v_share_amount DECIMAL(10,2);
+  v_count INTEGER;
+  v_index INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF (p_service_id IS NULL) = (p_sale_id IS NULL) THEN
+    RAISE EXCEPTION 'A tip must be for exactly one service or sale';
+  END IF;
+
+  IF p_service_id IS NOT NULL AND NOT public.has_feature(v_user_id, 'services') THEN
+    RAISE EXCEPTION 'Services access is required to take a tip on a service';
+  END IF;
+
+  IF p_sale_id IS NOT NULL AND NOT public.has_feature(v_user_id, 'inventory') THEN
+    RAISE EXCEPTION 'Inventory access is required to take a tip on a sale';
+  END IF;
+
+  IF COALESCE(p_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Tip amount must be greater than zero';
+  END IF;
+
+  IF p_allocations IS NULL OR jsonb_typeof(p_allocations) <> 'array' OR jsonb_array_length(p_allocations) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one worker to receive the tip';
+  END IF;
+
+  IF p_service_id IS NOT NULL THEN
+    SELECT customer_id, branch_id, status INTO v_customer_id, v_branch_id, v_status
+    FROM public.services
+    WHERE id = p_service_id
+      AND public.in_branch_scope(branch_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Service not found';
+    END IF;
+
+    IF v_status <> 'completed' THEN
+      RAISE EXCEPTION 'Tips can only be taken once the service is completed';
+    END IF;
+  ELSE
+    SELECT customer_id, branch_id, status INTO v_customer_id, v_branch_id, v_status
+    FROM public.sales_transactions
+    WHERE id = p_sale_id
+      AND public.in_branch_scope(branch_id);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Sale not found';
+    END IF;
+
+    IF v_status = 'cancelled' THEN
+      RAISE EXCEPTION 'Cannot take a tip on a cancelled sale';
+    END IF;
+  END IF;
+
+  -- Tips are paid out through payroll, so an approved month cannot take new ones
+  IF public.is_payroll_locked(v_branch_id, now()) THEN
+    RAISE EXCEPTION 'Payroll for % is locked; reopen the payroll run to take tips', to_char(now(), 'FMMonth YYYY');
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM((a->>'share_percent')::DECIMAL), 0)
+  INTO v_count, v_total_share
+  FROM jsonb_array_elements(p_allocations) a;
+
+  IF abs(v_total_share - 100) > 0.01 THEN
+    RAISE EXCEPTION 'Tip shares must add up to 100%% (they add up to %)', v_total_share || '%';
+  END IF;
+
+  INSERT INTO public.tips (
+    service_id, sale_id, customer_id, branch_id, amount, payment_method, reference_number, received_by
+  ) VALUES (
+    p_service_id,
+    p_sale_id,
+    v_customer_id,
+    v_branch_id,
+    ROUND(p_amount, 2),
+    p_payment_method,
+    NULLIF(btrim(COALESCE(p_reference_number, '')), ''),
+    v_user_id
+  ) RETURNING id INTO v_tip_id;
+
+  FOR v_allocation IN SELECT * FROM jsonb_array_elements(p_allocations)
+  LOOP
+    v_index := v_index + 1;
+    v_share := (v_allocation->>'share_percent')::DECIMAL(5,2);
+
+    IF NOT EXISTS (SELECT 1 FROM public.workers WHERE id = (v_allocation->>'worker_id')::UUID) THEN
+      RAISE EXCEPTION 'Worker not found: %', v_allocation->>'worker_id';
+    END IF;
+
+    -- The last share takes whatever rounding left over so the shares add up to the tip
+    v_share_amount := CASE
+      WHEN v_index = v_count THEN ROUND(p_amount, 2) - v_allocated
+      ELSE ROUND(p_amount * v_share / 100, 2)
+    END;
+
+    INSERT INTO public.tip_allocations (tip_id, worker_id, share_percent, amount)
+    VALUES (v_tip_id, (v_allocation->>'worker_id')::UUID, v_share, v_share_amount);
+
+    v_allocated := v_allocated + v_share_amount;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'tip_id', v_tip_id,
+    'amount', ROUND(p_amount, 2),
+    'workers', v_count,
+    'message', 'Tip recorded'
+  );
+
+EXCEPTION
+  WHEN unique_violation THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Each worker can only appear once in a tip split',
+      'message', 'Failed to record tip'
+    );
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to record tip'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Payroll takes tips from the allocations
+-- ============================================================================
+
+-- Create the branch's run for the month, or refresh a draft from current salaries, attendance,
+-- commission and tips. Bonus, advances and notes already entered on a draft are kept.
+CREATE OR REPLACE FUNCTION public.generate_payroll_run(p_month DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_period_start DATE := date_trunc('month', p_month)::DATE;
+  v_period_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month')::DATE;
+  v_run public.payroll_runs;
+  v_worker RECORD;
+  v_line_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM public.payroll_runs
+  WHERE branch_id = v_branch_id AND period_start = v_period_start
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.payroll_runs (branch_id, period_start, created_by)
+    VALUES (v_branch_id, v_period_start, v_user_id)
+    RETURNING * INTO v_run;
+  ELSIF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll for % has already been approved', to_char(v_period_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_worker IN
+    SELECT
+      w.id, w.name, w.role, COALESCE(w.payment_type, 'monthly') AS payment_type, COALESCE(w.salary, 0) AS salary,
+      COALESCE(a.attendance_ratio, 1) AS attendance_ratio,
+      COALESCE(c.commission, 0) AS commission,
+      COALESCE(c.services_count, 0) AS services_count,
+      COALESCE(t.tips, 0) AS tips
+    FROM public.workers w
+    LEFT JOIN public.get_attendance_summary(v_period_start) a ON a.worker_id = w.id
+    LEFT JOIN (
+      SELECT
+        worker_id,
+        SUM(amount) AS commission,
+        COALESCE(SUM(CASE WHEN entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (WHERE source = 'service'), 0) AS services_count
+      FROM public.commission_ledger
+      WHERE service_date >= v_period_start AND service_date < v_period_end
+      GROUP BY worker_id
+    ) c ON c.worker_id = w.id
+    LEFT JOIN (
+      SELECT worker_id, SUM(amount) AS tips
+      FROM public.tip_allocations
+      WHERE created_at >= v_period_start AND created_at < v_period_end
+      GROUP BY worker_id
+    ) t ON t.worker_id = w.id
+    WHERE w.branch_id = v_branch_id
+      AND w.hire_date < v_period_end
+  LOOP
+    INSERT INTO public.payroll_lines (
+      run_id, worker_id, worker_name, worker_role, payment_type,
+      base_salary, attendance_ratio, commission, services_count, tips
+    ) VALUES (
+      v_run.id, v_worker.id, v_worker.name, v_worker.role, v_worker.payment_type,
+      CASE WHEN v_worker.payment_type = 'monthly' THEN ROUND(v_worker.salary * v_worker.attendance_ratio, 2) ELSE 0 END,
+      v_worker.attendance_ratio, v_worker.commission, v_worker.services_count, v_worker.tips
+    )
+    ON CONFLICT (run_id, worker_id) DO UPDATE
+    SET worker_name = EXCLUDED.worker_name,
+        worker_role = EXCLUDED.worker_role,
+        payment_type = EXCLUDED.payment_type,
+        base_salary = EXCLUDED.base_salary,
+        attendance_ratio = EXCLUDED.attendance_ratio,
+        commission = EXCLUDED.commission,
+        services_count = EXCLUDED.services_count,
+        tips = EXCLUDED.tips
+    RETURNING id INTO v_line_id;
+
+    PERFORM public.refresh_payroll_line(v_line_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Workers on this payroll are owed until their payslip is paid
+  UPDATE public.workers
+  SET payment_status = 'pending'
+  WHERE id IN (SELECT worker_id FROM public.payroll_lines WHERE run_id = v_run.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'run_id', v_run.id,
+    'payslips', v_count,
+    'message', format('Payroll for %s prepared with %s payslips', to_char(v_period_start, 'FMMonth YYYY'), v_count)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to prepare payroll'
+    );
+END;
+$$;
+
+-- Tips are no longer typed in on the payslip
+DROP FUNCTION IF EXISTS public.update_payroll_line(UUID, DECIMAL, DECIMAL, DECIMAL, TEXT);
+
+-- Adjust the manual parts of a draft payslip
+CREATE OR REPLACE FUNCTION public.update_payroll_line(
+  p_line_id UUID,
+  p_bonus DECIMAL,
+  p_advances DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_net DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT r.status INTO v_status
+  FROM public.payroll_lines l
+  JOIN public.payroll_runs r ON r.id = l.run_id
+  WHERE l.id = p_line_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payslip not found';
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft payroll can be changed';
+  END IF;
+
+  UPDATE public.payroll_lines
+  SET bonus = COALESCE(p_bonus, 0),
+      advances = COALESCE(p_advances, 0),
+      notes = NULLIF(btrim(COALESCE(p_notes, '')), '')
+  WHERE id = p_line_id;
+
+  PERFORM public.refresh_payroll_line(p_line_id);
+
+  SELECT net_pay INTO v_net FROM public.payroll_lines WHERE id = p_line_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'net_pay', v_net,
+    'message', 'Payslip updated'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update payslip'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Cash tips in the drawer
+-- ============================================================================
+
+-- Same as before, with cash tips taken during the session counted in the expected cash
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_summary(p_session_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_session public.cash_drawer_sessions%ROWTYPE;
+  v_until TIMESTAMP WITH TIME ZONE;
+  v_by_method JSONB;
+  v_cash_payments DECIMAL(10,2);
+  v_service_payments DECIMAL(10,2);
+  v_sale_payments DECIMAL(10,2);
+  v_deposits DECIMAL(10,2);
+  v_payments_count INTEGER;
+  v_refunds DECIMAL(10,2);
+  v_cash_refunds DECIMAL(10,2);
+  v_refunds_count INTEGER;
+  v_cash_tips DECIMAL(10,2);
+  v_tips_count INTEGER;
+  v_expenses JSONB;
+  v_paid_out DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'cash_drawer') THEN
+    RAISE EXCEPTION 'Cash drawer access is required to view the till summary';
+  END IF;
+
+  SELECT * INTO v_session FROM public.cash_drawer_sessions WHERE id = p_session_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_until := COALESCE(v_session.closed_at, now());
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+    'payment_method', m.payment_method,
+    'amount', m.amount,
+    'count', m.count
+  ) ORDER BY m.payment_method), '[]'::jsonb)
+  INTO v_by_method
+  FROM (
+    SELECT p.payment_method, SUM(p.amount) AS amount, COUNT(*) AS count
+    FROM public.payments p
+    WHERE p.branch_id = v_session.branch_id
+      AND p.created_at >= v_session.opened_at AND p.created_at < v_until
+    GROUP BY p.payment_method
+  ) m;
+
+  SELECT
+    COALESCE(SUM(p.amount) FILTER (WHERE p.payment_method = 'cash'), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.service_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.sale_id IS NOT NULL), 0),
+    COALESCE(SUM(p.amount) FILTER (WHERE p.is_deposit), 0),
+    COUNT(*)
+  INTO v_cash_payments, v_service_payments, v_sale_payments, v_deposits, v_payments_count
+  FROM public.payments p
+  WHERE p.branch_id = v_session.branch_id
+    AND p.created_at >= v_session.opened_at AND p.created_at < v_until;
+
+  -- Refunds go back the way the sale was paid, so only the cash share of each refund, taken
+  -- from the sale's tenders, leaves the till. This covers split sales paid partly in cash.
+  SELECT
+    COALESCE(SUM(r.total_amount), 0),
+    COALESCE(SUM(ROUND(r.total_amount * COALESCE(t.cash_paid / NULLIF(t.total_paid, 0), 0), 2)), 0),
+    COUNT(*)
+  INTO v_refunds, v_cash_refunds, v_refunds_count
+  FROM public.sales_refunds r
+  JOIN public.sales_transactions st ON st.id = r.sale_id
+  LEFT JOIN LATERAL (
+    SELECT
+      SUM(p.amount) FILTER (WHERE p.payment_method = 'cash') AS cash_paid,
+      SUM(p.amount) AS total_paid
+    FROM public.payments p
+    WHERE p.sale_id = r.sale_id
+  ) t ON true
+  WHERE st.branch_id = v_session.branch_id
+    AND r.created_at >= v_session.opened_at AND r.created_at < v_until;
+
+  -- Cash tips are left in the till and paid to the workers through payroll
+  SELECT
+    COALESCE(SUM(t.amount) FILTER (WHERE t.payment_method = 'cash'), 0),
+    COUNT(*) FILTER (WHERE t.payment_method = 'cash')
+  INTO v_cash_tips, v_tips_count
+  FROM public.tips t
+  WHERE t.branch_id = v_session.branch_id
+    AND t.created_at >= v_session.opened_at AND t.created_at < v_until;
+
+  SELECT
+    COALESCE(SUM(e.amount), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'id', e.id,
+      'name', e.name,
+      'category', e.category,
+      'amount', e.amount,
+      'created_at', e.created_at
+    ) ORDER BY e.created_at), '[]'::jsonb)
+  INTO v_paid_out, v_expenses
+  FROM public.expenses e
+  WHERE e.cash_drawer_session_id = p_session_id;
+
+  RETURN jsonb_build_object(
+    'session_id', v_session.id,
+    'branch_id', v_session.branch_id,
+    'branch_name', (SELECT name FROM public.branches WHERE id = v_session.branch_id),
+    'status', v_session.status,
+    'opened_at', v_session.opened_at,
+    'closed_at', v_session.closed_at,
+    'opened_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.opened_by),
+    'closed_by_name', (SELECT full_name FROM public.profiles WHERE user_id = v_session.closed_by),
+    'opening_float', v_session.opening_float,
+    'payments_by_method', v_by_method,
+    'payments_count', v_payments_count,
+    'service_payments', v_service_payments,
+    'sale_payments', v_sale_payments,
+    'deposits', v_deposits,
+    'cash_payments', v_cash_payments,
+    'refunds_total', v_refunds,
+    'cash_refunds', v_cash_refunds,
+    'refunds_count', v_refunds_count,
+    'cash_tips', v_cash_tips,
+    'tips_count', v_tips_count,
+    'paid_out_total', v_paid_out,
+    'paid_out', v_expenses,
+    'expected_cash', v_session.opening_float + v_cash_payments + v_cash_tips - v_cash_refunds - v_paid_out,
+    'counted_cash', v_session.counted_cash,
+    'variance', v_session.variance,
+    'notes', v_session.notes
+  );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 5: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.tips ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tip_allocations ENABLE ROW LEVEL SECURITY;
+
+-- Tips are written through record_tip
+CREATE POLICY "Authenticated users can view tips" ON public.tips
+FOR SELECT USING (auth.uid() IS NOT NULL AND public.in_branch_scope(branch_id));
+
+CREATE POLICY "Admins can manage tips" ON public.tips
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+CREATE POLICY "Authenticated users can view tip allocations" ON public.tip_allocations
+FOR SELECT USING (
+  auth.uid() IS NOT NULL
+  AND EXISTS (SELECT 1 FROM public.tips t WHERE t.id = tip_id AND public.in_branch_scope(t.branch_id))
+);
+
+CREATE POLICY "Admins can manage tip allocations" ON public.tip_allocations
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- ============================================================================
+-- STEP 6: Permissions
+-- ============================================================================
+
+GRANT SELECT ON public.tips TO authenticated;
+GRANT SELECT ON public.tip_allocations TO authenticated;
+GRANT EXECUTE ON FUNCTION public.record_tip(DECIMAL, TEXT, JSONB, UUID, UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, DECIMAL, DECIMAL, TEXT) TO authenticated;
+
+COMMENT ON FUNCTION public.record_tip IS 'Records a tip on a completed service or a sale and splits it between workers by percentage';
+COMMENT ON FUNCTION public.generate_payroll_run IS 'Creates or refreshes the branch''s draft payroll for a month, with tips from the tip allocations';
+COMMENT ON FUNCTION public.get_cash_drawer_summary IS 'Z-report totals for a drawer session: tenders, refunds, cash tips, pay-outs and expected cash';
+COMMENT ON FUNCTION public.update_payroll_line IS 'Sets the bonus, advances and notes on a draft payslip';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Tips installed: tips split between workers by percentage and paid out through payroll';
+END $$;
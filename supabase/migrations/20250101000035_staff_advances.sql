@@ -0,0 +1,402 @@
+-- Migration: Salary advances and staff loans
+-- Date: 2025-01-01
+-- Description: A ledger of advances against pay and staff loans per worker. Each one is
+--              requested with an amount, the date it was given, a monthly installment and the
+--              first payroll month to repay from, and only counts once an administrator
+--              approves it. Payroll deducts the installments automatically: every approved
+--              advance with a balance takes its installment (or what is left of it) from the
+--              worker's payslip, up to what their pay after statutory deductions allows.
+--              Advances on a payslip are no longer typed in by hand.
+
+-- ============================================================================
+-- STEP 1: Advances and repayments
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS public.staff_advances (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES public.workers(id) ON DELETE CASCADE,
+  branch_id UUID NOT NULL DEFAULT public.current_branch_id() REFERENCES public.branches(id),
+  kind TEXT NOT NULL DEFAULT 'advance' CHECK (kind IN ('advance', 'loan')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  issued_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  installment_amount DECIMAL(10,2) NOT NULL CHECK (installment_amount > 0),
+  first_deduction_month DATE NOT NULL CHECK (first_deduction_month = date_trunc('month', first_deduction_month)::DATE),
+  reason TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  approved_by UUID REFERENCES auth.users(id),
+  approved_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT staff_advances_installment_check CHECK (installment_amount <= amount)
+);
+
+CREATE TRIGGER update_staff_advances_updated_at
+BEFORE UPDATE ON public.staff_advances
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Repayments are taken on a payslip; removing the payslip line removes its repayments
+CREATE TABLE IF NOT EXISTS public.staff_advance_repayments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  advance_id UUID NOT NULL REFERENCES public.staff_advances(id) ON DELETE CASCADE,
+  payroll_line_id UUID NOT NULL REFERENCES public.payroll_lines(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT staff_advance_repayments_advance_line_key UNIQUE (advance_id, payroll_line_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_staff_advances_worker_id ON public.staff_advances(worker_id);
+CREATE INDEX IF NOT EXISTS idx_staff_advance_repayments_line_id ON public.staff_advance_repayments(payroll_line_id);
+
+COMMENT ON TABLE public.staff_advances IS 'Advances against pay and staff loans, repaid in installments through payroll';
+COMMENT ON COLUMN public.staff_advances.installment_amount IS 'Deducted from each payslip from first_deduction_month until the balance is repaid';
+COMMENT ON COLUMN public.staff_advances.first_deduction_month IS 'First day of the first payroll month that repays the advance';
+COMMENT ON TABLE public.staff_advance_repayments IS 'Installments deducted from payslips; those on draft payroll are still scheduled';
+COMMENT ON COLUMN public.payroll_lines.advances IS 'Advance and loan installments deducted, itemised in staff_advance_repayments';
+
+DO $$
+DECLARE
+  v_table TEXT;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['staff_advances', 'staff_advance_repayments']
+  LOOP
+    EXECUTE format('DROP TRIGGER IF EXISTS audit_%1$s_changes ON public.%1$I', v_table);
+    EXECUTE format(
+      'CREATE TRIGGER audit_%1$s_changes AFTER INSERT OR UPDATE OR DELETE ON public.%1$I
+       FOR EACH ROW EXECUTE FUNCTION public.audit_row_change()',
+      v_table
+    );
+  END LOOP;
+END $$;
+
+-- ============================================================================
+-- STEP 2: Approval
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.set_staff_advance_status(p_advance_id UUID, p_approve BOOLEAN)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_advance public.staff_advances;
+BEGIN
+  IF public.get_user_role(auth.uid()) <> 'admin'::app_role THEN
+    RAISE EXCEPTION 'Only administrators can approve advances and loans';
+  END IF;
+
+  SELECT * INTO v_advance FROM public.staff_advances WHERE id = p_advance_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Advance not found';
+  END IF;
+
+  IF v_advance.status <> 'pending' THEN
+    RAISE EXCEPTION 'This % has already been %', v_advance.kind, v_advance.status;
+  END IF;
+
+  UPDATE public.staff_advances
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      approved_by = auth.uid(),
+      approved_at = now()
+  WHERE id = p_advance_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'message', CASE
+      WHEN p_approve THEN format('Approved; repayments start with %s payroll', to_char(v_advance.first_deduction_month, 'FMMonth YYYY'))
+      ELSE format('The %s was rejected', v_advance.kind)
+    END
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update the advance'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 3: Payroll deducts the installments
+-- ============================================================================
+
+-- Re-take a draft payslip's installments: each approved advance due by the pay period takes its
+-- installment, or the balance if smaller, oldest first, while the pay after deductions covers it
+CREATE OR REPLACE FUNCTION public.apply_advance_repayments(p_line_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_line public.payroll_lines;
+  v_period_start DATE;
+  v_available DECIMAL(10,2);
+  v_advance RECORD;
+  v_amount DECIMAL(10,2);
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  SELECT * INTO v_line FROM public.payroll_lines WHERE id = p_line_id FOR UPDATE;
+  SELECT period_start INTO v_period_start FROM public.payroll_runs WHERE id = v_line.run_id;
+
+  DELETE FROM public.staff_advance_repayments WHERE payroll_line_id = p_line_id;
+
+  UPDATE public.payroll_lines SET advances = 0 WHERE id = p_line_id;
+  PERFORM public.refresh_payroll_line(p_line_id);
+
+  SELECT net_pay INTO v_available FROM public.payroll_lines WHERE id = p_line_id;
+
+  FOR v_advance IN
+    SELECT
+      a.id,
+      a.installment_amount,
+      -- Only approved or paid runs have actually taken their installments; other drafts may still change
+      a.amount - COALESCE((
+        SELECT SUM(r.amount)
+        FROM public.staff_advance_repayments r
+        JOIN public.payroll_lines l ON l.id = r.payroll_line_id
+        JOIN public.payroll_runs pr ON pr.id = l.run_id
+        WHERE r.advance_id = a.id
+          AND pr.status IN ('approved', 'paid')
+      ), 0) AS outstanding
+    FROM public.staff_advances a
+    WHERE a.worker_id = v_line.worker_id
+      AND a.status = 'approved'
+      AND a.first_deduction_month <= v_period_start
+    ORDER BY a.issued_on, a.created_at
+  LOOP
+    v_amount := LEAST(v_advance.installment_amount, v_advance.outstanding, v_available);
+
+    IF v_amount > 0 THEN
+      INSERT INTO public.staff_advance_repayments (advance_id, payroll_line_id, amount)
+      VALUES (v_advance.id, p_line_id, v_amount);
+
+      v_available := v_available - v_amount;
+      v_total := v_total + v_amount;
+    END IF;
+  END LOOP;
+
+  IF v_total > 0 THEN
+    UPDATE public.payroll_lines SET advances = v_total WHERE id = p_line_id;
+    PERFORM public.refresh_payroll_line(p_line_id);
+  END IF;
+END;
+$$;
+
+-- Create the branch's run for the month, or refresh a draft from current salaries, attendance,
+-- commission, tips and advance installments. Bonus and notes already entered on a draft are kept.
+CREATE OR REPLACE FUNCTION public.generate_payroll_run(p_month DATE)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_branch_id UUID := public.current_branch_id();
+  v_period_start DATE := date_trunc('month', p_month)::DATE;
+  v_period_end DATE := (date_trunc('month', p_month) + INTERVAL '1 month')::DATE;
+  v_run public.payroll_runs;
+  v_worker RECORD;
+  v_line_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.has_feature(v_user_id, 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT * INTO v_run
+  FROM public.payroll_runs
+  WHERE branch_id = v_branch_id AND period_start = v_period_start
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.payroll_runs (branch_id, period_start, created_by)
+    VALUES (v_branch_id, v_period_start, v_user_id)
+    RETURNING * INTO v_run;
+  ELSIF v_run.status <> 'draft' THEN
+    RAISE EXCEPTION 'Payroll for % has already been approved', to_char(v_period_start, 'FMMonth YYYY');
+  END IF;
+
+  FOR v_worker IN
+    SELECT
+      w.id, w.name, w.role, COALESCE(w.payment_type, 'monthly') AS payment_type, COALESCE(w.salary, 0) AS salary,
+      COALESCE(a.attendance_ratio, 1) AS attendance_ratio,
+      COALESCE(c.commission, 0) AS commission,
+      COALESCE(c.services_count, 0) AS services_count,
+      COALESCE(t.tips, 0) AS tips
+    FROM public.workers w
+    LEFT JOIN public.get_attendance_summary(v_period_start) a ON a.worker_id = w.id
+    LEFT JOIN (
+      SELECT
+        worker_id,
+        SUM(amount) AS commission,
+        COALESCE(SUM(CASE WHEN entry_type = 'earned' THEN 1 ELSE -1 END) FILTER (WHERE source = 'service'), 0) AS services_count
+      FROM public.commission_ledger
+      WHERE service_date >= v_period_start AND service_date < v_period_end
+      GROUP BY worker_id
+    ) c ON c.worker_id = w.id
+    LEFT JOIN (
+      SELECT worker_id, SUM(amount) AS tips
+      FROM public.tip_allocations
+      WHERE created_at >= v_period_start AND created_at < v_period_end
+      GROUP BY worker_id
+    ) t ON t.worker_id = w.id
+    WHERE w.branch_id = v_branch_id
+      AND w.hire_date < v_period_end
+  LOOP
+    INSERT INTO public.payroll_lines (
+      run_id, worker_id, worker_name, worker_role, payment_type,
+      base_salary, attendance_ratio, commission, services_count, tips
+    ) VALUES (
+      v_run.id, v_worker.id, v_worker.name, v_worker.role, v_worker.payment_type,
+      CASE WHEN v_worker.payment_type = 'monthly' THEN ROUND(v_worker.salary * v_worker.attendance_ratio, 2) ELSE 0 END,
+      v_worker.attendance_ratio, v_worker.commission, v_worker.services_count, v_worker.tips
+    )
+    ON CONFLICT (run_id, worker_id) DO UPDATE
+    SET worker_name = EXCLUDED.worker_name,
+        worker_role = EXCLUDED.worker_role,
+        payment_type = EXCLUDED.payment_type,
+        base_salary = EXCLUDED.base_salary,
+        attendance_ratio = EXCLUDED.attendance_ratio,
+        commission = EXCLUDED.commission,
+        services_count = EXCLUDED.services_count,
+        tips = EXCLUDED.tips
+    RETURNING id INTO v_line_id;
+
+    PERFORM public.apply_advance_repayments(v_line_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  -- Workers on this payroll are owed until their payslip is paid
+  UPDATE public.workers
+  SET payment_status = 'pending'
+  WHERE id IN (SELECT worker_id FROM public.payroll_lines WHERE run_id = v_run.id);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'run_id', v_run.id,
+    'payslips', v_count,
+    'message', format('Payroll for %s prepared with %s payslips', to_char(v_period_start, 'FMMonth YYYY'), v_count)
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to prepare payroll'
+    );
+END;
+$$;
+
+-- Advances are no longer typed in on the payslip
+DROP FUNCTION IF EXISTS public.update_payroll_line(UUID, DECIMAL, DECIMAL, TEXT);
+
+-- Adjust the manual parts of a draft payslip; installments are re-taken against the new pay
+CREATE OR REPLACE FUNCTION public.update_payroll_line(
+  p_line_id UUID,
+  p_bonus DECIMAL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+  v_net DECIMAL(10,2);
+BEGIN
+  IF NOT public.has_feature(auth.uid(), 'payroll') THEN
+    RAISE EXCEPTION 'You do not have permission to run payroll';
+  END IF;
+
+  SELECT r.status INTO v_status
+  FROM public.payroll_lines l
+  JOIN public.payroll_runs r ON r.id = l.run_id
+  WHERE l.id = p_line_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Payslip not found';
+  END IF;
+
+  IF v_status <> 'draft' THEN
+    RAISE EXCEPTION 'Only draft payroll can be changed';
+  END IF;
+
+  UPDATE public.payroll_lines
+  SET bonus = COALESCE(p_bonus, 0),
+      notes = NULLIF(btrim(COALESCE(p_notes, '')), '')
+  WHERE id = p_line_id;
+
+  PERFORM public.apply_advance_repayments(p_line_id);
+
+  SELECT net_pay INTO v_net FROM public.payroll_lines WHERE id = p_line_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'net_pay', v_net,
+    'message', 'Payslip updated'
+  );
+
+EXCEPTION
+  WHEN OTHERS THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', SQLERRM,
+      'message', 'Failed to update payslip'
+    );
+END;
+$$;
+
+-- ============================================================================
+-- STEP 4: Row Level Security
+-- ============================================================================
+
+ALTER TABLE public.staff_advances ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.staff_advance_repayments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Granted roles can view staff advances" ON public.staff_advances
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll') AND public.in_branch_scope(branch_id));
+
+-- Anyone running payroll can record a request; approval goes through set_staff_advance_status
+CREATE POLICY "Granted roles can request staff advances" ON public.staff_advances
+FOR INSERT WITH CHECK (
+  public.has_feature(auth.uid(), 'payroll')
+  AND status = 'pending'
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Admins can manage staff advances" ON public.staff_advances
+FOR ALL USING (public.get_user_role(auth.uid()) = 'admin'::app_role);
+
+-- Repayments are only written by payroll
+CREATE POLICY "Granted roles can view advance repayments" ON public.staff_advance_repayments
+FOR SELECT USING (public.has_feature(auth.uid(), 'payroll'));
+
+-- ============================================================================
+-- STEP 5: Permissions
+-- ============================================================================
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.staff_advances TO authenticated;
+GRANT SELECT ON public.staff_advance_repayments TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_staff_advance_status(UUID, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.update_payroll_line(UUID, DECIMAL, TEXT) TO authenticated;
+
+-- Internal: only reachable through the functions above
+REVOKE EXECUTE ON FUNCTION public.apply_advance_repayments(UUID) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.set_staff_advance_status IS 'Approves a pending advance or loan so payroll starts repaying it, or rejects it';
+COMMENT ON FUNCTION public.generate_payroll_run IS 'Creates or refreshes the branch''s draft payroll for a month, with tips and advance installments';
+COMMENT ON FUNCTION public.update_payroll_line IS 'Sets the bonus and notes on a draft payslip and re-takes its advance installments';
+
+DO $$
+BEGIN
+  RAISE NOTICE 'Staff advances installed: advances and loans repaid in installments through payroll';
+END $$;